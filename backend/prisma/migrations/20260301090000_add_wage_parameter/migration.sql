@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "WageParameter" (
+    "id" TEXT NOT NULL,
+    "effectiveYear" INTEGER NOT NULL,
+    "effectiveMonth" INTEGER NOT NULL,
+    "officialPayment" DOUBLE PRECISION NOT NULL,
+    "officialWorkingDays" INTEGER NOT NULL DEFAULT 30,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WageParameter_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WageParameter_effectiveYear_effectiveMonth_key" ON "WageParameter"("effectiveYear", "effectiveMonth");
+
+-- Seed: previously hard-coded official base (28.075 TL / 30 gün)
+INSERT INTO "WageParameter" ("id", "effectiveYear", "effectiveMonth", "officialPayment", "officialWorkingDays", "description", "updatedAt")
+VALUES ('00000000-0000-0000-0000-000000000001', 2000, 1, 28075, 30, 'Başlangıç değeri', CURRENT_TIMESTAMP);
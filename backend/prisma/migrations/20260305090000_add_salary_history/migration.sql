@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "SalaryHistory" (
+    "id" TEXT NOT NULL,
+    "employeeId" TEXT NOT NULL,
+    "effectiveFrom" TIMESTAMP(3) NOT NULL,
+    "salary" DOUBLE PRECISION NOT NULL,
+    "workingDays" INTEGER NOT NULL DEFAULT 30,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SalaryHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SalaryHistory_employeeId_idx" ON "SalaryHistory"("employeeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SalaryHistory_employeeId_effectiveFrom_key" ON "SalaryHistory"("employeeId", "effectiveFrom");
+
+-- AddForeignKey
+ALTER TABLE "SalaryHistory" ADD CONSTRAINT "SalaryHistory_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: mevcut maaş bilgisi işe giriş tarihinden itibaren geçerli kabul edilir
+INSERT INTO "SalaryHistory" ("id", "employeeId", "effectiveFrom", "salary", "workingDays", "note", "createdAt", "updatedAt")
+SELECT gen_random_uuid()::text, "id", date_trunc('day', "startDate"), "salary", "workingDays", 'Başlangıç kaydı', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+FROM "Employee";
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "PayrollPeriod" (
+    "id" TEXT NOT NULL,
+    "month" INTEGER NOT NULL,
+    "year" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'OPEN',
+    "reviewStartedAt" TIMESTAMP(3),
+    "closedAt" TIMESTAMP(3),
+    "closedBy" TEXT,
+    "reopenedAt" TIMESTAMP(3),
+    "reopenedBy" TEXT,
+    "snapshot" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PayrollPeriod_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PayrollPeriod_month_year_key" ON "PayrollPeriod"("month", "year");
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "TaxParameter" (
+    "id" TEXT NOT NULL,
+    "year" INTEGER NOT NULL,
+    "minimumWageGross" DOUBLE PRECISION NOT NULL,
+    "sgkCeiling" DOUBLE PRECISION NOT NULL,
+    "sgkEmployeeRate" DOUBLE PRECISION NOT NULL DEFAULT 0.14,
+    "unemploymentEmployeeRate" DOUBLE PRECISION NOT NULL DEFAULT 0.01,
+    "sgkEmployerRate" DOUBLE PRECISION NOT NULL,
+    "unemploymentEmployerRate" DOUBLE PRECISION NOT NULL DEFAULT 0.02,
+    "stampTaxRate" DOUBLE PRECISION NOT NULL DEFAULT 0.00759,
+    "incomeTaxBrackets" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TaxParameter_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaxParameter_year_key" ON "TaxParameter"("year");
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "TaxLedgerEntry" (
+    "id" TEXT NOT NULL,
+    "employeeId" TEXT NOT NULL,
+    "year" INTEGER NOT NULL,
+    "month" INTEGER NOT NULL,
+    "grossPay" DOUBLE PRECISION NOT NULL,
+    "taxBase" DOUBLE PRECISION NOT NULL,
+    "cumulativeTaxBase" DOUBLE PRECISION NOT NULL,
+    "incomeTax" DOUBLE PRECISION NOT NULL,
+    "cumulativeIncomeTax" DOUBLE PRECISION NOT NULL,
+    "stampTax" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TaxLedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaxLedgerEntry_year_month_idx" ON "TaxLedgerEntry"("year", "month");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaxLedgerEntry_employeeId_year_month_key" ON "TaxLedgerEntry"("employeeId", "year", "month");
+
+-- AddForeignKey
+ALTER TABLE "TaxLedgerEntry" ADD CONSTRAINT "TaxLedgerEntry_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "WageParameter" ADD COLUMN "severanceCeiling" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "TerminationSettlement" (
+    "id" TEXT NOT NULL,
+    "employeeId" TEXT NOT NULL,
+    "terminationDate" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "noticeGiven" BOOLEAN NOT NULL DEFAULT false,
+    "serviceDays" INTEGER NOT NULL,
+    "serviceYears" INTEGER NOT NULL,
+    "serviceMonths" INTEGER NOT NULL,
+    "serviceRemainder" INTEGER NOT NULL,
+    "monthlySalary" DOUBLE PRECISION NOT NULL,
+    "dailySalary" DOUBLE PRECISION NOT NULL,
+    "severanceCeiling" DOUBLE PRECISION,
+    "severanceBase" DOUBLE PRECISION NOT NULL,
+    "severanceGross" DOUBLE PRECISION NOT NULL,
+    "severanceStampTax" DOUBLE PRECISION NOT NULL,
+    "severanceNet" DOUBLE PRECISION NOT NULL,
+    "noticeWeeks" INTEGER NOT NULL,
+    "noticePay" DOUBLE PRECISION NOT NULL,
+    "unusedLeaveDays" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "unusedLeavePay" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "totalGross" DOUBLE PRECISION NOT NULL,
+    "note" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TerminationSettlement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TerminationSettlement_employeeId_idx" ON "TerminationSettlement"("employeeId");
+
+-- AddForeignKey
+ALTER TABLE "TerminationSettlement" ADD CONSTRAINT "TerminationSettlement_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "PublicHoliday" (
+    "id" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "year" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "isHalfDay" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PublicHoliday_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PublicHoliday_date_key" ON "PublicHoliday"("date");
+
+-- CreateIndex
+CREATE INDEX "PublicHoliday_year_idx" ON "PublicHoliday"("year");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "WageParameter" ADD COLUMN "dailyWorkingHours" DOUBLE PRECISION NOT NULL DEFAULT 8;
+
+-- AlterTable
+ALTER TABLE "OvertimeEntry" ADD COLUMN "hourlyRate" DOUBLE PRECISION;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "WageParameter" ADD COLUMN "overtimeWarningHours" DOUBLE PRECISION NOT NULL DEFAULT 225,
+ADD COLUMN "overtimeLimitHours" DOUBLE PRECISION NOT NULL DEFAULT 270;
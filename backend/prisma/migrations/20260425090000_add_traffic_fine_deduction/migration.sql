@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "TrafficFineDeduction" (
+    "id" TEXT NOT NULL,
+    "trafficFineId" TEXT NOT NULL,
+    "employeeId" TEXT NOT NULL,
+    "month" INTEGER NOT NULL,
+    "year" INTEGER NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "paymentId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TrafficFineDeduction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TrafficFineDeduction_paymentId_key" ON "TrafficFineDeduction"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "TrafficFineDeduction_employeeId_month_year_idx" ON "TrafficFineDeduction"("employeeId", "month", "year");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TrafficFineDeduction_trafficFineId_month_year_key" ON "TrafficFineDeduction"("trafficFineId", "month", "year");
+
+-- AddForeignKey
+ALTER TABLE "TrafficFineDeduction" ADD CONSTRAINT "TrafficFineDeduction_trafficFineId_fkey" FOREIGN KEY ("trafficFineId") REFERENCES "TrafficFine"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TrafficFineDeduction" ADD CONSTRAINT "TrafficFineDeduction_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "TrafficFinePayment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "TrafficFine" ADD COLUMN "notificationDate" TIMESTAMP(3);
+
+-- Mevcut cezalar ceza tarihinde tebliğ edilmiş sayılır
+UPDATE "TrafficFine" SET "notificationDate" = "fineDate";
+
+-- AlterTable
+ALTER TABLE "TrafficFine" ALTER COLUMN "notificationDate" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "TrafficFine_notificationDate_idx" ON "TrafficFine"("notificationDate");
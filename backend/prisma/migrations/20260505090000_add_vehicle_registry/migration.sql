@@ -0,0 +1,54 @@
+-- AlterTable
+ALTER TABLE "TrafficFine" ADD COLUMN "vehicleId" TEXT,
+ADD COLUMN "driverResolution" TEXT;
+
+-- CreateTable
+CREATE TABLE "Vehicle" (
+    "id" TEXT NOT NULL,
+    "plate" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Vehicle_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "VehicleAssignment" (
+    "id" TEXT NOT NULL,
+    "vehicleId" TEXT NOT NULL,
+    "employeeId" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3),
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "VehicleAssignment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TrafficFine_vehicleId_idx" ON "TrafficFine"("vehicleId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Vehicle_plate_key" ON "Vehicle"("plate");
+
+-- CreateIndex
+CREATE INDEX "Vehicle_status_idx" ON "Vehicle"("status");
+
+-- CreateIndex
+CREATE INDEX "VehicleAssignment_vehicleId_startDate_idx" ON "VehicleAssignment"("vehicleId", "startDate");
+
+-- CreateIndex
+CREATE INDEX "VehicleAssignment_employeeId_idx" ON "VehicleAssignment"("employeeId");
+
+-- AddForeignKey
+ALTER TABLE "TrafficFine" ADD CONSTRAINT "TrafficFine_vehicleId_fkey" FOREIGN KEY ("vehicleId") REFERENCES "Vehicle"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VehicleAssignment" ADD CONSTRAINT "VehicleAssignment_vehicleId_fkey" FOREIGN KEY ("vehicleId") REFERENCES "Vehicle"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VehicleAssignment" ADD CONSTRAINT "VehicleAssignment_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
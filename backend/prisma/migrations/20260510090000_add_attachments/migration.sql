@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "Attachment" (
+    "id" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "checksum" TEXT NOT NULL,
+    "description" TEXT,
+    "uploadedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "trafficFineId" TEXT,
+    "trafficFinePaymentId" TEXT,
+    "employeeId" TEXT,
+    "payrollEntryId" TEXT,
+
+    CONSTRAINT "Attachment_pkey" PRIMARY KEY ("id")
+);
+
+-- Her ek tam olarak bir kayda bağlı olmalı
+ALTER TABLE "Attachment" ADD CONSTRAINT "Attachment_single_owner_check" CHECK (
+    num_nonnulls("trafficFineId", "trafficFinePaymentId", "employeeId", "payrollEntryId") = 1
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Attachment_storageKey_key" ON "Attachment"("storageKey");
+
+-- CreateIndex
+CREATE INDEX "Attachment_trafficFineId_idx" ON "Attachment"("trafficFineId");
+
+-- CreateIndex
+CREATE INDEX "Attachment_trafficFinePaymentId_idx" ON "Attachment"("trafficFinePaymentId");
+
+-- CreateIndex
+CREATE INDEX "Attachment_employeeId_idx" ON "Attachment"("employeeId");
+
+-- CreateIndex
+CREATE INDEX "Attachment_payrollEntryId_idx" ON "Attachment"("payrollEntryId");
+
+-- AddForeignKey
+ALTER TABLE "Attachment" ADD CONSTRAINT "Attachment_trafficFineId_fkey" FOREIGN KEY ("trafficFineId") REFERENCES "TrafficFine"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Attachment" ADD CONSTRAINT "Attachment_trafficFinePaymentId_fkey" FOREIGN KEY ("trafficFinePaymentId") REFERENCES "TrafficFinePayment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Attachment" ADD CONSTRAINT "Attachment_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Attachment" ADD CONSTRAINT "Attachment_payrollEntryId_fkey" FOREIGN KEY ("payrollEntryId") REFERENCES "PayrollEntry"("id") ON DELETE CASCADE ON UPDATE CASCADE;
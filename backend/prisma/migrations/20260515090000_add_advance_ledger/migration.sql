@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "Advance" (
+    "id" TEXT NOT NULL,
+    "employeeId" TEXT NOT NULL,
+    "advanceDate" TIMESTAMP(3) NOT NULL,
+    "month" INTEGER NOT NULL,
+    "year" INTEGER NOT NULL,
+    "kind" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "note" TEXT,
+    "approvedBy" TEXT NOT NULL,
+    "createdBy" TEXT NOT NULL,
+    "sourceMonth" INTEGER,
+    "sourceYear" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Advance_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Advance_employeeId_idx" ON "Advance"("employeeId");
+
+-- CreateIndex
+CREATE INDEX "Advance_month_year_idx" ON "Advance"("month", "year");
+
+-- CreateIndex
+CREATE INDEX "Advance_sourceMonth_sourceYear_idx" ON "Advance"("sourceMonth", "sourceYear");
+
+-- AddForeignKey
+ALTER TABLE "Advance" ADD CONSTRAINT "Advance_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Mevcut puantaj avans tutarları ayın ilk gününe tarihli tek hareket olarak aktarılır
+INSERT INTO "Advance" ("id", "employeeId", "advanceDate", "month", "year", "kind", "amount", "note", "approvedBy", "createdBy", "updatedAt")
+SELECT gen_random_uuid()::text, "employeeId", make_date("year", "month", 1)::timestamp, "month", "year", 'CASH', "advance",
+       'Puantajdaki avans tutarından aktarıldı', 'Aktarım', 'Aktarım', CURRENT_TIMESTAMP
+FROM "PayrollEntry"
+WHERE "advance" > 0;
+
+INSERT INTO "Advance" ("id", "employeeId", "advanceDate", "month", "year", "kind", "amount", "note", "approvedBy", "createdBy", "updatedAt")
+SELECT gen_random_uuid()::text, "employeeId", make_date("year", "month", 1)::timestamp, "month", "year", 'OFFICIAL', "officialAdvance",
+       'Puantajdaki resmi avans tutarından aktarıldı', 'Aktarım', 'Aktarım', CURRENT_TIMESTAMP
+FROM "PayrollEntry"
+WHERE "officialAdvance" > 0;
@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "PayComponentType" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "channel" TEXT NOT NULL,
+    "isTaxable" BOOLEAN NOT NULL DEFAULT false,
+    "isSgkLiable" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PayComponentType_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PayrollLineItem" (
+    "id" TEXT NOT NULL,
+    "payrollEntryId" TEXT NOT NULL,
+    "componentTypeId" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "description" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PayrollLineItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PayComponentType_name_key" ON "PayComponentType"("name");
+
+-- CreateIndex
+CREATE INDEX "PayrollLineItem_payrollEntryId_idx" ON "PayrollLineItem"("payrollEntryId");
+
+-- CreateIndex
+CREATE INDEX "PayrollLineItem_componentTypeId_idx" ON "PayrollLineItem"("componentTypeId");
+
+-- AddForeignKey
+ALTER TABLE "PayrollLineItem" ADD CONSTRAINT "PayrollLineItem_payrollEntryId_fkey" FOREIGN KEY ("payrollEntryId") REFERENCES "PayrollEntry"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PayrollLineItem" ADD CONSTRAINT "PayrollLineItem_componentTypeId_fkey" FOREIGN KEY ("componentTypeId") REFERENCES "PayComponentType"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
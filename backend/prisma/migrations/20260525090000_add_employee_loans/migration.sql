@@ -0,0 +1,52 @@
+-- CreateTable
+CREATE TABLE "Loan" (
+    "id" TEXT NOT NULL,
+    "employeeId" TEXT NOT NULL,
+    "loanDate" TIMESTAMP(3) NOT NULL,
+    "principal" DOUBLE PRECISION NOT NULL,
+    "installmentAmount" DOUBLE PRECISION NOT NULL,
+    "startMonth" INTEGER NOT NULL,
+    "startYear" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "note" TEXT,
+    "approvedBy" TEXT NOT NULL,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Loan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LoanTransaction" (
+    "id" TEXT NOT NULL,
+    "loanId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "transactionDate" TIMESTAMP(3) NOT NULL,
+    "month" INTEGER,
+    "year" INTEGER,
+    "note" TEXT,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LoanTransaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Loan_employeeId_idx" ON "Loan"("employeeId");
+
+-- CreateIndex
+CREATE INDEX "Loan_status_idx" ON "Loan"("status");
+
+-- CreateIndex
+CREATE INDEX "LoanTransaction_loanId_idx" ON "LoanTransaction"("loanId");
+
+-- CreateIndex
+CREATE INDEX "LoanTransaction_month_year_idx" ON "LoanTransaction"("month", "year");
+
+-- AddForeignKey
+ALTER TABLE "Loan" ADD CONSTRAINT "Loan_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "Employee"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LoanTransaction" ADD CONSTRAINT "LoanTransaction_loanId_fkey" FOREIGN KEY ("loanId") REFERENCES "Loan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "CompanySettings" (
+    "id" TEXT NOT NULL DEFAULT 'default',
+    "companyName" TEXT NOT NULL,
+    "address" TEXT,
+    "phone" TEXT,
+    "taxOffice" TEXT,
+    "taxNumber" TEXT,
+    "sgkRegistryNumber" TEXT,
+    "payslipNote" TEXT,
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CompanySettings_pkey" PRIMARY KEY ("id")
+);
@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "Employee" ADD COLUMN "iban" TEXT,
+ADD COLUMN "bankName" TEXT;
+
+-- AlterTable
+ALTER TABLE "CompanySettings" ADD COLUMN "payerIban" TEXT;
+
+-- CreateTable
+CREATE TABLE "BankPaymentExport" (
+    "id" TEXT NOT NULL,
+    "month" INTEGER NOT NULL,
+    "year" INTEGER NOT NULL,
+    "format" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "paymentDate" TIMESTAMP(3) NOT NULL,
+    "description" TEXT NOT NULL,
+    "employeeCount" INTEGER NOT NULL,
+    "totalAmount" DOUBLE PRECISION NOT NULL,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BankPaymentExport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BankPaymentExport_month_year_idx" ON "BankPaymentExport"("month", "year");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "TrafficFineDeduction" ADD COLUMN "unpaidAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "carriedAmount" DOUBLE PRECISION NOT NULL DEFAULT 0;
@@ -6,6 +6,21 @@ import { payrollRouter } from './routes/payroll';
 import { logRouter } from './routes/log';
 import { trafficFineRouter } from './routes/trafficFine';
 import { overtimeRouter } from './routes/overtime';
+import { advanceRouter } from './routes/advance';
+import { wageParameterRouter } from './routes/wageParameter';
+import { salaryHistoryRouter } from './routes/salaryHistory';
+import { taxParameterRouter } from './routes/taxParameter';
+import { taxLedgerRouter } from './routes/taxLedger';
+import { reportRouter } from './routes/report';
+import { terminationSettlementRouter } from './routes/terminationSettlement';
+import { attendanceRouter } from './routes/attendance';
+import { publicHolidayRouter } from './routes/publicHoliday';
+import { leaveRequestRouter } from './routes/leaveRequest';
+import { vehicleRouter } from './routes/vehicle';
+import { attachmentRouter } from './routes/attachment';
+import { payComponentRouter } from './routes/payComponent';
+import { loanRouter } from './routes/loan';
+import { companySettingsRouter } from './routes/companySettings';
 import { errorHandler } from './middleware/errorHandler';
 
 const app = express();
@@ -21,6 +36,21 @@ app.use('/api/employees', employeeRouter);
 app.use('/api/payroll', payrollRouter);
 app.use('/api/traffic-fines', trafficFineRouter);
 app.use('/api/overtime', overtimeRouter);
+app.use('/api/advances', advanceRouter);
+app.use('/api/loans', loanRouter);
+app.use('/api/wage-parameters', wageParameterRouter);
+app.use('/api/salary-history', salaryHistoryRouter);
+app.use('/api/tax-parameters', taxParameterRouter);
+app.use('/api/tax-ledger', taxLedgerRouter);
+app.use('/api/reports', reportRouter);
+app.use('/api/termination-settlements', terminationSettlementRouter);
+app.use('/api/attendance', attendanceRouter);
+app.use('/api/public-holidays', publicHolidayRouter);
+app.use('/api/leave-requests', leaveRequestRouter);
+app.use('/api/vehicles', vehicleRouter);
+app.use('/api/attachments', attachmentRouter);
+app.use('/api/pay-components', payComponentRouter);
+app.use('/api/company-settings', companySettingsRouter);
 app.use('/api/logs', logRouter);
 
 // Error handling
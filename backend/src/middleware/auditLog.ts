@@ -136,6 +136,59 @@ function getEntityName(entityType: EntityType, data: Record<string, unknown>): s
     const employeeName = employee?.fullName || 'Unknown';
     return `${employeeName} - Trafik Cezası`;
   }
+  if (entityType === 'WAGE_PARAMETER') {
+    return `Resmi Ücret Parametresi - ${data?.effectiveMonth}/${data?.effectiveYear}`;
+  }
+  if (entityType === 'SALARY_HISTORY') {
+    const employee = data?.employee as Record<string, unknown>;
+    const employeeName = employee?.fullName || 'Unknown';
+    return `${employeeName} - Maaş Geçmişi`;
+  }
+  if (entityType === 'TAX_PARAMETER') {
+    return `Vergi Parametresi - ${data?.year}`;
+  }
+  if (entityType === 'PAYROLL_PERIOD') {
+    return `Puantaj Dönemi - ${data?.month}/${data?.year}`;
+  }
+  if (entityType === 'TERMINATION_SETTLEMENT') {
+    const employee = data?.employee as Record<string, unknown>;
+    const employeeName = employee?.fullName || 'Unknown';
+    return `${employeeName} - İşten Çıkış`;
+  }
+  if (entityType === 'ATTENDANCE') {
+    const employee = data?.employee as Record<string, unknown>;
+    const employeeName = employee?.fullName || 'Unknown';
+    return `${employeeName} - Devam Takvimi ${data?.month}/${data?.year}`;
+  }
+  if (entityType === 'LEAVE_REQUEST') {
+    const employee = data?.employee as Record<string, unknown>;
+    const employeeName = employee?.fullName || 'Unknown';
+    return `${employeeName} - Yıllık İzin`;
+  }
+  if (entityType === 'PUBLIC_HOLIDAY') {
+    const date = data?.date ? new Date(data.date as string).toISOString().split('T')[0] : '';
+    return `Resmi Tatil - ${data?.name} ${date}`.trim();
+  }
+  if (entityType === 'VEHICLE') {
+    return `Araç - ${data?.plate}`;
+  }
+  if (entityType === 'ATTACHMENT') {
+    return `Ek - ${data?.fileName}`;
+  }
+  if (entityType === 'PAY_COMPONENT') {
+    return `Ödeme / Kesinti Türü - ${data?.name}`;
+  }
+  if (entityType === 'LOAN') {
+    const employee = data?.employee as Record<string, unknown>;
+    const employeeName = employee?.fullName || 'Unknown';
+    return `${employeeName} - Borç`;
+  }
+  if (entityType === 'COMPANY_SETTINGS') {
+    return 'Firma Bilgileri';
+  }
+  if (entityType === 'BANK_EXPORT') {
+    return `Banka Dosyası - ${data?.month}/${data?.year}`;
+  }
   return 'Unknown';
 }
 
@@ -0,0 +1,126 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticate } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { auditLogMiddleware } from '../middleware/auditLog';
+import {
+  createAdvance,
+  deleteAdvance,
+  getAdvanceById,
+  listAdvances,
+  updateAdvance,
+  validateAdvanceInput,
+  CreateAdvanceInput,
+} from '../services/advance.service';
+
+/**
+ * Advance Routes
+ *
+ * Avans defteri; kayıtlar puantajın avans alanlarını besler (puantaj güncellemesi olarak loglanır)
+ */
+
+export const advanceRouter = Router();
+
+advanceRouter.use(authenticate);
+
+const toAdvanceAuditData = (advance: Awaited<ReturnType<typeof getAdvanceById>>) => ({
+  employeeId: advance.employeeId,
+  advanceDate: advance.advanceDate,
+  month: advance.month,
+  year: advance.year,
+  kind: advance.kind,
+  amount: advance.amount,
+  note: advance.note,
+  approvedBy: advance.approvedBy,
+});
+
+/**
+ * GET /api/advances?month=&year=&employeeId=
+ */
+advanceRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const month = parseInt(req.query.month as string, 10);
+    const year = parseInt(req.query.year as string, 10);
+    const employeeId = (req.query.employeeId as string | undefined) || undefined;
+
+    if (isNaN(month) || isNaN(year)) {
+      throw new AppError(400, 'INVALID_PARAMS', 'Ay ve yıl parametreleri gereklidir');
+    }
+
+    const advances = await listAdvances(month, year, employeeId);
+    res.json(advances);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/advances
+ */
+advanceRouter.post('/', auditLogMiddleware('PAYROLL'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const validation = validateAdvanceInput(req.body, false);
+    if (!validation.success) {
+      throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', validation.errors);
+    }
+
+    const advance = await createAdvance(validation.data as CreateAdvanceInput, req.user?.username || 'Unknown');
+    req.auditLog = {
+      entityType: 'PAYROLL',
+      entityId: advance.id,
+      entityName: `${advance.employee.fullName} - Avans`,
+      actionOverride: 'UPDATE',
+      newData: toAdvanceAuditData(advance),
+    };
+    res.status(201).json(advance);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/advances/:id
+ */
+advanceRouter.put('/:id', auditLogMiddleware('PAYROLL'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const validation = validateAdvanceInput(req.body, true);
+    if (!validation.success) {
+      throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', validation.errors);
+    }
+
+    const before = await getAdvanceById(id);
+    const advance = await updateAdvance(id, validation.data);
+    req.auditLog = {
+      entityType: 'PAYROLL',
+      entityId: id,
+      entityName: `${advance.employee.fullName} - Avans`,
+      actionOverride: 'UPDATE',
+      oldData: toAdvanceAuditData(before),
+      newData: toAdvanceAuditData(advance),
+    };
+    res.json(advance);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/advances/:id
+ */
+advanceRouter.delete('/:id', auditLogMiddleware('PAYROLL'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const before = await getAdvanceById(id);
+    await deleteAdvance(id);
+    req.auditLog = {
+      entityType: 'PAYROLL',
+      entityId: id,
+      entityName: `${before.employee.fullName} - Avans`,
+      actionOverride: 'DELETE',
+      oldData: toAdvanceAuditData(before),
+    };
+    res.status(204).json({ deleted: true });
+  } catch (error) {
+    next(error);
+  }
+});
@@ -0,0 +1,142 @@
+import express, { Router, Request, Response, NextFunction } from 'express';
+import { authenticate } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { auditLogMiddleware } from '../middleware/auditLog';
+import {
+  createAttachment,
+  deleteAttachment,
+  getAttachmentById,
+  listAttachments,
+  parseAttachmentOwner,
+  readAttachmentFile,
+  MAX_ATTACHMENT_BYTES,
+} from '../services/attachment.service';
+
+/**
+ * Attachment Routes
+ *
+ * Ceza, ceza ödemesi, çalışan ve puantaj satırlarına belge ekleme.
+ * Yükleme gövdesi ham dosyadır; tür Content-Type, ad X-File-Name başlığından okunur.
+ */
+
+export const attachmentRouter = Router();
+
+attachmentRouter.use(authenticate);
+
+const rawFileParser = express.raw({ type: () => true, limit: MAX_ATTACHMENT_BYTES });
+
+// Boyut aşımı da uygulamanın hata biçiminde dönsün
+function readFileBody(req: Request, res: Response, next: NextFunction) {
+  rawFileParser(req, res, (err?: unknown) => {
+    if (err && (err as { type?: string }).type === 'entity.too.large') {
+      return next(new AppError(413, 'FILE_TOO_LARGE', 'Dosya boyutu 10 MB sınırını aşıyor'));
+    }
+    next(err);
+  });
+}
+
+function decodeFileName(header: string | undefined): string {
+  if (!header) return '';
+  try {
+    return decodeURIComponent(header);
+  } catch {
+    return header;
+  }
+}
+
+const toAttachmentAuditData = (attachment: Awaited<ReturnType<typeof listAttachments>>[number]) => ({
+  fileName: attachment.fileName,
+  mimeType: attachment.mimeType,
+  size: attachment.size,
+  description: attachment.description,
+  trafficFineId: attachment.trafficFineId,
+  trafficFinePaymentId: attachment.trafficFinePaymentId,
+  employeeId: attachment.employeeId,
+  payrollEntryId: attachment.payrollEntryId,
+});
+
+/**
+ * GET /api/attachments?trafficFineId=...
+ * Sahip olarak trafficFineId, trafficFinePaymentId, employeeId veya payrollEntryId verilir
+ */
+attachmentRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const owner = parseAttachmentOwner(req.query);
+    const attachments = await listAttachments(owner);
+    res.json(attachments);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/attachments/:id/download
+ */
+attachmentRouter.get('/:id/download', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { attachment, content } = await readAttachmentFile(req.params.id as string);
+    const asciiName = attachment.fileName.replace(/[^\x20-\x7e]/g, '_');
+
+    res.setHeader('Content-Type', attachment.mimeType);
+    res.setHeader('Content-Length', String(content.length));
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`
+    );
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.send(content);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/attachments?employeeId=...&description=...
+ */
+attachmentRouter.post('/', auditLogMiddleware('ATTACHMENT'), readFileBody, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const owner = parseAttachmentOwner(req.query);
+    const buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    const description = typeof req.query.description === 'string' ? req.query.description.trim() : undefined;
+
+    const attachment = await createAttachment(
+      owner,
+      {
+        buffer,
+        fileName: decodeFileName(req.header('X-File-Name')),
+        mimeType: req.header('Content-Type') || '',
+        description,
+      },
+      req.user?.username || 'Unknown'
+    );
+    req.auditLog = {
+      entityType: 'ATTACHMENT',
+      entityId: attachment.id,
+      entityName: `Ek - ${attachment.fileName}`,
+      newData: toAttachmentAuditData(attachment),
+    };
+    res.status(201).json(attachment);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/attachments/:id
+ */
+attachmentRouter.delete('/:id', auditLogMiddleware('ATTACHMENT'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const before = await getAttachmentById(id);
+    await deleteAttachment(id);
+    req.auditLog = {
+      entityType: 'ATTACHMENT',
+      entityId: id,
+      entityName: `Ek - ${before.fileName}`,
+      oldData: toAttachmentAuditData(before),
+    };
+    res.status(204).json({ deleted: true });
+  } catch (error) {
+    next(error);
+  }
+});
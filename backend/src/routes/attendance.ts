@@ -0,0 +1,86 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticate } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { auditLogMiddleware } from '../middleware/auditLog';
+import prisma from '../utils/prisma';
+import {
+  getAttendanceByMonth,
+  setAttendanceDays,
+  validateAttendanceInput,
+} from '../services/attendance.service';
+
+/**
+ * Attendance Routes
+ *
+ * Günlük devam takvimi (puantaj kodları). Kayıt değişikliği çalışanın
+ * puantajdaki çalıştığı gün sayısını yeniden hesaplar.
+ */
+
+export const attendanceRouter = Router();
+
+attendanceRouter.use(authenticate);
+
+/**
+ * GET /api/attendance?month=1&year=2025
+ */
+attendanceRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const month = parseInt(req.query.month as string, 10);
+    const year = parseInt(req.query.year as string, 10);
+
+    if (isNaN(month) || isNaN(year)) {
+      throw new AppError(400, 'INVALID_PARAMS', 'Ay ve yıl parametreleri gereklidir');
+    }
+
+    const attendance = await getAttendanceByMonth(month, year);
+    res.json(attendance);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/attendance/:employeeId/:year/:month
+ * Body: { days: [{ date, code | null, note? }] }
+ */
+attendanceRouter.put(
+  '/:employeeId/:year/:month',
+  auditLogMiddleware('ATTENDANCE'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const employeeId = req.params.employeeId as string;
+      const year = parseInt(req.params.year as string, 10);
+      const month = parseInt(req.params.month as string, 10);
+
+      if (isNaN(month) || isNaN(year)) {
+        throw new AppError(400, 'INVALID_PARAMS', 'Ay ve yıl parametreleri gereklidir');
+      }
+
+      const validation = validateAttendanceInput(req.body);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', validation.errors);
+      }
+
+      const [oldDays, oldEntry] = await Promise.all([
+        prisma.attendanceDay.findMany({ where: { employeeId, month, year }, orderBy: { date: 'asc' } }),
+        prisma.payrollEntry.findUnique({ where: { employeeId_month_year: { employeeId, month, year } } }),
+      ]);
+
+      const result = await setAttendanceDays(employeeId, month, year, validation.data);
+
+      const toCodes = (days: { date: Date; code: string }[]) =>
+        Object.fromEntries(days.map((day) => [day.date.toISOString().split('T')[0], day.code]));
+      req.auditLog = {
+        entityType: 'ATTENDANCE',
+        entityId: `ATTENDANCE_${employeeId}_${year}_${month}`,
+        actionOverride: 'UPDATE',
+        oldData: { ...toCodes(oldDays), daysWorked: oldEntry?.daysWorked ?? null },
+        newData: { ...toCodes(result.days), daysWorked: result.summary.daysWorked },
+      };
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
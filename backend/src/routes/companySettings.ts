@@ -0,0 +1,62 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticate, requireRole } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { auditLogMiddleware, captureOldData } from '../middleware/auditLog';
+import {
+  getCompanySettings,
+  updateCompanySettings,
+  validateCompanySettingsInput,
+} from '../services/companySettings.service';
+
+/**
+ * Company Settings Routes
+ *
+ * Pusula başlığındaki firma bilgileri. Okuma tüm kullanıcılara,
+ * değişiklik yalnızca ADMIN rolüne açıktır.
+ */
+
+export const companySettingsRouter = Router();
+
+companySettingsRouter.use(authenticate);
+
+const getCompanySettingsOldData = async () => {
+  const settings = await getCompanySettings();
+  return settings as unknown as Record<string, unknown>;
+};
+
+/**
+ * GET /api/company-settings
+ */
+companySettingsRouter.get('/', async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const settings = await getCompanySettings();
+    res.json(settings);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/company-settings
+ */
+companySettingsRouter.put(
+  '/',
+  requireRole('ADMIN'),
+  captureOldData('COMPANY_SETTINGS', getCompanySettingsOldData),
+  auditLogMiddleware('COMPANY_SETTINGS'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const validation = validateCompanySettingsInput(req.body);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', validation.errors);
+      }
+
+      const settings = await updateCompanySettings(validation.data, req.user?.username || 'Unknown');
+      // Tek kayıt olduğu için yanıtta id yok
+      req.auditLog = { ...req.auditLog, entityType: 'COMPANY_SETTINGS', entityId: 'default' };
+      res.json(settings);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
@@ -11,6 +11,20 @@ import {
   deleteEmployee,
   validateEmployeeInput,
 } from '../services/employee.service';
+import {
+  listSalaryHistory,
+  createSalaryHistory,
+  validateSalaryHistoryInput,
+  CreateSalaryHistoryInput,
+} from '../services/salaryHistory.service';
+import { recalculateTaxLedgerFrom } from '../services/taxLedger.service';
+import {
+  listTerminationSettlements,
+  previewTermination,
+  createTerminationSettlement,
+  validateTerminationInput,
+} from '../services/termination.service';
+import { getLeaveBalance } from '../services/leave.service';
 
 export const employeeRouter = Router();
 
@@ -53,6 +67,114 @@ employeeRouter.get('/:id', async (req: Request, res: Response, next: NextFunctio
   }
 });
 
+/**
+ * GET /api/employees/:id/salary-history
+ * Get salary history of an employee (newest first)
+ */
+employeeRouter.get('/:id/salary-history', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const history = await listSalaryHistory(id);
+    res.json(history);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/employees/:id/salary-history
+ * Add a salary history row
+ */
+employeeRouter.post(
+  '/:id/salary-history',
+  auditLogMiddleware('SALARY_HISTORY'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const validation = validateSalaryHistoryInput(req.body, false);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', validation.errors);
+      }
+
+      const row = await createSalaryHistory(id, validation.data as CreateSalaryHistoryInput);
+      await recalculateTaxLedgerFrom(id, row.effectiveFrom);
+      res.status(201).json(row);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/employees/:id/leave-balance
+ * Annual leave balance with history per service year
+ */
+employeeRouter.get('/:id/leave-balance', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const balance = await getLeaveBalance(id);
+    res.json(balance);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/employees/:id/terminations
+ * Get termination settlements of an employee (newest first)
+ */
+employeeRouter.get('/:id/terminations', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const settlements = await listTerminationSettlements(id);
+    res.json(settlements);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/employees/:id/terminations/preview
+ * Calculate severance / notice / unused leave pay without saving
+ */
+employeeRouter.post('/:id/terminations/preview', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const validation = validateTerminationInput(req.body);
+    if (!validation.success) {
+      throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', validation.errors);
+    }
+
+    const calculation = await previewTermination(id, validation.data);
+    res.json(calculation);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/employees/:id/terminations
+ * Save the termination settlement and set the employee's end date
+ */
+employeeRouter.post(
+  '/:id/terminations',
+  auditLogMiddleware('TERMINATION_SETTLEMENT'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const validation = validateTerminationInput(req.body);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', validation.errors);
+      }
+
+      const settlement = await createTerminationSettlement(id, validation.data, req.user?.username || 'Unknown');
+      res.status(201).json(settlement);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * POST /api/employees
  * Create a new employee
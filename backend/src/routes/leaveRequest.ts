@@ -0,0 +1,156 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticate, requireRole } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { auditLogMiddleware } from '../middleware/auditLog';
+import {
+  approveLeaveRequest,
+  cancelLeaveRequest,
+  createLeaveRequest,
+  getLeaveRequestById,
+  listLeaveRequests,
+  rejectLeaveRequest,
+  validateLeaveRequestInput,
+} from '../services/leave.service';
+
+/**
+ * Leave Request Routes
+ *
+ * Yıllık izin talepleri. Talep oluşturma ve iptal tüm kullanıcılara,
+ * onay / ret yalnızca ADMIN rolüne açıktır.
+ */
+
+export const leaveRequestRouter = Router();
+
+leaveRequestRouter.use(authenticate);
+
+// Durum geçişleri, izin talebinin durum değişikliği olarak loglanır
+const setStatusAuditLog = (
+  req: Request,
+  before: { status: string },
+  after: { id: string; status: string; employee: { fullName: string } }
+) => {
+  req.auditLog = {
+    entityType: 'LEAVE_REQUEST',
+    entityId: after.id,
+    entityName: `${after.employee.fullName} - Yıllık İzin`,
+    actionOverride: 'UPDATE',
+    oldData: { status: before.status },
+    newData: { status: after.status },
+  };
+};
+
+/**
+ * GET /api/leave-requests?employeeId=&status=&year=
+ */
+leaveRequestRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const employeeId = (req.query.employeeId as string | undefined) || undefined;
+    const status = (req.query.status as string | undefined) || undefined;
+    const year = req.query.year ? parseInt(req.query.year as string, 10) : undefined;
+
+    if (year !== undefined && isNaN(year)) {
+      throw new AppError(400, 'INVALID_PARAMS', 'Geçersiz yıl parametresi');
+    }
+
+    const requests = await listLeaveRequests({ employeeId, status, year });
+    res.json(requests);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/leave-requests/:id
+ */
+leaveRequestRouter.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const request = await getLeaveRequestById(req.params.id as string);
+    res.json(request);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/leave-requests
+ * Body: { employeeId, startDate, endDate, note? }
+ */
+leaveRequestRouter.post(
+  '/',
+  auditLogMiddleware('LEAVE_REQUEST'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const validation = validateLeaveRequestInput(req.body);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', validation.errors);
+      }
+
+      const request = await createLeaveRequest(validation.data, req.user?.username || 'Unknown');
+      res.status(201).json(request);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/leave-requests/:id/approve
+ * PENDING → APPROVED (izin günleri devam takvimine işlenir)
+ */
+leaveRequestRouter.post(
+  '/:id/approve',
+  requireRole('ADMIN'),
+  auditLogMiddleware('LEAVE_REQUEST'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const before = await getLeaveRequestById(id);
+      const request = await approveLeaveRequest(id, req.user?.username || 'Unknown');
+      setStatusAuditLog(req, before, request);
+      res.json(request);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/leave-requests/:id/reject
+ * PENDING → REJECTED
+ */
+leaveRequestRouter.post(
+  '/:id/reject',
+  requireRole('ADMIN'),
+  auditLogMiddleware('LEAVE_REQUEST'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const before = await getLeaveRequestById(id);
+      const request = await rejectLeaveRequest(id, req.user?.username || 'Unknown');
+      setStatusAuditLog(req, before, request);
+      res.json(request);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/leave-requests/:id/cancel
+ * PENDING / APPROVED → CANCELLED
+ */
+leaveRequestRouter.post(
+  '/:id/cancel',
+  auditLogMiddleware('LEAVE_REQUEST'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const before = await getLeaveRequestById(id);
+      const request = await cancelLeaveRequest(id, req.user?.username || 'Unknown');
+      setStatusAuditLog(req, before, request);
+      res.json(request);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
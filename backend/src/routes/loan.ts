@@ -0,0 +1,229 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticate, requireRole } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { auditLogMiddleware } from '../middleware/auditLog';
+import {
+  createLoan,
+  deleteLoan,
+  deleteLoanTransaction,
+  getLoanById,
+  listLoans,
+  payOffLoan,
+  updateLoan,
+  validateLoanInput,
+  validateLoanPayoffInput,
+  validateLoanWriteOffInput,
+  writeOffLoan,
+  CreateLoanInput,
+  LOAN_STATUSES,
+  LoanResponse,
+} from '../services/loan.service';
+
+/**
+ * Loan Routes
+ *
+ * Çalışan borçları ve hareketleri; taksitler puantaj dönemi kapanışında işlenir
+ */
+
+export const loanRouter = Router();
+
+loanRouter.use(authenticate);
+
+const toLoanAuditData = (loan: LoanResponse) => ({
+  employeeId: loan.employeeId,
+  loanDate: loan.loanDate,
+  principal: loan.principal,
+  installmentAmount: loan.installmentAmount,
+  startMonth: loan.startMonth,
+  startYear: loan.startYear,
+  status: loan.status,
+  balance: loan.balance,
+  note: loan.note,
+  approvedBy: loan.approvedBy,
+});
+
+/**
+ * GET /api/loans?employeeId=&status=
+ */
+loanRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const employeeId = (req.query.employeeId as string | undefined) || undefined;
+    const status = (req.query.status as string | undefined) || undefined;
+    if (status && !(LOAN_STATUSES as readonly string[]).includes(status)) {
+      throw new AppError(400, 'INVALID_PARAMS', 'Geçersiz borç durumu');
+    }
+
+    const loans = await listLoans({ employeeId, status });
+    res.json(loans);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/loans/:id
+ */
+loanRouter.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const loan = await getLoanById(req.params.id as string);
+    res.json(loan);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/loans
+ */
+loanRouter.post('/', auditLogMiddleware('LOAN'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const validation = validateLoanInput(req.body, false);
+    if (!validation.success) {
+      throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', validation.errors);
+    }
+
+    const loan = await createLoan(validation.data as CreateLoanInput, req.user?.username || 'Unknown');
+    req.auditLog = {
+      entityType: 'LOAN',
+      entityId: loan.id,
+      entityName: `${loan.employee.fullName} - Borç`,
+      newData: toLoanAuditData(loan),
+    };
+    res.status(201).json(loan);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/loans/:id
+ */
+loanRouter.put('/:id', auditLogMiddleware('LOAN'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const validation = validateLoanInput(req.body, true);
+    if (!validation.success) {
+      throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', validation.errors);
+    }
+
+    const before = await getLoanById(id);
+    const loan = await updateLoan(id, validation.data);
+    req.auditLog = {
+      entityType: 'LOAN',
+      entityId: id,
+      entityName: `${loan.employee.fullName} - Borç`,
+      oldData: toLoanAuditData(before),
+      newData: toLoanAuditData(loan),
+    };
+    res.json(loan);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/loans/:id
+ */
+loanRouter.delete('/:id', auditLogMiddleware('LOAN'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const before = await getLoanById(id);
+    await deleteLoan(id);
+    req.auditLog = {
+      entityType: 'LOAN',
+      entityId: id,
+      entityName: `${before.employee.fullName} - Borç`,
+      oldData: toLoanAuditData(before),
+    };
+    res.status(204).json({ deleted: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/loans/:id/payoff
+ */
+loanRouter.post('/:id/payoff', auditLogMiddleware('LOAN'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const validation = validateLoanPayoffInput(req.body);
+    if (!validation.success) {
+      throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', validation.errors);
+    }
+
+    const before = await getLoanById(id);
+    const loan = await payOffLoan(id, validation.data, req.user?.username || 'Unknown');
+    req.auditLog = {
+      entityType: 'LOAN',
+      entityId: id,
+      entityName: `${loan.employee.fullName} - Borç`,
+      actionOverride: 'UPDATE',
+      oldData: toLoanAuditData(before),
+      newData: toLoanAuditData(loan),
+    };
+    res.json(loan);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/loans/:id/write-off (ADMIN)
+ */
+loanRouter.post(
+  '/:id/write-off',
+  requireRole('ADMIN'),
+  auditLogMiddleware('LOAN'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const validation = validateLoanWriteOffInput(req.body);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', validation.errors);
+      }
+
+      const before = await getLoanById(id);
+      const loan = await writeOffLoan(id, validation.data, req.user?.username || 'Unknown');
+      req.auditLog = {
+        entityType: 'LOAN',
+        entityId: id,
+        entityName: `${loan.employee.fullName} - Borç`,
+        actionOverride: 'UPDATE',
+        oldData: toLoanAuditData(before),
+        newData: toLoanAuditData(loan),
+      };
+      res.json(loan);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/loans/:id/transactions/:transactionId (ADMIN)
+ */
+loanRouter.delete(
+  '/:id/transactions/:transactionId',
+  requireRole('ADMIN'),
+  auditLogMiddleware('LOAN'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const transactionId = req.params.transactionId as string;
+      const before = await getLoanById(id);
+      const loan = await deleteLoanTransaction(id, transactionId);
+      req.auditLog = {
+        entityType: 'LOAN',
+        entityId: id,
+        entityName: `${loan.employee.fullName} - Borç`,
+        actionOverride: 'UPDATE',
+        oldData: toLoanAuditData(before),
+        newData: toLoanAuditData(loan),
+      };
+      res.json(loan);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
@@ -1,15 +1,24 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { authenticate } from '../middleware/auth';
+import { authenticate, requireRole } from '../middleware/auth';
 import { AppError } from '../middleware/errorHandler';
 import { auditLogMiddleware, captureOldData } from '../middleware/auditLog';
 import prisma from '../utils/prisma';
 import {
   createOvertimeEntry,
   deleteOvertimeEntry,
+  getOvertimeCapStatuses,
   getOvertimeEntryById,
+  getOvertimeRate,
   listOvertimeEntries,
+  updateOvertimeEntry,
   validateCreateOvertimeEntryInput,
+  validateUpdateOvertimeEntryInput,
 } from '../services/overtime.service';
+import {
+  findOvertimeMismatches,
+  fixOvertimeMismatches,
+  OvertimeReconciliationFilter,
+} from '../services/overtimeReconciliation.service';
 
 export const overtimeRouter = Router();
 
@@ -43,6 +52,89 @@ overtimeRouter.get('/', async (req: Request, res: Response, next: NextFunction)
   }
 });
 
+/**
+ * GET /api/overtime/rate?employeeId=&month=&year=
+ * Çalışanın dönemdeki mesai saat ücreti (önizleme için)
+ */
+overtimeRouter.get('/rate', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const employeeId = req.query.employeeId as string | undefined;
+    const month = parseInt(req.query.month as string, 10);
+    const year = parseInt(req.query.year as string, 10);
+
+    if (!employeeId || isNaN(month) || isNaN(year)) {
+      throw new AppError(400, 'INVALID_PARAMS', 'Çalışan, ay ve yıl parametreleri gereklidir');
+    }
+
+    const rate = await getOvertimeRate(employeeId, month, year);
+    res.json(rate);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/overtime/cap?month=&year=&employeeId=
+ * Yıllık mesai saati kullanımı ve kalan saat (eşikler dönemin ücret parametresinden)
+ */
+overtimeRouter.get('/cap', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const month = parseInt(req.query.month as string, 10);
+    const year = parseInt(req.query.year as string, 10);
+    const employeeId = (req.query.employeeId as string | undefined) || undefined;
+
+    if (isNaN(month) || isNaN(year)) {
+      throw new AppError(400, 'INVALID_PARAMS', 'Ay ve yıl parametreleri gereklidir');
+    }
+
+    const statuses = await getOvertimeCapStatuses(month, year, employeeId);
+    res.json(statuses);
+  } catch (error) {
+    next(error);
+  }
+});
+
+const parseReconciliationFilter = (query: Request['query']): OvertimeReconciliationFilter => {
+  const year = query.year !== undefined ? parseInt(query.year as string, 10) : undefined;
+  const month = query.month !== undefined ? parseInt(query.month as string, 10) : undefined;
+  if ((year !== undefined && isNaN(year)) || (month !== undefined && isNaN(month))) {
+    throw new AppError(400, 'INVALID_PARAMS', 'Geçersiz ay veya yıl parametresi');
+  }
+  return { year, month, employeeId: (query.employeeId as string | undefined) || undefined };
+};
+
+/**
+ * GET /api/overtime/reconciliation?year=&month=&employeeId=
+ * Puantaj mesai tutarı mesai kayıtlarından farklı olan satırlar
+ */
+overtimeRouter.get('/reconciliation', requireRole('ADMIN'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const mismatches = await findOvertimeMismatches(parseReconciliationFilter(req.query));
+    res.json(mismatches);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/overtime/reconciliation/fix?year=&month=&employeeId=
+ * Açık dönemlerdeki farkları kayıtlardan yeniden oluşturur (her düzeltme ayrı loglanır)
+ */
+overtimeRouter.post('/reconciliation/fix', requireRole('ADMIN'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      throw new AppError(401, 'NO_USER', 'Kimlik doğrulama gerekli');
+    }
+    const result = await fixOvertimeMismatches(parseReconciliationFilter(req.query), {
+      userId: req.user.userId,
+      userName: req.user.username,
+    });
+    res.json(result);
+  } catch (error) {
+    next(error);
+  }
+});
+
 overtimeRouter.post('/', auditLogMiddleware('PAYROLL'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const validation = validateCreateOvertimeEntryInput(req.body);
@@ -51,6 +143,10 @@ overtimeRouter.post('/', auditLogMiddleware('PAYROLL'), async (req: Request, res
     }
 
     const entry = await createOvertimeEntry(validation.data);
+    // İstemcinin gönderdiği tutar yok sayılır; farklıysa kayıt için saklanır
+    const clientAmount = typeof req.body?.amount === 'number' && req.body.amount !== entry.amount
+      ? req.body.amount
+      : undefined;
     req.auditLog = {
       entityType: 'PAYROLL',
       entityId: entry.id,
@@ -63,7 +159,11 @@ overtimeRouter.post('/', auditLogMiddleware('PAYROLL'), async (req: Request, res
         type: entry.type,
         multiplier: entry.multiplier,
         hours: entry.hours,
+        dailyWage: entry.calculation.dailyWage,
+        dailyWorkingHours: entry.calculation.dailyWorkingHours,
+        hourlyRate: entry.hourlyRate,
         amount: entry.amount,
+        ...(clientAmount !== undefined ? { clientAmount } : {}),
         description: entry.description,
       },
     };
@@ -73,6 +173,51 @@ overtimeRouter.post('/', auditLogMiddleware('PAYROLL'), async (req: Request, res
   }
 });
 
+/**
+ * PUT /api/overtime/:id
+ * Saat, tür, tarih veya açıklama düzeltmesi; puantaja yalnızca fark işlenir
+ */
+overtimeRouter.put(
+  '/:id',
+  captureOldData('PAYROLL', getOvertimeOldData),
+  auditLogMiddleware('PAYROLL'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const validation = validateUpdateOvertimeEntryInput(req.body);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', validation.errors);
+      }
+
+      const existing = await getOvertimeEntryById(id);
+      const entry = await updateOvertimeEntry(id, validation.data);
+      const toAuditData = (item: typeof existing) => ({
+        employeeId: item.employeeId,
+        entryDate: item.entryDate,
+        month: item.month,
+        year: item.year,
+        type: item.type,
+        multiplier: item.multiplier,
+        hours: item.hours,
+        hourlyRate: item.hourlyRate,
+        amount: item.amount,
+        description: item.description,
+      });
+      req.auditLog = {
+        entityType: 'PAYROLL',
+        entityId: entry.id,
+        entityName: `${entry.employee.fullName} - Mesai`,
+        actionOverride: 'UPDATE',
+        oldData: toAuditData(existing),
+        newData: toAuditData(entry),
+      };
+      res.json(entry);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 overtimeRouter.delete(
   '/:id',
   captureOldData('PAYROLL', getOvertimeOldData),
@@ -0,0 +1,107 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticate, requireRole } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { auditLogMiddleware, captureOldData } from '../middleware/auditLog';
+import {
+  createPayComponentType,
+  deletePayComponentType,
+  getPayComponentTypeById,
+  listPayComponentTypes,
+  updatePayComponentType,
+  validatePayComponentTypeInput,
+  CreatePayComponentTypeInput,
+} from '../services/payComponent.service';
+
+/**
+ * Pay Component Routes
+ *
+ * Ödeme / kesinti türleri. Okuma tüm kullanıcılara,
+ * değişiklikler yalnızca ADMIN rolüne açıktır.
+ */
+
+export const payComponentRouter = Router();
+
+payComponentRouter.use(authenticate);
+
+const getPayComponentOldData = async (req: Request) => {
+  const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+  const componentType = await getPayComponentTypeById(id);
+  return componentType as unknown as Record<string, unknown>;
+};
+
+/**
+ * GET /api/pay-components?active=true
+ */
+payComponentRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const componentTypes = await listPayComponentTypes(req.query.active !== 'true');
+    res.json(componentTypes);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/pay-components
+ */
+payComponentRouter.post(
+  '/',
+  requireRole('ADMIN'),
+  auditLogMiddleware('PAY_COMPONENT'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const validation = validatePayComponentTypeInput(req.body, false);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', validation.errors);
+      }
+
+      const componentType = await createPayComponentType(validation.data as CreatePayComponentTypeInput);
+      res.status(201).json(componentType);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /api/pay-components/:id
+ */
+payComponentRouter.put(
+  '/:id',
+  requireRole('ADMIN'),
+  captureOldData('PAY_COMPONENT', getPayComponentOldData),
+  auditLogMiddleware('PAY_COMPONENT'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const validation = validatePayComponentTypeInput(req.body, true);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', validation.errors);
+      }
+
+      const componentType = await updatePayComponentType(id, validation.data);
+      res.json(componentType);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/pay-components/:id
+ */
+payComponentRouter.delete(
+  '/:id',
+  requireRole('ADMIN'),
+  captureOldData('PAY_COMPONENT', getPayComponentOldData),
+  auditLogMiddleware('PAY_COMPONENT'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      await deletePayComponentType(id);
+      res.status(204).json({ deleted: true });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
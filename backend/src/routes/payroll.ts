@@ -1,5 +1,5 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { authenticate } from '../middleware/auth';
+import { authenticate, requireRole } from '../middleware/auth';
 import { AppError } from '../middleware/errorHandler';
 import { auditLogMiddleware, captureOldData } from '../middleware/auditLog';
 import prisma from '../utils/prisma';
@@ -10,7 +10,30 @@ import {
   batchUpdatePayroll,
   validatePayrollInput,
   validateBatchInput,
+  closePayrollPeriod,
+  reopenPayrollPeriod,
 } from '../services/payroll.service';
+import {
+  getPayrollPeriod,
+  listPayrollPeriods,
+  startPeriodReview,
+  PayrollPeriodResponse,
+} from '../services/payrollPeriod.service';
+import {
+  createLineItem,
+  deleteLineItem,
+  getLineItemById,
+  updateLineItem,
+  validateLineItemInput,
+  CreateLineItemInput,
+} from '../services/payComponent.service';
+import { generatePayslip, generatePeriodPayslips } from '../services/payslip.service';
+import {
+  createBankExport,
+  getBankExportFile,
+  listBankExports,
+  validateBankExportInput,
+} from '../services/bankExport.service';
 
 export const payrollRouter = Router();
 
@@ -50,6 +73,206 @@ payrollRouter.get('/', async (req: Request, res: Response, next: NextFunction) =
   }
 });
 
+// Helper to parse period params (/periods/:year/:month)
+const parsePeriodParams = (req: Request) => {
+  const year = parseInt(req.params.year as string, 10);
+  const month = parseInt(req.params.month as string, 10);
+  if (isNaN(month) || isNaN(year)) {
+    throw new AppError(400, 'INVALID_PARAMS', 'Ay ve yıl parametreleri gereklidir');
+  }
+  return { month, year };
+};
+
+// Period transitions are logged as UPDATE of the period status (snapshot is not logged)
+const setPeriodAuditLog = (req: Request, before: PayrollPeriodResponse, after: PayrollPeriodResponse) => {
+  req.auditLog = {
+    entityType: 'PAYROLL_PERIOD',
+    entityId: after.id || `PERIOD_${after.year}_${after.month}`,
+    entityName: `Puantaj Dönemi - ${after.month}/${after.year}`,
+    actionOverride: 'UPDATE',
+    oldData: { status: before.status },
+    newData: { status: after.status },
+  };
+};
+
+/**
+ * GET /api/payroll/periods
+ * List periods with a lifecycle record
+ * Query params: year (optional)
+ */
+payrollRouter.get('/periods', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const year = req.query.year ? parseInt(req.query.year as string, 10) : undefined;
+    const periods = await listPayrollPeriods(year && !isNaN(year) ? year : undefined);
+    res.json(periods);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/payroll/periods/:year/:month
+ * Get period status
+ */
+payrollRouter.get('/periods/:year/:month', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { month, year } = parsePeriodParams(req);
+    const period = await getPayrollPeriod(month, year);
+    res.json(period);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/payroll/periods/:year/:month/review
+ * OPEN → UNDER_REVIEW
+ */
+payrollRouter.post(
+  '/periods/:year/:month/review',
+  auditLogMiddleware('PAYROLL_PERIOD'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { month, year } = parsePeriodParams(req);
+      const before = await getPayrollPeriod(month, year);
+      const period = await startPeriodReview(month, year);
+      setPeriodAuditLog(req, before, period);
+      res.json(period);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/payroll/periods/:year/:month/close
+ * UNDER_REVIEW → CLOSED (snapshot alınır)
+ */
+payrollRouter.post(
+  '/periods/:year/:month/close',
+  auditLogMiddleware('PAYROLL_PERIOD'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { month, year } = parsePeriodParams(req);
+      const before = await getPayrollPeriod(month, year);
+      const period = await closePayrollPeriod(month, year, req.user?.username || 'Unknown');
+      setPeriodAuditLog(req, before, period);
+      res.json(period);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/payroll/periods/:year/:month/reopen
+ * UNDER_REVIEW / CLOSED → OPEN (yalnızca ADMIN)
+ */
+payrollRouter.post(
+  '/periods/:year/:month/reopen',
+  requireRole('ADMIN'),
+  auditLogMiddleware('PAYROLL_PERIOD'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { month, year } = parsePeriodParams(req);
+      const before = await getPayrollPeriod(month, year);
+      const period = await reopenPayrollPeriod(month, year, req.user?.username || 'Unknown');
+      setPeriodAuditLog(req, before, period);
+      res.json(period);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Sends a generated file as a download (UTF-8 name in filename*)
+const sendDownload = (res: Response, file: { fileName: string; content: Buffer }, contentType: string) => {
+  const asciiName = file.fileName.replace(/[^\x20-\x7e]/g, '_');
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Content-Length', String(file.content.length));
+  res.setHeader(
+    'Content-Disposition',
+    `attachment; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(file.fileName)}`
+  );
+  res.send(file.content);
+};
+
+/**
+ * GET /api/payroll/payslips
+ * All payslips of a period as a zip file
+ * Query params: month (1-12), year (2000-2100)
+ */
+payrollRouter.get('/payslips', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const month = parseInt(req.query.month as string, 10);
+    const year = parseInt(req.query.year as string, 10);
+
+    if (isNaN(month) || isNaN(year)) {
+      throw new AppError(400, 'INVALID_PARAMS', 'Ay ve yıl parametreleri gereklidir');
+    }
+
+    const file = await generatePeriodPayslips(month, year);
+    sendDownload(res, file, 'application/zip');
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/payroll/bank-export
+ * Generated bank payment files
+ * Query params: month, year (optional)
+ */
+payrollRouter.get('/bank-export', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const month = req.query.month ? parseInt(req.query.month as string, 10) : undefined;
+    const year = req.query.year ? parseInt(req.query.year as string, 10) : undefined;
+    if ((month !== undefined && isNaN(month)) || (year !== undefined && isNaN(year))) {
+      throw new AppError(400, 'INVALID_PARAMS', 'Ay ve yıl parametreleri geçersiz');
+    }
+
+    const exports = await listBankExports(month, year);
+    res.json(exports);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/payroll/bank-export
+ * Generate the bulk EFT / transfer file of a closed period's official payments (ADMIN)
+ */
+payrollRouter.post(
+  '/bank-export',
+  requireRole('ADMIN'),
+  auditLogMiddleware('BANK_EXPORT'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const validation = validateBankExportInput(req.body);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', validation.errors);
+      }
+
+      const bankExport = await createBankExport(validation.data, req.user?.username || 'Unknown');
+      res.status(201).json(bankExport);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/payroll/bank-export/:id/download
+ */
+payrollRouter.get('/bank-export/:id/download', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const file = await getBankExportFile(req.params.id as string);
+    sendDownload(res, file, file.mimeType);
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * GET /api/payroll/:id
  * Get payroll entry by ID
@@ -64,6 +287,19 @@ payrollRouter.get('/:id', async (req: Request, res: Response, next: NextFunction
   }
 });
 
+/**
+ * GET /api/payroll/:id/payslip
+ * Payslip PDF of a payroll entry
+ */
+payrollRouter.get('/:id/payslip', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const file = await generatePayslip(req.params.id as string);
+    sendDownload(res, file, 'application/pdf');
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * PUT /api/payroll/:id
  * Update a payroll entry
@@ -92,6 +328,89 @@ payrollRouter.put(
   }
 );
 
+const toLineItemAuditData = (item: Awaited<ReturnType<typeof getLineItemById>>) => ({
+  componentTypeId: item.componentTypeId,
+  componentName: item.componentType.name,
+  amount: item.amount,
+  description: item.description,
+});
+
+/**
+ * POST /api/payroll/:id/line-items
+ * Puantaj satırına ödeme / kesinti kalemi ekler; güncel puantaj satırını döner
+ */
+payrollRouter.post('/:id/line-items', auditLogMiddleware('PAYROLL'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const validation = validateLineItemInput(req.body, false);
+    if (!validation.success) {
+      throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', validation.errors);
+    }
+
+    const item = await createLineItem(id, validation.data as CreateLineItemInput, req.user?.username || 'Unknown');
+    req.auditLog = {
+      entityType: 'PAYROLL',
+      entityId: id,
+      entityName: `${item.payrollEntry.employee.fullName} - ${item.componentType.name}`,
+      actionOverride: 'UPDATE',
+      newData: toLineItemAuditData(item),
+    };
+    res.status(201).json(await getPayrollById(id));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/payroll/:id/line-items/:itemId
+ */
+payrollRouter.put('/:id/line-items/:itemId', auditLogMiddleware('PAYROLL'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const itemId = req.params.itemId as string;
+    const validation = validateLineItemInput(req.body, true);
+    if (!validation.success) {
+      throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', validation.errors);
+    }
+
+    const before = await getLineItemById(id, itemId);
+    const item = await updateLineItem(id, itemId, validation.data);
+    req.auditLog = {
+      entityType: 'PAYROLL',
+      entityId: id,
+      entityName: `${item.payrollEntry.employee.fullName} - ${item.componentType.name}`,
+      actionOverride: 'UPDATE',
+      oldData: toLineItemAuditData(before),
+      newData: toLineItemAuditData(item),
+    };
+    res.json(await getPayrollById(id));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/payroll/:id/line-items/:itemId
+ */
+payrollRouter.delete('/:id/line-items/:itemId', auditLogMiddleware('PAYROLL'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const itemId = req.params.itemId as string;
+    const before = await getLineItemById(id, itemId);
+    await deleteLineItem(id, itemId);
+    req.auditLog = {
+      entityType: 'PAYROLL',
+      entityId: id,
+      entityName: `${before.payrollEntry.employee.fullName} - ${before.componentType.name}`,
+      actionOverride: 'UPDATE',
+      oldData: toLineItemAuditData(before),
+    };
+    res.json(await getPayrollById(id));
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * POST /api/payroll/batch
  * Batch update payroll entries
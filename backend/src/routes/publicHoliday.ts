@@ -0,0 +1,158 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticate, requireRole } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { auditLogMiddleware, captureOldData } from '../middleware/auditLog';
+import {
+  addNationalHolidays,
+  classifyOvertimeDate,
+  createPublicHoliday,
+  deletePublicHoliday,
+  getPublicHolidayById,
+  listPublicHolidays,
+  updatePublicHoliday,
+  validatePublicHolidayInput,
+  CreatePublicHolidayInput,
+} from '../services/publicHoliday.service';
+
+/**
+ * Public Holiday Routes
+ *
+ * Resmi tatil takvimi. Okuma tüm kullanıcılara,
+ * değişiklikler yalnızca ADMIN rolüne açıktır.
+ */
+
+export const publicHolidayRouter = Router();
+
+publicHolidayRouter.use(authenticate);
+
+const getPublicHolidayOldData = async (req: Request) => {
+  const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+  const holiday = await getPublicHolidayById(id);
+  return holiday as unknown as Record<string, unknown>;
+};
+
+/**
+ * GET /api/public-holidays?year=2025&month=4
+ */
+publicHolidayRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const year = parseInt(req.query.year as string, 10);
+    const month = req.query.month ? parseInt(req.query.month as string, 10) : undefined;
+
+    if (isNaN(year) || (month !== undefined && isNaN(month))) {
+      throw new AppError(400, 'INVALID_PARAMS', 'Yıl parametresi gereklidir');
+    }
+
+    const holidays = await listPublicHolidays(year, month);
+    res.json(holidays);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/public-holidays/classify?date=2025-04-23&employeeId=...
+ * Mesai günü için önerilen mesai türü
+ */
+publicHolidayRouter.get('/classify', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const date = req.query.date as string | undefined;
+    const employeeId = (req.query.employeeId as string | undefined) || undefined;
+
+    if (!date || isNaN(Date.parse(date))) {
+      throw new AppError(400, 'INVALID_PARAMS', 'Geçerli bir tarih giriniz');
+    }
+
+    const classification = await classifyOvertimeDate(date, employeeId);
+    res.json(classification);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/public-holidays
+ */
+publicHolidayRouter.post(
+  '/',
+  requireRole('ADMIN'),
+  auditLogMiddleware('PUBLIC_HOLIDAY'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const validation = validatePublicHolidayInput(req.body, false);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', validation.errors);
+      }
+
+      const holiday = await createPublicHoliday(validation.data as CreatePublicHolidayInput);
+      res.status(201).json(holiday);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/public-holidays/national/:year
+ * Sabit tarihli ulusal bayramları yıla ekler
+ */
+publicHolidayRouter.post(
+  '/national/:year',
+  requireRole('ADMIN'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const year = parseInt(req.params.year as string, 10);
+      if (isNaN(year)) {
+        throw new AppError(400, 'INVALID_PARAMS', 'Yıl parametresi gereklidir');
+      }
+
+      const holidays = await addNationalHolidays(year);
+      res.json(holidays);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /api/public-holidays/:id
+ */
+publicHolidayRouter.put(
+  '/:id',
+  requireRole('ADMIN'),
+  captureOldData('PUBLIC_HOLIDAY', getPublicHolidayOldData),
+  auditLogMiddleware('PUBLIC_HOLIDAY'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const validation = validatePublicHolidayInput(req.body, true);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', validation.errors);
+      }
+
+      const holiday = await updatePublicHoliday(id, validation.data);
+      res.json(holiday);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/public-holidays/:id
+ */
+publicHolidayRouter.delete(
+  '/:id',
+  requireRole('ADMIN'),
+  captureOldData('PUBLIC_HOLIDAY', getPublicHolidayOldData),
+  auditLogMiddleware('PUBLIC_HOLIDAY'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      await deletePublicHoliday(id);
+      res.status(204).json({ deleted: true });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
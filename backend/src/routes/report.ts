@@ -0,0 +1,53 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticate } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { getCashEnvelopeReport, getEmployerCostReport } from '../services/report.service';
+
+/**
+ * Report Routes
+ */
+
+export const reportRouter = Router();
+
+reportRouter.use(authenticate);
+
+/**
+ * GET /api/reports/employer-cost?month=1&year=2025
+ * Employer cost per work area, compared with the previous month
+ */
+reportRouter.get('/employer-cost', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const month = parseInt(req.query.month as string, 10);
+    const year = parseInt(req.query.year as string, 10);
+
+    if (isNaN(month) || isNaN(year)) {
+      throw new AppError(400, 'INVALID_PARAMS', 'Ay ve yıl parametreleri gereklidir');
+    }
+
+    const report = await getEmployerCostReport(month, year);
+    res.json(report);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/reports/cash-envelopes?month=1&year=2025&workArea=DEPO
+ * Cash payment envelope list with the denomination breakdown (workArea optional)
+ */
+reportRouter.get('/cash-envelopes', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const month = parseInt(req.query.month as string, 10);
+    const year = parseInt(req.query.year as string, 10);
+    const workArea = req.query.workArea as string | undefined;
+
+    if (isNaN(month) || isNaN(year)) {
+      throw new AppError(400, 'INVALID_PARAMS', 'Ay ve yıl parametreleri gereklidir');
+    }
+
+    const report = await getCashEnvelopeReport(month, year, workArea);
+    res.json(report);
+  } catch (error) {
+    next(error);
+  }
+});
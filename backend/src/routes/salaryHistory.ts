@@ -0,0 +1,79 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticate } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { auditLogMiddleware, captureOldData } from '../middleware/auditLog';
+import prisma from '../utils/prisma';
+import {
+  getSalaryHistoryById,
+  updateSalaryHistory,
+  deleteSalaryHistory,
+  validateSalaryHistoryInput,
+} from '../services/salaryHistory.service';
+import { recalculateTaxLedgerFrom } from '../services/taxLedger.service';
+
+/**
+ * Salary History Routes
+ *
+ * Listeleme ve ekleme çalışan altında (/api/employees/:id/salary-history),
+ * düzeltme ve silme kayıt bazında yapılır.
+ */
+
+export const salaryHistoryRouter = Router();
+
+salaryHistoryRouter.use(authenticate);
+
+const getSalaryHistoryOldData = async (req: Request) => {
+  const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+  const row = await prisma.salaryHistory.findUnique({
+    where: { id },
+    include: { employee: { select: { id: true, fullName: true } } },
+  });
+  return row as Record<string, unknown> | null;
+};
+
+/**
+ * PUT /api/salary-history/:id
+ */
+salaryHistoryRouter.put(
+  '/:id',
+  captureOldData('SALARY_HISTORY', getSalaryHistoryOldData),
+  auditLogMiddleware('SALARY_HISTORY'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const validation = validateSalaryHistoryInput(req.body, true);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', validation.errors);
+      }
+
+      const existing = await getSalaryHistoryById(id);
+      const row = await updateSalaryHistory(id, validation.data);
+      // Eski ve yeni geçerlilik tarihlerinden erken olanından itibaren vergi matrahı yenilenir
+      const from = existing.effectiveFrom < row.effectiveFrom ? existing.effectiveFrom : row.effectiveFrom;
+      await recalculateTaxLedgerFrom(row.employeeId, from);
+      res.json(row);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/salary-history/:id
+ */
+salaryHistoryRouter.delete(
+  '/:id',
+  captureOldData('SALARY_HISTORY', getSalaryHistoryOldData),
+  auditLogMiddleware('SALARY_HISTORY'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const existing = await getSalaryHistoryById(id);
+      await deleteSalaryHistory(id);
+      await recalculateTaxLedgerFrom(existing.employeeId, existing.effectiveFrom);
+      res.status(204).json({ deleted: true });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
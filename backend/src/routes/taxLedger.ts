@@ -0,0 +1,56 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticate, requireRole } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { getTaxLedger, recalculateTaxLedgerForYear } from '../services/taxLedger.service';
+
+/**
+ * Tax Ledger Routes
+ *
+ * Çalışanların yıllık kümülatif gelir vergisi matrahı ve ödenen vergi dökümü.
+ * Defter puantaj değişikliklerinde otomatik güncellenir; toplu yeniden hesaplama ADMIN'e açıktır.
+ */
+
+export const taxLedgerRouter = Router();
+
+taxLedgerRouter.use(authenticate);
+
+/**
+ * GET /api/tax-ledger?year=2025&employeeId=...
+ */
+taxLedgerRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const year = parseInt(req.query.year as string, 10);
+    const employeeId = (req.query.employeeId as string | undefined) || undefined;
+
+    if (isNaN(year)) {
+      throw new AppError(400, 'INVALID_PARAMS', 'Yıl parametresi gereklidir');
+    }
+
+    const ledger = await getTaxLedger(year, employeeId);
+    res.json(ledger);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/tax-ledger/recalculate
+ * Body: { year }
+ */
+taxLedgerRouter.post(
+  '/recalculate',
+  requireRole('ADMIN'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const year = Number(req.body?.year);
+      if (!Number.isInteger(year) || year < 2000 || year > 2100) {
+        throw new AppError(400, 'INVALID_YEAR', 'Yıl 2000-2100 arasında olmalıdır');
+      }
+
+      const employeeCount = await recalculateTaxLedgerForYear(year);
+      res.json({ year, employeeCount });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
@@ -0,0 +1,117 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticate, requireRole } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { auditLogMiddleware, captureOldData } from '../middleware/auditLog';
+import {
+  listTaxParameters,
+  getTaxParameterById,
+  createTaxParameter,
+  updateTaxParameter,
+  deleteTaxParameter,
+  validateTaxParameterInput,
+  CreateTaxParameterInput,
+} from '../services/taxParameter.service';
+import { recalculateTaxLedgerForYear } from '../services/taxLedger.service';
+
+/**
+ * Tax Parameter Routes
+ *
+ * Yıllık vergi / SGK parametreleri. Okuma tüm kullanıcılara,
+ * değişiklikler yalnızca ADMIN rolüne açıktır.
+ */
+
+export const taxParameterRouter = Router();
+
+taxParameterRouter.use(authenticate);
+
+const getTaxParameterOldData = async (req: Request) => {
+  const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+  const parameter = await getTaxParameterById(id);
+  return parameter as unknown as Record<string, unknown>;
+};
+
+/**
+ * GET /api/tax-parameters
+ */
+taxParameterRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parameters = await listTaxParameters();
+    res.json(parameters);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/tax-parameters
+ */
+taxParameterRouter.post(
+  '/',
+  requireRole('ADMIN'),
+  auditLogMiddleware('TAX_PARAMETER'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const validation = validateTaxParameterInput(req.body, false);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', validation.errors);
+      }
+
+      const parameter = await createTaxParameter(validation.data as CreateTaxParameterInput);
+      await recalculateTaxLedgerForYear(parameter.year);
+      res.status(201).json(parameter);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /api/tax-parameters/:id
+ */
+taxParameterRouter.put(
+  '/:id',
+  requireRole('ADMIN'),
+  captureOldData('TAX_PARAMETER', getTaxParameterOldData),
+  auditLogMiddleware('TAX_PARAMETER'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const validation = validateTaxParameterInput(req.body, true);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', validation.errors);
+      }
+
+      const existing = await getTaxParameterById(id);
+      const parameter = await updateTaxParameter(id, validation.data);
+      // Yıl değiştiyse her iki yılın kümülatif vergi defteri de yenilenir
+      await recalculateTaxLedgerForYear(parameter.year);
+      if (existing.year !== parameter.year) {
+        await recalculateTaxLedgerForYear(existing.year);
+      }
+      res.json(parameter);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/tax-parameters/:id
+ */
+taxParameterRouter.delete(
+  '/:id',
+  requireRole('ADMIN'),
+  captureOldData('TAX_PARAMETER', getTaxParameterOldData),
+  auditLogMiddleware('TAX_PARAMETER'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const existing = await getTaxParameterById(id);
+      await deleteTaxParameter(id);
+      await recalculateTaxLedgerForYear(existing.year);
+      res.status(204).json({ deleted: true });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
@@ -0,0 +1,56 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticate, requireRole } from '../middleware/auth';
+import { auditLogMiddleware, captureOldData } from '../middleware/auditLog';
+import {
+  getTerminationSettlementById,
+  deleteTerminationSettlement,
+} from '../services/termination.service';
+
+/**
+ * Termination Settlement Routes
+ *
+ * Hesaplama ve kayıt çalışan altında (/api/employees/:id/terminations),
+ * görüntüleme ve silme kayıt bazında yapılır.
+ */
+
+export const terminationSettlementRouter = Router();
+
+terminationSettlementRouter.use(authenticate);
+
+const getSettlementOldData = async (req: Request) => {
+  const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+  const settlement = await getTerminationSettlementById(id);
+  return settlement as unknown as Record<string, unknown>;
+};
+
+/**
+ * GET /api/termination-settlements/:id
+ */
+terminationSettlementRouter.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const settlement = await getTerminationSettlementById(id);
+    res.json(settlement);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/termination-settlements/:id
+ */
+terminationSettlementRouter.delete(
+  '/:id',
+  requireRole('ADMIN'),
+  captureOldData('TERMINATION_SETTLEMENT', getSettlementOldData),
+  auditLogMiddleware('TERMINATION_SETTLEMENT'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      await deleteTerminationSettlement(id);
+      res.status(204).json({ deleted: true });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
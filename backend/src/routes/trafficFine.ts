@@ -4,12 +4,21 @@ import { AppError } from '../middleware/errorHandler';
 import { auditLogMiddleware, captureOldData } from '../middleware/auditLog';
 import {
   addPaymentToTrafficFine,
+  clearDeductionPlan,
   createTrafficFine,
   deleteTrafficFine,
+  deleteTrafficFinePayment,
+  EARLY_PAYMENT_DAYS,
   getTrafficFineById,
+  listExpiringDiscounts,
   listTrafficFines,
+  setDeductionPlan,
+  updateTrafficFine,
+  updateTrafficFinePayment,
+  validateDeductionPlanInput,
   validateTrafficFineInput,
   validateTrafficFinePaymentInput,
+  validateUpdateTrafficFineInput,
 } from '../services/trafficFine.service';
 import prisma from '../utils/prisma';
 
@@ -32,12 +41,30 @@ const getTrafficFineOldData = async (req: Request) => {
 
 /**
  * GET /api/traffic-fines
- * Optional query params: employeeId
+ * Optional query params: employeeId, status
  */
 trafficFineRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
   try {
     const employeeId = (req.query.employeeId as string | undefined) || undefined;
-    const fines = await listTrafficFines(employeeId);
+    const status = (req.query.status as string | undefined) || undefined;
+    const fines = await listTrafficFines({ employeeId, status });
+    res.json(fines);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/traffic-fines/expiring-discounts?days=5
+ */
+trafficFineRouter.get('/expiring-discounts', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const days = req.query.days ? parseInt(req.query.days as string, 10) : 5;
+    if (isNaN(days) || days < 0 || days > EARLY_PAYMENT_DAYS) {
+      throw new AppError(400, 'INVALID_PARAMS', `Gün sayısı 0-${EARLY_PAYMENT_DAYS} arasında olmalıdır`);
+    }
+
+    const fines = await listExpiringDiscounts(days);
     res.json(fines);
   } catch (error) {
     next(error);
@@ -74,7 +101,10 @@ trafficFineRouter.post('/', auditLogMiddleware('TRAFFIC_FINE'), async (req: Requ
       entityName: `${fine.employee.fullName} - Trafik Cezası`,
       newData: {
         employeeId: fine.employeeId,
+        plate: fine.vehicle?.plate ?? null,
+        driverResolution: fine.driverResolution,
         fineDate: fine.fineDate,
+        notificationDate: fine.notificationDate,
         amount: fine.amount,
         description: fine.description,
       },
@@ -114,6 +144,154 @@ trafficFineRouter.post('/:id/payments', auditLogMiddleware('TRAFFIC_FINE'), asyn
   }
 });
 
+// Ceza alanlarını log için sadeleştirir
+const toFineAuditData = (fine: Awaited<ReturnType<typeof getTrafficFineById>>) => ({
+  fineDate: fine.fineDate,
+  notificationDate: fine.notificationDate,
+  amount: fine.amount,
+  description: fine.description,
+});
+
+/**
+ * PUT /api/traffic-fines/:id
+ * Ceza tutarı, tarihleri ve açıklaması
+ */
+trafficFineRouter.put('/:id', auditLogMiddleware('TRAFFIC_FINE'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const validation = validateUpdateTrafficFineInput(req.body);
+    if (!validation.success) {
+      throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', validation.errors);
+    }
+
+    const before = await getTrafficFineById(id);
+    const fine = await updateTrafficFine(id, validation.data);
+    req.auditLog = {
+      entityType: 'TRAFFIC_FINE',
+      entityId: id,
+      entityName: `${fine.employee.fullName} - Trafik Cezası`,
+      oldData: toFineAuditData(before),
+      newData: toFineAuditData(fine),
+    };
+    res.json(fine);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/traffic-fines/:id/payments/:paymentId
+ */
+trafficFineRouter.put('/:id/payments/:paymentId', auditLogMiddleware('TRAFFIC_FINE'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const trafficFineId = req.params.id as string;
+    const paymentId = req.params.paymentId as string;
+    const validation = validateTrafficFinePaymentInput(req.body);
+    if (!validation.success) {
+      throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', validation.errors);
+    }
+
+    const fine = await getTrafficFineById(trafficFineId);
+    const previous = fine.payments.find((payment) => payment.id === paymentId);
+    const payment = await updateTrafficFinePayment(trafficFineId, paymentId, validation.data);
+    req.auditLog = {
+      entityType: 'TRAFFIC_FINE',
+      entityId: trafficFineId,
+      entityName: `${fine.employee.fullName} - Trafik Cezası`,
+      actionOverride: 'UPDATE',
+      oldData: previous ? { paymentDate: previous.paymentDate, amount: previous.amount } : undefined,
+      newData: { paymentDate: payment.paymentDate, amount: payment.amount },
+    };
+    res.json(payment);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/traffic-fines/:id/payments/:paymentId
+ */
+trafficFineRouter.delete('/:id/payments/:paymentId', auditLogMiddleware('TRAFFIC_FINE'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const trafficFineId = req.params.id as string;
+    const paymentId = req.params.paymentId as string;
+
+    const fine = await getTrafficFineById(trafficFineId);
+    const previous = fine.payments.find((payment) => payment.id === paymentId);
+    await deleteTrafficFinePayment(trafficFineId, paymentId);
+    // Ödeme silinmesi cezanın güncellenmesi olarak loglanır
+    req.auditLog = {
+      entityType: 'TRAFFIC_FINE',
+      entityId: trafficFineId,
+      entityName: `${fine.employee.fullName} - Trafik Cezası`,
+      actionOverride: 'UPDATE',
+      oldData: previous ? { paymentDate: previous.paymentDate, amount: previous.amount } : undefined,
+      newData: { paymentDeleted: true },
+    };
+    res.status(204).json({ deleted: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Kesinti planını log için "ay/yıl: tutar" listesine çevirir
+const toDeductionAuditData = (fine: Awaited<ReturnType<typeof getTrafficFineById>>) => ({
+  deductions: fine.deductions
+    .map((line) => `${line.month}/${line.year}: ${line.amount}${line.paymentId ? ' (ödendi)' : ''}`)
+    .join(', ') || '-',
+});
+
+/**
+ * PUT /api/traffic-fines/:id/deduction-plan
+ * Kalan tutar için maaştan kesinti planı (taksit sayısı veya aylık tutar)
+ */
+trafficFineRouter.put('/:id/deduction-plan', auditLogMiddleware('TRAFFIC_FINE'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const trafficFineId = req.params.id as string;
+    const validation = validateDeductionPlanInput(req.body);
+    if (!validation.success) {
+      throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', validation.errors);
+    }
+
+    const before = await getTrafficFineById(trafficFineId);
+    const fine = await setDeductionPlan(trafficFineId, validation.data);
+    req.auditLog = {
+      entityType: 'TRAFFIC_FINE',
+      entityId: trafficFineId,
+      entityName: `${fine.employee.fullName} - Trafik Cezası`,
+      actionOverride: 'UPDATE',
+      oldData: toDeductionAuditData(before),
+      newData: toDeductionAuditData(fine),
+    };
+    res.json(fine);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/traffic-fines/:id/deduction-plan
+ * Ödemeye bağlanmamış kesintileri kaldırır
+ */
+trafficFineRouter.delete('/:id/deduction-plan', auditLogMiddleware('TRAFFIC_FINE'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const trafficFineId = req.params.id as string;
+    const before = await getTrafficFineById(trafficFineId);
+    const fine = await clearDeductionPlan(trafficFineId);
+    req.auditLog = {
+      entityType: 'TRAFFIC_FINE',
+      entityId: trafficFineId,
+      entityName: `${fine.employee.fullName} - Trafik Cezası`,
+      actionOverride: 'UPDATE',
+      oldData: toDeductionAuditData(before),
+      newData: toDeductionAuditData(fine),
+    };
+    res.json(fine);
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * DELETE /api/traffic-fines/:id
  */
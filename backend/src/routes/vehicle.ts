@@ -0,0 +1,240 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticate } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { auditLogMiddleware } from '../middleware/auditLog';
+import {
+  createAssignment,
+  createVehicle,
+  deleteAssignment,
+  deleteVehicle,
+  getAssignmentById,
+  getVehicleById,
+  listVehicles,
+  resolveDriver,
+  updateAssignment,
+  updateVehicle,
+  validateAssignmentInput,
+  validateVehicleInput,
+  CreateAssignmentInput,
+  CreateVehicleInput,
+} from '../services/vehicle.service';
+
+/**
+ * Vehicle Routes
+ *
+ * Şirket araçları ve sürücü zimmet geçmişi
+ */
+
+export const vehicleRouter = Router();
+
+vehicleRouter.use(authenticate);
+
+// Araç kaydını log için sadeleştirir (zimmet listesi hariç)
+const toVehicleAuditData = (vehicle: Awaited<ReturnType<typeof getVehicleById>>) => ({
+  plate: vehicle.plate,
+  model: vehicle.model,
+  status: vehicle.status,
+  note: vehicle.note,
+});
+
+const toAssignmentAuditData = (assignment: Awaited<ReturnType<typeof getAssignmentById>>) => ({
+  employeeName: assignment.employee.fullName,
+  startDate: assignment.startDate,
+  endDate: assignment.endDate,
+  note: assignment.note,
+});
+
+/**
+ * GET /api/vehicles?status=ACTIVE
+ */
+vehicleRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const status = (req.query.status as string | undefined) || undefined;
+    const vehicles = await listVehicles(status);
+    res.json(vehicles);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/vehicles/resolve-driver?plate=34ABC123&date=2026-03-01
+ * Plaka ve tarihten sorumlu sürücü
+ */
+vehicleRouter.get('/resolve-driver', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const plate = req.query.plate as string | undefined;
+    const date = req.query.date as string | undefined;
+
+    if (!plate || !date || isNaN(Date.parse(date))) {
+      throw new AppError(400, 'INVALID_PARAMS', 'Plaka ve geçerli bir tarih gereklidir');
+    }
+
+    const resolution = await resolveDriver(plate, date);
+    res.json(resolution);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/vehicles/:id
+ */
+vehicleRouter.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const vehicle = await getVehicleById(req.params.id as string);
+    res.json(vehicle);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/vehicles
+ */
+vehicleRouter.post('/', auditLogMiddleware('VEHICLE'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const validation = validateVehicleInput(req.body, false);
+    if (!validation.success) {
+      throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', validation.errors);
+    }
+
+    const vehicle = await createVehicle(validation.data as CreateVehicleInput);
+    req.auditLog = {
+      entityType: 'VEHICLE',
+      entityId: vehicle.id,
+      entityName: `Araç - ${vehicle.plate}`,
+      newData: toVehicleAuditData(vehicle),
+    };
+    res.status(201).json(vehicle);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/vehicles/:id
+ */
+vehicleRouter.put('/:id', auditLogMiddleware('VEHICLE'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const validation = validateVehicleInput(req.body, true);
+    if (!validation.success) {
+      throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', validation.errors);
+    }
+
+    const before = await getVehicleById(id);
+    const vehicle = await updateVehicle(id, validation.data);
+    req.auditLog = {
+      entityType: 'VEHICLE',
+      entityId: id,
+      entityName: `Araç - ${vehicle.plate}`,
+      oldData: toVehicleAuditData(before),
+      newData: toVehicleAuditData(vehicle),
+    };
+    res.json(vehicle);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/vehicles/:id
+ */
+vehicleRouter.delete('/:id', auditLogMiddleware('VEHICLE'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = req.params.id as string;
+    const before = await getVehicleById(id);
+    await deleteVehicle(id);
+    req.auditLog = {
+      entityType: 'VEHICLE',
+      entityId: id,
+      entityName: `Araç - ${before.plate}`,
+      oldData: toVehicleAuditData(before),
+    };
+    res.status(204).json({ deleted: true });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/vehicles/:id/assignments
+ */
+vehicleRouter.post('/:id/assignments', auditLogMiddleware('VEHICLE'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const vehicleId = req.params.id as string;
+    const validation = validateAssignmentInput(req.body, false);
+    if (!validation.success) {
+      throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', validation.errors);
+    }
+
+    const vehicle = await getVehicleById(vehicleId);
+    const assignment = await createAssignment(vehicleId, validation.data as CreateAssignmentInput);
+    // Zimmet kaydı aracın güncellenmesi olarak loglanır
+    req.auditLog = {
+      entityType: 'VEHICLE',
+      entityId: vehicleId,
+      entityName: `Araç - ${vehicle.plate}`,
+      actionOverride: 'UPDATE',
+      newData: toAssignmentAuditData(assignment),
+    };
+    res.status(201).json(assignment);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /api/vehicles/:id/assignments/:assignmentId
+ */
+vehicleRouter.put('/:id/assignments/:assignmentId', auditLogMiddleware('VEHICLE'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const vehicleId = req.params.id as string;
+    const assignmentId = req.params.assignmentId as string;
+    const validation = validateAssignmentInput(req.body, true);
+    if (!validation.success) {
+      throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', validation.errors);
+    }
+
+    const vehicle = await getVehicleById(vehicleId);
+    const before = await getAssignmentById(vehicleId, assignmentId);
+    const assignment = await updateAssignment(vehicleId, assignmentId, validation.data);
+    req.auditLog = {
+      entityType: 'VEHICLE',
+      entityId: vehicleId,
+      entityName: `Araç - ${vehicle.plate}`,
+      actionOverride: 'UPDATE',
+      oldData: toAssignmentAuditData(before),
+      newData: toAssignmentAuditData(assignment),
+    };
+    res.json(assignment);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/vehicles/:id/assignments/:assignmentId
+ */
+vehicleRouter.delete('/:id/assignments/:assignmentId', auditLogMiddleware('VEHICLE'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const vehicleId = req.params.id as string;
+    const assignmentId = req.params.assignmentId as string;
+
+    const vehicle = await getVehicleById(vehicleId);
+    const before = await getAssignmentById(vehicleId, assignmentId);
+    await deleteAssignment(vehicleId, assignmentId);
+    req.auditLog = {
+      entityType: 'VEHICLE',
+      entityId: vehicleId,
+      entityName: `Araç - ${vehicle.plate}`,
+      actionOverride: 'UPDATE',
+      oldData: toAssignmentAuditData(before),
+      newData: { assignmentDeleted: true },
+    };
+    res.status(204).json({ deleted: true });
+  } catch (error) {
+    next(error);
+  }
+});
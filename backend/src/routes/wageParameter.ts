@@ -0,0 +1,109 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticate, requireRole } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { auditLogMiddleware, captureOldData } from '../middleware/auditLog';
+import prisma from '../utils/prisma';
+import {
+  listWageParameters,
+  createWageParameter,
+  updateWageParameter,
+  deleteWageParameter,
+  validateWageParameterInput,
+  CreateWageParameterInput,
+} from '../services/wageParameter.service';
+
+/**
+ * Wage Parameter Routes
+ *
+ * Dönemsel resmi ücret parametreleri. Okuma tüm kullanıcılara,
+ * değişiklikler yalnızca ADMIN rolüne açıktır.
+ */
+
+export const wageParameterRouter = Router();
+
+wageParameterRouter.use(authenticate);
+
+const getWageParameterOldData = async (req: Request) => {
+  const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+  const parameter = await prisma.wageParameter.findUnique({
+    where: { id },
+  });
+  return parameter as Record<string, unknown> | null;
+};
+
+/**
+ * GET /api/wage-parameters
+ */
+wageParameterRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const parameters = await listWageParameters();
+    res.json(parameters);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/wage-parameters
+ */
+wageParameterRouter.post(
+  '/',
+  requireRole('ADMIN'),
+  auditLogMiddleware('WAGE_PARAMETER'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const validation = validateWageParameterInput(req.body, false);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', validation.errors);
+      }
+
+      const parameter = await createWageParameter(validation.data as CreateWageParameterInput);
+      res.status(201).json(parameter);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /api/wage-parameters/:id
+ */
+wageParameterRouter.put(
+  '/:id',
+  requireRole('ADMIN'),
+  captureOldData('WAGE_PARAMETER', getWageParameterOldData),
+  auditLogMiddleware('WAGE_PARAMETER'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      const validation = validateWageParameterInput(req.body, true);
+      if (!validation.success) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', validation.errors);
+      }
+
+      const parameter = await updateWageParameter(id, validation.data);
+      res.json(parameter);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/wage-parameters/:id
+ */
+wageParameterRouter.delete(
+  '/:id',
+  requireRole('ADMIN'),
+  captureOldData('WAGE_PARAMETER', getWageParameterOldData),
+  auditLogMiddleware('WAGE_PARAMETER'),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = req.params.id as string;
+      await deleteWageParameter(id);
+      res.status(204).json({ deleted: true });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
@@ -0,0 +1,90 @@
+import prisma from '../utils/prisma';
+import {
+  findOvertimeMismatches,
+  fixOvertimeMismatches,
+  OvertimeMismatch,
+  OvertimeReconciliationFilter,
+} from '../services/overtimeReconciliation.service';
+
+/**
+ * Mesai mutabakatı komutu
+ *
+ * Kullanım:
+ *   npm run reconcile:overtime -- [--year 2026] [--month 3] [--employee <id>] [--fix] [--user admin]
+ *
+ * --fix verilmezse yalnızca farklar listelenir. Düzeltmeler --user ile verilen kullanıcı adına loglanır.
+ */
+
+function parseArgs(argv: string[]) {
+  const args: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const name = arg.slice(2);
+    const next = argv[i + 1];
+    if (next === undefined || next.startsWith('--')) {
+      args[name] = true;
+    } else {
+      args[name] = next;
+      i++;
+    }
+  }
+  return args;
+}
+
+function parseNumberArg(value: string | boolean | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = parseInt(String(value), 10);
+  if (isNaN(parsed)) {
+    throw new Error(`--${name} sayı olmalıdır`);
+  }
+  return parsed;
+}
+
+function formatRow(row: OvertimeMismatch): string {
+  const period = `${String(row.month).padStart(2, '0')}/${row.year}`;
+  const closed = row.periodClosed ? ' [kapalı dönem]' : '';
+  return `${period} ${row.employeeName}: %50 ${row.payrollOvertime50} ≠ ${row.entryOvertime50} (${row.difference50}), `
+    + `%100 ${row.payrollOvertime100} ≠ ${row.entryOvertime100} (${row.difference100})${closed}`;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const filter: OvertimeReconciliationFilter = {
+    year: parseNumberArg(args.year, 'year'),
+    month: parseNumberArg(args.month, 'month'),
+    employeeId: typeof args.employee === 'string' ? args.employee : undefined,
+  };
+
+  if (!args.fix) {
+    const mismatches = await findOvertimeMismatches(filter);
+    if (mismatches.length === 0) {
+      console.log('Fark bulunamadı.');
+      return;
+    }
+    mismatches.forEach((row) => console.log(formatRow(row)));
+    console.log(`${mismatches.length} satırda fark var. Düzeltmek için --fix ekleyin.`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const username = typeof args.user === 'string' ? args.user : 'admin';
+  const user = await prisma.user.findUnique({ where: { username } });
+  if (!user) {
+    throw new Error(`Kullanıcı bulunamadı: ${username}`);
+  }
+
+  const result = await fixOvertimeMismatches(filter, { userId: user.id, userName: user.username });
+  result.fixed.forEach((row) => console.log(`Düzeltildi: ${formatRow(row)}`));
+  result.skipped.forEach((row) => console.log(`Atlandı: ${formatRow(row)}`));
+  console.log(`${result.fixed.length} satır düzeltildi, ${result.skipped.length} satır atlandı.`);
+}
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
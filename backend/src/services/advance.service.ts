@@ -0,0 +1,398 @@
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import prisma from '../utils/prisma';
+import { AppError } from '../middleware/errorHandler';
+import { assertPeriodOpen } from './payrollPeriod.service';
+import { getSalaryForPeriod } from './salaryHistory.service';
+import { recalculateTaxLedger } from './taxLedger.service';
+import { roundCurrency } from './taxCalculation.service';
+
+/**
+ * Advance Service
+ *
+ * Avans defteri: her avans tarihi, tutarı, türü (elden / resmi) ve onaylayanıyla ayrı kayıttır.
+ * Puantajdaki advance / officialAdvance alanları dönemin kayıtlarından toplanır, elle girilmez.
+ * Hakedişi aşan avans dönem kapanışında bir sonraki döneme "devreden avans" olarak aktarılır.
+ */
+
+export const ADVANCE_KINDS = ['CASH', 'OFFICIAL'] as const;
+
+export type AdvanceKind = (typeof ADVANCE_KINDS)[number];
+
+export interface AdvanceCarryOver {
+  employeeId: string;
+  cash: number;
+  official: number;
+}
+
+// Avansı değişen çalışan dönemi (vergi matrahı transaction sonrasında yeniden hesaplanır)
+export interface AdvancePeriodChange {
+  employeeId: string;
+  month: number;
+  year: number;
+}
+
+const dateString = z.string().refine((val) => !isNaN(Date.parse(val)), {
+  message: 'Geçerli bir tarih giriniz',
+});
+
+export const createAdvanceSchema = z.object({
+  employeeId: z.string().min(1, 'Çalışan zorunludur'),
+  advanceDate: dateString,
+  month: z.number().int().min(1).max(12),
+  year: z.number().int().min(2000).max(2100),
+  kind: z.enum(ADVANCE_KINDS),
+  amount: z.number().positive('Avans tutarı 0\'dan büyük olmalıdır'),
+  note: z.string().max(255, 'Not çok uzun').optional().nullable(),
+  // Boşsa kaydı giren kullanıcı onaylayan sayılır
+  approvedBy: z.string().max(100, 'Onaylayan adı çok uzun').optional().nullable(),
+});
+
+export const updateAdvanceSchema = createAdvanceSchema.omit({ employeeId: true }).partial();
+
+export type CreateAdvanceInput = z.infer<typeof createAdvanceSchema>;
+export type UpdateAdvanceInput = z.infer<typeof updateAdvanceSchema>;
+
+export function validateAdvanceInput(
+  input: unknown,
+  isUpdate: boolean = false
+): { success: true; data: CreateAdvanceInput | UpdateAdvanceInput } | { success: false; errors: Record<string, string[]> } {
+  const schema = isUpdate ? updateAdvanceSchema : createAdvanceSchema;
+  const result = schema.safeParse(input);
+  if (result.success) return { success: true, data: result.data };
+  const errors: Record<string, string[]> = {};
+  for (const error of result.error.errors) {
+    const field = error.path.join('.');
+    if (!errors[field]) errors[field] = [];
+    errors[field].push(error.message);
+  }
+  return { success: false, errors };
+}
+
+const advanceInclude = {
+  employee: { select: { id: true, fullName: true, isInsured: true } },
+} as const;
+
+function nextPeriod(month: number, year: number): { month: number; year: number } {
+  return month === 12 ? { month: 1, year: year + 1 } : { month: month + 1, year };
+}
+
+/**
+ * Dönemin avans toplamlarını puantaj satırına yazar; satır yoksa oluşturur
+ */
+async function syncPayrollAdvances(
+  tx: Prisma.TransactionClient,
+  employee: { id: string; salary: number; workingDays: number },
+  month: number,
+  year: number
+): Promise<void> {
+  const totals = await tx.advance.groupBy({
+    by: ['kind'],
+    where: { employeeId: employee.id, month, year },
+    _sum: { amount: true },
+  });
+  const totalOf = (kind: AdvanceKind) =>
+    roundCurrency(totals.find((total) => total.kind === kind)?._sum.amount ?? 0);
+  const advance = totalOf('CASH');
+  const officialAdvance = totalOf('OFFICIAL');
+
+  const existing = await tx.payrollEntry.findUnique({
+    where: { employeeId_month_year: { employeeId: employee.id, month, year } },
+    select: { id: true },
+  });
+  if (existing) {
+    await tx.payrollEntry.update({ where: { id: existing.id }, data: { advance, officialAdvance } });
+    return;
+  }
+
+  const periodSalary = await getSalaryForPeriod(employee, month, year);
+  await tx.payrollEntry.create({
+    data: {
+      employeeId: employee.id,
+      month,
+      year,
+      daysWorked: periodSalary.workingDays,
+      advance,
+      officialAdvance,
+    },
+  });
+}
+
+export async function listAdvances(month: number, year: number, employeeId?: string) {
+  if (month < 1 || month > 12) {
+    throw new AppError(400, 'INVALID_MONTH', 'Ay 1-12 arasında olmalıdır');
+  }
+  if (year < 2000 || year > 2100) {
+    throw new AppError(400, 'INVALID_YEAR', 'Yıl 2000-2100 arasında olmalıdır');
+  }
+
+  return prisma.advance.findMany({
+    where: { month, year, ...(employeeId ? { employeeId } : {}) },
+    orderBy: [{ advanceDate: 'desc' }, { createdAt: 'desc' }],
+    include: advanceInclude,
+  });
+}
+
+export async function getAdvanceById(id: string) {
+  const advance = await prisma.advance.findUnique({ where: { id }, include: advanceInclude });
+  if (!advance) {
+    throw new AppError(404, 'ADVANCE_NOT_FOUND', 'Avans kaydı bulunamadı');
+  }
+  return advance;
+}
+
+function assertKindAllowed(kind: AdvanceKind, isInsured: boolean) {
+  if (kind === 'OFFICIAL' && !isInsured) {
+    throw new AppError(400, 'OFFICIAL_ADVANCE_NOT_ALLOWED', 'Sigortasız çalışana resmi avans verilemez');
+  }
+}
+
+// Devreden avans kapanışta oluşur; kaynak dönem yeniden açılmadan değiştirilemez
+function assertNotCarriedOver(advance: { sourceMonth: number | null; sourceYear: number | null }) {
+  if (advance.sourceMonth !== null) {
+    throw new AppError(
+      409,
+      'ADVANCE_CARRIED_OVER',
+      `Devreden avans ${advance.sourceMonth}/${advance.sourceYear} dönemi kapanışında oluşturulmuştur; değişiklik için o dönemi yeniden açın`
+    );
+  }
+}
+
+export async function createAdvance(input: CreateAdvanceInput, createdBy: string) {
+  const employee = await prisma.employee.findUnique({ where: { id: input.employeeId } });
+  if (!employee) {
+    throw new AppError(404, 'EMPLOYEE_NOT_FOUND', 'Çalışan bulunamadı');
+  }
+  await assertPeriodOpen(input.month, input.year);
+  assertKindAllowed(input.kind, employee.isInsured);
+
+  const advance = await prisma.$transaction(async (tx) => {
+    const created = await tx.advance.create({
+      data: {
+        employeeId: input.employeeId,
+        advanceDate: new Date(input.advanceDate),
+        month: input.month,
+        year: input.year,
+        kind: input.kind,
+        amount: roundCurrency(input.amount),
+        note: input.note?.trim() || null,
+        approvedBy: input.approvedBy?.trim() || createdBy,
+        createdBy,
+      },
+      include: advanceInclude,
+    });
+    await syncPayrollAdvances(tx, employee, input.month, input.year);
+    return created;
+  });
+
+  await recalculateTaxLedger(input.employeeId, input.year, input.month);
+  return advance;
+}
+
+/**
+ * Avans kaydını günceller; dönem değişirse iki dönemin puantaj toplamları da yeniden yazılır
+ */
+export async function updateAdvance(id: string, input: UpdateAdvanceInput) {
+  const existing = await getAdvanceById(id);
+  assertNotCarriedOver(existing);
+
+  const next = {
+    month: input.month ?? existing.month,
+    year: input.year ?? existing.year,
+    kind: (input.kind ?? existing.kind) as AdvanceKind,
+  };
+  const periodChanged = next.month !== existing.month || next.year !== existing.year;
+
+  await assertPeriodOpen(existing.month, existing.year);
+  if (periodChanged) {
+    await assertPeriodOpen(next.month, next.year);
+  }
+
+  const employee = await prisma.employee.findUnique({ where: { id: existing.employeeId } });
+  if (!employee) {
+    throw new AppError(404, 'EMPLOYEE_NOT_FOUND', 'Çalışan bulunamadı');
+  }
+  assertKindAllowed(next.kind, employee.isInsured);
+
+  const advance = await prisma.$transaction(async (tx) => {
+    const updated = await tx.advance.update({
+      where: { id },
+      data: {
+        ...(input.advanceDate !== undefined ? { advanceDate: new Date(input.advanceDate) } : {}),
+        month: next.month,
+        year: next.year,
+        kind: next.kind,
+        ...(input.amount !== undefined ? { amount: roundCurrency(input.amount) } : {}),
+        ...(input.note !== undefined ? { note: input.note?.trim() || null } : {}),
+        ...(input.approvedBy !== undefined && input.approvedBy?.trim() ? { approvedBy: input.approvedBy.trim() } : {}),
+      },
+      include: advanceInclude,
+    });
+    await syncPayrollAdvances(tx, employee, next.month, next.year);
+    if (periodChanged) {
+      await syncPayrollAdvances(tx, employee, existing.month, existing.year);
+    }
+    return updated;
+  });
+
+  await recalculateTaxLedger(existing.employeeId, next.year, next.month);
+  if (periodChanged) {
+    await recalculateTaxLedger(existing.employeeId, existing.year, existing.month);
+  }
+  return advance;
+}
+
+export async function deleteAdvance(id: string): Promise<void> {
+  const existing = await getAdvanceById(id);
+  assertNotCarriedOver(existing);
+  await assertPeriodOpen(existing.month, existing.year);
+
+  const employee = await prisma.employee.findUnique({ where: { id: existing.employeeId } });
+  if (!employee) {
+    throw new AppError(404, 'EMPLOYEE_NOT_FOUND', 'Çalışan bulunamadı');
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.advance.delete({ where: { id } });
+    await syncPayrollAdvances(tx, employee, existing.month, existing.year);
+  });
+  await recalculateTaxLedger(existing.employeeId, existing.year, existing.month);
+}
+
+/**
+ * Devreden avans varsa sonraki dönemin açık olduğunu ve çalışanların o dönemde de çalıştığını doğrular
+ * (kapanıştan önce çağrılır). Çıkış yapmış çalışanın avansı sonraki puantajda düşülemeyeceği için devredilmez.
+ */
+export async function assertCarryOverTargetOpen(month: number, year: number, carryOvers: AdvanceCarryOver[]) {
+  const carried = carryOvers.filter((item) => item.cash > 0 || item.official > 0);
+  if (carried.length === 0) return;
+
+  const target = nextPeriod(month, year);
+  try {
+    await assertPeriodOpen(target.month, target.year);
+  } catch {
+    throw new AppError(
+      409,
+      'CARRY_OVER_PERIOD_CLOSED',
+      `Hakedişi aşan avans ${target.month}/${target.year} dönemine devredilemiyor; o dönem incelemede veya kapalı`
+    );
+  }
+
+  const leavers = await prisma.employee.findMany({
+    where: {
+      id: { in: carried.map((item) => item.employeeId) },
+      endDate: { lt: new Date(Date.UTC(target.year, target.month - 1, 1)) },
+    },
+    select: { fullName: true },
+    orderBy: { fullName: 'asc' },
+  });
+  if (leavers.length > 0) {
+    const names = leavers.map((employee) => employee.fullName);
+    throw new AppError(
+      409,
+      'CARRY_OVER_AFTER_EMPLOYMENT',
+      `İşten ayrılan çalışanların hakedişi aşan avansı devredilemiyor: ${names.join(', ')}. ` +
+        'Avansı düzeltin veya çalışandan tahsil edip kaydı güncelleyin',
+      { advance: names }
+    );
+  }
+}
+
+/**
+ * Hakedişi aşan avansları sonraki dönemin ilk gününe tarihli devreden avans olarak yazar
+ */
+export async function carryOverAdvances(
+  tx: Prisma.TransactionClient,
+  month: number,
+  year: number,
+  carryOvers: AdvanceCarryOver[],
+  approvedBy: string
+): Promise<AdvancePeriodChange[]> {
+  const target = nextPeriod(month, year);
+  const advanceDate = new Date(Date.UTC(target.year, target.month - 1, 1));
+  const changes: AdvancePeriodChange[] = [];
+
+  for (const item of carryOvers) {
+    const lines = ([['CASH', item.cash], ['OFFICIAL', item.official]] as const).filter(([, amount]) => amount > 0);
+    if (lines.length === 0) continue;
+
+    const employee = await tx.employee.findUnique({ where: { id: item.employeeId } });
+    if (!employee) continue;
+
+    for (const [kind, amount] of lines) {
+      await tx.advance.create({
+        data: {
+          employeeId: item.employeeId,
+          advanceDate,
+          month: target.month,
+          year: target.year,
+          // Sigortasızlığa geçen çalışanın resmi avans artığı elden avans olarak devreder
+          kind: kind === 'OFFICIAL' && !employee.isInsured ? 'CASH' : kind,
+          amount: roundCurrency(amount),
+          note: `Devreden avans (${month}/${year})`,
+          approvedBy,
+          createdBy: approvedBy,
+          sourceMonth: month,
+          sourceYear: year,
+        },
+      });
+    }
+    await syncPayrollAdvances(tx, employee, target.month, target.year);
+    changes.push({ employeeId: item.employeeId, month: target.month, year: target.year });
+  }
+  return changes;
+}
+
+/**
+ * Kapanış / yeniden açma transaction'ı tamamlandıktan sonra avansı değişen dönemlerin vergi matrahını yeniler
+ */
+export async function recalculateAdvanceTaxLedgers(changes: AdvancePeriodChange[]): Promise<void> {
+  for (const change of changes) {
+    await recalculateTaxLedger(change.employeeId, change.year, change.month);
+  }
+}
+
+/**
+ * Yeniden açılacak dönemin devrettiği avanslar ancak hedef dönem açıksa geri alınabilir
+ */
+export async function assertCarryOverRevertible(month: number, year: number): Promise<void> {
+  const count = await prisma.advance.count({ where: { sourceMonth: month, sourceYear: year } });
+  if (count === 0) return;
+
+  const target = nextPeriod(month, year);
+  try {
+    await assertPeriodOpen(target.month, target.year);
+  } catch {
+    throw new AppError(
+      409,
+      'CARRY_OVER_PERIOD_CLOSED',
+      `Bu dönemden devreden avanslar ${target.month}/${target.year} dönemine işlenmiş; önce o dönemi yeniden açın`
+    );
+  }
+}
+
+/**
+ * Dönem yeniden açılınca kapanışta oluşturulan devreden avansları siler
+ */
+export async function revertAdvanceCarryOver(
+  tx: Prisma.TransactionClient,
+  month: number,
+  year: number
+): Promise<AdvancePeriodChange[]> {
+  const carried = await tx.advance.findMany({
+    where: { sourceMonth: month, sourceYear: year },
+    include: { employee: true },
+  });
+  if (carried.length === 0) return [];
+
+  const employees = new Map(carried.map((advance) => [advance.employeeId, advance]));
+  await tx.advance.deleteMany({ where: { sourceMonth: month, sourceYear: year } });
+  for (const advance of employees.values()) {
+    await syncPayrollAdvances(tx, advance.employee, advance.month, advance.year);
+  }
+  return Array.from(employees.values()).map((advance) => ({
+    employeeId: advance.employeeId,
+    month: advance.month,
+    year: advance.year,
+  }));
+}
@@ -0,0 +1,222 @@
+import { createHash, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Prisma } from '@prisma/client';
+import prisma from '../utils/prisma';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Attachment Service
+ *
+ * Taranmış belgeler (ceza tebligatı, ödeme dekontu, sözleşme vb.).
+ * Dosyalar yerel diskte, üst veriler veritabanında tutulur.
+ * Her ek tek bir kayda (ceza, ceza ödemesi, çalışan veya puantaj satırı) bağlıdır.
+ */
+
+export const ATTACHMENT_DIR = path.resolve(process.env.ATTACHMENT_DIR || path.join(process.cwd(), 'uploads'));
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+// İzin verilen türler ve dosya başındaki imzaları
+const ALLOWED_MIME_TYPES: Record<string, (buffer: Buffer) => boolean> = {
+  'application/pdf': (buffer) => buffer.subarray(0, 5).toString('latin1') === '%PDF-',
+  'image/jpeg': (buffer) => buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff,
+  'image/png': (buffer) =>
+    buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  'image/webp': (buffer) =>
+    buffer.subarray(0, 4).toString('latin1') === 'RIFF' && buffer.subarray(8, 12).toString('latin1') === 'WEBP',
+};
+
+export const ATTACHMENT_OWNER_KEYS = ['trafficFineId', 'trafficFinePaymentId', 'employeeId', 'payrollEntryId'] as const;
+
+export type AttachmentOwnerKey = (typeof ATTACHMENT_OWNER_KEYS)[number];
+
+export interface AttachmentOwner {
+  key: AttachmentOwnerKey;
+  id: string;
+}
+
+export interface AttachmentUpload {
+  buffer: Buffer;
+  fileName: string;
+  mimeType: string;
+  description?: string | null;
+}
+
+// Depolama yolu istemciye dönmez
+const attachmentSelect = {
+  id: true,
+  fileName: true,
+  mimeType: true,
+  size: true,
+  checksum: true,
+  description: true,
+  uploadedBy: true,
+  createdAt: true,
+  trafficFineId: true,
+  trafficFinePaymentId: true,
+  employeeId: true,
+  payrollEntryId: true,
+} as const;
+
+/**
+ * Sorgu parametrelerinden ekin sahibini okur; tam olarak bir sahip alanı beklenir
+ */
+export function parseAttachmentOwner(query: Record<string, unknown>): AttachmentOwner {
+  const owners = ATTACHMENT_OWNER_KEYS.filter((key) => typeof query[key] === 'string' && query[key] !== '');
+  if (owners.length !== 1) {
+    throw new AppError(
+      400,
+      'INVALID_OWNER',
+      'Ekin bağlanacağı kayıt belirtilmelidir (trafficFineId, trafficFinePaymentId, employeeId veya payrollEntryId)'
+    );
+  }
+  return { key: owners[0], id: query[owners[0]] as string };
+}
+
+async function assertOwnerExists(owner: AttachmentOwner): Promise<void> {
+  let exists: boolean;
+  switch (owner.key) {
+    case 'trafficFineId':
+      exists = !!(await prisma.trafficFine.findUnique({ where: { id: owner.id }, select: { id: true } }));
+      break;
+    case 'trafficFinePaymentId':
+      exists = !!(await prisma.trafficFinePayment.findUnique({ where: { id: owner.id }, select: { id: true } }));
+      break;
+    case 'employeeId':
+      exists = !!(await prisma.employee.findUnique({ where: { id: owner.id }, select: { id: true } }));
+      break;
+    case 'payrollEntryId':
+      exists = !!(await prisma.payrollEntry.findUnique({ where: { id: owner.id }, select: { id: true } }));
+      break;
+  }
+  if (!exists) {
+    throw new AppError(404, 'ATTACHMENT_OWNER_NOT_FOUND', 'Ekin bağlanacağı kayıt bulunamadı');
+  }
+}
+
+/**
+ * Dosya adından dizin ve kontrol karakterlerini atar
+ */
+function sanitizeFileName(fileName: string): string {
+  const base = fileName.split(/[\\/]/).pop() ?? '';
+  const cleaned = base.replace(/[\u0000-\u001f\u007f"]/g, '').trim();
+  return cleaned.slice(-255) || 'dosya';
+}
+
+function resolveStoragePath(storageKey: string): string {
+  return path.join(ATTACHMENT_DIR, storageKey);
+}
+
+export async function listAttachments(owner: AttachmentOwner) {
+  await assertOwnerExists(owner);
+  return prisma.attachment.findMany({
+    where: { [owner.key]: owner.id },
+    orderBy: { createdAt: 'desc' },
+    select: attachmentSelect,
+  });
+}
+
+export async function getAttachmentById(id: string) {
+  const attachment = await prisma.attachment.findUnique({
+    where: { id },
+    select: { ...attachmentSelect, storageKey: true },
+  });
+  if (!attachment) {
+    throw new AppError(404, 'ATTACHMENT_NOT_FOUND', 'Ek bulunamadı');
+  }
+  return attachment;
+}
+
+export async function createAttachment(owner: AttachmentOwner, upload: AttachmentUpload, uploadedBy: string) {
+  const mimeType = upload.mimeType.split(';')[0].trim().toLowerCase();
+  const matchesSignature = ALLOWED_MIME_TYPES[mimeType];
+  if (!matchesSignature) {
+    throw new AppError(415, 'UNSUPPORTED_FILE_TYPE', 'Yalnızca PDF, JPEG, PNG ve WEBP dosyaları yüklenebilir');
+  }
+  if (upload.buffer.length === 0) {
+    throw new AppError(400, 'EMPTY_FILE', 'Dosya boş');
+  }
+  if (upload.buffer.length > MAX_ATTACHMENT_BYTES) {
+    throw new AppError(413, 'FILE_TOO_LARGE', 'Dosya boyutu 10 MB sınırını aşıyor');
+  }
+  if (!matchesSignature(upload.buffer)) {
+    throw new AppError(415, 'FILE_TYPE_MISMATCH', 'Dosya içeriği belirtilen türle uyuşmuyor');
+  }
+  if (upload.description && upload.description.length > 255) {
+    throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', { description: ['Açıklama çok uzun'] });
+  }
+
+  await assertOwnerExists(owner);
+
+  const now = new Date();
+  const storageKey = path.posix.join(
+    String(now.getUTCFullYear()),
+    String(now.getUTCMonth() + 1).padStart(2, '0'),
+    randomUUID()
+  );
+  const filePath = resolveStoragePath(storageKey);
+
+  // Önce dosya yazılır; kayıt oluşmazsa dosya geri silinir
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, upload.buffer, { flag: 'wx' });
+
+  try {
+    return await prisma.attachment.create({
+      data: {
+        fileName: sanitizeFileName(upload.fileName),
+        mimeType,
+        size: upload.buffer.length,
+        storageKey,
+        checksum: createHash('sha256').update(upload.buffer).digest('hex'),
+        description: upload.description || null,
+        uploadedBy,
+        [owner.key]: owner.id,
+      },
+      select: attachmentSelect,
+    });
+  } catch (error) {
+    await fs.rm(filePath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Ekin dosya içeriği
+ */
+export async function readAttachmentFile(id: string) {
+  const attachment = await getAttachmentById(id);
+  try {
+    const content = await fs.readFile(resolveStoragePath(attachment.storageKey));
+    return { attachment, content };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new AppError(410, 'ATTACHMENT_FILE_MISSING', 'Ek dosyası depoda bulunamadı');
+    }
+    throw error;
+  }
+}
+
+export async function deleteAttachment(id: string): Promise<void> {
+  const attachment = await getAttachmentById(id);
+  await prisma.attachment.delete({ where: { id } });
+  await removeStoredFiles([attachment.storageKey]);
+}
+
+/**
+ * Toplu silmelerden önce etkilenecek eklerin depolama yollarını toplar.
+ * Veritabanı kayıtları cascade ile silinir; dosyalar removeStoredFiles ile temizlenir.
+ */
+export async function findAttachmentStorageKeys(where: Prisma.AttachmentWhereInput): Promise<string[]> {
+  const attachments = await prisma.attachment.findMany({ where, select: { storageKey: true } });
+  return attachments.map((attachment) => attachment.storageKey);
+}
+
+export async function removeStoredFiles(storageKeys: string[]): Promise<void> {
+  for (const storageKey of storageKeys) {
+    // Kayıt zaten silindi; kalan dosya yalnızca disk israfıdır, işlemi bozmamalı
+    await fs.rm(resolveStoragePath(storageKey), { force: true }).catch((err) => {
+      console.error('Failed to remove attachment file:', err);
+    });
+  }
+}
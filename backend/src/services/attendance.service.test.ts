@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { summarizeAttendance } from './attendance.service';
+
+const FULL_EMPLOYMENT = { startDate: new Date('2020-01-01T00:00:00Z'), endDate: null };
+
+function day(date: string, code: string) {
+  return { date: new Date(`${date}T00:00:00Z`), code };
+}
+
+describe('summarizeAttendance', () => {
+  it('counts unmarked days as worked and pays the full working days', () => {
+    const summary = summarizeAttendance('e1', [], 2, 2025, 30, FULL_EMPLOYMENT);
+
+    expect(summary.counts.WORKED).toBe(28);
+    expect(summary.unpaidDays).toBe(0);
+    expect(summary.daysWorked).toBe(30);
+  });
+
+  it('deducts unpaid leave, sick report and absence but not paid days', () => {
+    const records = [
+      day('2025-03-03', 'ABSENT'),
+      day('2025-03-04', 'ABSENT'),
+      day('2025-03-05', 'SICK_REPORT'),
+      day('2025-03-06', 'PAID_LEAVE'),
+      day('2025-03-07', 'PUBLIC_HOLIDAY'),
+    ];
+    const summary = summarizeAttendance('e1', records, 3, 2025, 30, FULL_EMPLOYMENT);
+
+    expect(summary.counts.ABSENT).toBe(2);
+    expect(summary.counts.SICK_REPORT).toBe(1);
+    expect(summary.counts.PAID_LEAVE).toBe(1);
+    expect(summary.unpaidDays).toBe(3);
+    expect(summary.daysWorked).toBe(27);
+  });
+
+  it('matches records that carry a time of day', () => {
+    const records = [{ date: new Date('2025-03-10T13:45:00Z'), code: 'UNPAID_LEAVE' }];
+    expect(summarizeAttendance('e1', records, 3, 2025, 30, FULL_EMPLOYMENT).unpaidDays).toBe(1);
+  });
+
+  it('pays only the employed days of a mid-month hire', () => {
+    const employment = { startDate: new Date('2025-03-11T00:00:00Z'), endDate: null };
+    const summary = summarizeAttendance('e1', [day('2025-03-20', 'ABSENT')], 3, 2025, 30, employment);
+
+    expect(summary.daysOutsideEmployment).toBe(10);
+    expect(summary.daysWorked).toBe(20);
+  });
+
+  it('pays only the employed days of a mid-month leaver and ignores codes after leaving', () => {
+    const employment = { startDate: new Date('2020-01-01T00:00:00Z'), endDate: new Date('2025-04-10T00:00:00Z') };
+    const summary = summarizeAttendance('e1', [day('2025-04-15', 'ABSENT')], 4, 2025, 30, employment);
+
+    expect(summary.daysOutsideEmployment).toBe(20);
+    expect(summary.unpaidDays).toBe(0);
+    expect(summary.daysWorked).toBe(10);
+  });
+
+  it('never exceeds the working days or drops below zero', () => {
+    const employment = { startDate: new Date('2025-03-02T00:00:00Z'), endDate: null };
+    expect(summarizeAttendance('e1', [], 3, 2025, 26, employment).daysWorked).toBe(26);
+
+    const absentAllMonth = Array.from({ length: 31 }, (_, index) =>
+      day(`2025-03-${String(index + 1).padStart(2, '0')}`, 'ABSENT')
+    );
+    expect(summarizeAttendance('e1', absentAllMonth, 3, 2025, 30, FULL_EMPLOYMENT).daysWorked).toBe(0);
+  });
+});
@@ -0,0 +1,241 @@
+import { z } from 'zod';
+import prisma from '../utils/prisma';
+import { AppError } from '../middleware/errorHandler';
+import { assertPeriodOpen } from './payrollPeriod.service';
+import { getSalaryForPeriod } from './salaryHistory.service';
+import { PayrollEntryResponse, setDaysWorkedFromAttendance } from './payroll.service';
+
+/**
+ * Attendance Service
+ *
+ * Çalışan bazında günlük devam kodları (puantaj takvimi).
+ * Takvimi işaretlenen çalışanların puantajdaki çalıştığı gün sayısı bu kodlardan hesaplanır;
+ * işaretlenmemiş günler çalışılmış kabul edilir.
+ */
+
+export const ATTENDANCE_CODES = [
+  'WORKED',
+  'PAID_LEAVE',
+  'UNPAID_LEAVE',
+  'SICK_REPORT',
+  'ABSENT',
+  'PUBLIC_HOLIDAY',
+  'WEEKLY_OFF',
+] as const;
+
+export type AttendanceCode = (typeof ATTENDANCE_CODES)[number];
+
+// Ücret ödenmeyen (eksik gün sayılan) kodlar; rapor günleri SGK tarafından ödenir
+const UNPAID_CODES: AttendanceCode[] = ['UNPAID_LEAVE', 'SICK_REPORT', 'ABSENT'];
+
+const dateString = z.string().refine((val) => !isNaN(Date.parse(val)), {
+  message: 'Geçerli bir tarih giriniz',
+});
+
+export const setAttendanceSchema = z.object({
+  days: z
+    .array(
+      z.object({
+        date: dateString,
+        // null: günün kodunu temizler
+        code: z.enum(ATTENDANCE_CODES, {
+          errorMap: () => ({ message: 'Geçersiz devam kodu' }),
+        }).nullable(),
+        note: z.string().max(255, 'Not çok uzun').optional().nullable(),
+      })
+    )
+    .min(1, 'En az bir gün gönderilmelidir')
+    .max(31, 'Bir ayda en fazla 31 gün olabilir'),
+});
+
+export type SetAttendanceInput = z.infer<typeof setAttendanceSchema>;
+
+export interface AttendanceSummary {
+  employeeId: string;
+  counts: Record<AttendanceCode, number>;
+  unpaidDays: number;
+  daysOutsideEmployment: number;
+  daysWorked: number;
+}
+
+export function validateAttendanceInput(
+  input: unknown
+): { success: true; data: SetAttendanceInput } | { success: false; errors: Record<string, string[]> } {
+  const result = setAttendanceSchema.safeParse(input);
+  if (result.success) return { success: true, data: result.data };
+
+  const errors: Record<string, string[]> = {};
+  for (const error of result.error.errors) {
+    const field = error.path.join('.');
+    if (!errors[field]) errors[field] = [];
+    errors[field].push(error.message);
+  }
+  return { success: false, errors };
+}
+
+function toUtcDay(value: string | Date): Date {
+  const date = new Date(value);
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function daysInMonth(month: number, year: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Dönemin devam kayıtlarından çalıştığı gün sayısını hesaplar (saf fonksiyon)
+ *
+ * - Kodsuz günler çalışılmış sayılır
+ * - Ücretli izin, resmi tatil ve hafta tatili ücretli gündür
+ * - Ücretsiz izin, rapor ve devamsızlık eksik gündür
+ * - Ayın tamamında çalışan için: çalışma gün sayısı - eksik gün
+ * - Ay içinde giren / çıkan için: iş ilişkisi içindeki gün sayısı - eksik gün
+ */
+export function summarizeAttendance(
+  employeeId: string,
+  records: { date: Date; code: string }[],
+  month: number,
+  year: number,
+  workingDays: number,
+  employment: { startDate: Date; endDate: Date | null }
+): AttendanceSummary {
+  const counts = Object.fromEntries(ATTENDANCE_CODES.map((code) => [code, 0])) as Record<AttendanceCode, number>;
+  const start = toUtcDay(employment.startDate).getTime();
+  const end = employment.endDate ? toUtcDay(employment.endDate).getTime() : Infinity;
+  const codeByDay = new Map(records.map((record) => [toUtcDay(record.date).getTime(), record.code as AttendanceCode]));
+
+  let unpaidDays = 0;
+  let daysOutsideEmployment = 0;
+  const totalDays = daysInMonth(month, year);
+  for (let day = 1; day <= totalDays; day++) {
+    const time = Date.UTC(year, month - 1, day);
+    if (time < start || time > end) {
+      daysOutsideEmployment += 1;
+      continue;
+    }
+    const code = codeByDay.get(time) ?? 'WORKED';
+    counts[code] += 1;
+    if (UNPAID_CODES.includes(code)) unpaidDays += 1;
+  }
+
+  const employedDays = totalDays - daysOutsideEmployment;
+  const paidDays = daysOutsideEmployment === 0 ? workingDays - unpaidDays : employedDays - unpaidDays;
+
+  return {
+    employeeId,
+    counts,
+    unpaidDays,
+    daysOutsideEmployment,
+    daysWorked: Math.max(0, Math.min(workingDays, paidDays)),
+  };
+}
+
+function validatePeriod(month: number, year: number) {
+  if (!Number.isInteger(month) || month < 1 || month > 12) {
+    throw new AppError(400, 'INVALID_MONTH', 'Ay 1-12 arasında olmalıdır');
+  }
+  if (!Number.isInteger(year) || year < 2000 || year > 2100) {
+    throw new AppError(400, 'INVALID_YEAR', 'Yıl 2000-2100 arasında olmalıdır');
+  }
+}
+
+/**
+ * Dönemin tüm devam kayıtları ve kayıtlı çalışanların özetleri
+ */
+export async function getAttendanceByMonth(month: number, year: number) {
+  validatePeriod(month, year);
+
+  const days = await prisma.attendanceDay.findMany({
+    where: { month, year },
+    orderBy: [{ employeeId: 'asc' }, { date: 'asc' }],
+  });
+
+  const employeeIds = Array.from(new Set(days.map((day) => day.employeeId)));
+  const employees = await prisma.employee.findMany({ where: { id: { in: employeeIds } } });
+
+  const summaries: AttendanceSummary[] = [];
+  for (const employee of employees) {
+    const salary = await getSalaryForPeriod(employee, month, year);
+    summaries.push(
+      summarizeAttendance(
+        employee.id,
+        days.filter((day) => day.employeeId === employee.id),
+        month,
+        year,
+        salary.workingDays,
+        employee
+      )
+    );
+  }
+
+  return { month, year, days, summaries };
+}
+
+/**
+ * Bir çalışanın dönem içindeki günlerini işler ve puantajdaki gün sayısını yeniden hesaplar
+ */
+export async function setAttendanceDays(
+  employeeId: string,
+  month: number,
+  year: number,
+  input: SetAttendanceInput
+): Promise<{
+  employee: { id: string; fullName: string };
+  month: number;
+  year: number;
+  days: { id: string; date: Date; code: string; note: string | null }[];
+  summary: AttendanceSummary;
+  payroll: PayrollEntryResponse;
+}> {
+  validatePeriod(month, year);
+  const employee = await prisma.employee.findUnique({ where: { id: employeeId } });
+  if (!employee) {
+    throw new AppError(404, 'EMPLOYEE_NOT_FOUND', 'Çalışan bulunamadı');
+  }
+  await assertPeriodOpen(month, year);
+
+  const validatedData = setAttendanceSchema.parse(input);
+  const changes = validatedData.days.map((day) => ({ ...day, date: toUtcDay(day.date) }));
+  for (const change of changes) {
+    if (change.date.getUTCMonth() + 1 !== month || change.date.getUTCFullYear() !== year) {
+      throw new AppError(400, 'DATE_OUTSIDE_PERIOD', `${change.date.toISOString().split('T')[0]} seçilen döneme ait değil`);
+    }
+  }
+
+  await prisma.$transaction(
+    changes.map((change) =>
+      change.code === null
+        ? prisma.attendanceDay.deleteMany({ where: { employeeId, date: change.date } })
+        : prisma.attendanceDay.upsert({
+            where: { employeeId_date: { employeeId, date: change.date } },
+            update: { code: change.code, note: change.note?.trim() || null },
+            create: {
+              employeeId,
+              date: change.date,
+              month,
+              year,
+              code: change.code,
+              note: change.note?.trim() || null,
+            },
+          })
+    )
+  );
+
+  const days = await prisma.attendanceDay.findMany({
+    where: { employeeId, month, year },
+    orderBy: { date: 'asc' },
+    select: { id: true, date: true, code: true, note: true },
+  });
+  const salary = await getSalaryForPeriod(employee, month, year);
+  const summary = summarizeAttendance(employeeId, days, month, year, salary.workingDays, employee);
+  const payroll = await setDaysWorkedFromAttendance(employeeId, month, year, summary.daysWorked);
+
+  return {
+    employee: { id: employee.id, fullName: employee.fullName },
+    month,
+    year,
+    days,
+    summary,
+    payroll,
+  };
+}
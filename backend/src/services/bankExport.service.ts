@@ -0,0 +1,299 @@
+import { z } from 'zod';
+import prisma from '../utils/prisma';
+import { AppError } from '../middleware/errorHandler';
+import { getIbanBankCode } from '../utils/iban';
+import { getPayrollByMonth, PayrollEntryResponse } from './payroll.service';
+import { getPayrollPeriod, PayrollPeriodStatus } from './payrollPeriod.service';
+import { getCompanySettings } from './companySettings.service';
+
+/**
+ * Bank Export Service
+ *
+ * Sigortalı çalışanların resmi ödemesi (officialPayment) için toplu EFT / havale dosyası.
+ * Tutarlar kapanıştaki snapshot'tan alınır; bu yüzden yalnızca kapalı dönem için dosya üretilir.
+ * Üretilen her dosya içeriğiyle birlikte saklanır, hangi dönem için hangi dosyanın verildiği izlenir.
+ */
+
+export const BANK_EXPORT_FORMATS = ['CSV', 'FIXED_WIDTH'] as const;
+
+export type BankExportFormat = (typeof BANK_EXPORT_FORMATS)[number];
+
+export const createBankExportSchema = z.object({
+  month: z.number().int().min(1).max(12),
+  year: z.number().int().min(2000).max(2100),
+  format: z.enum(BANK_EXPORT_FORMATS, {
+    errorMap: () => ({ message: 'Geçersiz dosya biçimi' }),
+  }),
+  paymentDate: z.string().refine((val) => !isNaN(Date.parse(val)), {
+    message: 'Geçerli bir tarih giriniz',
+  }),
+  description: z.string().trim().max(30, 'Açıklama en fazla 30 karakter olabilir').optional().nullable(),
+});
+
+export type CreateBankExportInput = z.infer<typeof createBankExportSchema>;
+
+export interface BankPaymentLine {
+  employeeId: string;
+  fullName: string;
+  iban: string;
+  bankName: string | null;
+  amount: number;
+}
+
+interface BankFileOptions {
+  paymentDate: Date;
+  description: string;
+  payerIban: string | null;
+}
+
+interface BankFileWriter {
+  extension: string;
+  mimeType: string;
+  write: (lines: BankPaymentLine[], options: BankFileOptions) => string;
+}
+
+// Dosya içeriği hariç kayıt alanları (liste ve denetim kaydı için)
+const bankExportSelect = {
+  id: true,
+  month: true,
+  year: true,
+  format: true,
+  fileName: true,
+  paymentDate: true,
+  description: true,
+  employeeCount: true,
+  totalAmount: true,
+  createdBy: true,
+  createdAt: true,
+} as const;
+
+const MONTH_NAMES = [
+  'OCAK', 'SUBAT', 'MART', 'NISAN', 'MAYIS', 'HAZIRAN',
+  'TEMMUZ', 'AGUSTOS', 'EYLUL', 'EKIM', 'KASIM', 'ARALIK',
+];
+
+export function validateBankExportInput(
+  input: unknown
+): { success: true; data: CreateBankExportInput } | { success: false; errors: Record<string, string[]> } {
+  const result = createBankExportSchema.safeParse(input);
+  if (result.success) return { success: true, data: result.data };
+
+  const errors: Record<string, string[]> = {};
+  for (const error of result.error.errors) {
+    const field = error.path.join('.');
+    if (!errors[field]) errors[field] = [];
+    errors[field].push(error.message);
+  }
+  return { success: false, errors };
+}
+
+/**
+ * Banka sistemleri için Türkçe karakterleri ASCII büyük harfe çevirir
+ */
+function toBankText(value: string): string {
+  const map: Record<string, string> = {
+    ç: 'C', Ç: 'C', ğ: 'G', Ğ: 'G', ı: 'I', İ: 'I', ö: 'O', Ö: 'O', ş: 'S', Ş: 'S', ü: 'U', Ü: 'U',
+  };
+  return value
+    .replace(/[çÇğĞıİöÖşŞüÜ]/g, (char) => map[char])
+    .toUpperCase()
+    .replace(/[^A-Z0-9 .,\-/]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function toKurus(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+function padText(value: string, length: number): string {
+  return value.slice(0, length).padEnd(length, ' ');
+}
+
+function padNumber(value: number, length: number): string {
+  return String(value).padStart(length, '0');
+}
+
+function formatCompactDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function escapeCsv(value: string): string {
+  return /[;"\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Genel CSV: noktalı virgül ayraçlı, ondalık virgüllü (Türkçe Excel ile açılır), UTF-8 BOM'lu
+ */
+function writeCsv(lines: BankPaymentLine[], options: BankFileOptions): string {
+  const rows = [['Sıra', 'Ad Soyad', 'IBAN', 'Banka', 'Tutar', 'Açıklama']];
+  lines.forEach((line, index) => {
+    rows.push([
+      String(index + 1),
+      line.fullName,
+      line.iban,
+      line.bankName || '',
+      (toKurus(line.amount) / 100).toFixed(2).replace('.', ','),
+      options.description,
+    ]);
+  });
+  return '\uFEFF' + rows.map((row) => row.map(escapeCsv).join(';')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Sabit uzunluklu şablon (satır başına 100 karakter, ASCII, tutarlar kuruş cinsinden):
+ *   H | borçlu IBAN (26) | ödeme tarihi YYYYMMDD (8) | kayıt sayısı (6) | toplam (17) | açıklama (30) | boşluk (12)
+ *   D | sıra (6) | alıcı IBAN (26) | alıcı adı (40) | tutar (17) | banka kodu (5) | boşluk (5)
+ *   T | kayıt sayısı (6) | toplam (17) | boşluk (76)
+ */
+function writeFixedWidth(lines: BankPaymentLine[], options: BankFileOptions): string {
+  if (!options.payerIban) {
+    throw new AppError(
+      400,
+      'PAYER_IBAN_REQUIRED',
+      'Sabit uzunluklu dosya için Ayarlar > Firma Bilgileri bölümünde ödeme hesabı IBAN tanımlanmalıdır'
+    );
+  }
+
+  const totalKurus = lines.reduce((acc, line) => acc + toKurus(line.amount), 0);
+  const records = [
+    'H' +
+      options.payerIban +
+      formatCompactDate(options.paymentDate) +
+      padNumber(lines.length, 6) +
+      padNumber(totalKurus, 17) +
+      padText(toBankText(options.description), 30) +
+      padText('', 12),
+    ...lines.map(
+      (line, index) =>
+        'D' +
+        padNumber(index + 1, 6) +
+        line.iban +
+        padText(toBankText(line.fullName), 40) +
+        padNumber(toKurus(line.amount), 17) +
+        getIbanBankCode(line.iban) +
+        padText('', 5)
+    ),
+    'T' + padNumber(lines.length, 6) + padNumber(totalKurus, 17) + padText('', 76),
+  ];
+  return records.join('\r\n') + '\r\n';
+}
+
+const BANK_FILE_WRITERS: Record<BankExportFormat, BankFileWriter> = {
+  CSV: { extension: 'csv', mimeType: 'text/csv; charset=utf-8', write: writeCsv },
+  FIXED_WIDTH: { extension: 'txt', mimeType: 'text/plain; charset=us-ascii', write: writeFixedWidth },
+};
+
+/**
+ * Dönemin resmi ödemelerinden ödeme satırlarını çıkarır (saf fonksiyon).
+ * IBAN'ı olmayan çalışanlar ayrıca döner; dosya eksik kişiyle üretilmez.
+ */
+export function buildBankPaymentLines(
+  entries: PayrollEntryResponse[],
+  bankAccounts: Map<string, { iban: string | null; bankName: string | null }>
+): { lines: BankPaymentLine[]; missingIban: string[] } {
+  const lines: BankPaymentLine[] = [];
+  const missingIban: string[] = [];
+
+  for (const entry of entries) {
+    if (!entry.employee.isInsured || toKurus(entry.officialPayment) <= 0) continue;
+
+    const account = bankAccounts.get(entry.employeeId);
+    if (!account?.iban) {
+      missingIban.push(entry.employee.fullName);
+      continue;
+    }
+    lines.push({
+      employeeId: entry.employeeId,
+      fullName: entry.employee.fullName,
+      iban: account.iban,
+      bankName: account.bankName,
+      amount: toKurus(entry.officialPayment) / 100,
+    });
+  }
+
+  lines.sort((a, b) => a.fullName.localeCompare(b.fullName, 'tr-TR'));
+  return { lines, missingIban };
+}
+
+export async function listBankExports(month?: number, year?: number) {
+  return prisma.bankPaymentExport.findMany({
+    where: {
+      ...(month !== undefined ? { month } : {}),
+      ...(year !== undefined ? { year } : {}),
+    },
+    select: bankExportSelect,
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+export async function createBankExport(input: CreateBankExportInput, createdBy: string) {
+  const { month, year, format } = input;
+
+  const period = await getPayrollPeriod(month, year);
+  if (period.status !== PayrollPeriodStatus.CLOSED) {
+    throw new AppError(409, 'PERIOD_NOT_CLOSED', 'Banka dosyası yalnızca kapatılmış dönem için üretilebilir');
+  }
+
+  const entries = await getPayrollByMonth(month, year);
+  const employees = await prisma.employee.findMany({
+    where: { id: { in: entries.map((entry) => entry.employeeId) } },
+    select: { id: true, iban: true, bankName: true },
+  });
+  const { lines, missingIban } = buildBankPaymentLines(
+    entries,
+    new Map(employees.map((employee) => [employee.id, employee]))
+  );
+
+  if (missingIban.length > 0) {
+    throw new AppError(
+      400,
+      'MISSING_IBAN',
+      `IBAN bilgisi eksik çalışanlar var: ${missingIban.join(', ')}`,
+      { iban: missingIban }
+    );
+  }
+  if (lines.length === 0) {
+    throw new AppError(400, 'NO_BANK_PAYMENTS', 'Bu dönemde bankadan ödenecek resmi ödeme bulunmuyor');
+  }
+
+  const company = await getCompanySettings();
+  const paymentDate = new Date(input.paymentDate);
+  const description = input.description || `${MONTH_NAMES[month - 1]} ${year} MAAS`;
+  const writer = BANK_FILE_WRITERS[format];
+  const content = writer.write(lines, { paymentDate, description, payerIban: company.payerIban });
+
+  const sameFormatCount = await prisma.bankPaymentExport.count({ where: { month, year, format } });
+  // Aynı dönem için yeniden üretilen dosyalar sıra numarasıyla ayrılır
+  const suffix = sameFormatCount > 0 ? `_${sameFormatCount + 1}` : '';
+
+  return prisma.bankPaymentExport.create({
+    data: {
+      month,
+      year,
+      format,
+      fileName: `Banka_${year}-${String(month).padStart(2, '0')}${suffix}.${writer.extension}`,
+      content,
+      paymentDate,
+      description,
+      employeeCount: lines.length,
+      totalAmount: lines.reduce((acc, line) => acc + toKurus(line.amount), 0) / 100,
+      createdBy,
+    },
+    select: bankExportSelect,
+  });
+}
+
+export async function getBankExportFile(id: string): Promise<{ fileName: string; mimeType: string; content: Buffer }> {
+  const bankExport = await prisma.bankPaymentExport.findUnique({ where: { id } });
+  if (!bankExport) {
+    throw new AppError(404, 'BANK_EXPORT_NOT_FOUND', 'Banka dosyası bulunamadı');
+  }
+
+  const writer = BANK_FILE_WRITERS[bankExport.format as BankExportFormat] || BANK_FILE_WRITERS.CSV;
+  return {
+    fileName: bankExport.fileName,
+    mimeType: writer.mimeType,
+    content: Buffer.from(bankExport.content, 'utf8'),
+  };
+}
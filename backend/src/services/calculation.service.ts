@@ -17,6 +17,76 @@ export interface CalculationInput {
   overtime100: number;
   officialPayment: number;
   cashPayment: number;
+  // Net ücretten yapılan kesintiler (ör. trafik cezası taksiti)
+  deductions?: number;
+  // Ek kazançlar (ödeme türü kalemleri: prim, yemek yardımı vb.)
+  earnings?: number;
+}
+
+/**
+ * Puantaj satırındaki ödeme / kesinti kaleminin hesaplamaya giren alanları
+ */
+export interface PayComponentLine {
+  amount: number;
+  componentType: {
+    kind: string; // EARNING | DEDUCTION
+    channel: string; // OFFICIAL | CASH
+    isTaxable: boolean;
+    isSgkLiable: boolean;
+  };
+}
+
+/**
+ * Ödeme / kesinti kalemlerinin taraf bazında toplamları
+ */
+export interface PayComponentTotals {
+  officialEarnings: number;
+  cashEarnings: number;
+  officialDeductions: number;
+  cashDeductions: number;
+  // Resmi kazançların SGK primine ve gelir/damga vergisine tabi kısımları
+  sgkLiableEarnings: number;
+  taxableEarnings: number;
+}
+
+export const EMPTY_PAY_COMPONENT_TOTALS: PayComponentTotals = {
+  officialEarnings: 0,
+  cashEarnings: 0,
+  officialDeductions: 0,
+  cashDeductions: 0,
+  sgkLiableEarnings: 0,
+  taxableEarnings: 0,
+};
+
+/**
+ * Kalemleri taraf bazında toplar
+ * Sigortasız çalışanın resmi kalemleri elden tarafa yazılır ve vergilendirilmez
+ *
+ * @param lines - Puantaj satırının kalemleri
+ * @param isInsured - Çalışan sigortalı mı
+ * @returns Taraf bazında toplamlar
+ */
+export function summarizePayComponents(lines: PayComponentLine[], isInsured: boolean): PayComponentTotals {
+  const totals = { ...EMPTY_PAY_COMPONENT_TOTALS };
+  for (const line of lines) {
+    const amount = Math.max(0, line.amount);
+    const isOfficial = isInsured && line.componentType.channel === 'OFFICIAL';
+
+    if (line.componentType.kind === 'DEDUCTION') {
+      if (isOfficial) totals.officialDeductions += amount;
+      else totals.cashDeductions += amount;
+      continue;
+    }
+
+    if (!isOfficial) {
+      totals.cashEarnings += amount;
+      continue;
+    }
+    totals.officialEarnings += amount;
+    if (line.componentType.isSgkLiable) totals.sgkLiableEarnings += amount;
+    if (line.componentType.isTaxable) totals.taxableEarnings += amount;
+  }
+  return totals;
 }
 
 /**
@@ -70,7 +140,7 @@ export function calculateEarnedSalary(dailyWage: number, daysWorked: number): nu
 
 /**
  * Toplam alacağı hesaplar
- * Formül: Hak edilen maaş + %50 mesai + %100 mesai - Avans
+ * Formül: Hak edilen maaş + %50 mesai + %100 mesai + Ek kazançlar - Avans - Kesintiler
  *
  * Not: Resmi/Elden ödemeler toplamın dağılımı olarak ele alınır, toplamdan düşülmez.
  * 
@@ -80,6 +150,8 @@ export function calculateEarnedSalary(dailyWage: number, daysWorked: number): nu
  * @param advance - Avans
  * @param officialPayment - Resmi ödeme (hesaplamaya dahil edilmez)
  * @param cashPayment - Elden ödeme (hesaplamaya dahil edilmez)
+ * @param deductions - Kesintiler (ör. trafik cezası taksiti)
+ * @param earnings - Ek kazançlar (ödeme türü kalemleri)
  * @returns Toplam alacak
  * 
  * Requirements: 5.3
@@ -90,11 +162,13 @@ export function calculateTotalReceivable(
   overtime100: number,
   advance: number,
   officialPayment: number,
-  cashPayment: number
+  cashPayment: number,
+  deductions: number = 0,
+  earnings: number = 0
 ): number {
   void officialPayment;
   void cashPayment;
-  return earnedSalary + overtime50 + overtime100 - advance;
+  return earnedSalary + overtime50 + overtime100 + earnings - advance - deductions;
 }
 
 /**
@@ -131,6 +205,12 @@ export function calculatePayroll(input: CalculationInput): CalculationResult {
   if (input.cashPayment < 0) {
     throw new Error('Elden ödeme negatif olamaz');
   }
+  if ((input.deductions ?? 0) < 0) {
+    throw new Error('Kesinti negatif olamaz');
+  }
+  if ((input.earnings ?? 0) < 0) {
+    throw new Error('Ek kazanç negatif olamaz');
+  }
 
   // Calculate daily wage: salary / workingDays
   const dailyWage = calculateDailyWage(input.salary, input.workingDays);
@@ -145,7 +225,9 @@ export function calculatePayroll(input: CalculationInput): CalculationResult {
     input.overtime100,
     input.advance,
     input.officialPayment,
-    input.cashPayment
+    input.cashPayment,
+    input.deductions ?? 0,
+    input.earnings ?? 0
   );
 
   return {
@@ -0,0 +1,114 @@
+import { z } from 'zod';
+import prisma from '../utils/prisma';
+import { ibanSchema } from '../utils/iban';
+
+/**
+ * Company Settings Service
+ *
+ * Bordro pusulası başlığında kullanılan firma bilgileri. Tek kayıt tutulur;
+ * kayıt yoksa boş firma bilgisi döner.
+ */
+
+const COMPANY_SETTINGS_ID = 'default';
+
+export const updateCompanySettingsSchema = z.object({
+  companyName: z.string().trim().min(1, 'Firma adı zorunludur').max(150, 'Firma adı çok uzun'),
+  address: z.string().max(255, 'Adres çok uzun').optional().nullable(),
+  phone: z.string().max(30, 'Telefon çok uzun').optional().nullable(),
+  taxOffice: z.string().max(100, 'Vergi dairesi çok uzun').optional().nullable(),
+  taxNumber: z
+    .string()
+    .regex(/^\d{10,11}$/, 'Vergi numarası 10, T.C. kimlik numarası 11 haneli olmalıdır')
+    .optional()
+    .nullable()
+    .or(z.literal('').transform(() => null)),
+  sgkRegistryNumber: z.string().max(30, 'SGK sicil numarası çok uzun').optional().nullable(),
+  payslipNote: z.string().max(500, 'Pusula notu çok uzun').optional().nullable(),
+  payerIban: ibanSchema.optional().nullable(),
+});
+
+export type UpdateCompanySettingsInput = z.infer<typeof updateCompanySettingsSchema>;
+
+export interface CompanySettingsResponse {
+  companyName: string;
+  address: string | null;
+  phone: string | null;
+  taxOffice: string | null;
+  taxNumber: string | null;
+  sgkRegistryNumber: string | null;
+  payslipNote: string | null;
+  payerIban: string | null;
+  updatedBy: string | null;
+  updatedAt: Date | null;
+}
+
+export function validateCompanySettingsInput(
+  input: unknown
+): { success: true; data: UpdateCompanySettingsInput } | { success: false; errors: Record<string, string[]> } {
+  const result = updateCompanySettingsSchema.safeParse(input);
+  if (result.success) return { success: true, data: result.data };
+
+  const errors: Record<string, string[]> = {};
+  for (const error of result.error.errors) {
+    const field = error.path.join('.');
+    if (!errors[field]) errors[field] = [];
+    errors[field].push(error.message);
+  }
+  return { success: false, errors };
+}
+
+export async function getCompanySettings(): Promise<CompanySettingsResponse> {
+  const settings = await prisma.companySettings.findUnique({ where: { id: COMPANY_SETTINGS_ID } });
+  if (!settings) {
+    return {
+      companyName: '',
+      address: null,
+      phone: null,
+      taxOffice: null,
+      taxNumber: null,
+      sgkRegistryNumber: null,
+      payslipNote: null,
+      payerIban: null,
+      updatedBy: null,
+      updatedAt: null,
+    };
+  }
+
+  return {
+    companyName: settings.companyName,
+    address: settings.address,
+    phone: settings.phone,
+    taxOffice: settings.taxOffice,
+    taxNumber: settings.taxNumber,
+    sgkRegistryNumber: settings.sgkRegistryNumber,
+    payslipNote: settings.payslipNote,
+    payerIban: settings.payerIban,
+    updatedBy: settings.updatedBy,
+    updatedAt: settings.updatedAt,
+  };
+}
+
+export async function updateCompanySettings(
+  input: UpdateCompanySettingsInput,
+  updatedBy: string
+): Promise<CompanySettingsResponse> {
+  // Boş metinler null olarak saklanır
+  const data = {
+    companyName: input.companyName,
+    address: input.address?.trim() || null,
+    phone: input.phone?.trim() || null,
+    taxOffice: input.taxOffice?.trim() || null,
+    taxNumber: input.taxNumber || null,
+    sgkRegistryNumber: input.sgkRegistryNumber?.trim() || null,
+    payslipNote: input.payslipNote?.trim() || null,
+    payerIban: input.payerIban ?? null,
+    updatedBy,
+  };
+
+  await prisma.companySettings.upsert({
+    where: { id: COMPANY_SETTINGS_ID },
+    create: { id: COMPANY_SETTINGS_ID, ...data },
+    update: data,
+  });
+  return getCompanySettings();
+}
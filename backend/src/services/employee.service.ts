@@ -1,6 +1,10 @@
 import { z } from 'zod';
 import prisma from '../utils/prisma';
 import { AppError } from '../middleware/errorHandler';
+import { assertSalaryChangeAllowed, recordSalaryChange } from './salaryHistory.service';
+import { recalculateTaxLedgerFrom } from './taxLedger.service';
+import { findAttachmentStorageKeys, removeStoredFiles } from './attachment.service';
+import { ibanSchema } from '../utils/iban';
 
 // Valid work areas
 export const WorkArea = {
@@ -35,9 +39,19 @@ export const createEmployeeSchema = z.object({
     .nullable(),
   salary: z.number().positive('Maaş pozitif bir sayı olmalıdır'),
   workingDays: z.number().int().min(1).max(31).default(30),
+  iban: ibanSchema.optional().nullable(),
+  bankName: z.string().max(100, 'Banka adı çok uzun').optional().nullable(),
 });
 
-export const updateEmployeeSchema = createEmployeeSchema.partial();
+export const updateEmployeeSchema = createEmployeeSchema.partial().extend({
+  // Maaş değişikliğinin geçerlilik tarihi (verilmezse içinde bulunulan ayın başı)
+  salaryEffectiveFrom: z
+    .string()
+    .refine((val) => !isNaN(Date.parse(val)), {
+      message: 'Geçerli bir tarih giriniz',
+    })
+    .optional(),
+});
 
 export type CreateEmployeeInput = z.infer<typeof createEmployeeSchema>;
 export type UpdateEmployeeInput = z.infer<typeof updateEmployeeSchema>;
@@ -52,6 +66,8 @@ export interface EmployeeResponse {
   endDate: Date | null;
   salary: number;
   workingDays: number;
+  iban: string | null;
+  bankName: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -89,16 +105,33 @@ export async function createEmployee(input: CreateEmployeeInput): Promise<Employ
   // Validate input
   const validatedData = createEmployeeSchema.parse(input);
 
-  const employee = await prisma.employee.create({
-    data: {
-      fullName: validatedData.fullName,
-      workArea: validatedData.workArea,
-      isInsured: validatedData.isInsured,
-      startDate: new Date(validatedData.startDate),
-      endDate: validatedData.endDate ? new Date(validatedData.endDate) : null,
-      salary: validatedData.salary,
-      workingDays: validatedData.workingDays,
-    },
+  const startDate = new Date(validatedData.startDate);
+
+  const employee = await prisma.$transaction(async (tx) => {
+    const created = await tx.employee.create({
+      data: {
+        fullName: validatedData.fullName,
+        workArea: validatedData.workArea,
+        isInsured: validatedData.isInsured,
+        startDate,
+        endDate: validatedData.endDate ? new Date(validatedData.endDate) : null,
+        salary: validatedData.salary,
+        workingDays: validatedData.workingDays,
+        iban: validatedData.iban ?? null,
+        bankName: validatedData.bankName?.trim() || null,
+      },
+    });
+
+    // İlk maaş kaydı işe giriş tarihinden itibaren geçerlidir
+    await recordSalaryChange(
+      tx,
+      created.id,
+      { salary: created.salary, workingDays: created.workingDays },
+      startDate,
+      'Başlangıç kaydı'
+    );
+
+    return created;
   });
 
   return employee;
@@ -141,18 +174,50 @@ export async function updateEmployee(
   if (validatedData.endDate !== undefined) {
     updateData.endDate = validatedData.endDate ? new Date(validatedData.endDate) : null;
   }
-  if (validatedData.salary !== undefined) {
-    updateData.salary = validatedData.salary;
+  if (validatedData.iban !== undefined) {
+    updateData.iban = validatedData.iban;
   }
-  if (validatedData.workingDays !== undefined) {
-    updateData.workingDays = validatedData.workingDays;
+  if (validatedData.bankName !== undefined) {
+    updateData.bankName = validatedData.bankName?.trim() || null;
   }
 
-  const employee = await prisma.employee.update({
-    where: { id },
-    data: updateData,
+  // Maaş / gün değişiklikleri doğrudan yazılmaz, maaş geçmişine işlenir
+  const nextSalary = validatedData.salary ?? existingEmployee.salary;
+  const nextWorkingDays = validatedData.workingDays ?? existingEmployee.workingDays;
+  const salaryChanged =
+    nextSalary !== existingEmployee.salary || nextWorkingDays !== existingEmployee.workingDays;
+  const now = new Date();
+  const effectiveFrom = validatedData.salaryEffectiveFrom
+    ? new Date(validatedData.salaryEffectiveFrom)
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  if (salaryChanged) {
+    await assertSalaryChangeAllowed(effectiveFrom);
+  }
+
+  const employee = await prisma.$transaction(async (tx) => {
+    await tx.employee.update({
+      where: { id },
+      data: updateData,
+    });
+
+    if (salaryChanged) {
+      await recordSalaryChange(tx, id, { salary: nextSalary, workingDays: nextWorkingDays }, effectiveFrom);
+    }
+
+    return tx.employee.findUniqueOrThrow({ where: { id } });
   });
 
+  // Vergi matrahını etkileyen değişikliklerde kümülatif defter etkilenen aydan itibaren yenilenir
+  const ledgerDates: Date[] = [];
+  if (salaryChanged) ledgerDates.push(effectiveFrom);
+  if (employee.isInsured !== existingEmployee.isInsured ||
+      employee.startDate.getTime() !== existingEmployee.startDate.getTime()) {
+    ledgerDates.push(existingEmployee.startDate, employee.startDate);
+  }
+  if (ledgerDates.length > 0) {
+    await recalculateTaxLedgerFrom(id, new Date(Math.min(...ledgerDates.map((date) => date.getTime()))));
+  }
+
   return employee;
 }
 
@@ -169,9 +234,19 @@ export async function deleteEmployee(id: string): Promise<void> {
     throw new AppError(404, 'EMPLOYEE_NOT_FOUND', 'Çalışan bulunamadı');
   }
 
+  // Çalışana ve bağlı kayıtlarına ait ek dosyaları silme sonrası diskten temizlenir
+  const storageKeys = await findAttachmentStorageKeys({
+    OR: [
+      { employeeId: id },
+      { payrollEntry: { employeeId: id } },
+      { trafficFine: { employeeId: id } },
+      { trafficFinePayment: { trafficFine: { employeeId: id } } },
+    ],
+  });
   await prisma.employee.delete({
     where: { id },
   });
+  await removeStoredFiles(storageKeys);
 }
 
 /**
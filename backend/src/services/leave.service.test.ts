@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { buildLeaveBalance, countLeaveDays, getAnnualLeaveEntitlement } from './leave.service';
+
+function utc(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+describe('getAnnualLeaveEntitlement', () => {
+  it.each([
+    [0, 0],
+    [1, 14],
+    [5, 14],
+    [6, 20],
+    [14, 20],
+    [15, 26],
+    [30, 26],
+  ])('gives %i years of service %i days', (years, days) => {
+    expect(getAnnualLeaveEntitlement(years)).toBe(days);
+  });
+});
+
+describe('countLeaveDays', () => {
+  it('skips Sundays', () => {
+    // 3 Mart 2025 pazartesi, 9 Mart pazar
+    const result = countLeaveDays(utc('2025-03-03'), utc('2025-03-09'), []);
+    expect(result.days).toBe(6);
+    expect(result.dates).toHaveLength(6);
+  });
+
+  it('skips full-day holidays and counts eves as half a day', () => {
+    const holidays = [
+      { date: utc('2025-03-05'), isHalfDay: false },
+      { date: utc('2025-03-06'), isHalfDay: true },
+    ];
+    const result = countLeaveDays(utc('2025-03-03'), utc('2025-03-09'), holidays);
+
+    expect(result.days).toBe(4.5);
+    expect(result.dates.map((date) => date.toISOString().slice(0, 10))).toEqual([
+      '2025-03-03',
+      '2025-03-04',
+      '2025-03-06',
+      '2025-03-07',
+      '2025-03-08',
+    ]);
+  });
+
+  it('returns nothing when the range is empty', () => {
+    expect(countLeaveDays(utc('2025-03-05'), utc('2025-03-04'), []).days).toBe(0);
+  });
+});
+
+describe('buildLeaveBalance', () => {
+  const employee = { id: 'e1', startDate: utc('2020-06-15'), endDate: null };
+
+  it('earns no leave before the first anniversary', () => {
+    const balance = buildLeaveBalance(employee, utc('2021-06-14'), []);
+
+    expect(balance.seniorityYears).toBe(0);
+    expect(balance.currentEntitlement).toBe(0);
+    expect(balance.remaining).toBe(0);
+  });
+
+  it('carries unused days into the next service year', () => {
+    const balance = buildLeaveBalance(employee, utc('2023-07-01'), [{ startDate: utc('2022-08-01'), days: 5 }], 3);
+
+    expect(balance.seniorityYears).toBe(3);
+    expect(balance.currentEntitlement).toBe(14);
+    expect(balance.totalEntitled).toBe(42);
+    expect(balance.used).toBe(5);
+    expect(balance.pending).toBe(3);
+    expect(balance.remaining).toBe(37);
+    expect(balance.history.map((row) => [row.serviceYear, row.carriedOver, row.used, row.remaining])).toEqual([
+      [0, 0, 0, 0],
+      [1, 0, 0, 14],
+      [2, 14, 5, 23],
+      [3, 23, 0, 37],
+    ]);
+  });
+
+  it('ends each service year the day before the next anniversary', () => {
+    const balance = buildLeaveBalance(employee, utc('2021-07-01'), []);
+    expect(balance.history[0].periodEnd.toISOString().slice(0, 10)).toBe('2021-06-14');
+  });
+
+  it('stops accruing at the end date', () => {
+    const balance = buildLeaveBalance({ ...employee, endDate: utc('2022-01-01') }, utc('2023-07-01'), []);
+
+    expect(balance.seniorityYears).toBe(1);
+    expect(balance.totalEntitled).toBe(14);
+  });
+
+  it('includes the service year of an approved leave in the future', () => {
+    const balance = buildLeaveBalance(employee, utc('2023-07-01'), [{ startDate: utc('2024-07-01'), days: 10 }]);
+
+    expect(balance.seniorityYears).toBe(4);
+    expect(balance.history[4].used).toBe(10);
+    expect(balance.remaining).toBe(56 - 10);
+  });
+});
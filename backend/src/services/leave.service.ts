@@ -0,0 +1,414 @@
+import { z } from 'zod';
+import prisma from '../utils/prisma';
+import { AppError } from '../middleware/errorHandler';
+import { assertPeriodOpen } from './payrollPeriod.service';
+import { setAttendanceDays } from './attendance.service';
+
+/**
+ * Leave Service
+ *
+ * Yıllık ücretli izin hakkı, izin talepleri ve bakiye takibi.
+ * Hak, işe giriş tarihinin her yıldönümünde kıdeme göre (14 / 20 / 26 gün) doğar;
+ * kullanılmayan gün bir sonraki hizmet yılına devreder.
+ * Onaylanan izin günleri devam takvimine ücretli izin olarak işlenir.
+ */
+
+export const LEAVE_STATUSES = ['PENDING', 'APPROVED', 'REJECTED', 'CANCELLED'] as const;
+
+export type LeaveStatus = (typeof LEAVE_STATUSES)[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dateString = z.string().refine((val) => !isNaN(Date.parse(val)), {
+  message: 'Geçerli bir tarih giriniz',
+});
+
+export const createLeaveRequestSchema = z.object({
+  employeeId: z.string().min(1, 'Çalışan zorunludur'),
+  startDate: dateString,
+  endDate: dateString,
+  note: z.string().max(255, 'Not çok uzun').optional().nullable(),
+});
+
+export type CreateLeaveRequestInput = z.infer<typeof createLeaveRequestSchema>;
+
+export interface LeaveBalanceRow {
+  serviceYear: number;
+  periodStart: Date;
+  periodEnd: Date;
+  entitlement: number;
+  carriedOver: number;
+  used: number;
+  remaining: number;
+}
+
+export interface LeaveBalance {
+  employeeId: string;
+  seniorityYears: number;
+  currentEntitlement: number;
+  totalEntitled: number;
+  used: number;
+  pending: number;
+  remaining: number;
+  history: LeaveBalanceRow[];
+}
+
+export function validateLeaveRequestInput(
+  input: unknown
+): { success: true; data: CreateLeaveRequestInput } | { success: false; errors: Record<string, string[]> } {
+  const result = createLeaveRequestSchema.safeParse(input);
+  if (result.success) return { success: true, data: result.data };
+
+  const errors: Record<string, string[]> = {};
+  for (const error of result.error.errors) {
+    const field = error.path.join('.');
+    if (!errors[field]) errors[field] = [];
+    errors[field].push(error.message);
+  }
+  return { success: false, errors };
+}
+
+function toUtcDay(value: string | Date): Date {
+  const date = new Date(value);
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function anniversary(startDate: Date, years: number): Date {
+  return new Date(Date.UTC(startDate.getUTCFullYear() + years, startDate.getUTCMonth(), startDate.getUTCDate()));
+}
+
+/**
+ * Kıdem yılına göre yıllık izin hakkı (İş Kanunu md. 53)
+ * - 1 yıldan 5 yıla kadar (5 dahil): 14 gün
+ * - 5 yıldan fazla 15 yıldan az: 20 gün
+ * - 15 yıl ve fazlası: 26 gün
+ */
+export function getAnnualLeaveEntitlement(serviceYears: number): number {
+  if (serviceYears < 1) return 0;
+  if (serviceYears <= 5) return 14;
+  if (serviceYears < 15) return 20;
+  return 26;
+}
+
+/**
+ * İzin aralığındaki izin günleri: pazar ve tam gün resmi tatiller sayılmaz, arifeler yarım gündür
+ */
+export function countLeaveDays(
+  startDate: Date,
+  endDate: Date,
+  holidays: { date: Date; isHalfDay: boolean }[]
+): { days: number; dates: Date[] } {
+  const holidayMap = new Map(holidays.map((holiday) => [toUtcDay(holiday.date).getTime(), holiday.isHalfDay]));
+  const dates: Date[] = [];
+  let days = 0;
+
+  for (let time = toUtcDay(startDate).getTime(); time <= toUtcDay(endDate).getTime(); time += DAY_MS) {
+    const date = new Date(time);
+    if (date.getUTCDay() === 0) continue;
+    const isHalfDay = holidayMap.get(time);
+    if (isHalfDay === false) continue;
+    days += isHalfDay ? 0.5 : 1;
+    dates.push(date);
+  }
+  return { days, dates };
+}
+
+/**
+ * Hizmet yılı bazında izin bakiyesi (saf fonksiyon)
+ * Her hizmet yılı işe giriş yıldönümünde başlar; izin, başladığı hizmet yılından düşülür.
+ */
+export function buildLeaveBalance(
+  employee: { id: string; startDate: Date; endDate: Date | null },
+  asOf: Date,
+  approvedLeaves: { startDate: Date; days: number }[],
+  pendingDays: number = 0
+): LeaveBalance {
+  const startDate = toUtcDay(employee.startDate);
+  const lastLeaveStart = approvedLeaves.reduce(
+    (latest, leave) => Math.max(latest, toUtcDay(leave.startDate).getTime()),
+    0
+  );
+  let limit = Math.max(toUtcDay(asOf).getTime(), lastLeaveStart);
+  if (employee.endDate) {
+    limit = Math.min(limit, toUtcDay(employee.endDate).getTime());
+  }
+
+  const history: LeaveBalanceRow[] = [];
+  let carriedOver = 0;
+  let totalEntitled = 0;
+  let used = 0;
+  for (let serviceYear = 0; anniversary(startDate, serviceYear).getTime() <= limit; serviceYear++) {
+    const periodStart = anniversary(startDate, serviceYear);
+    const nextStart = anniversary(startDate, serviceYear + 1);
+    const entitlement = getAnnualLeaveEntitlement(serviceYear);
+    const usedInPeriod = approvedLeaves
+      .filter((leave) => {
+        const time = toUtcDay(leave.startDate).getTime();
+        return time >= periodStart.getTime() && time < nextStart.getTime();
+      })
+      .reduce((sum, leave) => sum + leave.days, 0);
+
+    const remaining = carriedOver + entitlement - usedInPeriod;
+    history.push({
+      serviceYear,
+      periodStart,
+      periodEnd: new Date(nextStart.getTime() - DAY_MS),
+      entitlement,
+      carriedOver,
+      used: usedInPeriod,
+      remaining,
+    });
+
+    totalEntitled += entitlement;
+    used += usedInPeriod;
+    carriedOver = remaining;
+  }
+
+  const seniorityYears = Math.max(0, history.length - 1);
+  return {
+    employeeId: employee.id,
+    seniorityYears,
+    currentEntitlement: getAnnualLeaveEntitlement(seniorityYears),
+    totalEntitled,
+    used,
+    pending: pendingDays,
+    remaining: totalEntitled - used,
+    history,
+  };
+}
+
+async function getHolidaysBetween(startDate: Date, endDate: Date) {
+  return prisma.publicHoliday.findMany({
+    where: { date: { gte: startDate, lte: endDate } },
+    select: { date: true, isHalfDay: true },
+  });
+}
+
+/**
+ * İzin günlerini döneme (ay) göre gruplar
+ */
+function groupByPeriod(dates: Date[]): { month: number; year: number; dates: Date[] }[] {
+  const groups = new Map<string, { month: number; year: number; dates: Date[] }>();
+  for (const date of dates) {
+    const month = date.getUTCMonth() + 1;
+    const year = date.getUTCFullYear();
+    const key = `${year}-${month}`;
+    const group = groups.get(key) ?? { month, year, dates: [] };
+    group.dates.push(date);
+    groups.set(key, group);
+  }
+  return Array.from(groups.values());
+}
+
+async function getEmployeeOrThrow(employeeId: string) {
+  const employee = await prisma.employee.findUnique({ where: { id: employeeId } });
+  if (!employee) {
+    throw new AppError(404, 'EMPLOYEE_NOT_FOUND', 'Çalışan bulunamadı');
+  }
+  return employee;
+}
+
+export async function getLeaveBalance(employeeId: string, asOf: Date = new Date()): Promise<LeaveBalance> {
+  const employee = await getEmployeeOrThrow(employeeId);
+  const requests = await prisma.leaveRequest.findMany({
+    where: { employeeId, status: { in: ['APPROVED', 'PENDING'] } },
+    select: { startDate: true, days: true, status: true },
+  });
+
+  const approved = requests.filter((request) => request.status === 'APPROVED');
+  const pendingDays = requests
+    .filter((request) => request.status === 'PENDING')
+    .reduce((sum, request) => sum + request.days, 0);
+
+  return buildLeaveBalance(employee, asOf, approved, pendingDays);
+}
+
+export async function listLeaveRequests(filters: { employeeId?: string; status?: string; year?: number }) {
+  if (filters.status && !LEAVE_STATUSES.includes(filters.status as LeaveStatus)) {
+    throw new AppError(400, 'INVALID_STATUS', 'Geçersiz izin durumu');
+  }
+
+  return prisma.leaveRequest.findMany({
+    where: {
+      ...(filters.employeeId ? { employeeId: filters.employeeId } : {}),
+      ...(filters.status ? { status: filters.status } : {}),
+      ...(filters.year
+        ? {
+            startDate: { lt: new Date(Date.UTC(filters.year + 1, 0, 1)) },
+            endDate: { gte: new Date(Date.UTC(filters.year, 0, 1)) },
+          }
+        : {}),
+    },
+    orderBy: [{ startDate: 'desc' }, { createdAt: 'desc' }],
+    include: {
+      employee: { select: { id: true, fullName: true, workArea: true } },
+    },
+  });
+}
+
+export async function getLeaveRequestById(id: string) {
+  const request = await prisma.leaveRequest.findUnique({
+    where: { id },
+    include: {
+      employee: { select: { id: true, fullName: true, workArea: true } },
+    },
+  });
+  if (!request) {
+    throw new AppError(404, 'LEAVE_REQUEST_NOT_FOUND', 'İzin talebi bulunamadı');
+  }
+  return request;
+}
+
+export async function createLeaveRequest(input: CreateLeaveRequestInput, requestedBy: string) {
+  const validatedData = createLeaveRequestSchema.parse(input);
+  const employee = await getEmployeeOrThrow(validatedData.employeeId);
+
+  const startDate = toUtcDay(validatedData.startDate);
+  const endDate = toUtcDay(validatedData.endDate);
+  if (endDate < startDate) {
+    throw new AppError(400, 'INVALID_DATE_RANGE', 'İzin bitiş tarihi başlangıç tarihinden önce olamaz');
+  }
+  if (startDate < toUtcDay(employee.startDate) || (employee.endDate && endDate > toUtcDay(employee.endDate))) {
+    throw new AppError(400, 'DATE_OUTSIDE_EMPLOYMENT', 'İzin tarihleri çalışanın iş ilişkisi dışında olamaz');
+  }
+
+  const { days } = countLeaveDays(startDate, endDate, await getHolidaysBetween(startDate, endDate));
+  if (days <= 0) {
+    throw new AppError(400, 'NO_LEAVE_DAYS', 'Seçilen aralıkta izin günü yok');
+  }
+
+  const overlapping = await prisma.leaveRequest.findFirst({
+    where: {
+      employeeId: employee.id,
+      status: { in: ['PENDING', 'APPROVED'] },
+      startDate: { lte: endDate },
+      endDate: { gte: startDate },
+    },
+  });
+  if (overlapping) {
+    throw new AppError(409, 'LEAVE_OVERLAP', 'Bu tarihlerle çakışan bir izin talebi var');
+  }
+
+  const balance = await getLeaveBalance(employee.id, startDate);
+  if (days > balance.remaining - balance.pending) {
+    throw new AppError(
+      409,
+      'INSUFFICIENT_LEAVE_BALANCE',
+      `Yetersiz izin bakiyesi: kalan ${balance.remaining - balance.pending} gün, talep ${days} gün`
+    );
+  }
+
+  return prisma.leaveRequest.create({
+    data: {
+      employeeId: employee.id,
+      startDate,
+      endDate,
+      days,
+      note: validatedData.note?.trim() || null,
+      requestedBy,
+    },
+    include: {
+      employee: { select: { id: true, fullName: true, workArea: true } },
+    },
+  });
+}
+
+/**
+ * İzin talebini onaylar ve izin günlerini devam takvimine ücretli izin olarak işler
+ */
+export async function approveLeaveRequest(id: string, decidedBy: string) {
+  const request = await getLeaveRequestById(id);
+  if (request.status !== 'PENDING') {
+    throw new AppError(409, 'LEAVE_NOT_PENDING', 'Yalnızca bekleyen izin talepleri onaylanabilir');
+  }
+
+  const balance = await getLeaveBalance(request.employeeId, request.startDate);
+  if (request.days > balance.remaining) {
+    throw new AppError(
+      409,
+      'INSUFFICIENT_LEAVE_BALANCE',
+      `Yetersiz izin bakiyesi: kalan ${balance.remaining} gün, talep ${request.days} gün`
+    );
+  }
+
+  const { dates } = countLeaveDays(
+    request.startDate,
+    request.endDate,
+    await getHolidaysBetween(request.startDate, request.endDate)
+  );
+  const periods = groupByPeriod(dates);
+  // Kapalı dönem varsa hiçbir gün yazılmadan reddedilir
+  for (const { month, year } of periods) {
+    await assertPeriodOpen(month, year);
+  }
+  for (const period of periods) {
+    await setAttendanceDays(request.employeeId, period.month, period.year, {
+      days: period.dates.map((date) => ({ date: formatDay(date), code: 'PAID_LEAVE', note: 'Yıllık izin' })),
+    });
+  }
+
+  return prisma.leaveRequest.update({
+    where: { id },
+    data: { status: 'APPROVED', decidedBy, decidedAt: new Date() },
+    include: {
+      employee: { select: { id: true, fullName: true, workArea: true } },
+    },
+  });
+}
+
+export async function rejectLeaveRequest(id: string, decidedBy: string) {
+  const request = await getLeaveRequestById(id);
+  if (request.status !== 'PENDING') {
+    throw new AppError(409, 'LEAVE_NOT_PENDING', 'Yalnızca bekleyen izin talepleri reddedilebilir');
+  }
+
+  return prisma.leaveRequest.update({
+    where: { id },
+    data: { status: 'REJECTED', decidedBy, decidedAt: new Date() },
+    include: {
+      employee: { select: { id: true, fullName: true, workArea: true } },
+    },
+  });
+}
+
+/**
+ * İzin talebini iptal eder; onaylanmış izinde devam takvimindeki ücretli izin günleri temizlenir
+ */
+export async function cancelLeaveRequest(id: string, decidedBy: string) {
+  const request = await getLeaveRequestById(id);
+  if (request.status !== 'PENDING' && request.status !== 'APPROVED') {
+    throw new AppError(409, 'LEAVE_NOT_CANCELLABLE', 'Bu izin talebi iptal edilemez');
+  }
+
+  if (request.status === 'APPROVED') {
+    const leaveDays = await prisma.attendanceDay.findMany({
+      where: {
+        employeeId: request.employeeId,
+        date: { gte: request.startDate, lte: request.endDate },
+        code: 'PAID_LEAVE',
+      },
+      select: { date: true },
+    });
+    const periods = groupByPeriod(leaveDays.map((day) => day.date));
+    for (const { month, year } of periods) {
+      await assertPeriodOpen(month, year);
+    }
+    for (const period of periods) {
+      await setAttendanceDays(request.employeeId, period.month, period.year, {
+        days: period.dates.map((date) => ({ date: formatDay(date), code: null })),
+      });
+    }
+  }
+
+  return prisma.leaveRequest.update({
+    where: { id },
+    data: { status: 'CANCELLED', decidedBy, decidedAt: new Date() },
+    include: {
+      employee: { select: { id: true, fullName: true, workArea: true } },
+    },
+  });
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildLoanSchedule,
+  calculateLoanBalance,
+  installmentAmountFor,
+  installmentDueFor,
+} from './loan.service';
+
+type Transaction = { kind: string; amount: number; month: number | null; year: number | null };
+
+function buildLoan(transactions: Transaction[] = []) {
+  return {
+    principal: 10000,
+    installmentAmount: 3000,
+    startMonth: 11,
+    startYear: 2025,
+    status: 'ACTIVE',
+    transactions,
+  };
+}
+
+function installment(amount: number, month: number, year: number): Transaction {
+  return { kind: 'INSTALLMENT', amount, month, year };
+}
+
+describe('calculateLoanBalance', () => {
+  it('subtracts every transaction from the principal', () => {
+    const loan = buildLoan([installment(3000, 11, 2025), { kind: 'PAYOFF', amount: 1500.5, month: null, year: null }]);
+    expect(calculateLoanBalance(loan)).toBe(5499.5);
+  });
+
+  it('never goes below zero', () => {
+    expect(calculateLoanBalance(buildLoan([{ kind: 'PAYOFF', amount: 12000, month: null, year: null }]))).toBe(0);
+  });
+});
+
+describe('installmentAmountFor', () => {
+  it('rounds the monthly amount up to the cent', () => {
+    expect(installmentAmountFor(1000, 3)).toBe(333.34);
+    expect(installmentAmountFor(900, 3)).toBe(300);
+  });
+});
+
+describe('installmentDueFor', () => {
+  it('deducts nothing before the start period', () => {
+    expect(installmentDueFor(buildLoan(), 10, 2025)).toBe(0);
+  });
+
+  it('deducts the installment from the start period on', () => {
+    expect(installmentDueFor(buildLoan(), 11, 2025)).toBe(3000);
+    expect(installmentDueFor(buildLoan(), 2, 2026)).toBe(3000);
+  });
+
+  it('deducts nothing once the period installment is settled', () => {
+    expect(installmentDueFor(buildLoan([installment(3000, 11, 2025)]), 11, 2025)).toBe(0);
+  });
+
+  it('limits the last installment to the remaining balance', () => {
+    const loan = buildLoan([installment(3000, 11, 2025), installment(3000, 12, 2025), installment(3000, 1, 2026)]);
+    expect(installmentDueFor(loan, 2, 2026)).toBe(1000);
+  });
+
+  it('does not accumulate a short deduction into the next period', () => {
+    const loan = buildLoan([installment(1200, 11, 2025)]);
+    expect(installmentDueFor(loan, 12, 2025)).toBe(3000);
+  });
+});
+
+describe('buildLoanSchedule', () => {
+  it('plans the balance from the start period with a smaller last installment', () => {
+    expect(buildLoanSchedule(buildLoan())).toEqual([
+      { month: 11, year: 2025, amount: 3000 },
+      { month: 12, year: 2025, amount: 3000 },
+      { month: 1, year: 2026, amount: 3000 },
+      { month: 2, year: 2026, amount: 1000 },
+    ]);
+  });
+
+  it('continues after the last settled period and keeps the shortfall in the balance', () => {
+    const schedule = buildLoanSchedule(buildLoan([installment(1200, 11, 2025)]));
+
+    expect(schedule[0]).toEqual({ month: 12, year: 2025, amount: 3000 });
+    expect(schedule.at(-1)).toEqual({ month: 2, year: 2026, amount: 2800 });
+  });
+
+  it('is empty for a closed loan', () => {
+    expect(buildLoanSchedule({ ...buildLoan(), status: 'WRITTEN_OFF' })).toEqual([]);
+  });
+});
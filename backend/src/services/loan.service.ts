@@ -0,0 +1,580 @@
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import prisma from '../utils/prisma';
+import { AppError } from '../middleware/errorHandler';
+import { assertPeriodOpen, findLaterClosedPeriod } from './payrollPeriod.service';
+import { roundCurrency } from './taxCalculation.service';
+
+/**
+ * Loan Service
+ *
+ * Çalışan borçları: ana para, başlangıç dönemi ve aylık taksitle tanımlanır.
+ * Açık dönemde taksit puantajda diğer kesintilerden sonra kalan ödemeyle sınırlı olarak düşülür;
+ * karşılanamayan kısım bakiyede kalır ve plan kendiliğinden uzar.
+ * Dönem kapanışında kesilen tutar taksit hareketi olarak yazılır, yeniden açılışta geri alınır.
+ * Erken kapama (peşin ödeme) ve silme (terkin) de hareket olarak tutulur.
+ */
+
+export const MAX_LOAN_INSTALLMENTS = 60;
+
+export const LOAN_STATUSES = ['ACTIVE', 'PAID_OFF', 'WRITTEN_OFF'] as const;
+export const LOAN_TRANSACTION_KINDS = ['INSTALLMENT', 'PAYOFF', 'WRITE_OFF'] as const;
+
+export type LoanStatus = (typeof LOAN_STATUSES)[number];
+export type LoanTransactionKind = (typeof LOAN_TRANSACTION_KINDS)[number];
+
+export interface LoanDeduction {
+  employeeId: string;
+  amount: number;
+}
+
+const dateString = z.string().refine((val) => !isNaN(Date.parse(val)), {
+  message: 'Geçerli bir tarih giriniz',
+});
+
+const installmentCountSchema = z
+  .number()
+  .int()
+  .min(1, 'Taksit sayısı en az 1 olmalıdır')
+  .max(MAX_LOAN_INSTALLMENTS, `Taksit sayısı en fazla ${MAX_LOAN_INSTALLMENTS} olabilir`);
+
+export const createLoanSchema = z
+  .object({
+    employeeId: z.string().min(1, 'Çalışan zorunludur'),
+    loanDate: dateString,
+    principal: z.number().positive('Borç tutarı 0\'dan büyük olmalıdır'),
+    startMonth: z.number().int().min(1).max(12),
+    startYear: z.number().int().min(2000).max(2100),
+    installmentCount: installmentCountSchema.optional(),
+    installmentAmount: z.number().positive('Taksit tutarı 0\'dan büyük olmalıdır').optional(),
+    note: z.string().max(255, 'Not çok uzun').optional().nullable(),
+    // Boşsa kaydı giren kullanıcı onaylayan sayılır
+    approvedBy: z.string().max(100, 'Onaylayan adı çok uzun').optional().nullable(),
+  })
+  .refine((data) => (data.installmentCount === undefined) !== (data.installmentAmount === undefined), {
+    message: 'Taksit sayısı veya taksit tutarından yalnızca biri girilmelidir',
+    path: ['installmentCount'],
+  });
+
+// Taksit sayısı güncellemede kalan bakiyeye uygulanır
+export const updateLoanSchema = z
+  .object({
+    loanDate: dateString.optional(),
+    principal: z.number().positive('Borç tutarı 0\'dan büyük olmalıdır').optional(),
+    startMonth: z.number().int().min(1).max(12).optional(),
+    startYear: z.number().int().min(2000).max(2100).optional(),
+    installmentCount: installmentCountSchema.optional(),
+    installmentAmount: z.number().positive('Taksit tutarı 0\'dan büyük olmalıdır').optional(),
+    note: z.string().max(255, 'Not çok uzun').optional().nullable(),
+    approvedBy: z.string().max(100, 'Onaylayan adı çok uzun').optional().nullable(),
+  })
+  .refine((data) => data.installmentCount === undefined || data.installmentAmount === undefined, {
+    message: 'Taksit sayısı veya taksit tutarından yalnızca biri girilmelidir',
+    path: ['installmentCount'],
+  });
+
+export const loanPayoffSchema = z.object({
+  paymentDate: dateString,
+  // Boşsa kalan bakiyenin tamamı ödenir
+  amount: z.number().positive('Ödeme tutarı 0\'dan büyük olmalıdır').optional(),
+  note: z.string().max(255, 'Not çok uzun').optional().nullable(),
+});
+
+export const loanWriteOffSchema = z.object({
+  note: z.string().trim().min(1, 'Silme gerekçesi zorunludur').max(255, 'Not çok uzun'),
+});
+
+export type CreateLoanInput = z.infer<typeof createLoanSchema>;
+export type UpdateLoanInput = z.infer<typeof updateLoanSchema>;
+export type LoanPayoffInput = z.infer<typeof loanPayoffSchema>;
+export type LoanWriteOffInput = z.infer<typeof loanWriteOffSchema>;
+
+export function validateLoanInput(
+  input: unknown,
+  isUpdate: boolean = false
+): { success: true; data: CreateLoanInput | UpdateLoanInput } | { success: false; errors: Record<string, string[]> } {
+  const schema = isUpdate ? updateLoanSchema : createLoanSchema;
+  const result = schema.safeParse(input);
+  if (result.success) return { success: true, data: result.data };
+  const errors: Record<string, string[]> = {};
+  for (const error of result.error.errors) {
+    const field = error.path.join('.');
+    if (!errors[field]) errors[field] = [];
+    errors[field].push(error.message);
+  }
+  return { success: false, errors };
+}
+
+export function validateLoanPayoffInput(
+  input: unknown
+): { success: true; data: LoanPayoffInput } | { success: false; errors: Record<string, string[]> } {
+  const result = loanPayoffSchema.safeParse(input);
+  if (result.success) return { success: true, data: result.data };
+  const errors: Record<string, string[]> = {};
+  for (const error of result.error.errors) {
+    const field = error.path.join('.');
+    if (!errors[field]) errors[field] = [];
+    errors[field].push(error.message);
+  }
+  return { success: false, errors };
+}
+
+export function validateLoanWriteOffInput(
+  input: unknown
+): { success: true; data: LoanWriteOffInput } | { success: false; errors: Record<string, string[]> } {
+  const result = loanWriteOffSchema.safeParse(input);
+  if (result.success) return { success: true, data: result.data };
+  const errors: Record<string, string[]> = {};
+  for (const error of result.error.errors) {
+    const field = error.path.join('.');
+    if (!errors[field]) errors[field] = [];
+    errors[field].push(error.message);
+  }
+  return { success: false, errors };
+}
+
+const loanInclude = {
+  employee: { select: { id: true, fullName: true, endDate: true } },
+  transactions: { orderBy: { transactionDate: 'asc' } },
+} as const;
+
+type LoanWithTransactions = Prisma.LoanGetPayload<{ include: typeof loanInclude }>;
+
+export interface LoanScheduleLine {
+  month: number;
+  year: number;
+  amount: number;
+}
+
+const periodIndex = (month: number, year: number) => year * 12 + (month - 1);
+
+/**
+ * Kalan bakiye: ana paradan taksit, erken ödeme ve silme hareketleri düşülür (saf fonksiyon)
+ */
+export function calculateLoanBalance(loan: { principal: number; transactions: { amount: number }[] }): number {
+  const settled = loan.transactions.reduce((acc, transaction) => acc + transaction.amount, 0);
+  return roundCurrency(Math.max(0, loan.principal - settled));
+}
+
+/**
+ * Taksit sayısından aylık tutar; kuruşa yukarı yuvarlanır, son taksit kalan bakiye kadar kesilir
+ */
+export function installmentAmountFor(balance: number, installmentCount: number): number {
+  return Math.ceil((balance / installmentCount) * 100) / 100;
+}
+
+/**
+ * Kalan bakiyenin tahmini taksit planı (saf fonksiyon)
+ *
+ * Son taksitin kesildiği dönemin ertesinden, yoksa başlangıç döneminden itibaren her ay
+ * taksit tutarı kadar, son ay kalan kadar kesileceği varsayılır
+ */
+export function buildLoanSchedule(
+  loan: {
+    installmentAmount: number;
+    startMonth: number;
+    startYear: number;
+    status: string;
+    principal: number;
+    transactions: { kind: string; amount: number; month: number | null; year: number | null }[];
+  }
+): LoanScheduleLine[] {
+  let remaining = calculateLoanBalance(loan);
+  if (loan.status !== 'ACTIVE' || remaining <= 0 || loan.installmentAmount <= 0) return [];
+
+  const lastSettled = loan.transactions
+    .filter((transaction) => transaction.kind === 'INSTALLMENT' && transaction.month && transaction.year)
+    .reduce((max, transaction) => Math.max(max, periodIndex(transaction.month!, transaction.year!)), -1);
+  let offset = Math.max(periodIndex(loan.startMonth, loan.startYear), lastSettled + 1);
+
+  const schedule: LoanScheduleLine[] = [];
+  while (remaining > 0) {
+    const amount = roundCurrency(Math.min(loan.installmentAmount, remaining));
+    schedule.push({ month: (offset % 12) + 1, year: Math.floor(offset / 12), amount });
+    remaining = roundCurrency(remaining - amount);
+    offset++;
+  }
+  return schedule;
+}
+
+/**
+ * Borcun dönemde kesilecek taksiti: başlangıçtan önce veya dönemin taksiti işlenmişse 0 (saf fonksiyon)
+ *
+ * Önceki aylarda kesilemeyen kısım birikmez; bakiyede kalır ve plan uzar
+ */
+export function installmentDueFor(
+  loan: {
+    principal: number;
+    installmentAmount: number;
+    startMonth: number;
+    startYear: number;
+    transactions: { kind: string; amount: number; month: number | null; year: number | null }[];
+  },
+  month: number,
+  year: number
+): number {
+  if (periodIndex(loan.startMonth, loan.startYear) > periodIndex(month, year)) return 0;
+  const settled = loan.transactions.some(
+    (transaction) => transaction.kind === 'INSTALLMENT' && transaction.month === month && transaction.year === year
+  );
+  if (settled) return 0;
+  return roundCurrency(Math.min(loan.installmentAmount, calculateLoanBalance(loan)));
+}
+
+function toLoanResponse(loan: LoanWithTransactions) {
+  const totalOf = (kind: LoanTransactionKind) =>
+    roundCurrency(
+      loan.transactions.filter((transaction) => transaction.kind === kind).reduce((acc, t) => acc + t.amount, 0)
+    );
+  return {
+    ...loan,
+    paidByPayroll: totalOf('INSTALLMENT'),
+    paidOff: totalOf('PAYOFF'),
+    writtenOff: totalOf('WRITE_OFF'),
+    balance: calculateLoanBalance(loan),
+    schedule: buildLoanSchedule(loan),
+  };
+}
+
+export type LoanResponse = ReturnType<typeof toLoanResponse>;
+
+function resolveLoanStatus(loan: { principal: number; transactions: { kind: string; amount: number }[] }): LoanStatus {
+  if (calculateLoanBalance(loan) > 0) return 'ACTIVE';
+  return loan.transactions.some((transaction) => transaction.kind === 'WRITE_OFF') ? 'WRITTEN_OFF' : 'PAID_OFF';
+}
+
+/**
+ * Hareketlerden sonra borcun durumunu bakiyeye göre günceller
+ */
+async function syncLoanStatus(tx: Prisma.TransactionClient, loanId: string): Promise<void> {
+  const loan = await tx.loan.findUnique({ where: { id: loanId }, include: { transactions: true } });
+  if (!loan) return;
+  const status = resolveLoanStatus(loan);
+  if (status !== loan.status) {
+    await tx.loan.update({ where: { id: loanId }, data: { status } });
+  }
+}
+
+function assertPlanLength(balance: number, installmentAmount: number) {
+  if (Math.ceil(roundCurrency(balance / installmentAmount)) > MAX_LOAN_INSTALLMENTS) {
+    throw new AppError(
+      400,
+      'LOAN_PLAN_TOO_LONG',
+      `Borç planı en fazla ${MAX_LOAN_INSTALLMENTS} aya yayılabilir; taksit tutarını artırın`
+    );
+  }
+}
+
+/**
+ * Borç satırını kilitleyip bakiyeyi transaction içinde okur; eşzamanlı ödemeler aynı bakiyeyi görmesin
+ */
+async function lockLoan(tx: Prisma.TransactionClient, loanId: string) {
+  await tx.$queryRaw`SELECT "id" FROM "Loan" WHERE "id" = ${loanId} FOR UPDATE`;
+  const loan = await tx.loan.findUnique({ where: { id: loanId }, include: { transactions: true } });
+  if (!loan) {
+    throw new AppError(404, 'LOAN_NOT_FOUND', 'Borç kaydı bulunamadı');
+  }
+  return { ...loan, balance: calculateLoanBalance(loan) };
+}
+
+function assertLoanActive(loan: { status: string }) {
+  if (loan.status !== 'ACTIVE') {
+    throw new AppError(409, 'LOAN_CLOSED', 'Kapanmış borçta değişiklik yapılamaz');
+  }
+}
+
+export async function listLoans(filters: { employeeId?: string; status?: string }) {
+  const loans = await prisma.loan.findMany({
+    where: {
+      ...(filters.employeeId ? { employeeId: filters.employeeId } : {}),
+      ...(filters.status ? { status: filters.status } : {}),
+    },
+    orderBy: [{ loanDate: 'desc' }, { createdAt: 'desc' }],
+    include: loanInclude,
+  });
+  return loans.map(toLoanResponse);
+}
+
+export async function getLoanById(id: string) {
+  const loan = await prisma.loan.findUnique({ where: { id }, include: loanInclude });
+  if (!loan) {
+    throw new AppError(404, 'LOAN_NOT_FOUND', 'Borç kaydı bulunamadı');
+  }
+  return toLoanResponse(loan);
+}
+
+export async function createLoan(input: CreateLoanInput, createdBy: string) {
+  const employee = await prisma.employee.findUnique({ where: { id: input.employeeId } });
+  if (!employee) {
+    throw new AppError(404, 'EMPLOYEE_NOT_FOUND', 'Çalışan bulunamadı');
+  }
+  await assertPeriodOpen(input.startMonth, input.startYear);
+
+  const principal = roundCurrency(input.principal);
+  const installmentAmount = input.installmentCount
+    ? installmentAmountFor(principal, input.installmentCount)
+    : roundCurrency(input.installmentAmount as number);
+  assertPlanLength(principal, installmentAmount);
+
+  const loan = await prisma.loan.create({
+    data: {
+      employeeId: input.employeeId,
+      loanDate: new Date(input.loanDate),
+      principal,
+      installmentAmount,
+      startMonth: input.startMonth,
+      startYear: input.startYear,
+      note: input.note?.trim() || null,
+      approvedBy: input.approvedBy?.trim() || createdBy,
+      createdBy,
+    },
+    include: loanInclude,
+  });
+  return toLoanResponse(loan);
+}
+
+/**
+ * Borç planını günceller; ana para ve başlangıç dönemi yalnızca henüz hareket yokken değiştirilebilir
+ */
+export async function updateLoan(id: string, input: UpdateLoanInput) {
+  const existing = await getLoanById(id);
+  assertLoanActive(existing);
+
+  const changesPlanBasis =
+    (input.principal !== undefined && roundCurrency(input.principal) !== existing.principal) ||
+    (input.startMonth !== undefined && input.startMonth !== existing.startMonth) ||
+    (input.startYear !== undefined && input.startYear !== existing.startYear);
+  if (changesPlanBasis && existing.transactions.length > 0) {
+    throw new AppError(
+      409,
+      'LOAN_HAS_TRANSACTIONS',
+      'Taksit veya ödeme işlenmiş borcun tutarı ve başlangıç dönemi değiştirilemez; taksiti güncelleyin'
+    );
+  }
+
+  const next = {
+    principal: input.principal !== undefined ? roundCurrency(input.principal) : existing.principal,
+    startMonth: input.startMonth ?? existing.startMonth,
+    startYear: input.startYear ?? existing.startYear,
+  };
+  if (changesPlanBasis) {
+    await assertPeriodOpen(next.startMonth, next.startYear);
+  }
+
+  const balance = calculateLoanBalance({ principal: next.principal, transactions: existing.transactions });
+  const installmentAmount = input.installmentCount
+    ? installmentAmountFor(balance, input.installmentCount)
+    : input.installmentAmount !== undefined
+      ? roundCurrency(input.installmentAmount)
+      : existing.installmentAmount;
+  assertPlanLength(balance, installmentAmount);
+
+  const loan = await prisma.loan.update({
+    where: { id },
+    data: {
+      ...(input.loanDate !== undefined ? { loanDate: new Date(input.loanDate) } : {}),
+      ...next,
+      installmentAmount,
+      ...(input.note !== undefined ? { note: input.note?.trim() || null } : {}),
+      ...(input.approvedBy !== undefined && input.approvedBy?.trim() ? { approvedBy: input.approvedBy.trim() } : {}),
+    },
+    include: loanInclude,
+  });
+  return toLoanResponse(loan);
+}
+
+export async function deleteLoan(id: string): Promise<void> {
+  const existing = await getLoanById(id);
+  if (existing.transactions.length > 0) {
+    throw new AppError(
+      409,
+      'LOAN_HAS_TRANSACTIONS',
+      'Taksit veya ödeme işlenmiş borç silinemez; kalan bakiyeyi kapatın veya silin (terkin)'
+    );
+  }
+  await prisma.loan.delete({ where: { id } });
+}
+
+/**
+ * Erken kapama: kalan bakiyenin tamamı veya bir kısmı çalışan tarafından peşin ödenir
+ */
+export async function payOffLoan(id: string, input: LoanPayoffInput, createdBy: string) {
+  await prisma.$transaction(async (tx) => {
+    const existing = await lockLoan(tx, id);
+    assertLoanActive(existing);
+
+    const amount = roundCurrency(input.amount ?? existing.balance);
+    if (amount > existing.balance) {
+      throw new AppError(400, 'PAYOFF_EXCEEDS_BALANCE', 'Ödeme tutarı kalan bakiyeyi aşamaz', {
+        amount: [`Kalan bakiye: ${existing.balance.toFixed(2)} TL`],
+      });
+    }
+
+    await tx.loanTransaction.create({
+      data: {
+        loanId: id,
+        kind: 'PAYOFF',
+        amount,
+        transactionDate: new Date(input.paymentDate),
+        note: input.note?.trim() || null,
+        createdBy,
+      },
+    });
+    await syncLoanStatus(tx, id);
+  });
+  return getLoanById(id);
+}
+
+/**
+ * Kalan bakiyeyi siler (terkin); borç kapanır ve kesilmez
+ */
+export async function writeOffLoan(id: string, input: LoanWriteOffInput, createdBy: string) {
+  await prisma.$transaction(async (tx) => {
+    const existing = await lockLoan(tx, id);
+    assertLoanActive(existing);
+
+    await tx.loanTransaction.create({
+      data: {
+        loanId: id,
+        kind: 'WRITE_OFF',
+        amount: existing.balance,
+        transactionDate: new Date(),
+        note: input.note.trim(),
+        createdBy,
+      },
+    });
+    await syncLoanStatus(tx, id);
+  });
+  return getLoanById(id);
+}
+
+/**
+ * Erken ödeme veya silme hareketini geri alır; taksitler dönem yeniden açılınca geri alınır
+ */
+export async function deleteLoanTransaction(loanId: string, transactionId: string) {
+  const loan = await getLoanById(loanId);
+  const transaction = loan.transactions.find((item) => item.id === transactionId);
+  if (!transaction) {
+    throw new AppError(404, 'LOAN_TRANSACTION_NOT_FOUND', 'Borç hareketi bulunamadı');
+  }
+  if (transaction.kind === 'INSTALLMENT') {
+    throw new AppError(
+      409,
+      'LOAN_INSTALLMENT_SETTLED',
+      `Taksit ${transaction.month}/${transaction.year} dönemi kapanışında işlenmiştir; geri almak için o dönemi yeniden açın`
+    );
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.loanTransaction.delete({ where: { id: transactionId } });
+    await syncLoanStatus(tx, loanId);
+  });
+  return getLoanById(loanId);
+}
+
+/**
+ * Çalışanların dönemde kesilecek taksit toplamı (puantaj ödemesiyle sınırlanmadan önce)
+ */
+export async function getLoanInstallmentDues(
+  employeeIds: string[],
+  month: number,
+  year: number
+): Promise<Map<string, number>> {
+  const loans = await prisma.loan.findMany({
+    where: { employeeId: { in: employeeIds }, status: 'ACTIVE' },
+    include: { transactions: true },
+  });
+
+  const dues = new Map<string, number>();
+  for (const loan of loans) {
+    const amount = installmentDueFor(loan, month, year);
+    if (amount > 0) dues.set(loan.employeeId, roundCurrency((dues.get(loan.employeeId) ?? 0) + amount));
+  }
+  return dues;
+}
+
+/**
+ * Dönem kapanırken puantajdan kesilen tutarları borçlara taksit hareketi olarak yazar
+ *
+ * Çalışanın birden fazla borcu varsa kesinti en eski borçtan başlanarak dağıtılır
+ */
+export async function settleLoanInstallments(
+  tx: Prisma.TransactionClient,
+  month: number,
+  year: number,
+  deductions: LoanDeduction[],
+  createdBy: string
+): Promise<number> {
+  const transactionDate = new Date(Date.UTC(year, month, 0));
+  let created = 0;
+
+  for (const deduction of deductions) {
+    let remaining = roundCurrency(deduction.amount);
+    if (remaining <= 0) continue;
+
+    const loans = await tx.loan.findMany({
+      where: { employeeId: deduction.employeeId, status: 'ACTIVE' },
+      include: { transactions: true },
+      orderBy: [{ loanDate: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    for (const loan of loans) {
+      if (remaining <= 0) break;
+      const due = installmentDueFor(loan, month, year);
+      if (due <= 0) continue;
+
+      const amount = roundCurrency(Math.min(remaining, due));
+      await tx.loanTransaction.create({
+        data: {
+          loanId: loan.id,
+          kind: 'INSTALLMENT',
+          amount,
+          transactionDate,
+          month,
+          year,
+          note: `${month}/${year} puantaj kesintisi`,
+          createdBy,
+        },
+      });
+      await syncLoanStatus(tx, loan.id);
+      remaining = roundCurrency(remaining - amount);
+      created++;
+    }
+  }
+  return created;
+}
+
+/**
+ * Taksit hareketleri ancak sonraki dönemler açıksa geri alınabilir;
+ * aksi halde kapalı dönemlerin snapshot'ındaki taksitler borç bakiyesiyle çelişir
+ */
+export async function assertLoanInstallmentsRevertible(month: number, year: number): Promise<void> {
+  const count = await prisma.loanTransaction.count({ where: { kind: 'INSTALLMENT', month, year } });
+  if (count === 0) return;
+
+  const laterClosed = await findLaterClosedPeriod(month, year);
+  if (laterClosed) {
+    throw new AppError(
+      409,
+      'LOAN_INSTALLMENTS_NOT_REVERTIBLE',
+      `Bu dönemde kesilen borç taksitleri sonraki dönemleri etkiliyor; önce ${laterClosed.month}/${laterClosed.year} dönemini yeniden açın`
+    );
+  }
+}
+
+/**
+ * Dönem yeniden açılınca kapanışta yazılan taksit hareketlerini siler
+ */
+export async function revertLoanInstallments(tx: Prisma.TransactionClient, month: number, year: number): Promise<void> {
+  const installments = await tx.loanTransaction.findMany({
+    where: { kind: 'INSTALLMENT', month, year },
+    select: { id: true, loanId: true },
+  });
+  if (installments.length === 0) return;
+
+  const loanIds = new Set(installments.map((installment) => installment.loanId));
+  await tx.loanTransaction.deleteMany({ where: { id: { in: installments.map((installment) => installment.id) } } });
+  for (const loanId of loanIds) {
+    await syncLoanStatus(tx, loanId);
+  }
+}
@@ -10,7 +10,7 @@ import { AppError } from '../middleware/errorHandler';
 
 // Types
 export type ActionType = 'CREATE' | 'UPDATE' | 'DELETE';
-export type EntityType = 'EMPLOYEE' | 'PAYROLL' | 'TRAFFIC_FINE';
+export type EntityType = 'EMPLOYEE' | 'PAYROLL' | 'TRAFFIC_FINE' | 'WAGE_PARAMETER' | 'SALARY_HISTORY' | 'PAYROLL_PERIOD' | 'TAX_PARAMETER' | 'TERMINATION_SETTLEMENT' | 'ATTENDANCE' | 'PUBLIC_HOLIDAY' | 'LEAVE_REQUEST' | 'VEHICLE' | 'ATTACHMENT' | 'PAY_COMPONENT' | 'LOAN' | 'COMPANY_SETTINGS' | 'BANK_EXPORT';
 
 export interface FieldChange {
   field: string;
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateOvertimeCap } from './overtime.service';
+
+const THRESHOLDS = { overtimeWarningHours: 225, overtimeLimitHours: 270 };
+
+describe('evaluateOvertimeCap', () => {
+  it('is OK below the warning threshold', () => {
+    const status = evaluateOvertimeCap('e1', 2025, 100, THRESHOLDS);
+
+    expect(status).toEqual({
+      employeeId: 'e1',
+      year: 2025,
+      usedHours: 100,
+      warningHours: 225,
+      limitHours: 270,
+      remainingHours: 170,
+      level: 'OK',
+    });
+  });
+
+  it('warns from the warning threshold up to the limit', () => {
+    expect(evaluateOvertimeCap('e1', 2025, 225, THRESHOLDS).level).toBe('WARNING');
+    expect(evaluateOvertimeCap('e1', 2025, 269.5, THRESHOLDS).level).toBe('WARNING');
+  });
+
+  it('reaches the limit at the yearly cap', () => {
+    const status = evaluateOvertimeCap('e1', 2025, 270, THRESHOLDS);
+
+    expect(status.level).toBe('LIMIT');
+    expect(status.remainingHours).toBe(0);
+  });
+
+  it('never reports negative remaining hours once over the cap', () => {
+    const status = evaluateOvertimeCap('e1', 2025, 280, THRESHOLDS);
+
+    expect(status.level).toBe('LIMIT');
+    expect(status.remainingHours).toBe(0);
+  });
+
+  it('rounds hours to two decimals', () => {
+    const status = evaluateOvertimeCap('e1', 2025, 10.333333, THRESHOLDS);
+
+    expect(status.usedHours).toBe(10.33);
+    expect(status.remainingHours).toBe(259.67);
+  });
+});
@@ -1,6 +1,44 @@
 import { z } from 'zod';
+import { Prisma } from '@prisma/client';
 import prisma from '../utils/prisma';
 import { AppError } from '../middleware/errorHandler';
+import { getSalaryForPeriod } from './salaryHistory.service';
+import { assertPeriodOpen } from './payrollPeriod.service';
+import { recalculateTaxLedger } from './taxLedger.service';
+import { classifyOvertimeDate } from './publicHoliday.service';
+import { getWageParameterForPeriod } from './wageParameter.service';
+import { calculateDailyWage } from './calculation.service';
+import { roundCurrency } from './taxCalculation.service';
+
+export const OVERTIME_MULTIPLIERS = {
+  OVERTIME_50: 1.5,
+  OVERTIME_100: 2,
+} as const;
+
+export type OvertimeType = keyof typeof OVERTIME_MULTIPLIERS;
+
+export interface OvertimeRate {
+  dailyWage: number;
+  dailyWorkingHours: number;
+  hourlyRate: number;
+}
+
+export interface OvertimeCalculation extends OvertimeRate {
+  multiplier: number;
+  amount: number;
+}
+
+export type OvertimeCapLevel = 'OK' | 'WARNING' | 'LIMIT';
+
+export interface OvertimeCapStatus {
+  employeeId: string;
+  year: number;
+  usedHours: number;
+  warningHours: number;
+  limitHours: number;
+  remainingHours: number;
+  level: OvertimeCapLevel;
+}
 
 export const createOvertimeEntrySchema = z.object({
   employeeId: z.string().min(1, 'Çalışan zorunludur'),
@@ -10,13 +48,15 @@ export const createOvertimeEntrySchema = z.object({
   month: z.number().int().min(1).max(12),
   year: z.number().int().min(2000).max(2100),
   type: z.enum(['OVERTIME_50', 'OVERTIME_100']),
-  multiplier: z.number().positive('Çarpan pozitif olmalıdır'),
-  hours: z.number().positive('Saat 0\'dan büyük olmalıdır'),
-  amount: z.number().positive('Tutar 0\'dan büyük olmalıdır'),
+  // Çarpan ve tutar sunucuda hesaplanır; istemciden gelen değerler dikkate alınmaz
+  hours: z.number().positive('Saat 0\'dan büyük olmalıdır').max(24, 'Bir günde en fazla 24 saat girilebilir'),
   description: z.string().max(100, 'Açıklama en fazla 100 karakter olabilir').optional().nullable(),
 });
 
+export const updateOvertimeEntrySchema = createOvertimeEntrySchema.omit({ employeeId: true }).partial();
+
 export type CreateOvertimeEntryInput = z.infer<typeof createOvertimeEntrySchema>;
+export type UpdateOvertimeEntryInput = z.infer<typeof updateOvertimeEntrySchema>;
 
 export function validateCreateOvertimeEntryInput(
   input: unknown
@@ -33,6 +73,192 @@ export function validateCreateOvertimeEntryInput(
   return { success: false, errors };
 }
 
+/**
+ * Mesai tutarını hesaplar (saf fonksiyon)
+ *
+ * Saatlik ücret = dönem maaşı / çalışma gün sayısı / günlük çalışma saati
+ * Tutar = saatlik ücret * çarpan (%50: 1.5, %100: 2) * saat
+ */
+export function calculateOvertimeAmount(input: {
+  salary: number;
+  workingDays: number;
+  dailyWorkingHours: number;
+  type: OvertimeType;
+  hours: number;
+}): OvertimeCalculation {
+  if (input.dailyWorkingHours <= 0) {
+    throw new Error('Günlük çalışma saati pozitif olmalıdır');
+  }
+  const dailyWage = calculateDailyWage(input.salary, input.workingDays);
+  const hourlyRate = dailyWage / input.dailyWorkingHours;
+  const multiplier = OVERTIME_MULTIPLIERS[input.type];
+
+  return {
+    dailyWage: roundCurrency(dailyWage),
+    dailyWorkingHours: input.dailyWorkingHours,
+    hourlyRate: roundCurrency(hourlyRate),
+    multiplier,
+    amount: roundCurrency(hourlyRate * multiplier * input.hours),
+  };
+}
+
+/**
+ * Çalışanın dönemdeki mesai saat ücreti (maaş geçmişi ve ücret parametresine göre)
+ */
+export async function getOvertimeRate(employeeId: string, month: number, year: number): Promise<OvertimeRate> {
+  if (month < 1 || month > 12) {
+    throw new AppError(400, 'INVALID_MONTH', 'Ay 1-12 arasında olmalıdır');
+  }
+  if (year < 2000 || year > 2100) {
+    throw new AppError(400, 'INVALID_YEAR', 'Yıl 2000-2100 arasında olmalıdır');
+  }
+  const employee = await prisma.employee.findUnique({ where: { id: employeeId } });
+  if (!employee) {
+    throw new AppError(404, 'EMPLOYEE_NOT_FOUND', 'Çalışan bulunamadı');
+  }
+
+  const [periodSalary, wageParameter] = await Promise.all([
+    getSalaryForPeriod(employee, month, year),
+    getWageParameterForPeriod(month, year),
+  ]);
+  const { dailyWage, dailyWorkingHours, hourlyRate } = calculateOvertimeAmount({
+    salary: periodSalary.salary,
+    workingDays: periodSalary.workingDays,
+    dailyWorkingHours: wageParameter.dailyWorkingHours,
+    type: 'OVERTIME_50',
+    hours: 0,
+  });
+  return { dailyWage, dailyWorkingHours, hourlyRate };
+}
+
+export function validateUpdateOvertimeEntryInput(
+  input: unknown
+): { success: true; data: UpdateOvertimeEntryInput } | { success: false; errors: Record<string, string[]> } {
+  const result = updateOvertimeEntrySchema.safeParse(input);
+  if (result.success) return { success: true, data: result.data };
+
+  const errors: Record<string, string[]> = {};
+  for (const error of result.error.errors) {
+    const field = error.path.join('.');
+    if (!errors[field]) errors[field] = [];
+    errors[field].push(error.message);
+  }
+  return { success: false, errors };
+}
+
+/**
+ * Yıllık mesai saatinin eşiklere göre durumu (saf fonksiyon)
+ */
+export function evaluateOvertimeCap(
+  employeeId: string,
+  year: number,
+  usedHours: number,
+  thresholds: { overtimeWarningHours: number; overtimeLimitHours: number }
+): OvertimeCapStatus {
+  const remainingHours = Math.max(0, thresholds.overtimeLimitHours - usedHours);
+  let level: OvertimeCapLevel = 'OK';
+  if (usedHours >= thresholds.overtimeLimitHours) {
+    level = 'LIMIT';
+  } else if (usedHours >= thresholds.overtimeWarningHours) {
+    level = 'WARNING';
+  }
+
+  return {
+    employeeId,
+    year,
+    usedHours: Math.round(usedHours * 100) / 100,
+    warningHours: thresholds.overtimeWarningHours,
+    limitHours: thresholds.overtimeLimitHours,
+    remainingHours: Math.round(remainingHours * 100) / 100,
+    level,
+  };
+}
+
+async function getYearlyOvertimeHours(
+  tx: Prisma.TransactionClient,
+  employeeId: string,
+  year: number,
+  excludeEntryId?: string
+): Promise<number> {
+  const result = await tx.overtimeEntry.aggregate({
+    where: {
+      employeeId,
+      year,
+      ...(excludeEntryId ? { id: { not: excludeEntryId } } : {}),
+    },
+    _sum: { hours: true },
+  });
+  return result._sum.hours ?? 0;
+}
+
+/**
+ * Yıllık eşikler yılın tamamı için tek değerdir; yıl sonunda geçerli ücret parametresinden okunur
+ */
+function getOvertimeThresholdsForYear(year: number) {
+  return getWageParameterForPeriod(12, year);
+}
+
+/**
+ * Eklenecek saatlerle yıllık sınır aşılıyorsa kaydı engeller; uyarı eşiği aşılıyorsa durumu döner.
+ * Güncellemede kaydın aynı yıldaki önceki saati verilir; saat artmıyorsa sınır kontrol edilmez.
+ */
+async function assertWithinOvertimeCap(
+  tx: Prisma.TransactionClient,
+  employeeId: string,
+  year: number,
+  hours: number,
+  excludeEntryId?: string,
+  previousHours: number = 0
+): Promise<OvertimeCapStatus> {
+  const wageParameter = await getOvertimeThresholdsForYear(year);
+  // Eşzamanlı kayıtlar sınırı birlikte aşmasın diye çalışan satırı kilitlenir
+  await tx.$queryRaw`SELECT "id" FROM "Employee" WHERE "id" = ${employeeId} FOR UPDATE`;
+  const usedHours = await getYearlyOvertimeHours(tx, employeeId, year, excludeEntryId);
+  const before = evaluateOvertimeCap(employeeId, year, usedHours, wageParameter);
+  // Saati azaltan düzeltme, sınır zaten aşılmış olsa bile engellenmez
+  if (hours > previousHours && usedHours + hours > wageParameter.overtimeLimitHours) {
+    throw new AppError(
+      409,
+      'OVERTIME_LIMIT_EXCEEDED',
+      `${year} yılı mesai sınırı ${wageParameter.overtimeLimitHours} saattir; kalan ${before.remainingHours} saat`
+    );
+  }
+  return evaluateOvertimeCap(employeeId, year, usedHours + hours, wageParameter);
+}
+
+/**
+ * Çalışanların yıllık mesai saati durumları (eşikler seçilen dönemin parametresinden)
+ */
+export async function getOvertimeCapStatuses(
+  month: number,
+  year: number,
+  employeeId?: string
+): Promise<OvertimeCapStatus[]> {
+  if (month < 1 || month > 12) {
+    throw new AppError(400, 'INVALID_MONTH', 'Ay 1-12 arasında olmalıdır');
+  }
+  if (year < 2000 || year > 2100) {
+    throw new AppError(400, 'INVALID_YEAR', 'Yıl 2000-2100 arasında olmalıdır');
+  }
+
+  const [totals, wageParameter] = await Promise.all([
+    prisma.overtimeEntry.groupBy({
+      by: ['employeeId'],
+      where: { year, ...(employeeId ? { employeeId } : {}) },
+      _sum: { hours: true },
+    }),
+    getOvertimeThresholdsForYear(year),
+  ]);
+
+  const statuses = totals.map((total) =>
+    evaluateOvertimeCap(total.employeeId, year, total._sum.hours ?? 0, wageParameter)
+  );
+  if (employeeId && statuses.length === 0) {
+    statuses.push(evaluateOvertimeCap(employeeId, year, 0, wageParameter));
+  }
+  return statuses;
+}
+
 export async function listOvertimeEntries(month: number, year: number, employeeId?: string) {
   if (month < 1 || month > 12) {
     throw new AppError(400, 'INVALID_MONTH', 'Ay 1-12 arasında olmalıdır');
@@ -54,58 +280,116 @@ export async function listOvertimeEntries(month: number, year: number, employeeI
   });
 }
 
+// Resmi tatil ve hafta tatilinde çalışılan saatler %100 mesaidir
+async function assertOvertimeTypeAllowed(entryDate: string | Date, employeeId: string, type: OvertimeType) {
+  const classification = await classifyOvertimeDate(entryDate, employeeId);
+  if (classification.enforced && type !== 'OVERTIME_100') {
+    const dayLabel = classification.reason === 'WEEKLY_REST'
+      ? 'Hafta tatili'
+      : classification.holiday?.name ?? 'Resmi tatil';
+    throw new AppError(
+      400,
+      'OVERTIME_100_REQUIRED',
+      `${dayLabel} gününde çalışılan saatler %100 mesai olarak girilmelidir`
+    );
+  }
+}
+
+async function calculateForPeriod(
+  employee: { id: string; salary: number; workingDays: number },
+  month: number,
+  year: number,
+  type: OvertimeType,
+  hours: number
+) {
+  const [periodSalary, wageParameter] = await Promise.all([
+    getSalaryForPeriod(employee, month, year),
+    getWageParameterForPeriod(month, year),
+  ]);
+  const calculation = calculateOvertimeAmount({
+    salary: periodSalary.salary,
+    workingDays: periodSalary.workingDays,
+    dailyWorkingHours: wageParameter.dailyWorkingHours,
+    type,
+    hours,
+  });
+  return { periodSalary, calculation };
+}
+
+/**
+ * Puantajdaki ilgili mesai kovasına tutarı ekler (negatif tutar düşer); puantaj yoksa oluşturur
+ */
+function incrementPayrollOvertime(
+  tx: Prisma.TransactionClient,
+  employeeId: string,
+  month: number,
+  year: number,
+  type: OvertimeType,
+  amount: number,
+  workingDays: number
+) {
+  const field = type === 'OVERTIME_50' ? 'overtime50' : 'overtime100';
+  return tx.payrollEntry.upsert({
+    where: { employeeId_month_year: { employeeId, month, year } },
+    update: { [field]: { increment: amount } },
+    create: {
+      employeeId,
+      month,
+      year,
+      sortOrder: 0,
+      daysWorked: workingDays,
+      advance: 0,
+      officialAdvance: 0,
+      overtime50: type === 'OVERTIME_50' ? amount : 0,
+      overtime100: type === 'OVERTIME_100' ? amount : 0,
+      officialPayment: 0,
+      cashPayment: 0,
+    },
+  });
+}
+
 export async function createOvertimeEntry(input: CreateOvertimeEntryInput) {
   const employee = await prisma.employee.findUnique({ where: { id: input.employeeId } });
   if (!employee) {
     throw new AppError(404, 'EMPLOYEE_NOT_FOUND', 'Çalışan bulunamadı');
   }
+  await assertPeriodOpen(input.month, input.year);
 
-  const payrollUpdateData =
-    input.type === 'OVERTIME_50'
-      ? { overtime50: { increment: input.amount } }
-      : { overtime100: { increment: input.amount } };
+  await assertOvertimeTypeAllowed(input.entryDate, input.employeeId, input.type);
+
+  const { periodSalary, calculation } = await calculateForPeriod(employee, input.month, input.year, input.type, input.hours);
 
-  const [entry] = await prisma.$transaction([
-    prisma.overtimeEntry.create({
+  const { entry, cap } = await prisma.$transaction(async (tx) => {
+    const cap = await assertWithinOvertimeCap(tx, input.employeeId, input.year, input.hours);
+    const entry = await tx.overtimeEntry.create({
       data: {
         employeeId: input.employeeId,
         entryDate: new Date(input.entryDate),
         month: input.month,
         year: input.year,
         type: input.type,
-        multiplier: input.multiplier,
+        multiplier: calculation.multiplier,
         hours: input.hours,
-        amount: input.amount,
+        hourlyRate: calculation.hourlyRate,
+        amount: calculation.amount,
         description: input.description?.trim() || null,
       },
       include: { employee: true },
-    }),
-    prisma.payrollEntry.upsert({
-      where: {
-        employeeId_month_year: {
-          employeeId: input.employeeId,
-          month: input.month,
-          year: input.year,
-        },
-      },
-      update: payrollUpdateData,
-      create: {
-        employeeId: input.employeeId,
-        month: input.month,
-        year: input.year,
-        sortOrder: 0,
-        daysWorked: employee.workingDays,
-        advance: 0,
-        officialAdvance: 0,
-        overtime50: input.type === 'OVERTIME_50' ? input.amount : 0,
-        overtime100: input.type === 'OVERTIME_100' ? input.amount : 0,
-        officialPayment: 0,
-        cashPayment: 0,
-      },
-    }),
-  ]);
+    });
+    await incrementPayrollOvertime(
+      tx,
+      input.employeeId,
+      input.month,
+      input.year,
+      input.type,
+      calculation.amount,
+      periodSalary.workingDays
+    );
+    return { entry, cap };
+  });
 
-  return entry;
+  await recalculateTaxLedger(input.employeeId, input.year, input.month);
+  return { ...entry, calculation, cap };
 }
 
 export async function getOvertimeEntryById(id: string) {
@@ -119,8 +403,107 @@ export async function getOvertimeEntryById(id: string) {
   return entry;
 }
 
+/**
+ * Mesai kaydını günceller; puantajdaki %50 / %100 tutarlarına yalnızca fark işlenir.
+ * Tür veya dönem değişirse tutar eski kovadan düşülüp yenisine eklenir.
+ * Saat, tür veya dönem değişmediyse kayıtlı tutar korunur.
+ */
+export async function updateOvertimeEntry(id: string, input: UpdateOvertimeEntryInput) {
+  const existing = await getOvertimeEntryById(id);
+  const validatedData = updateOvertimeEntrySchema.parse(input);
+
+  const next = {
+    entryDate: validatedData.entryDate ? new Date(validatedData.entryDate) : existing.entryDate,
+    month: validatedData.month ?? existing.month,
+    year: validatedData.year ?? existing.year,
+    type: (validatedData.type ?? existing.type) as OvertimeType,
+    hours: validatedData.hours ?? existing.hours,
+    description: validatedData.description !== undefined
+      ? validatedData.description?.trim() || null
+      : existing.description,
+  };
+  const periodChanged = next.month !== existing.month || next.year !== existing.year;
+  const needsRecalculation = periodChanged || next.type !== existing.type || next.hours !== existing.hours;
+
+  await assertPeriodOpen(existing.month, existing.year);
+  if (periodChanged) {
+    await assertPeriodOpen(next.month, next.year);
+  }
+  await assertOvertimeTypeAllowed(next.entryDate, existing.employeeId, next.type);
+
+  let multiplier = existing.multiplier;
+  let hourlyRate = existing.hourlyRate;
+  let amount = existing.amount;
+  let workingDays = existing.employee.workingDays;
+  if (needsRecalculation) {
+    const { periodSalary, calculation } = await calculateForPeriod(
+      existing.employee,
+      next.month,
+      next.year,
+      next.type,
+      next.hours
+    );
+    multiplier = calculation.multiplier;
+    hourlyRate = calculation.hourlyRate;
+    amount = calculation.amount;
+    workingDays = periodSalary.workingDays;
+  }
+
+  const { entry, cap } = await prisma.$transaction(async (tx) => {
+    const cap = await assertWithinOvertimeCap(
+      tx,
+      existing.employeeId,
+      next.year,
+      next.hours,
+      id,
+      next.year === existing.year ? existing.hours : 0
+    );
+    const entry = await tx.overtimeEntry.update({
+      where: { id },
+      data: {
+        entryDate: next.entryDate,
+        month: next.month,
+        year: next.year,
+        type: next.type,
+        multiplier,
+        hours: next.hours,
+        hourlyRate,
+        amount,
+        description: next.description,
+      },
+      include: { employee: true },
+    });
+
+    if (!periodChanged && next.type === existing.type) {
+      const delta = roundCurrency(amount - existing.amount);
+      if (delta !== 0) {
+        await incrementPayrollOvertime(tx, existing.employeeId, next.month, next.year, next.type, delta, workingDays);
+      }
+    } else {
+      const oldField = existing.type === 'OVERTIME_50' ? 'overtime50' : 'overtime100';
+      await tx.payrollEntry.updateMany({
+        where: { employeeId: existing.employeeId, month: existing.month, year: existing.year },
+        data: { [oldField]: { decrement: existing.amount } },
+      });
+      await incrementPayrollOvertime(tx, existing.employeeId, next.month, next.year, next.type, amount, workingDays);
+    }
+    return { entry, cap };
+  });
+
+  // Vergi matrahı etkilenen en erken aydan itibaren yeniden hesaplanır
+  if (existing.year === next.year) {
+    await recalculateTaxLedger(existing.employeeId, next.year, Math.min(existing.month, next.month));
+  } else {
+    await recalculateTaxLedger(existing.employeeId, existing.year, existing.month);
+    await recalculateTaxLedger(existing.employeeId, next.year, next.month);
+  }
+  return { ...entry, cap };
+}
+
 export async function deleteOvertimeEntry(id: string) {
   const entry = await getOvertimeEntryById(id);
+  await assertPeriodOpen(entry.month, entry.year);
+
   const payrollUpdateData =
     entry.type === 'OVERTIME_50'
       ? { overtime50: { decrement: entry.amount } }
@@ -137,4 +520,6 @@ export async function deleteOvertimeEntry(id: string) {
       data: payrollUpdateData,
     }),
   ]);
+
+  await recalculateTaxLedger(entry.employeeId, entry.year, entry.month);
 }
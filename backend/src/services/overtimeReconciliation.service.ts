@@ -0,0 +1,241 @@
+import prisma from '../utils/prisma';
+import { AppError } from '../middleware/errorHandler';
+import { createAuditLog } from './log.service';
+import { PayrollPeriodStatus } from './payrollPeriod.service';
+import { getSalaryForPeriod } from './salaryHistory.service';
+import { recalculateTaxLedger } from './taxLedger.service';
+import { roundCurrency } from './taxCalculation.service';
+
+/**
+ * Overtime Reconciliation Service
+ *
+ * Puantajdaki %50 / %100 mesai tutarlarını mesai kayıtlarının toplamıyla karşılaştırır.
+ * Puantaj alanları artırım / azaltım ile tutulduğu ve puantaj ekranından elle de
+ * değiştirilebildiği için zamanla kayıtlardan sapabilir.
+ * Düzeltme modunda tutarlar kayıtlardan yeniden oluşturulur; kapalı dönemlere dokunulmaz.
+ */
+
+export interface OvertimeReconciliationFilter {
+  year?: number;
+  month?: number;
+  employeeId?: string;
+}
+
+export interface OvertimeMismatch {
+  employeeId: string;
+  employeeName: string;
+  month: number;
+  year: number;
+  payrollEntryId: string | null;
+  payrollOvertime50: number;
+  payrollOvertime100: number;
+  entryOvertime50: number;
+  entryOvertime100: number;
+  difference50: number;
+  difference100: number;
+  periodClosed: boolean;
+}
+
+export interface OvertimeReconciliationResult {
+  fixed: OvertimeMismatch[];
+  skipped: OvertimeMismatch[];
+}
+
+function periodKey(employeeId: string, month: number, year: number): string {
+  return `${employeeId}:${year}:${month}`;
+}
+
+function validateFilter(filter: OvertimeReconciliationFilter) {
+  if (filter.month !== undefined && (filter.month < 1 || filter.month > 12)) {
+    throw new AppError(400, 'INVALID_MONTH', 'Ay 1-12 arasında olmalıdır');
+  }
+  if (filter.year !== undefined && (filter.year < 2000 || filter.year > 2100)) {
+    throw new AppError(400, 'INVALID_YEAR', 'Yıl 2000-2100 arasında olmalıdır');
+  }
+  if (filter.month !== undefined && filter.year === undefined) {
+    throw new AppError(400, 'INVALID_PARAMS', 'Ay filtresi için yıl da belirtilmelidir');
+  }
+}
+
+/**
+ * Puantaj mesai tutarı kayıt toplamından farklı olan çalışan-ay satırlarını listeler
+ */
+export async function findOvertimeMismatches(filter: OvertimeReconciliationFilter = {}): Promise<OvertimeMismatch[]> {
+  validateFilter(filter);
+  const where = {
+    ...(filter.year !== undefined ? { year: filter.year } : {}),
+    ...(filter.month !== undefined ? { month: filter.month } : {}),
+    ...(filter.employeeId ? { employeeId: filter.employeeId } : {}),
+  };
+
+  const [totals, payrollEntries, closedPeriods] = await Promise.all([
+    prisma.overtimeEntry.groupBy({
+      by: ['employeeId', 'month', 'year', 'type'],
+      where,
+      _sum: { amount: true },
+    }),
+    prisma.payrollEntry.findMany({
+      where: {
+        ...where,
+        OR: [{ overtime50: { not: 0 } }, { overtime100: { not: 0 } }],
+      },
+      select: { id: true, employeeId: true, month: true, year: true, overtime50: true, overtime100: true },
+    }),
+    prisma.payrollPeriod.findMany({
+      where: {
+        status: PayrollPeriodStatus.CLOSED,
+        ...(filter.year !== undefined ? { year: filter.year } : {}),
+        ...(filter.month !== undefined ? { month: filter.month } : {}),
+      },
+      select: { month: true, year: true },
+    }),
+  ]);
+
+  const rows = new Map<string, Omit<OvertimeMismatch, 'employeeName' | 'difference50' | 'difference100' | 'periodClosed'>>();
+  const getRow = (employeeId: string, month: number, year: number) => {
+    const key = periodKey(employeeId, month, year);
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        employeeId,
+        month,
+        year,
+        payrollEntryId: null,
+        payrollOvertime50: 0,
+        payrollOvertime100: 0,
+        entryOvertime50: 0,
+        entryOvertime100: 0,
+      };
+      rows.set(key, row);
+    }
+    return row;
+  };
+
+  for (const total of totals) {
+    const row = getRow(total.employeeId, total.month, total.year);
+    if (total.type === 'OVERTIME_50') {
+      row.entryOvertime50 += total._sum.amount ?? 0;
+    } else {
+      row.entryOvertime100 += total._sum.amount ?? 0;
+    }
+  }
+
+  // Kaydı olup puantaj mesaisi sıfır olan satırların puantajı ayrıca okunur
+  const loadedKeys = new Set(payrollEntries.map((entry) => periodKey(entry.employeeId, entry.month, entry.year)));
+  const unloadedRows = Array.from(rows.entries())
+    .filter(([key]) => !loadedKeys.has(key))
+    .map(([, row]) => row);
+  const zeroOvertimeEntries = unloadedRows.length > 0
+    ? await prisma.payrollEntry.findMany({
+        where: {
+          OR: unloadedRows.map((row) => ({ employeeId: row.employeeId, month: row.month, year: row.year })),
+        },
+        select: { id: true, employeeId: true, month: true, year: true, overtime50: true, overtime100: true },
+      })
+    : [];
+
+  for (const entry of [...payrollEntries, ...zeroOvertimeEntries]) {
+    const row = getRow(entry.employeeId, entry.month, entry.year);
+    row.payrollEntryId = entry.id;
+    row.payrollOvertime50 = entry.overtime50;
+    row.payrollOvertime100 = entry.overtime100;
+  }
+
+  const closedKeys = new Set(closedPeriods.map((period) => `${period.year}:${period.month}`));
+  const mismatches = Array.from(rows.values())
+    .map((row) => ({
+      ...row,
+      entryOvertime50: roundCurrency(row.entryOvertime50),
+      entryOvertime100: roundCurrency(row.entryOvertime100),
+      difference50: roundCurrency(row.payrollOvertime50 - row.entryOvertime50),
+      difference100: roundCurrency(row.payrollOvertime100 - row.entryOvertime100),
+      periodClosed: closedKeys.has(`${row.year}:${row.month}`),
+    }))
+    .filter((row) => row.difference50 !== 0 || row.difference100 !== 0);
+
+  const employees = await prisma.employee.findMany({
+    where: { id: { in: Array.from(new Set(mismatches.map((row) => row.employeeId))) } },
+    select: { id: true, fullName: true },
+  });
+  const names = new Map(employees.map((employee) => [employee.id, employee.fullName]));
+
+  return mismatches
+    .map((row) => ({ ...row, employeeName: names.get(row.employeeId) ?? 'Unknown' }))
+    .sort((a, b) => a.year - b.year || a.month - b.month || a.employeeName.localeCompare(b.employeeName, 'tr-TR'));
+}
+
+/**
+ * Açık dönemlerdeki farklı puantaj mesai tutarlarını kayıtlardan yeniden oluşturur ve loglar
+ */
+export async function fixOvertimeMismatches(
+  filter: OvertimeReconciliationFilter,
+  actor: { userId: string; userName: string }
+): Promise<OvertimeReconciliationResult> {
+  const mismatches = await findOvertimeMismatches(filter);
+  const fixed: OvertimeMismatch[] = [];
+  const skipped: OvertimeMismatch[] = [];
+  const ledgerStarts = new Map<string, { employeeId: string; year: number; month: number }>();
+
+  for (const mismatch of mismatches) {
+    if (mismatch.periodClosed) {
+      skipped.push(mismatch);
+      continue;
+    }
+
+    let payrollEntryId = mismatch.payrollEntryId;
+    if (payrollEntryId) {
+      await prisma.payrollEntry.update({
+        where: { id: payrollEntryId },
+        data: { overtime50: mismatch.entryOvertime50, overtime100: mismatch.entryOvertime100 },
+      });
+    } else {
+      const employee = await prisma.employee.findUnique({ where: { id: mismatch.employeeId } });
+      if (!employee) {
+        skipped.push(mismatch);
+        continue;
+      }
+      const periodSalary = await getSalaryForPeriod(employee, mismatch.month, mismatch.year);
+      const created = await prisma.payrollEntry.create({
+        data: {
+          employeeId: mismatch.employeeId,
+          month: mismatch.month,
+          year: mismatch.year,
+          sortOrder: 0,
+          daysWorked: periodSalary.workingDays,
+          advance: 0,
+          officialAdvance: 0,
+          overtime50: mismatch.entryOvertime50,
+          overtime100: mismatch.entryOvertime100,
+          officialPayment: 0,
+          cashPayment: 0,
+        },
+      });
+      payrollEntryId = created.id;
+    }
+
+    await createAuditLog({
+      userId: actor.userId,
+      userName: actor.userName,
+      action: 'UPDATE',
+      entityType: 'PAYROLL',
+      entityId: payrollEntryId,
+      entityName: `${mismatch.employeeName} - ${mismatch.month}/${mismatch.year}`,
+      oldData: { overtime50: mismatch.payrollOvertime50, overtime100: mismatch.payrollOvertime100 },
+      newData: { overtime50: mismatch.entryOvertime50, overtime100: mismatch.entryOvertime100 },
+    });
+    fixed.push({ ...mismatch, payrollEntryId });
+
+    const ledgerKey = `${mismatch.employeeId}:${mismatch.year}`;
+    const start = ledgerStarts.get(ledgerKey);
+    if (!start || mismatch.month < start.month) {
+      ledgerStarts.set(ledgerKey, { employeeId: mismatch.employeeId, year: mismatch.year, month: mismatch.month });
+    }
+  }
+
+  // Vergi matrahı düzeltilen en erken aydan itibaren yeniden hesaplanır
+  for (const start of ledgerStarts.values()) {
+    await recalculateTaxLedger(start.employeeId, start.year, start.month);
+  }
+
+  return { fixed, skipped };
+}
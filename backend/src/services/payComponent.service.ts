@@ -0,0 +1,293 @@
+import { z } from 'zod';
+import prisma from '../utils/prisma';
+import { AppError } from '../middleware/errorHandler';
+import { assertPeriodOpen, PayrollPeriodStatus } from './payrollPeriod.service';
+import { recalculateTaxLedger } from './taxLedger.service';
+
+/**
+ * Pay Component Service
+ *
+ * Yönetici tanımlı ödeme / kesinti türleri (prim, ikramiye, yemek ve yol yardımı,
+ * hasar kesintisi vb.) ve puantaj satırlarına girilen kalemleri.
+ * Kalemler toplam alacağa ve resmi / elden dağılımına türün yönü ve tarafıyla katılır;
+ * resmi kazançların vergi ve SGK'ya tabi olup olmadığı türden gelir.
+ */
+
+export const PAY_COMPONENT_KINDS = ['EARNING', 'DEDUCTION'] as const;
+export const PAY_COMPONENT_CHANNELS = ['OFFICIAL', 'CASH'] as const;
+
+export type PayComponentKind = (typeof PAY_COMPONENT_KINDS)[number];
+export type PayComponentChannel = (typeof PAY_COMPONENT_CHANNELS)[number];
+
+export const createPayComponentTypeSchema = z.object({
+  name: z.string().trim().min(1, 'Tür adı zorunludur').max(60, 'Tür adı en fazla 60 karakter olabilir'),
+  kind: z.enum(PAY_COMPONENT_KINDS, {
+    errorMap: () => ({ message: 'Geçersiz tür yönü' }),
+  }),
+  channel: z.enum(PAY_COMPONENT_CHANNELS, {
+    errorMap: () => ({ message: 'Geçersiz ödeme tarafı' }),
+  }),
+  isTaxable: z.boolean().default(false),
+  isSgkLiable: z.boolean().default(false),
+  isActive: z.boolean().default(true),
+  sortOrder: z.number().int().min(0).default(0),
+});
+
+export const updatePayComponentTypeSchema = z.object({
+  name: z.string().trim().min(1, 'Tür adı zorunludur').max(60, 'Tür adı en fazla 60 karakter olabilir').optional(),
+  kind: z.enum(PAY_COMPONENT_KINDS, { errorMap: () => ({ message: 'Geçersiz tür yönü' }) }).optional(),
+  channel: z.enum(PAY_COMPONENT_CHANNELS, { errorMap: () => ({ message: 'Geçersiz ödeme tarafı' }) }).optional(),
+  isTaxable: z.boolean().optional(),
+  isSgkLiable: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+  sortOrder: z.number().int().min(0).optional(),
+});
+
+export type CreatePayComponentTypeInput = z.infer<typeof createPayComponentTypeSchema>;
+export type UpdatePayComponentTypeInput = z.infer<typeof updatePayComponentTypeSchema>;
+
+export const createLineItemSchema = z.object({
+  componentTypeId: z.string().min(1, 'Tür zorunludur'),
+  amount: z.number().positive('Tutar 0\'dan büyük olmalıdır'),
+  description: z.string().max(255, 'Açıklama çok uzun').optional().nullable(),
+});
+
+export const updateLineItemSchema = createLineItemSchema.partial();
+
+export type CreateLineItemInput = z.infer<typeof createLineItemSchema>;
+export type UpdateLineItemInput = z.infer<typeof updateLineItemSchema>;
+
+export function validatePayComponentTypeInput(
+  input: unknown,
+  isUpdate: boolean = false
+): { success: true; data: CreatePayComponentTypeInput | UpdatePayComponentTypeInput } | { success: false; errors: Record<string, string[]> } {
+  const schema = isUpdate ? updatePayComponentTypeSchema : createPayComponentTypeSchema;
+  const result = schema.safeParse(input);
+  if (result.success) return { success: true, data: result.data };
+  const errors: Record<string, string[]> = {};
+  for (const error of result.error.errors) {
+    const field = error.path.join('.');
+    if (!errors[field]) errors[field] = [];
+    errors[field].push(error.message);
+  }
+  return { success: false, errors };
+}
+
+export function validateLineItemInput(
+  input: unknown,
+  isUpdate: boolean = false
+): { success: true; data: CreateLineItemInput | UpdateLineItemInput } | { success: false; errors: Record<string, string[]> } {
+  const schema = isUpdate ? updateLineItemSchema : createLineItemSchema;
+  const result = schema.safeParse(input);
+  if (result.success) return { success: true, data: result.data };
+  const errors: Record<string, string[]> = {};
+  for (const error of result.error.errors) {
+    const field = error.path.join('.');
+    if (!errors[field]) errors[field] = [];
+    errors[field].push(error.message);
+  }
+  return { success: false, errors };
+}
+
+// Vergi ve SGK yalnızca resmi kazançlarda anlamlıdır; kesinti ve elden ödemede işaretler kapatılır
+function normalizeTaxFlags<T extends { kind?: string; channel?: string; isTaxable?: boolean; isSgkLiable?: boolean }>(
+  data: T,
+  current?: { kind: string; channel: string }
+): T {
+  const kind = data.kind ?? current?.kind;
+  const channel = data.channel ?? current?.channel;
+  if (kind === 'EARNING' && channel === 'OFFICIAL') return data;
+  return { ...data, isTaxable: false, isSgkLiable: false };
+}
+
+/**
+ * Kapalı dönemlerin vergi matrahı snapshot ile dondurulduğu için,
+ * kapalı dönemde kullanılmış türün hesaplama ayarları değiştirilemez
+ */
+async function assertNotUsedInClosedPeriod(componentTypeId: string): Promise<void> {
+  const closedPeriods = await prisma.payrollPeriod.findMany({
+    where: { status: PayrollPeriodStatus.CLOSED },
+    select: { month: true, year: true },
+  });
+  if (closedPeriods.length === 0) return;
+
+  const usedInClosed = await prisma.payrollLineItem.count({
+    where: {
+      componentTypeId,
+      payrollEntry: { OR: closedPeriods.map(({ month, year }) => ({ month, year })) },
+    },
+  });
+  if (usedInClosed > 0) {
+    throw new AppError(
+      409,
+      'PAY_COMPONENT_LOCKED',
+      'Kapalı dönemde kullanılan türün yönü, tarafı ve vergi ayarları değiştirilemez; yeni bir tür tanımlayın'
+    );
+  }
+}
+
+/**
+ * Türü kullanan çalışanların vergi matrahını en erken kullanıldığı aydan itibaren yeniden hesaplar
+ */
+async function recalculateLedgersForComponentType(componentTypeId: string): Promise<void> {
+  const items = await prisma.payrollLineItem.findMany({
+    where: { componentTypeId },
+    select: { payrollEntry: { select: { employeeId: true, month: true, year: true } } },
+  });
+
+  const starts = new Map<string, { employeeId: string; year: number; month: number }>();
+  for (const { payrollEntry } of items) {
+    const key = `${payrollEntry.employeeId}-${payrollEntry.year}`;
+    const current = starts.get(key);
+    if (!current || payrollEntry.month < current.month) starts.set(key, payrollEntry);
+  }
+  for (const { employeeId, year, month } of starts.values()) {
+    await recalculateTaxLedger(employeeId, year, month);
+  }
+}
+
+export async function listPayComponentTypes(includeInactive: boolean = true) {
+  return prisma.payComponentType.findMany({
+    where: includeInactive ? {} : { isActive: true },
+    orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+  });
+}
+
+export async function getPayComponentTypeById(id: string) {
+  const componentType = await prisma.payComponentType.findUnique({ where: { id } });
+  if (!componentType) {
+    throw new AppError(404, 'PAY_COMPONENT_NOT_FOUND', 'Ödeme / kesinti türü bulunamadı');
+  }
+  return componentType;
+}
+
+export async function createPayComponentType(input: CreatePayComponentTypeInput) {
+  const existing = await prisma.payComponentType.findUnique({ where: { name: input.name } });
+  if (existing) {
+    throw new AppError(409, 'PAY_COMPONENT_EXISTS', 'Bu adla tanımlı bir tür zaten var');
+  }
+
+  return prisma.payComponentType.create({ data: normalizeTaxFlags(input) });
+}
+
+export async function updatePayComponentType(id: string, input: UpdatePayComponentTypeInput) {
+  const current = await getPayComponentTypeById(id);
+
+  if (input.name && input.name !== current.name) {
+    const existing = await prisma.payComponentType.findUnique({ where: { name: input.name } });
+    if (existing) {
+      throw new AppError(409, 'PAY_COMPONENT_EXISTS', 'Bu adla tanımlı bir tür zaten var');
+    }
+  }
+
+  const data = normalizeTaxFlags(input, current);
+  const affectsCalculation =
+    (data.kind !== undefined && data.kind !== current.kind) ||
+    (data.channel !== undefined && data.channel !== current.channel) ||
+    (data.isTaxable !== undefined && data.isTaxable !== current.isTaxable) ||
+    (data.isSgkLiable !== undefined && data.isSgkLiable !== current.isSgkLiable);
+
+  if (affectsCalculation) {
+    await assertNotUsedInClosedPeriod(id);
+  }
+
+  const updated = await prisma.payComponentType.update({ where: { id }, data });
+  if (affectsCalculation) {
+    await recalculateLedgersForComponentType(id);
+  }
+  return updated;
+}
+
+export async function deletePayComponentType(id: string): Promise<void> {
+  await getPayComponentTypeById(id);
+
+  const usage = await prisma.payrollLineItem.count({ where: { componentTypeId: id } });
+  if (usage > 0) {
+    throw new AppError(
+      409,
+      'PAY_COMPONENT_IN_USE',
+      'Puantajda kullanılan tür silinemez; pasif hale getirin'
+    );
+  }
+
+  await prisma.payComponentType.delete({ where: { id } });
+}
+
+const lineItemInclude = {
+  componentType: true,
+  payrollEntry: {
+    select: { id: true, employeeId: true, month: true, year: true, employee: { select: { fullName: true } } },
+  },
+} as const;
+
+async function getEditablePayrollEntry(payrollEntryId: string) {
+  const entry = await prisma.payrollEntry.findUnique({ where: { id: payrollEntryId } });
+  if (!entry) {
+    throw new AppError(404, 'PAYROLL_NOT_FOUND', 'Puantaj kaydı bulunamadı');
+  }
+  await assertPeriodOpen(entry.month, entry.year);
+  return entry;
+}
+
+async function assertComponentTypeUsable(componentTypeId: string): Promise<void> {
+  const componentType = await getPayComponentTypeById(componentTypeId);
+  if (!componentType.isActive) {
+    throw new AppError(400, 'PAY_COMPONENT_INACTIVE', 'Pasif türe yeni kalem girilemez');
+  }
+}
+
+export async function getLineItemById(payrollEntryId: string, id: string) {
+  const item = await prisma.payrollLineItem.findUnique({ where: { id }, include: lineItemInclude });
+  if (!item || item.payrollEntryId !== payrollEntryId) {
+    throw new AppError(404, 'LINE_ITEM_NOT_FOUND', 'Ödeme / kesinti kalemi bulunamadı');
+  }
+  return item;
+}
+
+export async function createLineItem(payrollEntryId: string, input: CreateLineItemInput, createdBy: string) {
+  const entry = await getEditablePayrollEntry(payrollEntryId);
+  await assertComponentTypeUsable(input.componentTypeId);
+
+  const item = await prisma.payrollLineItem.create({
+    data: {
+      payrollEntryId,
+      componentTypeId: input.componentTypeId,
+      amount: input.amount,
+      description: input.description ?? null,
+      createdBy,
+    },
+    include: lineItemInclude,
+  });
+
+  await recalculateTaxLedger(entry.employeeId, entry.year, entry.month);
+  return item;
+}
+
+export async function updateLineItem(payrollEntryId: string, id: string, input: UpdateLineItemInput) {
+  const entry = await getEditablePayrollEntry(payrollEntryId);
+  const current = await getLineItemById(payrollEntryId, id);
+  if (input.componentTypeId && input.componentTypeId !== current.componentTypeId) {
+    await assertComponentTypeUsable(input.componentTypeId);
+  }
+
+  const item = await prisma.payrollLineItem.update({
+    where: { id },
+    data: {
+      ...(input.componentTypeId !== undefined ? { componentTypeId: input.componentTypeId } : {}),
+      ...(input.amount !== undefined ? { amount: input.amount } : {}),
+      ...(input.description !== undefined ? { description: input.description } : {}),
+    },
+    include: lineItemInclude,
+  });
+
+  await recalculateTaxLedger(entry.employeeId, entry.year, entry.month);
+  return item;
+}
+
+export async function deleteLineItem(payrollEntryId: string, id: string): Promise<void> {
+  const entry = await getEditablePayrollEntry(payrollEntryId);
+  await getLineItemById(payrollEntryId, id);
+
+  await prisma.payrollLineItem.delete({ where: { id } });
+  await recalculateTaxLedger(entry.employeeId, entry.year, entry.month);
+}
@@ -1,7 +1,51 @@
 import { z } from 'zod';
 import prisma from '../utils/prisma';
+import { Prisma } from '@prisma/client';
 import { AppError } from '../middleware/errorHandler';
-import { calculatePayroll, CalculationResult } from './calculation.service';
+import {
+  calculatePayroll,
+  CalculationResult,
+  EMPTY_PAY_COMPONENT_TOTALS,
+  PayComponentTotals,
+  summarizePayComponents,
+} from './calculation.service';
+import {
+  getOfficialDailyBase,
+  getWageParameterForPeriod,
+  WageParameterValues,
+} from './wageParameter.service';
+import { getTaxParameterForYear } from './taxParameter.service';
+import { calculateGrossToNet, roundCurrency, TaxBreakdown, TaxParameterValues } from './taxCalculation.service';
+import { applyPeriodSalary, getSalariesForPeriod, getSalaryForPeriod } from './salaryHistory.service';
+import {
+  assertPeriodOpen,
+  closePeriod,
+  getPeriodSnapshot,
+  PayrollPeriodResponse,
+  reopenPeriod,
+} from './payrollPeriod.service';
+import { getPreviousCumulativeTaxBases, recalculateTaxLedger, recalculateTaxLedgers } from './taxLedger.service';
+import {
+  assertFineCarryOverTargetOpen,
+  assertFineDeductionsRevertible,
+  getFineDeductionTotals,
+  revertFineDeductionPayments,
+  settleFineDeductions,
+} from './trafficFine.service';
+import {
+  assertLoanInstallmentsRevertible,
+  getLoanInstallmentDues,
+  revertLoanInstallments,
+  settleLoanInstallments,
+} from './loan.service';
+import {
+  assertCarryOverRevertible,
+  assertCarryOverTargetOpen,
+  carryOverAdvances,
+  recalculateAdvanceTaxLedgers,
+  revertAdvanceCarryOver,
+} from './advance.service';
+import { removeStoredFiles } from './attachment.service';
 
 /**
  * Payroll Service
@@ -10,11 +54,25 @@ import { calculatePayroll, CalculationResult } from './calculation.service';
  * Requirements: 4.1-4.6
  */
 
+// Avanslar avans defterinden toplanır; puantaj üzerinden girilemez
+const ledgerManagedAdvance = z
+  .undefined({ invalid_type_error: 'Avanslar avans kayıtlarından girilir' })
+  .optional();
+
+// Kapanış / yeniden açma tüm çalışanların mahsuplaşmasını tek transaction'da yapar
+const PERIOD_TRANSITION_TIMEOUT_MS = 60000;
+
+// Puantaj satırı ödeme / kesinti kalemleriyle birlikte okunur
+const payrollEntryInclude = {
+  employee: true,
+  lineItems: { include: { componentType: true }, orderBy: { createdAt: 'asc' } },
+} as const;
+
 // Zod validation schemas
 export const updatePayrollSchema = z.object({
   daysWorked: z.number().int().min(0, 'Çalıştığı gün sayısı negatif olamaz').max(31, 'Çalıştığı gün 0-31 arasında olmalıdır').optional(),
-  advance: z.number().min(0, 'Avans negatif olamaz').optional(),
-  officialAdvance: z.number().min(0, 'Resmi avans negatif olamaz').optional(),
+  advance: ledgerManagedAdvance,
+  officialAdvance: ledgerManagedAdvance,
   overtime50: z.number().min(0, '%50 mesai ücreti negatif olamaz').optional(),
   overtime100: z.number().min(0, '%100 mesai ücreti negatif olamaz').optional(),
   officialPayment: z.number().min(0, 'Resmi ödeme negatif olamaz').optional(),
@@ -28,8 +86,8 @@ export const batchUpdateSchema = z.array(
     month: z.number().int().min(1).max(12),
     year: z.number().int().min(2000).max(2100),
     daysWorked: z.number().int().min(0).max(31).optional(),
-    advance: z.number().min(0).optional(),
-    officialAdvance: z.number().min(0).optional(),
+    advance: ledgerManagedAdvance,
+    officialAdvance: ledgerManagedAdvance,
     overtime50: z.number().min(0).optional(),
     overtime100: z.number().min(0).optional(),
     officialPayment: z.number().min(0).optional(),
@@ -41,9 +99,6 @@ export const batchUpdateSchema = z.array(
 export type UpdatePayrollInput = z.infer<typeof updatePayrollSchema>;
 export type BatchUpdateInput = z.infer<typeof batchUpdateSchema>;
 
-const FIXED_OFFICIAL_PAYMENT = 28075;
-const OFFICIAL_WORKING_DAYS_BASE = 30;
-
 // Payroll response type with calculated fields
 export interface PayrollEntryResponse {
   id: string;
@@ -58,10 +113,25 @@ export interface PayrollEntryResponse {
   overtime100: number;
   officialPayment: number;
   cashPayment: number;
+  // Trafik cezası: planlanan ve ödemeyle sınırlanmış kesilen tutar (önce elden, yetmezse resmi ödemeden düşülür)
+  fineDeductionDue: number;
+  fineDeduction: number;
+  // Borç taksiti: planlanan ve diğer kesintilerden sonra kalan ödemeyle sınırlanmış kesilen tutar
+  loanInstallmentDue: number;
+  loanDeduction: number;
+  // Hakedişi aşan avans; dönem kapanınca sonraki döneme devreder
+  cashAdvanceCarryOver: number;
+  officialAdvanceCarryOver: number;
+  // Ödeme / kesinti kalemleri
+  lineItems: PayrollLineItemResponse[];
   // Calculated fields
   dailyWage: number;
   earnedSalary: number;
   totalReceivable: number;
+  // Resmi günlük baz (dönemin ücret parametresinden)
+  officialDailyBase: number;
+  // Brütten nete döküm (sigortasız çalışan veya yılın vergi parametresi yoksa null)
+  taxBreakdown: TaxBreakdown | null;
   // Employee info
   employee: {
     id: string;
@@ -78,6 +148,16 @@ export interface PayrollEntryResponse {
 }
 
 
+export interface PayrollLineItemResponse {
+  id: string;
+  componentTypeId: string;
+  name: string;
+  kind: string;
+  channel: string;
+  amount: number;
+  description: string | null;
+}
+
 /**
  * Calculate payroll fields for an entry
  */
@@ -92,7 +172,10 @@ function calculatePayrollFields(
     overtime100: number;
     officialPayment: number;
     cashPayment: number;
-  }
+  },
+  components: PayComponentTotals,
+  fineDeduction: number = 0,
+  loanDeduction: number = 0
 ): CalculationResult {
   return calculatePayroll({
     salary,
@@ -104,43 +187,167 @@ function calculatePayrollFields(
     overtime100: entry.overtime100,
     officialPayment: entry.officialPayment,
     cashPayment: entry.cashPayment,
+    earnings: components.officialEarnings + components.cashEarnings,
+    deductions: fineDeduction + loanDeduction + components.officialDeductions + components.cashDeductions,
   });
 }
 
-function calculateOfficialAndCash(
+/**
+ * Resmi ve elden ödeme bazları (avans ve kesintilerden önce)
+ */
+function calculatePayBases(
   isInsured: boolean,
   salary: number,
   workingDays: number,
   daysWorked: number,
   overtime50: number,
   overtime100: number,
-  cashAdvance: number,
-  officialAdvance: number
-): { officialPayment: number; cashPayment: number } {
+  wageParameter: WageParameterValues,
+  components: PayComponentTotals = EMPTY_PAY_COMPONENT_TOTALS
+): { officialBase: number; cashBase: number } {
   const dailyWage = salary / workingDays;
-  const earnedSalary = dailyWage * daysWorked;
-  const safeEarned = Math.max(0, earnedSalary);
-  const safeOvertime50 = Math.max(0, overtime50);
-  const safeOvertime100 = Math.max(0, overtime100);
-  const safeCashAdvance = Math.max(0, cashAdvance);
-  const safeOfficialAdvance = Math.max(0, officialAdvance);
+  const safeEarned = Math.max(0, dailyWage * daysWorked);
+  const overtime = Math.max(0, overtime50) + Math.max(0, overtime100);
 
   if (!isInsured) {
-    const cashBase = safeEarned + safeOvertime50 + safeOvertime100;
-    const cashPayment = Math.max(0, cashBase - Math.min(cashBase, safeCashAdvance));
-    return { officialPayment: 0, cashPayment };
+    return { officialBase: 0, cashBase: safeEarned + overtime + components.cashEarnings };
   }
 
-  // Resmi baz: 28.075 TL, 30 güne bölünüp çalışılan gün kadar uygulanır
-  const officialDaily = FIXED_OFFICIAL_PAYMENT / OFFICIAL_WORKING_DAYS_BASE;
+  // Resmi baz: dönemin resmi ödemesi, resmi gün sayısına bölünüp çalışılan gün kadar uygulanır
+  const officialDaily = getOfficialDailyBase(wageParameter);
   const officialBase = Math.min(safeEarned, Math.max(0, officialDaily * daysWorked));
-  const cashBase = Math.max(0, safeEarned - officialBase) + safeOvertime50 + safeOvertime100;
+  return {
+    officialBase: officialBase + components.officialEarnings,
+    cashBase: Math.max(0, safeEarned - officialBase) + overtime + components.cashEarnings,
+  };
+}
+
+/**
+ * Avansın ilgili bazı aşan kısmı; sigortasız çalışanda resmi avansın tamamı devreder
+ */
+function calculateAdvanceCarryOver(
+  bases: { officialBase: number; cashBase: number },
+  isInsured: boolean,
+  cashAdvance: number,
+  officialAdvance: number
+): { cash: number; official: number } {
+  const safeCashAdvance = Math.max(0, cashAdvance);
+  const safeOfficialAdvance = Math.max(0, officialAdvance);
+  return {
+    cash: roundCurrency(Math.max(0, safeCashAdvance - bases.cashBase)),
+    official: roundCurrency(isInsured ? Math.max(0, safeOfficialAdvance - bases.officialBase) : safeOfficialAdvance),
+  };
+}
+
+function calculateOfficialAndCash(
+  isInsured: boolean,
+  salary: number,
+  workingDays: number,
+  daysWorked: number,
+  overtime50: number,
+  overtime100: number,
+  cashAdvance: number,
+  officialAdvance: number,
+  wageParameter: WageParameterValues,
+  components: PayComponentTotals
+): { officialPayment: number; cashPayment: number } {
+  const { officialBase, cashBase } = calculatePayBases(
+    isInsured,
+    salary,
+    workingDays,
+    daysWorked,
+    overtime50,
+    overtime100,
+    wageParameter,
+    components
+  );
+  const safeCashAdvance = Math.max(0, cashAdvance);
+  const safeOfficialAdvance = Math.max(0, officialAdvance);
 
   const officialPayment = Math.max(0, officialBase - Math.min(officialBase, safeOfficialAdvance));
   const cashPayment = Math.max(0, cashBase - Math.min(cashBase, safeCashAdvance));
+  return applyComponentDeductions({ officialPayment, cashPayment }, components);
+}
+
+/**
+ * Kesinti kalemlerini kendi tarafından, yetmezse diğer taraftan düşer
+ */
+function applyComponentDeductions(
+  split: { officialPayment: number; cashPayment: number },
+  components: PayComponentTotals
+): { officialPayment: number; cashPayment: number } {
+  let { officialPayment, cashPayment } = split;
+
+  const officialFromOfficial = Math.min(officialPayment, components.officialDeductions);
+  officialPayment -= officialFromOfficial;
+  cashPayment -= Math.min(cashPayment, components.officialDeductions - officialFromOfficial);
+
+  const cashFromCash = Math.min(cashPayment, components.cashDeductions);
+  cashPayment -= cashFromCash;
+  officialPayment -= Math.min(officialPayment, components.cashDeductions - cashFromCash);
+
   return { officialPayment, cashPayment };
 }
 
+/**
+ * Ceza ve borç taksiti kesintisini önce elden ödemeden, yetmezse resmi ödemeden düşer
+ */
+function applyCashFirstDeduction(
+  split: { officialPayment: number; cashPayment: number },
+  amount: number
+): { officialPayment: number; cashPayment: number } {
+  const deduction = Math.max(0, amount);
+  if (deduction === 0) return split;
+
+  const fromCash = Math.min(split.cashPayment, deduction);
+  const fromOfficial = Math.min(split.officialPayment, deduction - fromCash);
+  return {
+    officialPayment: split.officialPayment - fromOfficial,
+    cashPayment: split.cashPayment - fromCash,
+  };
+}
+
+/**
+ * Calculate gross-to-net breakdown for insured employees
+ */
+function calculateTaxBreakdown(
+  entry: {
+    month: number;
+    daysWorked: number;
+    advance: number;
+    officialAdvance: number;
+    overtime50: number;
+    overtime100: number;
+    officialPayment: number;
+    cashPayment: number;
+    employee: { isInsured: boolean; salary: number; workingDays: number };
+  },
+  components: PayComponentTotals,
+  taxParameter: TaxParameterValues | null,
+  previousCumulativeTaxBase: number
+): TaxBreakdown | null {
+  if (!taxParameter || !entry.employee.isInsured) {
+    return null;
+  }
+
+  return calculateGrossToNet(
+    {
+      salary: entry.employee.salary,
+      workingDays: entry.employee.workingDays,
+      daysWorked: entry.daysWorked,
+      advance: entry.advance + entry.officialAdvance,
+      overtime50: Math.max(0, entry.overtime50),
+      overtime100: Math.max(0, entry.overtime100),
+      officialPayment: entry.officialPayment,
+      cashPayment: entry.cashPayment,
+      month: entry.month,
+      previousCumulativeTaxBase,
+      payComponents: components,
+    },
+    taxParameter
+  );
+}
+
 /**
  * Transform database entry to response with calculated fields
  */
@@ -170,9 +377,16 @@ function transformToResponse(
       salary: number;
       workingDays: number;
     };
-  }
+    lineItems: Prisma.PayrollLineItemGetPayload<{ include: { componentType: true } }>[];
+  },
+  wageParameter: WageParameterValues,
+  taxParameter: TaxParameterValues | null,
+  previousCumulativeTaxBase: number = 0,
+  fineDeductionDue: number = 0,
+  loanInstallmentDue: number = 0
 ): PayrollEntryResponse {
-  const split = calculateOfficialAndCash(
+  const components = summarizePayComponents(entry.lineItems, entry.employee.isInsured);
+  const beforeFine = calculateOfficialAndCash(
     entry.employee.isInsured,
     entry.employee.salary,
     entry.employee.workingDays,
@@ -180,13 +394,49 @@ function transformToResponse(
     entry.overtime50,
     entry.overtime100,
     entry.advance,
+    entry.officialAdvance,
+    wageParameter,
+    components
+  );
+  // Karşılanamayan ceza kesintisi cezanın bakiyesinde kalır, kapanışta sonraki döneme eklenir
+  const fineDeduction = roundCurrency(
+    Math.min(Math.max(0, fineDeductionDue), beforeFine.officialPayment + beforeFine.cashPayment)
+  );
+  const afterFine = applyCashFirstDeduction(beforeFine, fineDeduction);
+  // Karşılanamayan taksit bakiyede kalır, sonraki aylarda kesilir
+  const loanDeduction = roundCurrency(
+    Math.min(Math.max(0, loanInstallmentDue), afterFine.officialPayment + afterFine.cashPayment)
+  );
+  const split = applyCashFirstDeduction(afterFine, loanDeduction);
+
+  const carryOver = calculateAdvanceCarryOver(
+    calculatePayBases(
+      entry.employee.isInsured,
+      entry.employee.salary,
+      entry.employee.workingDays,
+      entry.daysWorked,
+      entry.overtime50,
+      entry.overtime100,
+      wageParameter,
+      components
+    ),
+    entry.employee.isInsured,
+    entry.advance,
     entry.officialAdvance
   );
 
+  // Devreden kısım bu dönemin alacağından düşülmez; sonraki dönemde avans olarak düşülür
   const calculations = calculatePayrollFields(
     entry.employee.salary,
     entry.employee.workingDays,
-    entry
+    {
+      ...entry,
+      advance: entry.advance - carryOver.cash,
+      officialAdvance: entry.officialAdvance - carryOver.official,
+    },
+    components,
+    fineDeduction,
+    loanDeduction
   );
 
   return {
@@ -202,19 +452,51 @@ function transformToResponse(
     overtime100: entry.overtime100,
     officialPayment: split.officialPayment,
     cashPayment: split.cashPayment,
+    fineDeductionDue: roundCurrency(Math.max(0, fineDeductionDue)),
+    fineDeduction,
+    loanInstallmentDue: roundCurrency(Math.max(0, loanInstallmentDue)),
+    loanDeduction,
+    cashAdvanceCarryOver: carryOver.cash,
+    officialAdvanceCarryOver: carryOver.official,
+    lineItems: entry.lineItems.map((item) => ({
+      id: item.id,
+      componentTypeId: item.componentTypeId,
+      name: item.componentType.name,
+      kind: item.componentType.kind,
+      channel: item.componentType.channel,
+      amount: item.amount,
+      description: item.description,
+    })),
     dailyWage: calculations.dailyWage,
     earnedSalary: calculations.earnedSalary,
     totalReceivable: calculations.totalReceivable,
+    officialDailyBase: getOfficialDailyBase(wageParameter),
+    taxBreakdown: calculateTaxBreakdown(entry, components, taxParameter, previousCumulativeTaxBase),
     employee: entry.employee,
     createdAt: entry.createdAt,
     updatedAt: entry.updatedAt,
   };
 }
 
+/**
+ * Ceza, avans devri, kalem ve borç alanlarından önce kapanmış dönemlerin snapshot satırları boş değerlerle tamamlanır
+ */
+export function withSnapshotDefaults(entry: PayrollEntryResponse): PayrollEntryResponse {
+  return {
+    ...entry,
+    fineDeductionDue: entry.fineDeductionDue ?? entry.fineDeduction ?? 0,
+    fineDeduction: entry.fineDeduction ?? 0,
+    cashAdvanceCarryOver: entry.cashAdvanceCarryOver ?? 0,
+    officialAdvanceCarryOver: entry.officialAdvanceCarryOver ?? 0,
+    lineItems: entry.lineItems ?? [],
+    loanInstallmentDue: entry.loanInstallmentDue ?? 0,
+    loanDeduction: entry.loanDeduction ?? 0,
+  };
+}
+
 /**
  * Get payroll entries by month and year
- * Creates entries for employees that don't have one for the specified period
- * Filters out employees who left before the selected month
+ * Closed periods are served from their snapshot; open periods are calculated live
  * 
  * Requirements: 4.1-4.6
  */
@@ -230,6 +512,26 @@ export async function getPayrollByMonth(
     throw new AppError(400, 'INVALID_YEAR', 'Yıl 2000-2100 arasında olmalıdır');
   }
 
+  const snapshot = await getPeriodSnapshot<PayrollEntryResponse>(month, year);
+  if (snapshot) {
+    return snapshot.map(withSnapshotDefaults);
+  }
+
+  return buildPayrollByMonth(month, year);
+}
+
+/**
+ * Calculate payroll entries of a period from live data
+ * Creates entries for employees that don't have one for the specified period
+ * Filters out employees who left before the selected month
+ */
+async function buildPayrollByMonth(
+  month: number,
+  year: number
+): Promise<PayrollEntryResponse[]> {
+  const wageParameter = await getWageParameterForPeriod(month, year);
+  const taxParameter = await getTaxParameterForYear(year);
+
   // Get all employees
   const allEmployees = await prisma.employee.findMany({
     orderBy: { fullName: 'asc' },
@@ -251,12 +553,13 @@ export async function getPayrollByMonth(
     return false; // Employee left before this month
   });
 
+  // Salary valid in this period (from salary history)
+  const salaries = await getSalariesForPeriod(employees.map((emp) => emp.id), month, year);
+
   // Get existing payroll entries for this month/year
   const existingEntries = await prisma.payrollEntry.findMany({
     where: { month, year },
-    include: {
-      employee: true,
-    },
+    include: payrollEntryInclude,
   });
 
   // Create a map of existing entries by employeeId
@@ -272,7 +575,7 @@ export async function getPayrollByMonth(
       month,
       year,
       sortOrder: 0,
-      daysWorked: emp.workingDays,
+      daysWorked: salaries.get(emp.id)?.workingDays ?? emp.workingDays,
       advance: 0,
       officialAdvance: 0,
       overtime50: 0,
@@ -285,6 +588,8 @@ export async function getPayrollByMonth(
     await prisma.payrollEntry.createMany({
       data: entriesToCreate,
     });
+    // Yeni kayıtlar kümülatif vergi matrahına tek geçişte dahil edilir
+    await recalculateTaxLedgers(entriesToCreate.map((created) => created.employeeId), year, month);
   }
 
   // Get active employee IDs for filtering
@@ -293,9 +598,7 @@ export async function getPayrollByMonth(
   // Fetch all entries again with employee data
   const allEntries = await prisma.payrollEntry.findMany({
     where: { month, year },
-    include: {
-      employee: true,
-    },
+    include: payrollEntryInclude,
     orderBy: [
       { sortOrder: 'asc' },
       { employee: { fullName: 'asc' } },
@@ -307,7 +610,21 @@ export async function getPayrollByMonth(
     activeEmployeeIds.has(entry.employeeId)
   );
 
-  return filteredEntries.map(transformToResponse);
+  const filteredEmployeeIds = filteredEntries.map((entry) => entry.employeeId);
+  const cumulativeTaxBases = await getPreviousCumulativeTaxBases(filteredEmployeeIds, month, year);
+  const fineDeductions = await getFineDeductionTotals(filteredEmployeeIds, month, year);
+  const loanDues = await getLoanInstallmentDues(filteredEmployeeIds, month, year);
+
+  return filteredEntries.map((entry) =>
+    transformToResponse(
+      { ...entry, employee: applyPeriodSalary(entry.employee, salaries.get(entry.employeeId)) },
+      wageParameter,
+      taxParameter,
+      cumulativeTaxBases.get(entry.employeeId),
+      fineDeductions.get(entry.employeeId),
+      loanDues.get(entry.employeeId)
+    )
+  );
 }
 
 
@@ -317,16 +634,33 @@ export async function getPayrollByMonth(
 export async function getPayrollById(id: string): Promise<PayrollEntryResponse> {
   const entry = await prisma.payrollEntry.findUnique({
     where: { id },
-    include: {
-      employee: true,
-    },
+    include: payrollEntryInclude,
   });
 
   if (!entry) {
     throw new AppError(404, 'PAYROLL_NOT_FOUND', 'Puantaj kaydı bulunamadı');
   }
 
-  return transformToResponse(entry);
+  const snapshot = await getPeriodSnapshot<PayrollEntryResponse>(entry.month, entry.year);
+  const frozen = snapshot?.find((item) => item.id === entry.id);
+  if (frozen) {
+    return withSnapshotDefaults(frozen);
+  }
+
+  const wageParameter = await getWageParameterForPeriod(entry.month, entry.year);
+  const taxParameter = await getTaxParameterForYear(entry.year);
+  const salary = await getSalaryForPeriod(entry.employee, entry.month, entry.year);
+  const cumulativeTaxBases = await getPreviousCumulativeTaxBases([entry.employeeId], entry.month, entry.year);
+  const fineDeductions = await getFineDeductionTotals([entry.employeeId], entry.month, entry.year);
+  const loanDues = await getLoanInstallmentDues([entry.employeeId], entry.month, entry.year);
+  return transformToResponse(
+    { ...entry, employee: applyPeriodSalary(entry.employee, salary) },
+    wageParameter,
+    taxParameter,
+    cumulativeTaxBases.get(entry.employeeId),
+    fineDeductions.get(entry.employeeId),
+    loanDues.get(entry.employeeId)
+  );
 }
 
 /**
@@ -341,28 +675,74 @@ export async function updatePayroll(
   // Check if entry exists
   const existingEntry = await prisma.payrollEntry.findUnique({
     where: { id },
-    include: { employee: true },
+    include: payrollEntryInclude,
   });
 
   if (!existingEntry) {
     throw new AppError(404, 'PAYROLL_NOT_FOUND', 'Puantaj kaydı bulunamadı');
   }
 
+  await assertPeriodOpen(existingEntry.month, existingEntry.year);
+
   // Validate input
   const validatedData = updatePayrollSchema.parse(input);
 
+  if (validatedData.daysWorked !== undefined && validatedData.daysWorked !== existingEntry.daysWorked) {
+    await assertDaysWorkedEditable(existingEntry.employeeId, existingEntry.month, existingEntry.year);
+  }
+
+  return applyPayrollUpdate(existingEntry, validatedData);
+}
+
+/**
+ * Devam takviminden hesaplanan çalıştığı gün sayısını puantaja işler
+ * Dönemin puantaj kaydı yoksa oluşturulur
+ */
+export async function setDaysWorkedFromAttendance(
+  employeeId: string,
+  month: number,
+  year: number,
+  daysWorked: number
+): Promise<PayrollEntryResponse> {
+  const entry = await prisma.payrollEntry.upsert({
+    where: { employeeId_month_year: { employeeId, month, year } },
+    update: {},
+    create: { employeeId, month, year, daysWorked },
+    include: payrollEntryInclude,
+  });
+
+  return applyPayrollUpdate(entry, { daysWorked });
+}
+
+/**
+ * Takvimi işaretlenmiş çalışanın gün sayısı elle değiştirilemez
+ */
+async function assertDaysWorkedEditable(employeeId: string, month: number, year: number): Promise<void> {
+  const attendanceCount = await prisma.attendanceDay.count({ where: { employeeId, month, year } });
+  if (attendanceCount > 0) {
+    throw new AppError(
+      409,
+      'ATTENDANCE_MANAGED',
+      'Bu dönemin çalıştığı gün sayısı devam takviminden hesaplanıyor; değişiklik için devam takvimini kullanın'
+    );
+  }
+}
+
+/**
+ * Apply validated changes to a payroll entry, recalculating the official/cash split and the tax ledger
+ */
+async function applyPayrollUpdate(
+  existingEntry: Prisma.PayrollEntryGetPayload<{ include: typeof payrollEntryInclude }>,
+  validatedData: UpdatePayrollInput
+): Promise<PayrollEntryResponse> {
+  const id = existingEntry.id;
+
   // Build update data
   const updateData: Record<string, number> = {};
 
   if (validatedData.daysWorked !== undefined) {
     updateData.daysWorked = validatedData.daysWorked;
   }
-  if (validatedData.advance !== undefined) {
-    updateData.advance = validatedData.advance;
-  }
-  if (validatedData.officialAdvance !== undefined) {
-    updateData.officialAdvance = validatedData.officialAdvance;
-  }
   if (validatedData.overtime50 !== undefined) {
     updateData.overtime50 = validatedData.overtime50;
   }
@@ -379,37 +759,28 @@ export async function updatePayroll(
     updateData.sortOrder = validatedData.sortOrder;
   }
 
-  // Enforce automatic official/cash split (and officialAdvance only for insured employees)
+  // Enforce automatic official/cash split; advances come from the advance ledger as-is,
+  // the part exceeding the base is reported as carry-over instead of being clamped away
   const nextDaysWorked = validatedData.daysWorked ?? existingEntry.daysWorked;
-  const nextCashAdvanceRaw = validatedData.advance ?? existingEntry.advance;
-  const nextOfficialAdvanceRaw = validatedData.officialAdvance ?? (existingEntry as { officialAdvance?: number }).officialAdvance ?? 0;
   const nextOvertime50 = validatedData.overtime50 ?? existingEntry.overtime50;
   const nextOvertime100 = validatedData.overtime100 ?? existingEntry.overtime100;
 
-  const earned = Math.max(0, (existingEntry.employee.salary / existingEntry.employee.workingDays) * nextDaysWorked);
-  const officialDaily = FIXED_OFFICIAL_PAYMENT / OFFICIAL_WORKING_DAYS_BASE;
-  const baseOfficial = existingEntry.employee.isInsured
-    ? Math.min(earned, Math.max(0, officialDaily * nextDaysWorked))
-    : 0;
-  const baseCash = Math.max(0, earned - baseOfficial) + Math.max(0, nextOvertime50) + Math.max(0, nextOvertime100);
-
-  const nextCashAdvance = Math.min(Math.max(0, nextCashAdvanceRaw), baseCash);
-  const nextOfficialAdvance = existingEntry.employee.isInsured
-    ? Math.min(Math.max(0, nextOfficialAdvanceRaw), baseOfficial)
-    : 0;
-
-  updateData.advance = nextCashAdvance;
-  updateData.officialAdvance = nextOfficialAdvance;
-
+  const wageParameter = await getWageParameterForPeriod(existingEntry.month, existingEntry.year);
+  const employee = applyPeriodSalary(
+    existingEntry.employee,
+    await getSalaryForPeriod(existingEntry.employee, existingEntry.month, existingEntry.year)
+  );
   const split = calculateOfficialAndCash(
-    existingEntry.employee.isInsured,
-    existingEntry.employee.salary,
-    existingEntry.employee.workingDays,
+    employee.isInsured,
+    employee.salary,
+    employee.workingDays,
     nextDaysWorked,
     nextOvertime50,
     nextOvertime100,
-    nextCashAdvance,
-    nextOfficialAdvance
+    existingEntry.advance,
+    existingEntry.officialAdvance,
+    wageParameter,
+    summarizePayComponents(existingEntry.lineItems, employee.isInsured)
   );
   updateData.officialPayment = split.officialPayment;
   updateData.cashPayment = split.cashPayment;
@@ -417,12 +788,28 @@ export async function updatePayroll(
   const updatedEntry = await prisma.payrollEntry.update({
     where: { id },
     data: updateData,
-    include: {
-      employee: true,
-    },
+    include: payrollEntryInclude,
   });
 
-  return transformToResponse(updatedEntry);
+  // Bu aydan yıl sonuna kadar kümülatif vergi matrahı yeniden hesaplanır
+  await recalculateTaxLedger(updatedEntry.employeeId, updatedEntry.year, updatedEntry.month);
+
+  const taxParameter = await getTaxParameterForYear(updatedEntry.year);
+  const cumulativeTaxBases = await getPreviousCumulativeTaxBases(
+    [updatedEntry.employeeId],
+    updatedEntry.month,
+    updatedEntry.year
+  );
+  const fineDeductions = await getFineDeductionTotals([updatedEntry.employeeId], updatedEntry.month, updatedEntry.year);
+  const loanDues = await getLoanInstallmentDues([updatedEntry.employeeId], updatedEntry.month, updatedEntry.year);
+  return transformToResponse(
+    { ...updatedEntry, employee },
+    wageParameter,
+    taxParameter,
+    cumulativeTaxBases.get(updatedEntry.employeeId),
+    fineDeductions.get(updatedEntry.employeeId),
+    loanDues.get(updatedEntry.employeeId)
+  );
 }
 
 /**
@@ -437,22 +824,47 @@ export async function batchUpdatePayroll(
   // Validate input
   const validatedData = batchUpdateSchema.parse(entries);
 
-  const results: PayrollEntryResponse[] = [];
+  // Reject the whole batch before writing anything if a period is closed
+  const periods = new Map(validatedData.map((entry) => [`${entry.year}-${entry.month}`, entry]));
+  for (const { month, year } of periods.values()) {
+    await assertPeriodOpen(month, year);
+  }
+
+  const updated: {
+    entry: Parameters<typeof transformToResponse>[0];
+    wageParameter: WageParameterValues;
+    taxParameter: TaxParameterValues | null;
+  }[] = [];
+  const wageParameters = new Map<string, WageParameterValues>();
+  const taxParameters = new Map<number, TaxParameterValues | null>();
 
   for (const entry of validatedData) {
+    const periodKey = `${entry.year}-${entry.month}`;
+    let wageParameter = wageParameters.get(periodKey);
+    if (!wageParameter) {
+      wageParameter = await getWageParameterForPeriod(entry.month, entry.year);
+      wageParameters.set(periodKey, wageParameter);
+    }
+    if (!taxParameters.has(entry.year)) {
+      taxParameters.set(entry.year, await getTaxParameterForYear(entry.year));
+    }
+    const taxParameter = taxParameters.get(entry.year) ?? null;
+
     // Check if employee exists
-    const employee = await prisma.employee.findUnique({
+    const employeeRecord = await prisma.employee.findUnique({
       where: { id: entry.employeeId },
     });
 
-    if (!employee) {
+    if (!employeeRecord) {
       throw new AppError(404, 'EMPLOYEE_NOT_FOUND', `Çalışan bulunamadı: ${entry.employeeId}`);
     }
 
-    const shouldRecalculateSplit =
-      entry.daysWorked !== undefined ||
-      entry.advance !== undefined ||
-      entry.officialAdvance !== undefined;
+    const employee = applyPeriodSalary(
+      employeeRecord,
+      await getSalaryForPeriod(employeeRecord, entry.month, entry.year)
+    );
+
+    const shouldRecalculateSplit = entry.daysWorked !== undefined;
 
     const existing = shouldRecalculateSplit
       ? await prisma.payrollEntry.findUnique({
@@ -463,29 +875,20 @@ export async function batchUpdatePayroll(
               year: entry.year,
             },
           },
+          include: { lineItems: { include: { componentType: true } } },
         })
       : null;
 
+    if (entry.daysWorked !== undefined && entry.daysWorked !== existing?.daysWorked) {
+      await assertDaysWorkedEditable(entry.employeeId, entry.month, entry.year);
+    }
+
     const nextDaysWorked = entry.daysWorked ?? existing?.daysWorked ?? 0;
     const nextOvertime50 = entry.overtime50 ?? existing?.overtime50 ?? 0;
     const nextOvertime100 = entry.overtime100 ?? existing?.overtime100 ?? 0;
-    const earned = Math.max(0, (employee.salary / employee.workingDays) * nextDaysWorked);
-    const officialDaily = FIXED_OFFICIAL_PAYMENT / OFFICIAL_WORKING_DAYS_BASE;
-    const baseOfficial = employee.isInsured
-      ? Math.min(earned, Math.max(0, officialDaily * nextDaysWorked))
-      : 0;
-    const baseCash = Math.max(0, earned - baseOfficial) + Math.max(0, nextOvertime50) + Math.max(0, nextOvertime100);
-
-    const nextCashAdvance = Math.min(
-      Math.max(0, entry.advance ?? existing?.advance ?? 0),
-      baseCash
-    );
-    const nextOfficialAdvance = employee.isInsured
-      ? Math.min(
-          Math.max(0, entry.officialAdvance ?? (existing as { officialAdvance?: number } | null)?.officialAdvance ?? 0),
-          baseOfficial
-        )
-      : 0;
+    // Avanslar avans defterinden gelir; hakedişi aşan kısım yanıtta devreden avans olarak görünür
+    const ledgerCashAdvance = existing?.advance ?? 0;
+    const ledgerOfficialAdvance = existing?.officialAdvance ?? 0;
 
     const split = shouldRecalculateSplit
       ? calculateOfficialAndCash(
@@ -495,8 +898,10 @@ export async function batchUpdatePayroll(
           nextDaysWorked,
           nextOvertime50,
           nextOvertime100,
-          nextCashAdvance,
-          nextOfficialAdvance
+          ledgerCashAdvance,
+          ledgerOfficialAdvance,
+          wageParameter,
+          summarizePayComponents(existing?.lineItems ?? [], employee.isInsured)
         )
       : null;
 
@@ -510,8 +915,6 @@ export async function batchUpdatePayroll(
       },
       update: {
         daysWorked: entry.daysWorked ?? undefined,
-        advance: entry.advance !== undefined ? nextCashAdvance : undefined,
-        officialAdvance: entry.officialAdvance !== undefined ? nextOfficialAdvance : undefined,
         overtime50: entry.overtime50 ?? undefined,
         overtime100: entry.overtime100 ?? undefined,
         // official/cash are automatic; set when any split-driving field changes
@@ -524,25 +927,139 @@ export async function batchUpdatePayroll(
         month: entry.month,
         year: entry.year,
         daysWorked: nextDaysWorked,
-        advance: nextCashAdvance,
-        officialAdvance: nextOfficialAdvance,
         overtime50: entry.overtime50 ?? 0,
         overtime100: entry.overtime100 ?? 0,
         officialPayment: split?.officialPayment ?? 0,
         cashPayment: split?.cashPayment ?? 0,
         sortOrder: entry.sortOrder ?? 0,
       },
-      include: {
-        employee: true,
-      },
+      include: payrollEntryInclude,
     });
 
-    results.push(transformToResponse(upsertedEntry));
+    updated.push({ entry: { ...upsertedEntry, employee }, wageParameter, taxParameter });
+  }
+
+  // Kümülatif vergi matrahı, her çalışan-yıl için değişen en erken aydan itibaren yeniden hesaplanır
+  const ledgerStarts = new Map<string, { employeeId: string; year: number; month: number }>();
+  for (const { entry } of updated) {
+    const key = `${entry.employeeId}-${entry.year}`;
+    const current = ledgerStarts.get(key);
+    if (!current || entry.month < current.month) {
+      ledgerStarts.set(key, { employeeId: entry.employeeId, year: entry.year, month: entry.month });
+    }
+  }
+  for (const { employeeId, year, month } of ledgerStarts.values()) {
+    await recalculateTaxLedger(employeeId, year, month);
+  }
+
+  const results: PayrollEntryResponse[] = [];
+  for (const { entry, wageParameter, taxParameter } of updated) {
+    const cumulativeTaxBases = await getPreviousCumulativeTaxBases([entry.employeeId], entry.month, entry.year);
+    const fineDeductions = await getFineDeductionTotals([entry.employeeId], entry.month, entry.year);
+    const loanDues = await getLoanInstallmentDues([entry.employeeId], entry.month, entry.year);
+    results.push(
+      transformToResponse(
+        entry,
+        wageParameter,
+        taxParameter,
+        cumulativeTaxBases.get(entry.employeeId),
+        fineDeductions.get(entry.employeeId),
+        loanDues.get(entry.employeeId)
+      )
+    );
   }
 
   return results;
 }
 
+/**
+ * Close a payroll period, freezing the calculated entries as its snapshot
+ */
+export async function closePayrollPeriod(
+  month: number,
+  year: number,
+  closedBy: string
+): Promise<PayrollPeriodResponse> {
+  if (month < 1 || month > 12) {
+    throw new AppError(400, 'INVALID_MONTH', 'Ay 1-12 arasında olmalıdır');
+  }
+  if (year < 2000 || year > 2100) {
+    throw new AppError(400, 'INVALID_YEAR', 'Yıl 2000-2100 arasında olmalıdır');
+  }
+
+  // Kapanış adımları tek transaction'da yürür; biri başarısız olursa dönem açık kalır ve tekrar denenebilir
+  const { period, advanceChanges } = await prisma.$transaction(
+    async (tx) => {
+      const { period: closed, snapshot } = await closePeriod(
+        tx,
+        month,
+        year,
+        () => buildPayrollByMonth(month, year),
+        closedBy
+      );
+      const carryOvers = snapshot.map((entry) => ({
+        employeeId: entry.employeeId,
+        cash: entry.cashAdvanceCarryOver,
+        official: entry.officialAdvanceCarryOver,
+      }));
+      await assertCarryOverTargetOpen(month, year, carryOvers);
+      await assertFineCarryOverTargetOpen(
+        month,
+        year,
+        snapshot.map((entry) => ({ employeeId: entry.employeeId, due: entry.fineDeductionDue, amount: entry.fineDeduction }))
+      );
+
+      // Puantajdan fiilen kesilen ceza tutarı ödeme olarak işlenir
+      await settleFineDeductions(
+        tx,
+        month,
+        year,
+        snapshot.map((entry) => ({ employeeId: entry.employeeId, amount: entry.fineDeduction }))
+      );
+      // Puantajdan kesilen borç taksitleri borç hareketi olarak yazılır
+      await settleLoanInstallments(
+        tx,
+        month,
+        year,
+        snapshot.map((entry) => ({ employeeId: entry.employeeId, amount: entry.loanDeduction })),
+        closedBy
+      );
+      // Hakedişi aşan avans sonraki döneme devreder
+      const changes = await carryOverAdvances(tx, month, year, carryOvers, closedBy);
+      return { period: closed, advanceChanges: changes };
+    },
+    { timeout: PERIOD_TRANSITION_TIMEOUT_MS }
+  );
+  await recalculateAdvanceTaxLedgers(advanceChanges);
+  return period;
+}
+
+/**
+ * Reopen a payroll period; fine payments, loan installments and advance carry-overs created at close are reverted
+ */
+export async function reopenPayrollPeriod(
+  month: number,
+  year: number,
+  reopenedBy: string
+): Promise<PayrollPeriodResponse> {
+  await assertCarryOverRevertible(month, year);
+  await assertFineDeductionsRevertible(month, year);
+  await assertLoanInstallmentsRevertible(month, year);
+  const { period, storageKeys, advanceChanges } = await prisma.$transaction(
+    async (tx) => {
+      const reopened = await reopenPeriod(tx, month, year, reopenedBy);
+      const keys = await revertFineDeductionPayments(tx, month, year);
+      await revertLoanInstallments(tx, month, year);
+      const changes = await revertAdvanceCarryOver(tx, month, year);
+      return { period: reopened, storageKeys: keys, advanceChanges: changes };
+    },
+    { timeout: PERIOD_TRANSITION_TIMEOUT_MS }
+  );
+  await removeStoredFiles(storageKeys);
+  await recalculateAdvanceTaxLedgers(advanceChanges);
+  return period;
+}
+
 /**
  * Validate payroll input and return validation errors if any
  */
@@ -0,0 +1,253 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../utils/prisma';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Payroll Period Service
+ *
+ * Ay/yıl bazında puantaj dönemi yaşam döngüsü: OPEN → UNDER_REVIEW → CLOSED.
+ * Kapatılan dönemin puantajı snapshot olarak saklanır ve dönem yeniden
+ * açılana kadar değiştirilemez.
+ */
+
+export const PayrollPeriodStatus = {
+  OPEN: 'OPEN',
+  UNDER_REVIEW: 'UNDER_REVIEW',
+  CLOSED: 'CLOSED',
+} as const;
+
+export type PayrollPeriodStatusType = (typeof PayrollPeriodStatus)[keyof typeof PayrollPeriodStatus];
+
+// Period response type (snapshot is not returned here, see getPeriodSnapshot)
+export interface PayrollPeriodResponse {
+  id: string | null;
+  month: number;
+  year: number;
+  status: PayrollPeriodStatusType;
+  reviewStartedAt: Date | null;
+  closedAt: Date | null;
+  closedBy: string | null;
+  reopenedAt: Date | null;
+  reopenedBy: string | null;
+  hasSnapshot: boolean;
+}
+
+function validatePeriod(month: number, year: number) {
+  if (!Number.isInteger(month) || month < 1 || month > 12) {
+    throw new AppError(400, 'INVALID_MONTH', 'Ay 1-12 arasında olmalıdır');
+  }
+  if (!Number.isInteger(year) || year < 2000 || year > 2100) {
+    throw new AppError(400, 'INVALID_YEAR', 'Yıl 2000-2100 arasında olmalıdır');
+  }
+}
+
+function transformPeriod(
+  month: number,
+  year: number,
+  period: {
+    id: string;
+    status: string;
+    reviewStartedAt: Date | null;
+    closedAt: Date | null;
+    closedBy: string | null;
+    reopenedAt: Date | null;
+    reopenedBy: string | null;
+    snapshot: string | null;
+  } | null
+): PayrollPeriodResponse {
+  if (!period) {
+    return {
+      id: null,
+      month,
+      year,
+      status: PayrollPeriodStatus.OPEN,
+      reviewStartedAt: null,
+      closedAt: null,
+      closedBy: null,
+      reopenedAt: null,
+      reopenedBy: null,
+      hasSnapshot: false,
+    };
+  }
+
+  return {
+    id: period.id,
+    month,
+    year,
+    status: period.status as PayrollPeriodStatusType,
+    reviewStartedAt: period.reviewStartedAt,
+    closedAt: period.closedAt,
+    closedBy: period.closedBy,
+    reopenedAt: period.reopenedAt,
+    reopenedBy: period.reopenedBy,
+    hasSnapshot: !!period.snapshot,
+  };
+}
+
+/**
+ * Get the period status (periods without a record are OPEN)
+ */
+export async function getPayrollPeriod(month: number, year: number): Promise<PayrollPeriodResponse> {
+  validatePeriod(month, year);
+  const period = await prisma.payrollPeriod.findUnique({
+    where: { month_year: { month, year } },
+  });
+  return transformPeriod(month, year, period);
+}
+
+/**
+ * Verilen dönemden sonra kapatılmış ilk dönem (yoksa null)
+ */
+export async function findLaterClosedPeriod(
+  month: number,
+  year: number
+): Promise<{ month: number; year: number } | null> {
+  return prisma.payrollPeriod.findFirst({
+    where: {
+      status: PayrollPeriodStatus.CLOSED,
+      OR: [{ year: { gt: year } }, { year, month: { gt: month } }],
+    },
+    select: { month: true, year: true },
+    orderBy: [{ year: 'asc' }, { month: 'asc' }],
+  });
+}
+
+/**
+ * Dönem satırını transaction sonuna kadar kilitler; eşzamanlı kapatma / yeniden açma istekleri sırayla işlenir
+ */
+async function lockPayrollPeriod(
+  tx: Prisma.TransactionClient,
+  month: number,
+  year: number
+): Promise<PayrollPeriodResponse> {
+  validatePeriod(month, year);
+  await tx.$queryRaw`SELECT "id" FROM "PayrollPeriod" WHERE "month" = ${month} AND "year" = ${year} FOR UPDATE`;
+  const period = await tx.payrollPeriod.findUnique({
+    where: { month_year: { month, year } },
+  });
+  return transformPeriod(month, year, period);
+}
+
+/**
+ * List periods that have a lifecycle record
+ */
+export async function listPayrollPeriods(year?: number): Promise<PayrollPeriodResponse[]> {
+  const periods = await prisma.payrollPeriod.findMany({
+    where: year ? { year } : undefined,
+    orderBy: [{ year: 'desc' }, { month: 'desc' }],
+  });
+  return periods.map((period) => transformPeriod(period.month, period.year, period));
+}
+
+/**
+ * Returns the frozen snapshot of a closed period, or null if the period is not closed
+ */
+export async function getPeriodSnapshot<T>(month: number, year: number): Promise<T[] | null> {
+  const period = await prisma.payrollPeriod.findUnique({
+    where: { month_year: { month, year } },
+  });
+  if (!period || period.status !== PayrollPeriodStatus.CLOSED || !period.snapshot) {
+    return null;
+  }
+  return JSON.parse(period.snapshot) as T[];
+}
+
+/**
+ * İncelemedeki veya kapalı döneme yapılan değişiklikleri engeller.
+ * İnceleme sırasında veri dondurulur; kapanış snapshot'ı incelenen değerlerle aynı olur.
+ */
+export async function assertPeriodOpen(month: number, year: number): Promise<void> {
+  const period = await prisma.payrollPeriod.findUnique({
+    where: { month_year: { month, year } },
+    select: { status: true },
+  });
+  if (period?.status === PayrollPeriodStatus.CLOSED) {
+    throw new AppError(
+      409,
+      'PERIOD_CLOSED',
+      `${month}/${year} dönemi kapatılmıştır, değişiklik yapılamaz`
+    );
+  }
+  if (period?.status === PayrollPeriodStatus.UNDER_REVIEW) {
+    throw new AppError(
+      409,
+      'PERIOD_UNDER_REVIEW',
+      `${month}/${year} dönemi incelemededir, değişiklik için dönemi yeniden açın`
+    );
+  }
+}
+
+/**
+ * OPEN → UNDER_REVIEW
+ */
+export async function startPeriodReview(month: number, year: number): Promise<PayrollPeriodResponse> {
+  const current = await getPayrollPeriod(month, year);
+  if (current.status !== PayrollPeriodStatus.OPEN) {
+    throw new AppError(409, 'INVALID_PERIOD_TRANSITION', 'Yalnızca açık dönem incelemeye alınabilir');
+  }
+
+  const period = await prisma.payrollPeriod.upsert({
+    where: { month_year: { month, year } },
+    update: { status: PayrollPeriodStatus.UNDER_REVIEW, reviewStartedAt: new Date() },
+    create: { month, year, status: PayrollPeriodStatus.UNDER_REVIEW, reviewStartedAt: new Date() },
+  });
+  return transformPeriod(month, year, period);
+}
+
+/**
+ * UNDER_REVIEW → CLOSED, snapshot ile birlikte
+ * Snapshot, puantaj servisi tarafından dönemin hesaplanmış kayıtlarından üretilir;
+ * dönem satırı kilitlendikten sonra okunur ki kilitten önce kaydedilen her değişikliği içersin.
+ */
+export async function closePeriod<T>(
+  tx: Prisma.TransactionClient,
+  month: number,
+  year: number,
+  buildSnapshot: () => Promise<T[]>,
+  closedBy: string
+): Promise<{ period: PayrollPeriodResponse; snapshot: T[] }> {
+  const current = await lockPayrollPeriod(tx, month, year);
+  if (current.status !== PayrollPeriodStatus.UNDER_REVIEW) {
+    throw new AppError(409, 'INVALID_PERIOD_TRANSITION', 'Dönem kapatılmadan önce incelemeye alınmalıdır');
+  }
+
+  const snapshot = await buildSnapshot();
+
+  const period = await tx.payrollPeriod.update({
+    where: { month_year: { month, year } },
+    data: {
+      status: PayrollPeriodStatus.CLOSED,
+      closedAt: new Date(),
+      closedBy,
+      snapshot: JSON.stringify(snapshot),
+    },
+  });
+  return { period: transformPeriod(month, year, period), snapshot };
+}
+
+/**
+ * UNDER_REVIEW / CLOSED → OPEN (yalnızca ADMIN, route seviyesinde kontrol edilir)
+ * Snapshot silinir; dönem yeniden canlı verilerden hesaplanır.
+ */
+export async function reopenPeriod(
+  tx: Prisma.TransactionClient,
+  month: number,
+  year: number,
+  reopenedBy: string
+): Promise<PayrollPeriodResponse> {
+  const current = await lockPayrollPeriod(tx, month, year);
+  if (current.status === PayrollPeriodStatus.OPEN) {
+    throw new AppError(409, 'INVALID_PERIOD_TRANSITION', 'Dönem zaten açık');
+  }
+
+  const period = await tx.payrollPeriod.update({
+    where: { month_year: { month, year } },
+    data: {
+      status: PayrollPeriodStatus.OPEN,
+      reopenedAt: new Date(),
+      reopenedBy,
+      snapshot: null,
+    },
+  });
+  return transformPeriod(month, year, period);
+}
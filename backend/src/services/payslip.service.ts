@@ -0,0 +1,388 @@
+import path from 'path';
+import JSZip from 'jszip';
+// pdfmake sunucu tarafında örnek (instance) dışa aktarır; metotların bağlamı korunsun diye require ile alınır
+import pdfmake = require('pdfmake');
+import type { Content, TableCell, TDocumentDefinitions } from 'pdfmake/interfaces';
+import prisma from '../utils/prisma';
+import { AppError } from '../middleware/errorHandler';
+import { getPayrollById, getPayrollByMonth, PayrollEntryResponse } from './payroll.service';
+import { getCompanySettings, CompanySettingsResponse } from './companySettings.service';
+import { getPayrollPeriod, PayrollPeriodStatus } from './payrollPeriod.service';
+
+/**
+ * Payslip Service
+ *
+ * Ücret ödeme pusulası (bordro) PDF'i. Tutarlar puantaj ekranıyla aynı kaynaktan
+ * (kapalı dönemde snapshot, açık dönemde canlı hesap) gelir; dönem pusulaları zip olarak paketlenir.
+ */
+
+const MONTH_NAMES = [
+  'Ocak', 'Şubat', 'Mart', 'Nisan', 'Mayıs', 'Haziran',
+  'Temmuz', 'Ağustos', 'Eylül', 'Ekim', 'Kasım', 'Aralık',
+];
+
+const OVERTIME_TYPE_LABELS: Record<string, string> = {
+  OVERTIME_50: '%50 Fazla Mesai',
+  OVERTIME_100: '%100 Fazla Mesai',
+};
+
+// Türkçe karakterler için pdfmake ile gelen Roboto kullanılır
+const FONT_DIR = path.join(path.dirname(require.resolve('pdfmake/package.json')), 'fonts', 'Roboto');
+
+pdfmake.setFonts({
+  Roboto: {
+    normal: path.join(FONT_DIR, 'Roboto-Regular.ttf'),
+    bold: path.join(FONT_DIR, 'Roboto-Medium.ttf'),
+    italics: path.join(FONT_DIR, 'Roboto-Italic.ttf'),
+    bolditalics: path.join(FONT_DIR, 'Roboto-MediumItalic.ttf'),
+  },
+});
+// Belge tanımı yalnızca bu serviste üretilir; dış kaynak ve font dışı dosya okunmaz
+pdfmake.setUrlAccessPolicy(() => false);
+pdfmake.setLocalAccessPolicy((filePath) => filePath.startsWith(FONT_DIR));
+
+export interface PayslipOvertimeLine {
+  entryDate: Date;
+  type: string;
+  hours: number;
+  hourlyRate: number | null;
+  amount: number;
+  description: string | null;
+}
+
+export interface PayslipFile {
+  fileName: string;
+  content: Buffer;
+}
+
+const currencyFormatter = new Intl.NumberFormat('tr-TR', { style: 'currency', currency: 'TRY' });
+
+function formatCurrency(amount: number): string {
+  return currencyFormatter.format(amount);
+}
+
+function formatDate(date: Date | string): string {
+  return new Date(date).toLocaleDateString('tr-TR', { timeZone: 'UTC' });
+}
+
+function formatPeriod(month: number, year: number): string {
+  return `${MONTH_NAMES[month - 1]} ${year}`;
+}
+
+/**
+ * Dosya adında sorun çıkaran karakterleri temizler (Türkçe harfler korunur)
+ */
+function toFileNamePart(value: string): string {
+  return value.trim().replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '_');
+}
+
+function payslipFileName(entry: PayrollEntryResponse, suffix: string = ''): string {
+  const period = `${entry.year}-${String(entry.month).padStart(2, '0')}`;
+  return `Pusula_${period}_${toFileNamePart(entry.employee.fullName)}${suffix}.pdf`;
+}
+
+function amountRow(label: string, amount: number, options: { bold?: boolean; negative?: boolean } = {}): TableCell[] {
+  const value = options.negative && amount > 0 ? `-${formatCurrency(amount)}` : formatCurrency(amount);
+  return [
+    { text: label, bold: options.bold },
+    { text: value, alignment: 'right', bold: options.bold },
+  ];
+}
+
+function amountTable(title: string, rows: TableCell[][]): Content {
+  return {
+    table: {
+      widths: ['*', 'auto'],
+      body: [[{ text: title, style: 'tableHeader', colSpan: 2 }, {}], ...rows],
+    },
+    layout: 'lightHorizontalLines',
+    margin: [0, 0, 0, 10],
+  };
+}
+
+/**
+ * Pusula belge tanımını kurar (saf fonksiyon).
+ * Kapanmamış dönemin tutarları değişebileceği için pusula taslak olarak işaretlenir.
+ */
+export function buildPayslipDocument(
+  entry: PayrollEntryResponse,
+  overtimeLines: PayslipOvertimeLine[],
+  company: CompanySettingsResponse,
+  isDraft: boolean
+): TDocumentDefinitions {
+  const { employee } = entry;
+
+  const companyLines: Content[] = [{ text: company.companyName || 'Firma bilgisi tanımlanmamış', style: 'companyName' }];
+  if (company.address) companyLines.push({ text: company.address });
+  if (company.phone) companyLines.push({ text: `Tel: ${company.phone}` });
+
+  const registryLines: Content[] = [];
+  if (company.taxOffice || company.taxNumber) {
+    registryLines.push({ text: `Vergi Dairesi / No: ${[company.taxOffice, company.taxNumber].filter(Boolean).join(' / ')}` });
+  }
+  if (company.sgkRegistryNumber) registryLines.push({ text: `SGK Sicil No: ${company.sgkRegistryNumber}` });
+
+  // Kazançlar
+  const earningRows: TableCell[][] = [
+    amountRow(`Hak Edilen Maaş (${entry.daysWorked} gün × ${formatCurrency(entry.dailyWage)})`, entry.earnedSalary),
+  ];
+  if (entry.overtime50 > 0) earningRows.push(amountRow(OVERTIME_TYPE_LABELS.OVERTIME_50, entry.overtime50));
+  if (entry.overtime100 > 0) earningRows.push(amountRow(OVERTIME_TYPE_LABELS.OVERTIME_100, entry.overtime100));
+  for (const item of entry.lineItems.filter((lineItem) => lineItem.kind === 'EARNING')) {
+    earningRows.push(amountRow(item.description ? `${item.name} (${item.description})` : item.name, item.amount));
+  }
+  const totalEarnings =
+    entry.earnedSalary +
+    entry.overtime50 +
+    entry.overtime100 +
+    entry.lineItems.filter((item) => item.kind === 'EARNING').reduce((acc, item) => acc + item.amount, 0);
+  earningRows.push(amountRow('Toplam Kazanç', totalEarnings, { bold: true }));
+
+  // Kesintiler
+  const deductionRows: TableCell[][] = [];
+  if (entry.advance > 0) deductionRows.push(amountRow('Avans (Elden)', entry.advance, { negative: true }));
+  if (entry.officialAdvance > 0) deductionRows.push(amountRow('Avans (Resmi)', entry.officialAdvance, { negative: true }));
+  for (const item of entry.lineItems.filter((lineItem) => lineItem.kind === 'DEDUCTION')) {
+    deductionRows.push(
+      amountRow(item.description ? `${item.name} (${item.description})` : item.name, item.amount, { negative: true })
+    );
+  }
+  if (entry.fineDeduction > 0) deductionRows.push(amountRow('Trafik Cezası Kesintisi', entry.fineDeduction, { negative: true }));
+  if (entry.loanDeduction > 0) deductionRows.push(amountRow('Borç Taksiti', entry.loanDeduction, { negative: true }));
+  const totalDeductions = totalEarnings - entry.totalReceivable;
+  deductionRows.push(amountRow('Toplam Kesinti', totalDeductions, { bold: true, negative: true }));
+
+  // Ödeme dağılımı
+  const paymentRows: TableCell[][] = [
+    amountRow('Resmi Ödeme (Banka)', entry.officialPayment),
+    amountRow('Elden Ödeme', entry.cashPayment),
+    amountRow('Net Ödenecek', entry.officialPayment + entry.cashPayment, { bold: true }),
+  ];
+  const carryOver = entry.cashAdvanceCarryOver + entry.officialAdvanceCarryOver;
+  if (carryOver > 0) {
+    paymentRows.push(amountRow('Sonraki Döneme Devreden Avans', carryOver));
+  }
+
+  const content: Content[] = [
+    {
+      columns: [
+        { width: '*', stack: companyLines },
+        { width: 'auto', stack: registryLines, alignment: 'right' },
+      ],
+      margin: [0, 0, 0, 12],
+    },
+    { text: 'ÜCRET ÖDEME PUSULASI', style: 'title' },
+    { text: formatPeriod(entry.month, entry.year), style: 'subtitle' },
+    {
+      table: {
+        widths: ['auto', '*', 'auto', '*'],
+        body: [
+          [{ text: 'Ad Soyad', bold: true }, employee.fullName, { text: 'Çalışma Alanı', bold: true }, employee.workArea],
+          [
+            { text: 'İşe Giriş', bold: true },
+            formatDate(employee.startDate),
+            { text: 'Sigorta', bold: true },
+            employee.isInsured ? 'Sigortalı' : 'Sigortasız',
+          ],
+          [
+            { text: 'Aylık Ücret', bold: true },
+            formatCurrency(employee.salary),
+            { text: 'Çalışılan Gün', bold: true },
+            `${entry.daysWorked} / ${employee.workingDays}`,
+          ],
+        ],
+      },
+      layout: 'noBorders',
+      margin: [0, 0, 0, 12],
+    },
+    {
+      columns: [
+        { width: '*', stack: [amountTable('Kazançlar', earningRows)] },
+        { width: '*', stack: [amountTable('Kesintiler', deductionRows)] },
+      ],
+      columnGap: 12,
+    },
+  ];
+
+  if (overtimeLines.length > 0) {
+    content.push({
+      table: {
+        headerRows: 1,
+        widths: ['auto', '*', 'auto', 'auto', 'auto'],
+        body: [
+          [
+            { text: 'Tarih', style: 'tableHeader' },
+            { text: 'Fazla Mesai', style: 'tableHeader' },
+            { text: 'Saat', style: 'tableHeader', alignment: 'right' },
+            { text: 'Saat Ücreti', style: 'tableHeader', alignment: 'right' },
+            { text: 'Tutar', style: 'tableHeader', alignment: 'right' },
+          ],
+          ...overtimeLines.map((line): TableCell[] => [
+            formatDate(line.entryDate),
+            line.description
+              ? `${OVERTIME_TYPE_LABELS[line.type] || line.type} - ${line.description}`
+              : OVERTIME_TYPE_LABELS[line.type] || line.type,
+            { text: line.hours.toLocaleString('tr-TR'), alignment: 'right' },
+            { text: line.hourlyRate !== null ? formatCurrency(line.hourlyRate) : '-', alignment: 'right' },
+            { text: formatCurrency(line.amount), alignment: 'right' },
+          ]),
+        ],
+      },
+      layout: 'lightHorizontalLines',
+      margin: [0, 0, 0, 10],
+    });
+  }
+
+  content.push({
+    columns: [
+      { width: '*', stack: [amountTable('Ödeme', paymentRows)] },
+      entry.taxBreakdown
+        ? {
+            width: '*',
+            stack: [
+              amountTable('Brütten Nete (Resmi)', [
+                amountRow('Brüt Ücret', entry.taxBreakdown.grossPay),
+                amountRow('SGK İşçi Payı', entry.taxBreakdown.sgkEmployee, { negative: true }),
+                amountRow('İşsizlik Sigortası', entry.taxBreakdown.unemploymentEmployee, { negative: true }),
+                amountRow('Gelir Vergisi', entry.taxBreakdown.netIncomeTax, { negative: true }),
+                amountRow('Damga Vergisi', entry.taxBreakdown.netStampTax, { negative: true }),
+                amountRow('Net Ücret', entry.taxBreakdown.netPay, { bold: true }),
+              ]),
+            ],
+          }
+        : { width: '*', text: '' },
+    ],
+    columnGap: 12,
+  });
+
+  if (company.payslipNote) {
+    content.push({ text: company.payslipNote, style: 'note' });
+  }
+
+  content.push({
+    columns: [
+      { width: '*', stack: [{ text: 'Çalışan', bold: true }, { text: 'Ad Soyad / İmza', style: 'signature' }] },
+      {
+        width: '*',
+        alignment: 'right',
+        stack: [{ text: 'İşveren', bold: true }, { text: 'Kaşe / İmza', style: 'signature' }],
+      },
+    ],
+    margin: [0, 30, 0, 0],
+  });
+
+  return {
+    pageSize: 'A4',
+    pageMargins: [40, 40, 40, 50],
+    info: {
+      title: `Ücret Ödeme Pusulası - ${employee.fullName} - ${formatPeriod(entry.month, entry.year)}`,
+      author: company.companyName || undefined,
+    },
+    content,
+    watermark: isDraft ? { text: 'TASLAK', opacity: 0.08, bold: true } : undefined,
+    footer: (currentPage, pageCount) => ({
+      text: `${formatDate(new Date())} tarihinde oluşturuldu · Sayfa ${currentPage} / ${pageCount}`,
+      alignment: 'center',
+      fontSize: 7,
+      color: '#6b7280',
+    }),
+    defaultStyle: { font: 'Roboto', fontSize: 9 },
+    styles: {
+      companyName: { fontSize: 12, bold: true },
+      title: { fontSize: 14, bold: true, alignment: 'center' },
+      subtitle: { fontSize: 10, alignment: 'center', margin: [0, 2, 0, 12] },
+      tableHeader: { bold: true, fillColor: '#f3f4f6' },
+      note: { fontSize: 8, italics: true, margin: [0, 6, 0, 0] },
+      signature: { color: '#6b7280', margin: [0, 24, 0, 0] },
+    },
+  };
+}
+
+/**
+ * Dönemdeki fazla mesai kayıtları (çalışan bazında, tarih sırasıyla)
+ */
+async function getOvertimeLines(
+  employeeIds: string[],
+  month: number,
+  year: number
+): Promise<Map<string, PayslipOvertimeLine[]>> {
+  const entries = await prisma.overtimeEntry.findMany({
+    where: { employeeId: { in: employeeIds }, month, year },
+    orderBy: [{ entryDate: 'asc' }, { createdAt: 'asc' }],
+  });
+
+  const lines = new Map<string, PayslipOvertimeLine[]>();
+  for (const entry of entries) {
+    const list = lines.get(entry.employeeId) || [];
+    list.push({
+      entryDate: entry.entryDate,
+      type: entry.type,
+      hours: entry.hours,
+      hourlyRate: entry.hourlyRate,
+      amount: entry.amount,
+      description: entry.description,
+    });
+    lines.set(entry.employeeId, list);
+  }
+  return lines;
+}
+
+function renderPdf(definition: TDocumentDefinitions): Promise<Buffer> {
+  return pdfmake.createPdf(definition).getBuffer();
+}
+
+/**
+ * Tek puantaj kaydının pusulası
+ */
+export async function generatePayslip(payrollEntryId: string): Promise<PayslipFile> {
+  const entry = await getPayrollById(payrollEntryId);
+  const overtimeLines = await getOvertimeLines([entry.employeeId], entry.month, entry.year);
+  const company = await getCompanySettings();
+  const period = await getPayrollPeriod(entry.month, entry.year);
+  const isDraft = period.status !== PayrollPeriodStatus.CLOSED;
+
+  const content = await renderPdf(
+    buildPayslipDocument(entry, overtimeLines.get(entry.employeeId) || [], company, isDraft)
+  );
+  return { fileName: payslipFileName(entry), content };
+}
+
+/**
+ * Dönemin tüm pusulaları tek zip dosyasında
+ */
+export async function generatePeriodPayslips(month: number, year: number): Promise<PayslipFile> {
+  // Ay / yıl doğrulaması puantaj servisinde yapılır
+  const entries = await getPayrollByMonth(month, year);
+  if (entries.length === 0) {
+    throw new AppError(404, 'PAYROLL_NOT_FOUND', 'Bu dönem için puantaj kaydı bulunamadı');
+  }
+
+  const overtimeLines = await getOvertimeLines(
+    entries.map((entry) => entry.employeeId),
+    month,
+    year
+  );
+  const company = await getCompanySettings();
+  const period = await getPayrollPeriod(month, year);
+  const isDraft = period.status !== PayrollPeriodStatus.CLOSED;
+
+  const zip = new JSZip();
+  // Aynı adlı çalışanların pusulaları birbirinin üzerine yazılmasın diye sıra numarası eklenir
+  const nameCounts = new Map<string, number>();
+  // PDF'ler sırayla üretilir; büyük dönemlerde bellek kullanımı sınırlı kalsın
+  for (const entry of entries) {
+    const pdf = await renderPdf(
+      buildPayslipDocument(entry, overtimeLines.get(entry.employeeId) || [], company, isDraft)
+    );
+    const baseName = payslipFileName(entry);
+    const count = (nameCounts.get(baseName) ?? 0) + 1;
+    nameCounts.set(baseName, count);
+    zip.file(count > 1 ? payslipFileName(entry, `_${count}`) : baseName, pdf);
+  }
+
+  const content = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  return {
+    fileName: `Pusulalar_${year}-${String(month).padStart(2, '0')}${isDraft ? '_taslak' : ''}.zip`,
+    content,
+  };
+}
@@ -0,0 +1,214 @@
+import { z } from 'zod';
+import prisma from '../utils/prisma';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Public Holiday Service
+ *
+ * Resmi tatil takvimi. Sabit tarihli ulusal bayramlar yıl bazında otomatik eklenebilir;
+ * dini bayramlar ve arifeleri her yıl elle girilir.
+ * Mesai girişinde tatil ve hafta tatili günleri %100 mesai olarak sınıflandırılır.
+ */
+
+export const HOLIDAY_KINDS = ['NATIONAL', 'RELIGIOUS'] as const;
+
+const dateString = z.string().refine((val) => !isNaN(Date.parse(val)), {
+  message: 'Geçerli bir tarih giriniz',
+});
+
+export const createPublicHolidaySchema = z.object({
+  date: dateString,
+  name: z.string().trim().min(1, 'Tatil adı zorunludur').max(100, 'Tatil adı en fazla 100 karakter olabilir'),
+  kind: z.enum(HOLIDAY_KINDS, {
+    errorMap: () => ({ message: 'Geçersiz tatil türü' }),
+  }),
+  isHalfDay: z.boolean().default(false),
+});
+
+export const updatePublicHolidaySchema = createPublicHolidaySchema.partial();
+
+export type CreatePublicHolidayInput = z.infer<typeof createPublicHolidaySchema>;
+export type UpdatePublicHolidayInput = z.infer<typeof updatePublicHolidaySchema>;
+
+export interface PublicHolidayResponse {
+  id: string;
+  date: Date;
+  year: number;
+  name: string;
+  kind: string;
+  isHalfDay: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type OvertimeDayReason = 'PUBLIC_HOLIDAY' | 'HALF_DAY_HOLIDAY' | 'WEEKLY_REST' | 'WORKDAY';
+
+export interface OvertimeDayClassification {
+  date: Date;
+  reason: OvertimeDayReason;
+  suggestedType: 'OVERTIME_50' | 'OVERTIME_100';
+  // true: bu gün için yalnızca %100 mesai girilebilir
+  enforced: boolean;
+  holiday: PublicHolidayResponse | null;
+}
+
+// Sabit tarihli ulusal bayramlar (ay, gün)
+const FIXED_NATIONAL_HOLIDAYS: { month: number; day: number; name: string; isHalfDay: boolean }[] = [
+  { month: 1, day: 1, name: 'Yılbaşı', isHalfDay: false },
+  { month: 4, day: 23, name: 'Ulusal Egemenlik ve Çocuk Bayramı', isHalfDay: false },
+  { month: 5, day: 1, name: 'Emek ve Dayanışma Günü', isHalfDay: false },
+  { month: 5, day: 19, name: 'Atatürk\'ü Anma, Gençlik ve Spor Bayramı', isHalfDay: false },
+  { month: 7, day: 15, name: 'Demokrasi ve Milli Birlik Günü', isHalfDay: false },
+  { month: 8, day: 30, name: 'Zafer Bayramı', isHalfDay: false },
+  { month: 10, day: 28, name: 'Cumhuriyet Bayramı Arifesi', isHalfDay: true },
+  { month: 10, day: 29, name: 'Cumhuriyet Bayramı', isHalfDay: false },
+];
+
+export function validatePublicHolidayInput(
+  input: unknown,
+  isUpdate: boolean = false
+): { success: true; data: CreatePublicHolidayInput | UpdatePublicHolidayInput } | { success: false; errors: Record<string, string[]> } {
+  const schema = isUpdate ? updatePublicHolidaySchema : createPublicHolidaySchema;
+  const result = schema.safeParse(input);
+  if (result.success) return { success: true, data: result.data };
+
+  const errors: Record<string, string[]> = {};
+  for (const error of result.error.errors) {
+    const field = error.path.join('.');
+    if (!errors[field]) errors[field] = [];
+    errors[field].push(error.message);
+  }
+  return { success: false, errors };
+}
+
+function toUtcDay(value: string | Date): Date {
+  const date = new Date(value);
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+async function assertDateAvailable(date: Date, excludeId?: string) {
+  const existing = await prisma.publicHoliday.findUnique({ where: { date } });
+  if (existing && existing.id !== excludeId) {
+    throw new AppError(409, 'HOLIDAY_EXISTS', `${date.toISOString().split('T')[0]} için zaten tatil kaydı var`);
+  }
+}
+
+export async function listPublicHolidays(year: number, month?: number): Promise<PublicHolidayResponse[]> {
+  if (year < 2000 || year > 2100) {
+    throw new AppError(400, 'INVALID_YEAR', 'Yıl 2000-2100 arasında olmalıdır');
+  }
+  if (month !== undefined && (month < 1 || month > 12)) {
+    throw new AppError(400, 'INVALID_MONTH', 'Ay 1-12 arasında olmalıdır');
+  }
+
+  return prisma.publicHoliday.findMany({
+    where: month
+      ? { date: { gte: new Date(Date.UTC(year, month - 1, 1)), lt: new Date(Date.UTC(year, month, 1)) } }
+      : { year },
+    orderBy: { date: 'asc' },
+  });
+}
+
+export async function getPublicHolidayById(id: string): Promise<PublicHolidayResponse> {
+  const holiday = await prisma.publicHoliday.findUnique({ where: { id } });
+  if (!holiday) {
+    throw new AppError(404, 'HOLIDAY_NOT_FOUND', 'Tatil kaydı bulunamadı');
+  }
+  return holiday;
+}
+
+export async function createPublicHoliday(input: CreatePublicHolidayInput): Promise<PublicHolidayResponse> {
+  const validatedData = createPublicHolidaySchema.parse(input);
+  const date = toUtcDay(validatedData.date);
+  await assertDateAvailable(date);
+
+  return prisma.publicHoliday.create({
+    data: {
+      date,
+      year: date.getUTCFullYear(),
+      name: validatedData.name,
+      kind: validatedData.kind,
+      isHalfDay: validatedData.isHalfDay,
+    },
+  });
+}
+
+export async function updatePublicHoliday(id: string, input: UpdatePublicHolidayInput): Promise<PublicHolidayResponse> {
+  await getPublicHolidayById(id);
+  const validatedData = updatePublicHolidaySchema.parse(input);
+
+  const date = validatedData.date ? toUtcDay(validatedData.date) : undefined;
+  if (date) {
+    await assertDateAvailable(date, id);
+  }
+
+  return prisma.publicHoliday.update({
+    where: { id },
+    data: {
+      ...(date ? { date, year: date.getUTCFullYear() } : {}),
+      name: validatedData.name,
+      kind: validatedData.kind,
+      isHalfDay: validatedData.isHalfDay,
+    },
+  });
+}
+
+export async function deletePublicHoliday(id: string): Promise<void> {
+  await getPublicHolidayById(id);
+  await prisma.publicHoliday.delete({ where: { id } });
+}
+
+/**
+ * Sabit tarihli ulusal bayramları yıla ekler; mevcut günler atlanır
+ */
+export async function addNationalHolidays(year: number): Promise<PublicHolidayResponse[]> {
+  if (year < 2000 || year > 2100) {
+    throw new AppError(400, 'INVALID_YEAR', 'Yıl 2000-2100 arasında olmalıdır');
+  }
+
+  await prisma.publicHoliday.createMany({
+    data: FIXED_NATIONAL_HOLIDAYS.map((holiday) => ({
+      date: new Date(Date.UTC(year, holiday.month - 1, holiday.day)),
+      year,
+      name: holiday.name,
+      kind: 'NATIONAL',
+      isHalfDay: holiday.isHalfDay,
+    })),
+    skipDuplicates: true,
+  });
+
+  return listPublicHolidays(year);
+}
+
+/**
+ * Mesai gününü sınıflandırır
+ *
+ * - Tam gün resmi tatil: %100 zorunlu
+ * - Çalışanın takviminde hafta tatili / resmi tatil işaretli gün: %100 zorunlu
+ * - Takvimde işaret yoksa pazar günü hafta tatili sayılır: %100 zorunlu
+ * - Arife (yarım gün): %100 önerilir, öğleden önceki saatler için %50 girilebilir
+ */
+export async function classifyOvertimeDate(entryDate: string | Date, employeeId?: string): Promise<OvertimeDayClassification> {
+  const date = toUtcDay(entryDate);
+  const [holiday, attendance] = await Promise.all([
+    prisma.publicHoliday.findUnique({ where: { date } }),
+    employeeId
+      ? prisma.attendanceDay.findUnique({ where: { employeeId_date: { employeeId, date } } })
+      : Promise.resolve(null),
+  ]);
+
+  if (holiday && !holiday.isHalfDay) {
+    return { date, reason: 'PUBLIC_HOLIDAY', suggestedType: 'OVERTIME_100', enforced: true, holiday };
+  }
+  if (attendance?.code === 'PUBLIC_HOLIDAY') {
+    return { date, reason: 'PUBLIC_HOLIDAY', suggestedType: 'OVERTIME_100', enforced: true, holiday };
+  }
+  const isWeeklyRest = attendance ? attendance.code === 'WEEKLY_OFF' : date.getUTCDay() === 0;
+  if (isWeeklyRest) {
+    return { date, reason: 'WEEKLY_REST', suggestedType: 'OVERTIME_100', enforced: true, holiday };
+  }
+  if (holiday) {
+    return { date, reason: 'HALF_DAY_HOLIDAY', suggestedType: 'OVERTIME_100', enforced: false, holiday };
+  }
+  return { date, reason: 'WORKDAY', suggestedType: 'OVERTIME_50', enforced: false, holiday: null };
+}
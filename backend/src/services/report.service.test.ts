@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { breakDownCashAmount } from './report.service';
+
+describe('breakDownCashAmount', () => {
+  it('uses the largest banknotes and coins first', () => {
+    expect(breakDownCashAmount(1788.91)).toEqual([
+      { value: 200, kind: 'BANKNOTE', count: 8 },
+      { value: 100, kind: 'BANKNOTE', count: 1 },
+      { value: 50, kind: 'BANKNOTE', count: 1 },
+      { value: 20, kind: 'BANKNOTE', count: 1 },
+      { value: 10, kind: 'BANKNOTE', count: 1 },
+      { value: 5, kind: 'BANKNOTE', count: 1 },
+      { value: 1, kind: 'COIN', count: 3 },
+      { value: 0.5, kind: 'COIN', count: 1 },
+      { value: 0.25, kind: 'COIN', count: 1 },
+      { value: 0.1, kind: 'COIN', count: 1 },
+      { value: 0.05, kind: 'COIN', count: 1 },
+      { value: 0.01, kind: 'COIN', count: 1 },
+    ]);
+  });
+
+  it('works in whole kuruş so floating point amounts are not short', () => {
+    expect(breakDownCashAmount(0.29)).toEqual([
+      { value: 0.25, kind: 'COIN', count: 1 },
+      { value: 0.01, kind: 'COIN', count: 4 },
+    ]);
+  });
+
+  it('adds up to the amount', () => {
+    const amount = 23456.78;
+    const total = breakDownCashAmount(amount).reduce((sum, item) => sum + Math.round(item.value * 100) * item.count, 0);
+    expect(total).toBe(2345678);
+  });
+
+  it('returns nothing for zero', () => {
+    expect(breakDownCashAmount(0)).toEqual([]);
+  });
+});
@@ -0,0 +1,317 @@
+import prisma from '../utils/prisma';
+import { AppError } from '../middleware/errorHandler';
+import { getPayrollByMonth, PayrollEntryResponse, withSnapshotDefaults } from './payroll.service';
+import { getPayrollPeriod, getPeriodSnapshot, PayrollPeriodStatus } from './payrollPeriod.service';
+import { roundCurrency } from './taxCalculation.service';
+import { WorkArea, WorkAreaType } from './employee.service';
+
+/**
+ * Report Service
+ *
+ * Yönetim raporları. Tutarlar puantaj ekranıyla aynı hesaplamadan gelir;
+ * kapatılmış dönemlerde kapanış snapshot'ı kullanılır.
+ */
+
+export interface EmployerCostTotals {
+  employeeCount: number;
+  earnedSalary: number;
+  overtime: number;
+  // Ödeme türü kalemlerinden gelen ek kazançlar (resmi + elden)
+  componentEarnings: number;
+  sgkEmployer: number;
+  unemploymentEmployer: number;
+  totalCost: number;
+}
+
+export interface EmployerCostAreaRow {
+  workArea: string;
+  current: EmployerCostTotals;
+  previous: EmployerCostTotals;
+  // Bir önceki aya göre toplam maliyet farkı
+  change: number;
+  // Önceki ay maliyeti yoksa null
+  changeRate: number | null;
+}
+
+export interface EmployerCostReport {
+  month: number;
+  year: number;
+  previousMonth: number;
+  previousYear: number;
+  areas: EmployerCostAreaRow[];
+  totals: {
+    current: EmployerCostTotals;
+    previous: EmployerCostTotals;
+    change: number;
+    changeRate: number | null;
+  };
+}
+
+export type DenominationKind = 'BANKNOTE' | 'COIN';
+
+export interface DenominationCount {
+  value: number;
+  kind: DenominationKind;
+  count: number;
+}
+
+export interface CashEnvelopeRow {
+  employeeId: string;
+  fullName: string;
+  workArea: string;
+  isInsured: boolean;
+  amount: number;
+  // Zarfı tam dolduracak küpürler (büyükten küçüğe)
+  denominations: DenominationCount[];
+}
+
+export interface CashEnvelopeReport {
+  month: number;
+  year: number;
+  // null: tüm çalışma alanları
+  workArea: string | null;
+  // Dönem kapatılmadıysa tutarlar değişebilir
+  isClosed: boolean;
+  envelopes: CashEnvelopeRow[];
+  // Tüm zarflar için gereken küpür adetleri
+  denominations: Array<DenominationCount & { total: number }>;
+  totals: {
+    employeeCount: number;
+    amount: number;
+    banknoteCount: number;
+    coinCount: number;
+  };
+}
+
+// Tedavüldeki TL banknot ve madeni paraları, kuruş cinsinden
+const CASH_DENOMINATIONS: Array<{ kurus: number; kind: DenominationKind }> = [
+  { kurus: 20000, kind: 'BANKNOTE' },
+  { kurus: 10000, kind: 'BANKNOTE' },
+  { kurus: 5000, kind: 'BANKNOTE' },
+  { kurus: 2000, kind: 'BANKNOTE' },
+  { kurus: 1000, kind: 'BANKNOTE' },
+  { kurus: 500, kind: 'BANKNOTE' },
+  { kurus: 100, kind: 'COIN' },
+  { kurus: 50, kind: 'COIN' },
+  { kurus: 25, kind: 'COIN' },
+  { kurus: 10, kind: 'COIN' },
+  { kurus: 5, kind: 'COIN' },
+  { kurus: 1, kind: 'COIN' },
+];
+
+function validateReportPeriod(month: number, year: number): void {
+  if (month < 1 || month > 12) {
+    throw new AppError(400, 'INVALID_MONTH', 'Ay 1-12 arasında olmalıdır');
+  }
+  if (year < 2000 || year > 2100) {
+    throw new AppError(400, 'INVALID_YEAR', 'Yıl 2000-2100 arasında olmalıdır');
+  }
+}
+
+function emptyTotals(): EmployerCostTotals {
+  return {
+    employeeCount: 0,
+    earnedSalary: 0,
+    overtime: 0,
+    componentEarnings: 0,
+    sgkEmployer: 0,
+    unemploymentEmployer: 0,
+    totalCost: 0,
+  };
+}
+
+function addEntry(totals: EmployerCostTotals, entry: PayrollEntryResponse): void {
+  const overtime = Math.max(0, entry.overtime50) + Math.max(0, entry.overtime100);
+  const componentEarnings = entry.lineItems
+    .filter((item) => item.kind === 'EARNING')
+    .reduce((acc, item) => acc + Math.max(0, item.amount), 0);
+  const sgkEmployer = entry.taxBreakdown?.sgkEmployer ?? 0;
+  const unemploymentEmployer = entry.taxBreakdown?.unemploymentEmployer ?? 0;
+
+  totals.employeeCount += 1;
+  totals.earnedSalary += entry.earnedSalary;
+  totals.overtime += overtime;
+  totals.componentEarnings += componentEarnings;
+  totals.sgkEmployer += sgkEmployer;
+  totals.unemploymentEmployer += unemploymentEmployer;
+  totals.totalCost += entry.earnedSalary + overtime + componentEarnings + sgkEmployer + unemploymentEmployer;
+}
+
+function roundTotals(totals: EmployerCostTotals): EmployerCostTotals {
+  return {
+    employeeCount: totals.employeeCount,
+    earnedSalary: roundCurrency(totals.earnedSalary),
+    overtime: roundCurrency(totals.overtime),
+    componentEarnings: roundCurrency(totals.componentEarnings),
+    sgkEmployer: roundCurrency(totals.sgkEmployer),
+    unemploymentEmployer: roundCurrency(totals.unemploymentEmployer),
+    totalCost: roundCurrency(totals.totalCost),
+  };
+}
+
+function calculateChange(current: EmployerCostTotals, previous: EmployerCostTotals) {
+  const change = roundCurrency(current.totalCost - previous.totalCost);
+  const changeRate = previous.totalCost > 0
+    ? Math.round((change / previous.totalCost) * 10000) / 10000
+    : null;
+  return { change, changeRate };
+}
+
+/**
+ * Dönemin puantaj kayıtları; hiç açılmamış geçmiş dönem için kayıt oluşturulmaz
+ */
+async function getPeriodEntries(month: number, year: number): Promise<PayrollEntryResponse[]> {
+  const snapshot = await getPeriodSnapshot<PayrollEntryResponse>(month, year);
+  if (snapshot) return snapshot.map(withSnapshotDefaults);
+
+  const count = await prisma.payrollEntry.count({ where: { month, year } });
+  if (count === 0) return [];
+
+  return getPayrollByMonth(month, year);
+}
+
+function groupByWorkArea(entries: PayrollEntryResponse[]): Map<string, EmployerCostTotals> {
+  const result = new Map<string, EmployerCostTotals>();
+  for (const entry of entries) {
+    const totals = result.get(entry.employee.workArea) ?? emptyTotals();
+    addEntry(totals, entry);
+    result.set(entry.employee.workArea, totals);
+  }
+  return result;
+}
+
+/**
+ * İşveren maliyeti raporu (çalışma alanı bazında, önceki ay karşılaştırmalı)
+ * Maliyet = hak edilen maaş + mesai + ek kazançlar + işveren SGK payı + işveren işsizlik payı
+ */
+export async function getEmployerCostReport(month: number, year: number): Promise<EmployerCostReport> {
+  validateReportPeriod(month, year);
+
+  const previousMonth = month === 1 ? 12 : month - 1;
+  const previousYear = month === 1 ? year - 1 : year;
+
+  const currentByArea = groupByWorkArea(await getPeriodEntries(month, year));
+  const previousByArea = groupByWorkArea(
+    previousYear >= 2000 ? await getPeriodEntries(previousMonth, previousYear) : []
+  );
+
+  const workAreas = Array.from(new Set([...currentByArea.keys(), ...previousByArea.keys()])).sort();
+  const currentTotals = emptyTotals();
+  const previousTotals = emptyTotals();
+
+  const areas = workAreas.map((workArea) => {
+    const current = roundTotals(currentByArea.get(workArea) ?? emptyTotals());
+    const previous = roundTotals(previousByArea.get(workArea) ?? emptyTotals());
+
+    for (const key of Object.keys(currentTotals) as (keyof EmployerCostTotals)[]) {
+      currentTotals[key] += current[key];
+      previousTotals[key] += previous[key];
+    }
+
+    return { workArea, current, previous, ...calculateChange(current, previous) };
+  });
+
+  const current = roundTotals(currentTotals);
+  const previous = roundTotals(previousTotals);
+
+  return {
+    month,
+    year,
+    previousMonth,
+    previousYear,
+    areas,
+    totals: { current, previous, ...calculateChange(current, previous) },
+  };
+}
+
+/**
+ * Tutarı en az sayıda küpürle karşılar (saf fonksiyon).
+ * TL küpür serisinde büyükten küçüğe açgözlü seçim en az adedi verir; hesap kuruş üzerinden yapılır.
+ */
+export function breakDownCashAmount(amount: number): DenominationCount[] {
+  let remaining = Math.round(amount * 100);
+  const result: DenominationCount[] = [];
+
+  for (const denomination of CASH_DENOMINATIONS) {
+    const count = Math.floor(remaining / denomination.kurus);
+    if (count === 0) continue;
+    remaining -= count * denomination.kurus;
+    result.push({ value: denomination.kurus / 100, kind: denomination.kind, count });
+  }
+  return result;
+}
+
+/**
+ * Nakit ödeme zarf listesi: dönemin elden ödemesi (cashPayment) olan çalışanları ve
+ * her zarfı tam dolduracak küpür dağılımı. Toplam küpür ihtiyacı zarf bazındaki dağılımların toplamıdır;
+ * toplam tutarın tek seferde bozdurulması zarflara bölünemeyebilir.
+ */
+export async function getCashEnvelopeReport(
+  month: number,
+  year: number,
+  workArea?: string
+): Promise<CashEnvelopeReport> {
+  validateReportPeriod(month, year);
+  if (workArea && !Object.values(WorkArea).includes(workArea as WorkAreaType)) {
+    throw new AppError(400, 'INVALID_WORK_AREA', 'Geçersiz çalışma alanı');
+  }
+
+  const period = await getPayrollPeriod(month, year);
+  const entries = (await getPeriodEntries(month, year)).filter(
+    (entry) => Math.round(entry.cashPayment * 100) > 0 && (!workArea || entry.employee.workArea === workArea)
+  );
+
+  const envelopes: CashEnvelopeRow[] = entries
+    .map((entry) => {
+      const amount = roundCurrency(entry.cashPayment);
+      return {
+        employeeId: entry.employeeId,
+        fullName: entry.employee.fullName,
+        workArea: entry.employee.workArea,
+        isInsured: entry.employee.isInsured,
+        amount,
+        denominations: breakDownCashAmount(amount),
+      };
+    })
+    .sort((a, b) => a.workArea.localeCompare(b.workArea) || a.fullName.localeCompare(b.fullName, 'tr-TR'));
+
+  // Küpür adetleri kuruş değerine göre toplanır
+  const counts = new Map<number, number>();
+  for (const envelope of envelopes) {
+    for (const denomination of envelope.denominations) {
+      const kurus = Math.round(denomination.value * 100);
+      counts.set(kurus, (counts.get(kurus) ?? 0) + denomination.count);
+    }
+  }
+
+  const denominations = CASH_DENOMINATIONS.filter((denomination) => counts.has(denomination.kurus)).map(
+    (denomination) => {
+      const count = counts.get(denomination.kurus) ?? 0;
+      return {
+        value: denomination.kurus / 100,
+        kind: denomination.kind,
+        count,
+        total: (denomination.kurus * count) / 100,
+      };
+    }
+  );
+
+  return {
+    month,
+    year,
+    workArea: workArea || null,
+    isClosed: period.status === PayrollPeriodStatus.CLOSED,
+    envelopes,
+    denominations,
+    totals: {
+      employeeCount: envelopes.length,
+      amount: roundCurrency(envelopes.reduce((acc, envelope) => acc + envelope.amount, 0)),
+      banknoteCount: denominations
+        .filter((denomination) => denomination.kind === 'BANKNOTE')
+        .reduce((acc, denomination) => acc + denomination.count, 0),
+      coinCount: denominations
+        .filter((denomination) => denomination.kind === 'COIN')
+        .reduce((acc, denomination) => acc + denomination.count, 0),
+    },
+  };
+}
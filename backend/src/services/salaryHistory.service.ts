@@ -0,0 +1,306 @@
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import prisma from '../utils/prisma';
+import { AppError } from '../middleware/errorHandler';
+import { assertPeriodOpen, findLaterClosedPeriod } from './payrollPeriod.service';
+
+/**
+ * Salary History Service
+ *
+ * Çalışanın maaş / çalışma günü bilgisinin geçerlilik tarihli geçmişi.
+ * Bir dönem için, o dönemin son gününe kadar yürürlüğe girmiş en son kayıt geçerlidir.
+ * Employee.salary ve Employee.workingDays bugün geçerli olan kaydın kopyasıdır.
+ */
+
+const dateString = z.string().refine((val) => !isNaN(Date.parse(val)), {
+  message: 'Geçerli bir tarih giriniz',
+});
+
+export const createSalaryHistorySchema = z.object({
+  effectiveFrom: dateString,
+  salary: z.number().positive('Maaş pozitif bir sayı olmalıdır'),
+  workingDays: z.number().int().min(1).max(31).default(30),
+  note: z.string().max(255, 'Not çok uzun').optional().nullable(),
+});
+
+export const updateSalaryHistorySchema = createSalaryHistorySchema.partial();
+
+export type CreateSalaryHistoryInput = z.infer<typeof createSalaryHistorySchema>;
+export type UpdateSalaryHistoryInput = z.infer<typeof updateSalaryHistorySchema>;
+
+export interface SalaryValues {
+  salary: number;
+  workingDays: number;
+}
+
+export function validateSalaryHistoryInput(
+  input: unknown,
+  isUpdate: boolean = false
+): { success: true; data: CreateSalaryHistoryInput | UpdateSalaryHistoryInput } | { success: false; errors: Record<string, string[]> } {
+  const schema = isUpdate ? updateSalaryHistorySchema : createSalaryHistorySchema;
+  const result = schema.safeParse(input);
+  if (result.success) return { success: true, data: result.data };
+
+  const errors: Record<string, string[]> = {};
+  for (const error of result.error.errors) {
+    const field = error.path.join('.');
+    if (!errors[field]) errors[field] = [];
+    errors[field].push(error.message);
+  }
+  return { success: false, errors };
+}
+
+/**
+ * Tarihi gün başına (UTC) indirger; aynı gün için tek kayıt tutulur
+ */
+function toEffectiveDate(value: string | Date): Date {
+  const date = new Date(value);
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Verilen dönemin bir sonraki ayının ilk günü (UTC)
+ */
+function nextPeriodStart(month: number, year: number): Date {
+  return new Date(Date.UTC(year, month, 1));
+}
+
+/**
+ * Verilen dönem için geçerli maaş kaydını seçer (saf fonksiyon).
+ * Dönem sonuna kadar yürürlüğe girmiş en son kayıt geçerlidir; dönemden önce
+ * hiç kayıt yoksa en eski kayıt kullanılır.
+ */
+export function resolveSalaryForPeriod<T extends SalaryValues & { effectiveFrom: Date }>(
+  history: T[],
+  month: number,
+  year: number
+): T | null {
+  const limit = nextPeriodStart(month, year).getTime();
+  let selected: T | null = null;
+  let earliest: T | null = null;
+  for (const row of history) {
+    const time = row.effectiveFrom.getTime();
+    if (!earliest || time < earliest.effectiveFrom.getTime()) earliest = row;
+    if (time >= limit) continue;
+    if (!selected || time > selected.effectiveFrom.getTime()) selected = row;
+  }
+  return selected ?? earliest;
+}
+
+/**
+ * Çalışan bilgisini dönemin maaş değerleriyle döndürür
+ */
+export function applyPeriodSalary<E extends SalaryValues>(employee: E, values: SalaryValues | undefined): E {
+  if (!values) return employee;
+  return { ...employee, salary: values.salary, workingDays: values.workingDays };
+}
+
+/**
+ * Birden çok çalışan için dönemin geçerli maaşlarını getirir
+ */
+export async function getSalariesForPeriod(
+  employeeIds: string[],
+  month: number,
+  year: number
+): Promise<Map<string, SalaryValues>> {
+  const result = new Map<string, SalaryValues>();
+  if (employeeIds.length === 0) return result;
+
+  const rows = await prisma.salaryHistory.findMany({
+    where: { employeeId: { in: employeeIds } },
+  });
+
+  const byEmployee = new Map<string, typeof rows>();
+  for (const row of rows) {
+    const list = byEmployee.get(row.employeeId) ?? [];
+    list.push(row);
+    byEmployee.set(row.employeeId, list);
+  }
+
+  for (const [employeeId, history] of byEmployee) {
+    const selected = resolveSalaryForPeriod(history, month, year);
+    if (selected) {
+      result.set(employeeId, { salary: selected.salary, workingDays: selected.workingDays });
+    }
+  }
+  return result;
+}
+
+/**
+ * Tek çalışan için dönemin geçerli maaşı; geçmiş yoksa çalışan kaydı kullanılır
+ */
+export async function getSalaryForPeriod(
+  employee: { id: string } & SalaryValues,
+  month: number,
+  year: number
+): Promise<SalaryValues> {
+  const salaries = await getSalariesForPeriod([employee.id], month, year);
+  return salaries.get(employee.id) ?? { salary: employee.salary, workingDays: employee.workingDays };
+}
+
+/**
+ * Employee.salary / workingDays alanlarını bugün geçerli kayıtla eşitler
+ */
+async function syncEmployeeSalary(tx: Prisma.TransactionClient, employeeId: string): Promise<void> {
+  const history = await tx.salaryHistory.findMany({ where: { employeeId } });
+  const now = new Date();
+  const current = resolveSalaryForPeriod(history, now.getUTCMonth() + 1, now.getUTCFullYear());
+  if (!current) return;
+
+  await tx.employee.update({
+    where: { id: employeeId },
+    data: { salary: current.salary, workingDays: current.workingDays },
+  });
+}
+
+/**
+ * Maaş kaydı geçerli olduğu aydan itibaren puantajı ve kümülatif vergi matrahını değiştirir;
+ * o ay veya sonrasında kapanmış dönem varsa snapshot ile çelişmemesi için değişiklik engellenir
+ */
+export async function assertSalaryChangeAllowed(effectiveFrom: Date): Promise<void> {
+  const date = toEffectiveDate(effectiveFrom);
+  const month = date.getUTCMonth() + 1;
+  const year = date.getUTCFullYear();
+  await assertPeriodOpen(month, year);
+
+  const laterClosed = await findLaterClosedPeriod(month, year);
+  if (laterClosed) {
+    throw new AppError(
+      409,
+      'SALARY_PERIOD_CLOSED',
+      `Maaş değişikliği kapatılmış ${laterClosed.month}/${laterClosed.year} dönemini etkiliyor; önce o dönemi yeniden açın`
+    );
+  }
+}
+
+/**
+ * Maaş değişikliğini geçmişe işler (aynı tarihli kayıt varsa üzerine yazar).
+ * Çalışan oluşturma / güncelleme işlemleri tarafından transaction içinde kullanılır.
+ */
+export async function recordSalaryChange(
+  tx: Prisma.TransactionClient,
+  employeeId: string,
+  values: SalaryValues,
+  effectiveFrom: Date,
+  note?: string | null
+): Promise<void> {
+  const date = toEffectiveDate(effectiveFrom);
+  await tx.salaryHistory.upsert({
+    where: { employeeId_effectiveFrom: { employeeId, effectiveFrom: date } },
+    update: { salary: values.salary, workingDays: values.workingDays },
+    create: {
+      employeeId,
+      effectiveFrom: date,
+      salary: values.salary,
+      workingDays: values.workingDays,
+      note: note ?? null,
+    },
+  });
+  await syncEmployeeSalary(tx, employeeId);
+}
+
+const historyInclude = {
+  employee: { select: { id: true, fullName: true } },
+} as const;
+
+export async function listSalaryHistory(employeeId: string) {
+  const employee = await prisma.employee.findUnique({ where: { id: employeeId } });
+  if (!employee) {
+    throw new AppError(404, 'EMPLOYEE_NOT_FOUND', 'Çalışan bulunamadı');
+  }
+
+  return prisma.salaryHistory.findMany({
+    where: { employeeId },
+    orderBy: { effectiveFrom: 'desc' },
+    include: historyInclude,
+  });
+}
+
+export async function getSalaryHistoryById(id: string) {
+  const row = await prisma.salaryHistory.findUnique({
+    where: { id },
+    include: historyInclude,
+  });
+  if (!row) {
+    throw new AppError(404, 'SALARY_HISTORY_NOT_FOUND', 'Maaş geçmişi kaydı bulunamadı');
+  }
+  return row;
+}
+
+async function assertEffectiveDateFree(employeeId: string, effectiveFrom: Date, excludeId?: string) {
+  const conflict = await prisma.salaryHistory.findUnique({
+    where: { employeeId_effectiveFrom: { employeeId, effectiveFrom } },
+  });
+  if (conflict && conflict.id !== excludeId) {
+    throw new AppError(409, 'SALARY_HISTORY_EXISTS', 'Bu tarih için zaten bir maaş kaydı var');
+  }
+}
+
+export async function createSalaryHistory(employeeId: string, input: CreateSalaryHistoryInput) {
+  const employee = await prisma.employee.findUnique({ where: { id: employeeId } });
+  if (!employee) {
+    throw new AppError(404, 'EMPLOYEE_NOT_FOUND', 'Çalışan bulunamadı');
+  }
+
+  const validatedData = createSalaryHistorySchema.parse(input);
+  const effectiveFrom = toEffectiveDate(validatedData.effectiveFrom);
+  await assertSalaryChangeAllowed(effectiveFrom);
+  await assertEffectiveDateFree(employeeId, effectiveFrom);
+
+  return prisma.$transaction(async (tx) => {
+    const row = await tx.salaryHistory.create({
+      data: {
+        employeeId,
+        effectiveFrom,
+        salary: validatedData.salary,
+        workingDays: validatedData.workingDays,
+        note: validatedData.note?.trim() || null,
+      },
+      include: historyInclude,
+    });
+    await syncEmployeeSalary(tx, employeeId);
+    return row;
+  });
+}
+
+export async function updateSalaryHistory(id: string, input: UpdateSalaryHistoryInput) {
+  const existing = await getSalaryHistoryById(id);
+  const validatedData = updateSalaryHistorySchema.parse(input);
+  await assertSalaryChangeAllowed(existing.effectiveFrom);
+
+  const updateData: Record<string, unknown> = {};
+  if (validatedData.effectiveFrom !== undefined) {
+    const effectiveFrom = toEffectiveDate(validatedData.effectiveFrom);
+    await assertSalaryChangeAllowed(effectiveFrom);
+    await assertEffectiveDateFree(existing.employeeId, effectiveFrom, id);
+    updateData.effectiveFrom = effectiveFrom;
+  }
+  if (validatedData.salary !== undefined) updateData.salary = validatedData.salary;
+  if (validatedData.workingDays !== undefined) updateData.workingDays = validatedData.workingDays;
+  if (validatedData.note !== undefined) updateData.note = validatedData.note?.trim() || null;
+
+  return prisma.$transaction(async (tx) => {
+    const row = await tx.salaryHistory.update({
+      where: { id },
+      data: updateData,
+      include: historyInclude,
+    });
+    await syncEmployeeSalary(tx, existing.employeeId);
+    return row;
+  });
+}
+
+export async function deleteSalaryHistory(id: string): Promise<void> {
+  const existing = await getSalaryHistoryById(id);
+  await assertSalaryChangeAllowed(existing.effectiveFrom);
+
+  const count = await prisma.salaryHistory.count({ where: { employeeId: existing.employeeId } });
+  if (count <= 1) {
+    throw new AppError(400, 'SALARY_HISTORY_LAST', 'Çalışanın en az bir maaş kaydı kalmalıdır');
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.salaryHistory.delete({ where: { id } });
+    await syncEmployeeSalary(tx, existing.employeeId);
+  });
+}
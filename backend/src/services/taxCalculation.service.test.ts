@@ -0,0 +1,183 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateBracketTax,
+  calculateGrossToNet,
+  calculateMonthlyIncomeTax,
+  TaxCalculationInput,
+  TaxParameterValues,
+  validateTaxParameterValues,
+} from './taxCalculation.service';
+
+const PARAMS: TaxParameterValues = {
+  year: 2025,
+  minimumWageGross: 26005.5,
+  sgkCeiling: 195041.4,
+  sgkEmployeeRate: 0.14,
+  unemploymentEmployeeRate: 0.01,
+  sgkEmployerRate: 0.2175,
+  unemploymentEmployerRate: 0.02,
+  stampTaxRate: 0.00759,
+  incomeTaxBrackets: [
+    { upTo: 158000, rate: 0.15 },
+    { upTo: 330000, rate: 0.2 },
+    { upTo: 1200000, rate: 0.27 },
+    { upTo: 4300000, rate: 0.35 },
+    { upTo: null, rate: 0.4 },
+  ],
+};
+
+// Asgari ücretin işçi payları düşülmüş aylık vergi matrahı
+const MINIMUM_WAGE_TAX_BASE = PARAMS.minimumWageGross * 0.85;
+
+function buildInput(overrides: Partial<TaxCalculationInput> = {}): TaxCalculationInput {
+  return {
+    salary: 40000,
+    workingDays: 30,
+    daysWorked: 30,
+    advance: 0,
+    overtime50: 0,
+    overtime100: 0,
+    officialPayment: 0,
+    cashPayment: 0,
+    month: 1,
+    ...overrides,
+  };
+}
+
+describe('calculateBracketTax', () => {
+  it('returns 0 for a non-positive base', () => {
+    expect(calculateBracketTax(0, PARAMS.incomeTaxBrackets)).toBe(0);
+    expect(calculateBracketTax(-100, PARAMS.incomeTaxBrackets)).toBe(0);
+  });
+
+  it('taxes each bracket slice at its own rate', () => {
+    // 158.000 × %15 + 42.000 × %20
+    expect(calculateBracketTax(200000, PARAMS.incomeTaxBrackets)).toBeCloseTo(32100, 6);
+  });
+
+  it('applies the open-ended last bracket', () => {
+    const expected = 158000 * 0.15 + 172000 * 0.2 + 870000 * 0.27 + 3100000 * 0.35 + 700000 * 0.4;
+    expect(calculateBracketTax(5000000, PARAMS.incomeTaxBrackets)).toBeCloseTo(expected, 6);
+  });
+});
+
+describe('calculateMonthlyIncomeTax', () => {
+  it('splits the month across the bracket boundary', () => {
+    // 8.000 × %15 (dilim sonuna kadar) + 12.000 × %20
+    expect(calculateMonthlyIncomeTax(150000, 20000, PARAMS.incomeTaxBrackets)).toBeCloseTo(3600, 6);
+  });
+
+  it('uses the higher rate once the cumulative base is past the boundary', () => {
+    expect(calculateMonthlyIncomeTax(200000, 10000, PARAMS.incomeTaxBrackets)).toBeCloseTo(2000, 6);
+  });
+});
+
+describe('calculateGrossToNet', () => {
+  it('charges the higher bracket on the part of the month above the boundary', () => {
+    const result = calculateGrossToNet(buildInput({ month: 6, previousCumulativeTaxBase: 150000 }), PARAMS);
+
+    // 40.000 - %14 SGK - %1 işsizlik
+    expect(result.incomeTaxBase).toBe(34000);
+    expect(result.cumulativeTaxBase).toBe(184000);
+    expect(result.incomeTax).toBe(8000 * 0.15 + 26000 * 0.2);
+  });
+
+  it('raises the SGK base to the minimum wage floor', () => {
+    const result = calculateGrossToNet(buildInput({ salary: 20000 }), PARAMS);
+    expect(result.sgkBase).toBe(26005.5);
+    expect(result.sgkEmployee).toBe(3640.77);
+  });
+
+  it('caps the SGK base at the ceiling', () => {
+    const result = calculateGrossToNet(buildInput({ salary: 300000 }), PARAMS);
+    expect(result.sgkBase).toBe(195041.4);
+    expect(result.sgkEmployer).toBe(42421.5);
+  });
+
+  it('prorates the SGK floor and ceiling by days worked', () => {
+    const floored = calculateGrossToNet(buildInput({ salary: 20000, daysWorked: 15 }), PARAMS);
+    expect(floored.sgkDays).toBe(15);
+    expect(floored.sgkBase).toBe(13002.75);
+
+    const capped = calculateGrossToNet(buildInput({ salary: 300000, daysWorked: 10 }), PARAMS);
+    expect(capped.sgkBase).toBe(65013.8);
+  });
+
+  it('counts at most 30 SGK days', () => {
+    const result = calculateGrossToNet(buildInput({ workingDays: 31, daysWorked: 31 }), PARAMS);
+    expect(result.sgkDays).toBe(30);
+  });
+
+  it('exempts a minimum wage earner from income and stamp tax', () => {
+    const result = calculateGrossToNet(buildInput({ salary: PARAMS.minimumWageGross, month: 7 }), PARAMS);
+
+    expect(result.incomeTax).toBeGreaterThan(0);
+    expect(result.netIncomeTax).toBe(0);
+    expect(result.stampTax).toBeGreaterThan(0);
+    expect(result.netStampTax).toBe(0);
+    expect(result.netPay).toBe(22104.68);
+  });
+
+  it('limits the exemptions to the minimum wage share above it', () => {
+    const result = calculateGrossToNet(buildInput(), PARAMS);
+
+    expect(result.incomeTaxExemption).toBe(Math.round(MINIMUM_WAGE_TAX_BASE * 0.15 * 100) / 100);
+    expect(result.stampTaxExemption).toBe(197.38);
+    expect(result.netStampTax).toBe(Math.round((40000 - PARAMS.minimumWageGross) * 0.00759 * 100) / 100);
+  });
+
+  it('prorates the exemptions for a partial month', () => {
+    const result = calculateGrossToNet(buildInput({ daysWorked: 10 }), PARAMS);
+
+    expect(result.incomeTaxExemption).toBe(Math.round(((MINIMUM_WAGE_TAX_BASE * 10) / 30) * 0.15 * 100) / 100);
+    expect(result.stampTaxExemption).toBe(Math.round(((PARAMS.minimumWageGross * 10) / 30) * 0.00759 * 100) / 100);
+  });
+
+  it('computes the minimum wage exemption on its own cumulative base', () => {
+    // Asgari ücretin 8. ay kümülatifi 158.000 sınırını aşar; istisnanın bir kısmı %20 diliminden hesaplanır
+    const result = calculateGrossToNet(buildInput({ salary: 100000, month: 8, previousCumulativeTaxBase: 600000 }), PARAMS);
+    const expected = calculateMonthlyIncomeTax(MINIMUM_WAGE_TAX_BASE * 7, MINIMUM_WAGE_TAX_BASE, PARAMS.incomeTaxBrackets);
+
+    expect(MINIMUM_WAGE_TAX_BASE * 7).toBeLessThan(158000);
+    expect(MINIMUM_WAGE_TAX_BASE * 8).toBeGreaterThan(158000);
+    expect(result.incomeTaxExemption).toBe(Math.round(expected * 100) / 100);
+  });
+
+  it('adds employer shares on top of gross pay', () => {
+    const result = calculateGrossToNet(buildInput(), PARAMS);
+    expect(result.employerCost).toBe(40000 + 8700 + 800);
+  });
+
+  it('rejects an invalid month', () => {
+    expect(() => calculateGrossToNet(buildInput({ month: 13 }), PARAMS)).toThrow('Ay 1-12 arasında olmalıdır');
+  });
+});
+
+describe('validateTaxParameterValues', () => {
+  it('accepts valid parameters', () => {
+    expect(() => validateTaxParameterValues(PARAMS)).not.toThrow();
+  });
+
+  it('rejects brackets that are not ascending', () => {
+    const params = {
+      ...PARAMS,
+      incomeTaxBrackets: [
+        { upTo: 200000, rate: 0.15 },
+        { upTo: 100000, rate: 0.2 },
+        { upTo: null, rate: 0.27 },
+      ],
+    };
+    expect(() => validateTaxParameterValues(params)).toThrow('Dilim sınırları artan sırada olmalıdır');
+  });
+
+  it('requires the last bracket to be open-ended', () => {
+    const params = { ...PARAMS, incomeTaxBrackets: [{ upTo: 158000, rate: 0.15 }] };
+    expect(() => validateTaxParameterValues(params)).toThrow('Son dilimin üst sınırı olmamalıdır');
+  });
+
+  it('rejects a ceiling below the minimum wage', () => {
+    expect(() => validateTaxParameterValues({ ...PARAMS, sgkCeiling: 1000 })).toThrow(
+      'SGK tavanı asgari ücretten düşük olamaz'
+    );
+  });
+});
@@ -0,0 +1,248 @@
+import {
+  CalculationInput,
+  calculateDailyWage,
+  calculateEarnedSalary,
+  EMPTY_PAY_COMPONENT_TOTALS,
+  PayComponentTotals,
+} from './calculation.service';
+
+/**
+ * Tax Calculation Service
+ *
+ * Brütten nete bordro hesabı (SGK, işsizlik, gelir vergisi, damga vergisi,
+ * asgari ücret istisnaları ve işveren maliyeti) - saf fonksiyonlar olarak tasarlanmıştır.
+ * Oranlar ve dilimler yıllık vergi parametrelerinden gelir; bu modülde sabit değer tutulmaz.
+ */
+
+/**
+ * Gelir vergisi dilimi
+ * upTo: kümülatif matrahın üst sınırı (son dilim için null)
+ */
+export interface IncomeTaxBracket {
+  upTo: number | null;
+  rate: number;
+}
+
+/**
+ * Yıllık vergi parametreleri (oranlar kesir olarak: %14 → 0.14)
+ */
+export interface TaxParameterValues {
+  year: number;
+  minimumWageGross: number;
+  sgkCeiling: number;
+  sgkEmployeeRate: number;
+  unemploymentEmployeeRate: number;
+  sgkEmployerRate: number;
+  unemploymentEmployerRate: number;
+  stampTaxRate: number;
+  incomeTaxBrackets: IncomeTaxBracket[];
+}
+
+/**
+ * Vergi hesabı girdisi
+ */
+export interface TaxCalculationInput extends CalculationInput {
+  // Bordro ayı (asgari ücret istisnasının kümülatif matrahı için)
+  month: number;
+  // Önceki aylardan devreden kümülatif gelir vergisi matrahı
+  previousCumulativeTaxBase?: number;
+  // Ödeme / kesinti kalemleri (yalnızca resmi kazançlar brüte girer)
+  payComponents?: PayComponentTotals;
+}
+
+/**
+ * Brütten nete hesap sonucu
+ */
+export interface TaxBreakdown {
+  grossPay: number;
+  sgkDays: number;
+  sgkBase: number;
+  sgkEmployee: number;
+  unemploymentEmployee: number;
+  incomeTaxBase: number;
+  cumulativeTaxBase: number;
+  incomeTax: number;
+  incomeTaxExemption: number;
+  netIncomeTax: number;
+  stampTax: number;
+  stampTaxExemption: number;
+  netStampTax: number;
+  totalDeductions: number;
+  netPay: number;
+  sgkEmployer: number;
+  unemploymentEmployer: number;
+  employerCost: number;
+}
+
+// SGK ay esası 30 gündür
+const SGK_MONTH_DAYS = 30;
+
+/**
+ * Kuruş hassasiyetine yuvarlar
+ */
+export function roundCurrency(amount: number): number {
+  return Math.round((amount + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * Kümülatif matrah için dilimli gelir vergisini hesaplar
+ * Formül: her dilimde (dilime düşen matrah × dilim oranı) toplamı
+ *
+ * @param cumulativeBase - Yıl başından itibaren kümülatif matrah
+ * @param brackets - Gelir vergisi dilimleri (artan sırada)
+ * @returns Kümülatif matrah üzerinden toplam vergi
+ */
+export function calculateBracketTax(cumulativeBase: number, brackets: IncomeTaxBracket[]): number {
+  if (cumulativeBase <= 0) return 0;
+
+  let tax = 0;
+  let lower = 0;
+  for (const bracket of brackets) {
+    const upper = bracket.upTo ?? Infinity;
+    if (cumulativeBase <= lower) break;
+    const taxable = Math.min(cumulativeBase, upper) - lower;
+    tax += taxable * bracket.rate;
+    lower = upper;
+  }
+  return tax;
+}
+
+/**
+ * Ay içindeki vergiyi hesaplar
+ * Formül: Vergi(önceki kümülatif + bu ay matrahı) - Vergi(önceki kümülatif)
+ */
+export function calculateMonthlyIncomeTax(
+  previousCumulativeBase: number,
+  monthlyBase: number,
+  brackets: IncomeTaxBracket[]
+): number {
+  const previous = Math.max(0, previousCumulativeBase);
+  const current = Math.max(0, monthlyBase);
+  return calculateBracketTax(previous + current, brackets) - calculateBracketTax(previous, brackets);
+}
+
+/**
+ * Vergi parametrelerini doğrular
+ */
+export function validateTaxParameterValues(params: TaxParameterValues): void {
+  if (params.minimumWageGross <= 0) {
+    throw new Error('Asgari ücret brütü pozitif olmalıdır');
+  }
+  if (params.sgkCeiling < params.minimumWageGross) {
+    throw new Error('SGK tavanı asgari ücretten düşük olamaz');
+  }
+  if (params.incomeTaxBrackets.length === 0) {
+    throw new Error('En az bir gelir vergisi dilimi tanımlı olmalıdır');
+  }
+  let previous = 0;
+  params.incomeTaxBrackets.forEach((bracket, index) => {
+    const isLast = index === params.incomeTaxBrackets.length - 1;
+    if (bracket.rate < 0 || bracket.rate >= 1) {
+      throw new Error('Dilim oranı 0 ile 1 arasında olmalıdır');
+    }
+    if (isLast) {
+      if (bracket.upTo !== null) {
+        throw new Error('Son dilimin üst sınırı olmamalıdır');
+      }
+      return;
+    }
+    if (bracket.upTo === null || bracket.upTo <= previous) {
+      throw new Error('Dilim sınırları artan sırada olmalıdır');
+    }
+    previous = bracket.upTo;
+  });
+}
+
+/**
+ * Brütten nete bordro hesabı
+ *
+ * - Brüt: hak edilen maaş + %50 mesai + %100 mesai
+ * - SGK matrahı: brüt, (asgari ücret × gün / 30) ile (SGK tavanı × gün / 30) arasında sınırlanır
+ * - İşçi SGK / işsizlik payı: SGK matrahı × oran
+ * - Gelir vergisi matrahı: brüt - işçi SGK - işçi işsizlik
+ * - Gelir vergisi: kümülatif matrah üzerinden dilimli vergi farkı
+ * - Asgari ücret istisnası: asgari ücretin aynı aya kadarki kümülatif matrahı üzerinden
+ *   hesaplanan vergi (gün sayısına oranlanır), hesaplanan vergiyle sınırlıdır
+ * - Damga vergisi: brüt × oran, asgari ücret (gün oranlı) kısmı istisnadır
+ * - İşveren maliyeti: brüt + işveren SGK + işveren işsizlik
+ *
+ * @param input - Hesaplama girdisi (puantaj + ay + önceki kümülatif matrah)
+ * @param params - Yılın vergi parametreleri
+ * @returns Brüt / net / işveren maliyeti dökümü
+ */
+export function calculateGrossToNet(input: TaxCalculationInput, params: TaxParameterValues): TaxBreakdown {
+  if (input.month < 1 || input.month > 12) {
+    throw new Error('Ay 1-12 arasında olmalıdır');
+  }
+  if (input.overtime50 < 0 || input.overtime100 < 0) {
+    throw new Error('Mesai ücreti negatif olamaz');
+  }
+  validateTaxParameterValues(params);
+
+  const dailyWage = calculateDailyWage(input.salary, input.workingDays);
+  const earnedSalary = calculateEarnedSalary(dailyWage, input.daysWorked);
+  const basePay = earnedSalary + input.overtime50 + input.overtime100;
+  // Resmi ek kazançların tamamı brüte, yalnızca tabi kısımları prim ve vergi matrahlarına girer
+  const components = input.payComponents ?? EMPTY_PAY_COMPONENT_TOTALS;
+  const grossPay = basePay + components.officialEarnings;
+  const sgkGross = basePay + components.sgkLiableEarnings;
+  const taxableGross = basePay + components.taxableEarnings;
+
+  const sgkDays = Math.min(SGK_MONTH_DAYS, Math.max(0, input.daysWorked));
+  const dayRatio = sgkDays / SGK_MONTH_DAYS;
+
+  // SGK
+  const sgkFloor = params.minimumWageGross * dayRatio;
+  const sgkCap = params.sgkCeiling * dayRatio;
+  const sgkBase = sgkGross > 0 ? Math.min(Math.max(sgkGross, sgkFloor), sgkCap) : 0;
+  const sgkEmployee = sgkBase * params.sgkEmployeeRate;
+  const unemploymentEmployee = sgkBase * params.unemploymentEmployeeRate;
+
+  // Gelir vergisi
+  const previousCumulativeTaxBase = Math.max(0, input.previousCumulativeTaxBase ?? 0);
+  const incomeTaxBase = Math.max(0, taxableGross - sgkEmployee - unemploymentEmployee);
+  const incomeTax = calculateMonthlyIncomeTax(previousCumulativeTaxBase, incomeTaxBase, params.incomeTaxBrackets);
+
+  // Asgari ücret gelir vergisi istisnası
+  const minimumWageTaxBase =
+    params.minimumWageGross * (1 - params.sgkEmployeeRate - params.unemploymentEmployeeRate);
+  const minimumWageExemption = calculateMonthlyIncomeTax(
+    minimumWageTaxBase * (input.month - 1),
+    minimumWageTaxBase * dayRatio,
+    params.incomeTaxBrackets
+  );
+  const incomeTaxExemption = Math.min(incomeTax, minimumWageExemption);
+  const netIncomeTax = incomeTax - incomeTaxExemption;
+
+  // Damga vergisi
+  const stampTax = taxableGross * params.stampTaxRate;
+  const stampTaxExemption = Math.min(stampTax, params.minimumWageGross * dayRatio * params.stampTaxRate);
+  const netStampTax = stampTax - stampTaxExemption;
+
+  const totalDeductions = sgkEmployee + unemploymentEmployee + netIncomeTax + netStampTax;
+
+  // İşveren payları
+  const sgkEmployer = sgkBase * params.sgkEmployerRate;
+  const unemploymentEmployer = sgkBase * params.unemploymentEmployerRate;
+
+  return {
+    grossPay: roundCurrency(grossPay),
+    sgkDays,
+    sgkBase: roundCurrency(sgkBase),
+    sgkEmployee: roundCurrency(sgkEmployee),
+    unemploymentEmployee: roundCurrency(unemploymentEmployee),
+    incomeTaxBase: roundCurrency(incomeTaxBase),
+    cumulativeTaxBase: roundCurrency(previousCumulativeTaxBase + incomeTaxBase),
+    incomeTax: roundCurrency(incomeTax),
+    incomeTaxExemption: roundCurrency(incomeTaxExemption),
+    netIncomeTax: roundCurrency(netIncomeTax),
+    stampTax: roundCurrency(stampTax),
+    stampTaxExemption: roundCurrency(stampTaxExemption),
+    netStampTax: roundCurrency(netStampTax),
+    totalDeductions: roundCurrency(totalDeductions),
+    netPay: roundCurrency(grossPay - totalDeductions),
+    sgkEmployer: roundCurrency(sgkEmployer),
+    unemploymentEmployer: roundCurrency(unemploymentEmployer),
+    employerCost: roundCurrency(grossPay + sgkEmployer + unemploymentEmployer),
+  };
+}
@@ -0,0 +1,203 @@
+import prisma from '../utils/prisma';
+import { AppError } from '../middleware/errorHandler';
+import { getTaxParameterForYear } from './taxParameter.service';
+import { calculateGrossToNet, roundCurrency } from './taxCalculation.service';
+import { resolveSalaryForPeriod } from './salaryHistory.service';
+import { summarizePayComponents } from './calculation.service';
+
+/**
+ * Tax Ledger Service
+ *
+ * Çalışan bazında yıllık kümülatif gelir vergisi matrahı ve ödenen vergi.
+ * Her yıl Ocak ayında sıfırdan başlar; yıl içinde işe girenler ilk puantaj
+ * kayıtlarından itibaren birikir. Bir ay değiştiğinde o aydan yıl sonuna kadar
+ * tüm aylar yeniden hesaplanır.
+ */
+
+export interface TaxLedgerEntryResponse {
+  id: string;
+  employeeId: string;
+  year: number;
+  month: number;
+  grossPay: number;
+  taxBase: number;
+  cumulativeTaxBase: number;
+  incomeTax: number;
+  cumulativeIncomeTax: number;
+  stampTax: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Recalculate an employee's ledger for a year, starting from the given month
+ */
+export async function recalculateTaxLedger(employeeId: string, year: number, fromMonth: number = 1): Promise<void> {
+  await recalculateTaxLedgers([employeeId], year, fromMonth);
+}
+
+/**
+ * Recalculate the ledgers of several employees for a year in one pass (shared queries, single write)
+ */
+export async function recalculateTaxLedgers(employeeIds: string[], year: number, fromMonth: number = 1): Promise<void> {
+  if (employeeIds.length === 0) return;
+  const employees = await prisma.employee.findMany({ where: { id: { in: employeeIds } } });
+  if (employees.length === 0) return;
+
+  const ids = employees.map((employee) => employee.id);
+  const startMonth = Math.min(12, Math.max(1, fromMonth));
+  const taxParameter = await getTaxParameterForYear(year);
+
+  const [previousRows, entries, salaryHistory] = await Promise.all([
+    prisma.taxLedgerEntry.findMany({
+      where: { employeeId: { in: ids }, year, month: { lt: startMonth } },
+      orderBy: { month: 'asc' },
+    }),
+    prisma.payrollEntry.findMany({
+      where: { employeeId: { in: ids }, year, month: { gte: startMonth } },
+      include: { lineItems: { include: { componentType: true } } },
+      orderBy: { month: 'asc' },
+    }),
+    prisma.salaryHistory.findMany({ where: { employeeId: { in: ids } } }),
+  ]);
+
+  // Sıralı olduğu için her çalışanın başlangıç ayından önceki son satırı kalır
+  const previousByEmployee = new Map(previousRows.map((row) => [row.employeeId, row]));
+
+  const rows: {
+    employeeId: string;
+    year: number;
+    month: number;
+    grossPay: number;
+    taxBase: number;
+    cumulativeTaxBase: number;
+    incomeTax: number;
+    cumulativeIncomeTax: number;
+    stampTax: number;
+  }[] = [];
+
+  for (const employee of employees) {
+    if (!taxParameter || !employee.isInsured) continue;
+
+    // İşe giriş ayından önceki kayıtlar matraha katılmaz
+    const startDate = new Date(employee.startDate);
+    const hireKey = startDate.getUTCFullYear() * 12 + startDate.getUTCMonth();
+    const history = salaryHistory.filter((row) => row.employeeId === employee.id);
+
+    const previous = previousByEmployee.get(employee.id);
+    let cumulativeTaxBase = previous?.cumulativeTaxBase ?? 0;
+    let cumulativeIncomeTax = previous?.cumulativeIncomeTax ?? 0;
+
+    for (const entry of entries) {
+      if (entry.employeeId !== employee.id) continue;
+      if (year * 12 + (entry.month - 1) < hireKey) continue;
+
+      const salary = resolveSalaryForPeriod(history, entry.month, year) ?? employee;
+      const breakdown = calculateGrossToNet(
+        {
+          salary: salary.salary,
+          workingDays: salary.workingDays,
+          daysWorked: entry.daysWorked,
+          advance: entry.advance + entry.officialAdvance,
+          overtime50: Math.max(0, entry.overtime50),
+          overtime100: Math.max(0, entry.overtime100),
+          officialPayment: entry.officialPayment,
+          cashPayment: entry.cashPayment,
+          month: entry.month,
+          previousCumulativeTaxBase: cumulativeTaxBase,
+          payComponents: summarizePayComponents(entry.lineItems, employee.isInsured),
+        },
+        taxParameter
+      );
+
+      cumulativeTaxBase = breakdown.cumulativeTaxBase;
+      cumulativeIncomeTax = roundCurrency(cumulativeIncomeTax + breakdown.netIncomeTax);
+
+      rows.push({
+        employeeId: employee.id,
+        year,
+        month: entry.month,
+        grossPay: breakdown.grossPay,
+        taxBase: breakdown.incomeTaxBase,
+        cumulativeTaxBase,
+        incomeTax: breakdown.netIncomeTax,
+        cumulativeIncomeTax,
+        stampTax: breakdown.netStampTax,
+      });
+    }
+  }
+
+  await prisma.$transaction([
+    prisma.taxLedgerEntry.deleteMany({ where: { employeeId: { in: ids }, year, month: { gte: startMonth } } }),
+    prisma.taxLedgerEntry.createMany({ data: rows }),
+  ]);
+}
+
+/**
+ * Recalculate an employee's ledger from the period of the given date through every later year with payroll entries
+ */
+export async function recalculateTaxLedgerFrom(employeeId: string, from: Date): Promise<void> {
+  const fromMonth = from.getUTCMonth() + 1;
+  const fromYear = from.getUTCFullYear();
+  const latest = await prisma.payrollEntry.findFirst({
+    where: { employeeId },
+    orderBy: { year: 'desc' },
+    select: { year: true },
+  });
+  const lastYear = Math.max(fromYear, latest?.year ?? fromYear);
+
+  for (let year = fromYear; year <= lastYear; year++) {
+    await recalculateTaxLedger(employeeId, year, year === fromYear ? fromMonth : 1);
+  }
+}
+
+/**
+ * Recalculate the ledger of every employee that has payroll entries in the year
+ */
+export async function recalculateTaxLedgerForYear(year: number): Promise<number> {
+  const employees = await prisma.payrollEntry.findMany({
+    where: { year },
+    distinct: ['employeeId'],
+    select: { employeeId: true },
+  });
+
+  await recalculateTaxLedgers(employees.map(({ employeeId }) => employeeId), year, 1);
+  return employees.length;
+}
+
+/**
+ * Kümülatif matrahın verilen aydan önceki değeri (çalışan bazında)
+ */
+export async function getPreviousCumulativeTaxBases(
+  employeeIds: string[],
+  month: number,
+  year: number
+): Promise<Map<string, number>> {
+  const result = new Map<string, number>();
+  if (employeeIds.length === 0 || month <= 1) return result;
+
+  const rows = await prisma.taxLedgerEntry.findMany({
+    where: { employeeId: { in: employeeIds }, year, month: { lt: month } },
+    orderBy: { month: 'asc' },
+    select: { employeeId: true, cumulativeTaxBase: true },
+  });
+  // Sıralı olduğu için her çalışanın son (en yakın) ayı kalır
+  for (const row of rows) {
+    result.set(row.employeeId, row.cumulativeTaxBase);
+  }
+  return result;
+}
+
+/**
+ * List ledger rows of a year (optionally for a single employee)
+ */
+export async function getTaxLedger(year: number, employeeId?: string): Promise<TaxLedgerEntryResponse[]> {
+  if (year < 2000 || year > 2100) {
+    throw new AppError(400, 'INVALID_YEAR', 'Yıl 2000-2100 arasında olmalıdır');
+  }
+
+  return prisma.taxLedgerEntry.findMany({
+    where: { year, ...(employeeId ? { employeeId } : {}) },
+    orderBy: [{ employeeId: 'asc' }, { month: 'asc' }],
+  });
+}
@@ -0,0 +1,168 @@
+import { z } from 'zod';
+import prisma from '../utils/prisma';
+import { AppError } from '../middleware/errorHandler';
+import { IncomeTaxBracket, TaxParameterValues, validateTaxParameterValues } from './taxCalculation.service';
+
+/**
+ * Tax Parameter Service
+ *
+ * Yıllık vergi / SGK parametreleri. Bir yıl için kayıt yoksa brütten nete hesap yapılmaz.
+ */
+
+const rateSchema = z.number().min(0, 'Oran negatif olamaz').max(1, 'Oran 1\'den büyük olamaz');
+
+export const incomeTaxBracketSchema = z.object({
+  upTo: z.number().positive('Dilim sınırı pozitif olmalıdır').nullable(),
+  rate: rateSchema,
+});
+
+export const createTaxParameterSchema = z.object({
+  year: z.number().int().min(2000).max(2100),
+  minimumWageGross: z.number().positive('Asgari ücret brütü pozitif olmalıdır'),
+  sgkCeiling: z.number().positive('SGK tavanı pozitif olmalıdır'),
+  sgkEmployeeRate: rateSchema.default(0.14),
+  unemploymentEmployeeRate: rateSchema.default(0.01),
+  sgkEmployerRate: rateSchema,
+  unemploymentEmployerRate: rateSchema.default(0.02),
+  stampTaxRate: rateSchema.default(0.00759),
+  incomeTaxBrackets: z.array(incomeTaxBracketSchema).min(1, 'En az bir gelir vergisi dilimi tanımlı olmalıdır'),
+});
+
+export const updateTaxParameterSchema = createTaxParameterSchema.partial();
+
+export type CreateTaxParameterInput = z.infer<typeof createTaxParameterSchema>;
+export type UpdateTaxParameterInput = z.infer<typeof updateTaxParameterSchema>;
+
+export interface TaxParameterResponse extends TaxParameterValues {
+  id: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export function validateTaxParameterInput(
+  input: unknown,
+  isUpdate: boolean = false
+): { success: true; data: CreateTaxParameterInput | UpdateTaxParameterInput } | { success: false; errors: Record<string, string[]> } {
+  const schema = isUpdate ? updateTaxParameterSchema : createTaxParameterSchema;
+  const result = schema.safeParse(input);
+  if (result.success) return { success: true, data: result.data };
+
+  const errors: Record<string, string[]> = {};
+  for (const error of result.error.errors) {
+    const field = error.path.join('.');
+    if (!errors[field]) errors[field] = [];
+    errors[field].push(error.message);
+  }
+  return { success: false, errors };
+}
+
+function transformTaxParameter(parameter: {
+  id: string;
+  year: number;
+  minimumWageGross: number;
+  sgkCeiling: number;
+  sgkEmployeeRate: number;
+  unemploymentEmployeeRate: number;
+  sgkEmployerRate: number;
+  unemploymentEmployerRate: number;
+  stampTaxRate: number;
+  incomeTaxBrackets: string;
+  createdAt: Date;
+  updatedAt: Date;
+}): TaxParameterResponse {
+  return {
+    ...parameter,
+    incomeTaxBrackets: JSON.parse(parameter.incomeTaxBrackets) as IncomeTaxBracket[],
+  };
+}
+
+/**
+ * Parametre tutarlılığını kontrol eder (dilim sırası, tavan vb.)
+ */
+function assertConsistent(values: TaxParameterValues) {
+  try {
+    validateTaxParameterValues(values);
+  } catch (err) {
+    throw new AppError(400, 'INVALID_TAX_PARAMETER', (err as Error).message);
+  }
+}
+
+export async function listTaxParameters(): Promise<TaxParameterResponse[]> {
+  const parameters = await prisma.taxParameter.findMany({
+    orderBy: { year: 'desc' },
+  });
+  return parameters.map(transformTaxParameter);
+}
+
+export async function getTaxParameterById(id: string): Promise<TaxParameterResponse> {
+  const parameter = await prisma.taxParameter.findUnique({ where: { id } });
+  if (!parameter) {
+    throw new AppError(404, 'TAX_PARAMETER_NOT_FOUND', 'Vergi parametresi bulunamadı');
+  }
+  return transformTaxParameter(parameter);
+}
+
+/**
+ * Get the tax parameters of a year (null if not defined)
+ */
+export async function getTaxParameterForYear(year: number): Promise<TaxParameterValues | null> {
+  const parameter = await prisma.taxParameter.findUnique({ where: { year } });
+  return parameter ? transformTaxParameter(parameter) : null;
+}
+
+export async function createTaxParameter(input: CreateTaxParameterInput): Promise<TaxParameterResponse> {
+  const validatedData = createTaxParameterSchema.parse(input);
+  assertConsistent(validatedData);
+
+  const existing = await prisma.taxParameter.findUnique({ where: { year: validatedData.year } });
+  if (existing) {
+    throw new AppError(409, 'TAX_PARAMETER_EXISTS', 'Bu yıl için zaten vergi parametresi var');
+  }
+
+  const parameter = await prisma.taxParameter.create({
+    data: {
+      ...validatedData,
+      incomeTaxBrackets: JSON.stringify(validatedData.incomeTaxBrackets),
+    },
+  });
+  return transformTaxParameter(parameter);
+}
+
+export async function updateTaxParameter(id: string, input: UpdateTaxParameterInput): Promise<TaxParameterResponse> {
+  const existing = await getTaxParameterById(id);
+  const validatedData = updateTaxParameterSchema.parse(input);
+
+  const merged: TaxParameterValues = {
+    year: validatedData.year ?? existing.year,
+    minimumWageGross: validatedData.minimumWageGross ?? existing.minimumWageGross,
+    sgkCeiling: validatedData.sgkCeiling ?? existing.sgkCeiling,
+    sgkEmployeeRate: validatedData.sgkEmployeeRate ?? existing.sgkEmployeeRate,
+    unemploymentEmployeeRate: validatedData.unemploymentEmployeeRate ?? existing.unemploymentEmployeeRate,
+    sgkEmployerRate: validatedData.sgkEmployerRate ?? existing.sgkEmployerRate,
+    unemploymentEmployerRate: validatedData.unemploymentEmployerRate ?? existing.unemploymentEmployerRate,
+    stampTaxRate: validatedData.stampTaxRate ?? existing.stampTaxRate,
+    incomeTaxBrackets: validatedData.incomeTaxBrackets ?? existing.incomeTaxBrackets,
+  };
+  assertConsistent(merged);
+
+  if (merged.year !== existing.year) {
+    const conflict = await prisma.taxParameter.findUnique({ where: { year: merged.year } });
+    if (conflict) {
+      throw new AppError(409, 'TAX_PARAMETER_EXISTS', 'Bu yıl için zaten vergi parametresi var');
+    }
+  }
+
+  const parameter = await prisma.taxParameter.update({
+    where: { id },
+    data: {
+      ...merged,
+      incomeTaxBrackets: JSON.stringify(merged.incomeTaxBrackets),
+    },
+  });
+  return transformTaxParameter(parameter);
+}
+
+export async function deleteTaxParameter(id: string): Promise<void> {
+  await getTaxParameterById(id);
+  await prisma.taxParameter.delete({ where: { id } });
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateServiceLength,
+  calculateTermination,
+  getNoticeWeeks,
+  TerminationCalculationInput,
+} from './termination.service';
+
+function buildInput(overrides: Partial<TerminationCalculationInput> = {}): TerminationCalculationInput {
+  return {
+    startDate: new Date('2020-01-01T00:00:00Z'),
+    terminationDate: new Date('2024-12-31T00:00:00Z'),
+    reason: 'EMPLOYER_TERMINATION',
+    noticeGiven: true,
+    unusedLeaveDays: 0,
+    monthlySalary: 40000,
+    severanceCeiling: 46655.43,
+    stampTaxRate: 0.00759,
+    ...overrides,
+  };
+}
+
+describe('calculateServiceLength', () => {
+  it('counts both the start and the termination day', () => {
+    const service = calculateServiceLength(new Date('2020-01-01T00:00:00Z'), new Date('2024-12-31T00:00:00Z'));
+    expect(service).toEqual({ totalDays: 1827, years: 5, months: 0, days: 0 });
+  });
+
+  it('splits a partial service into years, months and days', () => {
+    const service = calculateServiceLength(new Date('2022-03-15T00:00:00Z'), new Date('2024-06-20T00:00:00Z'));
+    expect(service).toMatchObject({ years: 2, months: 3, days: 6 });
+  });
+
+  it('rejects a termination before the start date', () => {
+    expect(() =>
+      calculateServiceLength(new Date('2024-06-01T00:00:00Z'), new Date('2024-05-31T00:00:00Z'))
+    ).toThrow('Çıkış tarihi işe giriş tarihinden önce olamaz');
+  });
+});
+
+describe('getNoticeWeeks', () => {
+  it.each([
+    [0, 5, 2],
+    [0, 6, 4],
+    [1, 5, 4],
+    [1, 6, 6],
+    [2, 11, 6],
+    [3, 0, 8],
+  ])('gives %i years %i months of service %i weeks', (years, months, weeks) => {
+    expect(getNoticeWeeks({ totalDays: 0, years, months, days: 0 })).toBe(weeks);
+  });
+});
+
+describe('calculateTermination', () => {
+  it('pays severance per full year and deducts only stamp tax', () => {
+    const result = calculateTermination(buildInput());
+
+    expect(result.severanceBase).toBe(40000);
+    expect(result.severanceGross).toBe(200000);
+    expect(result.severanceStampTax).toBe(1518);
+    expect(result.severanceNet).toBe(198482);
+  });
+
+  it('caps the severance base at the ceiling', () => {
+    const result = calculateTermination(buildInput({ monthlySalary: 60000 }));
+
+    expect(result.severanceBase).toBe(46655.43);
+    expect(result.severanceGross).toBe(233277.15);
+  });
+
+  it('prorates severance for the remaining months and days', () => {
+    const result = calculateTermination(
+      buildInput({
+        startDate: new Date('2022-03-15T00:00:00Z'),
+        terminationDate: new Date('2024-06-20T00:00:00Z'),
+        monthlySalary: 30000,
+      })
+    );
+
+    // 2 yıl + 3 ay + 6 gün
+    expect(result.severanceGross).toBe(Math.round((60000 + 7500 + (30000 * 6) / 365) * 100) / 100);
+  });
+
+  it('pays no severance under a year of service or on resignation', () => {
+    const short = calculateTermination(buildInput({ startDate: new Date('2024-03-01T00:00:00Z') }));
+    expect(short.severanceGross).toBe(0);
+
+    const resigned = calculateTermination(buildInput({ reason: 'RESIGNATION' }));
+    expect(resigned.severanceGross).toBe(0);
+  });
+
+  it('refuses eligible severance without a ceiling', () => {
+    expect(() => calculateTermination(buildInput({ severanceCeiling: null }))).toThrow(
+      'Kıdem tazminatı tavanı tanımlı değil'
+    );
+  });
+
+  it('does not need a ceiling when no severance is due', () => {
+    const result = calculateTermination(buildInput({ reason: 'RESIGNATION', severanceCeiling: null }));
+    expect(result.severanceGross).toBe(0);
+  });
+
+  it('pays notice only when the employer terminates without notice', () => {
+    const withoutNotice = calculateTermination(buildInput({ noticeGiven: false }));
+    expect(withoutNotice.noticeWeeks).toBe(8);
+    expect(withoutNotice.noticePay).toBe(74666.67);
+
+    const resigned = calculateTermination(buildInput({ reason: 'RESIGNATION', noticeGiven: false }));
+    expect(resigned.noticePay).toBe(0);
+
+    expect(calculateTermination(buildInput()).noticePay).toBe(0);
+  });
+
+  it('pays unused leave at the daily wage and sums the total', () => {
+    const result = calculateTermination(buildInput({ noticeGiven: false, unusedLeaveDays: 10 }));
+
+    expect(result.dailySalary).toBe(1333.33);
+    expect(result.unusedLeavePay).toBe(13333.33);
+    expect(result.totalGross).toBe(Math.round((200000 + (40000 / 30) * 56 + (40000 / 30) * 10) * 100) / 100);
+  });
+
+  it('rejects a non-positive salary and negative leave days', () => {
+    expect(() => calculateTermination(buildInput({ monthlySalary: 0 }))).toThrow('Maaş pozitif olmalıdır');
+    expect(() => calculateTermination(buildInput({ unusedLeaveDays: -1 }))).toThrow('İzin günü negatif olamaz');
+  });
+});
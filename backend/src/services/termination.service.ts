@@ -0,0 +1,347 @@
+import { z } from 'zod';
+import prisma from '../utils/prisma';
+import { AppError } from '../middleware/errorHandler';
+import { getSalaryForPeriod } from './salaryHistory.service';
+import { getWageParameterForPeriod } from './wageParameter.service';
+import { getTaxParameterForYear } from './taxParameter.service';
+import { roundCurrency } from './taxCalculation.service';
+
+/**
+ * Termination Service
+ *
+ * İşten çıkışta kıdem tazminatı, ihbar tazminatı ve kullanılmayan izin ücreti hesabı.
+ * Hesaplama saf fonksiyonlarla yapılır; kayıt oluşturulurken çalışanın çıkış tarihi de işlenir.
+ */
+
+export const TERMINATION_REASONS = [
+  'EMPLOYER_TERMINATION',
+  'RESIGNATION',
+  'RETIREMENT',
+  'MILITARY_SERVICE',
+  'MARRIAGE',
+  'MISCONDUCT',
+  'MUTUAL_AGREEMENT',
+  'DEATH',
+] as const;
+
+export type TerminationReason = (typeof TERMINATION_REASONS)[number];
+
+// Kıdem tazminatına hak kazandırmayan çıkış nedenleri
+const SEVERANCE_EXCLUDED_REASONS: TerminationReason[] = ['RESIGNATION', 'MISCONDUCT'];
+
+// Yasal damga vergisi oranı (yılın vergi parametresi yoksa kullanılır)
+const DEFAULT_STAMP_TAX_RATE = 0.00759;
+
+// Yasal hesaplarda ay 30, yıl 365 gün esas alınır
+const LEGAL_MONTH_DAYS = 30;
+const LEGAL_YEAR_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const terminationSchema = z.object({
+  terminationDate: z.string().refine((val) => !isNaN(Date.parse(val)), {
+    message: 'Geçerli bir tarih giriniz',
+  }),
+  reason: z.enum(TERMINATION_REASONS, {
+    errorMap: () => ({ message: 'Geçersiz çıkış nedeni' }),
+  }),
+  noticeGiven: z.boolean().default(false),
+  unusedLeaveDays: z.number().min(0, 'İzin günü negatif olamaz').max(365).default(0),
+  note: z.string().max(255, 'Not çok uzun').optional().nullable(),
+});
+
+export type TerminationInput = z.infer<typeof terminationSchema>;
+
+export interface ServiceLength {
+  totalDays: number;
+  years: number;
+  months: number;
+  days: number;
+}
+
+export interface TerminationCalculationInput {
+  startDate: Date;
+  terminationDate: Date;
+  reason: TerminationReason;
+  noticeGiven: boolean;
+  unusedLeaveDays: number;
+  monthlySalary: number;
+  severanceCeiling: number | null;
+  stampTaxRate: number;
+}
+
+export interface TerminationCalculation {
+  terminationDate: Date;
+  reason: TerminationReason;
+  noticeGiven: boolean;
+  serviceDays: number;
+  serviceYears: number;
+  serviceMonths: number;
+  serviceRemainder: number;
+  monthlySalary: number;
+  dailySalary: number;
+  severanceCeiling: number | null;
+  severanceBase: number;
+  severanceGross: number;
+  severanceStampTax: number;
+  severanceNet: number;
+  noticeWeeks: number;
+  noticePay: number;
+  unusedLeaveDays: number;
+  unusedLeavePay: number;
+  totalGross: number;
+}
+
+export function validateTerminationInput(
+  input: unknown
+): { success: true; data: TerminationInput } | { success: false; errors: Record<string, string[]> } {
+  const result = terminationSchema.safeParse(input);
+  if (result.success) return { success: true, data: result.data };
+
+  const errors: Record<string, string[]> = {};
+  for (const error of result.error.errors) {
+    const field = error.path.join('.');
+    if (!errors[field]) errors[field] = [];
+    errors[field].push(error.message);
+  }
+  return { success: false, errors };
+}
+
+function toUtcDay(value: Date): Date {
+  return new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()));
+}
+
+/**
+ * Hizmet süresi (giriş ve çıkış günleri dahil)
+ */
+export function calculateServiceLength(startDate: Date, terminationDate: Date): ServiceLength {
+  const start = toUtcDay(startDate);
+  const end = toUtcDay(terminationDate);
+  if (end < start) {
+    throw new Error('Çıkış tarihi işe giriş tarihinden önce olamaz');
+  }
+
+  const totalDays = Math.round((end.getTime() - start.getTime()) / DAY_MS) + 1;
+
+  // Takvim farkı: çıkış gününün ertesi günü ile giriş günü arasındaki yıl / ay / gün
+  const endExclusive = new Date(end.getTime() + DAY_MS);
+  let years = endExclusive.getUTCFullYear() - start.getUTCFullYear();
+  let months = endExclusive.getUTCMonth() - start.getUTCMonth();
+  let days = endExclusive.getUTCDate() - start.getUTCDate();
+  if (days < 0) {
+    months -= 1;
+    days += new Date(Date.UTC(endExclusive.getUTCFullYear(), endExclusive.getUTCMonth(), 0)).getUTCDate();
+  }
+  if (months < 0) {
+    years -= 1;
+    months += 12;
+  }
+
+  return { totalDays, years, months, days };
+}
+
+/**
+ * İhbar süresi (hafta)
+ * 6 aydan az: 2, 6 ay - 1,5 yıl: 4, 1,5 - 3 yıl: 6, 3 yıldan fazla: 8
+ */
+export function getNoticeWeeks(service: ServiceLength): number {
+  const totalMonths = service.years * 12 + service.months;
+  if (totalMonths < 6) return 2;
+  if (totalMonths < 18) return 4;
+  if (totalMonths < 36) return 6;
+  return 8;
+}
+
+/**
+ * Kıdem tazminatı: en az 1 yıl hizmet ve hak kazandıran çıkış nedeni gerekir
+ */
+export function isSeveranceEligible(reason: TerminationReason, service: ServiceLength): boolean {
+  return service.years >= 1 && !SEVERANCE_EXCLUDED_REASONS.includes(reason);
+}
+
+/**
+ * İhbar tazminatı: işveren bildirim süresi vermeden sözleşmeyi feshettiyse ödenir
+ */
+export function isNoticePayDue(reason: TerminationReason, noticeGiven: boolean): boolean {
+  return reason === 'EMPLOYER_TERMINATION' && !noticeGiven;
+}
+
+/**
+ * İşten çıkış hesabı
+ *
+ * - Günlük brüt: aylık brüt / 30
+ * - Kıdem tazminatı: min(aylık brüt, kıdem tavanı) × (yıl + ay / 12 + gün / 365), yalnızca damga vergisi kesilir
+ * - İhbar tazminatı: günlük brüt × ihbar haftası × 7
+ * - Kullanılmayan izin ücreti: günlük brüt × izin günü
+ */
+export function calculateTermination(input: TerminationCalculationInput): TerminationCalculation {
+  if (input.monthlySalary <= 0) {
+    throw new Error('Maaş pozitif olmalıdır');
+  }
+  if (input.unusedLeaveDays < 0) {
+    throw new Error('İzin günü negatif olamaz');
+  }
+
+  const service = calculateServiceLength(input.startDate, input.terminationDate);
+  const dailySalary = input.monthlySalary / LEGAL_MONTH_DAYS;
+
+  const severanceEligible = isSeveranceEligible(input.reason, service);
+  if (severanceEligible && input.severanceCeiling === null) {
+    throw new Error('Kıdem tazminatı tavanı tanımlı değil');
+  }
+
+  const severanceBase = input.severanceCeiling !== null
+    ? Math.min(input.monthlySalary, input.severanceCeiling)
+    : input.monthlySalary;
+  const severanceGross = severanceEligible
+    ? severanceBase * service.years +
+      (severanceBase * service.months) / 12 +
+      (severanceBase * service.days) / LEGAL_YEAR_DAYS
+    : 0;
+  const severanceStampTax = severanceGross * input.stampTaxRate;
+
+  const noticeWeeks = getNoticeWeeks(service);
+  const noticePay = isNoticePayDue(input.reason, input.noticeGiven) ? dailySalary * noticeWeeks * 7 : 0;
+
+  const unusedLeavePay = dailySalary * input.unusedLeaveDays;
+
+  return {
+    terminationDate: toUtcDay(input.terminationDate),
+    reason: input.reason,
+    noticeGiven: input.noticeGiven,
+    serviceDays: service.totalDays,
+    serviceYears: service.years,
+    serviceMonths: service.months,
+    serviceRemainder: service.days,
+    monthlySalary: roundCurrency(input.monthlySalary),
+    dailySalary: roundCurrency(dailySalary),
+    severanceCeiling: input.severanceCeiling,
+    severanceBase: roundCurrency(severanceBase),
+    severanceGross: roundCurrency(severanceGross),
+    severanceStampTax: roundCurrency(severanceStampTax),
+    severanceNet: roundCurrency(severanceGross - severanceStampTax),
+    noticeWeeks,
+    noticePay: roundCurrency(noticePay),
+    unusedLeaveDays: input.unusedLeaveDays,
+    unusedLeavePay: roundCurrency(unusedLeavePay),
+    totalGross: roundCurrency(severanceGross + noticePay + unusedLeavePay),
+  };
+}
+
+const settlementInclude = {
+  employee: { select: { id: true, fullName: true, workArea: true, startDate: true } },
+} as const;
+
+/**
+ * Çıkış tarihindeki maaş ve parametrelerle hesabı yapar (kayıt oluşturmaz)
+ */
+export async function previewTermination(employeeId: string, input: TerminationInput): Promise<TerminationCalculation> {
+  const employee = await prisma.employee.findUnique({ where: { id: employeeId } });
+  if (!employee) {
+    throw new AppError(404, 'EMPLOYEE_NOT_FOUND', 'Çalışan bulunamadı');
+  }
+
+  const validatedData = terminationSchema.parse(input);
+  const terminationDate = toUtcDay(new Date(validatedData.terminationDate));
+  if (terminationDate < toUtcDay(employee.startDate)) {
+    throw new AppError(400, 'INVALID_TERMINATION_DATE', 'Çıkış tarihi işe giriş tarihinden önce olamaz');
+  }
+
+  const month = terminationDate.getUTCMonth() + 1;
+  const year = terminationDate.getUTCFullYear();
+  const salary = await getSalaryForPeriod(employee, month, year);
+  const wageParameter = await getWageParameterForPeriod(month, year);
+  const taxParameter = await getTaxParameterForYear(year);
+
+  // Tavansız kıdem tazminatı fazla ödeme demektir; tavan girilmeden hesap yapılmaz
+  const service = calculateServiceLength(employee.startDate, terminationDate);
+  if (wageParameter.severanceCeiling === null && isSeveranceEligible(validatedData.reason, service)) {
+    throw new AppError(
+      409,
+      'SEVERANCE_CEILING_MISSING',
+      `${month}/${year} dönemi için kıdem tazminatı tavanı tanımlı değil; önce ücret parametrelerine girin`
+    );
+  }
+
+  return calculateTermination({
+    startDate: employee.startDate,
+    terminationDate,
+    reason: validatedData.reason,
+    noticeGiven: validatedData.noticeGiven,
+    unusedLeaveDays: validatedData.unusedLeaveDays,
+    monthlySalary: salary.salary,
+    severanceCeiling: wageParameter.severanceCeiling,
+    stampTaxRate: taxParameter?.stampTaxRate ?? DEFAULT_STAMP_TAX_RATE,
+  });
+}
+
+export async function listTerminationSettlements(employeeId: string) {
+  const employee = await prisma.employee.findUnique({ where: { id: employeeId } });
+  if (!employee) {
+    throw new AppError(404, 'EMPLOYEE_NOT_FOUND', 'Çalışan bulunamadı');
+  }
+
+  return prisma.terminationSettlement.findMany({
+    where: { employeeId },
+    orderBy: { terminationDate: 'desc' },
+    include: settlementInclude,
+  });
+}
+
+export async function getTerminationSettlementById(id: string) {
+  const settlement = await prisma.terminationSettlement.findUnique({
+    where: { id },
+    include: settlementInclude,
+  });
+  if (!settlement) {
+    throw new AppError(404, 'TERMINATION_NOT_FOUND', 'İşten çıkış kaydı bulunamadı');
+  }
+  return settlement;
+}
+
+/**
+ * Hesabı kaydeder ve çalışanın çıkış tarihini işler
+ */
+export async function createTerminationSettlement(employeeId: string, input: TerminationInput, createdBy: string) {
+  const calculation = await previewTermination(employeeId, input);
+
+  const employee = await prisma.employee.findUniqueOrThrow({ where: { id: employeeId } });
+  const existing = await prisma.terminationSettlement.findFirst({
+    where: { employeeId, terminationDate: { gte: toUtcDay(employee.startDate) } },
+  });
+  if (existing) {
+    throw new AppError(409, 'TERMINATION_EXISTS', 'Bu çalışan için zaten bir işten çıkış kaydı var');
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const settlement = await tx.terminationSettlement.create({
+      data: {
+        employeeId,
+        ...calculation,
+        note: input.note?.trim() || null,
+        createdBy,
+      },
+      include: settlementInclude,
+    });
+    await tx.employee.update({
+      where: { id: employeeId },
+      data: { endDate: calculation.terminationDate },
+    });
+    return settlement;
+  });
+}
+
+/**
+ * Kaydı siler; çalışanın çıkış tarihi bu kayıttan geliyorsa geri alınır
+ */
+export async function deleteTerminationSettlement(id: string): Promise<void> {
+  const settlement = await getTerminationSettlementById(id);
+  const employee = await prisma.employee.findUniqueOrThrow({ where: { id: settlement.employeeId } });
+
+  await prisma.$transaction(async (tx) => {
+    await tx.terminationSettlement.delete({ where: { id } });
+    if (employee.endDate && employee.endDate.getTime() === settlement.terminationDate.getTime()) {
+      await tx.employee.update({ where: { id: employee.id }, data: { endDate: null } });
+    }
+  });
+}
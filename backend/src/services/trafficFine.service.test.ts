@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { buildDeductionSchedule, evaluateTrafficFine } from './trafficFine.service';
+
+describe('buildDeductionSchedule', () => {
+  it('splits the total into equal installments and puts the rounding difference on the last one', () => {
+    expect(buildDeductionSchedule(1000, { startMonth: 3, startYear: 2025, installments: 3 })).toEqual([
+      { month: 3, year: 2025, amount: 333.33 },
+      { month: 4, year: 2025, amount: 333.33 },
+      { month: 5, year: 2025, amount: 333.34 },
+    ]);
+  });
+
+  it('deducts a fixed monthly amount and the remainder in the last month', () => {
+    expect(buildDeductionSchedule(1000, { startMonth: 3, startYear: 2025, monthlyAmount: 400 })).toEqual([
+      { month: 3, year: 2025, amount: 400 },
+      { month: 4, year: 2025, amount: 400 },
+      { month: 5, year: 2025, amount: 200 },
+    ]);
+  });
+
+  it('rolls over into the next year', () => {
+    const schedule = buildDeductionSchedule(900, { startMonth: 11, startYear: 2025, installments: 3 });
+    expect(schedule.map(({ month, year }) => [month, year])).toEqual([
+      [11, 2025],
+      [12, 2025],
+      [1, 2026],
+    ]);
+  });
+
+  it('deducts in a single month when the monthly amount covers the total', () => {
+    expect(buildDeductionSchedule(250, { startMonth: 6, startYear: 2025, monthlyAmount: 400 })).toEqual([
+      { month: 6, year: 2025, amount: 250 },
+    ]);
+  });
+
+  it('returns no lines for a non-positive total or an empty plan', () => {
+    expect(buildDeductionSchedule(0, { startMonth: 1, startYear: 2025, installments: 2 })).toEqual([]);
+    expect(buildDeductionSchedule(500, { startMonth: 1, startYear: 2025 })).toEqual([]);
+  });
+});
+
+describe('evaluateTrafficFine', () => {
+  // Tebliğ 10 Mart: indirim 25 Mart'a, son ödeme 10 Nisan'a kadar
+  const notificationDate = new Date('2025-03-10T00:00:00Z');
+
+  function evaluate(payments: { paymentDate: string; amount: number }[], today: string) {
+    return evaluateTrafficFine(
+      {
+        amount: 1000,
+        notificationDate,
+        payments: payments.map((payment) => ({ ...payment, paymentDate: new Date(payment.paymentDate) })),
+      },
+      new Date(today)
+    );
+  }
+
+  it('offers the discounted amount within the discount period', () => {
+    const summary = evaluate([], '2025-03-20T00:00:00Z');
+
+    expect(summary.discountedAmount).toBe(750);
+    expect(summary.discountDeadline.toISOString().slice(0, 10)).toBe('2025-03-25');
+    expect(summary.dueDate.toISOString().slice(0, 10)).toBe('2025-04-10');
+    expect(summary.status).toBe('OPEN');
+    expect(summary.discountAvailable).toBe(true);
+    expect(summary.payableAmount).toBe(750);
+    expect(summary.remainingAmount).toBe(1000);
+  });
+
+  it('counts partial payments against the discounted amount', () => {
+    expect(evaluate([{ paymentDate: '2025-03-12', amount: 300 }], '2025-03-20T00:00:00Z').payableAmount).toBe(450);
+  });
+
+  it('is paid with discount when the discounted amount is paid by the deadline', () => {
+    const summary = evaluate([{ paymentDate: '2025-03-25', amount: 750 }], '2025-05-01T00:00:00Z');
+
+    expect(summary.status).toBe('PAID_DISCOUNTED');
+    expect(summary.remainingAmount).toBe(0);
+    expect(summary.payableAmount).toBe(0);
+  });
+
+  it('requires the full amount once the discount deadline has passed', () => {
+    const late = evaluate([{ paymentDate: '2025-03-26', amount: 750 }], '2025-03-30T00:00:00Z');
+    expect(late.status).toBe('OPEN');
+    expect(late.discountAvailable).toBe(false);
+    expect(late.payableAmount).toBe(250);
+
+    expect(evaluate([{ paymentDate: '2025-04-20', amount: 1000 }], '2025-05-01T00:00:00Z').status).toBe('PAID');
+  });
+
+  it('becomes overdue the day after the due date', () => {
+    expect(evaluate([], '2025-04-10T23:30:00Z').status).toBe('OPEN');
+    expect(evaluate([], '2025-04-11T00:00:00Z').status).toBe('OVERDUE');
+  });
+});
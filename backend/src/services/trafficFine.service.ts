@@ -1,18 +1,59 @@
 import { z } from 'zod';
+import { Prisma } from '@prisma/client';
 import prisma from '../utils/prisma';
 import { AppError } from '../middleware/errorHandler';
+import { assertPeriodOpen, findLaterClosedPeriod } from './payrollPeriod.service';
+import { roundCurrency } from './taxCalculation.service';
+import { resolveDriver } from './vehicle.service';
+import { findAttachmentStorageKeys, removeStoredFiles } from './attachment.service';
 
-export const createTrafficFineSchema = z.object({
-  employeeId: z.string().min(1, 'Çalışan zorunludur'),
+// Bir kesinti planı en fazla bu kadar aya yayılabilir
+export const MAX_DEDUCTION_MONTHS = 36;
+
+// Tebliğden itibaren 15 gün içinde ödenen cezada %25 indirim uygulanır, son ödeme günü tebliğden 1 ay sonradır
+export const EARLY_PAYMENT_DISCOUNT_RATE = 0.25;
+export const EARLY_PAYMENT_DAYS = 15;
+export const PAYMENT_DUE_MONTHS = 1;
+
+export const TRAFFIC_FINE_STATUSES = ['OPEN', 'PAID_DISCOUNTED', 'PAID', 'OVERDUE'] as const;
+
+export type TrafficFineStatus = (typeof TRAFFIC_FINE_STATUSES)[number];
+
+const trafficFineFieldsSchema = z.object({
+  employeeId: z.string().min(1, 'Çalışan zorunludur').optional(),
+  // Plaka verilirse sorumlu çalışan zimmet geçmişinden bulunur
+  plate: z.string().max(20, 'Plaka çok uzun').optional().nullable(),
   fineDate: z.string().refine((val) => !isNaN(Date.parse(val)), {
     message: 'Geçerli bir tarih giriniz',
   }),
+  notificationDate: z
+    .string()
+    .refine((val) => !isNaN(Date.parse(val)), {
+      message: 'Geçerli bir tebliğ tarihi giriniz',
+    })
+    .optional()
+    .nullable(),
   amount: z.number().positive('Tutar pozitif bir sayı olmalıdır'),
   description: z.string().max(500, 'Açıklama çok uzun').optional().nullable(),
 });
 
+export const createTrafficFineSchema = trafficFineFieldsSchema
+  .refine((data) => !!data.employeeId || !!data.plate, {
+    message: 'Çalışan veya plaka zorunludur',
+    path: ['employeeId'],
+  })
+  .refine((data) => !data.notificationDate || new Date(data.notificationDate) >= new Date(data.fineDate), {
+    message: 'Tebliğ tarihi ceza tarihinden önce olamaz',
+    path: ['notificationDate'],
+  });
+
 export type CreateTrafficFineInput = z.infer<typeof createTrafficFineSchema>;
 
+// Çalışan ve araç değiştirilemez; tarih kontrolü mevcut kayıtla birleştirildikten sonra yapılır
+export const updateTrafficFineSchema = trafficFineFieldsSchema.omit({ employeeId: true, plate: true }).partial();
+
+export type UpdateTrafficFineInput = z.infer<typeof updateTrafficFineSchema>;
+
 export const createTrafficFinePaymentSchema = z.object({
   paymentDate: z.string().refine((val) => !isNaN(Date.parse(val)), {
     message: 'Geçerli bir tarih giriniz',
@@ -22,6 +63,45 @@ export const createTrafficFinePaymentSchema = z.object({
 
 export type CreateTrafficFinePaymentInput = z.infer<typeof createTrafficFinePaymentSchema>;
 
+export const deductionPlanSchema = z
+  .object({
+    startMonth: z.number().int().min(1).max(12),
+    startYear: z.number().int().min(2000).max(2100),
+    installments: z.number().int().min(1, 'Taksit sayısı en az 1 olmalıdır').max(MAX_DEDUCTION_MONTHS, `Taksit sayısı en fazla ${MAX_DEDUCTION_MONTHS} olabilir`).optional(),
+    monthlyAmount: z.number().positive('Aylık kesinti tutarı pozitif olmalıdır').optional(),
+  })
+  .refine((data) => (data.installments === undefined) !== (data.monthlyAmount === undefined), {
+    message: 'Taksit sayısı veya aylık tutardan yalnızca biri girilmelidir',
+    path: ['installments'],
+  });
+
+export type DeductionPlanInput = z.infer<typeof deductionPlanSchema>;
+
+export interface DeductionScheduleLine {
+  month: number;
+  year: number;
+  amount: number;
+}
+
+export interface TrafficFineSummary {
+  discountedAmount: number;
+  discountDeadline: Date;
+  dueDate: Date;
+  paidAmount: number;
+  remainingAmount: number;
+  // İndirim süresi içindeyse indirimli tutardan, değilse tam tutardan kalan
+  payableAmount: number;
+  discountAvailable: boolean;
+  status: TrafficFineStatus;
+}
+
+const fineInclude = {
+  employee: true,
+  vehicle: true,
+  payments: { orderBy: { paymentDate: 'desc' as const } },
+  deductions: { orderBy: [{ year: 'asc' as const }, { month: 'asc' as const }] },
+};
+
 export function validateTrafficFineInput(
   input: unknown
 ): { success: true; data: CreateTrafficFineInput } | { success: false; errors: Record<string, string[]> } {
@@ -37,6 +117,21 @@ export function validateTrafficFineInput(
   return { success: false, errors };
 }
 
+export function validateUpdateTrafficFineInput(
+  input: unknown
+): { success: true; data: UpdateTrafficFineInput } | { success: false; errors: Record<string, string[]> } {
+  const result = updateTrafficFineSchema.safeParse(input);
+  if (result.success) return { success: true, data: result.data };
+
+  const errors: Record<string, string[]> = {};
+  for (const error of result.error.errors) {
+    const field = error.path.join('.');
+    if (!errors[field]) errors[field] = [];
+    errors[field].push(error.message);
+  }
+  return { success: false, errors };
+}
+
 export function validateTrafficFinePaymentInput(
   input: unknown
 ): { success: true; data: CreateTrafficFinePaymentInput } | { success: false; errors: Record<string, string[]> } {
@@ -52,75 +147,642 @@ export function validateTrafficFinePaymentInput(
   return { success: false, errors };
 }
 
-export async function listTrafficFines(employeeId?: string) {
+export function validateDeductionPlanInput(
+  input: unknown
+): { success: true; data: DeductionPlanInput } | { success: false; errors: Record<string, string[]> } {
+  const result = deductionPlanSchema.safeParse(input);
+  if (result.success) return { success: true, data: result.data };
+
+  const errors: Record<string, string[]> = {};
+  for (const error of result.error.errors) {
+    const field = error.path.join('.');
+    if (!errors[field]) errors[field] = [];
+    errors[field].push(error.message);
+  }
+  return { success: false, errors };
+}
+
+/**
+ * Kesinti tutarını aylara dağıtır (saf fonksiyon)
+ *
+ * - Taksit sayısı verilirse tutar eşit bölünür, kuruş farkı son taksite eklenir
+ * - Aylık tutar verilirse her ay bu tutar kesilir, son ay kalan kadar kesilir
+ */
+export function buildDeductionSchedule(
+  total: number,
+  plan: { startMonth: number; startYear: number; installments?: number; monthlyAmount?: number }
+): DeductionScheduleLine[] {
+  if (total <= 0) return [];
+
+  const amounts: number[] = [];
+  if (plan.installments) {
+    const installment = roundCurrency(total / plan.installments);
+    for (let i = 0; i < plan.installments - 1; i++) amounts.push(installment);
+    amounts.push(roundCurrency(total - installment * (plan.installments - 1)));
+  } else if (plan.monthlyAmount) {
+    let remaining = roundCurrency(total);
+    while (remaining > 0) {
+      const amount = Math.min(plan.monthlyAmount, remaining);
+      amounts.push(roundCurrency(amount));
+      remaining = roundCurrency(remaining - amount);
+    }
+  }
+
+  return amounts.map((amount, index) => {
+    const offset = plan.startYear * 12 + (plan.startMonth - 1) + index;
+    return { month: (offset % 12) + 1, year: Math.floor(offset / 12), amount };
+  });
+}
+
+function addUtcDays(date: Date, days: number): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days));
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Cezanın indirimli tutarını, son ödeme tarihini ve durumunu hesaplar (saf fonksiyon)
+ *
+ * - İndirim süresi sonuna kadar yapılan ödemeler indirimli tutarı karşılıyorsa: PAID_DISCOUNTED
+ * - Toplam ödeme ceza tutarını karşılıyorsa: PAID
+ * - Son ödeme günü geçmişse: OVERDUE, aksi halde OPEN
+ */
+export function evaluateTrafficFine(
+  fine: { amount: number; notificationDate: Date; payments: { paymentDate: Date; amount: number }[] },
+  today: Date = new Date()
+): TrafficFineSummary {
+  const notificationDate = new Date(fine.notificationDate);
+  const discountDeadline = addUtcDays(notificationDate, EARLY_PAYMENT_DAYS);
+  const dueDate = new Date(
+    Date.UTC(
+      notificationDate.getUTCFullYear(),
+      notificationDate.getUTCMonth() + PAYMENT_DUE_MONTHS,
+      notificationDate.getUTCDate()
+    )
+  );
+  const discountedAmount = roundCurrency(fine.amount * (1 - EARLY_PAYMENT_DISCOUNT_RATE));
+
+  const paidAmount = roundCurrency(fine.payments.reduce((sum, payment) => sum + payment.amount, 0));
+  const paidWithinDiscount = roundCurrency(
+    fine.payments
+      .filter((payment) => new Date(payment.paymentDate) <= discountDeadline)
+      .reduce((sum, payment) => sum + payment.amount, 0)
+  );
+  const currentDay = startOfUtcDay(today);
+
+  let status: TrafficFineStatus;
+  if (paidWithinDiscount >= discountedAmount) {
+    status = 'PAID_DISCOUNTED';
+  } else if (paidAmount >= fine.amount) {
+    status = 'PAID';
+  } else if (currentDay > dueDate) {
+    status = 'OVERDUE';
+  } else {
+    status = 'OPEN';
+  }
+
+  const isPaid = status === 'PAID_DISCOUNTED' || status === 'PAID';
+  const remainingAmount = isPaid ? 0 : roundCurrency(fine.amount - paidAmount);
+  const discountAvailable = !isPaid && currentDay <= discountDeadline;
+  const payableAmount = discountAvailable
+    ? roundCurrency(Math.max(0, discountedAmount - paidAmount))
+    : remainingAmount;
+
+  return {
+    discountedAmount,
+    discountDeadline,
+    dueDate,
+    paidAmount,
+    remainingAmount,
+    payableAmount,
+    discountAvailable,
+    status,
+  };
+}
+
+function withSummary<T extends { amount: number; notificationDate: Date; payments: { paymentDate: Date; amount: number }[] }>(
+  fine: T,
+  today?: Date
+): T & TrafficFineSummary {
+  return { ...fine, ...evaluateTrafficFine(fine, today) };
+}
+
+export async function listTrafficFines(filters: { employeeId?: string; status?: string } = {}) {
+  if (filters.status && !TRAFFIC_FINE_STATUSES.includes(filters.status as TrafficFineStatus)) {
+    throw new AppError(400, 'INVALID_STATUS', 'Geçersiz ceza durumu');
+  }
+
   const fines = await prisma.trafficFine.findMany({
-    where: employeeId ? { employeeId } : undefined,
+    where: filters.employeeId ? { employeeId: filters.employeeId } : undefined,
     orderBy: [{ fineDate: 'desc' }, { createdAt: 'desc' }],
-    include: {
-      employee: true,
-      payments: { orderBy: { paymentDate: 'desc' } },
-    },
+    include: fineInclude,
   });
-  return fines;
+
+  // Durum saklanmadığı için filtre hesaplamadan sonra uygulanır
+  const today = new Date();
+  const summaries = fines.map((fine) => withSummary(fine, today));
+  return filters.status ? summaries.filter((fine) => fine.status === filters.status) : summaries;
+}
+
+/**
+ * İndirim süresi önümüzdeki `days` gün içinde dolacak, ödenmemiş cezalar (en yakın önce)
+ */
+export async function listExpiringDiscounts(days: number) {
+  const today = new Date();
+  const currentDay = startOfUtcDay(today);
+  // Bugün veya sonrasında dolan indirimler için tebliğ tarihi bu aralıkta olmalıdır
+  const earliestNotification = addUtcDays(currentDay, -EARLY_PAYMENT_DAYS);
+  const latestNotification = addUtcDays(currentDay, days - EARLY_PAYMENT_DAYS);
+
+  const fines = await prisma.trafficFine.findMany({
+    where: { notificationDate: { gte: earliestNotification, lte: latestNotification } },
+    include: fineInclude,
+  });
+
+  return fines
+    .map((fine) => withSummary(fine, today))
+    .filter((fine) => fine.discountAvailable)
+    .sort((a, b) => a.discountDeadline.getTime() - b.discountDeadline.getTime());
 }
 
 export async function getTrafficFineById(id: string) {
   const fine = await prisma.trafficFine.findUnique({
     where: { id },
-    include: {
-      employee: true,
-      payments: { orderBy: { paymentDate: 'desc' } },
-    },
+    include: fineInclude,
   });
   if (!fine) {
     throw new AppError(404, 'TRAFFIC_FINE_NOT_FOUND', 'Trafik cezası bulunamadı');
   }
-  return fine;
+  return withSummary(fine);
+}
+
+/**
+ * Plakadan cezanın sorumlusunu belirler.
+ * Tek sürücü varsa o seçilir; çakışma veya boşlukta çalışan elle seçilmelidir.
+ */
+async function attributeFineToDriver(plate: string, fineDate: string, employeeId?: string) {
+  const resolution = await resolveDriver(plate, fineDate);
+
+  if (resolution.status === 'ASSIGNED') {
+    const driver = resolution.candidates[0];
+    if (employeeId && employeeId !== driver.id) {
+      throw new AppError(
+        409,
+        'DRIVER_MISMATCH',
+        `Bu tarihte araç ${driver.fullName} adına zimmetli; zimmet kaydını kontrol edin`
+      );
+    }
+    return { employeeId: driver.id, vehicleId: resolution.vehicle.id, driverResolution: resolution.status };
+  }
+
+  if (!employeeId) {
+    if (resolution.status === 'CONFLICT') {
+      throw new AppError(409, 'DRIVER_CONFLICT', 'Bu tarihte araç birden çok çalışana zimmetli; sorumlu çalışanı seçin', {
+        employeeId: resolution.candidates.map((candidate) => candidate.fullName),
+      });
+    }
+    throw new AppError(409, 'DRIVER_UNASSIGNED', 'Bu tarihte araç kimseye zimmetli değil; sorumlu çalışanı seçin');
+  }
+  return { employeeId, vehicleId: resolution.vehicle.id, driverResolution: resolution.status };
 }
 
 export async function createTrafficFine(input: CreateTrafficFineInput) {
-  const employee = await prisma.employee.findUnique({ where: { id: input.employeeId } });
+  const attribution = input.plate
+    ? await attributeFineToDriver(input.plate, input.fineDate, input.employeeId)
+    : { employeeId: input.employeeId as string, vehicleId: null, driverResolution: null };
+
+  const employee = await prisma.employee.findUnique({ where: { id: attribution.employeeId } });
   if (!employee) {
     throw new AppError(404, 'EMPLOYEE_NOT_FOUND', 'Çalışan bulunamadı');
   }
 
+  // Tebliğ tarihi girilmezse ceza yerinde tebliğ edilmiş sayılır
   const fine = await prisma.trafficFine.create({
     data: {
-      employeeId: input.employeeId,
+      employeeId: attribution.employeeId,
+      vehicleId: attribution.vehicleId,
+      driverResolution: attribution.driverResolution,
       fineDate: new Date(input.fineDate),
+      notificationDate: new Date(input.notificationDate || input.fineDate),
       amount: input.amount,
       description: input.description ?? null,
     },
-    include: {
-      employee: true,
-      payments: { orderBy: { paymentDate: 'desc' } },
-    },
+    include: fineInclude,
   });
 
+  return withSummary(fine);
+}
+
+/**
+ * Ceza satırını transaction sonuna kadar kilitler ve ödemeleriyle birlikte okur.
+ * Aynı cezaya eşzamanlı ödeme istekleri bu sayede sırayla değerlendirilir.
+ */
+async function lockTrafficFine(tx: Prisma.TransactionClient, trafficFineId: string) {
+  await tx.$queryRaw`SELECT "id" FROM "TrafficFine" WHERE "id" = ${trafficFineId} FOR UPDATE`;
+  const fine = await tx.trafficFine.findUnique({
+    where: { id: trafficFineId },
+    include: { payments: true, deductions: true },
+  });
+  if (!fine) {
+    throw new AppError(404, 'TRAFFIC_FINE_NOT_FOUND', 'Trafik cezası bulunamadı');
+  }
   return fine;
 }
 
+type LockedTrafficFine = Awaited<ReturnType<typeof lockTrafficFine>>;
+
+function nextPeriod(month: number, year: number): { month: number; year: number } {
+  return month === 12 ? { month: 1, year: year + 1 } : { month: month + 1, year };
+}
+
+/**
+ * Henüz kapanışta işlenmemiş kesinti satırı (ödemeye bağlanmamış ve eksik kalmamış)
+ */
+function isPendingDeduction(line: { paymentId: string | null; unpaidAmount: number }): boolean {
+  return !line.paymentId && line.unpaidAmount === 0;
+}
+
+/**
+ * Elden ödenebilecek tutar: kalan tutardan henüz ödemeye dönüşmemiş maaş kesintileri düşülür
+ */
+function getPayableBalance(fine: LockedTrafficFine, excludePaymentId?: string): number {
+  const payments = fine.payments.filter((payment) => payment.id !== excludePaymentId);
+  const { remainingAmount } = evaluateTrafficFine({ ...fine, payments });
+  const pendingDeductions = fine.deductions
+    .filter(isPendingDeduction)
+    .reduce((sum, line) => sum + line.amount, 0);
+  return roundCurrency(Math.max(0, remainingAmount - pendingDeductions));
+}
+
+function assertWithinBalance(amount: number, balance: number) {
+  if (roundCurrency(amount) > balance) {
+    throw new AppError(
+      409,
+      'PAYMENT_EXCEEDS_REMAINING',
+      balance > 0
+        ? `Ödeme tutarı ödenebilir kalan tutarı (${balance.toFixed(2)} ₺) aşamaz`
+        : 'Bu cezanın ödenebilir kalan tutarı yok'
+    );
+  }
+}
+
+function findEditablePayment(fine: LockedTrafficFine, paymentId: string) {
+  const payment = fine.payments.find((item) => item.id === paymentId);
+  if (!payment) {
+    throw new AppError(404, 'TRAFFIC_FINE_PAYMENT_NOT_FOUND', 'Ödeme bulunamadı');
+  }
+  if (fine.deductions.some((line) => line.paymentId === paymentId)) {
+    throw new AppError(
+      409,
+      'PAYMENT_FROM_DEDUCTION',
+      'Maaş kesintisinden oluşan ödeme değiştirilemez; ilgili puantaj dönemini yeniden açın'
+    );
+  }
+  return payment;
+}
+
 export async function addPaymentToTrafficFine(trafficFineId: string, input: CreateTrafficFinePaymentInput) {
-  // Ensure traffic fine exists
-  await getTrafficFineById(trafficFineId);
+  return prisma.$transaction(async (tx) => {
+    const fine = await lockTrafficFine(tx, trafficFineId);
+    assertWithinBalance(input.amount, getPayableBalance(fine));
 
-  const payment = await prisma.trafficFinePayment.create({
-    data: {
-      trafficFineId,
-      paymentDate: new Date(input.paymentDate),
-      amount: input.amount,
-    },
+    return tx.trafficFinePayment.create({
+      data: {
+        trafficFineId,
+        paymentDate: new Date(input.paymentDate),
+        amount: input.amount,
+      },
+    });
   });
+}
 
-  return payment;
+export async function updateTrafficFinePayment(
+  trafficFineId: string,
+  paymentId: string,
+  input: CreateTrafficFinePaymentInput
+) {
+  return prisma.$transaction(async (tx) => {
+    const fine = await lockTrafficFine(tx, trafficFineId);
+    findEditablePayment(fine, paymentId);
+    assertWithinBalance(input.amount, getPayableBalance(fine, paymentId));
+
+    return tx.trafficFinePayment.update({
+      where: { id: paymentId },
+      data: {
+        paymentDate: new Date(input.paymentDate),
+        amount: input.amount,
+      },
+    });
+  });
+}
+
+export async function deleteTrafficFinePayment(trafficFineId: string, paymentId: string): Promise<void> {
+  const storageKeys = await findAttachmentStorageKeys({ trafficFinePaymentId: paymentId });
+  await prisma.$transaction(async (tx) => {
+    const fine = await lockTrafficFine(tx, trafficFineId);
+    findEditablePayment(fine, paymentId);
+    await tx.trafficFinePayment.delete({ where: { id: paymentId } });
+  });
+  await removeStoredFiles(storageKeys);
+}
+
+/**
+ * Ceza tutarı, tarihleri ve açıklaması güncellenir.
+ * Tutar yapılan ödemeler ile bekleyen maaş kesintilerinin toplamından az olamaz.
+ */
+export async function updateTrafficFine(id: string, input: UpdateTrafficFineInput) {
+  await prisma.$transaction(async (tx) => {
+    const fine = await lockTrafficFine(tx, id);
+
+    const fineDate = input.fineDate ? new Date(input.fineDate) : fine.fineDate;
+    let notificationDate = input.notificationDate ? new Date(input.notificationDate) : fine.notificationDate;
+    // Yerinde tebliğ edilmiş cezada tebliğ tarihi ceza tarihiyle birlikte taşınır
+    if (!input.notificationDate && input.fineDate && fine.notificationDate.getTime() === fine.fineDate.getTime()) {
+      notificationDate = fineDate;
+    }
+    if (notificationDate < fineDate) {
+      throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', {
+        notificationDate: ['Tebliğ tarihi ceza tarihinden önce olamaz'],
+      });
+    }
+
+    if (input.amount !== undefined) {
+      const paidTotal = fine.payments.reduce((sum, payment) => sum + payment.amount, 0);
+      const pendingDeductions = fine.deductions
+        .filter(isPendingDeduction)
+        .reduce((sum, line) => sum + line.amount, 0);
+      const committed = roundCurrency(paidTotal + pendingDeductions);
+      if (input.amount < committed) {
+        throw new AppError(
+          409,
+          'FINE_AMOUNT_BELOW_PAID',
+          `Ceza tutarı ödenen ve kesilecek toplamdan (${committed.toFixed(2)} ₺) az olamaz`
+        );
+      }
+    }
+
+    await tx.trafficFine.update({
+      where: { id },
+      data: {
+        fineDate,
+        notificationDate,
+        ...(input.amount !== undefined ? { amount: input.amount } : {}),
+        ...(input.description !== undefined ? { description: input.description } : {}),
+      },
+    });
+  });
+
+  return getTrafficFineById(id);
 }
 
 export async function deleteTrafficFine(id: string): Promise<void> {
   // Ensure traffic fine exists
   await getTrafficFineById(id);
 
+  // Ceza ve ödemelerine bağlı ek kayıtları cascade ile silinir, dosyaları ayrıca temizlenir
+  const storageKeys = await findAttachmentStorageKeys({
+    OR: [{ trafficFineId: id }, { trafficFinePayment: { trafficFineId: id } }],
+  });
   await prisma.trafficFine.delete({
     where: { id },
   });
+  await removeStoredFiles(storageKeys);
+}
+
+
+/**
+ * Cezanın kalan tutarı için maaştan kesinti planı oluşturur.
+ * Ödemeye bağlanmamış eski kesintiler silinip plan yeniden kurulur.
+ */
+export async function setDeductionPlan(trafficFineId: string, input: DeductionPlanInput) {
+  const fine = await getTrafficFineById(trafficFineId);
+  const validatedData = deductionPlanSchema.parse(input);
+
+  const remaining = fine.remainingAmount;
+  if (remaining <= 0) {
+    throw new AppError(409, 'TRAFFIC_FINE_ALREADY_PAID', 'Cezanın ödenmemiş tutarı yok');
+  }
+
+  const schedule = buildDeductionSchedule(remaining, validatedData);
+  if (schedule.length > MAX_DEDUCTION_MONTHS) {
+    throw new AppError(
+      400,
+      'DEDUCTION_PLAN_TOO_LONG',
+      `Kesinti planı en fazla ${MAX_DEDUCTION_MONTHS} aya yayılabilir; aylık tutarı artırın`
+    );
+  }
+
+  const last = schedule[schedule.length - 1];
+  if (fine.employee.endDate) {
+    const endDate = new Date(fine.employee.endDate);
+    if (last.year * 12 + last.month > endDate.getUTCFullYear() * 12 + endDate.getUTCMonth() + 1) {
+      throw new AppError(400, 'DEDUCTION_AFTER_EMPLOYMENT', 'Kesinti planı çalışanın çıkış tarihinden sonraya uzanıyor');
+    }
+  }
+  for (const line of schedule) {
+    await assertPeriodOpen(line.month, line.year);
+  }
+  const settledPeriods = new Set(
+    fine.deductions.filter((line) => !isPendingDeduction(line)).map((line) => `${line.year}-${line.month}`)
+  );
+  if (schedule.some((line) => settledPeriods.has(`${line.year}-${line.month}`))) {
+    throw new AppError(409, 'DEDUCTION_ALREADY_SETTLED', 'Planın başladığı dönemde bu ceza için kesinti zaten yapılmış');
+  }
+
+  await prisma.$transaction([
+    prisma.trafficFineDeduction.deleteMany({ where: { trafficFineId, paymentId: null, unpaidAmount: 0 } }),
+    prisma.trafficFineDeduction.createMany({
+      data: schedule.map((line) => ({
+        trafficFineId,
+        employeeId: fine.employeeId,
+        month: line.month,
+        year: line.year,
+        amount: line.amount,
+      })),
+    }),
+  ]);
+
+  return getTrafficFineById(trafficFineId);
+}
+
+/**
+ * Henüz ödemeye bağlanmamış kesintileri kaldırır
+ */
+export async function clearDeductionPlan(trafficFineId: string) {
+  const fine = await getTrafficFineById(trafficFineId);
+  const pending = fine.deductions.filter(isPendingDeduction);
+  for (const line of pending) {
+    await assertPeriodOpen(line.month, line.year);
+  }
+
+  await prisma.trafficFineDeduction.deleteMany({ where: { trafficFineId, paymentId: null, unpaidAmount: 0 } });
+  return getTrafficFineById(trafficFineId);
+}
+
+/**
+ * Dönemdeki çalışan bazlı toplam ceza kesintisi
+ */
+export async function getFineDeductionTotals(
+  employeeIds: string[],
+  month: number,
+  year: number
+): Promise<Map<string, number>> {
+  const totals = await prisma.trafficFineDeduction.groupBy({
+    by: ['employeeId'],
+    where: { employeeId: { in: employeeIds }, month, year },
+    _sum: { amount: true },
+  });
+  return new Map(totals.map((total) => [total.employeeId, roundCurrency(total._sum.amount ?? 0)]));
 }
 
+/**
+ * Kapanışta kesilemeyen ceza tutarı sonraki döneme eklenir; o dönem açık değilse satır hiç işlenmez,
+ * bu yüzden kapanış engellenir. İşten ayrılanların eksiği devretmediği için sayılmaz.
+ */
+export async function assertFineCarryOverTargetOpen(
+  month: number,
+  year: number,
+  withheld: Array<{ employeeId: string; due: number; amount: number }>
+): Promise<void> {
+  const shortfalls = withheld.filter((item) => roundCurrency(item.due - item.amount) > 0);
+  if (shortfalls.length === 0) return;
+
+  const target = nextPeriod(month, year);
+  const carried = await prisma.employee.count({
+    where: {
+      id: { in: shortfalls.map((item) => item.employeeId) },
+      OR: [{ endDate: null }, { endDate: { gte: new Date(Date.UTC(target.year, target.month - 1, 1)) } }],
+    },
+  });
+  if (carried === 0) return;
+
+  try {
+    await assertPeriodOpen(target.month, target.year);
+  } catch {
+    throw new AppError(
+      409,
+      'FINE_CARRY_OVER_PERIOD_CLOSED',
+      `Kesilemeyen trafik cezası ${target.month}/${target.year} dönemine devredilemiyor; o dönem incelemede veya kapalı`
+    );
+  }
+}
+
+/**
+ * Dönem kapanırken puantajda fiilen kesilen tutarı (snapshot) ödeme kaydına dönüştürür (ödeme tarihi: ayın son günü).
+ * Kesilen tutar çalışanın kesinti satırlarına sırayla dağıtılır; karşılanamayan kısım cezanın bakiyesinde kalır
+ * ve çalışan sonraki dönemde de çalışıyorsa o dönemin kesintisine eklenir.
+ */
+export async function settleFineDeductions(
+  tx: Prisma.TransactionClient,
+  month: number,
+  year: number,
+  withheld: Array<{ employeeId: string; amount: number }>
+): Promise<number> {
+  const pending = await tx.trafficFineDeduction.findMany({
+    where: { month, year, paymentId: null, unpaidAmount: 0 },
+    include: { trafficFine: { include: { employee: true } } },
+    orderBy: { createdAt: 'asc' },
+  });
+  const paymentDate = new Date(Date.UTC(year, month, 0));
+  const next = nextPeriod(month, year);
+  const nextPeriodStart = new Date(Date.UTC(next.year, next.month - 1, 1));
+  const available = new Map(withheld.map((item) => [item.employeeId, Math.max(0, item.amount)]));
+
+  for (const line of pending) {
+    const paid = roundCurrency(Math.min(line.amount, available.get(line.employeeId) ?? 0));
+    const unpaid = roundCurrency(line.amount - paid);
+    available.set(line.employeeId, roundCurrency((available.get(line.employeeId) ?? 0) - paid));
+
+    const payment =
+      paid > 0
+        ? await tx.trafficFinePayment.create({
+            data: { trafficFineId: line.trafficFineId, paymentDate, amount: paid },
+          })
+        : null;
+    await tx.trafficFineDeduction.update({
+      where: { id: line.id },
+      data: { paymentId: payment?.id ?? null, unpaidAmount: unpaid },
+    });
+
+    const endDate = line.trafficFine.employee.endDate;
+    if (unpaid <= 0 || (endDate && endDate < nextPeriodStart)) continue;
+    await tx.trafficFineDeduction.upsert({
+      where: { trafficFineId_month_year: { trafficFineId: line.trafficFineId, month: next.month, year: next.year } },
+      create: {
+        trafficFineId: line.trafficFineId,
+        employeeId: line.employeeId,
+        month: next.month,
+        year: next.year,
+        amount: unpaid,
+        carriedAmount: unpaid,
+      },
+      update: { amount: { increment: unpaid }, carriedAmount: { increment: unpaid } },
+    });
+  }
+  return pending.length;
+}
+
+/**
+ * Kesinti ödemeleri ancak sonraki dönemler açıksa geri alınabilir;
+ * aksi halde kapalı dönemlerin snapshot'ındaki ceza kesintileri ceza bakiyesiyle çelişir
+ */
+export async function assertFineDeductionsRevertible(month: number, year: number): Promise<void> {
+  const count = await prisma.trafficFineDeduction.count({
+    where: { month, year, OR: [{ paymentId: { not: null } }, { unpaidAmount: { gt: 0 } }] },
+  });
+  if (count === 0) return;
+
+  const laterClosed = await findLaterClosedPeriod(month, year);
+  if (laterClosed) {
+    throw new AppError(
+      409,
+      'FINE_DEDUCTIONS_NOT_REVERTIBLE',
+      `Bu dönemde kesilen trafik cezaları sonraki dönemleri etkiliyor; önce ${laterClosed.month}/${laterClosed.year} dönemini yeniden açın`
+    );
+  }
+}
+
+/**
+ * Dönem yeniden açılınca kapanışta oluşturulan ödemeleri ve sonraki döneme eklenen eksikleri geri alır.
+ * Silinen ödemelerin ek dosyaları döner; transaction tamamlandıktan sonra diskten kaldırılmalıdır.
+ */
+export async function revertFineDeductionPayments(
+  tx: Prisma.TransactionClient,
+  month: number,
+  year: number
+): Promise<string[]> {
+  const settled = await tx.trafficFineDeduction.findMany({
+    where: { month, year, OR: [{ paymentId: { not: null } }, { unpaidAmount: { gt: 0 } }] },
+  });
+  if (settled.length === 0) return [];
+
+  const next = nextPeriod(month, year);
+  for (const line of settled.filter((item) => item.unpaidAmount > 0)) {
+    const carried = await tx.trafficFineDeduction.findUnique({
+      where: { trafficFineId_month_year: { trafficFineId: line.trafficFineId, month: next.month, year: next.year } },
+    });
+    if (!carried || carried.paymentId || carried.carriedAmount <= 0) continue;
+
+    const remaining = roundCurrency(carried.amount - carried.carriedAmount);
+    if (remaining > 0) {
+      await tx.trafficFineDeduction.update({
+        where: { id: carried.id },
+        data: { amount: remaining, carriedAmount: 0 },
+      });
+    } else {
+      await tx.trafficFineDeduction.delete({ where: { id: carried.id } });
+    }
+  }
+  await tx.trafficFineDeduction.updateMany({
+    where: { month, year, unpaidAmount: { gt: 0 } },
+    data: { unpaidAmount: 0 },
+  });
+
+  const paymentIds = settled.filter((line) => line.paymentId).map((line) => line.paymentId as string);
+  const storageKeys = await findAttachmentStorageKeys({ trafficFinePaymentId: { in: paymentIds } });
+  // Kesinti satırlarındaki bağlantı ON DELETE SET NULL ile temizlenir
+  await tx.trafficFinePayment.deleteMany({ where: { id: { in: paymentIds } } });
+  return storageKeys;
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { AssignmentPeriod, findAssignmentIssues, resolveAssignmentsOnDate } from './vehicle.service';
+
+function utc(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function assignment(id: string, employeeId: string, startDate: string, endDate: string | null): AssignmentPeriod {
+  return { id, employeeId, startDate: utc(startDate), endDate: endDate ? utc(endDate) : null };
+}
+
+function day(date: Date | null): string | null {
+  return date ? date.toISOString().slice(0, 10) : null;
+}
+
+describe('resolveAssignmentsOnDate', () => {
+  const history = [
+    assignment('a1', 'e1', '2025-01-01', '2025-03-31'),
+    assignment('a2', 'e2', '2025-03-15', null),
+  ];
+
+  it('finds the single driver on a covered day, including the end day', () => {
+    const result = resolveAssignmentsOnDate(history, utc('2025-02-10'));
+    expect(result.status).toBe('ASSIGNED');
+    expect(result.assignments.map((item) => item.id)).toEqual(['a1']);
+  });
+
+  it('reports a conflict when two drivers overlap', () => {
+    expect(resolveAssignmentsOnDate(history, utc('2025-03-31')).status).toBe('CONFLICT');
+  });
+
+  it('ignores the time of day of the fine', () => {
+    expect(resolveAssignmentsOnDate(history, new Date('2025-04-01T21:00:00Z')).status).toBe('ASSIGNED');
+  });
+
+  it('is unassigned before the first assignment', () => {
+    expect(resolveAssignmentsOnDate(history, utc('2024-12-31')).status).toBe('UNASSIGNED');
+  });
+
+  it('does not count two records of the same driver as a conflict', () => {
+    const same = [assignment('a1', 'e1', '2025-01-01', '2025-02-28'), assignment('a2', 'e1', '2025-02-01', null)];
+    expect(resolveAssignmentsOnDate(same, utc('2025-02-10')).status).toBe('ASSIGNED');
+  });
+});
+
+describe('findAssignmentIssues', () => {
+  it('returns nothing for back-to-back assignments', () => {
+    const history = [
+      assignment('a1', 'e1', '2025-01-01', '2025-01-31'),
+      assignment('a2', 'e2', '2025-02-01', null),
+    ];
+    expect(findAssignmentIssues(history)).toEqual([]);
+  });
+
+  it('reports the overlapping days of two drivers', () => {
+    const issues = findAssignmentIssues([
+      assignment('a2', 'e2', '2025-01-20', '2025-03-01'),
+      assignment('a1', 'e1', '2025-01-01', '2025-01-31'),
+    ]);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].type).toBe('OVERLAP');
+    expect([day(issues[0].from), day(issues[0].to)]).toEqual(['2025-01-20', '2025-01-31']);
+    expect(issues[0].assignmentIds).toEqual(['a1', 'a2']);
+  });
+
+  it('leaves the end of an overlap with two open assignments empty', () => {
+    const issues = findAssignmentIssues([
+      assignment('a1', 'e1', '2025-01-01', null),
+      assignment('a2', 'e2', '2025-02-01', null),
+    ]);
+    expect(issues.map((issue) => [issue.type, day(issue.from), day(issue.to)])).toEqual([
+      ['OVERLAP', '2025-02-01', null],
+    ]);
+  });
+
+  it('reports the days between two assignments as a gap', () => {
+    const issues = findAssignmentIssues([
+      assignment('a1', 'e1', '2025-01-01', '2025-01-31'),
+      assignment('a2', 'e2', '2025-02-10', null),
+    ]);
+
+    expect(issues.map((issue) => [issue.type, day(issue.from), day(issue.to)])).toEqual([
+      ['GAP', '2025-02-01', '2025-02-09'],
+    ]);
+    expect(issues[0].assignmentIds).toEqual(['a1', 'a2']);
+  });
+
+  it('measures gaps from the longest covering assignment', () => {
+    const issues = findAssignmentIssues([
+      assignment('a1', 'e1', '2025-01-01', '2025-03-31'),
+      assignment('a2', 'e1', '2025-02-01', '2025-02-28'),
+      assignment('a3', 'e2', '2025-04-05', null),
+    ]);
+
+    expect(issues.map((issue) => [issue.type, day(issue.from), day(issue.to)])).toEqual([
+      ['GAP', '2025-04-01', '2025-04-04'],
+    ]);
+    expect(issues[0].assignmentIds).toEqual(['a1', 'a3']);
+  });
+});
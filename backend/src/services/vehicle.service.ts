@@ -0,0 +1,393 @@
+import { z } from 'zod';
+import prisma from '../utils/prisma';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Vehicle Service
+ *
+ * Şirket araçları ve sürücü zimmet geçmişi.
+ * Trafik cezaları plaka ve tarihle geldiği için cezanın sorumlusu bu geçmişten bulunur.
+ * Ortak kullanılan araçlarda zimmetler çakışabilir; çakışma ve boşluklar işaretlenir.
+ */
+
+export const VEHICLE_STATUSES = ['ACTIVE', 'IN_SERVICE', 'RETIRED'] as const;
+
+export type VehicleStatus = (typeof VEHICLE_STATUSES)[number];
+
+// ASSIGNED: tek sürücü, CONFLICT: birden çok zimmet, UNASSIGNED: o gün zimmet yok
+export type DriverResolutionStatus = 'ASSIGNED' | 'CONFLICT' | 'UNASSIGNED';
+
+// 34ABC123: il kodu (01-81), 1-3 harf, 2-5 rakam
+const PLATE_PATTERN = /^(0[1-9]|[1-7][0-9]|8[01])[A-Z]{1,3}[0-9]{2,5}$/;
+
+const dateString = z.string().refine((val) => !isNaN(Date.parse(val)), {
+  message: 'Geçerli bir tarih giriniz',
+});
+
+/**
+ * Plakayı karşılaştırma için boşluksuz ve büyük harfe çevirir
+ */
+export function normalizePlate(plate: string): string {
+  return plate.replace(/[\s-]/g, '').toLocaleUpperCase('tr-TR');
+}
+
+const plateSchema = z
+  .string()
+  .min(1, 'Plaka zorunludur')
+  .transform(normalizePlate)
+  .refine((val) => PLATE_PATTERN.test(val), { message: 'Geçerli bir plaka giriniz (ör. 34 ABC 123)' });
+
+export const createVehicleSchema = z.object({
+  plate: plateSchema,
+  model: z.string().min(1, 'Model zorunludur').max(100, 'Model çok uzun'),
+  status: z.enum(VEHICLE_STATUSES).default('ACTIVE'),
+  note: z.string().max(255, 'Not çok uzun').optional().nullable(),
+});
+
+export const updateVehicleSchema = createVehicleSchema.partial();
+
+export type CreateVehicleInput = z.infer<typeof createVehicleSchema>;
+export type UpdateVehicleInput = z.infer<typeof updateVehicleSchema>;
+
+export const createAssignmentSchema = z
+  .object({
+    employeeId: z.string().min(1, 'Çalışan zorunludur'),
+    startDate: dateString,
+    endDate: dateString.optional().nullable(),
+    note: z.string().max(255, 'Not çok uzun').optional().nullable(),
+  })
+  .refine((data) => !data.endDate || new Date(data.endDate) >= new Date(data.startDate), {
+    message: 'Bitiş tarihi başlangıçtan önce olamaz',
+    path: ['endDate'],
+  });
+
+export const updateAssignmentSchema = z.object({
+  employeeId: z.string().min(1, 'Çalışan zorunludur').optional(),
+  startDate: dateString.optional(),
+  endDate: dateString.optional().nullable(),
+  note: z.string().max(255, 'Not çok uzun').optional().nullable(),
+});
+
+export type CreateAssignmentInput = z.infer<typeof createAssignmentSchema>;
+export type UpdateAssignmentInput = z.infer<typeof updateAssignmentSchema>;
+
+export interface AssignmentPeriod {
+  id: string;
+  employeeId: string;
+  startDate: Date;
+  endDate: Date | null;
+}
+
+export interface AssignmentIssue {
+  type: 'OVERLAP' | 'GAP';
+  from: Date;
+  to: Date | null; // Açık uçlu çakışmada boş
+  assignmentIds: string[];
+}
+
+export function validateVehicleInput(
+  input: unknown,
+  isUpdate: boolean = false
+): { success: true; data: CreateVehicleInput | UpdateVehicleInput } | { success: false; errors: Record<string, string[]> } {
+  const schema = isUpdate ? updateVehicleSchema : createVehicleSchema;
+  const result = schema.safeParse(input);
+  if (result.success) return { success: true, data: result.data };
+  const errors: Record<string, string[]> = {};
+  for (const error of result.error.errors) {
+    const field = error.path.join('.');
+    if (!errors[field]) errors[field] = [];
+    errors[field].push(error.message);
+  }
+  return { success: false, errors };
+}
+
+export function validateAssignmentInput(
+  input: unknown,
+  isUpdate: boolean = false
+): { success: true; data: CreateAssignmentInput | UpdateAssignmentInput } | { success: false; errors: Record<string, string[]> } {
+  const schema = isUpdate ? updateAssignmentSchema : createAssignmentSchema;
+  const result = schema.safeParse(input);
+  if (result.success) return { success: true, data: result.data };
+  const errors: Record<string, string[]> = {};
+  for (const error of result.error.errors) {
+    const field = error.path.join('.');
+    if (!errors[field]) errors[field] = [];
+    errors[field].push(error.message);
+  }
+  return { success: false, errors };
+}
+
+/**
+ * Tarihi gün başına (UTC) indirger
+ */
+function toDay(value: string | Date): Date {
+  const date = new Date(value);
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days));
+}
+
+// Boş bitiş tarihi devam eden zimmettir
+function earlierEnd(a: Date | null, b: Date | null): Date | null {
+  if (!a) return b;
+  if (!b) return a;
+  return a < b ? a : b;
+}
+
+function coversDate(assignment: AssignmentPeriod, day: Date): boolean {
+  return assignment.startDate <= day && (!assignment.endDate || assignment.endDate >= day);
+}
+
+/**
+ * Verilen günde aracı kullanan zimmetleri seçer (saf fonksiyon)
+ */
+export function resolveAssignmentsOnDate<T extends AssignmentPeriod>(
+  assignments: T[],
+  date: Date
+): { status: DriverResolutionStatus; assignments: T[] } {
+  const day = toDay(date);
+  const matches = assignments.filter((assignment) => coversDate(assignment, day));
+  // Aynı sürücüye ait iki kayıt çakışma sayılmaz
+  const employeeIds = new Set(matches.map((assignment) => assignment.employeeId));
+  const status: DriverResolutionStatus =
+    employeeIds.size === 0 ? 'UNASSIGNED' : employeeIds.size === 1 ? 'ASSIGNED' : 'CONFLICT';
+  return { status, assignments: matches };
+}
+
+/**
+ * Zimmet geçmişindeki çakışma ve boşlukları bulur (saf fonksiyon).
+ * Boşluk yalnızca iki zimmet arasındaki günler için raporlanır.
+ */
+export function findAssignmentIssues(assignments: AssignmentPeriod[]): AssignmentIssue[] {
+  const sorted = [...assignments].sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+  const issues: AssignmentIssue[] = [];
+
+  for (let i = 0; i < sorted.length; i++) {
+    for (let j = i + 1; j < sorted.length; j++) {
+      const a = sorted[i];
+      const b = sorted[j];
+      if (a.employeeId === b.employeeId) continue;
+      if (a.endDate && a.endDate < b.startDate) continue;
+      issues.push({
+        type: 'OVERLAP',
+        from: b.startDate,
+        to: earlierEnd(a.endDate, b.endDate),
+        assignmentIds: [a.id, b.id],
+      });
+    }
+  }
+
+  // Kapsanan son günü izleyerek ardışık zimmetler arasındaki boşluklar
+  let coveredUntil: Date | null = null;
+  let lastId = '';
+  for (const assignment of sorted) {
+    if (coveredUntil) {
+      const gapStart = addDays(coveredUntil, 1);
+      if (gapStart < assignment.startDate) {
+        issues.push({
+          type: 'GAP',
+          from: gapStart,
+          to: addDays(assignment.startDate, -1),
+          assignmentIds: [lastId, assignment.id],
+        });
+      }
+    }
+    // Açık uçlu zimmetten sonrası hep kapsanır
+    if (!assignment.endDate) break;
+    if (!coveredUntil || assignment.endDate > coveredUntil) {
+      coveredUntil = assignment.endDate;
+      lastId = assignment.id;
+    }
+  }
+
+  return issues.sort((a, b) => a.from.getTime() - b.from.getTime());
+}
+
+const assignmentInclude = {
+  employee: { select: { id: true, fullName: true } },
+} as const;
+
+export async function listVehicles(status?: string) {
+  if (status && !VEHICLE_STATUSES.includes(status as VehicleStatus)) {
+    throw new AppError(400, 'INVALID_STATUS', 'Geçersiz araç durumu');
+  }
+
+  const vehicles = await prisma.vehicle.findMany({
+    where: status ? { status } : undefined,
+    orderBy: { plate: 'asc' },
+    include: {
+      assignments: { orderBy: { startDate: 'desc' }, include: assignmentInclude },
+      _count: { select: { trafficFines: true } },
+    },
+  });
+
+  // Liste ekranı için bugünkü sürücü(ler) ve geçmişteki sorun sayısı
+  const today = new Date();
+  return vehicles.map(({ assignments, ...vehicle }) => ({
+    ...vehicle,
+    currentAssignments: resolveAssignmentsOnDate(assignments, today).assignments,
+    issueCount: findAssignmentIssues(assignments).length,
+  }));
+}
+
+export async function getVehicleById(id: string) {
+  const vehicle = await prisma.vehicle.findUnique({
+    where: { id },
+    include: {
+      assignments: { orderBy: { startDate: 'desc' }, include: assignmentInclude },
+    },
+  });
+  if (!vehicle) {
+    throw new AppError(404, 'VEHICLE_NOT_FOUND', 'Araç bulunamadı');
+  }
+  return { ...vehicle, issues: findAssignmentIssues(vehicle.assignments) };
+}
+
+export async function createVehicle(input: CreateVehicleInput) {
+  const existing = await prisma.vehicle.findUnique({ where: { plate: input.plate } });
+  if (existing) {
+    throw new AppError(409, 'PLATE_EXISTS', 'Bu plaka ile kayıtlı bir araç zaten var');
+  }
+
+  const vehicle = await prisma.vehicle.create({
+    data: {
+      plate: input.plate,
+      model: input.model,
+      status: input.status,
+      note: input.note ?? null,
+    },
+  });
+  return getVehicleById(vehicle.id);
+}
+
+export async function updateVehicle(id: string, input: UpdateVehicleInput) {
+  await getVehicleById(id);
+
+  if (input.plate) {
+    const existing = await prisma.vehicle.findUnique({ where: { plate: input.plate } });
+    if (existing && existing.id !== id) {
+      throw new AppError(409, 'PLATE_EXISTS', 'Bu plaka ile kayıtlı bir araç zaten var');
+    }
+  }
+
+  await prisma.vehicle.update({
+    where: { id },
+    data: {
+      ...(input.plate !== undefined ? { plate: input.plate } : {}),
+      ...(input.model !== undefined ? { model: input.model } : {}),
+      ...(input.status !== undefined ? { status: input.status } : {}),
+      ...(input.note !== undefined ? { note: input.note } : {}),
+    },
+  });
+  return getVehicleById(id);
+}
+
+export async function deleteVehicle(id: string): Promise<void> {
+  await getVehicleById(id);
+
+  const fineCount = await prisma.trafficFine.count({ where: { vehicleId: id } });
+  if (fineCount > 0) {
+    throw new AppError(
+      409,
+      'VEHICLE_HAS_FINES',
+      'Trafik cezası bağlı araç silinemez; durumunu "Kullanım Dışı" olarak değiştirin'
+    );
+  }
+
+  await prisma.vehicle.delete({ where: { id } });
+}
+
+async function assertEmployeeEmployedDuring(employeeId: string, startDate: Date, endDate: Date | null) {
+  const employee = await prisma.employee.findUnique({ where: { id: employeeId } });
+  if (!employee) {
+    throw new AppError(404, 'EMPLOYEE_NOT_FOUND', 'Çalışan bulunamadı');
+  }
+  if (startDate < toDay(employee.startDate)) {
+    throw new AppError(400, 'ASSIGNMENT_BEFORE_EMPLOYMENT', 'Zimmet çalışanın işe giriş tarihinden önce başlayamaz');
+  }
+  if (employee.endDate && (!endDate || endDate > toDay(employee.endDate))) {
+    throw new AppError(400, 'ASSIGNMENT_AFTER_EMPLOYMENT', 'Zimmet çalışanın çıkış tarihinden sonraya uzanamaz');
+  }
+}
+
+export async function createAssignment(vehicleId: string, input: CreateAssignmentInput) {
+  await getVehicleById(vehicleId);
+  const startDate = toDay(input.startDate);
+  const endDate = input.endDate ? toDay(input.endDate) : null;
+  await assertEmployeeEmployedDuring(input.employeeId, startDate, endDate);
+
+  return prisma.vehicleAssignment.create({
+    data: {
+      vehicleId,
+      employeeId: input.employeeId,
+      startDate,
+      endDate,
+      note: input.note ?? null,
+    },
+    include: assignmentInclude,
+  });
+}
+
+export async function getAssignmentById(vehicleId: string, assignmentId: string) {
+  const assignment = await prisma.vehicleAssignment.findUnique({
+    where: { id: assignmentId },
+    include: assignmentInclude,
+  });
+  if (!assignment || assignment.vehicleId !== vehicleId) {
+    throw new AppError(404, 'ASSIGNMENT_NOT_FOUND', 'Zimmet kaydı bulunamadı');
+  }
+  return assignment;
+}
+
+export async function updateAssignment(vehicleId: string, assignmentId: string, input: UpdateAssignmentInput) {
+  const existing = await getAssignmentById(vehicleId, assignmentId);
+
+  const employeeId = input.employeeId ?? existing.employeeId;
+  const startDate = input.startDate ? toDay(input.startDate) : existing.startDate;
+  const endDate = input.endDate !== undefined ? (input.endDate ? toDay(input.endDate) : null) : existing.endDate;
+  if (endDate && endDate < startDate) {
+    throw new AppError(400, 'VALIDATION_ERROR', 'Geçersiz veri', {
+      endDate: ['Bitiş tarihi başlangıçtan önce olamaz'],
+    });
+  }
+  await assertEmployeeEmployedDuring(employeeId, startDate, endDate);
+
+  return prisma.vehicleAssignment.update({
+    where: { id: assignmentId },
+    data: {
+      employeeId,
+      startDate,
+      endDate,
+      ...(input.note !== undefined ? { note: input.note } : {}),
+    },
+    include: assignmentInclude,
+  });
+}
+
+export async function deleteAssignment(vehicleId: string, assignmentId: string): Promise<void> {
+  await getAssignmentById(vehicleId, assignmentId);
+  await prisma.vehicleAssignment.delete({ where: { id: assignmentId } });
+}
+
+/**
+ * Plaka ve tarihten cezanın sorumlusunu bulur
+ */
+export async function resolveDriver(plate: string, date: string | Date) {
+  const vehicle = await prisma.vehicle.findUnique({
+    where: { plate: normalizePlate(plate) },
+    include: { assignments: { include: assignmentInclude } },
+  });
+  if (!vehicle) {
+    throw new AppError(404, 'VEHICLE_NOT_FOUND', 'Bu plakaya kayıtlı araç bulunamadı');
+  }
+
+  const { status, assignments } = resolveAssignmentsOnDate(vehicle.assignments, new Date(date));
+  const candidates = Array.from(new Map(assignments.map((item) => [item.employeeId, item.employee])).values());
+  return {
+    vehicle: { id: vehicle.id, plate: vehicle.plate, model: vehicle.model, status: vehicle.status },
+    status,
+    candidates,
+  };
+}
@@ -0,0 +1,209 @@
+import { z } from 'zod';
+import prisma from '../utils/prisma';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Wage Parameter Service
+ *
+ * Resmi ödeme bazının (asgari ücret) dönemsel olarak tutulması.
+ * Her kayıt, belirtilen ay/yıldan itibaren bir sonraki kayda kadar geçerlidir.
+ */
+
+export const createWageParameterSchema = z.object({
+  effectiveYear: z.number().int().min(2000).max(2100),
+  effectiveMonth: z.number().int().min(1).max(12),
+  officialPayment: z.number().positive('Resmi ödeme bazı pozitif olmalıdır'),
+  officialWorkingDays: z.number().int().min(1).max(31).default(30),
+  dailyWorkingHours: z.number().positive('Günlük çalışma saati pozitif olmalıdır').max(24, 'Günlük çalışma saati en fazla 24 olabilir').default(8),
+  overtimeWarningHours: z.number().min(0, 'Mesai uyarı eşiği negatif olamaz').default(225),
+  overtimeLimitHours: z.number().positive('Yıllık mesai sınırı pozitif olmalıdır').default(270),
+  severanceCeiling: z.number().positive('Kıdem tazminatı tavanı pozitif olmalıdır').optional().nullable(),
+  description: z.string().max(255, 'Açıklama çok uzun').optional().nullable(),
+});
+
+export const updateWageParameterSchema = createWageParameterSchema.partial();
+
+export type CreateWageParameterInput = z.infer<typeof createWageParameterSchema>;
+export type UpdateWageParameterInput = z.infer<typeof updateWageParameterSchema>;
+
+export interface WageParameterValues {
+  effectiveYear: number;
+  effectiveMonth: number;
+  officialPayment: number;
+  officialWorkingDays: number;
+}
+
+export function validateWageParameterInput(
+  input: unknown,
+  isUpdate: boolean = false
+): { success: true; data: CreateWageParameterInput | UpdateWageParameterInput } | { success: false; errors: Record<string, string[]> } {
+  const schema = isUpdate ? updateWageParameterSchema : createWageParameterSchema;
+  const result = schema.safeParse(input);
+  if (result.success) return { success: true, data: result.data };
+
+  const errors: Record<string, string[]> = {};
+  for (const error of result.error.errors) {
+    const field = error.path.join('.');
+    if (!errors[field]) errors[field] = [];
+    errors[field].push(error.message);
+  }
+  return { success: false, errors };
+}
+
+/**
+ * Dönem anahtarı (yıl * 12 + ay) - dönemleri karşılaştırmak için
+ */
+function periodKey(month: number, year: number): number {
+  return year * 12 + (month - 1);
+}
+
+/**
+ * Verilen dönem için geçerli parametreyi seçer (saf fonksiyon).
+ * Dönemden önce başlayan en son kayıt geçerlidir.
+ */
+export function resolveWageParameter<T extends WageParameterValues>(
+  parameters: T[],
+  month: number,
+  year: number
+): T | null {
+  const target = periodKey(month, year);
+  let selected: T | null = null;
+  for (const parameter of parameters) {
+    const key = periodKey(parameter.effectiveMonth, parameter.effectiveYear);
+    if (key > target) continue;
+    if (!selected || key > periodKey(selected.effectiveMonth, selected.effectiveYear)) {
+      selected = parameter;
+    }
+  }
+  return selected;
+}
+
+/**
+ * Resmi günlük baz: aylık resmi ödeme / resmi gün sayısı
+ */
+export function getOfficialDailyBase(parameter: WageParameterValues): number {
+  return parameter.officialPayment / parameter.officialWorkingDays;
+}
+
+export async function listWageParameters() {
+  return prisma.wageParameter.findMany({
+    orderBy: [{ effectiveYear: 'desc' }, { effectiveMonth: 'desc' }],
+  });
+}
+
+export async function getWageParameterById(id: string) {
+  const parameter = await prisma.wageParameter.findUnique({ where: { id } });
+  if (!parameter) {
+    throw new AppError(404, 'WAGE_PARAMETER_NOT_FOUND', 'Ücret parametresi bulunamadı');
+  }
+  return parameter;
+}
+
+/**
+ * Get the wage parameter valid for the given period
+ */
+export async function getWageParameterForPeriod(month: number, year: number) {
+  const parameter = await prisma.wageParameter.findFirst({
+    where: {
+      OR: [
+        { effectiveYear: { lt: year } },
+        { effectiveYear: year, effectiveMonth: { lte: month } },
+      ],
+    },
+    orderBy: [{ effectiveYear: 'desc' }, { effectiveMonth: 'desc' }],
+  });
+
+  if (!parameter) {
+    throw new AppError(
+      400,
+      'WAGE_PARAMETER_MISSING',
+      `${month}/${year} dönemi için geçerli resmi ücret parametresi tanımlı değil`
+    );
+  }
+
+  return parameter;
+}
+
+function assertOvertimeThresholds(warningHours: number, limitHours: number) {
+  if (warningHours > limitHours) {
+    throw new AppError(400, 'INVALID_OVERTIME_THRESHOLDS', 'Mesai uyarı eşiği yıllık sınırdan büyük olamaz');
+  }
+}
+
+export async function createWageParameter(input: CreateWageParameterInput) {
+  const validatedData = createWageParameterSchema.parse(input);
+  assertOvertimeThresholds(validatedData.overtimeWarningHours, validatedData.overtimeLimitHours);
+
+  const existing = await prisma.wageParameter.findUnique({
+    where: {
+      effectiveYear_effectiveMonth: {
+        effectiveYear: validatedData.effectiveYear,
+        effectiveMonth: validatedData.effectiveMonth,
+      },
+    },
+  });
+  if (existing) {
+    throw new AppError(409, 'WAGE_PARAMETER_EXISTS', 'Bu dönem için zaten bir ücret parametresi var');
+  }
+
+  return prisma.wageParameter.create({
+    data: {
+      effectiveYear: validatedData.effectiveYear,
+      effectiveMonth: validatedData.effectiveMonth,
+      officialPayment: validatedData.officialPayment,
+      officialWorkingDays: validatedData.officialWorkingDays,
+      dailyWorkingHours: validatedData.dailyWorkingHours,
+      overtimeWarningHours: validatedData.overtimeWarningHours,
+      overtimeLimitHours: validatedData.overtimeLimitHours,
+      severanceCeiling: validatedData.severanceCeiling ?? null,
+      description: validatedData.description?.trim() || null,
+    },
+  });
+}
+
+export async function updateWageParameter(id: string, input: UpdateWageParameterInput) {
+  const existing = await getWageParameterById(id);
+  const validatedData = updateWageParameterSchema.parse(input);
+  assertOvertimeThresholds(
+    validatedData.overtimeWarningHours ?? existing.overtimeWarningHours,
+    validatedData.overtimeLimitHours ?? existing.overtimeLimitHours
+  );
+
+  const nextYear = validatedData.effectiveYear ?? existing.effectiveYear;
+  const nextMonth = validatedData.effectiveMonth ?? existing.effectiveMonth;
+  if (nextYear !== existing.effectiveYear || nextMonth !== existing.effectiveMonth) {
+    const conflict = await prisma.wageParameter.findUnique({
+      where: { effectiveYear_effectiveMonth: { effectiveYear: nextYear, effectiveMonth: nextMonth } },
+    });
+    if (conflict) {
+      throw new AppError(409, 'WAGE_PARAMETER_EXISTS', 'Bu dönem için zaten bir ücret parametresi var');
+    }
+  }
+
+  const updateData: Record<string, unknown> = {};
+  if (validatedData.effectiveYear !== undefined) updateData.effectiveYear = validatedData.effectiveYear;
+  if (validatedData.effectiveMonth !== undefined) updateData.effectiveMonth = validatedData.effectiveMonth;
+  if (validatedData.officialPayment !== undefined) updateData.officialPayment = validatedData.officialPayment;
+  if (validatedData.officialWorkingDays !== undefined) updateData.officialWorkingDays = validatedData.officialWorkingDays;
+  if (validatedData.dailyWorkingHours !== undefined) updateData.dailyWorkingHours = validatedData.dailyWorkingHours;
+  if (validatedData.overtimeWarningHours !== undefined) updateData.overtimeWarningHours = validatedData.overtimeWarningHours;
+  if (validatedData.overtimeLimitHours !== undefined) updateData.overtimeLimitHours = validatedData.overtimeLimitHours;
+  if (validatedData.severanceCeiling !== undefined) updateData.severanceCeiling = validatedData.severanceCeiling ?? null;
+  if (validatedData.description !== undefined) updateData.description = validatedData.description?.trim() || null;
+
+  return prisma.wageParameter.update({
+    where: { id },
+    data: updateData,
+  });
+}
+
+export async function deleteWageParameter(id: string): Promise<void> {
+  await getWageParameterById(id);
+
+  const count = await prisma.wageParameter.count();
+  if (count <= 1) {
+    throw new AppError(400, 'WAGE_PARAMETER_LAST', 'En az bir ücret parametresi tanımlı kalmalıdır');
+  }
+
+  await prisma.wageParameter.delete({ where: { id } });
+}
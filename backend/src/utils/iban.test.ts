@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { formatIban, getIbanBankCode, ibanSchema, isValidTrIban, normalizeIban } from './iban';
+
+const VALID_IBAN = 'TR410006100000012345678901';
+
+describe('isValidTrIban', () => {
+  it('accepts an IBAN with correct check digits', () => {
+    expect(isValidTrIban(VALID_IBAN)).toBe(true);
+  });
+
+  it('accepts spaces and lower case', () => {
+    expect(isValidTrIban('tr41 0006 1000 0001 2345 6789 01')).toBe(true);
+  });
+
+  it('rejects wrong check digits or a mistyped digit', () => {
+    expect(isValidTrIban('TR420006100000012345678901')).toBe(false);
+    expect(isValidTrIban('TR410006100000012345678902')).toBe(false);
+  });
+
+  it('rejects other countries and wrong lengths', () => {
+    expect(isValidTrIban('DE89370400440532013000')).toBe(false);
+    expect(isValidTrIban('TR41000610000001234567890')).toBe(false);
+  });
+});
+
+describe('IBAN helpers', () => {
+  it('normalizes, formats and reads the bank code', () => {
+    expect(normalizeIban(' tr41 0006 10 ')).toBe('TR41000610');
+    expect(formatIban(VALID_IBAN)).toBe('TR41 0006 1000 0001 2345 6789 01');
+    expect(getIbanBankCode(VALID_IBAN)).toBe('00061');
+  });
+});
+
+describe('ibanSchema', () => {
+  it('stores an empty IBAN as null and a valid one normalized', () => {
+    expect(ibanSchema.parse('')).toBeNull();
+    expect(ibanSchema.parse('TR41 0006 1000 0001 2345 6789 01')).toBe(VALID_IBAN);
+  });
+
+  it('rejects an invalid IBAN', () => {
+    expect(ibanSchema.safeParse('TR420006100000012345678901').success).toBe(false);
+  });
+});
@@ -0,0 +1,61 @@
+import { z } from 'zod';
+
+/**
+ * IBAN yardımcıları (yalnızca TR IBAN kabul edilir)
+ *
+ * TR IBAN: "TR" + 2 kontrol basamağı + 5 haneli banka kodu + 1 rezerv hane + 16 haneli hesap numarası (26 karakter).
+ */
+
+const TR_IBAN_PATTERN = /^TR\d{24}$/;
+
+/**
+ * Boşlukları kaldırıp büyük harfe çevirir
+ */
+export function normalizeIban(value: string): string {
+  return value.replace(/\s+/g, '').toUpperCase();
+}
+
+/**
+ * ISO 13616 mod-97 kontrolü; sonuç 1 olmalıdır
+ */
+export function isValidTrIban(value: string): boolean {
+  const iban = normalizeIban(value);
+  if (!TR_IBAN_PATTERN.test(iban)) return false;
+
+  // İlk dört karakter sona alınır, harfler sayıya çevrilir (A=10 ... Z=35)
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const digits = char >= 'A' && char <= 'Z' ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+/**
+ * IBAN içindeki 5 haneli banka (EFT) kodu
+ */
+export function getIbanBankCode(iban: string): string {
+  return normalizeIban(iban).slice(4, 9);
+}
+
+/**
+ * Dörtlü gruplar halinde gösterim (TR00 0000 ...)
+ */
+export function formatIban(iban: string): string {
+  return normalizeIban(iban).replace(/(.{4})/g, '$1 ').trim();
+}
+
+/**
+ * Form alanı şeması: boş IBAN null olarak saklanır, dolu ise kontrol basamağı doğrulanır
+ */
+export const ibanSchema = z
+  .string()
+  .max(40, 'IBAN çok uzun')
+  .transform(normalizeIban)
+  .refine((val) => val === '' || isValidTrIban(val), {
+    message: 'Geçersiz IBAN (TR ile başlayan 26 karakter ve doğru kontrol basamağı olmalıdır)',
+  })
+  .transform((val) => val || null);
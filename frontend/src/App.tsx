@@ -10,6 +10,13 @@ import PayrollPage from './pages/PayrollPage';
 import LogPage from './pages/LogPage';
 import TrafficFinesPage from './pages/TrafficFinesPage';
 import OvertimePage from './pages/OvertimePage';
+import AdvancesPage from './pages/AdvancesPage';
+import SettingsPage from './pages/SettingsPage';
+import ReportsPage from './pages/ReportsPage';
+import AttendancePage from './pages/AttendancePage';
+import LeavePage from './pages/LeavePage';
+import VehiclesPage from './pages/VehiclesPage';
+import LoansPage from './pages/LoansPage';
 
 // Redirect authenticated users away from login page
 function PublicRoute({ children }: { children: React.ReactNode }) {
@@ -54,8 +61,15 @@ function AppRoutes() {
         <Route path="/" element={<ErrorBoundary><PayrollPage /></ErrorBoundary>} />
         <Route path="/calisanlar" element={<ErrorBoundary><EmployeesPage /></ErrorBoundary>} />
         <Route path="/mesailer" element={<ErrorBoundary><OvertimePage /></ErrorBoundary>} />
+        <Route path="/avanslar" element={<ErrorBoundary><AdvancesPage /></ErrorBoundary>} />
+        <Route path="/borclar" element={<ErrorBoundary><LoansPage /></ErrorBoundary>} />
         <Route path="/trafik-cezalari" element={<ErrorBoundary><TrafficFinesPage /></ErrorBoundary>} />
+        <Route path="/araclar" element={<ErrorBoundary><VehiclesPage /></ErrorBoundary>} />
+        <Route path="/devam" element={<ErrorBoundary><AttendancePage /></ErrorBoundary>} />
+        <Route path="/izinler" element={<ErrorBoundary><LeavePage /></ErrorBoundary>} />
+        <Route path="/raporlar" element={<ErrorBoundary><ReportsPage /></ErrorBoundary>} />
         <Route path="/log" element={<ErrorBoundary><LogPage /></ErrorBoundary>} />
+        <Route path="/ayarlar" element={<ErrorBoundary><SettingsPage /></ErrorBoundary>} />
       </Route>
       <Route path="*" element={<Navigate to="/" replace />} />
     </Routes>
@@ -0,0 +1,120 @@
+import { ApiError } from './employee';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
+
+export type AdvanceKind = 'CASH' | 'OFFICIAL';
+
+export const ADVANCE_KIND_LABELS: Record<AdvanceKind, string> = {
+  CASH: 'Gayri Resmi (Elden)',
+  OFFICIAL: 'Resmi',
+};
+
+export interface Advance {
+  id: string;
+  employeeId: string;
+  employee: { id: string; fullName: string; isInsured: boolean };
+  advanceDate: string;
+  month: number;
+  year: number;
+  kind: AdvanceKind;
+  amount: number;
+  note: string | null;
+  approvedBy: string;
+  createdBy: string;
+  // Önceki dönemden devreden avanslarda dolu
+  sourceMonth: number | null;
+  sourceYear: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateAdvanceInput {
+  employeeId: string;
+  advanceDate: string;
+  month: number;
+  year: number;
+  kind: AdvanceKind;
+  amount: number;
+  note?: string | null;
+  approvedBy?: string | null;
+}
+
+export interface UpdateAdvanceInput {
+  advanceDate?: string;
+  month?: number;
+  year?: number;
+  kind?: AdvanceKind;
+  amount?: number;
+  note?: string | null;
+  approvedBy?: string | null;
+}
+
+function getAuthToken(): string | null {
+  return localStorage.getItem('puantaj_token');
+}
+
+function createHeaders(): HeadersInit {
+  const headers: HeadersInit = {
+    'Content-Type': 'application/json',
+  };
+  const token = getAuthToken();
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+async function handleResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    const error: ApiError = {
+      status: response.status,
+      code: errorData.code || 'UNKNOWN_ERROR',
+      message: errorData.message || 'Bir hata oluştu',
+      details: errorData.details,
+    };
+    throw error;
+  }
+  // Handle 204 No Content
+  if (response.status === 204) {
+    return {} as T;
+  }
+  return response.json();
+}
+
+export async function getAdvances(month: number, year: number, employeeId?: string): Promise<Advance[]> {
+  const url = new URL(`${API_BASE_URL}/advances`);
+  url.searchParams.set('month', String(month));
+  url.searchParams.set('year', String(year));
+  if (employeeId) url.searchParams.set('employeeId', employeeId);
+
+  const response = await fetch(url.toString(), {
+    method: 'GET',
+    headers: createHeaders(),
+  });
+  return handleResponse<Advance[]>(response);
+}
+
+export async function createAdvance(input: CreateAdvanceInput): Promise<Advance> {
+  const response = await fetch(`${API_BASE_URL}/advances`, {
+    method: 'POST',
+    headers: createHeaders(),
+    body: JSON.stringify(input),
+  });
+  return handleResponse<Advance>(response);
+}
+
+export async function updateAdvance(id: string, input: UpdateAdvanceInput): Promise<Advance> {
+  const response = await fetch(`${API_BASE_URL}/advances/${id}`, {
+    method: 'PUT',
+    headers: createHeaders(),
+    body: JSON.stringify(input),
+  });
+  return handleResponse<Advance>(response);
+}
+
+export async function deleteAdvance(id: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/advances/${id}`, {
+    method: 'DELETE',
+    headers: createHeaders(),
+  });
+  await handleResponse<void>(response);
+}
@@ -0,0 +1,132 @@
+import { ApiError } from './employee';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
+
+// Sunucudaki sınırla aynı
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+export const ACCEPTED_ATTACHMENT_TYPES = 'application/pdf,image/jpeg,image/png,image/webp';
+
+// Ek tam olarak bir kayda bağlıdır
+export type AttachmentOwner =
+  | { trafficFineId: string }
+  | { trafficFinePaymentId: string }
+  | { employeeId: string }
+  | { payrollEntryId: string };
+
+export interface Attachment {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  checksum: string;
+  description: string | null;
+  uploadedBy: string | null;
+  createdAt: string;
+  trafficFineId: string | null;
+  trafficFinePaymentId: string | null;
+  employeeId: string | null;
+  payrollEntryId: string | null;
+}
+
+function getAuthToken(): string | null {
+  return localStorage.getItem('puantaj_token');
+}
+
+function createHeaders(): HeadersInit {
+  const headers: HeadersInit = {
+    'Content-Type': 'application/json',
+  };
+  const token = getAuthToken();
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+async function handleResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    const error: ApiError = {
+      status: response.status,
+      code: errorData.code || 'UNKNOWN_ERROR',
+      message: errorData.message || 'Bir hata oluştu',
+      details: errorData.details,
+    };
+    throw error;
+  }
+  // Handle 204 No Content
+  if (response.status === 204) {
+    return {} as T;
+  }
+  return response.json();
+}
+
+function ownerUrl(path: string, owner: AttachmentOwner): URL {
+  const url = new URL(`${API_BASE_URL}${path}`);
+  for (const [key, value] of Object.entries(owner)) {
+    url.searchParams.set(key, value);
+  }
+  return url;
+}
+
+export async function getAttachments(owner: AttachmentOwner): Promise<Attachment[]> {
+  const response = await fetch(ownerUrl('/attachments', owner).toString(), {
+    method: 'GET',
+    headers: createHeaders(),
+  });
+  return handleResponse<Attachment[]>(response);
+}
+
+/**
+ * Dosya ham gövde olarak gönderilir; ad başlıkta URL kodlu taşınır
+ */
+export async function uploadAttachment(
+  owner: AttachmentOwner,
+  file: File,
+  description?: string
+): Promise<Attachment> {
+  const url = ownerUrl('/attachments', owner);
+  if (description) url.searchParams.set('description', description);
+
+  const headers = createHeaders() as Record<string, string>;
+  headers['Content-Type'] = file.type || 'application/octet-stream';
+  headers['X-File-Name'] = encodeURIComponent(file.name);
+
+  const response = await fetch(url.toString(), {
+    method: 'POST',
+    headers,
+    body: file,
+  });
+  return handleResponse<Attachment>(response);
+}
+
+/**
+ * Eki indirir ve tarayıcıda kaydetme penceresini açar
+ */
+export async function downloadAttachment(attachment: Attachment): Promise<void> {
+  const token = getAuthToken();
+  const response = await fetch(`${API_BASE_URL}/attachments/${attachment.id}/download`, {
+    method: 'GET',
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+  if (!response.ok) {
+    await handleResponse<void>(response);
+  }
+
+  const blob = await response.blob();
+  const objectUrl = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = objectUrl;
+  link.download = attachment.fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(objectUrl);
+}
+
+export async function deleteAttachment(id: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/attachments/${id}`, {
+    method: 'DELETE',
+    headers: createHeaders(),
+  });
+  await handleResponse<void>(response);
+}
@@ -0,0 +1,124 @@
+import { ApiError } from './employee';
+import { PayrollEntry } from './payroll';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
+
+export type AttendanceCode =
+  | 'WORKED'
+  | 'PAID_LEAVE'
+  | 'UNPAID_LEAVE'
+  | 'SICK_REPORT'
+  | 'ABSENT'
+  | 'PUBLIC_HOLIDAY'
+  | 'WEEKLY_OFF';
+
+export interface AttendanceDay {
+  id: string;
+  employeeId: string;
+  date: string;
+  month: number;
+  year: number;
+  code: AttendanceCode;
+  note: string | null;
+}
+
+export interface AttendanceSummary {
+  employeeId: string;
+  counts: Record<AttendanceCode, number>;
+  unpaidDays: number;
+  daysOutsideEmployment: number;
+  daysWorked: number;
+}
+
+export interface AttendanceMonth {
+  month: number;
+  year: number;
+  days: AttendanceDay[];
+  summaries: AttendanceSummary[];
+}
+
+export interface SetAttendanceDay {
+  date: string;
+  // null: günün kodunu temizler
+  code: AttendanceCode | null;
+  note?: string | null;
+}
+
+export interface SetAttendanceResult {
+  employee: { id: string; fullName: string };
+  month: number;
+  year: number;
+  days: Pick<AttendanceDay, 'id' | 'date' | 'code' | 'note'>[];
+  summary: AttendanceSummary;
+  payroll: PayrollEntry;
+}
+
+// Takvimde gösterilen kısa kodlar
+export const ATTENDANCE_CODE_SHORT: Record<AttendanceCode, string> = {
+  WORKED: 'Ç',
+  PAID_LEAVE: 'İ',
+  UNPAID_LEAVE: 'Üİ',
+  SICK_REPORT: 'R',
+  ABSENT: 'D',
+  PUBLIC_HOLIDAY: 'RT',
+  WEEKLY_OFF: 'HT',
+};
+
+export const ATTENDANCE_CODE_LABELS: Record<AttendanceCode, string> = {
+  WORKED: 'Çalıştı',
+  PAID_LEAVE: 'Ücretli İzin',
+  UNPAID_LEAVE: 'Ücretsiz İzin',
+  SICK_REPORT: 'Raporlu',
+  ABSENT: 'Devamsız',
+  PUBLIC_HOLIDAY: 'Resmi Tatil',
+  WEEKLY_OFF: 'Hafta Tatili',
+};
+
+function getAuthToken(): string | null {
+  return localStorage.getItem('puantaj_token');
+}
+
+function createHeaders(): HeadersInit {
+  const headers: HeadersInit = {
+    'Content-Type': 'application/json',
+  };
+  const token = getAuthToken();
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+async function handleResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    const error: ApiError = {
+      status: response.status,
+      code: errorData.code || 'UNKNOWN_ERROR',
+      message: errorData.message || 'Bir hata oluştu',
+      details: errorData.details,
+    };
+    throw error;
+  }
+  return response.json();
+}
+
+export async function getAttendanceByMonth(month: number, year: number): Promise<AttendanceMonth> {
+  const response = await fetch(`${API_BASE_URL}/attendance?month=${month}&year=${year}`, {
+    method: 'GET',
+    headers: createHeaders(),
+  });
+  return handleResponse<AttendanceMonth>(response);
+}
+
+export async function setAttendanceDays(
+  employeeId: string,
+  month: number,
+  year: number,
+  days: SetAttendanceDay[]
+): Promise<SetAttendanceResult> {
+  const response = await fetch(`${API_BASE_URL}/attendance/${employeeId}/${year}/${month}`, {
+    method: 'PUT',
+    headers: createHeaders(),
+    body: JSON.stringify({ days }),
+  });
+  return handleResponse<SetAttendanceResult>(response);
+}
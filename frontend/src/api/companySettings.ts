@@ -0,0 +1,64 @@
+import { ApiError } from './employee';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
+
+export interface CompanySettings {
+  companyName: string;
+  address: string | null;
+  phone: string | null;
+  taxOffice: string | null;
+  taxNumber: string | null;
+  sgkRegistryNumber: string | null;
+  // Pusula altına basılan not
+  payslipNote: string | null;
+  // Maaş ödemelerinin yapıldığı firma hesabı (banka dosyası başlığı)
+  payerIban: string | null;
+  updatedBy: string | null;
+  updatedAt: string | null;
+}
+
+export type CompanySettingsInput = Omit<CompanySettings, 'updatedBy' | 'updatedAt'>;
+
+function getAuthToken(): string | null {
+  return localStorage.getItem('puantaj_token');
+}
+
+function createHeaders(): HeadersInit {
+  const headers: HeadersInit = {
+    'Content-Type': 'application/json',
+  };
+  const token = getAuthToken();
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+async function handleResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    const error: ApiError = {
+      status: response.status,
+      code: errorData.code || 'UNKNOWN_ERROR',
+      message: errorData.message || 'Bir hata oluştu',
+      details: errorData.details,
+    };
+    throw error;
+  }
+  return response.json();
+}
+
+export async function getCompanySettings(): Promise<CompanySettings> {
+  const response = await fetch(`${API_BASE_URL}/company-settings`, {
+    method: 'GET',
+    headers: createHeaders(),
+  });
+  return handleResponse<CompanySettings>(response);
+}
+
+export async function updateCompanySettings(input: CompanySettingsInput): Promise<CompanySettings> {
+  const response = await fetch(`${API_BASE_URL}/company-settings`, {
+    method: 'PUT',
+    headers: createHeaders(),
+    body: JSON.stringify(input),
+  });
+  return handleResponse<CompanySettings>(response);
+}
@@ -20,6 +20,9 @@ export interface Employee {
   endDate: string | null;
   salary: number;
   workingDays: number;
+  // Resmi ödemenin havale edildiği hesap
+  iban: string | null;
+  bankName: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -32,6 +35,8 @@ export interface CreateEmployeeInput {
   endDate?: string | null;
   salary: number;
   workingDays?: number;
+  iban?: string | null;
+  bankName?: string | null;
 }
 
 export interface UpdateEmployeeInput {
@@ -42,6 +47,28 @@ export interface UpdateEmployeeInput {
   endDate?: string | null;
   salary?: number;
   workingDays?: number;
+  iban?: string | null;
+  bankName?: string | null;
+  // Maaş değişikliğinin geçerlilik tarihi (verilmezse içinde bulunulan ayın başı)
+  salaryEffectiveFrom?: string;
+}
+
+/**
+ * TR IBAN kontrolü (boşluklar yok sayılır; mod-97 kontrol basamağı)
+ */
+export function isValidTrIban(value: string): boolean {
+  const iban = value.replace(/\s+/g, '').toUpperCase();
+  if (!/^TR\d{24}$/.test(iban)) return false;
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const digits = char >= 'A' && char <= 'Z' ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
 }
 
 export interface ApiError {
@@ -0,0 +1,137 @@
+import { ApiError, WorkArea } from './employee';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
+
+export type LeaveStatus = 'PENDING' | 'APPROVED' | 'REJECTED' | 'CANCELLED';
+
+export interface LeaveRequest {
+  id: string;
+  employeeId: string;
+  employee: { id: string; fullName: string; workArea: WorkArea };
+  startDate: string;
+  endDate: string;
+  days: number;
+  status: LeaveStatus;
+  note: string | null;
+  requestedBy: string | null;
+  decidedBy: string | null;
+  decidedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateLeaveRequestInput {
+  employeeId: string;
+  startDate: string;
+  endDate: string;
+  note?: string | null;
+}
+
+export interface LeaveBalanceRow {
+  serviceYear: number;
+  periodStart: string;
+  periodEnd: string;
+  entitlement: number;
+  carriedOver: number;
+  used: number;
+  remaining: number;
+}
+
+export interface LeaveBalance {
+  employeeId: string;
+  seniorityYears: number;
+  currentEntitlement: number;
+  totalEntitled: number;
+  used: number;
+  pending: number;
+  remaining: number;
+  history: LeaveBalanceRow[];
+}
+
+export const LEAVE_STATUS_LABELS: Record<LeaveStatus, string> = {
+  PENDING: 'Onay Bekliyor',
+  APPROVED: 'Onaylandı',
+  REJECTED: 'Reddedildi',
+  CANCELLED: 'İptal Edildi',
+};
+
+function getAuthToken(): string | null {
+  return localStorage.getItem('puantaj_token');
+}
+
+function createHeaders(): HeadersInit {
+  const headers: HeadersInit = {
+    'Content-Type': 'application/json',
+  };
+  const token = getAuthToken();
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+async function handleResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    const error: ApiError = {
+      status: response.status,
+      code: errorData.code || 'UNKNOWN_ERROR',
+      message: errorData.message || 'Bir hata oluştu',
+      details: errorData.details,
+    };
+    throw error;
+  }
+  return response.json();
+}
+
+export async function getLeaveRequests(filters: {
+  employeeId?: string;
+  status?: LeaveStatus;
+  year?: number;
+}): Promise<LeaveRequest[]> {
+  const params = new URLSearchParams();
+  if (filters.employeeId) params.set('employeeId', filters.employeeId);
+  if (filters.status) params.set('status', filters.status);
+  if (filters.year) params.set('year', String(filters.year));
+
+  const response = await fetch(`${API_BASE_URL}/leave-requests?${params.toString()}`, {
+    method: 'GET',
+    headers: createHeaders(),
+  });
+  return handleResponse<LeaveRequest[]>(response);
+}
+
+export async function createLeaveRequest(input: CreateLeaveRequestInput): Promise<LeaveRequest> {
+  const response = await fetch(`${API_BASE_URL}/leave-requests`, {
+    method: 'POST',
+    headers: createHeaders(),
+    body: JSON.stringify(input),
+  });
+  return handleResponse<LeaveRequest>(response);
+}
+
+async function transitionLeaveRequest(id: string, action: 'approve' | 'reject' | 'cancel'): Promise<LeaveRequest> {
+  const response = await fetch(`${API_BASE_URL}/leave-requests/${id}/${action}`, {
+    method: 'POST',
+    headers: createHeaders(),
+  });
+  return handleResponse<LeaveRequest>(response);
+}
+
+export function approveLeaveRequest(id: string): Promise<LeaveRequest> {
+  return transitionLeaveRequest(id, 'approve');
+}
+
+export function rejectLeaveRequest(id: string): Promise<LeaveRequest> {
+  return transitionLeaveRequest(id, 'reject');
+}
+
+export function cancelLeaveRequest(id: string): Promise<LeaveRequest> {
+  return transitionLeaveRequest(id, 'cancel');
+}
+
+export async function getLeaveBalance(employeeId: string): Promise<LeaveBalance> {
+  const response = await fetch(`${API_BASE_URL}/employees/${employeeId}/leave-balance`, {
+    method: 'GET',
+    headers: createHeaders(),
+  });
+  return handleResponse<LeaveBalance>(response);
+}
@@ -0,0 +1,179 @@
+import { ApiError } from './employee';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
+
+export type LoanStatus = 'ACTIVE' | 'PAID_OFF' | 'WRITTEN_OFF';
+export type LoanTransactionKind = 'INSTALLMENT' | 'PAYOFF' | 'WRITE_OFF';
+
+export const LOAN_STATUS_LABELS: Record<LoanStatus, string> = {
+  ACTIVE: 'Devam Ediyor',
+  PAID_OFF: 'Kapandı',
+  WRITTEN_OFF: 'Silindi',
+};
+
+export const LOAN_TRANSACTION_KIND_LABELS: Record<LoanTransactionKind, string> = {
+  INSTALLMENT: 'Puantaj Kesintisi',
+  PAYOFF: 'Erken Ödeme',
+  WRITE_OFF: 'Silme (Terkin)',
+};
+
+export interface LoanTransaction {
+  id: string;
+  loanId: string;
+  kind: LoanTransactionKind;
+  amount: number;
+  transactionDate: string;
+  // Puantaj kesintisinde dönemi
+  month: number | null;
+  year: number | null;
+  note: string | null;
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface LoanScheduleLine {
+  month: number;
+  year: number;
+  amount: number;
+}
+
+export interface Loan {
+  id: string;
+  employeeId: string;
+  employee: { id: string; fullName: string; endDate: string | null };
+  loanDate: string;
+  principal: number;
+  installmentAmount: number;
+  startMonth: number;
+  startYear: number;
+  status: LoanStatus;
+  note: string | null;
+  approvedBy: string;
+  createdBy: string;
+  transactions: LoanTransaction[];
+  paidByPayroll: number;
+  paidOff: number;
+  writtenOff: number;
+  balance: number;
+  // Kalan bakiyenin tahmini taksit planı
+  schedule: LoanScheduleLine[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateLoanInput {
+  employeeId: string;
+  loanDate: string;
+  principal: number;
+  startMonth: number;
+  startYear: number;
+  // Taksit sayısı veya taksit tutarından yalnızca biri
+  installmentCount?: number;
+  installmentAmount?: number;
+  note?: string | null;
+  approvedBy?: string | null;
+}
+
+export type UpdateLoanInput = Partial<Omit<CreateLoanInput, 'employeeId'>>;
+
+export interface LoanPayoffInput {
+  paymentDate: string;
+  // Boşsa kalan bakiyenin tamamı
+  amount?: number;
+  note?: string | null;
+}
+
+function getAuthToken(): string | null {
+  return localStorage.getItem('puantaj_token');
+}
+
+function createHeaders(): HeadersInit {
+  const headers: HeadersInit = {
+    'Content-Type': 'application/json',
+  };
+  const token = getAuthToken();
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+async function handleResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    const error: ApiError = {
+      status: response.status,
+      code: errorData.code || 'UNKNOWN_ERROR',
+      message: errorData.message || 'Bir hata oluştu',
+      details: errorData.details,
+    };
+    throw error;
+  }
+  // Handle 204 No Content
+  if (response.status === 204) {
+    return {} as T;
+  }
+  return response.json();
+}
+
+export async function getLoans(filters: { employeeId?: string; status?: LoanStatus } = {}): Promise<Loan[]> {
+  const url = new URL(`${API_BASE_URL}/loans`);
+  if (filters.employeeId) url.searchParams.set('employeeId', filters.employeeId);
+  if (filters.status) url.searchParams.set('status', filters.status);
+
+  const response = await fetch(url.toString(), {
+    method: 'GET',
+    headers: createHeaders(),
+  });
+  return handleResponse<Loan[]>(response);
+}
+
+export async function createLoan(input: CreateLoanInput): Promise<Loan> {
+  const response = await fetch(`${API_BASE_URL}/loans`, {
+    method: 'POST',
+    headers: createHeaders(),
+    body: JSON.stringify(input),
+  });
+  return handleResponse<Loan>(response);
+}
+
+export async function updateLoan(id: string, input: UpdateLoanInput): Promise<Loan> {
+  const response = await fetch(`${API_BASE_URL}/loans/${id}`, {
+    method: 'PUT',
+    headers: createHeaders(),
+    body: JSON.stringify(input),
+  });
+  return handleResponse<Loan>(response);
+}
+
+export async function deleteLoan(id: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/loans/${id}`, {
+    method: 'DELETE',
+    headers: createHeaders(),
+  });
+  await handleResponse<void>(response);
+}
+
+export async function payOffLoan(id: string, input: LoanPayoffInput): Promise<Loan> {
+  const response = await fetch(`${API_BASE_URL}/loans/${id}/payoff`, {
+    method: 'POST',
+    headers: createHeaders(),
+    body: JSON.stringify(input),
+  });
+  return handleResponse<Loan>(response);
+}
+
+export async function writeOffLoan(id: string, note: string): Promise<Loan> {
+  const response = await fetch(`${API_BASE_URL}/loans/${id}/write-off`, {
+    method: 'POST',
+    headers: createHeaders(),
+    body: JSON.stringify({ note }),
+  });
+  return handleResponse<Loan>(response);
+}
+
+export async function deleteLoanTransaction(id: string, transactionId: string): Promise<Loan> {
+  const response = await fetch(`${API_BASE_URL}/loans/${id}/transactions/${transactionId}`, {
+    method: 'DELETE',
+    headers: createHeaders(),
+  });
+  return handleResponse<Loan>(response);
+}
@@ -4,7 +4,7 @@ const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api'
 
 // Types
 export type ActionType = 'CREATE' | 'UPDATE' | 'DELETE';
-export type EntityType = 'EMPLOYEE' | 'PAYROLL' | 'TRAFFIC_FINE';
+export type EntityType = 'EMPLOYEE' | 'PAYROLL' | 'TRAFFIC_FINE' | 'WAGE_PARAMETER' | 'SALARY_HISTORY' | 'PAYROLL_PERIOD' | 'TAX_PARAMETER' | 'TERMINATION_SETTLEMENT' | 'ATTENDANCE' | 'PUBLIC_HOLIDAY' | 'LEAVE_REQUEST' | 'VEHICLE' | 'ATTACHMENT' | 'PAY_COMPONENT' | 'LOAN' | 'COMPANY_SETTINGS' | 'BANK_EXPORT';
 
 export interface FieldChange {
   field: string;
@@ -126,6 +126,20 @@ export const ENTITY_TYPE_LABELS: Record<EntityType, string> = {
   EMPLOYEE: 'Çalışan',
   PAYROLL: 'Puantaj',
   TRAFFIC_FINE: 'Trafik Cezası',
+  WAGE_PARAMETER: 'Ücret Parametresi',
+  SALARY_HISTORY: 'Maaş Geçmişi',
+  PAYROLL_PERIOD: 'Puantaj Dönemi',
+  TAX_PARAMETER: 'Vergi Parametresi',
+  TERMINATION_SETTLEMENT: 'İşten Çıkış',
+  ATTENDANCE: 'Devam Takvimi',
+  PUBLIC_HOLIDAY: 'Resmi Tatil',
+  LEAVE_REQUEST: 'Yıllık İzin',
+  VEHICLE: 'Araç',
+  ATTACHMENT: 'Belge Eki',
+  PAY_COMPONENT: 'Ödeme / Kesinti Türü',
+  LOAN: 'Borç',
+  COMPANY_SETTINGS: 'Firma Bilgileri',
+  BANK_EXPORT: 'Banka Dosyası',
 };
 
 // Field name display names in Turkish
@@ -139,14 +153,94 @@ export const FIELD_LABELS: Record<string, string> = {
   workingDays: 'Çalışma Gün Sayısı',
   daysWorked: 'Çalıştığı Gün',
   advance: 'Avans',
+  officialAdvance: 'Resmi Avans',
+  advanceDate: 'Avans Tarihi',
+  approvedBy: 'Onaylayan',
   overtime50: '%50 Mesai',
   overtime100: '%100 Mesai',
   officialPayment: 'Resmi Ödeme',
   cashPayment: 'Elden Ödeme',
   fineDate: 'Ceza Tarihi',
+  notificationDate: 'Tebliğ Tarihi',
   amount: 'Tutar',
   description: 'Açıklama',
   paymentDate: 'Ödeme Tarihi',
+  paymentDeleted: 'Ödeme Silindi',
+  plate: 'Plaka',
+  model: 'Model',
+  employeeName: 'Çalışan',
+  assignmentDeleted: 'Zimmet Silindi',
+  driverResolution: 'Sürücü Eşleşmesi',
+  fileName: 'Dosya Adı',
+  mimeType: 'Dosya Türü',
+  size: 'Boyut (bayt)',
+  trafficFineId: 'Trafik Cezası',
+  trafficFinePaymentId: 'Ceza Ödemesi',
+  employeeId: 'Çalışan Kaydı',
+  payrollEntryId: 'Puantaj Satırı',
+  effectiveYear: 'Geçerlilik Yılı',
+  effectiveMonth: 'Geçerlilik Ayı',
+  officialWorkingDays: 'Resmi Gün Sayısı',
+  effectiveFrom: 'Geçerlilik Tarihi',
+  note: 'Not',
+  status: 'Durum',
+  year: 'Yıl',
+  minimumWageGross: 'Brüt Asgari Ücret',
+  sgkCeiling: 'SGK Tavanı',
+  sgkEmployeeRate: 'SGK İşçi Oranı',
+  unemploymentEmployeeRate: 'İşsizlik İşçi Oranı',
+  sgkEmployerRate: 'SGK İşveren Oranı',
+  unemploymentEmployerRate: 'İşsizlik İşveren Oranı',
+  stampTaxRate: 'Damga Vergisi Oranı',
+  incomeTaxBrackets: 'Gelir Vergisi Dilimleri',
+  severanceCeiling: 'Kıdem Tazminatı Tavanı',
+  terminationDate: 'Çıkış Tarihi',
+  reason: 'Çıkış Nedeni',
+  noticeGiven: 'İhbar Süresi Verildi',
+  serviceDays: 'Hizmet Günü',
+  severanceGross: 'Kıdem Tazminatı',
+  noticePay: 'İhbar Tazminatı',
+  unusedLeaveDays: 'Kullanılmayan İzin Günü',
+  unusedLeavePay: 'İzin Ücreti',
+  totalGross: 'Toplam Brüt',
+  name: 'Ad',
+  kind: 'Tür',
+  isHalfDay: 'Yarım Gün',
+  date: 'Tarih',
+  days: 'Gün',
+  dailyWorkingHours: 'Günlük Çalışma Saati',
+  overtimeWarningHours: 'Yıllık Mesai Uyarı Eşiği',
+  overtimeLimitHours: 'Yıllık Mesai Sınırı',
+  dailyWage: 'Günlük Ücret',
+  hourlyRate: 'Saatlik Ücret',
+  clientAmount: 'İstemci Tutarı (yok sayıldı)',
+  deductions: 'Maaş Kesinti Planı',
+  channel: 'Ödeme Tarafı',
+  isTaxable: 'Vergiye Tabi',
+  isSgkLiable: 'SGK Primine Tabi',
+  isActive: 'Aktif',
+  sortOrder: 'Sıra',
+  componentTypeId: 'Ödeme / Kesinti Türü',
+  componentName: 'Ödeme / Kesinti Türü Adı',
+  loanDate: 'Borç Tarihi',
+  principal: 'Borç Tutarı',
+  installmentAmount: 'Taksit Tutarı',
+  startMonth: 'İlk Taksit Ayı',
+  startYear: 'İlk Taksit Yılı',
+  balance: 'Kalan Bakiye',
+  companyName: 'Firma Adı',
+  address: 'Adres',
+  phone: 'Telefon',
+  taxOffice: 'Vergi Dairesi',
+  taxNumber: 'Vergi No',
+  sgkRegistryNumber: 'SGK Sicil No',
+  payslipNote: 'Pusula Notu',
+  payerIban: 'Ödeme Hesabı IBAN',
+  iban: 'IBAN',
+  bankName: 'Banka',
+  format: 'Dosya Biçimi',
+  employeeCount: 'Çalışan Sayısı',
+  totalAmount: 'Toplam Tutar',
 };
 
 // Helper to format field name
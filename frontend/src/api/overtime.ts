@@ -12,6 +12,7 @@ export interface OvertimeEntry {
   type: 'OVERTIME_50' | 'OVERTIME_100';
   multiplier: number;
   hours: number;
+  hourlyRate: number | null;
   amount: number;
   description: string | null;
   createdAt: string;
@@ -24,12 +25,44 @@ export interface CreateOvertimeInput {
   month: number;
   year: number;
   type: 'OVERTIME_50' | 'OVERTIME_100';
-  multiplier: number;
   hours: number;
-  amount: number;
   description?: string | null;
 }
 
+export interface UpdateOvertimeInput {
+  entryDate?: string;
+  month?: number;
+  year?: number;
+  type?: 'OVERTIME_50' | 'OVERTIME_100';
+  hours?: number;
+  description?: string | null;
+}
+
+export interface OvertimeRate {
+  dailyWage: number;
+  dailyWorkingHours: number;
+  hourlyRate: number;
+}
+
+export type OvertimeCapLevel = 'OK' | 'WARNING' | 'LIMIT';
+
+export interface OvertimeCapStatus {
+  employeeId: string;
+  year: number;
+  usedHours: number;
+  warningHours: number;
+  limitHours: number;
+  remainingHours: number;
+  level: OvertimeCapLevel;
+}
+
+export type SavedOvertimeEntry = OvertimeEntry & { cap: OvertimeCapStatus };
+
+export const OVERTIME_MULTIPLIERS: Record<'OVERTIME_50' | 'OVERTIME_100', number> = {
+  OVERTIME_50: 1.5,
+  OVERTIME_100: 2,
+};
+
 function getAuthToken(): string | null {
   return localStorage.getItem('puantaj_token');
 }
@@ -70,13 +103,48 @@ export async function getOvertimeEntries(month: number, year: number, employeeId
   return handleResponse<OvertimeEntry[]>(response);
 }
 
-export async function createOvertime(input: CreateOvertimeInput): Promise<OvertimeEntry> {
+export async function getOvertimeRate(employeeId: string, month: number, year: number): Promise<OvertimeRate> {
+  const url = new URL(`${API_BASE_URL}/overtime/rate`);
+  url.searchParams.set('employeeId', employeeId);
+  url.searchParams.set('month', String(month));
+  url.searchParams.set('year', String(year));
+
+  const response = await fetch(url.toString(), {
+    method: 'GET',
+    headers: createHeaders(),
+  });
+  return handleResponse<OvertimeRate>(response);
+}
+
+export async function getOvertimeCapStatuses(month: number, year: number, employeeId?: string): Promise<OvertimeCapStatus[]> {
+  const url = new URL(`${API_BASE_URL}/overtime/cap`);
+  url.searchParams.set('month', String(month));
+  url.searchParams.set('year', String(year));
+  if (employeeId) url.searchParams.set('employeeId', employeeId);
+
+  const response = await fetch(url.toString(), {
+    method: 'GET',
+    headers: createHeaders(),
+  });
+  return handleResponse<OvertimeCapStatus[]>(response);
+}
+
+export async function createOvertime(input: CreateOvertimeInput): Promise<SavedOvertimeEntry> {
   const response = await fetch(`${API_BASE_URL}/overtime`, {
     method: 'POST',
     headers: createHeaders(),
     body: JSON.stringify(input),
   });
-  return handleResponse<OvertimeEntry>(response);
+  return handleResponse<SavedOvertimeEntry>(response);
+}
+
+export async function updateOvertime(id: string, input: UpdateOvertimeInput): Promise<SavedOvertimeEntry> {
+  const response = await fetch(`${API_BASE_URL}/overtime/${id}`, {
+    method: 'PUT',
+    headers: createHeaders(),
+    body: JSON.stringify(input),
+  });
+  return handleResponse<SavedOvertimeEntry>(response);
 }
 
 export async function deleteOvertime(id: string): Promise<void> {
@@ -0,0 +1,102 @@
+import { ApiError } from './employee';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
+
+export type PayComponentKind = 'EARNING' | 'DEDUCTION';
+export type PayComponentChannel = 'OFFICIAL' | 'CASH';
+
+export interface PayComponentType {
+  id: string;
+  name: string;
+  kind: PayComponentKind;
+  channel: PayComponentChannel;
+  isTaxable: boolean;
+  isSgkLiable: boolean;
+  isActive: boolean;
+  sortOrder: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PayComponentTypeInput = Pick<
+  PayComponentType,
+  'name' | 'kind' | 'channel' | 'isTaxable' | 'isSgkLiable' | 'isActive' | 'sortOrder'
+>;
+
+export const PAY_COMPONENT_KIND_LABELS: Record<PayComponentKind, string> = {
+  EARNING: 'Ödeme',
+  DEDUCTION: 'Kesinti',
+};
+
+export const PAY_COMPONENT_CHANNEL_LABELS: Record<PayComponentChannel, string> = {
+  OFFICIAL: 'Resmi',
+  CASH: 'Elden',
+};
+
+function getAuthToken(): string | null {
+  return localStorage.getItem('puantaj_token');
+}
+
+function createHeaders(): HeadersInit {
+  const headers: HeadersInit = {
+    'Content-Type': 'application/json',
+  };
+  const token = getAuthToken();
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+async function handleResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    const error: ApiError = {
+      status: response.status,
+      code: errorData.code || 'UNKNOWN_ERROR',
+      message: errorData.message || 'Bir hata oluştu',
+      details: errorData.details,
+    };
+    throw error;
+  }
+  // Handle 204 No Content
+  if (response.status === 204) {
+    return {} as T;
+  }
+  return response.json();
+}
+
+export async function getPayComponentTypes(activeOnly: boolean = false): Promise<PayComponentType[]> {
+  const url = new URL(`${API_BASE_URL}/pay-components`);
+  if (activeOnly) url.searchParams.set('active', 'true');
+
+  const response = await fetch(url.toString(), {
+    method: 'GET',
+    headers: createHeaders(),
+  });
+  return handleResponse<PayComponentType[]>(response);
+}
+
+export async function createPayComponentType(input: PayComponentTypeInput): Promise<PayComponentType> {
+  const response = await fetch(`${API_BASE_URL}/pay-components`, {
+    method: 'POST',
+    headers: createHeaders(),
+    body: JSON.stringify(input),
+  });
+  return handleResponse<PayComponentType>(response);
+}
+
+export async function updatePayComponentType(id: string, input: Partial<PayComponentTypeInput>): Promise<PayComponentType> {
+  const response = await fetch(`${API_BASE_URL}/pay-components/${id}`, {
+    method: 'PUT',
+    headers: createHeaders(),
+    body: JSON.stringify(input),
+  });
+  return handleResponse<PayComponentType>(response);
+}
+
+export async function deletePayComponentType(id: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/pay-components/${id}`, {
+    method: 'DELETE',
+    headers: createHeaders(),
+  });
+  await handleResponse<void>(response);
+}
@@ -1,8 +1,46 @@
 import { Employee, ApiError } from './employee';
+import { PayComponentChannel, PayComponentKind } from './payComponent';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
 
 // Types
+export interface TaxBreakdown {
+  grossPay: number;
+  sgkDays: number;
+  sgkBase: number;
+  sgkEmployee: number;
+  unemploymentEmployee: number;
+  incomeTaxBase: number;
+  cumulativeTaxBase: number;
+  incomeTax: number;
+  incomeTaxExemption: number;
+  netIncomeTax: number;
+  stampTax: number;
+  stampTaxExemption: number;
+  netStampTax: number;
+  totalDeductions: number;
+  netPay: number;
+  sgkEmployer: number;
+  unemploymentEmployer: number;
+  employerCost: number;
+}
+
+export interface PayrollLineItem {
+  id: string;
+  componentTypeId: string;
+  name: string;
+  kind: PayComponentKind;
+  channel: PayComponentChannel;
+  amount: number;
+  description: string | null;
+}
+
+export interface PayrollLineItemInput {
+  componentTypeId: string;
+  amount: number;
+  description?: string | null;
+}
+
 export interface PayrollEntry {
   id: string;
   employeeId: string;
@@ -16,10 +54,23 @@ export interface PayrollEntry {
   overtime100: number;
   officialPayment: number;
   cashPayment: number;
+  // Trafik cezası: planlanan ve ödemeyle sınırlanmış kesilen tutar
+  fineDeductionDue: number;
+  fineDeduction: number;
+  // Borç taksiti: planlanan ve ödemeyle sınırlanmış kesilen tutar
+  loanInstallmentDue: number;
+  loanDeduction: number;
   // Calculated fields
+  // Hak edişi aşan avans kısmı; dönem kapanınca sonraki aya devreder
+  cashAdvanceCarryOver: number;
+  officialAdvanceCarryOver: number;
   dailyWage: number;
   earnedSalary: number;
   totalReceivable: number;
+  officialDailyBase: number;
+  taxBreakdown: TaxBreakdown | null;
+  // Ödeme / kesinti kalemleri
+  lineItems: PayrollLineItem[];
   // Employee info
   employee: Employee;
   createdAt: string;
@@ -28,8 +79,6 @@ export interface PayrollEntry {
 
 export interface UpdatePayrollInput {
   daysWorked?: number;
-  advance?: number;
-  officialAdvance?: number;
   overtime50?: number;
   overtime100?: number;
   officialPayment?: number;
@@ -42,8 +91,6 @@ export interface BatchUpdateEntry {
   month: number;
   year: number;
   daysWorked?: number;
-  advance?: number;
-  officialAdvance?: number;
   overtime50?: number;
   overtime100?: number;
   officialPayment?: number;
@@ -51,6 +98,46 @@ export interface BatchUpdateEntry {
   sortOrder?: number;
 }
 
+export type PayrollPeriodStatus = 'OPEN' | 'UNDER_REVIEW' | 'CLOSED';
+
+export interface PayrollPeriod {
+  id: string | null;
+  month: number;
+  year: number;
+  status: PayrollPeriodStatus;
+  reviewStartedAt: string | null;
+  closedAt: string | null;
+  closedBy: string | null;
+  reopenedAt: string | null;
+  reopenedBy: string | null;
+  hasSnapshot: boolean;
+}
+
+export type BankExportFormat = 'CSV' | 'FIXED_WIDTH';
+
+// Üretilmiş toplu ödeme dosyası (içerik indirme ucundan alınır)
+export interface BankPaymentExport {
+  id: string;
+  month: number;
+  year: number;
+  format: BankExportFormat;
+  fileName: string;
+  paymentDate: string;
+  description: string;
+  employeeCount: number;
+  totalAmount: number;
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface CreateBankExportInput {
+  month: number;
+  year: number;
+  format: BankExportFormat;
+  paymentDate: string;
+  description?: string | null;
+}
+
 // Helper to get auth token
 function getAuthToken(): string | null {
   return localStorage.getItem('puantaj_token');
@@ -135,6 +222,163 @@ export async function batchUpdatePayroll(entries: BatchUpdateEntry[]): Promise<P
   return handleResponse<PayrollEntry[]>(response);
 }
 
+/**
+ * Add a pay component line item to a payroll entry
+ */
+export async function addPayrollLineItem(id: string, input: PayrollLineItemInput): Promise<PayrollEntry> {
+  const response = await fetch(`${API_BASE_URL}/payroll/${id}/line-items`, {
+    method: 'POST',
+    headers: createHeaders(),
+    body: JSON.stringify(input),
+  });
+  return handleResponse<PayrollEntry>(response);
+}
+
+/**
+ * Update a pay component line item
+ */
+export async function updatePayrollLineItem(
+  id: string,
+  itemId: string,
+  input: Partial<PayrollLineItemInput>
+): Promise<PayrollEntry> {
+  const response = await fetch(`${API_BASE_URL}/payroll/${id}/line-items/${itemId}`, {
+    method: 'PUT',
+    headers: createHeaders(),
+    body: JSON.stringify(input),
+  });
+  return handleResponse<PayrollEntry>(response);
+}
+
+/**
+ * Delete a pay component line item
+ */
+export async function deletePayrollLineItem(id: string, itemId: string): Promise<PayrollEntry> {
+  const response = await fetch(`${API_BASE_URL}/payroll/${id}/line-items/${itemId}`, {
+    method: 'DELETE',
+    headers: createHeaders(),
+  });
+  return handleResponse<PayrollEntry>(response);
+}
+
+/**
+ * Get payroll period status
+ */
+export async function getPayrollPeriod(month: number, year: number): Promise<PayrollPeriod> {
+  const response = await fetch(`${API_BASE_URL}/payroll/periods/${year}/${month}`, {
+    method: 'GET',
+    headers: createHeaders(),
+  });
+  return handleResponse<PayrollPeriod>(response);
+}
+
+async function transitionPayrollPeriod(
+  month: number,
+  year: number,
+  action: 'review' | 'close' | 'reopen'
+): Promise<PayrollPeriod> {
+  const response = await fetch(`${API_BASE_URL}/payroll/periods/${year}/${month}/${action}`, {
+    method: 'POST',
+    headers: createHeaders(),
+  });
+  return handleResponse<PayrollPeriod>(response);
+}
+
+/**
+ * OPEN → UNDER_REVIEW
+ */
+export function startPayrollPeriodReview(month: number, year: number): Promise<PayrollPeriod> {
+  return transitionPayrollPeriod(month, year, 'review');
+}
+
+/**
+ * UNDER_REVIEW → CLOSED
+ */
+export function closePayrollPeriod(month: number, year: number): Promise<PayrollPeriod> {
+  return transitionPayrollPeriod(month, year, 'close');
+}
+
+/**
+ * UNDER_REVIEW / CLOSED → OPEN (ADMIN)
+ */
+export function reopenPayrollPeriod(month: number, year: number): Promise<PayrollPeriod> {
+  return transitionPayrollPeriod(month, year, 'reopen');
+}
+
+// Sunucunun ürettiği dosyayı indirir
+async function downloadFile(url: string, fileName: string): Promise<void> {
+  const token = getAuthToken();
+  const response = await fetch(url, {
+    method: 'GET',
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+  if (!response.ok) {
+    await handleResponse<void>(response);
+  }
+
+  const blob = await response.blob();
+  const objectUrl = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = objectUrl;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(objectUrl);
+}
+
+function periodFilePart(month: number, year: number): string {
+  return `${year}-${String(month).padStart(2, '0')}`;
+}
+
+/**
+ * Ücret ödeme pusulası (PDF)
+ */
+export function downloadPayslip(entry: PayrollEntry): Promise<void> {
+  const name = entry.employee.fullName.trim().replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '_');
+  return downloadFile(
+    `${API_BASE_URL}/payroll/${entry.id}/payslip`,
+    `Pusula_${periodFilePart(entry.month, entry.year)}_${name}.pdf`
+  );
+}
+
+/**
+ * Dönemin tüm pusulaları (ZIP)
+ */
+export function downloadPeriodPayslips(month: number, year: number): Promise<void> {
+  return downloadFile(
+    `${API_BASE_URL}/payroll/payslips?month=${month}&year=${year}`,
+    `Pusulalar_${periodFilePart(month, year)}.zip`
+  );
+}
+
+/**
+ * Dönem için üretilmiş banka dosyaları
+ */
+export async function getBankExports(month: number, year: number): Promise<BankPaymentExport[]> {
+  const response = await fetch(`${API_BASE_URL}/payroll/bank-export?month=${month}&year=${year}`, {
+    method: 'GET',
+    headers: createHeaders(),
+  });
+  return handleResponse<BankPaymentExport[]>(response);
+}
+
+/**
+ * Kapalı dönemin resmi ödemeleri için toplu EFT / havale dosyası üretir (ADMIN)
+ */
+export async function createBankExport(input: CreateBankExportInput): Promise<BankPaymentExport> {
+  const response = await fetch(`${API_BASE_URL}/payroll/bank-export`, {
+    method: 'POST',
+    headers: createHeaders(),
+    body: JSON.stringify(input),
+  });
+  return handleResponse<BankPaymentExport>(response);
+}
+
+export function downloadBankExport(bankExport: BankPaymentExport): Promise<void> {
+  return downloadFile(`${API_BASE_URL}/payroll/bank-export/${bankExport.id}/download`, bankExport.fileName);
+}
+
 // Helper to check if error is an ApiError
 export function isPayrollApiError(error: unknown): error is ApiError {
   return (
@@ -178,3 +422,15 @@ export const MONTH_NAMES: Record<number, string> = {
   11: 'Kasım',
   12: 'Aralık',
 };
+
+// Period status display names in Turkish
+export const PERIOD_STATUS_LABELS: Record<PayrollPeriodStatus, string> = {
+  OPEN: 'Açık',
+  UNDER_REVIEW: 'İncelemede',
+  CLOSED: 'Kapalı',
+};
+
+export const BANK_EXPORT_FORMAT_LABELS: Record<BankExportFormat, string> = {
+  CSV: 'Genel CSV',
+  FIXED_WIDTH: 'Sabit Uzunluklu (TXT)',
+};
@@ -0,0 +1,123 @@
+import { ApiError } from './employee';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
+
+export type HolidayKind = 'NATIONAL' | 'RELIGIOUS';
+
+export interface PublicHoliday {
+  id: string;
+  date: string;
+  year: number;
+  name: string;
+  kind: HolidayKind;
+  isHalfDay: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PublicHolidayInput = Pick<PublicHoliday, 'date' | 'name' | 'kind' | 'isHalfDay'>;
+
+export type OvertimeDayReason = 'PUBLIC_HOLIDAY' | 'HALF_DAY_HOLIDAY' | 'WEEKLY_REST' | 'WORKDAY';
+
+export interface OvertimeDayClassification {
+  date: string;
+  reason: OvertimeDayReason;
+  suggestedType: 'OVERTIME_50' | 'OVERTIME_100';
+  enforced: boolean;
+  holiday: PublicHoliday | null;
+}
+
+export const HOLIDAY_KIND_LABELS: Record<HolidayKind, string> = {
+  NATIONAL: 'Ulusal Bayram',
+  RELIGIOUS: 'Dini Bayram',
+};
+
+export const OVERTIME_DAY_REASON_LABELS: Record<OvertimeDayReason, string> = {
+  PUBLIC_HOLIDAY: 'Resmi tatil',
+  HALF_DAY_HOLIDAY: 'Arife (yarım gün)',
+  WEEKLY_REST: 'Hafta tatili',
+  WORKDAY: 'Çalışma günü',
+};
+
+function getAuthToken(): string | null {
+  return localStorage.getItem('puantaj_token');
+}
+
+function createHeaders(): HeadersInit {
+  const headers: HeadersInit = {
+    'Content-Type': 'application/json',
+  };
+  const token = getAuthToken();
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+async function handleResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    const error: ApiError = {
+      status: response.status,
+      code: errorData.code || 'UNKNOWN_ERROR',
+      message: errorData.message || 'Bir hata oluştu',
+      details: errorData.details,
+    };
+    throw error;
+  }
+  // Handle 204 No Content
+  if (response.status === 204) {
+    return {} as T;
+  }
+  return response.json();
+}
+
+export async function getPublicHolidays(year: number, month?: number): Promise<PublicHoliday[]> {
+  const query = month ? `year=${year}&month=${month}` : `year=${year}`;
+  const response = await fetch(`${API_BASE_URL}/public-holidays?${query}`, {
+    method: 'GET',
+    headers: createHeaders(),
+  });
+  return handleResponse<PublicHoliday[]>(response);
+}
+
+export async function classifyOvertimeDate(date: string, employeeId?: string): Promise<OvertimeDayClassification> {
+  const query = employeeId ? `date=${date}&employeeId=${employeeId}` : `date=${date}`;
+  const response = await fetch(`${API_BASE_URL}/public-holidays/classify?${query}`, {
+    method: 'GET',
+    headers: createHeaders(),
+  });
+  return handleResponse<OvertimeDayClassification>(response);
+}
+
+export async function createPublicHoliday(input: PublicHolidayInput): Promise<PublicHoliday> {
+  const response = await fetch(`${API_BASE_URL}/public-holidays`, {
+    method: 'POST',
+    headers: createHeaders(),
+    body: JSON.stringify(input),
+  });
+  return handleResponse<PublicHoliday>(response);
+}
+
+export async function addNationalHolidays(year: number): Promise<PublicHoliday[]> {
+  const response = await fetch(`${API_BASE_URL}/public-holidays/national/${year}`, {
+    method: 'POST',
+    headers: createHeaders(),
+  });
+  return handleResponse<PublicHoliday[]>(response);
+}
+
+export async function updatePublicHoliday(id: string, input: Partial<PublicHolidayInput>): Promise<PublicHoliday> {
+  const response = await fetch(`${API_BASE_URL}/public-holidays/${id}`, {
+    method: 'PUT',
+    headers: createHeaders(),
+    body: JSON.stringify(input),
+  });
+  return handleResponse<PublicHoliday>(response);
+}
+
+export async function deletePublicHoliday(id: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/public-holidays/${id}`, {
+    method: 'DELETE',
+    headers: createHeaders(),
+  });
+  await handleResponse<void>(response);
+}
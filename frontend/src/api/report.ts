@@ -0,0 +1,119 @@
+import { ApiError, WorkArea } from './employee';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
+
+export interface EmployerCostTotals {
+  employeeCount: number;
+  earnedSalary: number;
+  overtime: number;
+  componentEarnings: number;
+  sgkEmployer: number;
+  unemploymentEmployer: number;
+  totalCost: number;
+}
+
+export interface EmployerCostAreaRow {
+  workArea: WorkArea;
+  current: EmployerCostTotals;
+  previous: EmployerCostTotals;
+  change: number;
+  changeRate: number | null;
+}
+
+export interface EmployerCostReport {
+  month: number;
+  year: number;
+  previousMonth: number;
+  previousYear: number;
+  areas: EmployerCostAreaRow[];
+  totals: {
+    current: EmployerCostTotals;
+    previous: EmployerCostTotals;
+    change: number;
+    changeRate: number | null;
+  };
+}
+
+export type DenominationKind = 'BANKNOTE' | 'COIN';
+
+export interface DenominationCount {
+  value: number;
+  kind: DenominationKind;
+  count: number;
+}
+
+export interface CashEnvelopeRow {
+  employeeId: string;
+  fullName: string;
+  workArea: WorkArea;
+  isInsured: boolean;
+  amount: number;
+  denominations: DenominationCount[];
+}
+
+export interface CashEnvelopeReport {
+  month: number;
+  year: number;
+  workArea: WorkArea | null;
+  isClosed: boolean;
+  envelopes: CashEnvelopeRow[];
+  denominations: Array<DenominationCount & { total: number }>;
+  totals: {
+    employeeCount: number;
+    amount: number;
+    banknoteCount: number;
+    coinCount: number;
+  };
+}
+
+/**
+ * Küpür gösterimi: 200 TL, 50 Kr
+ */
+export function formatDenomination(value: number): string {
+  return value >= 1 ? `${value} TL` : `${Math.round(value * 100)} Kr`;
+}
+
+function getAuthToken(): string | null {
+  return localStorage.getItem('puantaj_token');
+}
+
+function createHeaders(): HeadersInit {
+  const headers: HeadersInit = {
+    'Content-Type': 'application/json',
+  };
+  const token = getAuthToken();
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+async function handleResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    const error: ApiError = {
+      status: response.status,
+      code: errorData.code || 'UNKNOWN_ERROR',
+      message: errorData.message || 'Bir hata oluştu',
+      details: errorData.details,
+    };
+    throw error;
+  }
+  return response.json();
+}
+
+export async function getEmployerCostReport(month: number, year: number): Promise<EmployerCostReport> {
+  const response = await fetch(`${API_BASE_URL}/reports/employer-cost?month=${month}&year=${year}`, {
+    method: 'GET',
+    headers: createHeaders(),
+  });
+  return handleResponse<EmployerCostReport>(response);
+}
+
+export async function getCashEnvelopeReport(month: number, year: number, workArea?: WorkArea): Promise<CashEnvelopeReport> {
+  const params = new URLSearchParams({ month: String(month), year: String(year) });
+  if (workArea) params.append('workArea', workArea);
+  const response = await fetch(`${API_BASE_URL}/reports/cash-envelopes?${params}`, {
+    method: 'GET',
+    headers: createHeaders(),
+  });
+  return handleResponse<CashEnvelopeReport>(response);
+}
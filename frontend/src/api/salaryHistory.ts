@@ -0,0 +1,86 @@
+import { ApiError } from './employee';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
+
+export interface SalaryHistoryEntry {
+  id: string;
+  employeeId: string;
+  effectiveFrom: string;
+  salary: number;
+  workingDays: number;
+  note: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SalaryHistoryInput {
+  effectiveFrom: string;
+  salary: number;
+  workingDays?: number;
+  note?: string | null;
+}
+
+function getAuthToken(): string | null {
+  return localStorage.getItem('puantaj_token');
+}
+
+function createHeaders(): HeadersInit {
+  const headers: HeadersInit = {
+    'Content-Type': 'application/json',
+  };
+  const token = getAuthToken();
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+async function handleResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    const error: ApiError = {
+      status: response.status,
+      code: errorData.code || 'UNKNOWN_ERROR',
+      message: errorData.message || 'Bir hata oluştu',
+      details: errorData.details,
+    };
+    throw error;
+  }
+  // Handle 204 No Content
+  if (response.status === 204) {
+    return {} as T;
+  }
+  return response.json();
+}
+
+export async function getSalaryHistory(employeeId: string): Promise<SalaryHistoryEntry[]> {
+  const response = await fetch(`${API_BASE_URL}/employees/${employeeId}/salary-history`, {
+    method: 'GET',
+    headers: createHeaders(),
+  });
+  return handleResponse<SalaryHistoryEntry[]>(response);
+}
+
+export async function createSalaryHistory(employeeId: string, input: SalaryHistoryInput): Promise<SalaryHistoryEntry> {
+  const response = await fetch(`${API_BASE_URL}/employees/${employeeId}/salary-history`, {
+    method: 'POST',
+    headers: createHeaders(),
+    body: JSON.stringify(input),
+  });
+  return handleResponse<SalaryHistoryEntry>(response);
+}
+
+export async function updateSalaryHistory(id: string, input: Partial<SalaryHistoryInput>): Promise<SalaryHistoryEntry> {
+  const response = await fetch(`${API_BASE_URL}/salary-history/${id}`, {
+    method: 'PUT',
+    headers: createHeaders(),
+    body: JSON.stringify(input),
+  });
+  return handleResponse<SalaryHistoryEntry>(response);
+}
+
+export async function deleteSalaryHistory(id: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/salary-history/${id}`, {
+    method: 'DELETE',
+    headers: createHeaders(),
+  });
+  await handleResponse<void>(response);
+}
@@ -0,0 +1,91 @@
+import { ApiError } from './employee';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
+
+export interface IncomeTaxBracket {
+  upTo: number | null;
+  rate: number;
+}
+
+// Oranlar kesir olarak tutulur (%14 → 0.14)
+export interface TaxParameter {
+  id: string;
+  year: number;
+  minimumWageGross: number;
+  sgkCeiling: number;
+  sgkEmployeeRate: number;
+  unemploymentEmployeeRate: number;
+  sgkEmployerRate: number;
+  unemploymentEmployerRate: number;
+  stampTaxRate: number;
+  incomeTaxBrackets: IncomeTaxBracket[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type TaxParameterInput = Omit<TaxParameter, 'id' | 'createdAt' | 'updatedAt'>;
+
+function getAuthToken(): string | null {
+  return localStorage.getItem('puantaj_token');
+}
+
+function createHeaders(): HeadersInit {
+  const headers: HeadersInit = {
+    'Content-Type': 'application/json',
+  };
+  const token = getAuthToken();
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+async function handleResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    const error: ApiError = {
+      status: response.status,
+      code: errorData.code || 'UNKNOWN_ERROR',
+      message: errorData.message || 'Bir hata oluştu',
+      details: errorData.details,
+    };
+    throw error;
+  }
+  // Handle 204 No Content
+  if (response.status === 204) {
+    return {} as T;
+  }
+  return response.json();
+}
+
+export async function getTaxParameters(): Promise<TaxParameter[]> {
+  const response = await fetch(`${API_BASE_URL}/tax-parameters`, {
+    method: 'GET',
+    headers: createHeaders(),
+  });
+  return handleResponse<TaxParameter[]>(response);
+}
+
+export async function createTaxParameter(input: TaxParameterInput): Promise<TaxParameter> {
+  const response = await fetch(`${API_BASE_URL}/tax-parameters`, {
+    method: 'POST',
+    headers: createHeaders(),
+    body: JSON.stringify(input),
+  });
+  return handleResponse<TaxParameter>(response);
+}
+
+export async function updateTaxParameter(id: string, input: Partial<TaxParameterInput>): Promise<TaxParameter> {
+  const response = await fetch(`${API_BASE_URL}/tax-parameters/${id}`, {
+    method: 'PUT',
+    headers: createHeaders(),
+    body: JSON.stringify(input),
+  });
+  return handleResponse<TaxParameter>(response);
+}
+
+export async function deleteTaxParameter(id: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/tax-parameters/${id}`, {
+    method: 'DELETE',
+    headers: createHeaders(),
+  });
+  await handleResponse<void>(response);
+}
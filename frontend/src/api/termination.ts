@@ -0,0 +1,137 @@
+import { ApiError } from './employee';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
+
+export type TerminationReason =
+  | 'EMPLOYER_TERMINATION'
+  | 'RESIGNATION'
+  | 'RETIREMENT'
+  | 'MILITARY_SERVICE'
+  | 'MARRIAGE'
+  | 'MISCONDUCT'
+  | 'MUTUAL_AGREEMENT'
+  | 'DEATH';
+
+export interface TerminationInput {
+  terminationDate: string;
+  reason: TerminationReason;
+  noticeGiven: boolean;
+  unusedLeaveDays: number;
+  note?: string | null;
+}
+
+export interface TerminationCalculation {
+  terminationDate: string;
+  reason: TerminationReason;
+  noticeGiven: boolean;
+  serviceDays: number;
+  serviceYears: number;
+  serviceMonths: number;
+  serviceRemainder: number;
+  monthlySalary: number;
+  dailySalary: number;
+  severanceCeiling: number | null;
+  severanceBase: number;
+  severanceGross: number;
+  severanceStampTax: number;
+  severanceNet: number;
+  noticeWeeks: number;
+  noticePay: number;
+  unusedLeaveDays: number;
+  unusedLeavePay: number;
+  totalGross: number;
+}
+
+export interface TerminationSettlement extends TerminationCalculation {
+  id: string;
+  employeeId: string;
+  note: string | null;
+  createdBy: string | null;
+  employee: {
+    id: string;
+    fullName: string;
+    workArea: string;
+    startDate: string;
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+function getAuthToken(): string | null {
+  return localStorage.getItem('puantaj_token');
+}
+
+function createHeaders(): HeadersInit {
+  const headers: HeadersInit = {
+    'Content-Type': 'application/json',
+  };
+  const token = getAuthToken();
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+async function handleResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    const error: ApiError = {
+      status: response.status,
+      code: errorData.code || 'UNKNOWN_ERROR',
+      message: errorData.message || 'Bir hata oluştu',
+      details: errorData.details,
+    };
+    throw error;
+  }
+  // Handle 204 No Content
+  if (response.status === 204) {
+    return {} as T;
+  }
+  return response.json();
+}
+
+export async function getTerminationSettlements(employeeId: string): Promise<TerminationSettlement[]> {
+  const response = await fetch(`${API_BASE_URL}/employees/${employeeId}/terminations`, {
+    method: 'GET',
+    headers: createHeaders(),
+  });
+  return handleResponse<TerminationSettlement[]>(response);
+}
+
+export async function previewTermination(employeeId: string, input: TerminationInput): Promise<TerminationCalculation> {
+  const response = await fetch(`${API_BASE_URL}/employees/${employeeId}/terminations/preview`, {
+    method: 'POST',
+    headers: createHeaders(),
+    body: JSON.stringify(input),
+  });
+  return handleResponse<TerminationCalculation>(response);
+}
+
+export async function createTerminationSettlement(
+  employeeId: string,
+  input: TerminationInput
+): Promise<TerminationSettlement> {
+  const response = await fetch(`${API_BASE_URL}/employees/${employeeId}/terminations`, {
+    method: 'POST',
+    headers: createHeaders(),
+    body: JSON.stringify(input),
+  });
+  return handleResponse<TerminationSettlement>(response);
+}
+
+export async function deleteTerminationSettlement(id: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/termination-settlements/${id}`, {
+    method: 'DELETE',
+    headers: createHeaders(),
+  });
+  await handleResponse<void>(response);
+}
+
+export const TERMINATION_REASON_LABELS: Record<TerminationReason, string> = {
+  EMPLOYER_TERMINATION: 'İşveren Feshi',
+  RESIGNATION: 'İstifa',
+  RETIREMENT: 'Emeklilik',
+  MILITARY_SERVICE: 'Askerlik',
+  MARRIAGE: 'Evlilik',
+  MISCONDUCT: 'Haklı Nedenle Fesih (Ahlak ve İyi Niyet)',
+  MUTUAL_AGREEMENT: 'İkale (Karşılıklı Anlaşma)',
+  DEATH: 'Vefat',
+};
@@ -1,4 +1,5 @@
 import { ApiError, Employee } from './employee';
+import { DriverResolutionStatus, Vehicle } from './vehicle';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
 
@@ -10,30 +11,84 @@ export interface TrafficFinePayment {
   createdAt: string;
 }
 
+export interface TrafficFineDeduction {
+  id: string;
+  trafficFineId: string;
+  employeeId: string;
+  month: number;
+  year: number;
+  amount: number;
+  paymentId: string | null;
+  // Kapanışta maaştan karşılanamayan kısım / önceki dönemden eklenen kısım
+  unpaidAmount: number;
+  carriedAmount: number;
+  createdAt: string;
+}
+
+export type TrafficFineStatus = 'OPEN' | 'PAID_DISCOUNTED' | 'PAID' | 'OVERDUE';
+
+export const TRAFFIC_FINE_STATUS_LABELS: Record<TrafficFineStatus, string> = {
+  OPEN: 'Açık',
+  PAID_DISCOUNTED: 'İndirimli Ödendi',
+  PAID: 'Ödendi',
+  OVERDUE: 'Süresi Geçti',
+};
+
 export interface TrafficFine {
   id: string;
   employeeId: string;
+  vehicleId: string | null;
+  driverResolution: DriverResolutionStatus | null;
   fineDate: string;
+  notificationDate: string;
   amount: number;
   description: string | null;
   createdAt: string;
   updatedAt: string;
   employee: Employee;
+  vehicle: Vehicle | null;
   payments: TrafficFinePayment[];
+  deductions: TrafficFineDeduction[];
+  // Sunucuda hesaplanan alanlar
+  discountedAmount: number;
+  discountDeadline: string;
+  dueDate: string;
+  paidAmount: number;
+  remainingAmount: number;
+  payableAmount: number;
+  discountAvailable: boolean;
+  status: TrafficFineStatus;
 }
 
 export interface CreateTrafficFineInput {
-  employeeId: string;
+  // Plaka verilirse çalışan zimmet geçmişinden bulunur
+  employeeId?: string;
+  plate?: string | null;
   fineDate: string;
+  notificationDate?: string | null;
   amount: number;
   description?: string | null;
 }
 
+export interface UpdateTrafficFineInput {
+  fineDate?: string;
+  notificationDate?: string | null;
+  amount?: number;
+  description?: string | null;
+}
+
 export interface CreateTrafficFinePaymentInput {
   paymentDate: string;
   amount: number;
 }
 
+export interface DeductionPlanInput {
+  startMonth: number;
+  startYear: number;
+  installments?: number;
+  monthlyAmount?: number;
+}
+
 function getAuthToken(): string | null {
   return localStorage.getItem('puantaj_token');
 }
@@ -65,9 +120,23 @@ async function handleResponse<T>(response: Response): Promise<T> {
   return response.json();
 }
 
-export async function getTrafficFines(employeeId?: string): Promise<TrafficFine[]> {
+export async function getTrafficFines(
+  filters: { employeeId?: string; status?: TrafficFineStatus } = {}
+): Promise<TrafficFine[]> {
   const url = new URL(`${API_BASE_URL}/traffic-fines`);
-  if (employeeId) url.searchParams.set('employeeId', employeeId);
+  if (filters.employeeId) url.searchParams.set('employeeId', filters.employeeId);
+  if (filters.status) url.searchParams.set('status', filters.status);
+
+  const response = await fetch(url.toString(), {
+    method: 'GET',
+    headers: createHeaders(),
+  });
+  return handleResponse<TrafficFine[]>(response);
+}
+
+export async function getExpiringDiscounts(days?: number): Promise<TrafficFine[]> {
+  const url = new URL(`${API_BASE_URL}/traffic-fines/expiring-discounts`);
+  if (days !== undefined) url.searchParams.set('days', String(days));
 
   const response = await fetch(url.toString(), {
     method: 'GET',
@@ -85,6 +154,15 @@ export async function createTrafficFine(input: CreateTrafficFineInput): Promise<
   return handleResponse<TrafficFine>(response);
 }
 
+export async function updateTrafficFine(trafficFineId: string, input: UpdateTrafficFineInput): Promise<TrafficFine> {
+  const response = await fetch(`${API_BASE_URL}/traffic-fines/${trafficFineId}`, {
+    method: 'PUT',
+    headers: createHeaders(),
+    body: JSON.stringify(input),
+  });
+  return handleResponse<TrafficFine>(response);
+}
+
 export async function addTrafficFinePayment(
   trafficFineId: string,
   input: CreateTrafficFinePaymentInput
@@ -97,6 +175,44 @@ export async function addTrafficFinePayment(
   return handleResponse<TrafficFinePayment>(response);
 }
 
+export async function updateTrafficFinePayment(
+  trafficFineId: string,
+  paymentId: string,
+  input: CreateTrafficFinePaymentInput
+): Promise<TrafficFinePayment> {
+  const response = await fetch(`${API_BASE_URL}/traffic-fines/${trafficFineId}/payments/${paymentId}`, {
+    method: 'PUT',
+    headers: createHeaders(),
+    body: JSON.stringify(input),
+  });
+  return handleResponse<TrafficFinePayment>(response);
+}
+
+export async function deleteTrafficFinePayment(trafficFineId: string, paymentId: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/traffic-fines/${trafficFineId}/payments/${paymentId}`, {
+    method: 'DELETE',
+    headers: createHeaders(),
+  });
+  await handleResponse<void>(response);
+}
+
+export async function setDeductionPlan(trafficFineId: string, input: DeductionPlanInput): Promise<TrafficFine> {
+  const response = await fetch(`${API_BASE_URL}/traffic-fines/${trafficFineId}/deduction-plan`, {
+    method: 'PUT',
+    headers: createHeaders(),
+    body: JSON.stringify(input),
+  });
+  return handleResponse<TrafficFine>(response);
+}
+
+export async function clearDeductionPlan(trafficFineId: string): Promise<TrafficFine> {
+  const response = await fetch(`${API_BASE_URL}/traffic-fines/${trafficFineId}/deduction-plan`, {
+    method: 'DELETE',
+    headers: createHeaders(),
+  });
+  return handleResponse<TrafficFine>(response);
+}
+
 export async function deleteTrafficFine(trafficFineId: string): Promise<void> {
   const response = await fetch(`${API_BASE_URL}/traffic-fines/${trafficFineId}`, {
     method: 'DELETE',
@@ -105,6 +221,13 @@ export async function deleteTrafficFine(trafficFineId: string): Promise<void> {
   await handleResponse<void>(response);
 }
 
+/**
+ * Henüz kapanışta işlenmemiş kesinti satırı (ödemeye bağlanmamış ve eksik kalmamış)
+ */
+export function isPendingDeduction(line: TrafficFineDeduction): boolean {
+  return !line.paymentId && line.unpaidAmount === 0;
+}
+
 export function sumPayments(payments: TrafficFinePayment[]): number {
   return payments.reduce((acc, p) => acc + (p.amount || 0), 0);
 }
@@ -0,0 +1,201 @@
+import { ApiError } from './employee';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
+
+export type VehicleStatus = 'ACTIVE' | 'IN_SERVICE' | 'RETIRED';
+
+export const VEHICLE_STATUS_LABELS: Record<VehicleStatus, string> = {
+  ACTIVE: 'Aktif',
+  IN_SERVICE: 'Serviste',
+  RETIRED: 'Kullanım Dışı',
+};
+
+// ASSIGNED: tek sürücü, CONFLICT: birden çok zimmet, UNASSIGNED: o gün zimmet yok
+export type DriverResolutionStatus = 'ASSIGNED' | 'CONFLICT' | 'UNASSIGNED';
+
+export const DRIVER_RESOLUTION_LABELS: Record<DriverResolutionStatus, string> = {
+  ASSIGNED: 'Zimmetli sürücü',
+  CONFLICT: 'Zimmet çakışması',
+  UNASSIGNED: 'Zimmet yok',
+};
+
+export interface VehicleAssignment {
+  id: string;
+  vehicleId: string;
+  employeeId: string;
+  employee: { id: string; fullName: string };
+  startDate: string;
+  endDate: string | null;
+  note: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AssignmentIssue {
+  type: 'OVERLAP' | 'GAP';
+  from: string;
+  to: string | null;
+  assignmentIds: string[];
+}
+
+export interface Vehicle {
+  id: string;
+  plate: string;
+  model: string;
+  status: VehicleStatus;
+  note: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface VehicleListItem extends Vehicle {
+  currentAssignments: VehicleAssignment[];
+  issueCount: number;
+  _count: { trafficFines: number };
+}
+
+export interface VehicleDetail extends Vehicle {
+  assignments: VehicleAssignment[];
+  issues: AssignmentIssue[];
+}
+
+export interface VehicleInput {
+  plate: string;
+  model: string;
+  status: VehicleStatus;
+  note?: string | null;
+}
+
+export interface VehicleAssignmentInput {
+  employeeId: string;
+  startDate: string;
+  endDate?: string | null;
+  note?: string | null;
+}
+
+export interface DriverResolution {
+  vehicle: Pick<Vehicle, 'id' | 'plate' | 'model' | 'status'>;
+  status: DriverResolutionStatus;
+  candidates: { id: string; fullName: string }[];
+}
+
+function getAuthToken(): string | null {
+  return localStorage.getItem('puantaj_token');
+}
+
+function createHeaders(): HeadersInit {
+  const headers: HeadersInit = {
+    'Content-Type': 'application/json',
+  };
+  const token = getAuthToken();
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+async function handleResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    const error: ApiError = {
+      status: response.status,
+      code: errorData.code || 'UNKNOWN_ERROR',
+      message: errorData.message || 'Bir hata oluştu',
+      details: errorData.details,
+    };
+    throw error;
+  }
+  // Handle 204 No Content
+  if (response.status === 204) {
+    return {} as T;
+  }
+  return response.json();
+}
+
+export async function getVehicles(status?: VehicleStatus): Promise<VehicleListItem[]> {
+  const url = new URL(`${API_BASE_URL}/vehicles`);
+  if (status) url.searchParams.set('status', status);
+
+  const response = await fetch(url.toString(), {
+    method: 'GET',
+    headers: createHeaders(),
+  });
+  return handleResponse<VehicleListItem[]>(response);
+}
+
+export async function getVehicle(id: string): Promise<VehicleDetail> {
+  const response = await fetch(`${API_BASE_URL}/vehicles/${id}`, {
+    method: 'GET',
+    headers: createHeaders(),
+  });
+  return handleResponse<VehicleDetail>(response);
+}
+
+export async function resolveDriver(plate: string, date: string): Promise<DriverResolution> {
+  const url = new URL(`${API_BASE_URL}/vehicles/resolve-driver`);
+  url.searchParams.set('plate', plate);
+  url.searchParams.set('date', date);
+
+  const response = await fetch(url.toString(), {
+    method: 'GET',
+    headers: createHeaders(),
+  });
+  return handleResponse<DriverResolution>(response);
+}
+
+export async function createVehicle(input: VehicleInput): Promise<VehicleDetail> {
+  const response = await fetch(`${API_BASE_URL}/vehicles`, {
+    method: 'POST',
+    headers: createHeaders(),
+    body: JSON.stringify(input),
+  });
+  return handleResponse<VehicleDetail>(response);
+}
+
+export async function updateVehicle(id: string, input: Partial<VehicleInput>): Promise<VehicleDetail> {
+  const response = await fetch(`${API_BASE_URL}/vehicles/${id}`, {
+    method: 'PUT',
+    headers: createHeaders(),
+    body: JSON.stringify(input),
+  });
+  return handleResponse<VehicleDetail>(response);
+}
+
+export async function deleteVehicle(id: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/vehicles/${id}`, {
+    method: 'DELETE',
+    headers: createHeaders(),
+  });
+  await handleResponse<void>(response);
+}
+
+export async function createVehicleAssignment(
+  vehicleId: string,
+  input: VehicleAssignmentInput
+): Promise<VehicleAssignment> {
+  const response = await fetch(`${API_BASE_URL}/vehicles/${vehicleId}/assignments`, {
+    method: 'POST',
+    headers: createHeaders(),
+    body: JSON.stringify(input),
+  });
+  return handleResponse<VehicleAssignment>(response);
+}
+
+export async function updateVehicleAssignment(
+  vehicleId: string,
+  assignmentId: string,
+  input: Partial<VehicleAssignmentInput>
+): Promise<VehicleAssignment> {
+  const response = await fetch(`${API_BASE_URL}/vehicles/${vehicleId}/assignments/${assignmentId}`, {
+    method: 'PUT',
+    headers: createHeaders(),
+    body: JSON.stringify(input),
+  });
+  return handleResponse<VehicleAssignment>(response);
+}
+
+export async function deleteVehicleAssignment(vehicleId: string, assignmentId: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/vehicles/${vehicleId}/assignments/${assignmentId}`, {
+    method: 'DELETE',
+    headers: createHeaders(),
+  });
+  await handleResponse<void>(response);
+}
@@ -0,0 +1,95 @@
+import { ApiError } from './employee';
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
+
+export interface WageParameter {
+  id: string;
+  effectiveYear: number;
+  effectiveMonth: number;
+  officialPayment: number;
+  officialWorkingDays: number;
+  dailyWorkingHours: number;
+  overtimeWarningHours: number;
+  overtimeLimitHours: number;
+  severanceCeiling: number | null;
+  description: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WageParameterInput {
+  effectiveYear: number;
+  effectiveMonth: number;
+  officialPayment: number;
+  officialWorkingDays?: number;
+  dailyWorkingHours?: number;
+  overtimeWarningHours?: number;
+  overtimeLimitHours?: number;
+  severanceCeiling?: number | null;
+  description?: string | null;
+}
+
+function getAuthToken(): string | null {
+  return localStorage.getItem('puantaj_token');
+}
+
+function createHeaders(): HeadersInit {
+  const headers: HeadersInit = {
+    'Content-Type': 'application/json',
+  };
+  const token = getAuthToken();
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  return headers;
+}
+
+async function handleResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    const error: ApiError = {
+      status: response.status,
+      code: errorData.code || 'UNKNOWN_ERROR',
+      message: errorData.message || 'Bir hata oluştu',
+      details: errorData.details,
+    };
+    throw error;
+  }
+  // Handle 204 No Content
+  if (response.status === 204) {
+    return {} as T;
+  }
+  return response.json();
+}
+
+export async function getWageParameters(): Promise<WageParameter[]> {
+  const response = await fetch(`${API_BASE_URL}/wage-parameters`, {
+    method: 'GET',
+    headers: createHeaders(),
+  });
+  return handleResponse<WageParameter[]>(response);
+}
+
+export async function createWageParameter(input: WageParameterInput): Promise<WageParameter> {
+  const response = await fetch(`${API_BASE_URL}/wage-parameters`, {
+    method: 'POST',
+    headers: createHeaders(),
+    body: JSON.stringify(input),
+  });
+  return handleResponse<WageParameter>(response);
+}
+
+export async function updateWageParameter(id: string, input: Partial<WageParameterInput>): Promise<WageParameter> {
+  const response = await fetch(`${API_BASE_URL}/wage-parameters/${id}`, {
+    method: 'PUT',
+    headers: createHeaders(),
+    body: JSON.stringify(input),
+  });
+  return handleResponse<WageParameter>(response);
+}
+
+export async function deleteWageParameter(id: string): Promise<void> {
+  const response = await fetch(`${API_BASE_URL}/wage-parameters/${id}`, {
+    method: 'DELETE',
+    headers: createHeaders(),
+  });
+  await handleResponse<void>(response);
+}
@@ -0,0 +1,184 @@
+import { ChangeEvent, useCallback, useEffect, useRef, useState } from 'react';
+import { isApiError } from '../api/employee';
+import {
+  ACCEPTED_ATTACHMENT_TYPES,
+  Attachment,
+  AttachmentOwner,
+  deleteAttachment,
+  downloadAttachment,
+  getAttachments,
+  MAX_ATTACHMENT_BYTES,
+  uploadAttachment,
+} from '../api/attachment';
+import { useToast } from '../context/ToastContext';
+
+/**
+ * AttachmentList Component
+ *
+ * Bir kayda (ceza, ödeme, çalışan, puantaj satırı) bağlı belgeleri listeler;
+ * yükleme, indirme ve silme işlemlerini yapar.
+ */
+
+interface AttachmentListProps {
+  owner: AttachmentOwner;
+  title?: string;
+  emptyText?: string;
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function AttachmentList({ owner, title = 'Belgeler', emptyText = 'Henüz belge yok.' }: AttachmentListProps) {
+  const { showToast } = useToast();
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [description, setDescription] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Sahip nesnesi her render'da yeniden oluşabildiği için anahtar ve id ile izlenir
+  const [ownerKey, ownerId] = Object.entries(owner)[0] as [string, string];
+
+  const fetchAttachments = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setAttachments(await getAttachments({ [ownerKey]: ownerId } as AttachmentOwner));
+    } catch (err) {
+      const message = isApiError(err) ? err.message : 'Belgeler yüklenemedi';
+      showToast(message, 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [ownerKey, ownerId, showToast]);
+
+  useEffect(() => {
+    fetchAttachments();
+  }, [fetchAttachments]);
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      showToast('Dosya boyutu 10 MB sınırını aşıyor', 'error');
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      await uploadAttachment({ [ownerKey]: ownerId } as AttachmentOwner, file, description.trim() || undefined);
+      showToast('Belge yüklendi', 'success');
+      setDescription('');
+      await fetchAttachments();
+    } catch (err) {
+      const message = isApiError(err) ? err.message : 'Belge yüklenirken hata oluştu';
+      showToast(message, 'error');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDownload = async (attachment: Attachment) => {
+    try {
+      await downloadAttachment(attachment);
+    } catch (err) {
+      const message = isApiError(err) ? err.message : 'Belge indirilemedi';
+      showToast(message, 'error');
+    }
+  };
+
+  const handleDelete = async (attachment: Attachment) => {
+    const confirmed = window.confirm(`"${attachment.fileName}" silinsin mi?`);
+    if (!confirmed) return;
+
+    setIsBusy(true);
+    try {
+      await deleteAttachment(attachment.id);
+      showToast('Belge silindi', 'success');
+      await fetchAttachments();
+    } catch (err) {
+      const message = isApiError(err) ? err.message : 'Belge silinirken hata oluştu';
+      showToast(message, 'error');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-700 mb-2">{title}</h3>
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Yükleniyor...</p>
+      ) : attachments.length === 0 ? (
+        <p className="text-sm text-gray-500">{emptyText}</p>
+      ) : (
+        <div className="border border-gray-200 rounded-md divide-y divide-gray-200">
+          {attachments.map((attachment) => (
+            <div key={attachment.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+              <div className="min-w-0">
+                <p className="truncate font-medium text-gray-900" title={attachment.fileName}>
+                  {attachment.fileName}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {formatFileSize(attachment.size)} · {new Date(attachment.createdAt).toLocaleDateString('tr-TR')}
+                  {attachment.uploadedBy ? ` · ${attachment.uploadedBy}` : ''}
+                  {attachment.description ? ` · ${attachment.description}` : ''}
+                </p>
+              </div>
+              <div className="flex shrink-0 items-center gap-3">
+                <button
+                  type="button"
+                  onClick={() => handleDownload(attachment)}
+                  className="text-indigo-600 hover:text-indigo-900"
+                >
+                  İndir
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(attachment)}
+                  className="text-red-600 hover:text-red-900"
+                  disabled={isBusy}
+                >
+                  Sil
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-2 flex items-center gap-2">
+        <input
+          type="text"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          // Form içinde kullanıldığında Enter üst formu göndermesin
+          onKeyDown={(e) => e.key === 'Enter' && e.preventDefault()}
+          placeholder="Açıklama (opsiyonel)"
+          maxLength={255}
+          className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          disabled={isBusy}
+        />
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ACCEPTED_ATTACHMENT_TYPES}
+          onChange={handleFileChange}
+          className="hidden"
+        />
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="px-3 py-1 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+          disabled={isBusy}
+        >
+          {isBusy ? 'Yükleniyor...' : 'Dosya Yükle'}
+        </button>
+      </div>
+      <p className="mt-1 text-xs text-gray-500">PDF, JPEG, PNG veya WEBP; en fazla 10 MB.</p>
+    </div>
+  );
+}
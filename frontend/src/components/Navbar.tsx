@@ -11,7 +11,14 @@ export default function Navbar() {
     { path: '/', label: 'Puantaj' },
     { path: '/calisanlar', label: 'Çalışanlar' },
     { path: '/mesailer', label: 'Mesailer' },
+    { path: '/avanslar', label: 'Avanslar' },
+    { path: '/borclar', label: 'Borçlar' },
+    { path: '/devam', label: 'Devam Takvimi' },
+    { path: '/izinler', label: 'İzinler' },
+    { path: '/araclar', label: 'Araçlar' },
+    { path: '/raporlar', label: 'Raporlar' },
     { path: '/log', label: 'İşlem Geçmişi' },
+    { path: '/ayarlar', label: 'Ayarlar' },
   ];
 
   const isActive = (path: string) => {
@@ -0,0 +1,571 @@
+import { FormEvent, useEffect, useMemo, useState } from 'react';
+import { getCurrentPeriod, getPayrollByMonth, isPayrollApiError, MONTH_NAMES, PayrollEntry, formatCurrency } from '../api/payroll';
+import {
+  Advance,
+  AdvanceKind,
+  ADVANCE_KIND_LABELS,
+  createAdvance,
+  deleteAdvance,
+  getAdvances,
+  updateAdvance,
+} from '../api/advance';
+import { useToast } from '../context/ToastContext';
+
+/**
+ * AdvancesPage
+ *
+ * Avans defteri: her avans tarih, tutar, tür ve onaylayan ile ayrı kayıttır.
+ * Puantajdaki avans sütunları bu kayıtların toplamıdır; hak edişi aşan kısım
+ * dönem kapanınca sonraki aya devreden avans olarak aktarılır.
+ */
+
+interface AdvanceEditModalProps {
+  advance: Advance | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+function AdvanceEditModal({ advance, onClose, onSaved }: AdvanceEditModalProps) {
+  const { showToast } = useToast();
+  const [advanceDate, setAdvanceDate] = useState('');
+  const [kind, setKind] = useState<AdvanceKind>('CASH');
+  const [amount, setAmount] = useState(0);
+  const [approvedBy, setApprovedBy] = useState('');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!advance) return;
+    setAdvanceDate(advance.advanceDate.split('T')[0]);
+    setKind(advance.kind);
+    setAmount(advance.amount);
+    setApprovedBy(advance.approvedBy);
+    setNote(advance.note || '');
+  }, [advance]);
+
+  if (!advance) return null;
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (amount <= 0) {
+      showToast('Avans tutarı 0’dan büyük olmalıdır', 'error');
+      return;
+    }
+
+    // Tarih başka bir aya taşınırsa avans o dönemin puantajına aktarılır
+    const [year, month] = advanceDate.split('-').map(Number);
+    setIsSaving(true);
+    try {
+      await updateAdvance(advance.id, {
+        advanceDate,
+        month,
+        year,
+        kind,
+        amount,
+        approvedBy: approvedBy.trim() || null,
+        note: note.trim() || null,
+      });
+      showToast('Avans güncellendi', 'success');
+      onSaved();
+      onClose();
+    } catch (err) {
+      const message = isPayrollApiError(err) ? err.message : 'Avans güncellenemedi';
+      showToast(message, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Avans Düzenle</h2>
+          <p className="text-sm text-gray-500">{advance.employee.fullName}</p>
+        </div>
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="ade_date" className="block text-sm font-medium text-gray-700 mb-1">Tarih</label>
+              <input
+                id="ade_date"
+                type="date"
+                value={advanceDate}
+                onChange={(e) => setAdvanceDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                disabled={isSaving}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="ade_kind" className="block text-sm font-medium text-gray-700 mb-1">Tür</label>
+              <select
+                id="ade_kind"
+                value={kind}
+                onChange={(e) => setKind(e.target.value as AdvanceKind)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                disabled={isSaving}
+              >
+                <option value="CASH">{ADVANCE_KIND_LABELS.CASH}</option>
+                <option value="OFFICIAL" disabled={!advance.employee.isInsured}>{ADVANCE_KIND_LABELS.OFFICIAL}</option>
+              </select>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="ade_amount" className="block text-sm font-medium text-gray-700 mb-1">Tutar</label>
+              <input
+                id="ade_amount"
+                type="number"
+                value={amount}
+                onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+                min="0"
+                step="0.01"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                disabled={isSaving}
+              />
+            </div>
+            <div>
+              <label htmlFor="ade_approver" className="block text-sm font-medium text-gray-700 mb-1">Onaylayan</label>
+              <input
+                id="ade_approver"
+                type="text"
+                value={approvedBy}
+                maxLength={100}
+                onChange={(e) => setApprovedBy(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+          <div>
+            <label htmlFor="ade_note" className="block text-sm font-medium text-gray-700 mb-1">Not</label>
+            <input
+              id="ade_note"
+              type="text"
+              value={note}
+              maxLength={255}
+              onChange={(e) => setNote(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              disabled={isSaving}
+            />
+          </div>
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+              disabled={isSaving}
+            >
+              İptal
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+              disabled={isSaving}
+            >
+              {isSaving ? 'Kaydediliyor...' : 'Kaydet'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+export default function AdvancesPage() {
+  const { showToast } = useToast();
+  const { month: currentMonth, year: currentYear } = getCurrentPeriod();
+
+  const [selectedMonth, setSelectedMonth] = useState(currentMonth);
+  const [selectedYear, setSelectedYear] = useState(currentYear);
+  const [payrollEntries, setPayrollEntries] = useState<PayrollEntry[]>([]);
+  const [advances, setAdvances] = useState<Advance[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [listEmployeeFilterId, setListEmployeeFilterId] = useState('');
+  const [editingAdvance, setEditingAdvance] = useState<Advance | null>(null);
+
+  const [employeeId, setEmployeeId] = useState('');
+  const [advanceDate, setAdvanceDate] = useState(new Date().toISOString().split('T')[0]);
+  const [kind, setKind] = useState<AdvanceKind>('CASH');
+  const [amount, setAmount] = useState(0);
+  const [approvedBy, setApprovedBy] = useState('');
+  const [note, setNote] = useState('');
+
+  const yearOptions = Array.from({ length: 7 }, (_, i) => currentYear - 5 + i);
+
+  const fetchData = async () => {
+    setIsLoading(true);
+    try {
+      const [payrollData, advanceData] = await Promise.all([
+        getPayrollByMonth(selectedMonth, selectedYear),
+        getAdvances(selectedMonth, selectedYear),
+      ]);
+      const sortedPayroll = [...payrollData].sort((a, b) =>
+        a.employee.fullName.localeCompare(b.employee.fullName, 'tr-TR')
+      );
+      setPayrollEntries(sortedPayroll);
+      setAdvances(advanceData);
+
+      if (!employeeId || !sortedPayroll.some((entry) => entry.employeeId === employeeId)) {
+        setEmployeeId(sortedPayroll[0]?.employeeId || '');
+      }
+    } catch (err) {
+      const message = isPayrollApiError(err) ? err.message : 'Avans verileri yüklenemedi';
+      showToast(message, 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedMonth, selectedYear]);
+
+  const selectedEntry = useMemo(
+    () => payrollEntries.find((entry) => entry.employeeId === employeeId) || null,
+    [payrollEntries, employeeId]
+  );
+
+  // Sigortasız çalışana resmi avans verilemez
+  useEffect(() => {
+    if (selectedEntry && !selectedEntry.employee.isInsured) setKind('CASH');
+  }, [selectedEntry]);
+
+  const filteredAdvances = useMemo(
+    () =>
+      listEmployeeFilterId
+        ? advances.filter((advance) => advance.employeeId === listEmployeeFilterId)
+        : advances,
+    [advances, listEmployeeFilterId]
+  );
+
+  // Hak edişi aşan avanslar; dönem kapanınca sonraki aya devreder
+  const carryOverEntries = useMemo(
+    () => payrollEntries.filter((entry) => entry.cashAdvanceCarryOver > 0 || entry.officialAdvanceCarryOver > 0),
+    [payrollEntries]
+  );
+
+  const totals = useMemo(
+    () =>
+      filteredAdvances.reduce(
+        (acc, advance) => ({
+          cash: acc.cash + (advance.kind === 'CASH' ? advance.amount : 0),
+          official: acc.official + (advance.kind === 'OFFICIAL' ? advance.amount : 0),
+        }),
+        { cash: 0, official: 0 }
+      ),
+    [filteredAdvances]
+  );
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!employeeId) {
+      showToast('Lütfen çalışan seçin', 'error');
+      return;
+    }
+    if (amount <= 0) {
+      showToast('Avans tutarı 0’dan büyük olmalıdır', 'error');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await createAdvance({
+        employeeId,
+        advanceDate,
+        month: selectedMonth,
+        year: selectedYear,
+        kind,
+        amount,
+        approvedBy: approvedBy.trim() || null,
+        note: note.trim() || null,
+      });
+      showToast('Avans kaydedildi', 'success');
+      setAmount(0);
+      setNote('');
+      await fetchData();
+    } catch (err) {
+      const message = isPayrollApiError(err) ? err.message : 'Avans kaydedilemedi';
+      showToast(message, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (advance: Advance) => {
+    const confirmed = window.confirm(
+      `${advance.employee.fullName} için ${formatCurrency(advance.amount)} tutarındaki avans silinsin mi?`
+    );
+    if (!confirmed) return;
+
+    setDeletingId(advance.id);
+    try {
+      await deleteAdvance(advance.id);
+      showToast('Avans silindi', 'success');
+      await fetchData();
+    } catch (err) {
+      const message = isPayrollApiError(err) ? err.message : 'Avans silinemedi';
+      showToast(message, 'error');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="bg-white shadow rounded-lg p-6 text-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg px-6 py-4 flex items-center justify-between">
+        <h1 className="text-xl font-semibold text-gray-900">Avanslar</h1>
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-gray-600">Dönem:</span>
+          <select
+            aria-label="Ay seçimi"
+            value={selectedMonth}
+            onChange={(e) => setSelectedMonth(parseInt(e.target.value))}
+            className="px-3 py-2 border rounded-md text-sm"
+          >
+            {Object.entries(MONTH_NAMES).map(([v, l]) => (
+              <option key={v} value={v}>
+                {l}
+              </option>
+            ))}
+          </select>
+          <select
+            aria-label="Yıl seçimi"
+            value={selectedYear}
+            onChange={(e) => setSelectedYear(parseInt(e.target.value))}
+            className="px-3 py-2 border rounded-md text-sm"
+          >
+            {yearOptions.map((y) => (
+              <option key={y} value={y}>
+                {y}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="bg-white shadow rounded-lg px-6 py-4">
+        <h2 className="text-base font-semibold text-slate-900 mb-4">Avans Ekle</h2>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="adv_date">Tarih</label>
+              <input
+                id="adv_date"
+                type="date"
+                value={advanceDate}
+                onChange={(e) => setAdvanceDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="adv_employee">Çalışan</label>
+              <select
+                id="adv_employee"
+                value={employeeId}
+                onChange={(e) => setEmployeeId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                {payrollEntries.map((entry) => (
+                  <option key={entry.employeeId} value={entry.employeeId}>
+                    {entry.employee.fullName}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="adv_kind">Tür</label>
+              <select
+                id="adv_kind"
+                value={kind}
+                onChange={(e) => setKind(e.target.value as AdvanceKind)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="CASH">{ADVANCE_KIND_LABELS.CASH}</option>
+                <option value="OFFICIAL" disabled={!selectedEntry?.employee.isInsured}>{ADVANCE_KIND_LABELS.OFFICIAL}</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="adv_amount">Tutar</label>
+              <input
+                id="adv_amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+            <div className="flex items-end">
+              <button
+                type="submit"
+                disabled={isSaving || !selectedEntry}
+                className="w-full px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {isSaving ? 'Kaydediliyor...' : 'Avansı Kaydet'}
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="adv_approver">Onaylayan</label>
+              <input
+                id="adv_approver"
+                type="text"
+                value={approvedBy}
+                maxLength={100}
+                onChange={(e) => setApprovedBy(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                placeholder="Boş bırakılırsa kaydı giren kullanıcı"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="adv_note">Not</label>
+              <input
+                id="adv_note"
+                type="text"
+                value={note}
+                maxLength={255}
+                onChange={(e) => setNote(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+          </div>
+        </form>
+      </div>
+
+      {carryOverEntries.length > 0 ? (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg px-6 py-4">
+          <h2 className="text-base font-semibold text-amber-900 mb-1">Sonraki Aya Devredecek Avanslar</h2>
+          <p className="text-xs text-amber-800 mb-2">
+            Avansın hak edişi aşan kısmı bu ay düşülmez; dönem kapatıldığında sonraki ayın avansı olarak aktarılır.
+          </p>
+          <ul className="space-y-1 text-sm">
+            {carryOverEntries.map((entry) => (
+              <li key={entry.employeeId} className="flex items-center justify-between text-amber-900">
+                <span>{entry.employee.fullName}</span>
+                <span className="font-semibold">
+                  {entry.cashAdvanceCarryOver > 0 ? `Elden: ${formatCurrency(entry.cashAdvanceCarryOver)}` : ''}
+                  {entry.cashAdvanceCarryOver > 0 && entry.officialAdvanceCarryOver > 0 ? ' · ' : ''}
+                  {entry.officialAdvanceCarryOver > 0 ? `Resmi: ${formatCurrency(entry.officialAdvanceCarryOver)}` : ''}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+          <h2 className="text-base font-semibold text-gray-900">Verilen Avanslar</h2>
+          <div className="w-full md:w-72">
+            <label htmlFor="advance_table_employee_filter" className="block text-xs font-medium text-gray-600 mb-1">
+              Çalışan Filtresi
+            </label>
+            <select
+              id="advance_table_employee_filter"
+              value={listEmployeeFilterId}
+              onChange={(e) => setListEmployeeFilterId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">(Tümü)</option>
+              {payrollEntries.map((entry) => (
+                <option key={entry.employeeId} value={entry.employeeId}>
+                  {entry.employee.fullName}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+        {advances.length === 0 ? (
+          <div className="p-10 text-center text-gray-500">Bu dönem için avans kaydı yok.</div>
+        ) : filteredAdvances.length === 0 ? (
+          <div className="p-10 text-center text-gray-500">Seçili filtreye uygun avans kaydı yok.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Çalışan</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tarih</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tür</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Tutar</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Onaylayan</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Not</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">İşlem</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {filteredAdvances.map((advance) => (
+                  <tr key={advance.id}>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {advance.employee.fullName}
+                      {advance.sourceMonth && advance.sourceYear ? (
+                        <span className="ml-2 inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                          {MONTH_NAMES[advance.sourceMonth]} {advance.sourceYear} devri
+                        </span>
+                      ) : null}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      {new Date(advance.advanceDate).toLocaleDateString('tr-TR', { timeZone: 'UTC' })}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">{ADVANCE_KIND_LABELS[advance.kind]}</td>
+                    <td className="px-6 py-4 text-sm text-right font-medium text-gray-900">{formatCurrency(advance.amount)}</td>
+                    <td className="px-6 py-4 text-sm text-gray-700">{advance.approvedBy}</td>
+                    <td className="px-6 py-4 text-sm text-gray-600">{advance.note || '-'}</td>
+                    <td className="px-6 py-4 text-right text-sm">
+                      {/* Devreden kayıtlar önceki dönem yeniden açılınca geri alınır */}
+                      {advance.sourceMonth ? (
+                        <span className="text-xs text-gray-400">Otomatik</span>
+                      ) : (
+                        <div className="flex items-center justify-end gap-4">
+                          <button
+                            type="button"
+                            onClick={() => setEditingAdvance(advance)}
+                            className="text-indigo-600 hover:text-indigo-900"
+                          >
+                            Düzenle
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleDelete(advance)}
+                            disabled={deletingId === advance.id}
+                            className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                          >
+                            {deletingId === advance.id ? 'Siliniyor...' : 'Sil'}
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="border-t border-gray-200 bg-slate-50 px-6 py-3 flex items-center justify-between text-sm">
+              <span className="text-slate-900 font-semibold">Genel Toplam</span>
+              <span className="font-bold text-slate-900">
+                Elden: {formatCurrency(totals.cash)} · Resmi: {formatCurrency(totals.official)}
+              </span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <AdvanceEditModal advance={editingAdvance} onClose={() => setEditingAdvance(null)} onSaved={fetchData} />
+    </div>
+  );
+}
@@ -0,0 +1,301 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  PayrollEntry,
+  PayrollPeriod,
+  getCurrentPeriod,
+  getPayrollByMonth,
+  getPayrollPeriod,
+  MONTH_NAMES,
+  PERIOD_STATUS_LABELS,
+} from '../api/payroll';
+import {
+  AttendanceCode,
+  AttendanceSummary,
+  ATTENDANCE_CODE_LABELS,
+  ATTENDANCE_CODE_SHORT,
+  getAttendanceByMonth,
+  setAttendanceDays,
+} from '../api/attendance';
+import { getPublicHolidays, PublicHoliday } from '../api/publicHoliday';
+import { isApiError, WORK_AREA_LABELS } from '../api/employee';
+import { useToast } from '../context/ToastContext';
+
+const CODE_CLASSES: Record<AttendanceCode, string> = {
+  WORKED: 'bg-emerald-100 text-emerald-800',
+  PAID_LEAVE: 'bg-sky-100 text-sky-800',
+  UNPAID_LEAVE: 'bg-amber-100 text-amber-800',
+  SICK_REPORT: 'bg-purple-100 text-purple-800',
+  ABSENT: 'bg-red-100 text-red-800',
+  PUBLIC_HOLIDAY: 'bg-indigo-100 text-indigo-800',
+  WEEKLY_OFF: 'bg-gray-200 text-gray-700',
+};
+
+const CODES = Object.keys(ATTENDANCE_CODE_LABELS) as AttendanceCode[];
+
+function toDayKey(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function isWithinEmployment(entry: PayrollEntry, dayKey: string): boolean {
+  const start = entry.employee.startDate.split('T')[0];
+  const end = entry.employee.endDate ? entry.employee.endDate.split('T')[0] : null;
+  return dayKey >= start && (!end || dayKey <= end);
+}
+
+export default function AttendancePage() {
+  const { showToast } = useToast();
+  const { month: currentMonth, year: currentYear } = getCurrentPeriod();
+
+  const [selectedMonth, setSelectedMonth] = useState(currentMonth);
+  const [selectedYear, setSelectedYear] = useState(currentYear);
+  const [entries, setEntries] = useState<PayrollEntry[]>([]);
+  const [period, setPeriod] = useState<PayrollPeriod | null>(null);
+  // employeeId -> (YYYY-MM-DD -> kod)
+  const [codes, setCodes] = useState<Record<string, Record<string, AttendanceCode>>>({});
+  const [summaries, setSummaries] = useState<Record<string, AttendanceSummary>>({});
+  // YYYY-MM-DD -> resmi tatil
+  const [holidays, setHolidays] = useState<Record<string, PublicHoliday>>({});
+  const [brush, setBrush] = useState<AttendanceCode | null>('PAID_LEAVE');
+  const [savingCell, setSavingCell] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const yearOptions = Array.from({ length: 7 }, (_, i) => currentYear - 5 + i);
+  const isClosed = period?.status === 'CLOSED';
+  const isLocked = isClosed || period?.status === 'UNDER_REVIEW';
+
+  const days = useMemo(() => {
+    const count = new Date(Date.UTC(selectedYear, selectedMonth, 0)).getUTCDate();
+    return Array.from({ length: count }, (_, i) => {
+      const day = i + 1;
+      const weekday = new Date(Date.UTC(selectedYear, selectedMonth - 1, day)).getUTCDay();
+      return { day, key: toDayKey(selectedYear, selectedMonth, day), isWeekend: weekday === 0 || weekday === 6 };
+    });
+  }, [selectedMonth, selectedYear]);
+
+  const fetchData = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [payroll, periodData, attendance, holidayData] = await Promise.all([
+        getPayrollByMonth(selectedMonth, selectedYear),
+        getPayrollPeriod(selectedMonth, selectedYear),
+        getAttendanceByMonth(selectedMonth, selectedYear),
+        getPublicHolidays(selectedYear, selectedMonth),
+      ]);
+      const nextCodes: Record<string, Record<string, AttendanceCode>> = {};
+      for (const day of attendance.days) {
+        nextCodes[day.employeeId] = { ...nextCodes[day.employeeId], [day.date.split('T')[0]]: day.code };
+      }
+      setEntries(
+        [...payroll].sort((a, b) =>
+          a.employee.workArea === b.employee.workArea
+            ? a.employee.fullName.localeCompare(b.employee.fullName, 'tr')
+            : a.employee.workArea.localeCompare(b.employee.workArea)
+        )
+      );
+      setPeriod(periodData);
+      setCodes(nextCodes);
+      setHolidays(Object.fromEntries(holidayData.map((holiday) => [holiday.date.split('T')[0], holiday])));
+      setSummaries(Object.fromEntries(attendance.summaries.map((summary) => [summary.employeeId, summary])));
+    } catch (err) {
+      const message = isApiError(err) ? err.message : 'Devam takvimi yüklenemedi';
+      showToast(message, 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [selectedMonth, selectedYear, showToast]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const handleCellClick = async (entry: PayrollEntry, dayKey: string) => {
+    if (isLocked || savingCell) return;
+    const current = codes[entry.employeeId]?.[dayKey] ?? null;
+    if (current === brush) return;
+
+    const cellKey = `${entry.employeeId}-${dayKey}`;
+    setSavingCell(cellKey);
+    try {
+      const result = await setAttendanceDays(entry.employeeId, selectedMonth, selectedYear, [
+        { date: dayKey, code: brush },
+      ]);
+      setCodes((prev) => ({
+        ...prev,
+        [entry.employeeId]: Object.fromEntries(result.days.map((day) => [day.date.split('T')[0], day.code])),
+      }));
+      setSummaries((prev) => ({ ...prev, [entry.employeeId]: result.summary }));
+      setEntries((prev) => prev.map((e) => (e.employeeId === entry.employeeId ? result.payroll : e)));
+    } catch (err) {
+      const message = isApiError(err) ? err.message : 'Kaydedilemedi';
+      showToast(message, 'error');
+    } finally {
+      setSavingCell(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg px-6 py-4 flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-semibold text-gray-900">Devam Takvimi</h1>
+          {period && (
+            <p className="text-sm text-gray-500">Dönem durumu: {PERIOD_STATUS_LABELS[period.status]}</p>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-gray-600">Dönem:</span>
+          <select
+            aria-label="Ay seçimi"
+            value={selectedMonth}
+            onChange={(e) => setSelectedMonth(parseInt(e.target.value))}
+            className="px-3 py-2 border rounded-md text-sm"
+          >
+            {Object.entries(MONTH_NAMES).map(([v, l]) => (
+              <option key={v} value={v}>
+                {l}
+              </option>
+            ))}
+          </select>
+          <select
+            aria-label="Yıl seçimi"
+            value={selectedYear}
+            onChange={(e) => setSelectedYear(parseInt(e.target.value))}
+            className="px-3 py-2 border rounded-md text-sm"
+          >
+            {yearOptions.map((y) => (
+              <option key={y} value={y}>
+                {y}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="bg-white shadow rounded-lg px-6 py-3 flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-gray-600 mr-2">İşaretlenecek kod:</span>
+        {CODES.map((code) => (
+          <button
+            key={code}
+            type="button"
+            onClick={() => setBrush(code)}
+            disabled={isLocked}
+            className={`px-2 py-1 rounded-md border ${CODE_CLASSES[code]} ${
+              brush === code ? 'ring-2 ring-blue-500 border-blue-500' : 'border-transparent'
+            } disabled:opacity-50`}
+          >
+            <span className="font-semibold">{ATTENDANCE_CODE_SHORT[code]}</span> {ATTENDANCE_CODE_LABELS[code]}
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={() => setBrush(null)}
+          disabled={isLocked}
+          className={`px-2 py-1 rounded-md border bg-white text-gray-700 ${
+            brush === null ? 'ring-2 ring-blue-500 border-blue-500' : 'border-gray-300'
+          } disabled:opacity-50`}
+        >
+          Temizle
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="bg-white shadow rounded-lg p-6 text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto" />
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="bg-white shadow rounded-lg p-10 text-center text-gray-500">
+          Bu dönem için çalışan yok.
+        </div>
+      ) : (
+        <>
+          <div className="bg-white shadow rounded-lg overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-xs">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500 sticky left-0 bg-gray-50">Çalışan</th>
+                    {days.map((d) => {
+                      const holiday = holidays[d.key];
+                      return (
+                        <th
+                          key={d.key}
+                          title={holiday ? `${holiday.name}${holiday.isHalfDay ? ' (yarım gün)' : ''}` : undefined}
+                          className={`px-1 py-2 text-center font-medium w-8 ${
+                            holiday
+                              ? 'bg-indigo-100 text-indigo-800'
+                              : d.isWeekend
+                                ? 'bg-gray-200 text-gray-600'
+                                : 'text-gray-500'
+                          }`}
+                        >
+                          {d.day}
+                        </th>
+                      );
+                    })}
+                    <th className="px-3 py-2 text-right font-medium text-gray-500">Eksik Gün</th>
+                    <th className="px-3 py-2 text-right font-medium text-gray-500">Çalıştığı Gün</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {entries.map((entry) => {
+                    const summary = summaries[entry.employeeId];
+                    return (
+                      <tr key={entry.employeeId}>
+                        <td className="px-3 py-1.5 whitespace-nowrap sticky left-0 bg-white">
+                          <div className="text-sm text-gray-900">{entry.employee.fullName}</div>
+                          <div className="text-gray-500">
+                            {WORK_AREA_LABELS[entry.employee.workArea] ?? entry.employee.workArea}
+                          </div>
+                        </td>
+                        {days.map((d) => {
+                          const employed = isWithinEmployment(entry, d.key);
+                          const code = codes[entry.employeeId]?.[d.key];
+                          const cellKey = `${entry.employeeId}-${d.key}`;
+                          return (
+                            <td key={d.key} className={`p-0.5 text-center ${d.isWeekend ? 'bg-gray-100' : ''}`}>
+                              <button
+                                type="button"
+                                onClick={() => handleCellClick(entry, d.key)}
+                                disabled={!employed || isLocked || savingCell !== null}
+                                title={code ? ATTENDANCE_CODE_LABELS[code] : employed ? 'Çalıştı (işaretsiz)' : 'İş ilişkisi dışında'}
+                                className={`w-7 h-7 rounded text-[11px] font-semibold ${
+                                  !employed
+                                    ? 'bg-gray-300 cursor-not-allowed'
+                                    : code
+                                      ? CODE_CLASSES[code]
+                                      : 'text-gray-300 hover:bg-blue-50'
+                                } ${savingCell === cellKey ? 'animate-pulse' : ''}`}
+                              >
+                                {employed ? (code ? ATTENDANCE_CODE_SHORT[code] : '·') : ''}
+                              </button>
+                            </td>
+                          );
+                        })}
+                        <td className="px-3 py-1.5 text-right text-sm text-gray-700">{summary ? summary.unpaidDays : '-'}</td>
+                        <td className="px-3 py-1.5 text-right text-sm font-medium text-gray-900">{entry.daysWorked}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            İşaretlenmemiş günler çalışılmış sayılır. Ücretsiz izin, rapor ve devamsızlık eksik gündür; takvimi
+            işaretlenen çalışanın puantajdaki gün sayısı buradan hesaplanır ve elle değiştirilemez.
+            {isClosed && ' Dönem kapatıldığı için takvim salt okunurdur.'}
+            {period?.status === 'UNDER_REVIEW' && ' Dönem incelemede olduğu için takvim salt okunurdur.'}
+          </p>
+          {Object.keys(holidays).length > 0 ? (
+            <p className="text-xs text-indigo-700">
+              Resmi tatiller:{' '}
+              {Object.values(holidays)
+                .map((holiday) => `${holiday.date.split('T')[0].split('-')[2]} ${holiday.name}${holiday.isHalfDay ? ' (yarım gün)' : ''}`)
+                .join(', ')}
+            </p>
+          ) : null}
+        </>
+      )}
+    </div>
+  );
+}
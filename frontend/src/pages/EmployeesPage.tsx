@@ -11,8 +11,30 @@ import {
   deleteEmployee,
   WORK_AREA_LABELS,
   isApiError,
+  isValidTrIban,
 } from '../api/employee';
+import {
+  SalaryHistoryEntry,
+  getSalaryHistory,
+  createSalaryHistory,
+  updateSalaryHistory,
+  deleteSalaryHistory,
+} from '../api/salaryHistory';
+import {
+  TerminationCalculation,
+  TerminationInput,
+  TerminationReason,
+  TerminationSettlement,
+  TERMINATION_REASON_LABELS,
+  getTerminationSettlements,
+  previewTermination,
+  createTerminationSettlement,
+  deleteTerminationSettlement,
+} from '../api/termination';
+import { LeaveBalance, LeaveRequest, LEAVE_STATUS_LABELS, getLeaveBalance, getLeaveRequests } from '../api/leave';
+import { useAuth } from '../context/AuthContext';
 import { useToast } from '../context/ToastContext';
+import AttachmentList from '../components/AttachmentList';
 
 // Modal component for add/edit employee
 interface EmployeeModalProps {
@@ -69,10 +91,17 @@ function EmployeeModal({ isOpen, onClose, onSave, employee, isLoading }: Employe
     endDate: null,
     salary: 0,
     workingDays: 30,
+    iban: '',
+    bankName: '',
   });
+  const [salaryEffectiveFrom, setSalaryEffectiveFrom] = useState('');
   const [errors, setErrors] = useState<Record<string, string>>({});
 
+  const salaryChanged =
+    !!employee && (formData.salary !== employee.salary || formData.workingDays !== employee.workingDays);
+
   useEffect(() => {
+    setSalaryEffectiveFrom(new Date().toISOString().slice(0, 8) + '01');
     if (employee) {
       setFormData({
         fullName: employee.fullName,
@@ -82,6 +111,8 @@ function EmployeeModal({ isOpen, onClose, onSave, employee, isLoading }: Employe
         endDate: employee.endDate ? employee.endDate.split('T')[0] : null,
         salary: employee.salary,
         workingDays: employee.workingDays,
+        iban: employee.iban || '',
+        bankName: employee.bankName || '',
       });
     } else {
       setFormData({
@@ -92,6 +123,8 @@ function EmployeeModal({ isOpen, onClose, onSave, employee, isLoading }: Employe
         endDate: null,
         salary: 0,
         workingDays: 30,
+        iban: '',
+        bankName: '',
       });
     }
     setErrors({});
@@ -112,6 +145,9 @@ function EmployeeModal({ isOpen, onClose, onSave, employee, isLoading }: Employe
     if (formData.workingDays && (formData.workingDays < 1 || formData.workingDays > 31)) {
       newErrors.workingDays = 'Çalışma gün sayısı 1-31 arasında olmalıdır';
     }
+    if (formData.iban?.trim() && !isValidTrIban(formData.iban)) {
+      newErrors.iban = 'Geçersiz IBAN (TR ile başlayan 26 karakter ve doğru kontrol basamağı olmalıdır)';
+    }
 
     if (Object.keys(newErrors).length > 0) {
       setErrors(newErrors);
@@ -119,7 +155,7 @@ function EmployeeModal({ isOpen, onClose, onSave, employee, isLoading }: Employe
     }
 
     try {
-      await onSave(formData);
+      await onSave(salaryChanged && salaryEffectiveFrom ? { ...formData, salaryEffectiveFrom } : formData);
       onClose();
     } catch (error) {
       if (isApiError(error) && error.details) {
@@ -268,6 +304,65 @@ function EmployeeModal({ isOpen, onClose, onSave, employee, isLoading }: Employe
             </div>
           </div>
 
+          {salaryChanged && (
+            <div>
+              <label htmlFor="employee_salaryEffectiveFrom" className="block text-sm font-medium text-gray-700 mb-1">
+                Yeni Maaşın Geçerlilik Tarihi
+              </label>
+              <input
+                id="employee_salaryEffectiveFrom"
+                type="date"
+                value={salaryEffectiveFrom}
+                onChange={(e) => setSalaryEffectiveFrom(e.target.value)}
+                className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                  errors.salaryEffectiveFrom ? 'border-red-500' : 'border-gray-300'
+                }`}
+                disabled={isLoading}
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Değişiklik maaş geçmişine işlenir; önceki dönemlerin puantajı eski maaşla hesaplanmaya devam eder.
+              </p>
+              {errors.salaryEffectiveFrom && (
+                <p className="mt-1 text-sm text-red-600">{errors.salaryEffectiveFrom}</p>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="col-span-2">
+              <label htmlFor="employee_iban" className="block text-sm font-medium text-gray-700 mb-1">
+                IBAN
+              </label>
+              <input
+                id="employee_iban"
+                type="text"
+                value={formData.iban || ''}
+                onChange={(e) => setFormData({ ...formData, iban: e.target.value.toUpperCase() })}
+                className={`w-full px-3 py-2 border rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                  errors.iban ? 'border-red-500' : 'border-gray-300'
+                }`}
+                placeholder="TR00 0000 0000 0000 0000 0000 00"
+                maxLength={40}
+                disabled={isLoading}
+              />
+              {errors.iban && <p className="mt-1 text-sm text-red-600">{errors.iban}</p>}
+            </div>
+            <div>
+              <label htmlFor="employee_bankName" className="block text-sm font-medium text-gray-700 mb-1">
+                Banka
+              </label>
+              <input
+                id="employee_bankName"
+                type="text"
+                value={formData.bankName || ''}
+                onChange={(e) => setFormData({ ...formData, bankName: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                maxLength={100}
+                disabled={isLoading}
+              />
+            </div>
+          </div>
+
           <div className="flex justify-end space-x-3 pt-4">
             <button
               type="button"
@@ -662,16 +757,848 @@ function DeleteModal({ isOpen, onClose, onConfirm, employeeName, isLoading }: De
 }
 
 
+// Salary history (timeline) modal
+interface SalaryHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  employee: Employee | null;
+  onChanged: () => Promise<void>;
+  formatDate: (dateString: string) => string;
+  formatCurrency: (amount: number) => string;
+}
+
+interface SalaryHistoryFormData {
+  effectiveFrom: string;
+  salary: number;
+  workingDays: number;
+  note: string;
+}
+
+function SalaryHistoryModal({ isOpen, onClose, employee, onChanged, formatDate, formatCurrency }: SalaryHistoryModalProps) {
+  const { showToast } = useToast();
+  const [history, setHistory] = useState<SalaryHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<SalaryHistoryFormData>({
+    effectiveFrom: '',
+    salary: 0,
+    workingDays: 30,
+    note: '',
+  });
+
+  const resetForm = (source?: Employee | null) => {
+    setEditingId(null);
+    setFormData({
+      effectiveFrom: new Date().toISOString().slice(0, 8) + '01',
+      salary: source?.salary ?? 0,
+      workingDays: source?.workingDays ?? 30,
+      note: '',
+    });
+  };
+
+  const fetchHistory = async (employeeId: string) => {
+    setIsLoading(true);
+    try {
+      const data = await getSalaryHistory(employeeId);
+      setHistory(data);
+    } catch (err) {
+      const message = isApiError(err) ? err.message : 'Maaş geçmişi yüklenemedi';
+      showToast(message, 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!isOpen || !employee) return;
+    resetForm(employee);
+    fetchHistory(employee.id);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, employee]);
+
+  const handleEdit = (row: SalaryHistoryEntry) => {
+    setEditingId(row.id);
+    setFormData({
+      effectiveFrom: row.effectiveFrom.split('T')[0],
+      salary: row.salary,
+      workingDays: row.workingDays,
+      note: row.note || '',
+    });
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!employee) return;
+    if (!formData.effectiveFrom) {
+      showToast('Geçerlilik tarihi zorunludur', 'error');
+      return;
+    }
+    if (formData.salary <= 0) {
+      showToast('Maaş pozitif bir sayı olmalıdır', 'error');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const payload = {
+        effectiveFrom: formData.effectiveFrom,
+        salary: formData.salary,
+        workingDays: formData.workingDays,
+        note: formData.note.trim() ? formData.note.trim() : null,
+      };
+      if (editingId) {
+        await updateSalaryHistory(editingId, payload);
+        showToast('Maaş kaydı düzeltildi', 'success');
+      } else {
+        await createSalaryHistory(employee.id, payload);
+        showToast('Maaş kaydı eklendi', 'success');
+      }
+      await fetchHistory(employee.id);
+      await onChanged();
+      resetForm(employee);
+    } catch (err) {
+      const message = isApiError(err) ? err.message : 'Maaş kaydı kaydedilemedi';
+      showToast(message, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (row: SalaryHistoryEntry) => {
+    if (!employee) return;
+    const confirmed = window.confirm(`${formatDate(row.effectiveFrom)} tarihli maaş kaydı silinsin mi?`);
+    if (!confirmed) return;
+
+    setIsSaving(true);
+    try {
+      await deleteSalaryHistory(row.id);
+      showToast('Maaş kaydı silindi', 'success');
+      await fetchHistory(employee.id);
+      await onChanged();
+      if (editingId === row.id) resetForm(employee);
+    } catch (err) {
+      const message = isApiError(err) ? err.message : 'Maaş kaydı silinemedi';
+      showToast(message, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen || !employee) return null;
+
+  const today = Date.now();
+  const currentRow = history.find((row) => new Date(row.effectiveFrom).getTime() <= today);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4 max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Maaş Geçmişi</h2>
+            <p className="text-sm text-gray-500">{employee.fullName}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-xl leading-none">
+            ×
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          {isLoading ? (
+            <div className="text-center text-gray-600 py-6">Yükleniyor...</div>
+          ) : history.length === 0 ? (
+            <div className="text-center text-gray-500 py-6">Maaş geçmişi bulunmuyor.</div>
+          ) : (
+            <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+              {history.map((row, index) => {
+                const previous = history[index + 1];
+                const diff = previous ? row.salary - previous.salary : 0;
+                const isCurrent = currentRow?.id === row.id;
+                const isFuture = new Date(row.effectiveFrom).getTime() > today;
+                return (
+                  <li key={row.id} className="ml-4">
+                    <div
+                      className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white ${
+                        isCurrent ? 'bg-indigo-600' : isFuture ? 'bg-amber-400' : 'bg-gray-300'
+                      }`}
+                    />
+                    <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+                      <div>
+                        <div className="text-sm text-gray-500 flex items-center gap-2">
+                          {formatDate(row.effectiveFrom)}
+                          {isCurrent && (
+                            <span className="inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-indigo-100 text-indigo-800">
+                              Geçerli
+                            </span>
+                          )}
+                          {isFuture && (
+                            <span className="inline-flex px-2 py-0.5 text-xs font-semibold rounded-full bg-amber-100 text-amber-800">
+                              İleri tarihli
+                            </span>
+                          )}
+                        </div>
+                        <div className="text-base font-semibold text-gray-900">
+                          {formatCurrency(row.salary)}
+                          <span className="ml-2 text-sm font-normal text-gray-500">/ {row.workingDays} gün</span>
+                          {previous && diff !== 0 && (
+                            <span className={`ml-2 text-sm font-medium ${diff > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                              {diff > 0 ? '+' : ''}
+                              {formatCurrency(diff)}
+                            </span>
+                          )}
+                        </div>
+                        {row.note && <div className="text-sm text-gray-600">{row.note}</div>}
+                      </div>
+                      <div className="flex items-center gap-3 text-sm">
+                        <button
+                          onClick={() => handleEdit(row)}
+                          className="text-indigo-600 hover:text-indigo-900"
+                          disabled={isSaving}
+                        >
+                          Düzelt
+                        </button>
+                        <button
+                          onClick={() => handleDelete(row)}
+                          className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                          disabled={isSaving || history.length <= 1}
+                        >
+                          Sil
+                        </button>
+                      </div>
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+
+          <form onSubmit={handleSubmit} className="border-t border-gray-200 pt-4 space-y-4">
+            <h3 className="text-sm font-semibold text-gray-900">
+              {editingId ? 'Maaş Kaydını Düzelt' : 'Yeni Maaş Kaydı'}
+            </h3>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="salary_history_effectiveFrom" className="block text-sm font-medium text-gray-700 mb-1">
+                  Geçerlilik Tarihi
+                </label>
+                <input
+                  id="salary_history_effectiveFrom"
+                  type="date"
+                  value={formData.effectiveFrom}
+                  onChange={(e) => setFormData({ ...formData, effectiveFrom: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  disabled={isSaving}
+                />
+              </div>
+              <div>
+                <label htmlFor="salary_history_salary" className="block text-sm font-medium text-gray-700 mb-1">
+                  Maaş (₺)
+                </label>
+                <input
+                  id="salary_history_salary"
+                  type="number"
+                  value={formData.salary}
+                  onChange={(e) => setFormData({ ...formData, salary: parseFloat(e.target.value) || 0 })}
+                  min="0"
+                  step="0.01"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  disabled={isSaving}
+                />
+              </div>
+              <div>
+                <label htmlFor="salary_history_workingDays" className="block text-sm font-medium text-gray-700 mb-1">
+                  Çalışma Gün Sayısı
+                </label>
+                <input
+                  id="salary_history_workingDays"
+                  type="number"
+                  value={formData.workingDays}
+                  onChange={(e) => setFormData({ ...formData, workingDays: parseInt(e.target.value) || 30 })}
+                  min="1"
+                  max="31"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  disabled={isSaving}
+                />
+              </div>
+            </div>
+            <div>
+              <label htmlFor="salary_history_note" className="block text-sm font-medium text-gray-700 mb-1">
+                Not (opsiyonel)
+              </label>
+              <input
+                id="salary_history_note"
+                type="text"
+                value={formData.note}
+                onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                disabled={isSaving}
+              />
+            </div>
+            <div className="flex justify-end space-x-3">
+              {editingId && (
+                <button
+                  type="button"
+                  onClick={() => resetForm(employee)}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+                  disabled={isSaving}
+                >
+                  Vazgeç
+                </button>
+              )}
+              <button
+                type="submit"
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+                disabled={isSaving}
+              >
+                {isSaving ? 'Kaydediliyor...' : editingId ? 'Düzelt' : 'Ekle'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+
+// Termination (kıdem / ihbar) statement
+function formatServiceLength(calc: TerminationCalculation): string {
+  return `${calc.serviceYears} yıl ${calc.serviceMonths} ay ${calc.serviceRemainder} gün (${calc.serviceDays} gün)`;
+}
+
+function buildTerminationRows(
+  calc: TerminationCalculation,
+  formatCurrency: (amount: number) => string
+): Array<[string, string]> {
+  return [
+    ['Çıkış Nedeni', TERMINATION_REASON_LABELS[calc.reason]],
+    ['Hizmet Süresi', formatServiceLength(calc)],
+    ['Aylık Brüt Maaş', formatCurrency(calc.monthlySalary)],
+    ['Günlük Brüt', formatCurrency(calc.dailySalary)],
+    ['Kıdem Tavanı', calc.severanceCeiling !== null ? formatCurrency(calc.severanceCeiling) : 'Tanımlı değil'],
+    ['Kıdem Esas Ücreti', formatCurrency(calc.severanceBase)],
+    ['Kıdem Tazminatı (Brüt)', formatCurrency(calc.severanceGross)],
+    ['Damga Vergisi', formatCurrency(calc.severanceStampTax)],
+    ['Kıdem Tazminatı (Net)', formatCurrency(calc.severanceNet)],
+    [`İhbar Tazminatı (${calc.noticeWeeks} hafta)`, calc.noticeGiven ? 'İhbar süresi verildi' : formatCurrency(calc.noticePay)],
+    [`Kullanılmayan İzin (${calc.unusedLeaveDays} gün)`, formatCurrency(calc.unusedLeavePay)],
+    ['Toplam Brüt', formatCurrency(calc.totalGross)],
+  ];
+}
+
+function printTerminationStatement(
+  employeeName: string,
+  calc: TerminationCalculation,
+  formatDate: (dateString: string) => string,
+  formatCurrency: (amount: number) => string
+) {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return;
+
+  const escape = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const rows = buildTerminationRows(calc, formatCurrency)
+    .map(([label, value]) => `<tr><th>${escape(label)}</th><td>${escape(value)}</td></tr>`)
+    .join('');
+
+  printWindow.document.write(`<!DOCTYPE html>
+<html lang="tr">
+<head>
+<meta charset="utf-8" />
+<title>İşten Çıkış Hesap Pusulası - ${escape(employeeName)}</title>
+<style>
+  body { font-family: Arial, sans-serif; margin: 40px; color: #0f172a; }
+  h1 { font-size: 18px; margin-bottom: 4px; }
+  p { margin: 0 0 16px; color: #475569; font-size: 13px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { border: 1px solid #cbd5e1; padding: 6px 10px; }
+  th { text-align: left; background: #f1f5f9; width: 55%; }
+  td { text-align: right; }
+  .signatures { display: flex; justify-content: space-between; margin-top: 60px; font-size: 13px; }
+</style>
+</head>
+<body>
+  <h1>İşten Çıkış Hesap Pusulası</h1>
+  <p>${escape(employeeName)} — Çıkış Tarihi: ${escape(formatDate(calc.terminationDate))}</p>
+  <table>${rows}</table>
+  <div class="signatures"><span>İşveren</span><span>Çalışan</span></div>
+</body>
+</html>`);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+}
+
+interface TerminationStatementProps {
+  calc: TerminationCalculation;
+  formatCurrency: (amount: number) => string;
+}
+
+function TerminationStatement({ calc, formatCurrency }: TerminationStatementProps) {
+  const rows = buildTerminationRows(calc, formatCurrency);
+  return (
+    <table className="min-w-full text-sm border border-gray-200 rounded-md overflow-hidden">
+      <tbody className="divide-y divide-gray-200">
+        {rows.map(([label, value], index) => (
+          <tr key={label} className={index === rows.length - 1 ? 'bg-indigo-50 font-semibold' : ''}>
+            <th className="px-3 py-2 text-left font-medium text-gray-600">{label}</th>
+            <td className="px-3 py-2 text-right text-gray-900">{value}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+interface TerminationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  employee: Employee | null;
+  onChanged: () => Promise<void>;
+  formatDate: (dateString: string) => string;
+  formatCurrency: (amount: number) => string;
+}
+
+function TerminationModal({ isOpen, onClose, employee, onChanged, formatDate, formatCurrency }: TerminationModalProps) {
+  const { showToast } = useToast();
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'ADMIN';
+  const [settlements, setSettlements] = useState<TerminationSettlement[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [preview, setPreview] = useState<TerminationCalculation | null>(null);
+  const [formData, setFormData] = useState<TerminationInput>({
+    terminationDate: '',
+    reason: 'EMPLOYER_TERMINATION',
+    noticeGiven: false,
+    unusedLeaveDays: 0,
+    note: '',
+  });
+
+  const fetchSettlements = async (employeeId: string) => {
+    setIsLoading(true);
+    try {
+      setSettlements(await getTerminationSettlements(employeeId));
+    } catch (err) {
+      const message = isApiError(err) ? err.message : 'İşten çıkış kayıtları yüklenemedi';
+      showToast(message, 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!isOpen || !employee) return;
+    setPreview(null);
+    setFormData({
+      terminationDate: (employee.endDate ?? new Date().toISOString()).split('T')[0],
+      reason: 'EMPLOYER_TERMINATION',
+      noticeGiven: false,
+      unusedLeaveDays: 0,
+      note: '',
+    });
+    fetchSettlements(employee.id);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, employee]);
+
+  const updateForm = (changes: Partial<TerminationInput>) => {
+    setFormData({ ...formData, ...changes });
+    setPreview(null);
+  };
+
+  const buildPayload = (): TerminationInput => ({
+    ...formData,
+    note: formData.note?.trim() ? formData.note.trim() : null,
+  });
+
+  const handlePreview = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!employee) return;
+    if (!formData.terminationDate) {
+      showToast('Çıkış tarihi zorunludur', 'error');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      setPreview(await previewTermination(employee.id, buildPayload()));
+    } catch (err) {
+      const message = isApiError(err) ? err.message : 'Hesaplama yapılamadı';
+      showToast(message, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!employee || !preview) return;
+    const confirmed = window.confirm(
+      `${employee.fullName} için ${formatDate(preview.terminationDate)} tarihli işten çıkış kaydedilsin mi?`
+    );
+    if (!confirmed) return;
+
+    setIsSaving(true);
+    try {
+      await createTerminationSettlement(employee.id, buildPayload());
+      showToast('İşten çıkış kaydedildi', 'success');
+      setPreview(null);
+      await fetchSettlements(employee.id);
+      await onChanged();
+    } catch (err) {
+      const message = isApiError(err) ? err.message : 'İşten çıkış kaydedilemedi';
+      showToast(message, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (settlement: TerminationSettlement) => {
+    if (!employee) return;
+    const confirmed = window.confirm(`${formatDate(settlement.terminationDate)} tarihli işten çıkış kaydı silinsin mi?`);
+    if (!confirmed) return;
+
+    setIsSaving(true);
+    try {
+      await deleteTerminationSettlement(settlement.id);
+      showToast('İşten çıkış kaydı silindi', 'success');
+      await fetchSettlements(employee.id);
+      await onChanged();
+    } catch (err) {
+      const message = isApiError(err) ? err.message : 'İşten çıkış kaydı silinemedi';
+      showToast(message, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen || !employee) return null;
+
+  const current = settlements.find(
+    (settlement) => new Date(settlement.terminationDate).getTime() >= new Date(employee.startDate).getTime()
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4 max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">İşten Çıkış</h2>
+            <p className="text-sm text-gray-500">{employee.fullName}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-xl leading-none">
+            ×
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          {isLoading ? (
+            <div className="text-center text-gray-600 py-6">Yükleniyor...</div>
+          ) : current ? (
+            <div className="space-y-4">
+              <div className="text-sm text-gray-600">
+                {formatDate(current.terminationDate)} tarihinde kaydedildi
+                {current.createdBy ? ` (${current.createdBy})` : ''}.
+                {current.note ? <div className="mt-1 text-gray-700">{current.note}</div> : null}
+              </div>
+              <TerminationStatement calc={current} formatCurrency={formatCurrency} />
+              <div className="flex justify-end space-x-3">
+                {isAdmin && (
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(current)}
+                    className="px-4 py-2 text-sm font-medium text-red-600 bg-red-50 rounded-md hover:bg-red-100 disabled:opacity-50"
+                    disabled={isSaving}
+                  >
+                    Kaydı Sil
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => printTerminationStatement(employee.fullName, current, formatDate, formatCurrency)}
+                  className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700"
+                >
+                  Yazdır
+                </button>
+              </div>
+            </div>
+          ) : (
+            <form onSubmit={handlePreview} className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="termination_date" className="block text-sm font-medium text-gray-700 mb-1">
+                    Çıkış Tarihi
+                  </label>
+                  <input
+                    id="termination_date"
+                    type="date"
+                    value={formData.terminationDate}
+                    onChange={(e) => updateForm({ terminationDate: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    disabled={isSaving}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="termination_reason" className="block text-sm font-medium text-gray-700 mb-1">
+                    Çıkış Nedeni
+                  </label>
+                  <select
+                    id="termination_reason"
+                    value={formData.reason}
+                    onChange={(e) => updateForm({ reason: e.target.value as TerminationReason })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    disabled={isSaving}
+                  >
+                    {(Object.keys(TERMINATION_REASON_LABELS) as TerminationReason[]).map((reason) => (
+                      <option key={reason} value={reason}>
+                        {TERMINATION_REASON_LABELS[reason]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="termination_leave" className="block text-sm font-medium text-gray-700 mb-1">
+                    Kullanılmayan İzin (gün)
+                  </label>
+                  <input
+                    id="termination_leave"
+                    type="number"
+                    value={formData.unusedLeaveDays}
+                    onChange={(e) => updateForm({ unusedLeaveDays: parseFloat(e.target.value) || 0 })}
+                    min="0"
+                    step="0.5"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    disabled={isSaving}
+                  />
+                </div>
+                <div className="flex items-end">
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={formData.noticeGiven}
+                      onChange={(e) => updateForm({ noticeGiven: e.target.checked })}
+                      className="h-4 w-4 text-indigo-600 border-gray-300 rounded mr-2"
+                      disabled={isSaving}
+                    />
+                    İhbar süresi önceden verildi
+                  </label>
+                </div>
+              </div>
+              <div>
+                <label htmlFor="termination_note" className="block text-sm font-medium text-gray-700 mb-1">
+                  Not (opsiyonel)
+                </label>
+                <input
+                  id="termination_note"
+                  type="text"
+                  value={formData.note || ''}
+                  onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  disabled={isSaving}
+                />
+              </div>
+
+              {preview && <TerminationStatement calc={preview} formatCurrency={formatCurrency} />}
+
+              <div className="flex justify-end space-x-3">
+                <button
+                  type="submit"
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50"
+                  disabled={isSaving}
+                >
+                  Hesapla
+                </button>
+                {preview && (
+                  <button
+                    type="button"
+                    onClick={() => printTerminationStatement(employee.fullName, preview, formatDate, formatCurrency)}
+                    className="px-4 py-2 text-sm font-medium text-slate-700 bg-slate-100 rounded-md hover:bg-slate-200"
+                  >
+                    Yazdır
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50"
+                  disabled={isSaving || !preview}
+                >
+                  {isSaving ? 'Kaydediliyor...' : 'Çıkışı Kaydet'}
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+
+interface LeaveBalanceModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  employee: Employee | null;
+  formatDate: (dateString: string) => string;
+}
+
+function LeaveBalanceModal({ isOpen, onClose, employee, formatDate }: LeaveBalanceModalProps) {
+  const { showToast } = useToast();
+  const [balance, setBalance] = useState<LeaveBalance | null>(null);
+  const [requests, setRequests] = useState<LeaveRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !employee) return;
+    setIsLoading(true);
+    Promise.all([getLeaveBalance(employee.id), getLeaveRequests({ employeeId: employee.id })])
+      .then(([balanceData, requestData]) => {
+        setBalance(balanceData);
+        setRequests(requestData);
+      })
+      .catch((err) => {
+        const message = isApiError(err) ? err.message : 'İzin bakiyesi yüklenemedi';
+        showToast(message, 'error');
+      })
+      .finally(() => setIsLoading(false));
+  }, [isOpen, employee, showToast]);
+
+  if (!isOpen || !employee) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4 max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Yıllık İzin Bakiyesi</h2>
+            <p className="text-sm text-gray-500">{employee.fullName}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-xl leading-none">
+            ×
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          {isLoading || !balance ? (
+            <div className="text-center text-gray-600 py-6">Yükleniyor...</div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+                <div className="px-3 py-2 rounded-md bg-slate-50 border border-slate-200">
+                  <div className="text-slate-600">Kıdem</div>
+                  <div className="font-semibold text-slate-900">{balance.seniorityYears} yıl</div>
+                </div>
+                <div className="px-3 py-2 rounded-md bg-slate-50 border border-slate-200">
+                  <div className="text-slate-600">Toplam Hak</div>
+                  <div className="font-semibold text-slate-900">{balance.totalEntitled} gün</div>
+                </div>
+                <div className="px-3 py-2 rounded-md bg-slate-50 border border-slate-200">
+                  <div className="text-slate-600">Kullanılan</div>
+                  <div className="font-semibold text-slate-900">{balance.used} gün</div>
+                </div>
+                <div className="px-3 py-2 rounded-md bg-indigo-50 border border-indigo-200">
+                  <div className="text-indigo-700">Kalan</div>
+                  <div className="font-bold text-indigo-900">{balance.remaining} gün</div>
+                </div>
+              </div>
+
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Hizmet Yılı</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Devreden</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Hak</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Kullanılan</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Kalan</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {[...balance.history].reverse().map((row) => (
+                    <tr key={row.serviceYear}>
+                      <td className="px-3 py-2 text-gray-900">
+                        {formatDate(row.periodStart)} - {formatDate(row.periodEnd)}
+                        <span className="ml-2 text-xs text-gray-500">({row.serviceYear}. yıl)</span>
+                      </td>
+                      <td className="px-3 py-2 text-right text-gray-700">{row.carriedOver}</td>
+                      <td className="px-3 py-2 text-right text-gray-700">{row.entitlement}</td>
+                      <td className="px-3 py-2 text-right text-gray-700">{row.used}</td>
+                      <td className="px-3 py-2 text-right font-medium text-gray-900">{row.remaining}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div>
+                <h3 className="text-sm font-semibold text-gray-900 mb-2">İzin Talepleri</h3>
+                {requests.length === 0 ? (
+                  <div className="text-sm text-gray-500">İzin talebi yok.</div>
+                ) : (
+                  <ul className="divide-y divide-gray-200 text-sm">
+                    {requests.map((request) => (
+                      <li key={request.id} className="py-2 flex items-center justify-between">
+                        <span className="text-gray-900">
+                          {formatDate(request.startDate)} - {formatDate(request.endDate)}
+                          <span className="ml-2 text-gray-500">{request.days} gün</span>
+                        </span>
+                        <span className="text-gray-600">{LEAVE_STATUS_LABELS[request.status]}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface DocumentsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  employee: Employee | null;
+}
+
+// Sözleşme, kimlik fotokopisi gibi çalışan belgeleri
+function DocumentsModal({ isOpen, onClose, employee }: DocumentsModalProps) {
+  if (!isOpen || !employee) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg mx-4 max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Belgeler</h2>
+            <p className="text-sm text-gray-500">{employee.fullName}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-xl leading-none">
+            ×
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          <AttachmentList owner={{ employeeId: employee.id }} title="Çalışan Belgeleri (sözleşme vb.)" />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+
 // Employee card component for mobile view
 interface EmployeeCardProps {
   employee: Employee;
   onEdit: (employee: Employee) => void;
   onDelete: (employee: Employee) => void;
+  onSalaryHistory: (employee: Employee) => void;
+  onTermination: (employee: Employee) => void;
+  onLeaveBalance: (employee: Employee) => void;
+  onDocuments: (employee: Employee) => void;
   formatDate: (dateString: string) => string;
   formatCurrency: (amount: number) => string;
 }
 
-function EmployeeCard({ employee, onEdit, onDelete, formatDate, formatCurrency }: EmployeeCardProps) {
+function EmployeeCard({ employee, onEdit, onDelete, onSalaryHistory, onTermination, onLeaveBalance, onDocuments, formatDate, formatCurrency }: EmployeeCardProps) {
   return (
     <div className="bg-white border border-gray-200 rounded-lg p-4 shadow-sm">
       <div className="flex justify-between items-start mb-3">
@@ -710,6 +1637,30 @@ function EmployeeCard({ employee, onEdit, onDelete, formatDate, formatCurrency }
       </div>
       
       <div className="flex justify-end space-x-3 pt-3 border-t border-gray-100">
+        <button
+          onClick={() => onSalaryHistory(employee)}
+          className="px-3 py-1.5 text-sm font-medium text-slate-600 hover:text-slate-800 hover:bg-slate-50 rounded-md transition-colors"
+        >
+          Maaş Geçmişi
+        </button>
+        <button
+          onClick={() => onLeaveBalance(employee)}
+          className="px-3 py-1.5 text-sm font-medium text-sky-600 hover:text-sky-800 hover:bg-sky-50 rounded-md transition-colors"
+        >
+          İzin
+        </button>
+        <button
+          onClick={() => onDocuments(employee)}
+          className="px-3 py-1.5 text-sm font-medium text-teal-600 hover:text-teal-800 hover:bg-teal-50 rounded-md transition-colors"
+        >
+          Belgeler
+        </button>
+        <button
+          onClick={() => onTermination(employee)}
+          className="px-3 py-1.5 text-sm font-medium text-amber-600 hover:text-amber-800 hover:bg-amber-50 rounded-md transition-colors"
+        >
+          İşten Çıkış
+        </button>
         <button
           onClick={() => onEdit(employee)}
           className="px-3 py-1.5 text-sm font-medium text-indigo-600 hover:text-indigo-800 hover:bg-indigo-50 rounded-md transition-colors"
@@ -748,6 +1699,14 @@ export default function EmployeesPage() {
   const [deletingEmployee, setDeletingEmployee] = useState<Employee | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
 
+  // Salary history modal state
+  const [salaryHistoryEmployee, setSalaryHistoryEmployee] = useState<Employee | null>(null);
+
+  // Termination modal state
+  const [terminationEmployee, setTerminationEmployee] = useState<Employee | null>(null);
+  const [leaveBalanceEmployee, setLeaveBalanceEmployee] = useState<Employee | null>(null);
+  const [documentsEmployee, setDocumentsEmployee] = useState<Employee | null>(null);
+
   // Fetch employees on mount
   useEffect(() => {
     fetchEmployees();
@@ -957,6 +1916,10 @@ export default function EmployeesPage() {
                     employee={employee}
                     onEdit={handleEditClick}
                     onDelete={handleDeleteClick}
+                    onSalaryHistory={setSalaryHistoryEmployee}
+                    onTermination={setTerminationEmployee}
+                    onLeaveBalance={setLeaveBalanceEmployee}
+                    onDocuments={setDocumentsEmployee}
                     formatDate={formatDate}
                     formatCurrency={formatCurrency}
                   />
@@ -1027,6 +1990,30 @@ export default function EmployeesPage() {
                           {employee.workingDays}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                          <button
+                            onClick={() => setSalaryHistoryEmployee(employee)}
+                            className="text-slate-600 hover:text-slate-900 mr-4"
+                          >
+                            Maaş Geçmişi
+                          </button>
+                          <button
+                            onClick={() => setLeaveBalanceEmployee(employee)}
+                            className="text-sky-600 hover:text-sky-900 mr-4"
+                          >
+                            İzin
+                          </button>
+                          <button
+                            onClick={() => setDocumentsEmployee(employee)}
+                            className="text-teal-600 hover:text-teal-900 mr-4"
+                          >
+                            Belgeler
+                          </button>
+                          <button
+                            onClick={() => setTerminationEmployee(employee)}
+                            className="text-amber-600 hover:text-amber-900 mr-4"
+                          >
+                            İşten Çıkış
+                          </button>
                           <button
                             onClick={() => handleEditClick(employee)}
                             className="text-indigo-600 hover:text-indigo-900 mr-4"
@@ -1065,6 +2052,37 @@ export default function EmployeesPage() {
         isLoading={isBulkSaving}
       />
 
+      <SalaryHistoryModal
+        isOpen={!!salaryHistoryEmployee}
+        onClose={() => setSalaryHistoryEmployee(null)}
+        employee={salaryHistoryEmployee}
+        onChanged={async () => setEmployees(await getAllEmployees())}
+        formatDate={formatDate}
+        formatCurrency={formatCurrency}
+      />
+
+      <TerminationModal
+        isOpen={!!terminationEmployee}
+        onClose={() => setTerminationEmployee(null)}
+        employee={terminationEmployee}
+        onChanged={async () => setEmployees(await getAllEmployees())}
+        formatDate={formatDate}
+        formatCurrency={formatCurrency}
+      />
+
+      <LeaveBalanceModal
+        isOpen={!!leaveBalanceEmployee}
+        onClose={() => setLeaveBalanceEmployee(null)}
+        employee={leaveBalanceEmployee}
+        formatDate={formatDate}
+      />
+
+      <DocumentsModal
+        isOpen={!!documentsEmployee}
+        onClose={() => setDocumentsEmployee(null)}
+        employee={documentsEmployee}
+      />
+
       <DeleteModal
         isOpen={isDeleteModalOpen}
         onClose={() => {
@@ -0,0 +1,344 @@
+import { FormEvent, useEffect, useState } from 'react';
+import { Employee, getAllEmployees, isApiError } from '../api/employee';
+import { getCurrentPeriod } from '../api/payroll';
+import {
+  LeaveBalance,
+  LeaveRequest,
+  LeaveStatus,
+  LEAVE_STATUS_LABELS,
+  approveLeaveRequest,
+  cancelLeaveRequest,
+  createLeaveRequest,
+  getLeaveBalance,
+  getLeaveRequests,
+  rejectLeaveRequest,
+} from '../api/leave';
+import { useAuth } from '../context/AuthContext';
+import { useToast } from '../context/ToastContext';
+
+const STATUS_CLASSES: Record<LeaveStatus, string> = {
+  PENDING: 'bg-amber-100 text-amber-800',
+  APPROVED: 'bg-green-100 text-green-800',
+  REJECTED: 'bg-red-100 text-red-800',
+  CANCELLED: 'bg-gray-100 text-gray-700',
+};
+
+const formatDate = (d: string) => new Date(d).toLocaleDateString('tr-TR', { timeZone: 'UTC' });
+
+export default function LeavePage() {
+  const { showToast } = useToast();
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'ADMIN';
+  const { year: currentYear } = getCurrentPeriod();
+  const today = new Date().toISOString().split('T')[0];
+
+  const [selectedYear, setSelectedYear] = useState(currentYear);
+  const [statusFilter, setStatusFilter] = useState<LeaveStatus | ''>('');
+  const [requests, setRequests] = useState<LeaveRequest[]>([]);
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [actionId, setActionId] = useState<string | null>(null);
+
+  const [employeeId, setEmployeeId] = useState('');
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState(today);
+  const [note, setNote] = useState('');
+  const [balance, setBalance] = useState<LeaveBalance | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const yearOptions = Array.from({ length: 7 }, (_, i) => currentYear - 5 + i);
+
+  const fetchRequests = async () => {
+    setIsLoading(true);
+    try {
+      setRequests(await getLeaveRequests({ year: selectedYear, status: statusFilter || undefined }));
+    } catch (err) {
+      const message = isApiError(err) ? err.message : 'İzin talepleri yüklenemedi';
+      showToast(message, 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRequests();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedYear, statusFilter]);
+
+  useEffect(() => {
+    getAllEmployees()
+      .then((data) => {
+        const active = data
+          .filter((employee) => !employee.endDate)
+          .sort((a, b) => a.fullName.localeCompare(b.fullName, 'tr-TR'));
+        setEmployees(active);
+        setEmployeeId((prev) => prev || active[0]?.id || '');
+      })
+      .catch(() => showToast('Çalışanlar yüklenemedi', 'error'));
+  }, [showToast]);
+
+  const refreshBalance = async (id: string) => {
+    if (!id) {
+      setBalance(null);
+      return;
+    }
+    try {
+      setBalance(await getLeaveBalance(id));
+    } catch {
+      setBalance(null);
+    }
+  };
+
+  useEffect(() => {
+    refreshBalance(employeeId);
+  }, [employeeId]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!employeeId) return;
+
+    setIsSaving(true);
+    try {
+      await createLeaveRequest({
+        employeeId,
+        startDate,
+        endDate,
+        note: note.trim() ? note.trim() : null,
+      });
+      showToast('İzin talebi oluşturuldu', 'success');
+      setNote('');
+      await Promise.all([fetchRequests(), refreshBalance(employeeId)]);
+    } catch (err) {
+      const message = isApiError(err) ? err.message : 'İzin talebi oluşturulamadı';
+      showToast(message, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTransition = async (request: LeaveRequest, action: 'approve' | 'reject' | 'cancel') => {
+    if (action === 'cancel') {
+      const confirmed = window.confirm(`${request.employee.fullName} izin talebi iptal edilsin mi?`);
+      if (!confirmed) return;
+    }
+
+    setActionId(request.id);
+    try {
+      if (action === 'approve') {
+        await approveLeaveRequest(request.id);
+        showToast('İzin onaylandı', 'success');
+      } else if (action === 'reject') {
+        await rejectLeaveRequest(request.id);
+        showToast('İzin reddedildi', 'success');
+      } else {
+        await cancelLeaveRequest(request.id);
+        showToast('İzin iptal edildi', 'success');
+      }
+      await Promise.all([fetchRequests(), refreshBalance(employeeId)]);
+    } catch (err) {
+      const message = isApiError(err) ? err.message : 'İşlem başarısız';
+      showToast(message, 'error');
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg px-6 py-4 flex items-center justify-between">
+        <h1 className="text-xl font-semibold text-gray-900">Yıllık İzinler</h1>
+        <div className="flex items-center gap-3">
+          <select
+            aria-label="Durum filtresi"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as LeaveStatus | '')}
+            className="px-3 py-2 border rounded-md text-sm"
+          >
+            <option value="">Tüm Durumlar</option>
+            {Object.entries(LEAVE_STATUS_LABELS).map(([v, l]) => (
+              <option key={v} value={v}>
+                {l}
+              </option>
+            ))}
+          </select>
+          <select
+            aria-label="Yıl seçimi"
+            value={selectedYear}
+            onChange={(e) => setSelectedYear(parseInt(e.target.value))}
+            className="px-3 py-2 border rounded-md text-sm"
+          >
+            {yearOptions.map((y) => (
+              <option key={y} value={y}>
+                {y}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="bg-white shadow rounded-lg px-6 py-4">
+        <h2 className="text-base font-semibold text-slate-900 mb-4">İzin Talebi</h2>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="leave_employee">Çalışan</label>
+              <select
+                id="leave_employee"
+                value={employeeId}
+                onChange={(e) => setEmployeeId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                {employees.map((employee) => (
+                  <option key={employee.id} value={employee.id}>
+                    {employee.fullName}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="leave_start">Başlangıç</label>
+              <input
+                id="leave_start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="leave_end">Bitiş (dahil)</label>
+              <input
+                id="leave_end"
+                type="date"
+                value={endDate}
+                min={startDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </div>
+            <div className="flex items-end">
+              <button
+                type="submit"
+                disabled={isSaving || !employeeId}
+                className="w-full px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {isSaving ? 'Kaydediliyor...' : 'Talep Oluştur'}
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="leave_note">Not (opsiyonel)</label>
+            <input
+              id="leave_note"
+              type="text"
+              value={note}
+              maxLength={255}
+              onChange={(e) => setNote(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </div>
+
+          {balance ? (
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3 text-sm">
+              <div className="px-3 py-2 rounded-md bg-slate-50 border border-slate-200">
+                <div className="text-slate-600">Kıdem</div>
+                <div className="font-semibold text-slate-900">{balance.seniorityYears} yıl</div>
+              </div>
+              <div className="px-3 py-2 rounded-md bg-slate-50 border border-slate-200">
+                <div className="text-slate-600">Yıllık Hak</div>
+                <div className="font-semibold text-slate-900">{balance.currentEntitlement} gün</div>
+              </div>
+              <div className="px-3 py-2 rounded-md bg-slate-50 border border-slate-200">
+                <div className="text-slate-600">Onay Bekleyen</div>
+                <div className="font-semibold text-slate-900">{balance.pending} gün</div>
+              </div>
+              <div className="px-3 py-2 rounded-md bg-indigo-50 border border-indigo-200">
+                <div className="text-indigo-700">Kalan Bakiye</div>
+                <div className="font-bold text-indigo-900">{balance.remaining} gün</div>
+              </div>
+            </div>
+          ) : null}
+          <p className="text-xs text-gray-500">
+            Pazar günleri ve resmi tatiller izin gününden sayılmaz; arifeler yarım gündür. Onaylanan izin günleri devam
+            takvimine ücretli izin olarak işlenir.
+          </p>
+        </form>
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        {isLoading ? (
+          <div className="p-10 text-center text-gray-600">Yükleniyor...</div>
+        ) : requests.length === 0 ? (
+          <div className="p-10 text-center text-gray-500">İzin talebi yok.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Çalışan</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tarihler</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Gün</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Durum</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Not</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">İşlem</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {requests.map((request) => (
+                  <tr key={request.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{request.employee.fullName}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                      {formatDate(request.startDate)} - {formatDate(request.endDate)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-700">{request.days}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${STATUS_CLASSES[request.status]}`}>
+                        {LEAVE_STATUS_LABELS[request.status]}
+                      </span>
+                      {request.decidedBy ? (
+                        <div className="text-xs text-gray-500 mt-1">{request.decidedBy}</div>
+                      ) : null}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">{request.note || '-'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                      <div className="flex items-center justify-end gap-4">
+                        {isAdmin && request.status === 'PENDING' ? (
+                          <>
+                            <button
+                              onClick={() => handleTransition(request, 'approve')}
+                              disabled={actionId === request.id}
+                              className="text-green-600 hover:text-green-900 disabled:opacity-50"
+                            >
+                              Onayla
+                            </button>
+                            <button
+                              onClick={() => handleTransition(request, 'reject')}
+                              disabled={actionId === request.id}
+                              className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                            >
+                              Reddet
+                            </button>
+                          </>
+                        ) : null}
+                        {request.status === 'PENDING' || request.status === 'APPROVED' ? (
+                          <button
+                            onClick={() => handleTransition(request, 'cancel')}
+                            disabled={actionId === request.id}
+                            className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                          >
+                            İptal
+                          </button>
+                        ) : null}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,832 @@
+import { FormEvent, useEffect, useMemo, useState } from 'react';
+import { Employee, getAllEmployees, isApiError } from '../api/employee';
+import { formatCurrency, getCurrentPeriod, MONTH_NAMES } from '../api/payroll';
+import {
+  Loan,
+  LoanStatus,
+  LOAN_STATUS_LABELS,
+  LOAN_TRANSACTION_KIND_LABELS,
+  createLoan,
+  deleteLoan,
+  deleteLoanTransaction,
+  getLoans,
+  payOffLoan,
+  updateLoan,
+  writeOffLoan,
+} from '../api/loan';
+import { useAuth } from '../context/AuthContext';
+import { useToast } from '../context/ToastContext';
+
+/**
+ * LoansPage
+ *
+ * Çalışan borçları: taksitler puantajda diğer kesintilerden sonra kalan ödemeden düşülür,
+ * karşılanamayan kısım bakiyede kalır. Dönem kapanışında kesilen tutar borç hareketine yazılır.
+ * Çalışan seçildiğinde borç ekstresi (hareketler ve kalan plan) gösterilir.
+ */
+
+type InstallmentMode = 'count' | 'amount';
+
+const STATUS_BADGE_CLASSES: Record<LoanStatus, string> = {
+  ACTIVE: 'bg-amber-100 text-amber-800',
+  PAID_OFF: 'bg-green-100 text-green-800',
+  WRITTEN_OFF: 'bg-gray-100 text-gray-700',
+};
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString('tr-TR', { timeZone: 'UTC' });
+
+interface LoanFormModalProps {
+  isOpen: boolean;
+  loan: Loan | null;
+  employees: Employee[];
+  defaultEmployeeId: string;
+  onClose: () => void;
+  onSaved: () => Promise<void>;
+}
+
+function LoanFormModal({ isOpen, loan, employees, defaultEmployeeId, onClose, onSaved }: LoanFormModalProps) {
+  const { showToast } = useToast();
+  const { month: currentMonth, year: currentYear } = getCurrentPeriod();
+  const [employeeId, setEmployeeId] = useState('');
+  const [loanDate, setLoanDate] = useState('');
+  const [principal, setPrincipal] = useState(0);
+  const [startMonth, setStartMonth] = useState(currentMonth);
+  const [startYear, setStartYear] = useState(currentYear);
+  const [mode, setMode] = useState<InstallmentMode>('count');
+  const [installmentValue, setInstallmentValue] = useState(0);
+  const [approvedBy, setApprovedBy] = useState('');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const yearOptions = Array.from({ length: 7 }, (_, i) => currentYear - 5 + i);
+  // Hareket işlenmiş borcun tutarı ve başlangıç dönemi değiştirilemez
+  const planBasisLocked = !!loan && loan.transactions.length > 0;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    if (loan) {
+      setEmployeeId(loan.employeeId);
+      setLoanDate(loan.loanDate.split('T')[0]);
+      setPrincipal(loan.principal);
+      setStartMonth(loan.startMonth);
+      setStartYear(loan.startYear);
+      setMode('amount');
+      setInstallmentValue(loan.installmentAmount);
+      setApprovedBy(loan.approvedBy);
+      setNote(loan.note || '');
+    } else {
+      setEmployeeId(defaultEmployeeId || employees[0]?.id || '');
+      setLoanDate(new Date().toISOString().split('T')[0]);
+      setPrincipal(0);
+      setStartMonth(currentMonth);
+      setStartYear(currentYear);
+      setMode('count');
+      setInstallmentValue(1);
+      setApprovedBy('');
+      setNote('');
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, loan]);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!employeeId) {
+      showToast('Lütfen çalışan seçin', 'error');
+      return;
+    }
+    if (principal <= 0 || installmentValue <= 0) {
+      showToast('Borç ve taksit değerleri 0’dan büyük olmalıdır', 'error');
+      return;
+    }
+
+    const installment =
+      mode === 'count' ? { installmentCount: Math.round(installmentValue) } : { installmentAmount: installmentValue };
+    setIsSaving(true);
+    try {
+      if (loan) {
+        await updateLoan(loan.id, {
+          loanDate,
+          ...(planBasisLocked ? {} : { principal, startMonth, startYear }),
+          ...installment,
+          approvedBy: approvedBy.trim() || null,
+          note: note.trim() || null,
+        });
+        showToast('Borç güncellendi', 'success');
+      } else {
+        await createLoan({
+          employeeId,
+          loanDate,
+          principal,
+          startMonth,
+          startYear,
+          ...installment,
+          approvedBy: approvedBy.trim() || null,
+          note: note.trim() || null,
+        });
+        showToast('Borç kaydedildi', 'success');
+      }
+      await onSaved();
+      onClose();
+    } catch (err) {
+      const message = isApiError(err) ? err.message : 'Borç kaydedilemedi';
+      showToast(message, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg mx-4">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">{loan ? 'Borcu Düzenle' : 'Borç Ekle'}</h2>
+          {loan ? <p className="text-sm text-gray-500">{loan.employee.fullName}</p> : null}
+        </div>
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="loan_employee" className="block text-sm font-medium text-gray-700 mb-1">Çalışan</label>
+              <select
+                id="loan_employee"
+                value={employeeId}
+                onChange={(e) => setEmployeeId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                disabled={isSaving || !!loan}
+              >
+                {employees.map((employee) => (
+                  <option key={employee.id} value={employee.id}>
+                    {employee.fullName}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="loan_date" className="block text-sm font-medium text-gray-700 mb-1">Borç Tarihi</label>
+              <input
+                id="loan_date"
+                type="date"
+                value={loanDate}
+                onChange={(e) => setLoanDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                disabled={isSaving}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="loan_principal" className="block text-sm font-medium text-gray-700 mb-1">Borç Tutarı</label>
+              <input
+                id="loan_principal"
+                type="number"
+                min="0"
+                step="0.01"
+                value={principal}
+                onChange={(e) => setPrincipal(parseFloat(e.target.value) || 0)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                disabled={isSaving || planBasisLocked}
+              />
+            </div>
+            <div>
+              <label htmlFor="loan_start_month" className="block text-sm font-medium text-gray-700 mb-1">İlk Taksit</label>
+              <select
+                id="loan_start_month"
+                value={startMonth}
+                onChange={(e) => setStartMonth(parseInt(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                disabled={isSaving || planBasisLocked}
+              >
+                {Object.entries(MONTH_NAMES).map(([v, l]) => (
+                  <option key={v} value={v}>
+                    {l}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="loan_start_year" className="block text-sm font-medium text-gray-700 mb-1">Yıl</label>
+              <select
+                id="loan_start_year"
+                value={startYear}
+                onChange={(e) => setStartYear(parseInt(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                disabled={isSaving || planBasisLocked}
+              >
+                {yearOptions.map((y) => (
+                  <option key={y} value={y}>
+                    {y}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="loan_mode" className="block text-sm font-medium text-gray-700 mb-1">Taksitlendirme</label>
+              <select
+                id="loan_mode"
+                value={mode}
+                onChange={(e) => setMode(e.target.value as InstallmentMode)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                disabled={isSaving}
+              >
+                <option value="count">{loan ? 'Kalan bakiye için taksit sayısı' : 'Taksit sayısı'}</option>
+                <option value="amount">Aylık taksit tutarı</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="loan_installment" className="block text-sm font-medium text-gray-700 mb-1">
+                {mode === 'count' ? 'Taksit Sayısı' : 'Taksit Tutarı'}
+              </label>
+              <input
+                id="loan_installment"
+                type="number"
+                min={mode === 'count' ? 1 : 0}
+                step={mode === 'count' ? 1 : 0.01}
+                value={installmentValue}
+                onChange={(e) => setInstallmentValue(parseFloat(e.target.value) || 0)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="loan_approver" className="block text-sm font-medium text-gray-700 mb-1">Onaylayan</label>
+              <input
+                id="loan_approver"
+                type="text"
+                value={approvedBy}
+                maxLength={100}
+                onChange={(e) => setApprovedBy(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                placeholder="Boş bırakılırsa kaydı giren kullanıcı"
+                disabled={isSaving}
+              />
+            </div>
+            <div>
+              <label htmlFor="loan_note" className="block text-sm font-medium text-gray-700 mb-1">Not</label>
+              <input
+                id="loan_note"
+                type="text"
+                value={note}
+                maxLength={255}
+                onChange={(e) => setNote(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+              disabled={isSaving}
+            >
+              İptal
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+              disabled={isSaving}
+            >
+              {isSaving ? 'Kaydediliyor...' : 'Kaydet'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+interface LoanPayoffModalProps {
+  loan: Loan | null;
+  onClose: () => void;
+  onSaved: () => Promise<void>;
+}
+
+function LoanPayoffModal({ loan, onClose, onSaved }: LoanPayoffModalProps) {
+  const { showToast } = useToast();
+  const [paymentDate, setPaymentDate] = useState('');
+  const [amount, setAmount] = useState(0);
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!loan) return;
+    setPaymentDate(new Date().toISOString().split('T')[0]);
+    setAmount(loan.balance);
+    setNote('');
+  }, [loan]);
+
+  if (!loan) return null;
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (amount <= 0 || amount > loan.balance) {
+      showToast(`Ödeme tutarı 0 ile ${formatCurrency(loan.balance)} arasında olmalıdır`, 'error');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await payOffLoan(loan.id, { paymentDate, amount, note: note.trim() || null });
+      showToast(amount === loan.balance ? 'Borç kapatıldı' : 'Erken ödeme kaydedildi', 'success');
+      await onSaved();
+      onClose();
+    } catch (err) {
+      const message = isApiError(err) ? err.message : 'Ödeme kaydedilemedi';
+      showToast(message, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Erken Ödeme</h2>
+          <p className="text-sm text-gray-500">
+            {loan.employee.fullName} · Kalan bakiye {formatCurrency(loan.balance)}
+          </p>
+        </div>
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="payoff_date" className="block text-sm font-medium text-gray-700 mb-1">Ödeme Tarihi</label>
+              <input
+                id="payoff_date"
+                type="date"
+                value={paymentDate}
+                onChange={(e) => setPaymentDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                disabled={isSaving}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="payoff_amount" className="block text-sm font-medium text-gray-700 mb-1">Tutar</label>
+              <input
+                id="payoff_amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+          <div>
+            <label htmlFor="payoff_note" className="block text-sm font-medium text-gray-700 mb-1">Not</label>
+            <input
+              id="payoff_note"
+              type="text"
+              value={note}
+              maxLength={255}
+              onChange={(e) => setNote(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              disabled={isSaving}
+            />
+          </div>
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+              disabled={isSaving}
+            >
+              İptal
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+              disabled={isSaving}
+            >
+              {isSaving ? 'Kaydediliyor...' : 'Kaydet'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+interface LoanStatementProps {
+  employee: Employee;
+  loans: Loan[];
+  isAdmin: boolean;
+  onChanged: () => Promise<void>;
+}
+
+/**
+ * Çalışanın borç ekstresi: her borç için hareketler, yürüyen bakiye ve kalan taksit planı
+ */
+function LoanStatement({ employee, loans, isAdmin, onChanged }: LoanStatementProps) {
+  const { showToast } = useToast();
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const totals = loans.reduce(
+    (acc, loan) => ({
+      principal: acc.principal + loan.principal,
+      paid: acc.paid + loan.paidByPayroll + loan.paidOff,
+      writtenOff: acc.writtenOff + loan.writtenOff,
+      balance: acc.balance + loan.balance,
+    }),
+    { principal: 0, paid: 0, writtenOff: 0, balance: 0 }
+  );
+
+  const handleDeleteTransaction = async (loan: Loan, transactionId: string) => {
+    const confirmed = window.confirm('Bu hareket geri alınsın mı? Borç bakiyesi yeniden açılır.');
+    if (!confirmed) return;
+
+    setDeletingId(transactionId);
+    try {
+      await deleteLoanTransaction(loan.id, transactionId);
+      showToast('Hareket geri alındı', 'success');
+      await onChanged();
+    } catch (err) {
+      const message = isApiError(err) ? err.message : 'Hareket geri alınamadı';
+      showToast(message, 'error');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-base font-semibold text-gray-900">Borç Ekstresi - {employee.fullName}</h2>
+        <div className="mt-2 grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+          <div>
+            <div className="text-xs text-gray-500">Toplam Borç</div>
+            <div className="font-semibold text-gray-900">{formatCurrency(totals.principal)}</div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-500">Ödenen</div>
+            <div className="font-semibold text-green-700">{formatCurrency(totals.paid)}</div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-500">Silinen</div>
+            <div className="font-semibold text-gray-700">{formatCurrency(totals.writtenOff)}</div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-500">Kalan Bakiye</div>
+            <div className="font-semibold text-red-700">{formatCurrency(totals.balance)}</div>
+          </div>
+        </div>
+      </div>
+
+      {loans.length === 0 ? (
+        <div className="p-10 text-center text-gray-500">Bu çalışana ait borç kaydı yok.</div>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {loans.map((loan) => {
+            let running = loan.principal;
+            return (
+              <div key={loan.id} className="px-6 py-4 space-y-3">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium text-gray-900">
+                    {formatDate(loan.loanDate)} · {formatCurrency(loan.principal)} · aylık {formatCurrency(loan.installmentAmount)}
+                  </span>
+                  <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_BADGE_CLASSES[loan.status]}`}>
+                    {LOAN_STATUS_LABELS[loan.status]}
+                  </span>
+                </div>
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-gray-500 uppercase">
+                      <th className="py-1 text-left font-medium">Tarih</th>
+                      <th className="py-1 text-left font-medium">Hareket</th>
+                      <th className="py-1 text-left font-medium">Not</th>
+                      <th className="py-1 text-right font-medium">Tutar</th>
+                      <th className="py-1 text-right font-medium">Bakiye</th>
+                      {isAdmin ? <th className="py-1" /> : null}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    <tr>
+                      <td className="py-1 text-gray-700">{formatDate(loan.loanDate)}</td>
+                      <td className="py-1 text-gray-700">Borç verildi</td>
+                      <td className="py-1 text-gray-500">{loan.note || '-'}</td>
+                      <td className="py-1 text-right text-gray-900">{formatCurrency(loan.principal)}</td>
+                      <td className="py-1 text-right text-gray-900">{formatCurrency(loan.principal)}</td>
+                      {isAdmin ? <td /> : null}
+                    </tr>
+                    {loan.transactions.map((transaction) => {
+                      running = Math.round((running - transaction.amount) * 100) / 100;
+                      return (
+                        <tr key={transaction.id}>
+                          <td className="py-1 text-gray-700">
+                            {transaction.month && transaction.year
+                              ? `${MONTH_NAMES[transaction.month]} ${transaction.year}`
+                              : formatDate(transaction.transactionDate)}
+                          </td>
+                          <td className="py-1 text-gray-700">{LOAN_TRANSACTION_KIND_LABELS[transaction.kind]}</td>
+                          <td className="py-1 text-gray-500">{transaction.note || '-'}</td>
+                          <td className="py-1 text-right text-green-700">-{formatCurrency(transaction.amount)}</td>
+                          <td className="py-1 text-right text-gray-900">{formatCurrency(Math.max(0, running))}</td>
+                          {isAdmin ? (
+                            <td className="py-1 text-right">
+                              {transaction.kind !== 'INSTALLMENT' ? (
+                                <button
+                                  type="button"
+                                  onClick={() => handleDeleteTransaction(loan, transaction.id)}
+                                  disabled={deletingId === transaction.id}
+                                  className="text-xs text-red-600 hover:text-red-900 disabled:opacity-50"
+                                >
+                                  Geri Al
+                                </button>
+                              ) : null}
+                            </td>
+                          ) : null}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                {loan.schedule.length > 0 ? (
+                  <div className="text-xs text-gray-600">
+                    <span className="font-medium text-gray-700">Kalan plan: </span>
+                    {loan.schedule
+                      .map((line) => `${MONTH_NAMES[line.month]} ${line.year} ${formatCurrency(line.amount)}`)
+                      .join(' · ')}
+                  </div>
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function LoansPage() {
+  const { showToast } = useToast();
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'ADMIN';
+
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [loans, setLoans] = useState<Loan[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [employeeFilterId, setEmployeeFilterId] = useState('');
+  const [statusFilter, setStatusFilter] = useState<LoanStatus | ''>('ACTIVE');
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingLoan, setEditingLoan] = useState<Loan | null>(null);
+  const [payoffLoan, setPayoffLoan] = useState<Loan | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchLoans = async () => {
+    try {
+      setLoans(
+        await getLoans({
+          employeeId: employeeFilterId || undefined,
+          // Ekstrede çalışanın tüm borçları gösterilir
+          status: employeeFilterId ? undefined : statusFilter || undefined,
+        })
+      );
+    } catch (err) {
+      const message = isApiError(err) ? err.message : 'Borçlar yüklenemedi';
+      showToast(message, 'error');
+    }
+  };
+
+  useEffect(() => {
+    getAllEmployees()
+      .then((data) => setEmployees([...data].sort((a, b) => a.fullName.localeCompare(b.fullName, 'tr-TR'))))
+      .catch(() => showToast('Çalışanlar yüklenemedi', 'error'));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchLoans().finally(() => setIsLoading(false));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [employeeFilterId, statusFilter]);
+
+  const selectedEmployee = useMemo(
+    () => employees.find((employee) => employee.id === employeeFilterId) || null,
+    [employees, employeeFilterId]
+  );
+
+  const totalBalance = loans.reduce((acc, loan) => acc + loan.balance, 0);
+
+  const handleWriteOff = async (loan: Loan) => {
+    const note = window.prompt(
+      `${loan.employee.fullName} borcunun kalan ${formatCurrency(loan.balance)} bakiyesi silinecek. Gerekçe:`
+    );
+    if (!note?.trim()) return;
+
+    setBusyId(loan.id);
+    try {
+      await writeOffLoan(loan.id, note.trim());
+      showToast('Kalan bakiye silindi', 'success');
+      await fetchLoans();
+    } catch (err) {
+      const message = isApiError(err) ? err.message : 'Borç silinemedi';
+      showToast(message, 'error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (loan: Loan) => {
+    const confirmed = window.confirm(`${loan.employee.fullName} için ${formatCurrency(loan.principal)} tutarındaki borç kaydı silinsin mi?`);
+    if (!confirmed) return;
+
+    setBusyId(loan.id);
+    try {
+      await deleteLoan(loan.id);
+      showToast('Borç kaydı silindi', 'success');
+      await fetchLoans();
+    } catch (err) {
+      const message = isApiError(err) ? err.message : 'Borç kaydı silinemedi';
+      showToast(message, 'error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg px-6 py-4 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+        <h1 className="text-xl font-semibold text-gray-900">Borçlar</h1>
+        <div className="flex items-center gap-3">
+          <select
+            aria-label="Çalışan filtresi"
+            value={employeeFilterId}
+            onChange={(e) => setEmployeeFilterId(e.target.value)}
+            className="px-3 py-2 border rounded-md text-sm"
+          >
+            <option value="">(Tüm çalışanlar)</option>
+            {employees.map((employee) => (
+              <option key={employee.id} value={employee.id}>
+                {employee.fullName}
+              </option>
+            ))}
+          </select>
+          <select
+            aria-label="Durum filtresi"
+            value={employeeFilterId ? '' : statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as LoanStatus | '')}
+            className="px-3 py-2 border rounded-md text-sm"
+            disabled={!!employeeFilterId}
+          >
+            <option value="">(Tüm durumlar)</option>
+            {Object.entries(LOAN_STATUS_LABELS).map(([v, l]) => (
+              <option key={v} value={v}>
+                {l}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => {
+              setEditingLoan(null);
+              setFormOpen(true);
+            }}
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 whitespace-nowrap"
+          >
+            Borç Ekle
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        {isLoading ? (
+          <div className="p-6 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto" />
+          </div>
+        ) : loans.length === 0 ? (
+          <div className="p-10 text-center text-gray-500">Seçili filtreye uygun borç kaydı yok.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Çalışan</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tarih</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Borç</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Taksit</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">İlk Taksit</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Kalan</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Durum</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">İşlem</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {loans.map((loan) => (
+                  <tr key={loan.id}>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      <button
+                        type="button"
+                        onClick={() => setEmployeeFilterId(loan.employeeId)}
+                        className="hover:underline"
+                        title="Borç ekstresini göster"
+                      >
+                        {loan.employee.fullName}
+                      </button>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">{formatDate(loan.loanDate)}</td>
+                    <td className="px-6 py-4 text-sm text-right text-gray-900">{formatCurrency(loan.principal)}</td>
+                    <td className="px-6 py-4 text-sm text-right text-gray-700">
+                      {formatCurrency(loan.installmentAmount)}
+                      {loan.schedule.length > 0 ? (
+                        <div className="text-xs text-gray-500">{loan.schedule.length} taksit kaldı</div>
+                      ) : null}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      {MONTH_NAMES[loan.startMonth]} {loan.startYear}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-right font-medium text-red-700">{formatCurrency(loan.balance)}</td>
+                    <td className="px-6 py-4 text-sm">
+                      <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_BADGE_CLASSES[loan.status]}`}>
+                        {LOAN_STATUS_LABELS[loan.status]}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-right text-sm">
+                      {loan.status === 'ACTIVE' ? (
+                        <div className="flex items-center justify-end gap-4">
+                          <button
+                            type="button"
+                            onClick={() => {
+                              setEditingLoan(loan);
+                              setFormOpen(true);
+                            }}
+                            className="text-indigo-600 hover:text-indigo-900"
+                          >
+                            Düzenle
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setPayoffLoan(loan)}
+                            className="text-teal-600 hover:text-teal-800"
+                          >
+                            Erken Öde
+                          </button>
+                          {isAdmin && loan.transactions.length > 0 ? (
+                            <button
+                              type="button"
+                              onClick={() => handleWriteOff(loan)}
+                              disabled={busyId === loan.id}
+                              className="text-amber-700 hover:text-amber-900 disabled:opacity-50"
+                            >
+                              Bakiyeyi Sil
+                            </button>
+                          ) : null}
+                          {loan.transactions.length === 0 ? (
+                            <button
+                              type="button"
+                              onClick={() => handleDelete(loan)}
+                              disabled={busyId === loan.id}
+                              className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                            >
+                              Sil
+                            </button>
+                          ) : null}
+                        </div>
+                      ) : (
+                        <span className="text-xs text-gray-400">Kapalı</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="border-t border-gray-200 bg-slate-50 px-6 py-3 flex items-center justify-between text-sm">
+              <span className="text-slate-900 font-semibold">Toplam Kalan Bakiye</span>
+              <span className="font-bold text-slate-900">{formatCurrency(totalBalance)}</span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {selectedEmployee && !isLoading ? (
+        <LoanStatement employee={selectedEmployee} loans={loans} isAdmin={isAdmin} onChanged={fetchLoans} />
+      ) : null}
+
+      <LoanFormModal
+        isOpen={formOpen}
+        loan={editingLoan}
+        employees={employees}
+        defaultEmployeeId={employeeFilterId}
+        onClose={() => {
+          setFormOpen(false);
+          setEditingLoan(null);
+        }}
+        onSaved={fetchLoans}
+      />
+      <LoanPayoffModal loan={payoffLoan} onClose={() => setPayoffLoan(null)} onSaved={fetchLoans} />
+    </div>
+  );
+}
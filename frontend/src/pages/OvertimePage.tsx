@@ -1,8 +1,188 @@
 import { FormEvent, useEffect, useMemo, useState } from 'react';
 import { getCurrentPeriod, getPayrollByMonth, isPayrollApiError, MONTH_NAMES, PayrollEntry, formatCurrency } from '../api/payroll';
-import { createOvertime, deleteOvertime, getOvertimeEntries, OvertimeEntry } from '../api/overtime';
+import {
+  createOvertime,
+  deleteOvertime,
+  getOvertimeCapStatuses,
+  getOvertimeEntries,
+  getOvertimeRate,
+  OvertimeCapStatus,
+  OvertimeEntry,
+  OvertimeRate,
+  OVERTIME_MULTIPLIERS,
+  updateOvertime,
+} from '../api/overtime';
+import {
+  classifyOvertimeDate,
+  getPublicHolidays,
+  OvertimeDayClassification,
+  OVERTIME_DAY_REASON_LABELS,
+  PublicHoliday,
+} from '../api/publicHoliday';
 import { useToast } from '../context/ToastContext';
 
+function OvertimeCapBadge({ status }: { status: OvertimeCapStatus | undefined }) {
+  if (!status || status.level === 'OK') return null;
+  const className = status.level === 'LIMIT'
+    ? 'bg-red-100 text-red-800'
+    : 'bg-amber-100 text-amber-800';
+  return (
+    <span
+      className={`ml-2 inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${className}`}
+      title={`${status.year} yılı: ${status.usedHours} / ${status.limitHours} saat`}
+    >
+      {status.level === 'LIMIT' ? 'Mesai sınırı doldu' : `Kalan ${status.remainingHours} saat`}
+    </span>
+  );
+}
+
+function showCapWarning(status: OvertimeCapStatus, showToast: ReturnType<typeof useToast>['showToast']) {
+  if (status.level === 'OK') return;
+  showToast(
+    `${status.year} yılı mesaisi ${status.usedHours} saate ulaştı (sınır ${status.limitHours} saat, kalan ${status.remainingHours} saat)`,
+    'warning'
+  );
+}
+
+interface OvertimeEditModalProps {
+  entry: OvertimeEntry | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+function OvertimeEditModal({ entry, onClose, onSaved }: OvertimeEditModalProps) {
+  const { showToast } = useToast();
+  const [entryDate, setEntryDate] = useState('');
+  const [type, setType] = useState<'OVERTIME_50' | 'OVERTIME_100'>('OVERTIME_50');
+  const [hours, setHours] = useState(0);
+  const [description, setDescription] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!entry) return;
+    setEntryDate(entry.entryDate.split('T')[0]);
+    setType(entry.type);
+    setHours(entry.hours);
+    setDescription(entry.description || '');
+  }, [entry]);
+
+  if (!entry) return null;
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (hours <= 0) {
+      showToast('Mesai saati 0’dan büyük olmalıdır', 'error');
+      return;
+    }
+
+    // Tarih başka bir aya taşınırsa kayıt o dönemin puantajına aktarılır
+    const [year, month] = entryDate.split('-').map(Number);
+    setIsSaving(true);
+    try {
+      const saved = await updateOvertime(entry.id, {
+        entryDate,
+        month,
+        year,
+        type,
+        hours,
+        description: description.trim() || null,
+      });
+      showToast('Mesai kaydı güncellendi', 'success');
+      showCapWarning(saved.cap, showToast);
+      onSaved();
+      onClose();
+    } catch (err) {
+      const message = isPayrollApiError(err) ? err.message : 'Mesai kaydı güncellenemedi';
+      showToast(message, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Mesai Düzenle</h2>
+          <p className="text-sm text-gray-500">{entry.employee.fullName}</p>
+        </div>
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="ote_date" className="block text-sm font-medium text-gray-700 mb-1">Tarih</label>
+              <input
+                id="ote_date"
+                type="date"
+                value={entryDate}
+                onChange={(e) => setEntryDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                disabled={isSaving}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="ote_type" className="block text-sm font-medium text-gray-700 mb-1">Tür</label>
+              <select
+                id="ote_type"
+                value={type}
+                onChange={(e) => setType(e.target.value as 'OVERTIME_50' | 'OVERTIME_100')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                disabled={isSaving}
+              >
+                <option value="OVERTIME_50">%50</option>
+                <option value="OVERTIME_100">%100</option>
+              </select>
+            </div>
+          </div>
+          <div>
+            <label htmlFor="ote_hours" className="block text-sm font-medium text-gray-700 mb-1">Saat</label>
+            <input
+              id="ote_hours"
+              type="number"
+              value={hours}
+              onChange={(e) => setHours(parseFloat(e.target.value) || 0)}
+              min="0"
+              step="0.5"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              disabled={isSaving}
+            />
+          </div>
+          <div>
+            <label htmlFor="ote_desc" className="block text-sm font-medium text-gray-700 mb-1">Açıklama</label>
+            <input
+              id="ote_desc"
+              type="text"
+              value={description}
+              maxLength={100}
+              onChange={(e) => setDescription(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              disabled={isSaving}
+            />
+          </div>
+          <p className="text-xs text-gray-500">Tutar, kaydedildiğinde dönem maaşına göre yeniden hesaplanır.</p>
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+              disabled={isSaving}
+            >
+              İptal
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+              disabled={isSaving}
+            >
+              {isSaving ? 'Kaydediliyor...' : 'Kaydet'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
 export default function OvertimePage() {
   const { showToast } = useToast();
   const { month: currentMonth, year: currentYear } = getCurrentPeriod();
@@ -15,27 +195,37 @@ export default function OvertimePage() {
   const [isSaving, setIsSaving] = useState(false);
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const [listEmployeeFilterId, setListEmployeeFilterId] = useState('');
+  const [editingEntry, setEditingEntry] = useState<OvertimeEntry | null>(null);
 
   const [employeeId, setEmployeeId] = useState('');
   const [entryDate, setEntryDate] = useState(new Date().toISOString().split('T')[0]);
   const [type, setType] = useState<'OVERTIME_50' | 'OVERTIME_100'>('OVERTIME_50');
   const [hours, setHours] = useState(0);
   const [description, setDescription] = useState('');
+  const [holidays, setHolidays] = useState<PublicHoliday[]>([]);
+  const [classification, setClassification] = useState<OvertimeDayClassification | null>(null);
+  const [rate, setRate] = useState<OvertimeRate | null>(null);
+  const [capStatuses, setCapStatuses] = useState<Map<string, OvertimeCapStatus>>(new Map());
 
   const yearOptions = Array.from({ length: 7 }, (_, i) => currentYear - 5 + i);
 
   const fetchData = async () => {
     setIsLoading(true);
     try {
-      const [payrollData, overtimeData] = await Promise.all([
+      const [payrollData, overtimeData, holidayData, capData] = await Promise.all([
         getPayrollByMonth(selectedMonth, selectedYear),
         getOvertimeEntries(selectedMonth, selectedYear),
+        getPublicHolidays(selectedYear, selectedMonth),
+        // Ücret parametresi yoksa yıllık sınır rozetleri gösterilmez
+        getOvertimeCapStatuses(selectedMonth, selectedYear).catch(() => [] as OvertimeCapStatus[]),
       ]);
       const sortedPayroll = [...payrollData].sort((a, b) =>
         a.employee.fullName.localeCompare(b.employee.fullName, 'tr-TR')
       );
       setPayrollEntries(sortedPayroll);
       setOvertimeEntries(overtimeData);
+      setHolidays(holidayData);
+      setCapStatuses(new Map(capData.map((status) => [status.employeeId, status])));
 
       if (!employeeId || !sortedPayroll.some((entry) => entry.employeeId === employeeId)) {
         setEmployeeId(sortedPayroll[0]?.employeeId || '');
@@ -53,6 +243,46 @@ export default function OvertimePage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [selectedMonth, selectedYear]);
 
+  // Tatil / hafta tatili günlerinde mesai türü %100 olarak seçilir
+  useEffect(() => {
+    if (!entryDate || !employeeId) {
+      setClassification(null);
+      return;
+    }
+    let cancelled = false;
+    classifyOvertimeDate(entryDate, employeeId)
+      .then((result) => {
+        if (cancelled) return;
+        setClassification(result);
+        setType(result.suggestedType);
+      })
+      .catch(() => {
+        if (!cancelled) setClassification(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [entryDate, employeeId]);
+
+  // Saat ücreti sunucuda dönem maaşı ve ücret parametresindeki günlük saatten hesaplanır
+  useEffect(() => {
+    if (!employeeId) {
+      setRate(null);
+      return;
+    }
+    let cancelled = false;
+    getOvertimeRate(employeeId, selectedMonth, selectedYear)
+      .then((result) => {
+        if (!cancelled) setRate(result);
+      })
+      .catch(() => {
+        if (!cancelled) setRate(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [employeeId, selectedMonth, selectedYear]);
+
   const selectedEntry = useMemo(
     () => payrollEntries.find((entry) => entry.employeeId === employeeId) || null,
     [payrollEntries, employeeId]
@@ -64,8 +294,9 @@ export default function OvertimePage() {
         : overtimeEntries,
     [overtimeEntries, listEmployeeFilterId]
   );
-  const multiplier = type === 'OVERTIME_50' ? 1.5 : 2;
-  const hourlyWage = (selectedEntry?.dailyWage || 0) / 8;
+  const multiplier = OVERTIME_MULTIPLIERS[type];
+  const hourlyWage = rate ? rate.dailyWage / rate.dailyWorkingHours : 0;
+  // Önizleme; kaydedilen tutar sunucuda hesaplanır
   const amount = Math.max(0, hourlyWage * multiplier * hours);
 
   const employeeSummaries = useMemo(() => {
@@ -142,18 +373,17 @@ export default function OvertimePage() {
 
     setIsSaving(true);
     try {
-      await createOvertime({
+      const saved = await createOvertime({
         employeeId,
         entryDate,
         month: selectedMonth,
         year: selectedYear,
         type,
-        multiplier,
         hours,
-        amount: Number(amount.toFixed(2)),
         description: description.trim() || null,
       });
       showToast('Mesai kaydedildi', 'success');
+      showCapWarning(saved.cap, showToast);
       setHours(0);
       setDescription('');
       await fetchData();
@@ -412,6 +642,12 @@ export default function OvertimePage() {
                   </option>
                 ))}
               </select>
+              {capStatuses.get(employeeId) ? (
+                <div className="text-xs text-gray-500 mt-1">
+                  {selectedYear} mesaisi: {capStatuses.get(employeeId)?.usedHours} / {capStatuses.get(employeeId)?.limitHours} saat
+                  <OvertimeCapBadge status={capStatuses.get(employeeId)} />
+                </div>
+              ) : null}
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="ot_type">Mesai Türü</label>
@@ -421,9 +657,15 @@ export default function OvertimePage() {
                 onChange={(e) => setType(e.target.value as 'OVERTIME_50' | 'OVERTIME_100')}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
               >
-                <option value="OVERTIME_50">%50</option>
+                <option value="OVERTIME_50" disabled={classification?.enforced}>%50</option>
                 <option value="OVERTIME_100">%100</option>
               </select>
+              {classification && classification.reason !== 'WORKDAY' ? (
+                <div className="text-xs text-amber-700 mt-1">
+                  {classification.holiday?.name ?? OVERTIME_DAY_REASON_LABELS[classification.reason]}
+                  {classification.enforced ? ' - yalnızca %100' : ' - %100 önerilir'}
+                </div>
+              ) : null}
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="ot_hours">Saat</label>
@@ -471,10 +713,10 @@ export default function OvertimePage() {
             </div>
             <div className="px-3 py-2 rounded-md bg-slate-50 border border-slate-200">
               <div className="text-slate-600">Toplam Günlük</div>
-              <div className="font-semibold text-slate-900">{formatCurrency(selectedEntry?.dailyWage || 0)}</div>
+              <div className="font-semibold text-slate-900">{formatCurrency(rate?.dailyWage ?? selectedEntry?.dailyWage ?? 0)}</div>
             </div>
             <div className="px-3 py-2 rounded-md bg-slate-50 border border-slate-200">
-              <div className="text-slate-600">Saatlik Ücret</div>
+              <div className="text-slate-600">Saatlik Ücret{rate ? ` (${rate.dailyWorkingHours} saat/gün)` : ''}</div>
               <div className="font-semibold text-slate-900">{formatCurrency(hourlyWage)}</div>
             </div>
             <div className="px-3 py-2 rounded-md bg-slate-50 border border-slate-200">
@@ -489,6 +731,20 @@ export default function OvertimePage() {
         </form>
       </div>
 
+      {holidays.length > 0 ? (
+        <div className="bg-white shadow rounded-lg px-6 py-4">
+          <h2 className="text-base font-semibold text-slate-900 mb-2">Bu Ayın Resmi Tatilleri</h2>
+          <ul className="flex flex-wrap gap-2 text-sm">
+            {holidays.map((holiday) => (
+              <li key={holiday.id} className="px-3 py-1 rounded-md bg-indigo-50 text-indigo-800 border border-indigo-200">
+                {new Date(holiday.date).toLocaleDateString('tr-TR', { timeZone: 'UTC' })} - {holiday.name}
+                {holiday.isHalfDay ? ' (yarım gün)' : ''}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
       <div className="bg-white shadow rounded-lg overflow-hidden">
         <div className="px-6 py-4 border-b border-gray-200 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
           <h2 className="text-base font-semibold text-gray-900">Girilen Mesailer</h2>
@@ -536,7 +792,10 @@ export default function OvertimePage() {
                     <tbody className="bg-white divide-y divide-gray-200">
                       {filteredOvertimeEntries.map((entry) => (
                         <tr key={entry.id}>
-                          <td className="px-6 py-4 text-sm text-gray-900">{entry.employee.fullName}</td>
+                          <td className="px-6 py-4 text-sm text-gray-900">
+                            {entry.employee.fullName}
+                            <OvertimeCapBadge status={capStatuses.get(entry.employeeId)} />
+                          </td>
                           <td className="px-6 py-4 text-sm text-gray-700">{new Date(entry.entryDate).toLocaleDateString('tr-TR')}</td>
                           <td className="px-6 py-4 text-sm text-gray-700">{entry.type === 'OVERTIME_50' ? '%50' : '%100'}</td>
                           <td className="px-6 py-4 text-sm text-right text-gray-700">{entry.hours}</td>
@@ -544,14 +803,23 @@ export default function OvertimePage() {
                           <td className="px-6 py-4 text-sm text-right font-medium text-gray-900">{formatCurrency(entry.amount)}</td>
                           <td className="px-6 py-4 text-sm text-gray-600">{entry.description || '-'}</td>
                           <td className="px-6 py-4 text-right text-sm">
-                            <button
-                              type="button"
-                              onClick={() => handleDelete(entry)}
-                              disabled={deletingId === entry.id}
-                              className="text-red-600 hover:text-red-900 disabled:opacity-50"
-                            >
-                              {deletingId === entry.id ? 'Siliniyor...' : 'Sil'}
-                            </button>
+                            <div className="flex items-center justify-end gap-4">
+                              <button
+                                type="button"
+                                onClick={() => setEditingEntry(entry)}
+                                className="text-indigo-600 hover:text-indigo-900"
+                              >
+                                Düzenle
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => handleDelete(entry)}
+                                disabled={deletingId === entry.id}
+                                className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                              >
+                                {deletingId === entry.id ? 'Siliniyor...' : 'Sil'}
+                              </button>
+                            </div>
                           </td>
                         </tr>
                       ))}
@@ -591,6 +859,8 @@ export default function OvertimePage() {
           </>
         )}
       </div>
+
+      <OvertimeEditModal entry={editingEntry} onClose={() => setEditingEntry(null)} onSaved={fetchData} />
     </div>
   );
 }
@@ -1,22 +1,211 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, FormEvent } from 'react';
 import {
   PayrollEntry,
+  PayrollLineItem,
+  addPayrollLineItem,
+  deletePayrollLineItem,
   getPayrollByMonth,
   updatePayroll,
   batchUpdatePayroll,
+  getPayrollPeriod,
+  startPayrollPeriodReview,
+  closePayrollPeriod,
+  reopenPayrollPeriod,
+  PayrollPeriod,
+  PERIOD_STATUS_LABELS,
   isPayrollApiError,
   formatCurrency,
   getCurrentPeriod,
   MONTH_NAMES,
+  downloadPayslip,
+  downloadPeriodPayslips,
+  BankExportFormat,
+  BankPaymentExport,
+  BANK_EXPORT_FORMAT_LABELS,
+  createBankExport,
+  downloadBankExport,
+  getBankExports,
 } from '../api/payroll';
 import { WORK_AREA_LABELS, WorkArea } from '../api/employee';
+import { getAttendanceByMonth } from '../api/attendance';
+import { PayComponentType, PAY_COMPONENT_CHANNEL_LABELS, getPayComponentTypes } from '../api/payComponent';
 import EditableCell from '../components/EditableCell';
+import AttachmentList from '../components/AttachmentList';
 import { useToast } from '../context/ToastContext';
+import { useAuth } from '../context/AuthContext';
 
-type EditableField = 'daysWorked' | 'advance' | 'officialAdvance' | 'overtime50' | 'overtime100';
+type EditableField = 'daysWorked' | 'overtime50' | 'overtime100';
 
-const FIXED_OFFICIAL_PAYMENT = 28075;
-const OFFICIAL_WORKING_DAYS_BASE = 30;
+interface BankExportModalProps {
+  month: number;
+  year: number;
+  onClose: () => void;
+}
+
+/**
+ * Kapalı dönemin resmi ödemeleri için toplu EFT / havale dosyası; daha önce üretilen dosyalar da listelenir
+ */
+function BankExportModal({ month, year, onClose }: BankExportModalProps) {
+  const { showToast } = useToast();
+  const [exports, setExports] = useState<BankPaymentExport[]>([]);
+  const [format, setFormat] = useState<BankExportFormat>('CSV');
+  const [paymentDate, setPaymentDate] = useState(new Date().toISOString().split('T')[0]);
+  const [description, setDescription] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchExports = useCallback(async () => {
+    try {
+      setExports(await getBankExports(month, year));
+    } catch (err) {
+      showToast(isPayrollApiError(err) ? err.message : 'Banka dosyaları yüklenemedi', 'error');
+    }
+  }, [month, year, showToast]);
+
+  useEffect(() => {
+    fetchExports();
+  }, [fetchExports]);
+
+  const handleDownload = async (bankExport: BankPaymentExport) => {
+    try {
+      await downloadBankExport(bankExport);
+    } catch (err) {
+      showToast(isPayrollApiError(err) ? err.message : 'Dosya indirilemedi', 'error');
+    }
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const created = await createBankExport({
+        month,
+        year,
+        format,
+        paymentDate,
+        description: description.trim() || null,
+      });
+      showToast(`${created.employeeCount} çalışan için banka dosyası oluşturuldu`, 'success');
+      await handleDownload(created);
+      await fetchExports();
+    } catch (err) {
+      showToast(isPayrollApiError(err) ? err.message : 'Banka dosyası oluşturulamadı', 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4 max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Banka Ödeme Dosyası</h2>
+            <p className="text-sm text-gray-500">
+              {MONTH_NAMES[month]} {year} · sigortalı çalışanların resmi ödemesi
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-xl leading-none">
+            ×
+          </button>
+        </div>
+        <div className="p-6 overflow-y-auto space-y-6">
+          <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+            <div>
+              <label htmlFor="bank_export_format" className="block text-sm font-medium text-gray-700 mb-1">Biçim</label>
+              <select
+                id="bank_export_format"
+                value={format}
+                onChange={e => setFormat(e.target.value as BankExportFormat)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                disabled={isSaving}
+              >
+                {Object.entries(BANK_EXPORT_FORMAT_LABELS).map(([v, l]) => <option key={v} value={v}>{l}</option>)}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="bank_export_date" className="block text-sm font-medium text-gray-700 mb-1">Ödeme Tarihi</label>
+              <input
+                id="bank_export_date"
+                type="date"
+                value={paymentDate}
+                onChange={e => setPaymentDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                disabled={isSaving}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="bank_export_description" className="block text-sm font-medium text-gray-700 mb-1">Açıklama</label>
+              <input
+                id="bank_export_description"
+                type="text"
+                value={description}
+                maxLength={30}
+                onChange={e => setDescription(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                placeholder="Boşsa: AY YIL MAAS"
+                disabled={isSaving}
+              />
+            </div>
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+              disabled={isSaving}
+            >
+              {isSaving ? 'Oluşturuluyor...' : 'Oluştur ve İndir'}
+            </button>
+          </form>
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 mb-2">Üretilen Dosyalar</h3>
+            {exports.length === 0 ? (
+              <p className="text-sm text-gray-500">Bu dönem için henüz banka dosyası üretilmedi.</p>
+            ) : (
+              <table className="min-w-full text-sm divide-y divide-gray-200">
+                <thead>
+                  <tr className="text-xs text-gray-500 uppercase">
+                    <th className="py-1 text-left font-medium">Dosya</th>
+                    <th className="py-1 text-left font-medium">Ödeme Tarihi</th>
+                    <th className="py-1 text-right font-medium">Kişi</th>
+                    <th className="py-1 text-right font-medium">Toplam</th>
+                    <th className="py-1 text-left font-medium pl-4">Oluşturan</th>
+                    <th className="py-1" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {exports.map(bankExport => (
+                    <tr key={bankExport.id}>
+                      <td className="py-1.5 text-gray-900">
+                        {bankExport.fileName}
+                        <div className="text-xs text-gray-500">{BANK_EXPORT_FORMAT_LABELS[bankExport.format]}</div>
+                      </td>
+                      <td className="py-1.5 text-gray-700">{new Date(bankExport.paymentDate).toLocaleDateString('tr-TR')}</td>
+                      <td className="py-1.5 text-right text-gray-700">{bankExport.employeeCount}</td>
+                      <td className="py-1.5 text-right text-gray-900">{formatCurrency(bankExport.totalAmount)}</td>
+                      <td className="py-1.5 pl-4 text-gray-700">
+                        {bankExport.createdBy}
+                        <div className="text-xs text-gray-500">{new Date(bankExport.createdAt).toLocaleString('tr-TR')}</div>
+                      </td>
+                      <td className="py-1.5 text-right">
+                        <button
+                          type="button"
+                          onClick={() => handleDownload(bankExport)}
+                          className="text-xs text-indigo-600 hover:text-indigo-900"
+                        >
+                          İndir
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
 
 export default function PayrollPage() {
   const [entries, setEntries] = useState<PayrollEntry[]>([]);
@@ -26,7 +215,23 @@ export default function PayrollPage() {
   const [draggingId, setDraggingId] = useState<string | null>(null);
   const [draggingArea, setDraggingArea] = useState<WorkArea | null>(null);
   const [draggingGroupArea, setDraggingGroupArea] = useState<WorkArea | null>(null);
+  const [period, setPeriod] = useState<PayrollPeriod | null>(null);
+  // Gün sayısı devam takviminden hesaplanan çalışanlar
+  const [attendanceManaged, setAttendanceManaged] = useState<Set<string>>(new Set());
+  const [isPeriodUpdating, setIsPeriodUpdating] = useState(false);
+  // Belgeleri gösterilen puantaj satırı (imzalı bordro, dekont vb.)
+  const [documentsEntry, setDocumentsEntry] = useState<PayrollEntry | null>(null);
+  const [componentTypes, setComponentTypes] = useState<PayComponentType[]>([]);
+  // Ödeme / kesinti kalemleri düzenlenen puantaj satırı
+  const [lineItemsEntry, setLineItemsEntry] = useState<PayrollEntry | null>(null);
+  const [lineItemForm, setLineItemForm] = useState({ componentTypeId: '', amount: '', description: '' });
+  const [isLineItemSaving, setIsLineItemSaving] = useState(false);
+  // Pusulası hazırlanan satır ('ALL' = dönemin tamamı)
+  const [payslipDownloading, setPayslipDownloading] = useState<string | null>(null);
+  const [isBankExportOpen, setIsBankExportOpen] = useState(false);
   const { showToast } = useToast();
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'ADMIN';
   
   const { month: currentMonth, year: currentYear } = getCurrentPeriod();
   const [selectedMonth, setSelectedMonth] = useState(currentMonth);
@@ -38,8 +243,16 @@ export default function PayrollPage() {
     setIsLoading(true);
     setError(null);
     try {
-      const data = await getPayrollByMonth(selectedMonth, selectedYear);
+      const [data, periodData, attendance, types] = await Promise.all([
+        getPayrollByMonth(selectedMonth, selectedYear),
+        getPayrollPeriod(selectedMonth, selectedYear),
+        getAttendanceByMonth(selectedMonth, selectedYear),
+        getPayComponentTypes(),
+      ]);
       setEntries(data);
+      setPeriod(periodData);
+      setComponentTypes(types);
+      setAttendanceManaged(new Set(attendance.summaries.map((summary) => summary.employeeId)));
     } catch (err) {
       const message = isPayrollApiError(err) ? err.message : 'Hata';
       setError(message);
@@ -51,6 +264,39 @@ export default function PayrollPage() {
 
   useEffect(() => { fetchPayroll(); }, [fetchPayroll]);
 
+  const isClosed = period?.status === 'CLOSED';
+  // İncelemedeki dönem de düzenlenemez; düzeltme için dönem yeniden açılır
+  const isLocked = isClosed || period?.status === 'UNDER_REVIEW';
+
+  const handlePeriodTransition = async (action: 'review' | 'close' | 'reopen') => {
+    if (action === 'close') {
+      const confirmed = window.confirm(
+        `${MONTH_NAMES[selectedMonth]} ${selectedYear} dönemi kapatılsın mı? Kapanıştan sonra bu ayda değişiklik yapılamaz.`
+      );
+      if (!confirmed) return;
+    }
+
+    setIsPeriodUpdating(true);
+    try {
+      if (action === 'review') {
+        await startPayrollPeriodReview(selectedMonth, selectedYear);
+        showToast('Dönem incelemeye alındı', 'success');
+      } else if (action === 'close') {
+        await closePayrollPeriod(selectedMonth, selectedYear);
+        showToast('Dönem kapatıldı', 'success');
+      } else {
+        await reopenPayrollPeriod(selectedMonth, selectedYear);
+        showToast('Dönem yeniden açıldı', 'success');
+      }
+      await fetchPayroll();
+    } catch (err) {
+      const message = isPayrollApiError(err) ? err.message : 'Dönem durumu değiştirilemedi';
+      showToast(message, 'error');
+    } finally {
+      setIsPeriodUpdating(false);
+    }
+  };
+
   // Restore group order per period
   useEffect(() => {
     const key = `puantaj_workarea_order_${selectedYear}_${selectedMonth}`;
@@ -77,14 +323,67 @@ export default function PayrollPage() {
       const updatedEntry = await updatePayroll(entryId, { [field]: value });
       setEntries(prev => prev.map(e => e.id === entryId ? updatedEntry : e));
       showToast('Kaydedildi', 'success');
-    } catch {
-      showToast('Hata', 'error');
+    } catch (err) {
+      showToast(isPayrollApiError(err) ? err.message : 'Hata', 'error');
       await fetchPayroll();
     } finally {
       setSavingId(null);
     }
   };
 
+  const openLineItems = (entry: PayrollEntry, componentTypeId: string) => {
+    setLineItemsEntry(entry);
+    setLineItemForm({ componentTypeId, amount: '', description: '' });
+  };
+
+  const replaceEntry = (updatedEntry: PayrollEntry) => {
+    setEntries(prev => prev.map(e => e.id === updatedEntry.id ? updatedEntry : e));
+    setLineItemsEntry(updatedEntry);
+  };
+
+  const handleAddLineItem = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!lineItemsEntry) return;
+    const amount = parseFloat(lineItemForm.amount);
+    if (!lineItemForm.componentTypeId || !(amount > 0)) {
+      showToast('Tür ve tutar zorunludur', 'error');
+      return;
+    }
+
+    setIsLineItemSaving(true);
+    try {
+      replaceEntry(
+        await addPayrollLineItem(lineItemsEntry.id, {
+          componentTypeId: lineItemForm.componentTypeId,
+          amount,
+          description: lineItemForm.description.trim() || null,
+        })
+      );
+      setLineItemForm({ ...lineItemForm, amount: '', description: '' });
+      showToast('Kalem eklendi', 'success');
+    } catch (err) {
+      showToast(isPayrollApiError(err) ? err.message : 'Kalem eklenemedi', 'error');
+    } finally {
+      setIsLineItemSaving(false);
+    }
+  };
+
+  const handleDeleteLineItem = async (item: PayrollLineItem) => {
+    if (!lineItemsEntry) return;
+    const confirmed = window.confirm(`${item.name} kalemi (${formatCurrency(item.amount)}) silinsin mi?`);
+    if (!confirmed) return;
+
+    setIsLineItemSaving(true);
+    try {
+      replaceEntry(await deletePayrollLineItem(lineItemsEntry.id, item.id));
+      showToast('Kalem silindi', 'success');
+    } catch (err) {
+      showToast(isPayrollApiError(err) ? err.message : 'Kalem silinemedi', 'error');
+    } finally {
+      setIsLineItemSaving(false);
+    }
+  };
+
   const formatDate = (d: string | null) => d ? new Date(d).toLocaleDateString('tr-TR') : '-';
   const yearOptions = Array.from({ length: 7 }, (_, i) => currentYear - 5 + i);
 
@@ -100,6 +399,14 @@ export default function PayrollPage() {
   };
   entries.forEach(e => grouped[e.employee.workArea].push(e));
 
+  // Aktif türler ve bu dönemde kalemi bulunan pasif türler sütun olarak gösterilir
+  const usedComponentTypeIds = new Set(entries.flatMap(e => e.lineItems.map(item => item.componentTypeId)));
+  const componentColumns = componentTypes.filter(t => t.isActive || usedComponentTypeIds.has(t.id));
+  const sumLineItems = (entry: PayrollEntry, componentTypeId: string) =>
+    entry.lineItems
+      .filter(item => item.componentTypeId === componentTypeId)
+      .reduce((acc, item) => acc + item.amount, 0);
+
   const getSortedAreaEntries = (area: WorkArea) =>
     [...grouped[area]].sort((a, b) => {
       const aOrder = a.sortOrder ?? 0;
@@ -191,7 +498,6 @@ export default function PayrollPage() {
       const workbook = new ExcelJS.Workbook();
       const worksheet = workbook.addWorksheet('Puantaj');
       const moneyFormat = '#,##0.00';
-      const officialDailyRaw = FIXED_OFFICIAL_PAYMENT / OFFICIAL_WORKING_DAYS_BASE;
 
       const formatExcelDate = (date: string | null) =>
         date ? new Date(date).toLocaleDateString('tr-TR') : '-';
@@ -233,10 +539,11 @@ export default function PayrollPage() {
       const insuredExpr = (row: number) => `LOWER(TRIM($B${row}))="evet"`;
       const dailyWageExpr = (row: number) => `IF($E${row}>0,$D${row}/$E${row},0)`;
       const earnedExpr = (row: number) => `MAX(0,${dailyWageExpr(row)}*$F${row})`;
-      const officialBaseExpr = (row: number) =>
+      // Resmi günlük baz dönemin ücret parametresinden gelir
+      const officialBaseExpr = (row: number, officialDailyRaw: number) =>
         `IF(${insuredExpr(row)},MIN(${earnedExpr(row)},MAX(0,${officialDailyRaw}*$F${row})),0)`;
-      const cashBaseExpr = (row: number) =>
-        `MAX(0,${earnedExpr(row)}-${officialBaseExpr(row)})+MAX(0,$M${row})+MAX(0,$N${row})`;
+      const cashBaseExpr = (row: number, officialDailyRaw: number) =>
+        `MAX(0,${earnedExpr(row)}-${officialBaseExpr(row, officialDailyRaw)})+MAX(0,$M${row})+MAX(0,$N${row})`;
 
       workAreaOrder.forEach((area) => {
         const areaEntries = getSortedAreaEntries(area);
@@ -303,15 +610,16 @@ export default function PayrollPage() {
           ]);
 
           const row = dataRow.number;
+          const officialDailyRaw = entry.officialDailyBase;
           dataRow.getCell(7).value = { formula: `IF(${insuredExpr(row)},MIN($I${row},${officialDailyRaw}),0)` };
           dataRow.getCell(8).value = { formula: `MAX(0,$I${row}-$G${row})` };
           dataRow.getCell(9).value = { formula: dailyWageExpr(row) };
           dataRow.getCell(12).value = { formula: earnedExpr(row) };
           dataRow.getCell(15).value = {
-            formula: `IF(${insuredExpr(row)},MAX(0,${officialBaseExpr(row)}-MIN(${officialBaseExpr(row)},$K${row})),0)`,
+            formula: `IF(${insuredExpr(row)},MAX(0,${officialBaseExpr(row, officialDailyRaw)}-MIN(${officialBaseExpr(row, officialDailyRaw)},$K${row})),0)`,
           };
           dataRow.getCell(16).value = {
-            formula: `MAX(0,${cashBaseExpr(row)}-MIN(${cashBaseExpr(row)},$J${row}))`,
+            formula: `MAX(0,${cashBaseExpr(row, officialDailyRaw)}-MIN(${cashBaseExpr(row, officialDailyRaw)},$J${row}))`,
           };
           dataRow.getCell(17).value = { formula: `MAX(0,$L${row}+$M${row}+$N${row}-$J${row}-$K${row})` };
 
@@ -500,6 +808,21 @@ export default function PayrollPage() {
     }
   };
 
+  const handleDownloadPayslip = async (entry: PayrollEntry | null) => {
+    setPayslipDownloading(entry ? entry.id : 'ALL');
+    try {
+      if (entry) {
+        await downloadPayslip(entry);
+      } else {
+        await downloadPeriodPayslips(selectedMonth, selectedYear);
+      }
+    } catch (err) {
+      showToast(isPayrollApiError(err) ? err.message : 'Pusula oluşturulamadı', 'error');
+    } finally {
+      setPayslipDownloading(null);
+    }
+  };
+
   if (isLoading) return <div className="bg-white shadow rounded-lg p-6 text-center"><div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div></div>;
 
   return (
@@ -510,6 +833,20 @@ export default function PayrollPage() {
           <span className="inline-flex items-center rounded-full bg-slate-100 px-2 py-0.5 text-sm font-medium text-slate-700 ring-1 ring-slate-200">
             {entries.length} çalışan
           </span>
+          {period && (
+            <span
+              className={`inline-flex items-center rounded-full px-2 py-0.5 text-sm font-medium ring-1 ${
+                period.status === 'CLOSED'
+                  ? 'bg-red-50 text-red-700 ring-red-200'
+                  : period.status === 'UNDER_REVIEW'
+                    ? 'bg-amber-50 text-amber-700 ring-amber-200'
+                    : 'bg-green-50 text-green-700 ring-green-200'
+              }`}
+              title={period.closedAt ? `Kapatan: ${period.closedBy || '-'} (${new Date(period.closedAt).toLocaleString('tr-TR')})` : undefined}
+            >
+              {PERIOD_STATUS_LABELS[period.status]}
+            </span>
+          )}
         </h1>
         <div className="flex items-center gap-3">
           <span className="text-sm text-gray-600">Dönem:</span>
@@ -519,6 +856,36 @@ export default function PayrollPage() {
           <select aria-label="Yıl seçimi" value={selectedYear} onChange={e => setSelectedYear(parseInt(e.target.value))} className="px-3 py-2 border rounded-md text-sm">
             {yearOptions.map(y => <option key={y} value={y}>{y}</option>)}
           </select>
+          {period?.status === 'OPEN' && (
+            <button
+              type="button"
+              onClick={() => handlePeriodTransition('review')}
+              disabled={isPeriodUpdating}
+              className="px-3 py-2 text-sm font-medium text-amber-800 bg-amber-100 hover:bg-amber-200 rounded-md disabled:opacity-50"
+            >
+              İncelemeye Al
+            </button>
+          )}
+          {period?.status === 'UNDER_REVIEW' && (
+            <button
+              type="button"
+              onClick={() => handlePeriodTransition('close')}
+              disabled={isPeriodUpdating}
+              className="px-3 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-md disabled:opacity-50"
+            >
+              Dönemi Kapat
+            </button>
+          )}
+          {isAdmin && period && period.status !== 'OPEN' && (
+            <button
+              type="button"
+              onClick={() => handlePeriodTransition('reopen')}
+              disabled={isPeriodUpdating}
+              className="px-3 py-2 text-sm font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-md disabled:opacity-50"
+            >
+              Yeniden Aç
+            </button>
+          )}
           <button
             type="button"
             onClick={handleExportExcel}
@@ -526,9 +893,37 @@ export default function PayrollPage() {
           >
             Excel'e İndir
           </button>
+          <button
+            type="button"
+            onClick={() => handleDownloadPayslip(null)}
+            disabled={payslipDownloading !== null || entries.length === 0}
+            className="px-3 py-2 text-sm font-medium text-white bg-slate-600 hover:bg-slate-700 rounded-md disabled:opacity-50"
+            title={isClosed ? undefined : 'Dönem kapanmadığı için pusulalar taslak olarak üretilir'}
+          >
+            {payslipDownloading === 'ALL' ? 'Hazırlanıyor...' : 'Tüm Pusulalar (ZIP)'}
+          </button>
+          {isAdmin && isClosed && (
+            <button
+              type="button"
+              onClick={() => setIsBankExportOpen(true)}
+              className="px-3 py-2 text-sm font-medium text-white bg-sky-600 hover:bg-sky-700 rounded-md"
+            >
+              Banka Dosyası
+            </button>
+          )}
         </div>
       </div>
       {error && <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">{error}</div>}
+      {isClosed && (
+        <div className="bg-slate-50 border border-slate-200 text-slate-700 px-4 py-3 rounded text-sm">
+          Bu dönem kapatılmıştır; gösterilen değerler kapanıştaki kayıttır ve değiştirilemez.
+        </div>
+      )}
+      {period?.status === 'UNDER_REVIEW' && (
+        <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded text-sm">
+          Bu dönem incelemededir; değişiklik yapmak için dönemi yeniden açın.
+        </div>
+      )}
       {entries.length === 0 ? (
         <div className="bg-white shadow rounded-lg p-12 text-center text-gray-500">Bu dönem için çalışan bulunmuyor.</div>
       ) : (
@@ -540,7 +935,7 @@ export default function PayrollPage() {
               <div key={area} className="bg-white shadow rounded-lg overflow-hidden">
                 <div
                   className="px-6 py-4 bg-gradient-to-r from-indigo-50 via-white to-slate-50 border-b border-slate-200 flex items-center gap-3 cursor-move"
-                  draggable
+                  draggable={!isClosed}
                   onDragStart={() => {
                     // Don't start group drag while a row drag is active
                     if (draggingId) return;
@@ -575,11 +970,20 @@ export default function PayrollPage() {
                         <th className="px-2 py-2 text-right text-[11px] font-semibold text-slate-700 uppercase leading-tight bg-green-100">R.Günlük</th>
                         <th className="px-2 py-2 text-right text-[11px] font-semibold text-slate-700 uppercase leading-tight bg-green-100">G.R.Günlük</th>
                         <th className="px-2 py-2 text-right text-[11px] font-semibold text-slate-700 uppercase leading-tight bg-green-100">T.Günlük</th>
-                        <th className="px-2 py-2 text-right text-[11px] font-semibold text-slate-700 uppercase leading-tight bg-blue-100">G.R.Avans</th>
-                        <th className="px-2 py-2 text-right text-[11px] font-semibold text-slate-700 uppercase leading-tight bg-blue-100">R.Avans</th>
+                        <th className="px-2 py-2 text-right text-[11px] font-semibold text-slate-700 uppercase leading-tight bg-green-100">G.R.Avans</th>
+                        <th className="px-2 py-2 text-right text-[11px] font-semibold text-slate-700 uppercase leading-tight bg-green-100">R.Avans</th>
                         <th className="px-2 py-2 text-right text-[11px] font-semibold text-slate-700 uppercase leading-tight bg-green-100">Hak Edilen</th>
                         <th className="px-2 py-2 text-right text-[11px] font-semibold text-slate-700 uppercase leading-tight bg-green-100">%50</th>
                         <th className="px-2 py-2 text-right text-[11px] font-semibold text-slate-700 uppercase leading-tight bg-green-100">%100</th>
+                        {componentColumns.map(type => (
+                          <th
+                            key={type.id}
+                            className={`px-2 py-2 text-right text-[11px] font-semibold text-slate-700 uppercase leading-tight ${type.kind === 'EARNING' ? 'bg-blue-100' : 'bg-red-100'}`}
+                            title={`${type.kind === 'EARNING' ? 'Ödeme' : 'Kesinti'} (${PAY_COMPONENT_CHANNEL_LABELS[type.channel]})`}
+                          >
+                            {type.name}
+                          </th>
+                        ))}
                         <th className="px-2 py-2 text-right text-[11px] font-semibold text-slate-700 uppercase leading-tight bg-green-100">Resmi</th>
                         <th className="px-2 py-2 text-right text-[11px] font-semibold text-slate-700 uppercase leading-tight bg-green-100">G.Resmi</th>
                         <th className="px-2 py-2 text-right text-[11px] font-semibold text-slate-700 uppercase leading-tight bg-green-100">Toplam</th>
@@ -587,20 +991,9 @@ export default function PayrollPage() {
                     </thead>
                     <tbody className="divide-y divide-gray-200">
                       {areaEntries.map(entry => {
-                      const earned = Math.max(0, entry.earnedSalary);
-                      const officialDaily = FIXED_OFFICIAL_PAYMENT / OFFICIAL_WORKING_DAYS_BASE;
-                      const officialBase = entry.employee.isInsured
-                        ? Math.min(earned, Math.max(0, officialDaily * entry.daysWorked))
-                        : 0;
-                      const cashBase =
-                        Math.max(0, earned - officialBase) +
-                        Math.max(0, entry.overtime50) +
-                        Math.max(0, entry.overtime100);
-
-                      const officialRemaining = entry.employee.isInsured
-                        ? Math.max(0, officialBase - Math.min(officialBase, entry.officialAdvance))
-                        : 0;
-                      const cashRemaining = Math.max(0, cashBase - Math.min(cashBase, entry.advance));
+                      // Resmi / elden dağılımı avans, ödeme-kesinti kalemleri ve ceza kesintisi sonrası sunucudan gelir
+                      const officialRemaining = entry.officialPayment;
+                      const cashRemaining = entry.cashPayment;
                       const isPaid = officialRemaining === 0 && cashRemaining === 0;
 
                       const paidRowClass = isPaid ? 'bg-amber-50' : '';
@@ -608,7 +1001,7 @@ export default function PayrollPage() {
                       return (
                       <tr
                         key={entry.id}
-                        draggable
+                        draggable={!isClosed}
                         onDragStart={() => {
                           setDraggingId(entry.id);
                           setDraggingArea(area);
@@ -626,6 +1019,21 @@ export default function PayrollPage() {
                       >
                         <td className="px-2 py-1.5 text-xs font-medium whitespace-normal break-words leading-snug" title={entry.employee.fullName}>
                           {entry.employee.fullName}
+                          <button
+                            type="button"
+                            onClick={() => setDocumentsEntry(entry)}
+                            className="block text-[10px] font-normal text-teal-600 hover:text-teal-800"
+                          >
+                            Belgeler
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleDownloadPayslip(entry)}
+                            disabled={payslipDownloading !== null}
+                            className="block text-[10px] font-normal text-slate-600 hover:text-slate-900 disabled:opacity-50"
+                          >
+                            {payslipDownloading === entry.id ? 'Hazırlanıyor...' : 'Pusula'}
+                          </button>
                         </td>
                         <td className="px-2 py-1.5 text-xs text-center"><span className={entry.employee.isInsured ? 'px-2 py-0.5 text-[11px] rounded-full bg-green-100 text-green-800 font-medium' : 'px-2 py-0.5 text-[11px] rounded-full bg-red-100 text-red-800 font-medium'}>{entry.employee.isInsured ? 'Evet' : 'Hayır'}</span></td>
                         <td className="px-2 py-1.5 text-xs">
@@ -634,9 +1042,9 @@ export default function PayrollPage() {
                         </td>
                         <td className="px-2 py-1.5 text-xs text-right whitespace-nowrap">{formatCurrency(entry.employee.salary)}</td>
                         <td className="px-2 py-1.5 text-xs text-center text-gray-500">{entry.employee.workingDays}</td>
-                        <td className="px-2 py-1.5 bg-blue-50"><EditableCell value={entry.daysWorked} onChange={v => handleCellChange(entry.id, 'daysWorked', v)} min={0} max={31} isInteger disabled={savingId !== null} className="text-center" /></td>
+                        <td className="px-2 py-1.5 bg-blue-50" title={attendanceManaged.has(entry.employeeId) ? 'Devam takviminden hesaplanıyor' : undefined}><EditableCell value={entry.daysWorked} onChange={v => handleCellChange(entry.id, 'daysWorked', v)} min={0} max={31} isInteger disabled={savingId !== null || isLocked || attendanceManaged.has(entry.employeeId)} className="text-center" /></td>
                         {(() => {
-                          const officialDailyRaw = FIXED_OFFICIAL_PAYMENT / OFFICIAL_WORKING_DAYS_BASE;
+                          const officialDailyRaw = entry.officialDailyBase;
                           const officialDaily = entry.employee.isInsured ? Math.min(entry.dailyWage, officialDailyRaw) : 0;
                           const cashDaily = Math.max(0, entry.dailyWage - officialDaily);
                           return (
@@ -651,28 +1059,63 @@ export default function PayrollPage() {
                           );
                         })()}
                         <td className="px-2 py-1.5 text-xs text-right whitespace-nowrap bg-green-50">{formatCurrency(entry.dailyWage)}</td>
-                        <td className="px-2 py-1.5 bg-blue-50"><EditableCell value={entry.advance} onChange={v => handleCellChange(entry.id, 'advance', v)} min={0} disabled={savingId !== null} className="text-right" prefix="₺" /></td>
-                        <td className={`px-2 py-1.5 ${entry.employee.isInsured ? 'bg-blue-50' : 'bg-gray-50'}`}>
-                          <EditableCell
-                            value={entry.employee.isInsured ? entry.officialAdvance : 0}
-                            onChange={v => handleCellChange(entry.id, 'officialAdvance', v)}
-                            min={0}
-                            disabled={!entry.employee.isInsured || savingId !== null}
-                            className={`text-right ${entry.employee.isInsured ? '' : 'text-gray-400'}`}
-                            prefix="₺"
-                          />
+                        {/* Avanslar avans defterinden gelir; hak edişi aşan kısım sonraki aya devreder */}
+                        <td className="px-2 py-1.5 text-xs text-right whitespace-nowrap bg-green-50">
+                          {formatCurrency(entry.advance)}
+                          {entry.cashAdvanceCarryOver > 0 ? (
+                            <div className="text-[10px] text-amber-700">{formatCurrency(entry.cashAdvanceCarryOver)} devreder</div>
+                          ) : null}
+                        </td>
+                        <td className={`px-2 py-1.5 text-xs text-right whitespace-nowrap ${entry.employee.isInsured ? 'bg-green-50' : 'bg-gray-50 text-gray-400'}`}>
+                          {formatCurrency(entry.employee.isInsured ? entry.officialAdvance : 0)}
+                          {entry.officialAdvanceCarryOver > 0 ? (
+                            <div className="text-[10px] text-amber-700">{formatCurrency(entry.officialAdvanceCarryOver)} devreder</div>
+                          ) : null}
                         </td>
                         <td className="px-2 py-1.5 text-xs text-right whitespace-nowrap bg-green-50">{formatCurrency(entry.earnedSalary)}</td>
                         <td className="px-2 py-1.5 text-xs text-right whitespace-nowrap bg-green-50">{formatCurrency(entry.overtime50)}</td>
                         <td className="px-2 py-1.5 text-xs text-right whitespace-nowrap bg-green-50">{formatCurrency(entry.overtime100)}</td>
+                        {componentColumns.map(type => {
+                          const total = sumLineItems(entry, type.id);
+                          return (
+                            <td key={type.id} className={`px-2 py-1.5 text-xs text-right whitespace-nowrap ${type.kind === 'EARNING' ? 'bg-blue-50' : 'bg-red-50'}`}>
+                              <button
+                                type="button"
+                                onClick={() => openLineItems(entry, type.isActive ? type.id : '')}
+                                className={`hover:underline ${total > 0 ? (type.kind === 'EARNING' ? 'text-gray-900' : 'text-red-700') : 'text-gray-400'}`}
+                              >
+                                {total > 0 ? `${type.kind === 'DEDUCTION' ? '-' : ''}${formatCurrency(total)}` : '-'}
+                              </button>
+                            </td>
+                          );
+                        })}
                         {(() => {
                           return (
                             <>
                               <td className={`px-2 py-1.5 text-xs text-right whitespace-nowrap bg-green-50 ${entry.employee.isInsured ? 'text-gray-900' : 'text-gray-400'}`}>
                                 {formatCurrency(officialRemaining)}
                               </td>
-                              <td className="px-2 py-1.5 text-xs text-right whitespace-nowrap bg-green-50">
+                              <td
+                                className="px-2 py-1.5 text-xs text-right whitespace-nowrap bg-green-50"
+                                title={entry.fineDeduction > 0 ? `Ceza kesintisi: ${formatCurrency(entry.fineDeduction)}` : undefined}
+                              >
                                 {formatCurrency(cashRemaining)}
+                                {entry.fineDeduction > 0 ? (
+                                  <div className="text-[10px] text-red-600">-{formatCurrency(entry.fineDeduction)} ceza</div>
+                                ) : null}
+                                {entry.fineDeductionDue > entry.fineDeduction ? (
+                                  <div className="text-[10px] text-amber-700">
+                                    {formatCurrency(entry.fineDeductionDue - entry.fineDeduction)} ceza kesilemedi
+                                  </div>
+                                ) : null}
+                                {entry.loanDeduction > 0 ? (
+                                  <div className="text-[10px] text-red-600">-{formatCurrency(entry.loanDeduction)} borç</div>
+                                ) : null}
+                                {entry.loanInstallmentDue > entry.loanDeduction ? (
+                                  <div className="text-[10px] text-amber-700">
+                                    {formatCurrency(entry.loanInstallmentDue - entry.loanDeduction)} taksit kesilemedi
+                                  </div>
+                                ) : null}
                               </td>
                             </>
                           );
@@ -717,6 +1160,132 @@ export default function PayrollPage() {
           </div>
         </>
       )}
+
+      {lineItemsEntry && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-lg mx-4 max-h-[90vh] flex flex-col">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">Ödeme / Kesinti Kalemleri</h2>
+                <p className="text-sm text-gray-500">
+                  {lineItemsEntry.employee.fullName} - {MONTH_NAMES[lineItemsEntry.month]} {lineItemsEntry.year}
+                </p>
+              </div>
+              <button onClick={() => setLineItemsEntry(null)} className="text-gray-400 hover:text-gray-600 text-xl leading-none">
+                ×
+              </button>
+            </div>
+            <div className="p-6 overflow-y-auto space-y-4">
+              {lineItemsEntry.lineItems.length === 0 ? (
+                <p className="text-sm text-gray-500">Bu satırda kalem yok.</p>
+              ) : (
+                <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                  {lineItemsEntry.lineItems.map(item => (
+                    <li key={item.id} className="px-3 py-2 flex items-center justify-between gap-3 text-sm">
+                      <div>
+                        <div className="font-medium text-gray-900">
+                          {item.name}
+                          <span className="ml-2 text-xs font-normal text-gray-500">{PAY_COMPONENT_CHANNEL_LABELS[item.channel]}</span>
+                        </div>
+                        {item.description && <div className="text-xs text-gray-500">{item.description}</div>}
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <span className={item.kind === 'EARNING' ? 'text-green-700' : 'text-red-700'}>
+                          {item.kind === 'DEDUCTION' ? '-' : ''}{formatCurrency(item.amount)}
+                        </span>
+                        {!isLocked && (
+                          <button
+                            type="button"
+                            onClick={() => handleDeleteLineItem(item)}
+                            disabled={isLineItemSaving}
+                            className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                          >
+                            Sil
+                          </button>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {!isLocked && (
+                <form onSubmit={handleAddLineItem} className="space-y-3 border-t border-gray-200 pt-4">
+                  <div className="grid grid-cols-2 gap-3">
+                    <select
+                      aria-label="Tür"
+                      value={lineItemForm.componentTypeId}
+                      onChange={e => setLineItemForm({ ...lineItemForm, componentTypeId: e.target.value })}
+                      className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                      disabled={isLineItemSaving}
+                    >
+                      <option value="">Tür seçin</option>
+                      {componentTypes.filter(t => t.isActive).map(t => (
+                        <option key={t.id} value={t.id}>{t.name}</option>
+                      ))}
+                    </select>
+                    <input
+                      aria-label="Tutar"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="Tutar"
+                      value={lineItemForm.amount}
+                      onChange={e => setLineItemForm({ ...lineItemForm, amount: e.target.value })}
+                      className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                      disabled={isLineItemSaving}
+                    />
+                  </div>
+                  <input
+                    aria-label="Açıklama"
+                    type="text"
+                    maxLength={255}
+                    placeholder="Açıklama (isteğe bağlı)"
+                    value={lineItemForm.description}
+                    onChange={e => setLineItemForm({ ...lineItemForm, description: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    disabled={isLineItemSaving}
+                  />
+                  <div className="flex justify-end">
+                    <button
+                      type="submit"
+                      disabled={isLineItemSaving}
+                      className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-md disabled:opacity-50"
+                    >
+                      {isLineItemSaving ? 'Kaydediliyor...' : 'Kalem Ekle'}
+                    </button>
+                  </div>
+                </form>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {documentsEntry && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-lg mx-4 max-h-[90vh] flex flex-col">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">Puantaj Belgeleri</h2>
+                <p className="text-sm text-gray-500">
+                  {documentsEntry.employee.fullName} - {MONTH_NAMES[documentsEntry.month]} {documentsEntry.year}
+                </p>
+              </div>
+              <button onClick={() => setDocumentsEntry(null)} className="text-gray-400 hover:text-gray-600 text-xl leading-none">
+                ×
+              </button>
+            </div>
+            <div className="p-6 overflow-y-auto">
+              <AttachmentList owner={{ payrollEntryId: documentsEntry.id }} title="İmzalı bordro, dekont vb." />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {isBankExportOpen && (
+        <BankExportModal month={selectedMonth} year={selectedYear} onClose={() => setIsBankExportOpen(false)} />
+      )}
     </div>
   );
 }
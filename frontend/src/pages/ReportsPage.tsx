@@ -0,0 +1,689 @@
+import { useEffect, useState } from 'react';
+import { formatCurrency, getCurrentPeriod, MONTH_NAMES } from '../api/payroll';
+import {
+  getEmployerCostReport,
+  EmployerCostReport,
+  EmployerCostTotals,
+  getCashEnvelopeReport,
+  CashEnvelopeReport,
+  DenominationCount,
+  formatDenomination,
+} from '../api/report';
+import { isApiError, WORK_AREA_LABELS, WorkArea } from '../api/employee';
+import { useToast } from '../context/ToastContext';
+import type { Row } from 'exceljs';
+
+type ReportType = 'EMPLOYER_COST' | 'CASH_ENVELOPE';
+
+const REPORT_TITLES: Record<ReportType, string> = {
+  EMPLOYER_COST: 'İşveren Maliyeti Raporu',
+  CASH_ENVELOPE: 'Nakit Ödeme Zarf Listesi',
+};
+
+function formatChangeRate(rate: number | null): string {
+  if (rate === null) return '-';
+  const percent = (rate * 100).toFixed(1);
+  return `${rate > 0 ? '+' : ''}${percent}%`;
+}
+
+function changeClass(change: number): string {
+  if (change > 0) return 'text-red-600';
+  if (change < 0) return 'text-emerald-600';
+  return 'text-gray-500';
+}
+
+async function saveExcelFile(buffer: unknown, filename: string) {
+  const binary = buffer instanceof ArrayBuffer ? buffer : (buffer as ArrayBuffer);
+
+  const pickerWindow = window as Window & {
+    showSaveFilePicker?: (options: {
+      suggestedName: string;
+      types: Array<{ description: string; accept: Record<string, string[]> }>;
+    }) => Promise<{
+      createWritable: () => Promise<{
+        write: (data: BlobPart) => Promise<void>;
+        close: () => Promise<void>;
+      }>;
+    }>;
+  };
+
+  if (pickerWindow.showSaveFilePicker) {
+    const handle = await pickerWindow.showSaveFilePicker({
+      suggestedName: filename,
+      types: [
+        {
+          description: 'Excel File',
+          accept: { 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'] },
+        },
+      ],
+    });
+    const writable = await handle.createWritable();
+    await writable.write(binary);
+    await writable.close();
+  } else {
+    const blob = new Blob([binary], {
+      type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    setTimeout(() => {
+      link.remove();
+    }, 1500);
+    setTimeout(() => {
+      URL.revokeObjectURL(url);
+    }, 60000);
+  }
+}
+
+function formatDenominationList(denominations: DenominationCount[]): string {
+  return denominations.map((d) => `${d.count} × ${formatDenomination(d.value)}`).join(', ');
+}
+
+function cashEnvelopeTitle(report: CashEnvelopeReport): string {
+  const area = report.workArea ? ` - ${WORK_AREA_LABELS[report.workArea]}` : '';
+  return `Nakit Ödeme Zarf Listesi - ${MONTH_NAMES[report.month]} ${report.year}${area}`;
+}
+
+/**
+ * Yazdırılabilir zarf listesi; tarayıcının yazdır penceresinden PDF olarak da kaydedilebilir
+ */
+function printCashEnvelopeReport(report: CashEnvelopeReport) {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return;
+
+  const escape = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const envelopeRows = report.envelopes
+    .map(
+      (envelope, index) => `<tr>
+        <td class="center">${index + 1}</td>
+        <td>${escape(envelope.fullName)}</td>
+        <td>${escape(WORK_AREA_LABELS[envelope.workArea] ?? envelope.workArea)}</td>
+        <td class="right">${escape(formatCurrency(envelope.amount))}</td>
+        <td class="small">${escape(formatDenominationList(envelope.denominations))}</td>
+        <td class="signature"></td>
+      </tr>`
+    )
+    .join('');
+  const denominationRows = report.denominations
+    .map(
+      (d) => `<tr>
+        <td>${escape(formatDenomination(d.value))}</td>
+        <td>${d.kind === 'BANKNOTE' ? 'Banknot' : 'Madeni'}</td>
+        <td class="right">${d.count}</td>
+        <td class="right">${escape(formatCurrency(d.total))}</td>
+      </tr>`
+    )
+    .join('');
+
+  printWindow.document.write(`<!DOCTYPE html>
+<html lang="tr">
+<head>
+<meta charset="utf-8" />
+<title>${escape(cashEnvelopeTitle(report))}</title>
+<style>
+  body { font-family: Arial, sans-serif; margin: 32px; color: #0f172a; }
+  h1 { font-size: 18px; margin-bottom: 4px; }
+  h2 { font-size: 14px; margin: 24px 0 8px; }
+  p { margin: 0 0 16px; color: #475569; font-size: 13px; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; }
+  th, td { border: 1px solid #cbd5e1; padding: 6px 8px; }
+  th { background: #f1f5f9; text-align: left; }
+  tr { page-break-inside: avoid; }
+  .right { text-align: right; }
+  .center { text-align: center; }
+  .small { font-size: 11px; color: #334155; }
+  .signature { width: 22%; height: 34px; }
+  .draft { color: #b91c1c; font-weight: bold; }
+  .summary { width: 50%; }
+  .signatures { display: flex; justify-content: space-between; margin-top: 48px; font-size: 13px; }
+</style>
+</head>
+<body>
+  <h1>${escape(cashEnvelopeTitle(report))}</h1>
+  <p>${report.totals.employeeCount} zarf — Toplam ${escape(formatCurrency(report.totals.amount))}${
+    report.isClosed ? '' : ' — <span class="draft">TASLAK: dönem kapatılmadı, tutarlar değişebilir</span>'
+  }</p>
+  <table>
+    <thead>
+      <tr><th class="center">Sıra</th><th>Ad Soyad</th><th>Çalışma Alanı</th><th class="right">Tutar</th><th>Küpürler</th><th>İmza</th></tr>
+    </thead>
+    <tbody>${envelopeRows}</tbody>
+  </table>
+  <h2>Küpür Dağılımı</h2>
+  <table class="summary">
+    <thead><tr><th>Küpür</th><th>Tür</th><th class="right">Adet</th><th class="right">Tutar</th></tr></thead>
+    <tbody>${denominationRows}</tbody>
+    <tfoot><tr><th colspan="3">Toplam</th><th class="right">${escape(formatCurrency(report.totals.amount))}</th></tr></tfoot>
+  </table>
+  <div class="signatures"><span>Hazırlayan</span><span>Teslim Eden</span><span>Onaylayan</span></div>
+</body>
+</html>`);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+}
+
+async function exportCashEnvelopeExcel(report: CashEnvelopeReport) {
+  const ExcelJS = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  const moneyFormat = '#,##0.00';
+  const styleHeader = (row: Row) => {
+    row.eachCell((cell) => {
+      cell.font = { bold: true, color: { argb: 'FF334155' } };
+      cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFE2E8F0' } };
+      cell.border = {
+        top: { style: 'thin' },
+        left: { style: 'thin' },
+        bottom: { style: 'thin' },
+        right: { style: 'thin' },
+      };
+    });
+  };
+
+  const envelopeSheet = workbook.addWorksheet('Zarf Listesi');
+  envelopeSheet.columns = [{ width: 6 }, { width: 28 }, { width: 16 }, { width: 14 }, { width: 48 }, { width: 22 }];
+  const titleRow = envelopeSheet.addRow([cashEnvelopeTitle(report)]);
+  envelopeSheet.mergeCells(`A${titleRow.number}:F${titleRow.number}`);
+  titleRow.getCell(1).font = { bold: true, size: 14 };
+  if (!report.isClosed) {
+    envelopeSheet.addRow(['TASLAK: dönem kapatılmadı, tutarlar değişebilir']).getCell(1).font = {
+      bold: true,
+      color: { argb: 'FFB91C1C' },
+    };
+  }
+  envelopeSheet.addRow([]);
+  styleHeader(envelopeSheet.addRow(['Sıra', 'Ad Soyad', 'Çalışma Alanı', 'Tutar', 'Küpürler', 'İmza']));
+  report.envelopes.forEach((envelope, index) => {
+    const row = envelopeSheet.addRow([
+      index + 1,
+      envelope.fullName,
+      WORK_AREA_LABELS[envelope.workArea] ?? envelope.workArea,
+      envelope.amount,
+      formatDenominationList(envelope.denominations),
+      '',
+    ]);
+    row.height = 28;
+    row.getCell(4).numFmt = moneyFormat;
+    row.getCell(6).border = { bottom: { style: 'thin' } };
+  });
+  const totalRow = envelopeSheet.addRow(['', 'Toplam', '', report.totals.amount]);
+  totalRow.getCell(4).numFmt = moneyFormat;
+  totalRow.eachCell((cell) => (cell.font = { bold: true }));
+
+  const denominationSheet = workbook.addWorksheet('Küpür Dağılımı');
+  denominationSheet.columns = [{ width: 12 }, { width: 12 }, { width: 10 }, { width: 16 }];
+  styleHeader(denominationSheet.addRow(['Küpür', 'Tür', 'Adet', 'Tutar']));
+  report.denominations.forEach((d) => {
+    const row = denominationSheet.addRow([
+      formatDenomination(d.value),
+      d.kind === 'BANKNOTE' ? 'Banknot' : 'Madeni',
+      d.count,
+      d.total,
+    ]);
+    row.getCell(4).numFmt = moneyFormat;
+  });
+  const denominationTotal = denominationSheet.addRow(['Toplam', '', '', report.totals.amount]);
+  denominationTotal.getCell(4).numFmt = moneyFormat;
+  denominationTotal.eachCell((cell) => (cell.font = { bold: true }));
+
+  const areaPart = report.workArea ? `_${report.workArea.toLowerCase()}` : '';
+  const filename = `nakit_zarf_${report.year}_${String(report.month).padStart(2, '0')}${areaPart}.xlsx`;
+  await saveExcelFile(await workbook.xlsx.writeBuffer(), filename);
+}
+
+function CashEnvelopeReportView({ report }: { report: CashEnvelopeReport }) {
+  return (
+    <>
+      {!report.isClosed && (
+        <div className="px-4 py-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800">
+          Dönem henüz kapatılmadı; zarf tutarları puantaj değiştikçe güncellenir.
+        </div>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3 text-sm">
+        <div className="px-4 py-3 rounded-lg bg-white shadow">
+          <div className="text-slate-600">Zarf Sayısı</div>
+          <div className="text-lg font-bold text-slate-900">{report.totals.employeeCount}</div>
+        </div>
+        <div className="px-4 py-3 rounded-lg bg-white shadow">
+          <div className="text-slate-600">Toplam Nakit</div>
+          <div className="text-lg font-bold text-slate-900">{formatCurrency(report.totals.amount)}</div>
+        </div>
+        <div className="px-4 py-3 rounded-lg bg-white shadow">
+          <div className="text-slate-600">Banknot</div>
+          <div className="text-lg font-semibold text-slate-900">{report.totals.banknoteCount} adet</div>
+        </div>
+        <div className="px-4 py-3 rounded-lg bg-white shadow">
+          <div className="text-slate-600">Madeni Para</div>
+          <div className="text-lg font-semibold text-slate-900">{report.totals.coinCount} adet</div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 bg-white shadow rounded-lg overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Ad Soyad</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Çalışma Alanı</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Tutar</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Küpürler</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {report.envelopes.map((envelope) => (
+                  <tr key={envelope.employeeId}>
+                    <td className="px-4 py-3 text-sm text-gray-900">
+                      {envelope.fullName}
+                      {envelope.isInsured && <span className="ml-2 text-xs text-gray-500">(sigortalı)</span>}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{WORK_AREA_LABELS[envelope.workArea] ?? envelope.workArea}</td>
+                    <td className="px-4 py-3 text-sm text-right font-medium text-gray-900">{formatCurrency(envelope.amount)}</td>
+                    <td className="px-4 py-3 text-xs text-gray-600">{formatDenominationList(envelope.denominations)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="bg-white shadow rounded-lg overflow-hidden self-start">
+          <div className="px-4 py-3 border-b border-gray-200 text-sm font-semibold text-gray-900">Küpür Dağılımı</div>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Küpür</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Adet</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Tutar</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {report.denominations.map((d) => (
+                <tr key={d.value}>
+                  <td className="px-4 py-2 text-sm text-gray-900">
+                    {formatDenomination(d.value)}
+                    <span className="ml-2 text-xs text-gray-500">{d.kind === 'BANKNOTE' ? 'banknot' : 'madeni'}</span>
+                  </td>
+                  <td className="px-4 py-2 text-sm text-right text-gray-700">{d.count}</td>
+                  <td className="px-4 py-2 text-sm text-right text-gray-900">{formatCurrency(d.total)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="bg-gray-50">
+              <tr className="font-semibold">
+                <td className="px-4 py-2 text-sm text-gray-900" colSpan={2}>Toplam</td>
+                <td className="px-4 py-2 text-sm text-right text-gray-900">{formatCurrency(report.totals.amount)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        Küpür dağılımı her zarfın tam tutarla doldurulması için zarf bazında hesaplanır; sigortasız çalışanların
+        tamamı ve sigortalı çalışanların elden ödenen kısmı listelenir.
+      </p>
+    </>
+  );
+}
+
+export default function ReportsPage() {
+  const { showToast } = useToast();
+  const { month: currentMonth, year: currentYear } = getCurrentPeriod();
+
+  const [selectedMonth, setSelectedMonth] = useState(currentMonth);
+  const [selectedYear, setSelectedYear] = useState(currentYear);
+  const [reportType, setReportType] = useState<ReportType>('EMPLOYER_COST');
+  const [report, setReport] = useState<EmployerCostReport | null>(null);
+  const [cashWorkArea, setCashWorkArea] = useState<WorkArea | ''>('');
+  const [cashReport, setCashReport] = useState<CashEnvelopeReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const yearOptions = Array.from({ length: 7 }, (_, i) => currentYear - 5 + i);
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      setIsLoading(true);
+      try {
+        if (reportType === 'CASH_ENVELOPE') {
+          setCashReport(await getCashEnvelopeReport(selectedMonth, selectedYear, cashWorkArea || undefined));
+        } else {
+          setReport(await getEmployerCostReport(selectedMonth, selectedYear));
+        }
+      } catch (err) {
+        const message = isApiError(err) ? err.message : 'Rapor yüklenemedi';
+        showToast(message, 'error');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchReport();
+  }, [reportType, selectedMonth, selectedYear, cashWorkArea, showToast]);
+
+  const handleExportCashExcel = async () => {
+    if (!cashReport) return;
+    try {
+      await exportCashEnvelopeExcel(cashReport);
+      showToast('Excel indirildi', 'success');
+    } catch {
+      showToast('Excel oluşturulamadı', 'error');
+    }
+  };
+
+  const handleExportExcel = async () => {
+    if (!report) return;
+    try {
+      const ExcelJS = await import('exceljs');
+      const workbook = new ExcelJS.Workbook();
+      const worksheet = workbook.addWorksheet('İşveren Maliyeti');
+      const moneyFormat = '#,##0.00';
+
+      worksheet.columns = [
+        { width: 20 },
+        { width: 8 },
+        { width: 16 },
+        { width: 14 },
+        { width: 14 },
+        { width: 16 },
+        { width: 16 },
+        { width: 18 },
+        { width: 18 },
+        { width: 16 },
+        { width: 10 },
+      ];
+
+      const period = `${MONTH_NAMES[report.month]} ${report.year}`;
+      const previousPeriod = `${MONTH_NAMES[report.previousMonth]} ${report.previousYear}`;
+      const titleRow = worksheet.addRow([`İşveren Maliyeti Raporu - ${period}`]);
+      worksheet.mergeCells(`A${titleRow.number}:K${titleRow.number}`);
+      titleRow.getCell(1).font = { bold: true, size: 14 };
+      worksheet.addRow([`Karşılaştırma: ${previousPeriod}`]);
+      worksheet.addRow([]);
+
+      const headerRow = worksheet.addRow([
+        'Çalışma Alanı',
+        'Kişi',
+        'Hak Edilen Maaş',
+        'Mesai',
+        'Ek Kazanç',
+        'İşveren SGK',
+        'İşveren İşsizlik',
+        'Toplam Maliyet',
+        'Önceki Ay',
+        'Fark',
+        'Değişim',
+      ]);
+      headerRow.eachCell((cell) => {
+        cell.font = { bold: true, color: { argb: 'FF334155' } };
+        cell.alignment = { horizontal: 'center', vertical: 'middle' };
+        cell.fill = {
+          type: 'pattern',
+          pattern: 'solid',
+          fgColor: { argb: 'FFE2E8F0' },
+        };
+        cell.border = {
+          top: { style: 'thin' },
+          left: { style: 'thin' },
+          bottom: { style: 'thin' },
+          right: { style: 'thin' },
+        };
+      });
+
+      const addReportRow = (
+        label: string,
+        current: EmployerCostTotals,
+        previous: EmployerCostTotals,
+        change: number,
+        changeRate: number | null
+      ) => {
+        const row = worksheet.addRow([
+          label,
+          current.employeeCount,
+          current.earnedSalary,
+          current.overtime,
+          current.componentEarnings,
+          current.sgkEmployer,
+          current.unemploymentEmployer,
+          current.totalCost,
+          previous.totalCost,
+          change,
+          changeRate,
+        ]);
+        for (const col of [3, 4, 5, 6, 7, 8, 9, 10]) {
+          row.getCell(col).numFmt = moneyFormat;
+        }
+        row.getCell(11).numFmt = '0.0%';
+        return row;
+      };
+
+      report.areas.forEach((area) => {
+        addReportRow(
+          WORK_AREA_LABELS[area.workArea] ?? area.workArea,
+          area.current,
+          area.previous,
+          area.change,
+          area.changeRate
+        );
+      });
+
+      const totalRow = addReportRow(
+        'Genel Toplam',
+        report.totals.current,
+        report.totals.previous,
+        report.totals.change,
+        report.totals.changeRate
+      );
+      totalRow.eachCell((cell) => (cell.font = { bold: true }));
+
+      const filename = `isveren_maliyeti_${report.year}_${String(report.month).padStart(2, '0')}.xlsx`;
+      const buffer = await workbook.xlsx.writeBuffer();
+      await saveExcelFile(buffer, filename);
+      showToast('Excel indirildi', 'success');
+    } catch {
+      showToast('Excel oluşturulamadı', 'error');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg px-6 py-4 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <h1 className="text-xl font-semibold text-gray-900">{REPORT_TITLES[reportType]}</h1>
+          <select
+            aria-label="Rapor seçimi"
+            value={reportType}
+            onChange={(e) => setReportType(e.target.value as ReportType)}
+            className="px-3 py-2 border rounded-md text-sm"
+          >
+            {Object.entries(REPORT_TITLES).map(([v, l]) => (
+              <option key={v} value={v}>
+                {l}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-gray-600">Dönem:</span>
+          <select
+            aria-label="Ay seçimi"
+            value={selectedMonth}
+            onChange={(e) => setSelectedMonth(parseInt(e.target.value))}
+            className="px-3 py-2 border rounded-md text-sm"
+          >
+            {Object.entries(MONTH_NAMES).map(([v, l]) => (
+              <option key={v} value={v}>
+                {l}
+              </option>
+            ))}
+          </select>
+          <select
+            aria-label="Yıl seçimi"
+            value={selectedYear}
+            onChange={(e) => setSelectedYear(parseInt(e.target.value))}
+            className="px-3 py-2 border rounded-md text-sm"
+          >
+            {yearOptions.map((y) => (
+              <option key={y} value={y}>
+                {y}
+              </option>
+            ))}
+          </select>
+          {reportType === 'CASH_ENVELOPE' ? (
+            <>
+              <select
+                aria-label="Çalışma alanı"
+                value={cashWorkArea}
+                onChange={(e) => setCashWorkArea(e.target.value as WorkArea | '')}
+                className="px-3 py-2 border rounded-md text-sm"
+              >
+                <option value="">Tüm alanlar</option>
+                {Object.entries(WORK_AREA_LABELS).map(([v, l]) => (
+                  <option key={v} value={v}>
+                    {l}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => cashReport && printCashEnvelopeReport(cashReport)}
+                disabled={!cashReport || cashReport.envelopes.length === 0 || isLoading}
+                className="px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50"
+              >
+                Yazdır / PDF
+              </button>
+              <button
+                type="button"
+                onClick={handleExportCashExcel}
+                disabled={!cashReport || cashReport.envelopes.length === 0 || isLoading}
+                className="px-3 py-2 text-sm font-medium text-white bg-emerald-600 rounded-md hover:bg-emerald-700 disabled:opacity-50"
+              >
+                Excel'e İndir
+              </button>
+            </>
+          ) : (
+            <button
+              type="button"
+              onClick={handleExportExcel}
+              disabled={!report || isLoading}
+              className="px-3 py-2 text-sm font-medium text-white bg-emerald-600 rounded-md hover:bg-emerald-700 disabled:opacity-50"
+            >
+              Excel'e İndir
+            </button>
+          )}
+        </div>
+      </div>
+
+      {reportType === 'CASH_ENVELOPE' ? (
+        isLoading ? (
+          <div className="bg-white shadow rounded-lg p-6 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto" />
+          </div>
+        ) : !cashReport || cashReport.envelopes.length === 0 ? (
+          <div className="bg-white shadow rounded-lg p-10 text-center text-gray-500">
+            Bu dönem için elden ödenecek tutar yok.
+          </div>
+        ) : (
+          <CashEnvelopeReportView report={cashReport} />
+        )
+      ) : isLoading ? (
+        <div className="bg-white shadow rounded-lg p-6 text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto" />
+        </div>
+      ) : !report || report.areas.length === 0 ? (
+        <div className="bg-white shadow rounded-lg p-10 text-center text-gray-500">
+          Bu dönem için puantaj kaydı yok.
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3 text-sm">
+            <div className="px-4 py-3 rounded-lg bg-white shadow">
+              <div className="text-slate-600">Toplam Maliyet</div>
+              <div className="text-lg font-bold text-slate-900">{formatCurrency(report.totals.current.totalCost)}</div>
+            </div>
+            <div className="px-4 py-3 rounded-lg bg-white shadow">
+              <div className="text-slate-600">
+                Önceki Ay ({MONTH_NAMES[report.previousMonth]} {report.previousYear})
+              </div>
+              <div className="text-lg font-semibold text-slate-900">{formatCurrency(report.totals.previous.totalCost)}</div>
+            </div>
+            <div className="px-4 py-3 rounded-lg bg-white shadow">
+              <div className="text-slate-600">Fark</div>
+              <div className={`text-lg font-semibold ${changeClass(report.totals.change)}`}>
+                {formatCurrency(report.totals.change)}
+              </div>
+            </div>
+            <div className="px-4 py-3 rounded-lg bg-white shadow">
+              <div className="text-slate-600">Değişim</div>
+              <div className={`text-lg font-semibold ${changeClass(report.totals.change)}`}>
+                {formatChangeRate(report.totals.changeRate)}
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white shadow rounded-lg overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Çalışma Alanı</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Kişi</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Hak Edilen Maaş</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Mesai</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Ek Kazanç</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">İşveren SGK</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">İşveren İşsizlik</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Toplam Maliyet</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Önceki Ay</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Fark</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Değişim</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {report.areas.map((area) => (
+                    <tr key={area.workArea}>
+                      <td className="px-4 py-3 text-sm text-gray-900">{WORK_AREA_LABELS[area.workArea] ?? area.workArea}</td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-700">{area.current.employeeCount}</td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-700">{formatCurrency(area.current.earnedSalary)}</td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-700">{formatCurrency(area.current.overtime)}</td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-700">{formatCurrency(area.current.componentEarnings)}</td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-700">{formatCurrency(area.current.sgkEmployer)}</td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-700">{formatCurrency(area.current.unemploymentEmployer)}</td>
+                      <td className="px-4 py-3 text-sm text-right font-medium text-gray-900">{formatCurrency(area.current.totalCost)}</td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-600">{formatCurrency(area.previous.totalCost)}</td>
+                      <td className={`px-4 py-3 text-sm text-right ${changeClass(area.change)}`}>{formatCurrency(area.change)}</td>
+                      <td className={`px-4 py-3 text-sm text-right ${changeClass(area.change)}`}>{formatChangeRate(area.changeRate)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot className="bg-gray-50">
+                  <tr className="font-semibold">
+                    <td className="px-4 py-3 text-sm text-gray-900">Genel Toplam</td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-900">{report.totals.current.employeeCount}</td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-900">{formatCurrency(report.totals.current.earnedSalary)}</td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-900">{formatCurrency(report.totals.current.overtime)}</td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-900">{formatCurrency(report.totals.current.componentEarnings)}</td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-900">{formatCurrency(report.totals.current.sgkEmployer)}</td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-900">{formatCurrency(report.totals.current.unemploymentEmployer)}</td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-900">{formatCurrency(report.totals.current.totalCost)}</td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-700">{formatCurrency(report.totals.previous.totalCost)}</td>
+                    <td className={`px-4 py-3 text-sm text-right ${changeClass(report.totals.change)}`}>{formatCurrency(report.totals.change)}</td>
+                    <td className={`px-4 py-3 text-sm text-right ${changeClass(report.totals.change)}`}>{formatChangeRate(report.totals.changeRate)}</td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            Toplam maliyet: hak edilen maaş + mesai + ek kazançlar (prim, yemek yardımı vb.) + işveren SGK payı +
+            işveren işsizlik payı. SGK payları yalnızca
+            sigortalı çalışanlar ve vergi parametresi tanımlı yıllar için hesaplanır.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,1694 @@
+import { FormEvent, useEffect, useState } from 'react';
+import { isApiError } from '../api/employee';
+import { formatCurrency, getCurrentPeriod, MONTH_NAMES } from '../api/payroll';
+import {
+  WageParameter,
+  WageParameterInput,
+  createWageParameter,
+  deleteWageParameter,
+  getWageParameters,
+  updateWageParameter,
+} from '../api/wageParameter';
+import {
+  IncomeTaxBracket,
+  TaxParameter,
+  TaxParameterInput,
+  createTaxParameter,
+  deleteTaxParameter,
+  getTaxParameters,
+  updateTaxParameter,
+} from '../api/taxParameter';
+import {
+  HolidayKind,
+  HOLIDAY_KIND_LABELS,
+  PublicHoliday,
+  PublicHolidayInput,
+  addNationalHolidays,
+  createPublicHoliday,
+  deletePublicHoliday,
+  getPublicHolidays,
+  updatePublicHoliday,
+} from '../api/publicHoliday';
+import {
+  PayComponentChannel,
+  PayComponentKind,
+  PayComponentType,
+  PayComponentTypeInput,
+  PAY_COMPONENT_CHANNEL_LABELS,
+  PAY_COMPONENT_KIND_LABELS,
+  createPayComponentType,
+  deletePayComponentType,
+  getPayComponentTypes,
+  updatePayComponentType,
+} from '../api/payComponent';
+import { CompanySettingsInput, getCompanySettings, updateCompanySettings } from '../api/companySettings';
+import { useAuth } from '../context/AuthContext';
+import { useToast } from '../context/ToastContext';
+
+interface WageParameterModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  parameter: WageParameter | null;
+  onSaved: () => Promise<void>;
+}
+
+function WageParameterModal({ isOpen, onClose, parameter, onSaved }: WageParameterModalProps) {
+  const { showToast } = useToast();
+  const { month: currentMonth, year: currentYear } = getCurrentPeriod();
+  const [formData, setFormData] = useState<WageParameterInput>({
+    effectiveYear: currentYear,
+    effectiveMonth: currentMonth,
+    officialPayment: 0,
+    officialWorkingDays: 30,
+    dailyWorkingHours: 8,
+    overtimeWarningHours: 225,
+    overtimeLimitHours: 270,
+    severanceCeiling: null,
+    description: '',
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    if (parameter) {
+      setFormData({
+        effectiveYear: parameter.effectiveYear,
+        effectiveMonth: parameter.effectiveMonth,
+        officialPayment: parameter.officialPayment,
+        officialWorkingDays: parameter.officialWorkingDays,
+        dailyWorkingHours: parameter.dailyWorkingHours,
+        overtimeWarningHours: parameter.overtimeWarningHours,
+        overtimeLimitHours: parameter.overtimeLimitHours,
+        severanceCeiling: parameter.severanceCeiling,
+        description: parameter.description || '',
+      });
+    } else {
+      setFormData({
+        effectiveYear: currentYear,
+        effectiveMonth: currentMonth,
+        officialPayment: 0,
+        officialWorkingDays: 30,
+        dailyWorkingHours: 8,
+        overtimeWarningHours: 225,
+        overtimeLimitHours: 270,
+        severanceCeiling: null,
+        description: '',
+      });
+    }
+  }, [isOpen, parameter, currentMonth, currentYear]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (formData.officialPayment <= 0) {
+      showToast('Resmi ödeme bazı pozitif olmalıdır', 'error');
+      return;
+    }
+    if ((formData.overtimeWarningHours ?? 0) > (formData.overtimeLimitHours ?? 0)) {
+      showToast('Mesai uyarı eşiği yıllık sınırdan büyük olamaz', 'error');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const payload = {
+        ...formData,
+        description: formData.description?.trim() ? formData.description.trim() : null,
+      };
+      if (parameter) {
+        await updateWageParameter(parameter.id, payload);
+        showToast('Parametre güncellendi', 'success');
+      } else {
+        await createWageParameter(payload);
+        showToast('Parametre eklendi', 'success');
+      }
+      await onSaved();
+      onClose();
+    } catch (err) {
+      const msg = isApiError(err) ? err.message : 'Parametre kaydedilemedi';
+      showToast(msg, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">
+            {parameter ? 'Ücret Parametresini Düzenle' : 'Ücret Parametresi Ekle'}
+          </h2>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="wp_month" className="block text-sm font-medium text-gray-700 mb-1">Geçerlilik Ayı</label>
+              <select
+                id="wp_month"
+                value={formData.effectiveMonth}
+                onChange={(e) => setFormData({ ...formData, effectiveMonth: parseInt(e.target.value) })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                disabled={isSaving}
+              >
+                {Object.entries(MONTH_NAMES).map(([v, l]) => (
+                  <option key={v} value={v}>
+                    {l}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="wp_year" className="block text-sm font-medium text-gray-700 mb-1">Geçerlilik Yılı</label>
+              <input
+                id="wp_year"
+                type="number"
+                value={formData.effectiveYear}
+                onChange={(e) => setFormData({ ...formData, effectiveYear: parseInt(e.target.value) || currentYear })}
+                min="2000"
+                max="2100"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="wp_payment" className="block text-sm font-medium text-gray-700 mb-1">Resmi Ödeme (₺)</label>
+              <input
+                id="wp_payment"
+                type="number"
+                value={formData.officialPayment}
+                onChange={(e) => setFormData({ ...formData, officialPayment: parseFloat(e.target.value) || 0 })}
+                min="0"
+                step="0.01"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                disabled={isSaving}
+              />
+            </div>
+            <div>
+              <label htmlFor="wp_days" className="block text-sm font-medium text-gray-700 mb-1">Resmi Gün Sayısı</label>
+              <input
+                id="wp_days"
+                type="number"
+                value={formData.officialWorkingDays}
+                onChange={(e) => setFormData({ ...formData, officialWorkingDays: parseInt(e.target.value) || 30 })}
+                min="1"
+                max="31"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="wp_hours" className="block text-sm font-medium text-gray-700 mb-1">
+                Günlük Çalışma Saati
+              </label>
+              <input
+                id="wp_hours"
+                type="number"
+                value={formData.dailyWorkingHours}
+                onChange={(e) => setFormData({ ...formData, dailyWorkingHours: parseFloat(e.target.value) || 8 })}
+                min="1"
+                max="24"
+                step="0.5"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                disabled={isSaving}
+              />
+              <p className="text-xs text-gray-500 mt-1">Mesai saat ücreti bu saate göre hesaplanır</p>
+            </div>
+            <div>
+              <label htmlFor="wp_severance" className="block text-sm font-medium text-gray-700 mb-1">
+                Kıdem Tazminatı Tavanı (₺)
+              </label>
+              <input
+                id="wp_severance"
+                type="number"
+                value={formData.severanceCeiling ?? ''}
+                onChange={(e) =>
+                  setFormData({ ...formData, severanceCeiling: e.target.value ? parseFloat(e.target.value) || null : null })
+                }
+                min="0"
+                step="0.01"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                disabled={isSaving}
+              />
+              <p className="text-xs text-gray-500 mt-1">Girilmezse bu dönemde kıdem tazminatı hesaplanamaz</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="wp_ot_warning" className="block text-sm font-medium text-gray-700 mb-1">
+                Yıllık Mesai Uyarı Eşiği (saat)
+              </label>
+              <input
+                id="wp_ot_warning"
+                type="number"
+                value={formData.overtimeWarningHours}
+                onChange={(e) => setFormData({ ...formData, overtimeWarningHours: parseFloat(e.target.value) || 0 })}
+                min="0"
+                step="1"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                disabled={isSaving}
+              />
+            </div>
+            <div>
+              <label htmlFor="wp_ot_limit" className="block text-sm font-medium text-gray-700 mb-1">
+                Yıllık Mesai Sınırı (saat)
+              </label>
+              <input
+                id="wp_ot_limit"
+                type="number"
+                value={formData.overtimeLimitHours}
+                onChange={(e) => setFormData({ ...formData, overtimeLimitHours: parseFloat(e.target.value) || 270 })}
+                min="1"
+                step="1"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 -mt-2">Yıllık eşikler için o yılın Aralık ayında geçerli parametre kullanılır</p>
+
+          <div>
+            <label htmlFor="wp_desc" className="block text-sm font-medium text-gray-700 mb-1">Açıklama (opsiyonel)</label>
+            <input
+              id="wp_desc"
+              type="text"
+              value={formData.description || ''}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              disabled={isSaving}
+            />
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+              disabled={isSaving}
+            >
+              İptal
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+              disabled={isSaving}
+            >
+              {isSaving ? 'Kaydediliyor...' : 'Kaydet'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+function WageParametersSection({ isAdmin }: { isAdmin: boolean }) {
+  const { showToast } = useToast();
+  const [parameters, setParameters] = useState<WageParameter[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [modalOpen, setModalOpen] = useState(false);
+  const [editingParameter, setEditingParameter] = useState<WageParameter | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const fetchParameters = async () => {
+    setIsLoading(true);
+    try {
+      const data = await getWageParameters();
+      setParameters(data);
+    } catch (err) {
+      const msg = isApiError(err) ? err.message : 'Ücret parametreleri yüklenemedi';
+      showToast(msg, 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchParameters();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleDelete = async (parameter: WageParameter) => {
+    const label = `${MONTH_NAMES[parameter.effectiveMonth]} ${parameter.effectiveYear}`;
+    const confirmed = window.confirm(`${label} dönemli ücret parametresi silinsin mi?`);
+    if (!confirmed) return;
+
+    setDeletingId(parameter.id);
+    try {
+      await deleteWageParameter(parameter.id);
+      showToast('Parametre silindi', 'success');
+      await fetchParameters();
+    } catch (err) {
+      const msg = isApiError(err) ? err.message : 'Parametre silinemedi';
+      showToast(msg, 'error');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="px-4 sm:px-6 py-4 border-b border-gray-200 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-base font-semibold text-gray-900">Resmi Ücret Parametreleri</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Sigortalı çalışanların resmi ödeme bazı. Her kayıt, geçerlilik ayından bir sonraki kayda kadar uygulanır.
+          </p>
+        </div>
+        {isAdmin ? (
+          <button
+            onClick={() => {
+              setEditingParameter(null);
+              setModalOpen(true);
+            }}
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            Parametre Ekle
+          </button>
+        ) : null}
+      </div>
+
+      {isLoading ? (
+        <div className="p-10 text-center text-gray-600">Yükleniyor...</div>
+      ) : parameters.length === 0 ? (
+        <div className="p-10 text-center text-gray-500">Henüz parametre tanımlı değil.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Geçerlilik</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Resmi Ödeme</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Gün</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Günlük</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Saat/Gün</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Yıllık Mesai</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Kıdem Tavanı</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Açıklama</th>
+                {isAdmin ? (
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">İşlem</th>
+                ) : null}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {parameters.map((parameter) => (
+                <tr key={parameter.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {MONTH_NAMES[parameter.effectiveMonth]} {parameter.effectiveYear}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 text-right">
+                    {formatCurrency(parameter.officialPayment)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 text-right">{parameter.officialWorkingDays}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 text-right">
+                    {formatCurrency(parameter.officialPayment / parameter.officialWorkingDays)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 text-right">{parameter.dailyWorkingHours}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 text-right">
+                    {parameter.overtimeWarningHours} / {parameter.overtimeLimitHours} saat
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 text-right">
+                    {parameter.severanceCeiling !== null ? formatCurrency(parameter.severanceCeiling) : '-'}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{parameter.description || '-'}</td>
+                  {isAdmin ? (
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                      <div className="flex items-center justify-end gap-4">
+                        <button
+                          onClick={() => {
+                            setEditingParameter(parameter);
+                            setModalOpen(true);
+                          }}
+                          className="text-indigo-600 hover:text-indigo-900"
+                        >
+                          Düzenle
+                        </button>
+                        <button
+                          onClick={() => handleDelete(parameter)}
+                          disabled={deletingId === parameter.id}
+                          className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                        >
+                          {deletingId === parameter.id ? 'Siliniyor...' : 'Sil'}
+                        </button>
+                      </div>
+                    </td>
+                  ) : null}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <WageParameterModal
+        isOpen={modalOpen}
+        onClose={() => {
+          setModalOpen(false);
+          setEditingParameter(null);
+        }}
+        parameter={editingParameter}
+        onSaved={fetchParameters}
+      />
+    </div>
+  );
+}
+
+// Oranlar formda yüzde olarak girilir, API'ye kesir olarak gönderilir
+const toPercent = (rate: number) => Math.round(rate * 100 * 10000) / 10000;
+const fromPercent = (percent: number) => percent / 100;
+
+const formatPercent = (rate: number) =>
+  `%${toPercent(rate).toLocaleString('tr-TR', { maximumFractionDigits: 4 })}`;
+
+interface TaxParameterFormData {
+  year: number;
+  minimumWageGross: number;
+  sgkCeiling: number;
+  sgkEmployeePercent: number;
+  unemploymentEmployeePercent: number;
+  sgkEmployerPercent: number;
+  unemploymentEmployerPercent: number;
+  stampTaxPercent: number;
+  brackets: { upTo: string; ratePercent: number }[];
+}
+
+function toTaxFormData(parameter: TaxParameter | null, year: number): TaxParameterFormData {
+  if (!parameter) {
+    return {
+      year,
+      minimumWageGross: 0,
+      sgkCeiling: 0,
+      sgkEmployeePercent: 14,
+      unemploymentEmployeePercent: 1,
+      sgkEmployerPercent: 0,
+      unemploymentEmployerPercent: 2,
+      stampTaxPercent: 0.759,
+      brackets: [{ upTo: '', ratePercent: 0 }],
+    };
+  }
+  return {
+    year: parameter.year,
+    minimumWageGross: parameter.minimumWageGross,
+    sgkCeiling: parameter.sgkCeiling,
+    sgkEmployeePercent: toPercent(parameter.sgkEmployeeRate),
+    unemploymentEmployeePercent: toPercent(parameter.unemploymentEmployeeRate),
+    sgkEmployerPercent: toPercent(parameter.sgkEmployerRate),
+    unemploymentEmployerPercent: toPercent(parameter.unemploymentEmployerRate),
+    stampTaxPercent: toPercent(parameter.stampTaxRate),
+    brackets: parameter.incomeTaxBrackets.map((b) => ({
+      upTo: b.upTo === null ? '' : String(b.upTo),
+      ratePercent: toPercent(b.rate),
+    })),
+  };
+}
+
+interface TaxParameterModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  parameter: TaxParameter | null;
+  onSaved: () => Promise<void>;
+}
+
+function TaxParameterModal({ isOpen, onClose, parameter, onSaved }: TaxParameterModalProps) {
+  const { showToast } = useToast();
+  const { year: currentYear } = getCurrentPeriod();
+  const [formData, setFormData] = useState<TaxParameterFormData>(() => toTaxFormData(null, currentYear));
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setFormData(toTaxFormData(parameter, currentYear));
+  }, [isOpen, parameter, currentYear]);
+
+  const updateBracket = (index: number, patch: Partial<{ upTo: string; ratePercent: number }>) => {
+    setFormData((prev) => ({
+      ...prev,
+      brackets: prev.brackets.map((b, i) => (i === index ? { ...b, ...patch } : b)),
+    }));
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    const brackets: IncomeTaxBracket[] = formData.brackets.map((b, index) => ({
+      upTo: index === formData.brackets.length - 1 || !b.upTo.trim() ? null : parseFloat(b.upTo),
+      rate: fromPercent(b.ratePercent),
+    }));
+    if (brackets.some((b, index) => index < brackets.length - 1 && (b.upTo === null || isNaN(b.upTo)))) {
+      showToast('Son dilim dışındaki tüm dilimlerin üst sınırı girilmelidir', 'error');
+      return;
+    }
+
+    const payload: TaxParameterInput = {
+      year: formData.year,
+      minimumWageGross: formData.minimumWageGross,
+      sgkCeiling: formData.sgkCeiling,
+      sgkEmployeeRate: fromPercent(formData.sgkEmployeePercent),
+      unemploymentEmployeeRate: fromPercent(formData.unemploymentEmployeePercent),
+      sgkEmployerRate: fromPercent(formData.sgkEmployerPercent),
+      unemploymentEmployerRate: fromPercent(formData.unemploymentEmployerPercent),
+      stampTaxRate: fromPercent(formData.stampTaxPercent),
+      incomeTaxBrackets: brackets,
+    };
+
+    setIsSaving(true);
+    try {
+      if (parameter) {
+        await updateTaxParameter(parameter.id, payload);
+        showToast('Vergi parametresi güncellendi', 'success');
+      } else {
+        await createTaxParameter(payload);
+        showToast('Vergi parametresi eklendi', 'success');
+      }
+      await onSaved();
+      onClose();
+    } catch (err) {
+      const msg = isApiError(err) ? err.message : 'Vergi parametresi kaydedilemedi';
+      showToast(msg, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+  const numberField = (
+    id: string,
+    label: string,
+    key: keyof Omit<TaxParameterFormData, 'brackets'>,
+    step: string
+  ) => (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+      <input
+        id={id}
+        type="number"
+        value={formData[key]}
+        onChange={(e) => setFormData({ ...formData, [key]: parseFloat(e.target.value) || 0 })}
+        min="0"
+        step={step}
+        className={inputClass}
+        disabled={isSaving}
+      />
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4 max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">
+            {parameter ? 'Vergi Parametresini Düzenle' : 'Vergi Parametresi Ekle'}
+          </h2>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4 overflow-y-auto">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            {numberField('tp_year', 'Yıl', 'year', '1')}
+            {numberField('tp_minWage', 'Brüt Asgari Ücret (₺)', 'minimumWageGross', '0.01')}
+            {numberField('tp_ceiling', 'SGK Tavanı (₺)', 'sgkCeiling', '0.01')}
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+            {numberField('tp_sgkEmployee', 'SGK İşçi (%)', 'sgkEmployeePercent', '0.01')}
+            {numberField('tp_unempEmployee', 'İşsizlik İşçi (%)', 'unemploymentEmployeePercent', '0.01')}
+            {numberField('tp_stamp', 'Damga Vergisi (%)', 'stampTaxPercent', '0.001')}
+            {numberField('tp_sgkEmployer', 'SGK İşveren (%)', 'sgkEmployerPercent', '0.01')}
+            {numberField('tp_unempEmployer', 'İşsizlik İşveren (%)', 'unemploymentEmployerPercent', '0.01')}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-medium text-gray-700">Gelir Vergisi Dilimleri (kümülatif matrah)</span>
+              <button
+                type="button"
+                onClick={() =>
+                  setFormData((prev) => ({ ...prev, brackets: [...prev.brackets, { upTo: '', ratePercent: 0 }] }))
+                }
+                className="text-sm text-indigo-600 hover:text-indigo-900"
+                disabled={isSaving}
+              >
+                + Dilim Ekle
+              </button>
+            </div>
+            <div className="space-y-2">
+              {formData.brackets.map((bracket, index) => {
+                const isLast = index === formData.brackets.length - 1;
+                return (
+                  <div key={index} className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      aria-label={`Dilim ${index + 1} üst sınırı`}
+                      value={isLast ? '' : bracket.upTo}
+                      onChange={(e) => updateBracket(index, { upTo: e.target.value })}
+                      placeholder={isLast ? 'Üst sınır yok' : 'Üst sınır (₺)'}
+                      min="0"
+                      step="0.01"
+                      className={inputClass}
+                      disabled={isSaving || isLast}
+                    />
+                    <input
+                      type="number"
+                      aria-label={`Dilim ${index + 1} oranı`}
+                      value={bracket.ratePercent}
+                      onChange={(e) => updateBracket(index, { ratePercent: parseFloat(e.target.value) || 0 })}
+                      min="0"
+                      max="100"
+                      step="0.01"
+                      className={`${inputClass} w-28`}
+                      disabled={isSaving}
+                    />
+                    <span className="text-sm text-gray-500">%</span>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setFormData((prev) => ({ ...prev, brackets: prev.brackets.filter((_, i) => i !== index) }))
+                      }
+                      className="text-red-600 hover:text-red-900 text-sm disabled:opacity-50"
+                      disabled={isSaving || formData.brackets.length <= 1}
+                    >
+                      Sil
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+              disabled={isSaving}
+            >
+              İptal
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+              disabled={isSaving}
+            >
+              {isSaving ? 'Kaydediliyor...' : 'Kaydet'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+function TaxParametersSection({ isAdmin }: { isAdmin: boolean }) {
+  const { showToast } = useToast();
+  const [parameters, setParameters] = useState<TaxParameter[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [modalOpen, setModalOpen] = useState(false);
+  const [editingParameter, setEditingParameter] = useState<TaxParameter | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const fetchParameters = async () => {
+    setIsLoading(true);
+    try {
+      const data = await getTaxParameters();
+      setParameters(data);
+    } catch (err) {
+      const msg = isApiError(err) ? err.message : 'Vergi parametreleri yüklenemedi';
+      showToast(msg, 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchParameters();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleDelete = async (parameter: TaxParameter) => {
+    const confirmed = window.confirm(`${parameter.year} yılı vergi parametresi silinsin mi?`);
+    if (!confirmed) return;
+
+    setDeletingId(parameter.id);
+    try {
+      await deleteTaxParameter(parameter.id);
+      showToast('Vergi parametresi silindi', 'success');
+      await fetchParameters();
+    } catch (err) {
+      const msg = isApiError(err) ? err.message : 'Vergi parametresi silinemedi';
+      showToast(msg, 'error');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="px-4 sm:px-6 py-4 border-b border-gray-200 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-base font-semibold text-gray-900">Vergi ve SGK Parametreleri</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Sigortalı çalışanların brütten nete hesabı için yıllık oranlar ve gelir vergisi dilimleri.
+            Parametresi tanımlı olmayan yıllar için vergi dökümü hesaplanmaz.
+          </p>
+        </div>
+        {isAdmin ? (
+          <button
+            onClick={() => {
+              setEditingParameter(null);
+              setModalOpen(true);
+            }}
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            Yıl Ekle
+          </button>
+        ) : null}
+      </div>
+
+      {isLoading ? (
+        <div className="p-10 text-center text-gray-600">Yükleniyor...</div>
+      ) : parameters.length === 0 ? (
+        <div className="p-10 text-center text-gray-500">Henüz vergi parametresi tanımlı değil.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Yıl</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Brüt Asgari</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">SGK Tavanı</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">İşçi / İşveren</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Dilimler</th>
+                {isAdmin ? (
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">İşlem</th>
+                ) : null}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {parameters.map((parameter) => (
+                <tr key={parameter.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{parameter.year}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 text-right">
+                    {formatCurrency(parameter.minimumWageGross)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 text-right">
+                    {formatCurrency(parameter.sgkCeiling)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                    SGK {formatPercent(parameter.sgkEmployeeRate)} / {formatPercent(parameter.sgkEmployerRate)}
+                    <div className="text-xs text-gray-500">
+                      İşsizlik {formatPercent(parameter.unemploymentEmployeeRate)} /{' '}
+                      {formatPercent(parameter.unemploymentEmployerRate)} · Damga {formatPercent(parameter.stampTaxRate)}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 text-xs text-gray-600">
+                    {parameter.incomeTaxBrackets.map((b, i) => (
+                      <div key={i}>
+                        {b.upTo === null ? 'Üzeri' : `${formatCurrency(b.upTo)}'e kadar`}: {formatPercent(b.rate)}
+                      </div>
+                    ))}
+                  </td>
+                  {isAdmin ? (
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                      <div className="flex items-center justify-end gap-4">
+                        <button
+                          onClick={() => {
+                            setEditingParameter(parameter);
+                            setModalOpen(true);
+                          }}
+                          className="text-indigo-600 hover:text-indigo-900"
+                        >
+                          Düzenle
+                        </button>
+                        <button
+                          onClick={() => handleDelete(parameter)}
+                          disabled={deletingId === parameter.id}
+                          className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                        >
+                          {deletingId === parameter.id ? 'Siliniyor...' : 'Sil'}
+                        </button>
+                      </div>
+                    </td>
+                  ) : null}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <TaxParameterModal
+        isOpen={modalOpen}
+        onClose={() => {
+          setModalOpen(false);
+          setEditingParameter(null);
+        }}
+        parameter={editingParameter}
+        onSaved={fetchParameters}
+      />
+    </div>
+  );
+}
+
+interface PublicHolidayModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  holiday: PublicHoliday | null;
+  defaultYear: number;
+  onSaved: () => Promise<void>;
+}
+
+function PublicHolidayModal({ isOpen, onClose, holiday, defaultYear, onSaved }: PublicHolidayModalProps) {
+  const { showToast } = useToast();
+  const [formData, setFormData] = useState<PublicHolidayInput>({
+    date: `${defaultYear}-01-01`,
+    name: '',
+    kind: 'RELIGIOUS',
+    isHalfDay: false,
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    if (holiday) {
+      setFormData({
+        date: holiday.date.split('T')[0],
+        name: holiday.name,
+        kind: holiday.kind,
+        isHalfDay: holiday.isHalfDay,
+      });
+    } else {
+      setFormData({ date: `${defaultYear}-01-01`, name: '', kind: 'RELIGIOUS', isHalfDay: false });
+    }
+  }, [isOpen, holiday, defaultYear]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) {
+      showToast('Tatil adı zorunludur', 'error');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const payload = { ...formData, name: formData.name.trim() };
+      if (holiday) {
+        await updatePublicHoliday(holiday.id, payload);
+        showToast('Tatil güncellendi', 'success');
+      } else {
+        await createPublicHoliday(payload);
+        showToast('Tatil eklendi', 'success');
+      }
+      await onSaved();
+      onClose();
+    } catch (err) {
+      const msg = isApiError(err) ? err.message : 'Tatil kaydedilemedi';
+      showToast(msg, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">{holiday ? 'Tatili Düzenle' : 'Tatil Ekle'}</h2>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="ph_date" className="block text-sm font-medium text-gray-700 mb-1">Tarih</label>
+              <input
+                id="ph_date"
+                type="date"
+                value={formData.date}
+                onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                disabled={isSaving}
+              />
+            </div>
+            <div>
+              <label htmlFor="ph_kind" className="block text-sm font-medium text-gray-700 mb-1">Tür</label>
+              <select
+                id="ph_kind"
+                value={formData.kind}
+                onChange={(e) => setFormData({ ...formData, kind: e.target.value as HolidayKind })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                disabled={isSaving}
+              >
+                {Object.entries(HOLIDAY_KIND_LABELS).map(([v, l]) => (
+                  <option key={v} value={v}>
+                    {l}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="ph_name" className="block text-sm font-medium text-gray-700 mb-1">Tatil Adı</label>
+            <input
+              id="ph_name"
+              type="text"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              maxLength={100}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              disabled={isSaving}
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={formData.isHalfDay}
+              onChange={(e) => setFormData({ ...formData, isHalfDay: e.target.checked })}
+              disabled={isSaving}
+            />
+            Yarım gün (arife)
+          </label>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+              disabled={isSaving}
+            >
+              İptal
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+              disabled={isSaving}
+            >
+              {isSaving ? 'Kaydediliyor...' : 'Kaydet'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+function PublicHolidaysSection({ isAdmin }: { isAdmin: boolean }) {
+  const { showToast } = useToast();
+  const { year: currentYear } = getCurrentPeriod();
+  const [selectedYear, setSelectedYear] = useState(currentYear);
+  const [holidays, setHolidays] = useState<PublicHoliday[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAddingNational, setIsAddingNational] = useState(false);
+  const [modalOpen, setModalOpen] = useState(false);
+  const [editingHoliday, setEditingHoliday] = useState<PublicHoliday | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const yearOptions = Array.from({ length: 7 }, (_, i) => currentYear - 5 + i);
+
+  const fetchHolidays = async () => {
+    setIsLoading(true);
+    try {
+      setHolidays(await getPublicHolidays(selectedYear));
+    } catch (err) {
+      const msg = isApiError(err) ? err.message : 'Tatil takvimi yüklenemedi';
+      showToast(msg, 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchHolidays();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedYear]);
+
+  const handleAddNational = async () => {
+    setIsAddingNational(true);
+    try {
+      setHolidays(await addNationalHolidays(selectedYear));
+      showToast('Ulusal bayramlar eklendi', 'success');
+    } catch (err) {
+      const msg = isApiError(err) ? err.message : 'Ulusal bayramlar eklenemedi';
+      showToast(msg, 'error');
+    } finally {
+      setIsAddingNational(false);
+    }
+  };
+
+  const handleDelete = async (holiday: PublicHoliday) => {
+    const confirmed = window.confirm(`${holiday.name} tatili silinsin mi?`);
+    if (!confirmed) return;
+
+    setDeletingId(holiday.id);
+    try {
+      await deletePublicHoliday(holiday.id);
+      showToast('Tatil silindi', 'success');
+      await fetchHolidays();
+    } catch (err) {
+      const msg = isApiError(err) ? err.message : 'Tatil silinemedi';
+      showToast(msg, 'error');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="px-4 sm:px-6 py-4 border-b border-gray-200 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-base font-semibold text-gray-900">Resmi Tatil Takvimi</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Tatil ve hafta tatili günlerinde girilen mesailer %100 olarak sınıflandırılır. Dini bayramlar her yıl elle
+            girilir; arifelerde öğleden sonrası tatildir.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            aria-label="Yıl seçimi"
+            value={selectedYear}
+            onChange={(e) => setSelectedYear(parseInt(e.target.value))}
+            className="px-3 py-2 border rounded-md text-sm"
+          >
+            {yearOptions.map((y) => (
+              <option key={y} value={y}>
+                {y}
+              </option>
+            ))}
+          </select>
+          {isAdmin ? (
+            <>
+              <button
+                onClick={handleAddNational}
+                disabled={isAddingNational}
+                className="px-4 py-2 text-sm font-medium text-indigo-700 bg-indigo-50 rounded-md hover:bg-indigo-100 disabled:opacity-50 whitespace-nowrap"
+              >
+                Ulusal Bayramları Ekle
+              </button>
+              <button
+                onClick={() => {
+                  setEditingHoliday(null);
+                  setModalOpen(true);
+                }}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 whitespace-nowrap"
+              >
+                Tatil Ekle
+              </button>
+            </>
+          ) : null}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="p-10 text-center text-gray-600">Yükleniyor...</div>
+      ) : holidays.length === 0 ? (
+        <div className="p-10 text-center text-gray-500">Bu yıl için tatil tanımlı değil.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tarih</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tatil</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tür</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Süre</th>
+                {isAdmin ? (
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">İşlem</th>
+                ) : null}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {holidays.map((holiday) => (
+                <tr key={holiday.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {new Date(holiday.date).toLocaleDateString('tr-TR', { timeZone: 'UTC' })}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-700">{holiday.name}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{HOLIDAY_KIND_LABELS[holiday.kind]}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{holiday.isHalfDay ? 'Yarım gün' : 'Tam gün'}</td>
+                  {isAdmin ? (
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                      <div className="flex items-center justify-end gap-4">
+                        <button
+                          onClick={() => {
+                            setEditingHoliday(holiday);
+                            setModalOpen(true);
+                          }}
+                          className="text-indigo-600 hover:text-indigo-900"
+                        >
+                          Düzenle
+                        </button>
+                        <button
+                          onClick={() => handleDelete(holiday)}
+                          disabled={deletingId === holiday.id}
+                          className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                        >
+                          {deletingId === holiday.id ? 'Siliniyor...' : 'Sil'}
+                        </button>
+                      </div>
+                    </td>
+                  ) : null}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <PublicHolidayModal
+        isOpen={modalOpen}
+        onClose={() => {
+          setModalOpen(false);
+          setEditingHoliday(null);
+        }}
+        holiday={editingHoliday}
+        defaultYear={selectedYear}
+        onSaved={fetchHolidays}
+      />
+    </div>
+  );
+}
+
+interface PayComponentTypeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  componentType: PayComponentType | null;
+  onSaved: () => Promise<void>;
+}
+
+const EMPTY_PAY_COMPONENT_FORM: PayComponentTypeInput = {
+  name: '',
+  kind: 'EARNING',
+  channel: 'OFFICIAL',
+  isTaxable: true,
+  isSgkLiable: true,
+  isActive: true,
+  sortOrder: 0,
+};
+
+function PayComponentTypeModal({ isOpen, onClose, componentType, onSaved }: PayComponentTypeModalProps) {
+  const { showToast } = useToast();
+  const [formData, setFormData] = useState<PayComponentTypeInput>(EMPTY_PAY_COMPONENT_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    if (componentType) {
+      setFormData({
+        name: componentType.name,
+        kind: componentType.kind,
+        channel: componentType.channel,
+        isTaxable: componentType.isTaxable,
+        isSgkLiable: componentType.isSgkLiable,
+        isActive: componentType.isActive,
+        sortOrder: componentType.sortOrder,
+      });
+    } else {
+      setFormData(EMPTY_PAY_COMPONENT_FORM);
+    }
+  }, [isOpen, componentType]);
+
+  // Vergi / SGK işaretleri yalnızca resmi ödemelerde geçerli
+  const taxFlagsEnabled = formData.kind === 'EARNING' && formData.channel === 'OFFICIAL';
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) {
+      showToast('Tür adı zorunludur', 'error');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const payload = {
+        ...formData,
+        name: formData.name.trim(),
+        isTaxable: taxFlagsEnabled && formData.isTaxable,
+        isSgkLiable: taxFlagsEnabled && formData.isSgkLiable,
+      };
+      if (componentType) {
+        await updatePayComponentType(componentType.id, payload);
+        showToast('Tür güncellendi', 'success');
+      } else {
+        await createPayComponentType(payload);
+        showToast('Tür eklendi', 'success');
+      }
+      await onSaved();
+      onClose();
+    } catch (err) {
+      const msg = isApiError(err) ? err.message : 'Tür kaydedilemedi';
+      showToast(msg, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">{componentType ? 'Türü Düzenle' : 'Ödeme / Kesinti Türü Ekle'}</h2>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label htmlFor="pc_name" className="block text-sm font-medium text-gray-700 mb-1">Tür Adı</label>
+            <input
+              id="pc_name"
+              type="text"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              maxLength={60}
+              placeholder="Örn. Prim, Yemek Yardımı, Hasar Kesintisi"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              disabled={isSaving}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="pc_kind" className="block text-sm font-medium text-gray-700 mb-1">Yön</label>
+              <select
+                id="pc_kind"
+                value={formData.kind}
+                onChange={(e) => setFormData({ ...formData, kind: e.target.value as PayComponentKind })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                disabled={isSaving}
+              >
+                {Object.entries(PAY_COMPONENT_KIND_LABELS).map(([v, l]) => (
+                  <option key={v} value={v}>
+                    {l}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="pc_channel" className="block text-sm font-medium text-gray-700 mb-1">Taraf</label>
+              <select
+                id="pc_channel"
+                value={formData.channel}
+                onChange={(e) => setFormData({ ...formData, channel: e.target.value as PayComponentChannel })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                disabled={isSaving}
+              >
+                {Object.entries(PAY_COMPONENT_CHANNEL_LABELS).map(([v, l]) => (
+                  <option key={v} value={v}>
+                    {l}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={taxFlagsEnabled && formData.isTaxable}
+                onChange={(e) => setFormData({ ...formData, isTaxable: e.target.checked })}
+                disabled={isSaving || !taxFlagsEnabled}
+              />
+              Gelir ve damga vergisine tabi
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={taxFlagsEnabled && formData.isSgkLiable}
+                onChange={(e) => setFormData({ ...formData, isSgkLiable: e.target.checked })}
+                disabled={isSaving || !taxFlagsEnabled}
+              />
+              SGK primine tabi
+            </label>
+            {!taxFlagsEnabled ? (
+              <p className="text-xs text-gray-500">Vergi ve SGK ayarları yalnızca resmi ödemelerde kullanılır.</p>
+            ) : null}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 items-end">
+            <div>
+              <label htmlFor="pc_sort" className="block text-sm font-medium text-gray-700 mb-1">Sıra</label>
+              <input
+                id="pc_sort"
+                type="number"
+                min="0"
+                step="1"
+                value={formData.sortOrder}
+                onChange={(e) => setFormData({ ...formData, sortOrder: parseInt(e.target.value) || 0 })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                disabled={isSaving}
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700 pb-2">
+              <input
+                type="checkbox"
+                checked={formData.isActive}
+                onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                disabled={isSaving}
+              />
+              Aktif
+            </label>
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+              disabled={isSaving}
+            >
+              İptal
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+              disabled={isSaving}
+            >
+              {isSaving ? 'Kaydediliyor...' : 'Kaydet'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+function PayComponentTypesSection({ isAdmin }: { isAdmin: boolean }) {
+  const { showToast } = useToast();
+  const [componentTypes, setComponentTypes] = useState<PayComponentType[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [modalOpen, setModalOpen] = useState(false);
+  const [editingType, setEditingType] = useState<PayComponentType | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const fetchComponentTypes = async () => {
+    setIsLoading(true);
+    try {
+      setComponentTypes(await getPayComponentTypes());
+    } catch (err) {
+      const msg = isApiError(err) ? err.message : 'Ödeme / kesinti türleri yüklenemedi';
+      showToast(msg, 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchComponentTypes();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleDelete = async (componentType: PayComponentType) => {
+    const confirmed = window.confirm(`${componentType.name} türü silinsin mi?`);
+    if (!confirmed) return;
+
+    setDeletingId(componentType.id);
+    try {
+      await deletePayComponentType(componentType.id);
+      showToast('Tür silindi', 'success');
+      await fetchComponentTypes();
+    } catch (err) {
+      const msg = isApiError(err) ? err.message : 'Tür silinemedi';
+      showToast(msg, 'error');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="px-4 sm:px-6 py-4 border-b border-gray-200 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-base font-semibold text-gray-900">Ödeme / Kesinti Türleri</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Prim, ikramiye, yemek ve yol yardımı gibi ek ödemeler ile hasar gibi kesintiler puantajda ayrı sütun olarak
+            girilir. Resmi ödemelerin vergi ve SGK'ya tabi olup olmadığı burada belirlenir.
+          </p>
+        </div>
+        {isAdmin ? (
+          <button
+            onClick={() => {
+              setEditingType(null);
+              setModalOpen(true);
+            }}
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 whitespace-nowrap"
+          >
+            Tür Ekle
+          </button>
+        ) : null}
+      </div>
+
+      {isLoading ? (
+        <div className="p-10 text-center text-gray-600">Yükleniyor...</div>
+      ) : componentTypes.length === 0 ? (
+        <div className="p-10 text-center text-gray-500">Tanımlı ödeme / kesinti türü yok.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tür</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Yön</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Taraf</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Vergi</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">SGK</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Durum</th>
+                {isAdmin ? (
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">İşlem</th>
+                ) : null}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {componentTypes.map((componentType) => (
+                <tr key={componentType.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 text-sm text-gray-900">{componentType.name}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <span className={componentType.kind === 'EARNING' ? 'text-green-700' : 'text-red-700'}>
+                      {PAY_COMPONENT_KIND_LABELS[componentType.kind]}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                    {PAY_COMPONENT_CHANNEL_LABELS[componentType.channel]}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{componentType.isTaxable ? 'Tabi' : '-'}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">{componentType.isSgkLiable ? 'Tabi' : '-'}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    {componentType.isActive ? (
+                      <span className="text-green-700">Aktif</span>
+                    ) : (
+                      <span className="text-gray-400">Pasif</span>
+                    )}
+                  </td>
+                  {isAdmin ? (
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                      <div className="flex items-center justify-end gap-4">
+                        <button
+                          onClick={() => {
+                            setEditingType(componentType);
+                            setModalOpen(true);
+                          }}
+                          className="text-indigo-600 hover:text-indigo-900"
+                        >
+                          Düzenle
+                        </button>
+                        <button
+                          onClick={() => handleDelete(componentType)}
+                          disabled={deletingId === componentType.id}
+                          className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                        >
+                          {deletingId === componentType.id ? 'Siliniyor...' : 'Sil'}
+                        </button>
+                      </div>
+                    </td>
+                  ) : null}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <PayComponentTypeModal
+        isOpen={modalOpen}
+        onClose={() => {
+          setModalOpen(false);
+          setEditingType(null);
+        }}
+        componentType={editingType}
+        onSaved={fetchComponentTypes}
+      />
+    </div>
+  );
+}
+
+const EMPTY_COMPANY_FORM: CompanySettingsInput = {
+  companyName: '',
+  address: null,
+  phone: null,
+  taxOffice: null,
+  taxNumber: null,
+  sgkRegistryNumber: null,
+  payslipNote: null,
+  payerIban: null,
+};
+
+const COMPANY_TEXT_FIELDS: Array<{ key: Exclude<keyof CompanySettingsInput, 'payslipNote'>; label: string; maxLength: number }> = [
+  { key: 'companyName', label: 'Firma Adı', maxLength: 150 },
+  { key: 'phone', label: 'Telefon', maxLength: 30 },
+  { key: 'address', label: 'Adres', maxLength: 255 },
+  { key: 'taxOffice', label: 'Vergi Dairesi', maxLength: 100 },
+  { key: 'taxNumber', label: 'Vergi No / T.C. Kimlik No', maxLength: 11 },
+  { key: 'sgkRegistryNumber', label: 'SGK İşyeri Sicil No', maxLength: 30 },
+  { key: 'payerIban', label: 'Ödeme Hesabı IBAN (banka dosyası)', maxLength: 40 },
+];
+
+function CompanySettingsSection({ isAdmin }: { isAdmin: boolean }) {
+  const { showToast } = useToast();
+  const [form, setForm] = useState<CompanySettingsInput>(EMPTY_COMPANY_FORM);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    getCompanySettings()
+      .then((settings) => {
+        setForm({
+          companyName: settings.companyName,
+          address: settings.address,
+          phone: settings.phone,
+          taxOffice: settings.taxOffice,
+          taxNumber: settings.taxNumber,
+          sgkRegistryNumber: settings.sgkRegistryNumber,
+          payslipNote: settings.payslipNote,
+          payerIban: settings.payerIban,
+        });
+      })
+      .catch((err) => {
+        const msg = isApiError(err) ? err.message : 'Firma bilgileri yüklenemedi';
+        showToast(msg, 'error');
+      })
+      .finally(() => setIsLoading(false));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!form.companyName.trim()) {
+      showToast('Firma adı zorunludur', 'error');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await updateCompanySettings({ ...form, companyName: form.companyName.trim() });
+      showToast('Firma bilgileri kaydedildi', 'success');
+    } catch (err) {
+      const msg = isApiError(err) ? err.message : 'Firma bilgileri kaydedilemedi';
+      showToast(msg, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="px-4 sm:px-6 py-4 border-b border-gray-200">
+        <h2 className="text-base font-semibold text-gray-900">Firma Bilgileri</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Ücret ödeme pusulalarının başlığında ve altında, ödeme hesabı IBAN'ı banka dosyasında kullanılır.
+        </p>
+      </div>
+      {isLoading ? (
+        <div className="p-6 text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto" />
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="p-4 sm:p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {COMPANY_TEXT_FIELDS.map(({ key, label, maxLength }) => (
+              <div key={key}>
+                <label htmlFor={`company_${key}`} className="block text-sm font-medium text-gray-700 mb-1">
+                  {label}
+                </label>
+                <input
+                  id={`company_${key}`}
+                  type="text"
+                  value={form[key] ?? ''}
+                  maxLength={maxLength}
+                  onChange={(e) => setForm((prev) => ({ ...prev, [key]: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  disabled={!isAdmin || isSaving}
+                />
+              </div>
+            ))}
+          </div>
+          <div>
+            <label htmlFor="company_payslipNote" className="block text-sm font-medium text-gray-700 mb-1">
+              Pusula Notu
+            </label>
+            <textarea
+              id="company_payslipNote"
+              value={form.payslipNote ?? ''}
+              maxLength={500}
+              rows={2}
+              onChange={(e) => setForm((prev) => ({ ...prev, payslipNote: e.target.value }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              placeholder="Örn. Yukarıdaki ücreti eksiksiz aldım."
+              disabled={!isAdmin || isSaving}
+            />
+          </div>
+          {isAdmin ? (
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                disabled={isSaving}
+              >
+                {isSaving ? 'Kaydediliyor...' : 'Kaydet'}
+              </button>
+            </div>
+          ) : null}
+        </form>
+      )}
+    </div>
+  );
+}
+
+export default function SettingsPage() {
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'ADMIN';
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg px-6 py-4">
+        <h1 className="text-xl font-semibold text-gray-900">Ayarlar</h1>
+        {!isAdmin ? (
+          <p className="text-sm text-gray-600 mt-1">Ayarları yalnızca yönetici kullanıcılar değiştirebilir.</p>
+        ) : null}
+      </div>
+
+      <CompanySettingsSection isAdmin={isAdmin} />
+
+      <WageParametersSection isAdmin={isAdmin} />
+
+      <TaxParametersSection isAdmin={isAdmin} />
+
+      <PublicHolidaysSection isAdmin={isAdmin} />
+
+      <PayComponentTypesSection isAdmin={isAdmin} />
+    </div>
+  );
+}
@@ -1,8 +1,42 @@
 import { FormEvent, useEffect, useMemo, useState } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { getAllEmployees, Employee, isApiError } from '../api/employee';
-import { addTrafficFinePayment, createTrafficFine, deleteTrafficFine, getTrafficFines, sumPayments, TrafficFine } from '../api/trafficFine';
+import {
+  addTrafficFinePayment,
+  clearDeductionPlan,
+  createTrafficFine,
+  deleteTrafficFine,
+  deleteTrafficFinePayment,
+  getExpiringDiscounts,
+  getTrafficFines,
+  isPendingDeduction,
+  setDeductionPlan,
+  TRAFFIC_FINE_STATUS_LABELS,
+  TrafficFine,
+  TrafficFineStatus,
+  updateTrafficFine,
+  updateTrafficFinePayment,
+} from '../api/trafficFine';
+import { getCurrentPeriod, MONTH_NAMES } from '../api/payroll';
+import { DRIVER_RESOLUTION_LABELS, DriverResolution, resolveDriver } from '../api/vehicle';
 import { useToast } from '../context/ToastContext';
+import AttachmentList from '../components/AttachmentList';
+
+// İndirim süresinin dolmasına bu kadar gün kalan cezalar ayrıca listelenir
+const EXPIRING_DISCOUNT_DAYS = 5;
+
+const STATUS_BADGE_CLASSES: Record<TrafficFineStatus, string> = {
+  OPEN: 'bg-blue-100 text-blue-800',
+  PAID_DISCOUNTED: 'bg-green-100 text-green-800',
+  PAID: 'bg-green-100 text-green-800',
+  OVERDUE: 'bg-red-100 text-red-800',
+};
+
+function daysUntil(dateString: string): number {
+  const today = new Date();
+  const todayUtc = Date.UTC(today.getFullYear(), today.getMonth(), today.getDate());
+  return Math.round((new Date(dateString).getTime() - todayUtc) / (24 * 60 * 60 * 1000));
+}
 
 interface CreateFineModalProps {
   isOpen: boolean;
@@ -15,7 +49,12 @@ interface CreateFineModalProps {
 function CreateFineModal({ isOpen, onClose, employees, defaultEmployeeId, onSaved }: CreateFineModalProps) {
   const { showToast } = useToast();
   const [employeeId, setEmployeeId] = useState<string>(defaultEmployeeId || '');
+  const [plate, setPlate] = useState('');
+  const [resolution, setResolution] = useState<DriverResolution | null>(null);
+  const [resolveError, setResolveError] = useState<string | null>(null);
   const [fineDate, setFineDate] = useState(() => new Date().toISOString().split('T')[0]);
+  // Boş bırakılırsa ceza tarihinde tebliğ edilmiş sayılır
+  const [notificationDate, setNotificationDate] = useState<string>('');
   const [amount, setAmount] = useState<number>(0);
   const [description, setDescription] = useState<string>('');
   const [isSaving, setIsSaving] = useState(false);
@@ -23,12 +62,41 @@ function CreateFineModal({ isOpen, onClose, employees, defaultEmployeeId, onSave
   useEffect(() => {
     if (isOpen) {
       setEmployeeId(defaultEmployeeId || '');
+      setPlate('');
       setFineDate(new Date().toISOString().split('T')[0]);
+      setNotificationDate('');
       setAmount(0);
       setDescription('');
     }
   }, [isOpen, defaultEmployeeId]);
 
+  // Plaka ve tarih girildikçe zimmet geçmişinden sürücü bulunur
+  useEffect(() => {
+    setResolution(null);
+    setResolveError(null);
+    const normalized = plate.replace(/\s/g, '');
+    if (!isOpen || normalized.length < 5 || !fineDate) return;
+
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      resolveDriver(normalized, fineDate)
+        .then((result) => {
+          if (cancelled) return;
+          setResolution(result);
+          if (result.status === 'ASSIGNED') setEmployeeId(result.candidates[0].id);
+        })
+        .catch((err) => {
+          if (!cancelled) setResolveError(isApiError(err) ? err.message : 'Plaka sorgulanamadı');
+        });
+    }, 400);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [isOpen, plate, fineDate]);
+
+  const driverLocked = resolution?.status === 'ASSIGNED';
+
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
 
@@ -40,12 +108,18 @@ function CreateFineModal({ isOpen, onClose, employees, defaultEmployeeId, onSave
       showToast('Ceza tutarı pozitif olmalıdır', 'error');
       return;
     }
+    if (notificationDate && notificationDate < fineDate) {
+      showToast('Tebliğ tarihi ceza tarihinden önce olamaz', 'error');
+      return;
+    }
 
     setIsSaving(true);
     try {
       await createTrafficFine({
         employeeId,
+        plate: plate.trim() ? plate.trim() : null,
         fineDate,
+        notificationDate: notificationDate || null,
         amount,
         description: description.trim() ? description.trim() : null,
       });
@@ -70,6 +144,30 @@ function CreateFineModal({ isOpen, onClose, employees, defaultEmployeeId, onSave
         </div>
 
         <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label htmlFor="tfc_plate" className="block text-sm font-medium text-gray-700 mb-1">Plaka (opsiyonel)</label>
+            <input
+              id="tfc_plate"
+              type="text"
+              value={plate}
+              onChange={(e) => setPlate(e.target.value.toLocaleUpperCase('tr-TR'))}
+              placeholder="34 ABC 123"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              disabled={isSaving}
+            />
+            {resolveError ? <p className="text-xs text-red-600 mt-1">{resolveError}</p> : null}
+            {resolution ? (
+              <p className={`text-xs mt-1 ${resolution.status === 'ASSIGNED' ? 'text-green-700' : 'text-amber-700'}`}>
+                {resolution.vehicle.model} · {DRIVER_RESOLUTION_LABELS[resolution.status]}
+                {resolution.status === 'ASSIGNED' ? `: ${resolution.candidates[0].fullName}` : null}
+                {resolution.status === 'CONFLICT'
+                  ? `: ${resolution.candidates.map((candidate) => candidate.fullName).join(', ')} — sorumluyu seçin`
+                  : null}
+                {resolution.status === 'UNASSIGNED' ? ' — sorumluyu seçin' : null}
+              </p>
+            ) : null}
+          </div>
+
           <div>
             <label htmlFor="tfc_employee" className="block text-sm font-medium text-gray-700 mb-1">Çalışan</label>
             <select
@@ -77,7 +175,7 @@ function CreateFineModal({ isOpen, onClose, employees, defaultEmployeeId, onSave
               value={employeeId}
               onChange={(e) => setEmployeeId(e.target.value)}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
-              disabled={isSaving}
+              disabled={isSaving || driverLocked}
             >
               <option value="">Seçiniz</option>
               {employees.map((e) => (
@@ -101,20 +199,39 @@ function CreateFineModal({ isOpen, onClose, employees, defaultEmployeeId, onSave
               />
             </div>
             <div>
-              <label htmlFor="tfc_amount" className="block text-sm font-medium text-gray-700 mb-1">Ceza Tutarı (₺)</label>
+              <label htmlFor="tfc_notification" className="block text-sm font-medium text-gray-700 mb-1">Tebliğ Tarihi</label>
               <input
-                id="tfc_amount"
-                type="number"
-                value={amount}
-                onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
-                min="0"
-                step="0.01"
+                id="tfc_notification"
+                type="date"
+                value={notificationDate}
+                min={fineDate}
+                onChange={(e) => setNotificationDate(e.target.value)}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
                 disabled={isSaving}
               />
+              <p className="text-xs text-gray-500 mt-1">Boşsa ceza tarihi kullanılır</p>
             </div>
           </div>
 
+          <div>
+            <label htmlFor="tfc_amount" className="block text-sm font-medium text-gray-700 mb-1">Ceza Tutarı (₺)</label>
+            <input
+              id="tfc_amount"
+              type="number"
+              value={amount}
+              onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+              min="0"
+              step="0.01"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              disabled={isSaving}
+            />
+            {amount > 0 ? (
+              <p className="text-xs text-gray-500 mt-1">
+                15 gün içinde ödenirse: {(Math.round(amount * 75) / 100).toFixed(2)} ₺ (%25 indirimli)
+              </p>
+            ) : null}
+          </div>
+
           <div>
             <label htmlFor="tfc_desc" className="block text-sm font-medium text-gray-700 mb-1">Açıklama (opsiyonel)</label>
             <input
@@ -177,8 +294,7 @@ function PaymentModal({ isOpen, onClose, fine, onSaved }: PaymentModalProps) {
       showToast('Ödeme tutarı pozitif olmalıdır', 'error');
       return;
     }
-    const paid = sumPayments(fine.payments);
-    const remaining = Math.max(0, fine.amount - paid);
+    const remaining = fine.remainingAmount;
     if (remaining <= 0) {
       showToast('Bu ceza zaten tamamen ödenmiş', 'error');
       return;
@@ -204,8 +320,7 @@ function PaymentModal({ isOpen, onClose, fine, onSaved }: PaymentModalProps) {
 
   if (!isOpen || !fine) return null;
 
-  const paid = sumPayments(fine.payments);
-  const remaining = Math.max(0, fine.amount - paid);
+  const remaining = fine.remainingAmount;
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -215,6 +330,21 @@ function PaymentModal({ isOpen, onClose, fine, onSaved }: PaymentModalProps) {
           <p className="text-sm text-gray-600 mt-1">
             {fine.employee.fullName} · Kalan: <span className="font-medium">{remaining.toFixed(2)} ₺</span>
           </p>
+          {fine.discountAvailable ? (
+            <div className="mt-2 flex items-center justify-between rounded-md bg-amber-50 px-3 py-2 text-sm text-amber-800">
+              <span>
+                {new Date(fine.discountDeadline).toLocaleDateString('tr-TR')} tarihine kadar indirimli:{' '}
+                <span className="font-medium">{fine.payableAmount.toFixed(2)} ₺</span>
+              </span>
+              <button
+                type="button"
+                onClick={() => setAmount(fine.payableAmount)}
+                className="text-xs font-medium text-amber-900 underline"
+              >
+                Tutarı Kullan
+              </button>
+            </div>
+          ) : null}
         </div>
 
         <form onSubmit={handleSubmit} className="p-6 space-y-4">
@@ -266,14 +396,529 @@ function PaymentModal({ isOpen, onClose, fine, onSaved }: PaymentModalProps) {
   );
 }
 
+interface EditFineModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  fine: TrafficFine | null;
+  onSaved: () => Promise<void>;
+}
+
+function EditFineModal({ isOpen, onClose, fine, onSaved }: EditFineModalProps) {
+  const { showToast } = useToast();
+  const [fineDate, setFineDate] = useState('');
+  const [notificationDate, setNotificationDate] = useState('');
+  const [amount, setAmount] = useState<number>(0);
+  const [description, setDescription] = useState('');
+  const [editingPaymentId, setEditingPaymentId] = useState<string | null>(null);
+  const [paymentDate, setPaymentDate] = useState('');
+  const [paymentAmount, setPaymentAmount] = useState<number>(0);
+  const [receiptPaymentId, setReceiptPaymentId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen && fine) {
+      setFineDate(fine.fineDate.split('T')[0]);
+      setNotificationDate(fine.notificationDate.split('T')[0]);
+      setAmount(fine.amount);
+      setDescription(fine.description || '');
+      setEditingPaymentId(null);
+    }
+  }, [isOpen, fine]);
+
+  useEffect(() => {
+    if (isOpen) setReceiptPaymentId(null);
+  }, [isOpen]);
+
+  if (!isOpen || !fine) return null;
+
+  // Maaş kesintisinden oluşan ödemeler dönem yeniden açılmadan değiştirilemez
+  const deductionPaymentIds = new Set(fine.deductions.map((line) => line.paymentId).filter(Boolean));
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (amount <= 0) {
+      showToast('Ceza tutarı pozitif olmalıdır', 'error');
+      return;
+    }
+    if (notificationDate < fineDate) {
+      showToast('Tebliğ tarihi ceza tarihinden önce olamaz', 'error');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await updateTrafficFine(fine.id, {
+        fineDate,
+        notificationDate,
+        amount,
+        description: description.trim() ? description.trim() : null,
+      });
+      showToast('Trafik cezası güncellendi', 'success');
+      await onSaved();
+      onClose();
+    } catch (err) {
+      const msg = isApiError(err) ? err.message : 'Trafik cezası güncellenirken hata oluştu';
+      showToast(msg, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const startPaymentEdit = (paymentId: string, date: string, value: number) => {
+    setEditingPaymentId(paymentId);
+    setPaymentDate(date.split('T')[0]);
+    setPaymentAmount(value);
+  };
+
+  const handlePaymentSave = async () => {
+    if (!editingPaymentId) return;
+    if (paymentAmount <= 0) {
+      showToast('Ödeme tutarı pozitif olmalıdır', 'error');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await updateTrafficFinePayment(fine.id, editingPaymentId, { paymentDate, amount: paymentAmount });
+      showToast('Ödeme güncellendi', 'success');
+      setEditingPaymentId(null);
+      await onSaved();
+    } catch (err) {
+      const msg = isApiError(err) ? err.message : 'Ödeme güncellenirken hata oluştu';
+      showToast(msg, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePaymentDelete = async (paymentId: string) => {
+    const confirmed = window.confirm('Bu ödeme silinsin mi?');
+    if (!confirmed) return;
+
+    setIsSaving(true);
+    try {
+      await deleteTrafficFinePayment(fine.id, paymentId);
+      showToast('Ödeme silindi', 'success');
+      await onSaved();
+    } catch (err) {
+      const msg = isApiError(err) ? err.message : 'Ödeme silinirken hata oluştu';
+      showToast(msg, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Trafik Cezasını Düzenle</h2>
+          <p className="text-sm text-gray-600 mt-1">{fine.employee.fullName}</p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="tfe_date" className="block text-sm font-medium text-gray-700 mb-1">Tarih</label>
+              <input
+                id="tfe_date"
+                type="date"
+                value={fineDate}
+                onChange={(e) => setFineDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                disabled={isSaving}
+              />
+            </div>
+            <div>
+              <label htmlFor="tfe_notification" className="block text-sm font-medium text-gray-700 mb-1">Tebliğ Tarihi</label>
+              <input
+                id="tfe_notification"
+                type="date"
+                value={notificationDate}
+                min={fineDate}
+                onChange={(e) => setNotificationDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="tfe_amount" className="block text-sm font-medium text-gray-700 mb-1">Ceza Tutarı (₺)</label>
+            <input
+              id="tfe_amount"
+              type="number"
+              value={amount}
+              onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+              min="0"
+              step="0.01"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              disabled={isSaving}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="tfe_desc" className="block text-sm font-medium text-gray-700 mb-1">Açıklama (opsiyonel)</label>
+            <input
+              id="tfe_desc"
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              disabled={isSaving}
+            />
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Ödemeler</h3>
+            {fine.payments.length === 0 ? (
+              <p className="text-sm text-gray-500">Henüz ödeme yok.</p>
+            ) : (
+              <div className="border border-gray-200 rounded-md divide-y divide-gray-200">
+                {fine.payments.map((payment) =>
+                  editingPaymentId === payment.id ? (
+                    <div key={payment.id} className="flex items-center gap-2 px-3 py-2">
+                      <input
+                        type="date"
+                        value={paymentDate}
+                        onChange={(e) => setPaymentDate(e.target.value)}
+                        className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+                        disabled={isSaving}
+                      />
+                      <input
+                        type="number"
+                        value={paymentAmount}
+                        onChange={(e) => setPaymentAmount(parseFloat(e.target.value) || 0)}
+                        min="0"
+                        step="0.01"
+                        className="w-28 px-2 py-1 text-sm border border-gray-300 rounded-md"
+                        disabled={isSaving}
+                      />
+                      <button
+                        type="button"
+                        onClick={handlePaymentSave}
+                        className="text-sm text-indigo-600 hover:text-indigo-900"
+                        disabled={isSaving}
+                      >
+                        Kaydet
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setEditingPaymentId(null)}
+                        className="text-sm text-gray-600 hover:text-gray-900"
+                        disabled={isSaving}
+                      >
+                        Vazgeç
+                      </button>
+                    </div>
+                  ) : (
+                    <div key={payment.id}>
+                      <div className="flex items-center justify-between px-3 py-2 text-sm">
+                        <span className="text-gray-700">
+                          {new Date(payment.paymentDate).toLocaleDateString('tr-TR')}
+                          {deductionPaymentIds.has(payment.id) ? (
+                            <span className="ml-2 inline-flex items-center rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800">
+                              Maaş kesintisi
+                            </span>
+                          ) : null}
+                        </span>
+                        <div className="flex items-center gap-3">
+                          <span className="font-medium text-gray-900">{payment.amount.toFixed(2)} ₺</span>
+                          <button
+                            type="button"
+                            onClick={() => setReceiptPaymentId(receiptPaymentId === payment.id ? null : payment.id)}
+                            className="text-slate-600 hover:text-slate-900"
+                          >
+                            Dekont
+                          </button>
+                          {!deductionPaymentIds.has(payment.id) ? (
+                            <>
+                              <button
+                                type="button"
+                                onClick={() => startPaymentEdit(payment.id, payment.paymentDate, payment.amount)}
+                                className="text-indigo-600 hover:text-indigo-900"
+                                disabled={isSaving}
+                              >
+                                Düzenle
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => handlePaymentDelete(payment.id)}
+                                className="text-red-600 hover:text-red-900"
+                                disabled={isSaving}
+                              >
+                                Sil
+                              </button>
+                            </>
+                          ) : null}
+                        </div>
+                      </div>
+                      {receiptPaymentId === payment.id ? (
+                        <div className="px-3 pb-3">
+                          <AttachmentList
+                            owner={{ trafficFinePaymentId: payment.id }}
+                            title="Ödeme Dekontu"
+                            emptyText="Bu ödemeye dekont eklenmemiş."
+                          />
+                        </div>
+                      ) : null}
+                    </div>
+                  )
+                )}
+              </div>
+            )}
+          </div>
+
+          <AttachmentList owner={{ trafficFineId: fine.id }} title="Ceza Belgeleri (tebligat vb.)" />
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+              disabled={isSaving}
+            >
+              İptal
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+              disabled={isSaving}
+            >
+              {isSaving ? 'Kaydediliyor...' : 'Kaydet'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+interface DeductionPlanModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  fine: TrafficFine | null;
+  onSaved: () => Promise<void>;
+}
+
+function DeductionPlanModal({ isOpen, onClose, fine, onSaved }: DeductionPlanModalProps) {
+  const { showToast } = useToast();
+  const { month: currentMonth, year: currentYear } = getCurrentPeriod();
+  const [startMonth, setStartMonth] = useState(currentMonth);
+  const [startYear, setStartYear] = useState(currentYear);
+  const [mode, setMode] = useState<'installments' | 'monthlyAmount'>('installments');
+  const [installments, setInstallments] = useState(1);
+  const [monthlyAmount, setMonthlyAmount] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setStartMonth(currentMonth);
+      setStartYear(currentYear);
+      setMode('installments');
+      setInstallments(1);
+      setMonthlyAmount(0);
+    }
+  }, [isOpen, currentMonth, currentYear]);
+
+  if (!isOpen || !fine) return null;
+
+  const remaining = fine.remainingAmount;
+  const pendingDeductions = fine.deductions.filter(isPendingDeduction);
+  const yearOptions = Array.from({ length: 4 }, (_, i) => currentYear - 1 + i);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (mode === 'monthlyAmount' && monthlyAmount <= 0) {
+      showToast('Aylık kesinti tutarı pozitif olmalıdır', 'error');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await setDeductionPlan(fine.id, {
+        startMonth,
+        startYear,
+        ...(mode === 'installments' ? { installments } : { monthlyAmount }),
+      });
+      showToast('Kesinti planı kaydedildi', 'success');
+      await onSaved();
+      onClose();
+    } catch (err) {
+      const msg = isApiError(err) ? err.message : 'Kesinti planı kaydedilemedi';
+      showToast(msg, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClear = async () => {
+    setIsSaving(true);
+    try {
+      await clearDeductionPlan(fine.id);
+      showToast('Bekleyen kesintiler kaldırıldı', 'success');
+      await onSaved();
+      onClose();
+    } catch (err) {
+      const msg = isApiError(err) ? err.message : 'Kesinti planı kaldırılamadı';
+      showToast(msg, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Maaştan Kesinti Planı</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            {fine.employee.fullName} · Kalan: <span className="font-medium">{remaining.toFixed(2)} ₺</span>
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {fine.deductions.length > 0 ? (
+            <div className="rounded-md border border-gray-200 divide-y divide-gray-100 text-sm">
+              {fine.deductions.map((line) => (
+                <div key={line.id} className="px-3 py-1.5 flex items-center justify-between">
+                  <span className="text-gray-700">{MONTH_NAMES[line.month]} {line.year}</span>
+                  <span className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900">{line.amount.toFixed(2)} ₺</span>
+                    {line.unpaidAmount > 0 ? (
+                      <span className="rounded-full bg-red-100 px-2 py-0.5 text-xs font-medium text-red-800">
+                        {line.unpaidAmount.toFixed(2)} ₺ kesilemedi
+                      </span>
+                    ) : line.paymentId ? (
+                      <span className="rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-800">Kesildi</span>
+                    ) : (
+                      <span className="rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800">Bekliyor</span>
+                    )}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : null}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="tfd_month" className="block text-sm font-medium text-gray-700 mb-1">Başlangıç Ayı</label>
+              <select
+                id="tfd_month"
+                value={startMonth}
+                onChange={(e) => setStartMonth(parseInt(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                disabled={isSaving}
+              >
+                {Object.entries(MONTH_NAMES).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="tfd_year" className="block text-sm font-medium text-gray-700 mb-1">Yıl</label>
+              <select
+                id="tfd_year"
+                value={startYear}
+                onChange={(e) => setStartYear(parseInt(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                disabled={isSaving}
+              >
+                {yearOptions.map((year) => (
+                  <option key={year} value={year}>{year}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="flex gap-4 text-sm">
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={mode === 'installments'} onChange={() => setMode('installments')} disabled={isSaving} />
+              Taksit sayısı
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={mode === 'monthlyAmount'} onChange={() => setMode('monthlyAmount')} disabled={isSaving} />
+              Aylık tutar
+            </label>
+          </div>
+
+          {mode === 'installments' ? (
+            <div>
+              <label htmlFor="tfd_installments" className="block text-sm font-medium text-gray-700 mb-1">Taksit Sayısı</label>
+              <input
+                id="tfd_installments"
+                type="number"
+                value={installments}
+                onChange={(e) => setInstallments(parseInt(e.target.value) || 1)}
+                min="1"
+                max="36"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                disabled={isSaving}
+              />
+            </div>
+          ) : (
+            <div>
+              <label htmlFor="tfd_monthly" className="block text-sm font-medium text-gray-700 mb-1">Aylık Kesinti (₺)</label>
+              <input
+                id="tfd_monthly"
+                type="number"
+                value={monthlyAmount}
+                onChange={(e) => setMonthlyAmount(parseFloat(e.target.value) || 0)}
+                min="0"
+                step="0.01"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                disabled={isSaving}
+              />
+            </div>
+          )}
+
+          <p className="text-xs text-gray-500">
+            Kesintiler ilgili ayların puantajında elden ödemeden düşülür; dönem kapanınca ödeme olarak işlenir.
+          </p>
+
+          <div className="flex justify-between pt-2">
+            <button
+              type="button"
+              onClick={handleClear}
+              className="px-4 py-2 text-sm font-medium text-red-600 hover:text-red-800 disabled:opacity-50"
+              disabled={isSaving || pendingDeductions.length === 0}
+            >
+              Bekleyenleri Kaldır
+            </button>
+            <div className="flex space-x-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+                disabled={isSaving}
+              >
+                İptal
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                disabled={isSaving || remaining <= 0}
+              >
+                {isSaving ? 'Kaydediliyor...' : 'Kaydet'}
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
 export default function TrafficFinesPage() {
   const { showToast } = useToast();
   const [searchParams] = useSearchParams();
 
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [selectedEmployeeId, setSelectedEmployeeId] = useState<string>('');
+  const [selectedStatus, setSelectedStatus] = useState<TrafficFineStatus | ''>('');
 
   const [fines, setFines] = useState<TrafficFine[]>([]);
+  const [expiringFines, setExpiringFines] = useState<TrafficFine[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
   const [createModalOpen, setCreateModalOpen] = useState(false);
@@ -281,6 +926,9 @@ export default function TrafficFinesPage() {
   const [paymentModalOpen, setPaymentModalOpen] = useState(false);
   const [payingFine, setPayingFine] = useState<TrafficFine | null>(null);
 
+  const [planningFine, setPlanningFine] = useState<TrafficFine | null>(null);
+  const [editingFine, setEditingFine] = useState<TrafficFine | null>(null);
+
   const [deleteModalOpen, setDeleteModalOpen] = useState(false);
   const [deletingFine, setDeletingFine] = useState<TrafficFine | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
@@ -307,8 +955,12 @@ export default function TrafficFinesPage() {
   const fetchFines = async (employeeId?: string) => {
     setIsLoading(true);
     try {
-      const data = await getTrafficFines(employeeId);
+      const [data, expiring] = await Promise.all([
+        getTrafficFines({ employeeId, status: selectedStatus || undefined }),
+        getExpiringDiscounts(EXPIRING_DISCOUNT_DAYS),
+      ]);
       setFines(data);
+      setExpiringFines(employeeId ? expiring.filter((fine) => fine.employeeId === employeeId) : expiring);
     } catch (err) {
       const msg = isApiError(err) ? err.message : 'Trafik cezaları yüklenirken hata oluştu';
       showToast(msg, 'error');
@@ -321,7 +973,7 @@ export default function TrafficFinesPage() {
     // If no employee selected, show all fines (still useful)
     fetchFines(selectedEmployeeId || undefined);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [selectedEmployeeId]);
+  }, [selectedEmployeeId, selectedStatus]);
 
   const formatCurrency = (amount: number) =>
     new Intl.NumberFormat('tr-TR', { style: 'currency', currency: 'TRY' }).format(amount);
@@ -345,11 +997,15 @@ export default function TrafficFinesPage() {
     }
   };
 
+  // Düzenleme penceresi açıkken ödeme değişince güncel kayıt gösterilir
+  useEffect(() => {
+    setEditingFine((current) => (current ? fines.find((fine) => fine.id === current.id) ?? current : null));
+  }, [fines]);
+
   const totalsByEmployee = useMemo(() => {
     const totals = new Map<string, { name: string; totalRemaining: number }>();
     fines.forEach((fine) => {
-      const paid = sumPayments(fine.payments);
-      const remaining = Math.max(0, fine.amount - paid);
+      const remaining = fine.remainingAmount;
       const current = totals.get(fine.employeeId);
       if (current) {
         current.totalRemaining += remaining;
@@ -406,10 +1062,64 @@ export default function TrafficFinesPage() {
                 ))}
               </select>
             </div>
+            <div>
+              <label htmlFor="tf_status" className="block text-sm font-medium text-gray-700 mb-1">Durum</label>
+              <select
+                id="tf_status"
+                value={selectedStatus}
+                onChange={(e) => setSelectedStatus(e.target.value as TrafficFineStatus | '')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="">(Tümü)</option>
+                {(Object.keys(TRAFFIC_FINE_STATUS_LABELS) as TrafficFineStatus[]).map((status) => (
+                  <option key={status} value={status}>
+                    {TRAFFIC_FINE_STATUS_LABELS[status]}
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
         </div>
       </div>
 
+      {expiringFines.length > 0 ? (
+        <div className="bg-amber-50 border border-amber-200 shadow rounded-lg overflow-hidden">
+          <div className="px-4 sm:px-6 py-3 border-b border-amber-200">
+            <h2 className="text-base font-semibold text-amber-900">İndirim Süresi Dolmak Üzere</h2>
+            <p className="text-xs text-amber-800 mt-0.5">
+              %25 indirim süresi {EXPIRING_DISCOUNT_DAYS} gün içinde dolacak cezalar
+            </p>
+          </div>
+          <div className="divide-y divide-amber-100">
+            {expiringFines.map((fine) => {
+              const daysLeft = daysUntil(fine.discountDeadline);
+              return (
+                <div key={fine.id} className="px-4 sm:px-6 py-2 flex items-center justify-between gap-4 text-sm">
+                  <div>
+                    <span className="font-medium text-gray-900">{fine.employee.fullName}</span>
+                    <span className="ml-2 text-gray-600">
+                      {formatDate(fine.discountDeadline)} · {daysLeft === 0 ? 'bugün son gün' : `${daysLeft} gün kaldı`}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <span className="font-semibold text-gray-900">{formatCurrency(fine.payableAmount)}</span>
+                    <button
+                      onClick={() => {
+                        setPayingFine(fine);
+                        setPaymentModalOpen(true);
+                      }}
+                      className="text-indigo-600 hover:text-indigo-900"
+                    >
+                      Ödeme Ekle
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ) : null}
+
       <div className="bg-white shadow rounded-lg overflow-hidden">
         <div className="px-4 sm:px-6 py-4 border-b border-gray-200 flex items-center justify-between">
           <h2 className="text-base font-semibold text-gray-900">
@@ -436,6 +1146,9 @@ export default function TrafficFinesPage() {
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Ceza Tarihi
                     </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Son Ödeme
+                    </th>
                     <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Ceza
                     </th>
@@ -452,35 +1165,64 @@ export default function TrafficFinesPage() {
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
                   {fines.map((fine) => {
-                    const paid = sumPayments(fine.payments);
-                    const remaining = Math.max(0, fine.amount - paid);
-                    const isPaid = remaining === 0 && fine.amount > 0;
+                    const isPaid = fine.status === 'PAID' || fine.status === 'PAID_DISCOUNTED';
                     return (
                       <tr key={fine.id} className="hover:bg-gray-50">
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                           {fine.employee.fullName}
+                          {fine.vehicle ? (
+                            <div className="text-xs text-gray-500 mt-0.5">
+                              {fine.vehicle.plate}
+                              {fine.driverResolution && fine.driverResolution !== 'ASSIGNED' ? (
+                                <span className="ml-2 inline-flex items-center rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800">
+                                  {DRIVER_RESOLUTION_LABELS[fine.driverResolution]}
+                                </span>
+                              ) : null}
+                            </div>
+                          ) : null}
                           {fine.description ? (
                             <div className="text-xs text-gray-500 mt-0.5">{fine.description}</div>
                           ) : null}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
                           {formatDate(fine.fineDate)}
+                          {fine.notificationDate !== fine.fineDate ? (
+                            <div className="text-xs text-gray-500 mt-0.5">Tebliğ: {formatDate(fine.notificationDate)}</div>
+                          ) : null}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                          {formatDate(fine.dueDate)}
+                          {fine.discountAvailable ? (
+                            <div className="text-xs text-amber-700 mt-0.5">
+                              İndirim: {formatDate(fine.discountDeadline)}
+                            </div>
+                          ) : null}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 text-right">
                           {formatCurrency(fine.amount)}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 text-right">
-                          {formatCurrency(paid)}
+                          {formatCurrency(fine.paidAmount)}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 font-medium text-right">
                           <div className="flex items-center justify-end gap-2">
-                            {isPaid ? (
-                              <span className="inline-flex items-center rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-800">
-                                Ödendi
+                            <span
+                              className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_BADGE_CLASSES[fine.status]}`}
+                            >
+                              {TRAFFIC_FINE_STATUS_LABELS[fine.status]}
+                            </span>
+                            {fine.deductions.some(isPendingDeduction) ? (
+                              <span className="inline-flex items-center rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800">
+                                Maaştan kesiliyor
                               </span>
                             ) : null}
-                            <span>{formatCurrency(remaining)}</span>
+                            <span>{formatCurrency(fine.remainingAmount)}</span>
                           </div>
+                          {fine.discountAvailable ? (
+                            <div className="text-xs font-normal text-amber-700 mt-0.5">
+                              İndirimli: {formatCurrency(fine.payableAmount)}
+                            </div>
+                          ) : null}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
                           <div className="flex items-center justify-end gap-4">
@@ -493,6 +1235,18 @@ export default function TrafficFinesPage() {
                             >
                               Ödeme Ekle
                             </button>
+                            <button
+                              onClick={() => setPlanningFine(fine)}
+                              className={`text-indigo-600 hover:text-indigo-900 ${isPaid ? 'opacity-40 pointer-events-none' : ''}`}
+                            >
+                              Maaştan Kes
+                            </button>
+                            <button
+                              onClick={() => setEditingFine(fine)}
+                              className="text-indigo-600 hover:text-indigo-900"
+                            >
+                              Düzenle
+                            </button>
                             <button
                               onClick={() => {
                                 setDeletingFine(fine);
@@ -553,6 +1307,20 @@ export default function TrafficFinesPage() {
         onSaved={async () => fetchFines(selectedEmployeeId || undefined)}
       />
 
+      <DeductionPlanModal
+        isOpen={planningFine !== null}
+        onClose={() => setPlanningFine(null)}
+        fine={planningFine}
+        onSaved={async () => fetchFines(selectedEmployeeId || undefined)}
+      />
+
+      <EditFineModal
+        isOpen={editingFine !== null}
+        onClose={() => setEditingFine(null)}
+        fine={editingFine}
+        onSaved={async () => fetchFines(selectedEmployeeId || undefined)}
+      />
+
       {/* Delete confirm modal */}
       {deleteModalOpen && deletingFine ? (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
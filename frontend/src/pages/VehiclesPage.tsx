@@ -0,0 +1,609 @@
+import { FormEvent, useEffect, useState } from 'react';
+import { Employee, getAllEmployees, isApiError } from '../api/employee';
+import {
+  VehicleDetail,
+  VehicleListItem,
+  VehicleStatus,
+  VEHICLE_STATUS_LABELS,
+  createVehicle,
+  createVehicleAssignment,
+  deleteVehicle,
+  deleteVehicleAssignment,
+  getVehicle,
+  getVehicles,
+  updateVehicle,
+  updateVehicleAssignment,
+} from '../api/vehicle';
+import { useToast } from '../context/ToastContext';
+
+const STATUS_CLASSES: Record<VehicleStatus, string> = {
+  ACTIVE: 'bg-green-100 text-green-800',
+  IN_SERVICE: 'bg-amber-100 text-amber-800',
+  RETIRED: 'bg-gray-100 text-gray-700',
+};
+
+const formatDate = (d: string) => new Date(d).toLocaleDateString('tr-TR', { timeZone: 'UTC' });
+
+// 34ABC123 -> 34 ABC 123
+const formatPlate = (plate: string) => plate.replace(/^(\d{2})([A-Z]+)(\d+)$/, '$1 $2 $3');
+
+interface VehicleFormModalProps {
+  vehicle: VehicleListItem | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: () => Promise<void>;
+}
+
+function VehicleFormModal({ vehicle, isOpen, onClose, onSaved }: VehicleFormModalProps) {
+  const { showToast } = useToast();
+  const [plate, setPlate] = useState('');
+  const [model, setModel] = useState('');
+  const [status, setStatus] = useState<VehicleStatus>('ACTIVE');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setPlate(vehicle ? formatPlate(vehicle.plate) : '');
+      setModel(vehicle?.model ?? '');
+      setStatus(vehicle?.status ?? 'ACTIVE');
+      setNote(vehicle?.note ?? '');
+    }
+  }, [isOpen, vehicle]);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!plate.trim() || !model.trim()) {
+      showToast('Plaka ve model zorunludur', 'error');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const input = { plate, model: model.trim(), status, note: note.trim() ? note.trim() : null };
+      if (vehicle) {
+        await updateVehicle(vehicle.id, input);
+        showToast('Araç güncellendi', 'success');
+      } else {
+        await createVehicle(input);
+        showToast('Araç eklendi', 'success');
+      }
+      await onSaved();
+      onClose();
+    } catch (err) {
+      const message = isApiError(err) ? err.message : 'Araç kaydedilemedi';
+      showToast(message, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">{vehicle ? 'Aracı Düzenle' : 'Araç Ekle'}</h2>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="veh_plate" className="block text-sm font-medium text-gray-700 mb-1">Plaka</label>
+              <input
+                id="veh_plate"
+                type="text"
+                value={plate}
+                onChange={(e) => setPlate(e.target.value.toLocaleUpperCase('tr-TR'))}
+                placeholder="34 ABC 123"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                disabled={isSaving}
+              />
+            </div>
+            <div>
+              <label htmlFor="veh_status" className="block text-sm font-medium text-gray-700 mb-1">Durum</label>
+              <select
+                id="veh_status"
+                value={status}
+                onChange={(e) => setStatus(e.target.value as VehicleStatus)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                disabled={isSaving}
+              >
+                {(Object.keys(VEHICLE_STATUS_LABELS) as VehicleStatus[]).map((value) => (
+                  <option key={value} value={value}>
+                    {VEHICLE_STATUS_LABELS[value]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="veh_model" className="block text-sm font-medium text-gray-700 mb-1">Model</label>
+            <input
+              id="veh_model"
+              type="text"
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
+              placeholder="Ford Transit 2022"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              disabled={isSaving}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="veh_note" className="block text-sm font-medium text-gray-700 mb-1">Not (opsiyonel)</label>
+            <input
+              id="veh_note"
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              disabled={isSaving}
+            />
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+              disabled={isSaving}
+            >
+              İptal
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+              disabled={isSaving}
+            >
+              {isSaving ? 'Kaydediliyor...' : 'Kaydet'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+interface AssignmentsModalProps {
+  vehicleId: string | null;
+  employees: Employee[];
+  onClose: () => void;
+  onChanged: () => Promise<void>;
+}
+
+function AssignmentsModal({ vehicleId, employees, onClose, onChanged }: AssignmentsModalProps) {
+  const { showToast } = useToast();
+  const today = new Date().toISOString().split('T')[0];
+  const [vehicle, setVehicle] = useState<VehicleDetail | null>(null);
+  const [employeeId, setEmployeeId] = useState('');
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState('');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadVehicle = async (id: string) => {
+    try {
+      setVehicle(await getVehicle(id));
+    } catch (err) {
+      const message = isApiError(err) ? err.message : 'Araç yüklenemedi';
+      showToast(message, 'error');
+    }
+  };
+
+  useEffect(() => {
+    setVehicle(null);
+    if (vehicleId) {
+      setEmployeeId('');
+      setStartDate(today);
+      setEndDate('');
+      setNote('');
+      loadVehicle(vehicleId);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [vehicleId]);
+
+  if (!vehicleId) return null;
+
+  const refresh = async () => {
+    await Promise.all([loadVehicle(vehicleId), onChanged()]);
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!employeeId) {
+      showToast('Lütfen çalışan seçin', 'error');
+      return;
+    }
+    if (endDate && endDate < startDate) {
+      showToast('Bitiş tarihi başlangıçtan önce olamaz', 'error');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await createVehicleAssignment(vehicleId, {
+        employeeId,
+        startDate,
+        endDate: endDate || null,
+        note: note.trim() ? note.trim() : null,
+      });
+      showToast('Zimmet eklendi', 'success');
+      setEmployeeId('');
+      setEndDate('');
+      setNote('');
+      await refresh();
+    } catch (err) {
+      const message = isApiError(err) ? err.message : 'Zimmet eklenemedi';
+      showToast(message, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEnd = async (assignmentId: string) => {
+    setIsSaving(true);
+    try {
+      await updateVehicleAssignment(vehicleId, assignmentId, { endDate: today });
+      showToast('Zimmet bugün itibarıyla sonlandırıldı', 'success');
+      await refresh();
+    } catch (err) {
+      const message = isApiError(err) ? err.message : 'Zimmet güncellenemedi';
+      showToast(message, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (assignmentId: string, name: string) => {
+    const confirmed = window.confirm(`${name} zimmet kaydı silinsin mi?`);
+    if (!confirmed) return;
+
+    setIsSaving(true);
+    try {
+      await deleteVehicleAssignment(vehicleId, assignmentId);
+      showToast('Zimmet silindi', 'success');
+      await refresh();
+    } catch (err) {
+      const message = isApiError(err) ? err.message : 'Zimmet silinemedi';
+      showToast(message, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const flaggedIds = new Set(vehicle?.issues.flatMap((issue) => issue.assignmentIds) ?? []);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Zimmet Geçmişi</h2>
+          {vehicle ? (
+            <p className="text-sm text-gray-600 mt-1">
+              {formatPlate(vehicle.plate)} · {vehicle.model}
+            </p>
+          ) : null}
+        </div>
+
+        <div className="p-6 space-y-4">
+          {!vehicle ? (
+            <div className="text-center text-gray-600">Yükleniyor...</div>
+          ) : (
+            <>
+              {vehicle.issues.length > 0 ? (
+                <div className="rounded-md bg-amber-50 border border-amber-200 px-4 py-3 text-sm text-amber-800 space-y-1">
+                  {vehicle.issues.map((issue, index) => (
+                    <div key={index}>
+                      {issue.type === 'OVERLAP' ? 'Çakışma' : 'Boşluk'}: {formatDate(issue.from)}
+                      {' – '}
+                      {issue.to ? formatDate(issue.to) : 'devam ediyor'}
+                      {issue.type === 'OVERLAP'
+                        ? ' (bu tarihlerdeki cezalarda sorumlu elle seçilmeli)'
+                        : ' (bu tarihlerde araç kimseye zimmetli değil)'}
+                    </div>
+                  ))}
+                </div>
+              ) : null}
+
+              {vehicle.assignments.length === 0 ? (
+                <p className="text-sm text-gray-500">Henüz zimmet kaydı yok.</p>
+              ) : (
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Çalışan</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Başlangıç</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Bitiş</th>
+                      <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">İşlem</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {vehicle.assignments.map((assignment) => (
+                      <tr key={assignment.id} className={flaggedIds.has(assignment.id) ? 'bg-amber-50' : ''}>
+                        <td className="px-3 py-2 text-gray-900">
+                          {assignment.employee.fullName}
+                          {assignment.note ? <div className="text-xs text-gray-500">{assignment.note}</div> : null}
+                        </td>
+                        <td className="px-3 py-2 text-gray-700">{formatDate(assignment.startDate)}</td>
+                        <td className="px-3 py-2 text-gray-700">
+                          {assignment.endDate ? formatDate(assignment.endDate) : 'Devam ediyor'}
+                        </td>
+                        <td className="px-3 py-2 text-right whitespace-nowrap space-x-3">
+                          {!assignment.endDate ? (
+                            <button
+                              onClick={() => handleEnd(assignment.id)}
+                              className="text-indigo-600 hover:text-indigo-900"
+                              disabled={isSaving}
+                            >
+                              Bugün Bitir
+                            </button>
+                          ) : null}
+                          <button
+                            onClick={() => handleDelete(assignment.id, assignment.employee.fullName)}
+                            className="text-red-600 hover:text-red-900"
+                            disabled={isSaving}
+                          >
+                            Sil
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              <form onSubmit={handleSubmit} className="border-t border-gray-200 pt-4 grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+                <div className="md:col-span-2">
+                  <label htmlFor="asg_employee" className="block text-sm font-medium text-gray-700 mb-1">Çalışan</label>
+                  <select
+                    id="asg_employee"
+                    value={employeeId}
+                    onChange={(e) => setEmployeeId(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    disabled={isSaving}
+                  >
+                    <option value="">Seçiniz</option>
+                    {employees.map((employee) => (
+                      <option key={employee.id} value={employee.id}>
+                        {employee.fullName}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="asg_start" className="block text-sm font-medium text-gray-700 mb-1">Başlangıç</label>
+                  <input
+                    id="asg_start"
+                    type="date"
+                    value={startDate}
+                    onChange={(e) => setStartDate(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    disabled={isSaving}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="asg_end" className="block text-sm font-medium text-gray-700 mb-1">Bitiş (opsiyonel)</label>
+                  <input
+                    id="asg_end"
+                    type="date"
+                    value={endDate}
+                    min={startDate}
+                    onChange={(e) => setEndDate(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    disabled={isSaving}
+                  />
+                </div>
+                <div className="md:col-span-3">
+                  <label htmlFor="asg_note" className="block text-sm font-medium text-gray-700 mb-1">Not (opsiyonel)</label>
+                  <input
+                    id="asg_note"
+                    type="text"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    disabled={isSaving}
+                  />
+                </div>
+                <button
+                  type="submit"
+                  className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                  disabled={isSaving}
+                >
+                  Zimmet Ekle
+                </button>
+              </form>
+            </>
+          )}
+
+          <div className="flex justify-end pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+            >
+              Kapat
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function VehiclesPage() {
+  const { showToast } = useToast();
+  const [vehicles, setVehicles] = useState<VehicleListItem[]>([]);
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [statusFilter, setStatusFilter] = useState<VehicleStatus | ''>('');
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingVehicle, setEditingVehicle] = useState<VehicleListItem | null>(null);
+  const [historyVehicleId, setHistoryVehicleId] = useState<string | null>(null);
+
+  const fetchVehicles = async () => {
+    setIsLoading(true);
+    try {
+      setVehicles(await getVehicles(statusFilter || undefined));
+    } catch (err) {
+      const message = isApiError(err) ? err.message : 'Araçlar yüklenemedi';
+      showToast(message, 'error');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchVehicles();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [statusFilter]);
+
+  useEffect(() => {
+    getAllEmployees()
+      .then((data) => setEmployees(data.sort((a, b) => a.fullName.localeCompare(b.fullName, 'tr-TR'))))
+      .catch(() => showToast('Çalışanlar yüklenemedi', 'error'));
+  }, [showToast]);
+
+  const handleDelete = async (vehicle: VehicleListItem) => {
+    const confirmed = window.confirm(`${formatPlate(vehicle.plate)} plakalı araç silinsin mi?`);
+    if (!confirmed) return;
+
+    try {
+      await deleteVehicle(vehicle.id);
+      showToast('Araç silindi', 'success');
+      await fetchVehicles();
+    } catch (err) {
+      const message = isApiError(err) ? err.message : 'Araç silinemedi';
+      showToast(message, 'error');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg">
+        <div className="px-4 sm:px-6 py-4 border-b border-gray-200 flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-xl font-semibold text-gray-900">Araçlar</h1>
+            <p className="text-sm text-gray-600 mt-1">
+              Şirket araçları ve sürücü zimmetleri. Trafik cezalarında sorumlu çalışan bu geçmişten bulunur.
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as VehicleStatus | '')}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value="">Tüm durumlar</option>
+              {(Object.keys(VEHICLE_STATUS_LABELS) as VehicleStatus[]).map((value) => (
+                <option key={value} value={value}>
+                  {VEHICLE_STATUS_LABELS[value]}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => {
+                setEditingVehicle(null);
+                setFormOpen(true);
+              }}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              Araç Ekle
+            </button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="p-10 text-center text-gray-600">Yükleniyor...</div>
+        ) : vehicles.length === 0 ? (
+          <div className="p-10 text-center text-gray-500">Henüz araç kaydı yok.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Plaka</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Model</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Durum</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Bugünkü Sürücü</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Ceza</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">İşlem</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {vehicles.map((vehicle) => (
+                  <tr key={vehicle.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {formatPlate(vehicle.plate)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                      {vehicle.model}
+                      {vehicle.note ? <div className="text-xs text-gray-500 mt-0.5">{vehicle.note}</div> : null}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <span className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_CLASSES[vehicle.status]}`}>
+                        {VEHICLE_STATUS_LABELS[vehicle.status]}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                      {vehicle.currentAssignments.length === 0
+                        ? <span className="text-gray-400">Zimmet yok</span>
+                        : vehicle.currentAssignments.map((assignment) => assignment.employee.fullName).join(', ')}
+                      {vehicle.issueCount > 0 ? (
+                        <span className="ml-2 inline-flex items-center rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800">
+                          {vehicle.issueCount} zimmet sorunu
+                        </span>
+                      ) : null}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 text-right">
+                      {vehicle._count.trafficFines}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                      <div className="flex items-center justify-end gap-4">
+                        <button
+                          onClick={() => setHistoryVehicleId(vehicle.id)}
+                          className="text-indigo-600 hover:text-indigo-900"
+                        >
+                          Zimmetler
+                        </button>
+                        <button
+                          onClick={() => {
+                            setEditingVehicle(vehicle);
+                            setFormOpen(true);
+                          }}
+                          className="text-indigo-600 hover:text-indigo-900"
+                        >
+                          Düzenle
+                        </button>
+                        <button onClick={() => handleDelete(vehicle)} className="text-red-600 hover:text-red-900">
+                          Sil
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <VehicleFormModal
+        vehicle={editingVehicle}
+        isOpen={formOpen}
+        onClose={() => setFormOpen(false)}
+        onSaved={fetchVehicles}
+      />
+
+      <AssignmentsModal
+        vehicleId={historyVehicleId}
+        employees={employees}
+        onClose={() => setHistoryVehicleId(null)}
+        onChanged={fetchVehicles}
+      />
+    </div>
+  );
+}